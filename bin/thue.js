@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+// CLI tính thuế - build trước bằng: npm run build:cli
+const { main } = require('../dist/cli/index.js');
+
+// Cho phép nối ống vào head/less mà không báo lỗi EPIPE
+process.stdout.on('error', (error) => {
+  if (error.code === 'EPIPE') process.exit(process.exitCode ?? 0);
+  throw error;
+});
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,126 @@
+// Sinh JSON Schema đầu vào/đầu ra cho từng lệnh CLI từ chữ ký TypeScript
+// của COMMANDS[*].run trong src/cli/commands.ts.
+//
+//   node scripts/generate-cli-schemas.mjs          # ghi src/cli/schemas.generated.json
+//   node scripts/generate-cli-schemas.mjs --check  # báo lỗi nếu file đang lệch
+
+import ts from 'typescript';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { createSchemaConverter } from './json-schema-from-types.mjs';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const rootDir = join(__dirname, '..');
+const commandsFile = join(rootDir, 'src/cli/commands.ts');
+const outputFile = join(rootDir, 'src/cli/schemas.generated.json');
+
+const configPath = join(rootDir, 'tsconfig.json');
+const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+const { options } = ts.parseJsonConfigFileContent(config, ts.sys, rootDir);
+
+const program = ts.createProgram([commandsFile], { ...options, noEmit: true });
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(commandsFile);
+
+const { toSchema, definitions } = createSchemaConverter(checker, sourceFile);
+
+function findCommandsDeclaration() {
+  let found;
+  ts.forEachChild(sourceFile, (node) => {
+    if (!ts.isVariableStatement(node)) return;
+    for (const declaration of node.declarationList.declarations) {
+      if (ts.isIdentifier(declaration.name) && declaration.name.text === 'COMMANDS') {
+        found = declaration;
+      }
+    }
+  });
+  if (!found) throw new Error('Không tìm thấy COMMANDS trong src/cli/commands.ts');
+  return found;
+}
+
+const declaration = findCommandsDeclaration();
+const commandsType = checker.getTypeAtLocation(declaration.name);
+const commands = {};
+
+for (const command of checker.getPropertiesOfType(commandsType)) {
+  const commandType = checker.getTypeOfSymbolAtLocation(command, declaration);
+  const run = commandType.getProperty('run');
+  const [signature] = checker.getTypeOfSymbolAtLocation(run, declaration).getCallSignatures();
+  const [parameter] = signature.getParameters();
+
+  commands[command.name] = {
+    input: toSchema(checker.getTypeOfSymbolAtLocation(parameter, declaration)),
+    output: toSchema(signature.getReturnType()),
+  };
+}
+
+// Ràng buộc giá trị cho các trường số trong đầu vào: số tiền, số lượng, tỷ lệ...
+// đều không âm; tháng nằm trong 1-12; số người/năm/tháng đếm phải là số nguyên.
+// Chỉ áp cho cây đầu vào - đầu ra (chênh lệch, hoàn thuế...) có thể âm.
+const MONTH_FIELDS = new Set(['month', 'fromMonth', 'toMonth', 'birthMonth']);
+const MONTH_COUNT_FIELDS = new Set(['occupiedMonths', 'operatingMonths']);
+const INTEGER_FIELDS = new Set([
+  'dependents', 'dependentsByMonth', 'year', 'taxYear', 'fromYear', 'toYear', 'birthYear',
+  'contributionStartYear', 'contributionYears', 'contributionMonths', 'preferentialMonths',
+  'gracePeriodMonths', 'loanTermYears', 'numberOfShares', 'shares', 'daysInVietnam',
+  'workingDaysPerMonth', 'line',
+]);
+const PERCENT_FIELDS = new Set(['downPaymentPercent']);
+
+function numberConstraints(name) {
+  if (MONTH_FIELDS.has(name)) return { type: 'integer', minimum: 1, maximum: 12 };
+  if (MONTH_COUNT_FIELDS.has(name)) return { type: 'integer', minimum: 0, maximum: 12 };
+  if (INTEGER_FIELDS.has(name)) return { type: 'integer', minimum: 0 };
+  if (PERCENT_FIELDS.has(name)) return { minimum: 0, maximum: 100 };
+  return { minimum: 0 };
+}
+
+function constrainNumber(name, schema) {
+  if (schema.type === 'number') Object.assign(schema, numberConstraints(name));
+  else if (schema.type === 'array' && schema.items) constrainNumber(name, schema.items);
+  for (const member of schema.anyOf ?? []) constrainNumber(name, member);
+}
+
+function constrainInput(schema, visited = new Set()) {
+  if (!schema || typeof schema !== 'object') return;
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    if (visited.has(name)) return;
+    visited.add(name);
+    constrainInput(definitions[name], visited);
+    return;
+  }
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    constrainNumber(name, property);
+    constrainInput(property, visited);
+  }
+  constrainInput(schema.items, visited);
+  constrainInput(schema.additionalProperties, visited);
+  for (const member of schema.anyOf ?? []) constrainInput(member, visited);
+}
+
+const constrained = new Set();
+for (const { input } of Object.values(commands)) constrainInput(input, constrained);
+
+const output = JSON.stringify(
+  {
+    $comment: 'Sinh tự động bởi scripts/generate-cli-schemas.mjs - không sửa tay',
+    commands,
+    definitions,
+  },
+  null,
+  2
+) + '\n';
+
+if (process.argv.includes('--check')) {
+  const current = existsSync(outputFile) ? readFileSync(outputFile, 'utf8') : '';
+  if (current !== output) {
+    console.error('src/cli/schemas.generated.json đã cũ - chạy: npm run cli:schemas');
+    process.exit(1);
+  }
+  console.log('Schema CLI khớp với các interface TypeScript');
+} else {
+  writeFileSync(outputFile, output);
+  console.log(`Đã ghi ${Object.keys(commands).length} lệnh, ${Object.keys(definitions).length} định nghĩa → src/cli/schemas.generated.json`);
+}
@@ -0,0 +1,131 @@
+// Sinh hai file từ interface CalculatorSnapshot trong src/lib/snapshotTypes.ts:
+// - snapshotFields.generated.json: từ điển tên trường cho codec nhị phân của link
+//   chia sẻ (snapshotBinaryCodec.ts). Mã số của trường là vị trí trong danh sách:
+//   tên cũ giữ nguyên vị trí (kể cả khi trường đã bị xóa) và tên mới chỉ được thêm
+//   vào cuối, để link đã chia sẻ vẫn đọc được.
+// - snapshotSchema.generated.json: JSON Schema để kiểm tra snapshot giải mã/nhập
+//   vào (snapshotValidation.ts).
+//
+//   node scripts/generate-snapshot-schemas.mjs          # ghi cả hai file
+//   node scripts/generate-snapshot-schemas.mjs --check  # báo lỗi nếu file đang lệch
+
+import ts from 'typescript';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { createSchemaConverter, isFunctionType } from './json-schema-from-types.mjs';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const rootDir = join(__dirname, '..');
+const typesFile = join(rootDir, 'src/lib/snapshotTypes.ts');
+const fieldsFile = join(rootDir, 'src/lib/snapshotFields.generated.json');
+const schemaFile = join(rootDir, 'src/lib/snapshotSchema.generated.json');
+
+const configPath = join(rootDir, 'tsconfig.json');
+const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+const { options } = ts.parseJsonConfigFileContent(config, ts.sys, rootDir);
+
+const program = ts.createProgram([typesFile], { ...options, noEmit: true });
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(typesFile);
+
+function findInterface(name) {
+  let found;
+  ts.forEachChild(sourceFile, (node) => {
+    if (ts.isInterfaceDeclaration(node) && node.name.text === name) found = node;
+  });
+  if (!found) throw new Error(`Không tìm thấy ${name} trong src/lib/snapshotTypes.ts`);
+  return checker.getTypeAtLocation(found.name);
+}
+
+// Duyệt theo chiều rộng để trường ở tầng ngoài (dùng nhiều nhất) có mã nhỏ
+const discovered = [];
+const seenNames = new Set();
+const seenTypes = new Set();
+const snapshotType = findInterface('CalculatorSnapshot');
+const queue = [snapshotType];
+
+while (queue.length > 0) {
+  const type = queue.shift();
+  if (seenTypes.has(type)) continue;
+  seenTypes.add(type);
+
+  if (type.isUnion() || type.isIntersection()) {
+    queue.push(...type.types);
+    continue;
+  }
+  if (!(type.flags & ts.TypeFlags.Object)) continue;
+  // Ngày được lưu dạng chuỗi ISO, không cần tên trường của Date
+  if (type.symbol?.name === 'Date') continue;
+
+  if (checker.isArrayType(type) || checker.isTupleType(type)) {
+    queue.push(...checker.getTypeArguments(type));
+    continue;
+  }
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const propertyType = checker.getTypeOfSymbolAtLocation(property, sourceFile);
+    if (isFunctionType(propertyType)) continue;
+    if (!seenNames.has(property.name)) {
+      seenNames.add(property.name);
+      discovered.push(property.name);
+    }
+    queue.push(propertyType);
+  }
+
+  // Khóa của Record là dữ liệu, chỉ duyệt kiểu giá trị
+  for (const indexInfo of checker.getIndexInfosOfType(type)) {
+    queue.push(indexInfo.type);
+  }
+}
+
+const existing = existsSync(fieldsFile) ? JSON.parse(readFileSync(fieldsFile, 'utf8')).fields : [];
+const existingNames = new Set(existing);
+const fields = [...existing, ...discovered.filter((name) => !existingNames.has(name))];
+
+// Chú thích không cần cho việc kiểm tra, bỏ đi để file nhỏ (được đóng gói vào trang)
+const { toSchema, definitions } = createSchemaConverter(checker, sourceFile, { descriptions: false });
+const root = toSchema(snapshotType);
+
+const outputs = [
+  {
+    file: fieldsFile,
+    content: JSON.stringify(
+      {
+        $comment: 'Sinh tự động bởi scripts/generate-snapshot-schemas.mjs - không sửa tay, không xóa hay đổi thứ tự',
+        fields,
+      },
+      null,
+      2
+    ) + '\n',
+  },
+  {
+    file: schemaFile,
+    content: JSON.stringify(
+      {
+        $comment: 'Sinh tự động bởi scripts/generate-snapshot-schemas.mjs - không sửa tay',
+        root,
+        definitions,
+      },
+      null,
+      2
+    ) + '\n',
+  },
+];
+
+if (process.argv.includes('--check')) {
+  const stale = outputs.filter(({ file, content }) => (existsSync(file) ? readFileSync(file, 'utf8') : '') !== content);
+  if (stale.length > 0) {
+    for (const { file } of stale) {
+      console.error(`${file.slice(rootDir.length + 1)} đã cũ - chạy: npm run snapshot:schemas`);
+    }
+    process.exit(1);
+  }
+  console.log('Từ điển trường và schema snapshot khớp với các interface TypeScript');
+} else {
+  for (const { file, content } of outputs) writeFileSync(file, content);
+  console.log(
+    `Đã ghi ${fields.length} trường (${fields.length - existing.length} trường mới), ` +
+      `${Object.keys(definitions).length} định nghĩa → src/lib/snapshot{Fields,Schema}.generated.json`
+  );
+}
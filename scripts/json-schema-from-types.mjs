@@ -0,0 +1,118 @@
+// Chuyển kiểu TypeScript sang JSON Schema (tập con mà src/cli/schema.ts và
+// src/lib/snapshotValidation.ts hiểu được). Dùng chung cho:
+//   scripts/generate-cli-schemas.mjs
+//   scripts/generate-snapshot-schemas.mjs
+
+import ts from 'typescript';
+
+// Kiểu generic/tiện ích không đặt tên định nghĩa riêng
+const INLINE_NAMES = new Set(['__type', '__object', 'Record', 'Partial', 'Pick', 'Omit', 'Required', 'Readonly']);
+
+/**
+ * Tạo bộ chuyển đổi gắn với một type checker
+ * location: node dùng để lấy kiểu của property (thường là source file)
+ * descriptions: có ghi chú thích của trường vào schema không
+ */
+export function createSchemaConverter(checker, location, { descriptions = true } = {}) {
+  const definitions = {};
+  const definitionNames = new Map(); // ts.Type -> tên trong definitions
+
+  /** Lấy chú thích `// ...` cuối dòng (style của repo) hoặc JSDoc làm description */
+  function getDescription(symbol) {
+    const jsDoc = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim();
+    if (jsDoc) return jsDoc;
+
+    const declaration = symbol.declarations?.[0];
+    if (!declaration) return undefined;
+    const file = declaration.getSourceFile();
+    const comments = ts.getTrailingCommentRanges(file.text, declaration.end) ?? [];
+    const line = comments.find((c) => c.kind === ts.SyntaxKind.SingleLineCommentTrivia);
+    return line ? file.text.slice(line.pos + 2, line.end).trim() : undefined;
+  }
+
+  function literalUnionSchema(types) {
+    if (types.every((t) => t.isStringLiteral() || t.isNumberLiteral())) {
+      return { enum: types.map((t) => t.value) };
+    }
+    return undefined;
+  }
+
+  function toSchema(type) {
+    const { flags } = type;
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+    if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' };
+    if (flags & ts.TypeFlags.BooleanLiteral) return { type: 'boolean' };
+    if (flags & ts.TypeFlags.String) return { type: 'string' };
+    if (flags & ts.TypeFlags.Number) return { type: 'number' };
+    if (type.isStringLiteral() || type.isNumberLiteral()) return { const: type.value };
+    if (flags & ts.TypeFlags.Null) return { type: 'null' };
+
+    if (type.isUnion()) {
+      const members = type.types.filter((t) => !(t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+      // boolean được biểu diễn là true | false
+      const booleans = members.filter((t) => t.flags & ts.TypeFlags.BooleanLiteral);
+      const others = members.filter((t) => !(t.flags & ts.TypeFlags.BooleanLiteral));
+      const schemas = [];
+      if (booleans.length > 0) schemas.push({ type: 'boolean' });
+      if (others.length > 0) {
+        const literal = literalUnionSchema(others);
+        if (literal) schemas.push(literal);
+        else schemas.push(...others.map(toSchema));
+      }
+      return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+    }
+
+    if (type.symbol?.name === 'Date') return { type: 'string', format: 'date-time' };
+
+    if (checker.isArrayType(type) || checker.isTupleType(type)) {
+      const [itemType] = checker.getTypeArguments(type);
+      return { type: 'array', items: itemType ? toSchema(itemType) : {} };
+    }
+
+    if (flags & ts.TypeFlags.Object) {
+      const name = type.aliasSymbol?.name ?? type.symbol?.name;
+      if (!name || INLINE_NAMES.has(name)) return objectSchema(type);
+
+      if (!definitionNames.has(type)) {
+        let unique = name;
+        for (let i = 2; unique in definitions; i++) unique = `${name}${i}`;
+        definitionNames.set(type, unique);
+        definitions[unique] = {}; // giữ chỗ cho kiểu đệ quy
+        definitions[unique] = objectSchema(type);
+      }
+      return { $ref: `#/definitions/${definitionNames.get(type)}` };
+    }
+
+    return {};
+  }
+
+  function objectSchema(type) {
+    const properties = {};
+    const required = [];
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const propertyType = checker.getTypeOfSymbolAtLocation(property, location);
+      if (isFunctionType(propertyType)) continue;
+
+      const schema = toSchema(propertyType);
+      const description = descriptions ? getDescription(property) : undefined;
+      properties[property.name] = description ? { ...schema, description } : schema;
+      if (!(property.flags & ts.SymbolFlags.Optional)) required.push(property.name);
+    }
+
+    const schema = { type: 'object', properties };
+    if (required.length > 0) schema.required = required;
+
+    const indexInfo = checker.getIndexInfosOfType(type)[0];
+    if (indexInfo) schema.additionalProperties = toSchema(indexInfo.type);
+
+    return schema;
+  }
+
+  return { toSchema, definitions };
+}
+
+export function isFunctionType(type) {
+  return type.getCallSignatures().length > 0 && type.getProperties().length === 0;
+}
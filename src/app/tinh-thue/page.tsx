@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect, useMemo, lazy, Suspense } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef, lazy, Suspense } from 'react';
 import { usePathname } from 'next/navigation';
 import Header from '@/components/Header';
 
@@ -8,11 +8,13 @@ import Header from '@/components/Header';
 import TaxInput from '@/components/TaxInput';
 import TaxResult from '@/components/TaxResult';
 import TabNavigation, { type TabType, TAB_GROUPS } from '@/components/TabNavigation';
-import { SaveShareButton } from '@/components/SaveShare';
+import { SaveShareButton, MigrationNotice, PassphrasePrompt, SessionHistoryControls } from '@/components/SaveShare';
+import { TaxpayerProfileModal, ProfileOverrideNotice, DependentMonthNotice } from '@/components/TaxpayerProfile';
 import LawInfoModal from '@/components/ui/LawInfoModal';
 import LoadingSpinner, { TabLoadingSkeleton, ChartLoadingSkeleton } from '@/components/ui/LoadingSpinner';
 import { KeyboardShortcuts, ShortcutHelpHint } from '@/components/ui';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useSnapshotHistory } from '@/hooks/useSnapshotHistory';
 
 // Lazy-loaded components for better code splitting
 const TaxChart = lazy(() => import('@/components/TaxChart'));
@@ -59,6 +61,7 @@ const IncomeSummaryDashboard = lazy(() => import('@/components/IncomeSummaryDash
 const RegionComparison = lazy(() => import('@/components/RegionComparison'));
 const MonthlyPlanner = lazy(() => import('@/components/MonthlyPlanner'));
 const MortgageCalculator = lazy(() => import('@/components/MortgageCalculator').then(m => ({ default: m.MortgageCalculator })));
+const PayrollRoster = lazy(() => import('@/components/PayrollRoster'));
 import Footer from '@/components/Footer';
 import {
   calculateNewTax,
@@ -75,6 +78,7 @@ import {
 } from '@/lib/taxCalculator';
 import {
   CalculatorSnapshot,
+  CURRENT_SNAPSHOT_VERSION,
   EmployerCostTabState,
   FreelancerTabState,
   SalaryComparisonTabState,
@@ -119,8 +123,53 @@ import {
   DEFAULT_MONTHLY_PLANNER_STATE,
   MortgageTabState,
   DEFAULT_MORTGAGE_STATE,
+  SecuritiesTabState,
+  DEFAULT_SECURITIES_STATE,
+  RentalIncomeTabState,
+  DEFAULT_RENTAL_INCOME_STATE,
+  HouseholdBusinessTabState,
+  DEFAULT_HOUSEHOLD_BUSINESS_STATE,
+  RealEstateTransferTabState,
+  DEFAULT_REAL_ESTATE_TRANSFER_STATE,
+  InheritanceGiftTabState,
+  DEFAULT_INHERITANCE_GIFT_STATE,
+  ExemptionCheckerTabState,
+  DEFAULT_EXEMPTION_CHECKER_STATE,
+  TaxDocumentTabState,
+  DEFAULT_TAX_DOCUMENT_STATE,
+  SpecialIncomeTabState,
+  DEFAULT_SPECIAL_INCOME_STATE,
+  TaxDeadlineTabState,
+  DEFAULT_TAX_DEADLINE_STATE,
+  IncomeSummaryTabState,
+  DEFAULT_INCOME_SUMMARY_STATE,
+  RegionCompareTabState,
+  DEFAULT_REGION_COMPARE_STATE,
+  SalarySlipTabState,
+  DEFAULT_SALARY_SLIP_STATE,
+  TabStates,
+  TaxpayerProfile,
+  ProfileLinkedTab,
+  DEFAULT_TAXPAYER_PROFILE,
 } from '@/lib/snapshotTypes';
-import { decodeSnapshot, decodeLegacyURLParams, encodeSnapshot } from '@/lib/snapshotCodec';
+import {
+  decodeSnapshotWithReport,
+  decodeLegacyURLParamsWithReport,
+  encodeSnapshot,
+  isEncryptedHashContent,
+  decryptHashContent,
+} from '@/lib/snapshotCodec';
+import { SnapshotMigrationReport, hasMigrationChanges } from '@/lib/snapshotMigrations';
+import {
+  PROFILE_LINKED_TABS,
+  applyProfileToTab,
+  clearProfileOverride,
+  findProfileLinkedTab,
+  getProfileOverrides,
+  recordProfileOverrides,
+  resolveTaxpayerProfile,
+} from '@/lib/taxpayerProfile';
+import { countDependentsInMonth } from '@/lib/dependentRegistry';
 import { createDefaultCompanyOffer } from '@/lib/salaryComparisonCalculator';
 
 const defaultSharedState: SharedTaxState = {
@@ -143,7 +192,7 @@ const VALID_TABS: TabType[] = [
   'salary-compare', 'yearly', 'insurance', 'other-income', 'table', 'tax-history',
   'tax-calendar', 'salary-slip', 'exemption-checker', 'late-payment', 'business-form', 'severance',
   'tax-document', 'content-creator', 'crypto-tax', 'gold-tax', 'special-income', 'tax-deadline', 'income-summary',
-  'region-compare', 'monthly-planner', 'mua-nha'
+  'region-compare', 'monthly-planner', 'mua-nha', 'payroll-roster'
 ];
 
 // Flatten all tabs from TAB_GROUPS for keyboard navigation
@@ -158,10 +207,21 @@ export default function Home() {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isLawInfoOpen, setIsLawInfoOpen] = useState(false);
   const [isLoadingFromURL, setIsLoadingFromURL] = useState(false);
+  const [migrationReport, setMigrationReport] = useState<SnapshotMigrationReport | null>(null);
+  // Passphrase-protected link waiting to be unlocked (hash content without '#')
+  const [encryptedHash, setEncryptedHash] = useState<string | null>(null);
+  // Opened from a protected link: don't write state back into the URL
+  const [isProtectedSession, setIsProtectedSession] = useState(false);
 
   // Shared state across all tabs
   const [sharedState, setSharedState] = useState<SharedTaxState>(defaultSharedState);
 
+  // Taxpayer profile read by every tab (tabs may override single fields)
+  const [taxpayerProfile, setTaxpayerProfile] = useState<TaxpayerProfile>(DEFAULT_TAXPAYER_PROFILE);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  // Bumped when the profile rewrites the open tab, so it re-reads its tab state
+  const [profileRevision, setProfileRevision] = useState(0);
+
   // Tab-specific states (lifted from individual tab components)
   const [employerCostState, setEmployerCostState] = useState<EmployerCostTabState>({
     includeUnionFee: false,
@@ -195,15 +255,27 @@ export default function Home() {
   const [goldTaxState, setGoldTaxState] = useState<GoldTaxTabState>(DEFAULT_GOLD_TAX_STATE);
   const [monthlyPlannerState, setMonthlyPlannerState] = useState<MonthlyPlannerTabState>(DEFAULT_MONTHLY_PLANNER_STATE);
   const [mortgageState, setMortgageState] = useState<MortgageTabState>(DEFAULT_MORTGAGE_STATE);
-
-  // Tax calculation results
-  const [newResult, setNewResult] = useState<TaxResultType>(() =>
-    calculateNewTax(sharedState)
-  );
+  const [securitiesState, setSecuritiesState] = useState<SecuritiesTabState>(DEFAULT_SECURITIES_STATE);
+  const [rentalIncomeState, setRentalIncomeState] = useState<RentalIncomeTabState>(DEFAULT_RENTAL_INCOME_STATE);
+  const [householdBusinessState, setHouseholdBusinessState] = useState<HouseholdBusinessTabState>(DEFAULT_HOUSEHOLD_BUSINESS_STATE);
+  const [realEstateTransferState, setRealEstateTransferState] = useState<RealEstateTransferTabState>(DEFAULT_REAL_ESTATE_TRANSFER_STATE);
+  const [inheritanceGiftState, setInheritanceGiftState] = useState<InheritanceGiftTabState>(DEFAULT_INHERITANCE_GIFT_STATE);
+  const [exemptionCheckerState, setExemptionCheckerState] = useState<ExemptionCheckerTabState>(DEFAULT_EXEMPTION_CHECKER_STATE);
+  const [taxDocumentState, setTaxDocumentState] = useState<TaxDocumentTabState>(DEFAULT_TAX_DOCUMENT_STATE);
+  const [specialIncomeState, setSpecialIncomeState] = useState<SpecialIncomeTabState>(DEFAULT_SPECIAL_INCOME_STATE);
+  const [taxDeadlineState, setTaxDeadlineState] = useState<TaxDeadlineTabState>(DEFAULT_TAX_DEADLINE_STATE);
+  const [incomeSummaryState, setIncomeSummaryState] = useState<IncomeSummaryTabState>(DEFAULT_INCOME_SUMMARY_STATE);
+  const [regionCompareState, setRegionCompareState] = useState<RegionCompareTabState>(DEFAULT_REGION_COMPARE_STATE);
+  const [salarySlipState, setSalarySlipState] = useState<SalarySlipTabState>(DEFAULT_SALARY_SLIP_STATE);
 
   // Handler for loading a snapshot (defined early to avoid hoisting issues)
-  const handleLoadSnapshot = useCallback((snapshot: CalculatorSnapshot) => {
+  const handleLoadSnapshot = useCallback((
+    snapshot: CalculatorSnapshot,
+    migration?: SnapshotMigrationReport
+  ) => {
+    setMigrationReport(hasMigrationChanges(migration) ? migration : null);
     setSharedState(snapshot.sharedState);
+    setTaxpayerProfile(snapshot.profile);
     setActiveTab(snapshot.activeTab as TabType);
     setEmployerCostState(snapshot.tabs.employerCost);
     setFreelancerState(snapshot.tabs.freelancer);
@@ -266,6 +338,42 @@ export default function Home() {
     if (snapshot.tabs.mortgage) {
       setMortgageState(snapshot.tabs.mortgage);
     }
+    if (snapshot.tabs.securities) {
+      setSecuritiesState(snapshot.tabs.securities);
+    }
+    if (snapshot.tabs.rentalIncome) {
+      setRentalIncomeState(snapshot.tabs.rentalIncome);
+    }
+    if (snapshot.tabs.householdBusiness) {
+      setHouseholdBusinessState(snapshot.tabs.householdBusiness);
+    }
+    if (snapshot.tabs.realEstateTransfer) {
+      setRealEstateTransferState(snapshot.tabs.realEstateTransfer);
+    }
+    if (snapshot.tabs.inheritanceGift) {
+      setInheritanceGiftState(snapshot.tabs.inheritanceGift);
+    }
+    if (snapshot.tabs.exemptionChecker) {
+      setExemptionCheckerState(snapshot.tabs.exemptionChecker);
+    }
+    if (snapshot.tabs.taxDocument) {
+      setTaxDocumentState(snapshot.tabs.taxDocument);
+    }
+    if (snapshot.tabs.specialIncome) {
+      setSpecialIncomeState(snapshot.tabs.specialIncome);
+    }
+    if (snapshot.tabs.taxDeadline) {
+      setTaxDeadlineState(snapshot.tabs.taxDeadline);
+    }
+    if (snapshot.tabs.incomeSummary) {
+      setIncomeSummaryState(snapshot.tabs.incomeSummary);
+    }
+    if (snapshot.tabs.regionCompare) {
+      setRegionCompareState(snapshot.tabs.regionCompare);
+    }
+    if (snapshot.tabs.salarySlip) {
+      setSalarySlipState(snapshot.tabs.salarySlip);
+    }
   }, []);
 
   // Helper function to handle hash navigation
@@ -275,12 +383,18 @@ export default function Home() {
 
     const hashContent = hash.slice(1); // Remove '#'
 
+    // Protected format: #e=<payload> - decoded after the passphrase prompt
+    if (isEncryptedHashContent(hashContent)) {
+      setEncryptedHash(hashContent);
+      return true;
+    }
+
     // Legacy format: #s=<encoded>
     if (hashContent.startsWith('s=')) {
-      const snapshot = decodeSnapshot(hashContent.slice(2));
-      if (snapshot) {
+      const decoded = decodeSnapshotWithReport(hashContent.slice(2));
+      if (decoded) {
         setIsLoadingFromURL(true);
-        handleLoadSnapshot(snapshot);
+        handleLoadSnapshot(decoded.snapshot, decoded.migration);
         // Let auto-update effect handle URL update after state is loaded
         setTimeout(() => setIsLoadingFromURL(false), 600);
         return true;
@@ -300,11 +414,11 @@ export default function Home() {
         setActiveTab(tabPart);
 
         if (encodedPart) {
-          const snapshot = decodeSnapshot(encodedPart);
-          if (snapshot) {
+          const decoded = decodeSnapshotWithReport(encodedPart);
+          if (decoded) {
             setIsLoadingFromURL(true);
             // Load state but keep the tab from URL
-            handleLoadSnapshot({ ...snapshot, activeTab: tabPart });
+            handleLoadSnapshot({ ...decoded.snapshot, activeTab: tabPart }, decoded.migration);
             setTimeout(() => setIsLoadingFromURL(false), 600);
           }
         }
@@ -322,6 +436,16 @@ export default function Home() {
     return false;
   }, [handleLoadSnapshot]);
 
+  // Decrypt a protected link, then load it like a regular #<tab>~<encoded> hash
+  // Throws on a wrong passphrase so the prompt stays open
+  const handleUnlockHash = useCallback(async (passphrase: string) => {
+    if (!encryptedHash) return;
+    const hashContent = await decryptHashContent(encryptedHash, passphrase);
+    setEncryptedHash(null);
+    setIsProtectedSession(true);
+    handleHashNavigation(`#${hashContent}`);
+  }, [encryptedHash, handleHashNavigation]);
+
   // Handler for tab change - updates both state and URL
   // Don't preserve encoded state here - let auto-update effect handle it
   const handleTabChange = useCallback((tab: TabType) => {
@@ -347,23 +471,11 @@ export default function Home() {
       }
 
       // Fall back to legacy URL params for backward compatibility
-      const urlState = decodeLegacyURLParams(window.location.search);
-      if (urlState) {
-        const newState = { ...defaultSharedState, ...urlState };
+      const legacy = decodeLegacyURLParamsWithReport(window.location.search);
+      if (legacy) {
+        const newState = { ...defaultSharedState, ...legacy.state };
         setSharedState(newState);
-
-        // Recalculate
-        const taxInput: TaxInputType = {
-          grossIncome: newState.grossIncome,
-          declaredSalary: newState.declaredSalary,
-          dependents: newState.dependents,
-          otherDeductions: newState.otherDeductions + newState.pensionContribution,
-          hasInsurance: newState.hasInsurance,
-          insuranceOptions: newState.insuranceOptions,
-          region: newState.region,
-          allowances: newState.allowances,
-        };
-        setNewResult(calculateNewTax(taxInput));
+        setMigrationReport(hasMigrationChanges(legacy.migration) ? legacy.migration : null);
 
         // Clear URL params after loading (cleaner URL)
         window.history.replaceState({}, '', window.location.pathname);
@@ -408,28 +520,9 @@ export default function Home() {
     }
   }, [pathname, isInitialized, handleHashNavigation]);
 
-  // Update shared state and recalculate tax
+  // Update shared state (tax results are derived from it below)
   const updateSharedState = useCallback((updates: Partial<SharedTaxState>) => {
-    setSharedState(prev => {
-      const newState = { ...prev, ...updates };
-
-      // Build tax input
-      const taxInput: TaxInputType = {
-        grossIncome: newState.grossIncome,
-        declaredSalary: newState.declaredSalary,
-        dependents: newState.dependents,
-        otherDeductions: newState.otherDeductions + newState.pensionContribution,
-        hasInsurance: newState.hasInsurance,
-        insuranceOptions: newState.insuranceOptions,
-        region: newState.region,
-        allowances: newState.allowances,
-      };
-
-      // Recalculate tax results
-      setNewResult(calculateNewTax(taxInput));
-
-      return newState;
-    });
+    setSharedState(prev => ({ ...prev, ...updates }));
   }, []);
 
   // Handler for TaxInput component (maintains backward compatibility)
@@ -455,10 +548,114 @@ export default function Home() {
     updateSharedState({ otherIncome });
   }, [updateSharedState]);
 
+  const resolvedProfile = useMemo(
+    () => resolveTaxpayerProfile(sharedState, taxpayerProfile),
+    [sharedState, taxpayerProfile]
+  );
+
+  // Dependents deductible in the current month per the registration list
+  const currentPeriod = useMemo(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1 };
+  }, []);
+  const currentMonthDependents = useMemo(
+    () => countDependentsInMonth(resolvedProfile.dependents, currentPeriod.year, currentPeriod.month),
+    [resolvedProfile.dependents, currentPeriod]
+  );
+
+  // Tax calculation results
+  const newResult = useMemo<TaxResultType>(() => {
+    const taxInput: TaxInputType = {
+      grossIncome: sharedState.grossIncome,
+      declaredSalary: sharedState.declaredSalary,
+      dependents: currentMonthDependents,
+      otherDeductions: sharedState.otherDeductions + sharedState.pensionContribution,
+      hasInsurance: sharedState.hasInsurance,
+      insuranceOptions: sharedState.insuranceOptions,
+      region: sharedState.region,
+      allowances: sharedState.allowances,
+      trace: true,
+    };
+    return calculateNewTax(taxInput);
+  }, [sharedState, currentMonthDependents]);
+
+  // Tabs take the profile values for every field they don't override
+  useEffect(() => {
+    let openTabChanged = false;
+    const sync = <K extends ProfileLinkedTab>(
+      tab: K,
+      state: TabStates[K],
+      setState: (state: TabStates[K]) => void
+    ) => {
+      const next = applyProfileToTab(tab, state, resolvedProfile, getProfileOverrides(taxpayerProfile, tab));
+      if (next === state) return;
+      setState(next);
+      if (PROFILE_LINKED_TABS[tab] === activeTab) openTabChanged = true;
+    };
+
+    sync('annualSettlement', annualSettlementState, setAnnualSettlementState);
+    sync('businessFormComparison', businessFormComparisonState, setBusinessFormComparisonState);
+    sync('multiSourceIncome', multiSourceIncomeState, setMultiSourceIncomeState);
+    sync('coupleOptimizer', coupleOptimizerState, setCoupleOptimizerState);
+    sync('incomeSummary', incomeSummaryState, setIncomeSummaryState);
+    sync('taxDocument', taxDocumentState, setTaxDocumentState);
+    sync('withholdingTax', withholdingTaxState, setWithholdingTaxState);
+
+    if (openTabChanged) setProfileRevision(revision => revision + 1);
+  }, [resolvedProfile, taxpayerProfile, activeTab, annualSettlementState, businessFormComparisonState,
+    multiSourceIncomeState, coupleOptimizerState, incomeSummaryState, taxDocumentState, withholdingTaxState]);
+
+  // A profile field edited inside a tab becomes an override of that tab
+  const sharedStateRef = useRef(sharedState);
+  sharedStateRef.current = sharedState;
+  const recordTabOverrides = useCallback(<K extends ProfileLinkedTab>(tab: K, state: TabStates[K]) => {
+    setTaxpayerProfile(prev =>
+      recordProfileOverrides(prev, tab, state, resolveTaxpayerProfile(sharedStateRef.current, prev))
+    );
+  }, []);
+
+  const handleAnnualSettlementChange = useCallback((state: AnnualSettlementTabState) => {
+    setAnnualSettlementState(state);
+    recordTabOverrides('annualSettlement', state);
+  }, [recordTabOverrides]);
+
+  const handleBusinessFormComparisonChange = useCallback((state: BusinessFormComparisonTabState) => {
+    setBusinessFormComparisonState(state);
+    recordTabOverrides('businessFormComparison', state);
+  }, [recordTabOverrides]);
+
+  const handleMultiSourceIncomeChange = useCallback((state: MultiSourceIncomeTabState) => {
+    setMultiSourceIncomeState(state);
+    recordTabOverrides('multiSourceIncome', state);
+  }, [recordTabOverrides]);
+
+  const handleCoupleOptimizerChange = useCallback((state: CoupleOptimizerTabState) => {
+    setCoupleOptimizerState(state);
+    recordTabOverrides('coupleOptimizer', state);
+  }, [recordTabOverrides]);
+
+  const handleIncomeSummaryChange = useCallback((state: IncomeSummaryTabState) => {
+    setIncomeSummaryState(state);
+    recordTabOverrides('incomeSummary', state);
+  }, [recordTabOverrides]);
+
+  const handleTaxDocumentChange = useCallback((state: TaxDocumentTabState) => {
+    setTaxDocumentState(state);
+    recordTabOverrides('taxDocument', state);
+  }, [recordTabOverrides]);
+
+  const handleWithholdingTaxChange = useCallback((state: WithholdingTaxTabState) => {
+    setWithholdingTaxState(state);
+    recordTabOverrides('withholdingTax', state);
+  }, [recordTabOverrides]);
+
+  const profileLinkedTab = findProfileLinkedTab(activeTab);
+
   // Build current snapshot for save/share
   const currentSnapshot = useMemo<CalculatorSnapshot>(() => ({
-    version: 1,
+    version: CURRENT_SNAPSHOT_VERSION,
     sharedState,
+    profile: taxpayerProfile,
     activeTab,
     tabs: {
       employerCost: employerCostState,
@@ -484,24 +681,48 @@ export default function Home() {
       goldTax: goldTaxState,
       monthlyPlanner: monthlyPlannerState,
       mortgage: mortgageState,
+      securities: securitiesState,
+      rentalIncome: rentalIncomeState,
+      householdBusiness: householdBusinessState,
+      realEstateTransfer: realEstateTransferState,
+      inheritanceGift: inheritanceGiftState,
+      exemptionChecker: exemptionCheckerState,
+      taxDocument: taxDocumentState,
+      specialIncome: specialIncomeState,
+      taxDeadline: taxDeadlineState,
+      incomeSummary: incomeSummaryState,
+      regionCompare: regionCompareState,
+      salarySlip: salarySlipState,
     },
     meta: {
       createdAt: Date.now(),
     },
-  }), [sharedState, activeTab, employerCostState, freelancerState, salaryComparisonState, yearlyState, overtimeState, annualSettlementState, bonusState, esopState, pensionState, foreignerTaxState, latePaymentState, businessFormComparisonState, severanceState, vatState, withholdingTaxState, multiSourceIncomeState, taxTreatyState, coupleOptimizerState, contentCreatorState, cryptoTaxState, monthlyPlannerState, mortgageState]);
+  }), [sharedState, taxpayerProfile, activeTab, employerCostState, freelancerState, salaryComparisonState, yearlyState, overtimeState, annualSettlementState, bonusState, esopState, pensionState, foreignerTaxState, latePaymentState, businessFormComparisonState, severanceState, vatState, withholdingTaxState, multiSourceIncomeState, taxTreatyState, coupleOptimizerState, contentCreatorState, cryptoTaxState, goldTaxState, monthlyPlannerState, mortgageState,
+    securitiesState, rentalIncomeState, householdBusinessState, realEstateTransferState, inheritanceGiftState,
+    exemptionCheckerState, taxDocumentState, specialIncomeState, taxDeadlineState, incomeSummaryState,
+    regionCompareState, salarySlipState]);
+
+  // Undo/redo over the whole snapshot; paused while a link is being loaded
+  const sessionHistory = useSnapshotHistory(
+    currentSnapshot,
+    handleLoadSnapshot,
+    isInitialized && !isLoadingFromURL && !encryptedHash
+  );
 
   // Auto-update URL when state changes (debounced)
   // Format: #<tab> (default state) or #<tab>~<encoded> (custom state)
   useEffect(() => {
     // Skip if not initialized, loading from URL, or not in browser
-    if (!isInitialized || isLoadingFromURL || typeof window === 'undefined') return;
+    // Also skip while a protected link waits for its passphrase
+    if (!isInitialized || isLoadingFromURL || encryptedHash || typeof window === 'undefined') return;
 
     const timeoutId = setTimeout(() => {
       const encoded = encodeSnapshot(currentSnapshot);
 
       // Check if state is basically default (encoded string is very short)
       // Short encoded = mostly defaults, just use simple tab hash
-      if (encoded.length < 10) {
+      // Protected sessions never put the decrypted state in the address bar
+      if (encoded.length < 10 || isProtectedSession) {
         // Use simple tab hash or clean URL for default tab
         const newURL = activeTab === 'calculator'
           ? window.location.pathname
@@ -517,11 +738,13 @@ export default function Home() {
     }, 500); // Debounce 500ms
 
     return () => clearTimeout(timeoutId);
-  }, [currentSnapshot, isInitialized, isLoadingFromURL, activeTab]);
+  }, [currentSnapshot, isInitialized, isLoadingFromURL, encryptedHash, isProtectedSession, activeTab]);
 
   // Reset to home (default state)
   const handleGoHome = useCallback(() => {
+    setIsProtectedSession(false);
     setSharedState(defaultSharedState);
+    setTaxpayerProfile(DEFAULT_TAXPAYER_PROFILE);
     setActiveTab('calculator');
     setEmployerCostState({ includeUnionFee: false, useNewLaw: true });
     setFreelancerState(DEFAULT_FREELANCER_STATE);
@@ -549,11 +772,21 @@ export default function Home() {
     setCoupleOptimizerState(DEFAULT_COUPLE_OPTIMIZER_STATE);
     setContentCreatorState(DEFAULT_CONTENT_CREATOR_STATE);
     setCryptoTaxState(DEFAULT_CRYPTO_TAX_STATE);
+    setGoldTaxState(DEFAULT_GOLD_TAX_STATE);
     setMonthlyPlannerState(DEFAULT_MONTHLY_PLANNER_STATE);
     setMortgageState(DEFAULT_MORTGAGE_STATE);
-
-    // Recalculate with default values
-    setNewResult(calculateNewTax(defaultSharedState));
+    setSecuritiesState(DEFAULT_SECURITIES_STATE);
+    setRentalIncomeState(DEFAULT_RENTAL_INCOME_STATE);
+    setHouseholdBusinessState(DEFAULT_HOUSEHOLD_BUSINESS_STATE);
+    setRealEstateTransferState(DEFAULT_REAL_ESTATE_TRANSFER_STATE);
+    setInheritanceGiftState(DEFAULT_INHERITANCE_GIFT_STATE);
+    setExemptionCheckerState(DEFAULT_EXEMPTION_CHECKER_STATE);
+    setTaxDocumentState(DEFAULT_TAX_DOCUMENT_STATE);
+    setSpecialIncomeState(DEFAULT_SPECIAL_INCOME_STATE);
+    setTaxDeadlineState(DEFAULT_TAX_DEADLINE_STATE);
+    setIncomeSummaryState(DEFAULT_INCOME_SUMMARY_STATE);
+    setRegionCompareState(DEFAULT_REGION_COMPARE_STATE);
+    setSalarySlipState(DEFAULT_SALARY_SLIP_STATE);
 
     // Clear URL
     window.history.replaceState(null, '', window.location.pathname);
@@ -607,6 +840,18 @@ export default function Home() {
                 </svg>
                 <span className="hidden lg:inline text-xs">Luật mới</span>
               </button>
+              <button
+                onClick={() => setIsProfileOpen(true)}
+                aria-label="Mở hồ sơ người nộp thuế"
+                className="p-2.5 min-w-[44px] min-h-[44px] flex items-center justify-center gap-1.5 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+                title="Hồ sơ người nộp thuế"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                </svg>
+                <span className="hidden lg:inline text-xs">Hồ sơ</span>
+              </button>
+              <SessionHistoryControls history={sessionHistory} />
               <SaveShareButton
                 snapshot={currentSnapshot}
                 onLoadSnapshot={handleLoadSnapshot}
@@ -622,6 +867,22 @@ export default function Home() {
           {/* Tab Navigation */}
           <TabNavigation activeTab={activeTab} onTabChange={handleTabChange} />
 
+          {migrationReport && (
+            <MigrationNotice
+              report={migrationReport}
+              onDismiss={() => setMigrationReport(null)}
+            />
+          )}
+
+          {profileLinkedTab && (
+            <ProfileOverrideNotice
+              tab={profileLinkedTab}
+              profile={taxpayerProfile}
+              onResetOverrides={() => setTaxpayerProfile(prev => clearProfileOverride(prev, profileLinkedTab))}
+              onOpenProfile={() => setIsProfileOpen(true)}
+            />
+          )}
+
         {/* Tab Content */}
         {activeTab === 'calculator' && (
           <>
@@ -645,6 +906,13 @@ export default function Home() {
                 )}
               </div>
               <div className="lg:col-span-2">
+                <DependentMonthNotice
+                  year={currentPeriod.year}
+                  month={currentPeriod.month}
+                  declared={sharedState.dependents}
+                  deductible={currentMonthDependents}
+                  onOpenProfile={() => setIsProfileOpen(true)}
+                />
                 <TaxResult
                   result={newResult}
                   otherIncomeTax={otherIncomeTax}
@@ -694,7 +962,10 @@ export default function Home() {
             {/* Inheritance & Gift Tax Calculator */}
             <div className="mb-8">
               <Suspense fallback={<TabLoadingSkeleton />}>
-                <InheritanceGiftTaxCalculator />
+                <InheritanceGiftTaxCalculator
+                  tabState={inheritanceGiftState}
+                  onTabStateChange={setInheritanceGiftState}
+                />
               </Suspense>
             </div>
 
@@ -787,10 +1058,11 @@ export default function Home() {
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
               <AnnualSettlement
+                key={profileRevision}
                 sharedState={sharedState}
                 onStateChange={updateSharedState}
                 tabState={annualSettlementState}
-                onTabStateChange={setAnnualSettlementState}
+                onTabStateChange={handleAnnualSettlementChange}
               />
             </Suspense>
           </div>
@@ -881,7 +1153,10 @@ export default function Home() {
         {activeTab === 'securities' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <SecuritiesTaxCalculator />
+              <SecuritiesTaxCalculator
+                tabState={securitiesState}
+                onTabStateChange={setSecuritiesState}
+              />
             </Suspense>
           </div>
         )}
@@ -889,7 +1164,10 @@ export default function Home() {
         {activeTab === 'rental' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <RentalIncomeTaxCalculator />
+              <RentalIncomeTaxCalculator
+                tabState={rentalIncomeState}
+                onTabStateChange={setRentalIncomeState}
+              />
             </Suspense>
           </div>
         )}
@@ -897,7 +1175,10 @@ export default function Home() {
         {activeTab === 'household-business' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <HouseholdBusinessTaxCalculator />
+              <HouseholdBusinessTaxCalculator
+                tabState={householdBusinessState}
+                onTabStateChange={setHouseholdBusinessState}
+              />
             </Suspense>
           </div>
         )}
@@ -917,8 +1198,11 @@ export default function Home() {
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
               <WithholdingTax
+                key={profileRevision}
                 tabState={withholdingTaxState}
-                onTabStateChange={setWithholdingTaxState}
+                onTabStateChange={handleWithholdingTaxChange}
+                personalInfo={resolvedProfile.personalInfo}
+                dependents={resolvedProfile.dependents}
               />
             </Suspense>
           </div>
@@ -928,8 +1212,9 @@ export default function Home() {
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
               <MultiSourceIncome
+                key={profileRevision}
                 tabState={multiSourceIncomeState}
-                onTabStateChange={setMultiSourceIncomeState}
+                onTabStateChange={handleMultiSourceIncomeChange}
               />
             </Suspense>
           </div>
@@ -950,8 +1235,14 @@ export default function Home() {
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
               <CoupleTaxOptimizer
+                key={profileRevision}
                 tabState={coupleOptimizerState}
-                onTabStateChange={setCoupleOptimizerState}
+                onTabStateChange={handleCoupleOptimizerChange}
+                registeredDependents={
+                  getProfileOverrides(taxpayerProfile, 'coupleOptimizer').includes('dependents')
+                    ? undefined
+                    : resolvedProfile.dependents
+                }
               />
             </Suspense>
           </div>
@@ -984,7 +1275,10 @@ export default function Home() {
         {activeTab === 'special-income' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <SpecialIncomeTaxCalculator />
+              <SpecialIncomeTaxCalculator
+                tabState={specialIncomeState}
+                onTabStateChange={setSpecialIncomeState}
+              />
             </Suspense>
           </div>
         )}
@@ -992,7 +1286,10 @@ export default function Home() {
         {activeTab === 'real-estate' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <RealEstateTransferTaxCalculator />
+              <RealEstateTransferTaxCalculator
+                tabState={realEstateTransferState}
+                onTabStateChange={setRealEstateTransferState}
+              />
             </Suspense>
           </div>
         )}
@@ -1000,7 +1297,10 @@ export default function Home() {
         {activeTab === 'exemption-checker' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <TaxExemptionChecker />
+              <TaxExemptionChecker
+                tabState={exemptionCheckerState}
+                onTabStateChange={setExemptionCheckerState}
+              />
             </Suspense>
           </div>
         )}
@@ -1029,6 +1329,8 @@ export default function Home() {
                 onStateChange={updateSharedState}
                 insuranceDetail={newResult.insuranceDetail}
                 taxAmount={newResult.taxAmount}
+                tabState={salarySlipState}
+                onTabStateChange={setSalarySlipState}
               />
             </Suspense>
           </div>
@@ -1049,8 +1351,9 @@ export default function Home() {
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
               <BusinessFormComparison
+                key={profileRevision}
                 tabState={businessFormComparisonState}
-                onTabStateChange={setBusinessFormComparisonState}
+                onTabStateChange={handleBusinessFormComparisonChange}
               />
             </Suspense>
           </div>
@@ -1071,8 +1374,12 @@ export default function Home() {
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
               <TaxDocumentGenerator
+                key={profileRevision}
                 sharedState={sharedState}
                 taxResult={newResult}
+                dependents={resolvedProfile.dependents}
+                tabState={taxDocumentState}
+                onTabStateChange={handleTaxDocumentChange}
               />
             </Suspense>
           </div>
@@ -1081,7 +1388,10 @@ export default function Home() {
         {activeTab === 'tax-deadline' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <TaxDeadlineManager />
+              <TaxDeadlineManager
+                tabState={taxDeadlineState}
+                onTabStateChange={setTaxDeadlineState}
+              />
             </Suspense>
           </div>
         )}
@@ -1089,7 +1399,11 @@ export default function Home() {
         {activeTab === 'income-summary' && (
           <div className="mb-8">
             <Suspense fallback={<TabLoadingSkeleton />}>
-              <IncomeSummaryDashboard />
+              <IncomeSummaryDashboard
+                key={profileRevision}
+                tabState={incomeSummaryState}
+                onTabStateChange={handleIncomeSummaryChange}
+              />
             </Suspense>
           </div>
         )}
@@ -1100,6 +1414,8 @@ export default function Home() {
               <RegionComparison
                 sharedState={sharedState}
                 onStateChange={updateSharedState}
+                tabState={regionCompareState}
+                onTabStateChange={setRegionCompareState}
               />
             </Suspense>
           </div>
@@ -1113,6 +1429,7 @@ export default function Home() {
                 onStateChange={updateSharedState}
                 tabState={monthlyPlannerState}
                 onTabStateChange={setMonthlyPlannerState}
+                registeredDependents={resolvedProfile.dependents}
               />
             </Suspense>
           </div>
@@ -1129,6 +1446,14 @@ export default function Home() {
           </div>
         )}
 
+        {activeTab === 'payroll-roster' && (
+          <div className="mb-8">
+            <Suspense fallback={<TabLoadingSkeleton />}>
+              <PayrollRoster />
+            </Suspense>
+          </div>
+        )}
+
         </div>
       </div>
 
@@ -1138,6 +1463,26 @@ export default function Home() {
       {/* Law Info Modal */}
       <LawInfoModal isOpen={isLawInfoOpen} onClose={() => setIsLawInfoOpen(false)} />
 
+      {isProfileOpen && (
+        <TaxpayerProfileModal
+          profile={taxpayerProfile}
+          sharedState={sharedState}
+          onProfileChange={setTaxpayerProfile}
+          onSharedStateChange={updateSharedState}
+          onClose={() => setIsProfileOpen(false)}
+        />
+      )}
+
+      {/* Passphrase prompt for protected share links */}
+      {encryptedHash && (
+        <PassphrasePrompt
+          title="Liên kết được bảo vệ"
+          description="Người gửi đã đặt mật khẩu cho liên kết này. Nhập mật khẩu để xem kết quả tính thuế."
+          onSubmit={handleUnlockHash}
+          onCancel={() => setEncryptedHash(null)}
+        />
+      )}
+
       {/* Keyboard Shortcuts */}
       <KeyboardShortcuts
         onTabChange={(index) => {
@@ -1154,6 +1499,8 @@ export default function Home() {
             alert('Đã sao chép URL trạng thái vào clipboard');
           });
         }}
+        onUndo={sessionHistory.undo}
+        onRedo={sessionHistory.redo}
         onToggleDarkMode={toggleTheme}
         totalTabs={Math.min(ALL_TABS.length, 9)}
       />
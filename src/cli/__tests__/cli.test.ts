@@ -0,0 +1,61 @@
+import { writeFileSync } from 'fs';
+import { expect, test } from '@playwright/test';
+import { EXIT_CODES, main } from '../index';
+
+function runCli(argv: string[]) {
+  let stdout = '';
+  let stderr = '';
+  const code = main(argv, {
+    stdout: (text) => { stdout += text; },
+    stderr: (text) => { stderr += text; },
+  });
+  return { code, stdout, stderr };
+}
+
+function writeInput(name: string, content: string): string {
+  const path = test.info().outputPath(name);
+  writeFileSync(path, content);
+  return path;
+}
+
+test.describe('thue calc', () => {
+  test('defaults the allowance columns a CSV leaves out to 0', () => {
+    const input = writeInput('payroll.csv', [
+      'grossIncome,dependents,asOf,allowances.meal,allowances.position',
+      '30000000,1,2026-03-01,730000,2000000',
+      '25000000,0,2026-03-01,,',
+    ].join('\n'));
+
+    const { code, stdout, stderr } = runCli(['calc', '--input', input]);
+
+    expect(stderr).toBe('');
+    expect(code).toBe(EXIT_CODES.ok);
+    const [withAllowances, withoutAllowances] = JSON.parse(stdout);
+    expect(withAllowances.allowancesBreakdown).toMatchObject({ taxExempt: 730_000, taxable: 2_000_000, total: 2_730_000 });
+    expect(withoutAllowances.allowancesBreakdown.total).toBe(0);
+  });
+
+  test('defaults missing allowance fields in JSON input', () => {
+    const input = writeInput('payroll.json', JSON.stringify({
+      grossIncome: 30_000_000,
+      dependents: 0,
+      asOf: '2026-03-01',
+      allowances: { meal: 730_000 },
+    }));
+
+    const { code, stdout } = runCli(['calc', '--input', input]);
+
+    expect(code).toBe(EXIT_CODES.ok);
+    expect(JSON.parse(stdout).allowancesBreakdown).toMatchObject({ taxExempt: 730_000, taxable: 0 });
+  });
+
+  test('still requires the top-level fields of the command', () => {
+    const input = writeInput('missing.csv', 'grossIncome,allowances.meal\n30000000,730000\n');
+
+    const { code, stderr } = runCli(['calc', '--input', input]);
+
+    expect(code).toBe(EXIT_CODES.validation);
+    expect(stderr).toContain('#1 dependents: bắt buộc');
+    expect(stderr).not.toContain('allowances.phone');
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Danh sách lệnh của CLI - mỗi lệnh bọc một hàm tính thuần trong src/lib
+ *
+ * Schema đầu vào/đầu ra của từng lệnh được sinh từ chữ ký `run` bởi
+ * scripts/generate-cli-schemas.mjs (chạy `npm run cli:schemas` sau khi sửa file này
+ * hoặc các interface liên quan).
+ */
+
+import { calculateNewTax, calculateOldTax, calculateTaxForDate } from '../lib/taxCalculator';
+import { convertGrossNet } from '../lib/grossNetCalculator';
+import { calculateAnnualSettlement } from '../lib/annualSettlementCalculator';
+import { calculateMultiSourceTax } from '../lib/multiSourceIncomeCalculator';
+import { calculateSecuritiesTax } from '../lib/securitiesTaxCalculator';
+import { calculateBonusComparison } from '../lib/bonusCalculator';
+import { calculateSeveranceTax } from '../lib/severanceCalculator';
+import { calculateRentalIncomeTax } from '../lib/rentalIncomeTaxCalculator';
+import { calculateHouseholdBusinessTax } from '../lib/householdBusinessTaxCalculator';
+import { calculateRealEstateTransferTax } from '../lib/realEstateTransferTaxCalculator';
+import { calculateInheritanceGiftTax } from '../lib/inheritanceGiftTaxCalculator';
+import { calculateSpecialIncomeTax } from '../lib/specialIncomeTaxCalculator';
+import { calculateCryptoTax } from '../lib/cryptoTaxCalculator';
+import { calculateGoldTax } from '../lib/goldTaxCalculator';
+import { calculateForeignerTax } from '../lib/foreignerTaxCalculator';
+import { calculateWithholdingTax } from '../lib/withholdingTaxCalculator';
+import { calculateLatePayment } from '../lib/latePaymentCalculator';
+import { calculateVAT } from '../lib/vatCalculator';
+import { calculatePension } from '../lib/pensionCalculator';
+import { calculateESOPComparison } from '../lib/esopCalculator';
+import { calculateOvertime } from '../lib/overtimeCalculator';
+import { calculateContentCreatorTax } from '../lib/contentCreatorTaxCalculator';
+import { calculateFreelancerComparison } from '../lib/freelancerCalculator';
+import { calculateMortgage } from '../lib/mortgageCalculator';
+import { calculateMonthlyPlan } from '../lib/monthlyPlannerCalculator';
+import { calculateIncomeSummary } from '../lib/incomeSummaryCalculator';
+import { calculateRoster } from '../lib/payrollRosterCalculator';
+
+export interface CliCommand {
+  description: string;
+  run: (input: never) => unknown;
+}
+
+export const COMMANDS = {
+  calc: {
+    description: 'Thuế TNCN tiền lương theo Luật 109/2025 (calculateNewTax)',
+    run: calculateNewTax,
+  },
+  'calc-old': {
+    description: 'Thuế TNCN tiền lương theo luật cũ 7 bậc (calculateOldTax)',
+    run: calculateOldTax,
+  },
+  'calc-date': {
+    description: 'Thuế TNCN tiền lương theo luật hiệu lực tại asOf (calculateTaxForDate)',
+    run: calculateTaxForDate,
+  },
+  'gross-net': {
+    description: 'Quy đổi GROSS ↔ NET (convertGrossNet)',
+    run: convertGrossNet,
+  },
+  settlement: {
+    description: 'Quyết toán thuế TNCN năm (calculateAnnualSettlement)',
+    run: calculateAnnualSettlement,
+  },
+  'multi-source': {
+    description: 'Tổng hợp thuế nhiều nguồn thu nhập (calculateMultiSourceTax)',
+    run: calculateMultiSourceTax,
+  },
+  securities: {
+    description: 'Thuế chứng khoán, cổ tức, trái phiếu (calculateSecuritiesTax)',
+    run: calculateSecuritiesTax,
+  },
+  bonus: {
+    description: 'So sánh phương án thưởng (calculateBonusComparison)',
+    run: calculateBonusComparison,
+  },
+  severance: {
+    description: 'Thuế trợ cấp thôi việc (calculateSeveranceTax)',
+    run: calculateSeveranceTax,
+  },
+  rental: {
+    description: 'Thuế cho thuê tài sản (calculateRentalIncomeTax)',
+    run: calculateRentalIncomeTax,
+  },
+  'household-business': {
+    description: 'Thuế hộ kinh doanh (calculateHouseholdBusinessTax)',
+    run: calculateHouseholdBusinessTax,
+  },
+  'real-estate': {
+    description: 'Thuế chuyển nhượng bất động sản (calculateRealEstateTransferTax)',
+    run: calculateRealEstateTransferTax,
+  },
+  'inheritance-gift': {
+    description: 'Thuế thừa kế, quà tặng (calculateInheritanceGiftTax)',
+    run: calculateInheritanceGiftTax,
+  },
+  'special-income': {
+    description: 'Thuế thu nhập đặc biệt (calculateSpecialIncomeTax)',
+    run: calculateSpecialIncomeTax,
+  },
+  crypto: {
+    description: 'Thuế tài sản số (calculateCryptoTax)',
+    run: calculateCryptoTax,
+  },
+  gold: {
+    description: 'Thuế chuyển nhượng vàng (calculateGoldTax)',
+    run: calculateGoldTax,
+  },
+  foreigner: {
+    description: 'Thuế TNCN người nước ngoài (calculateForeignerTax)',
+    run: calculateForeignerTax,
+  },
+  withholding: {
+    description: 'Khấu trừ thuế tại nguồn (calculateWithholdingTax)',
+    run: calculateWithholdingTax,
+  },
+  'late-payment': {
+    description: 'Tiền chậm nộp thuế (calculateLatePayment)',
+    run: calculateLatePayment,
+  },
+  vat: {
+    description: 'Thuế GTGT (calculateVAT)',
+    run: calculateVAT,
+  },
+  pension: {
+    description: 'Lương hưu (calculatePension)',
+    run: calculatePension,
+  },
+  esop: {
+    description: 'Thuế cổ phiếu thưởng ESOP (calculateESOPComparison)',
+    run: calculateESOPComparison,
+  },
+  overtime: {
+    description: 'Lương làm thêm giờ (calculateOvertime)',
+    run: calculateOvertime,
+  },
+  'content-creator': {
+    description: 'Thuế nhà sáng tạo nội dung (calculateContentCreatorTax)',
+    run: calculateContentCreatorTax,
+  },
+  freelancer: {
+    description: 'So sánh freelancer và nhân viên (calculateFreelancerComparison)',
+    run: calculateFreelancerComparison,
+  },
+  mortgage: {
+    description: 'Vay mua nhà (calculateMortgage)',
+    run: calculateMortgage,
+  },
+  'monthly-plan': {
+    description: 'Kế hoạch thu nhập theo tháng (calculateMonthlyPlan)',
+    run: calculateMonthlyPlan,
+  },
+  'income-summary': {
+    description: 'Tổng hợp thu nhập cả năm (calculateIncomeSummary)',
+    run: calculateIncomeSummary,
+  },
+  roster: {
+    description: 'Thuế TNCN và bảo hiểm cho cả bảng lương (calculateRoster)',
+    run: calculateRoster,
+  },
+} satisfies Record<string, CliCommand>;
+
+export type CommandName = keyof typeof COMMANDS;
+
+export function isCommandName(name: string): name is CommandName {
+  return Object.prototype.hasOwnProperty.call(COMMANDS, name);
+}
@@ -0,0 +1,202 @@
+/**
+ * CLI tính thuế - chạy các hàm tính thuần của src/lib không cần trình duyệt
+ *
+ *   thue calc --input payroll.json
+ *   thue gross-net --input luong.csv --format table
+ *   thue schema settlement
+ *
+ * Mã thoát: 0 thành công, 1 sai cú pháp/không đọc được file,
+ * 2 đầu vào không hợp lệ theo schema, 3 lỗi khi tính.
+ */
+
+import { writeFileSync } from 'fs';
+import { COMMANDS, CommandName, isCommandName } from './commands';
+import { getCommandSchemas, getStandaloneSchema, validate, ValidationIssue } from './schema';
+import {
+  InputFormat,
+  OutputFormat,
+  detectInputFormat,
+  formatOutput,
+  parseInput,
+  readSource,
+} from './io';
+
+export const EXIT_CODES = {
+  ok: 0,
+  usage: 1,
+  validation: 2,
+  runtime: 3,
+} as const;
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string | true>;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const separator = arg.indexOf('=');
+    if (separator !== -1) {
+      options[arg.slice(2, separator)] = arg.slice(separator + 1);
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      options[arg.slice(2)] = argv[++i];
+    } else {
+      options[arg.slice(2)] = true;
+    }
+  }
+
+  return { positional, options };
+}
+
+function getOption<T extends string>(options: ParsedArgs['options'], name: string, allowed: readonly T[]): T | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  if (value === true || !allowed.includes(value as T)) {
+    throw new UsageError(`--${name} phải là một trong: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function usage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+  const commands = Object.entries(COMMANDS)
+    .map(([name, command]) => `  ${name.padEnd(width)}  ${command.description}`)
+    .join('\n');
+
+  return `Cách dùng:
+  thue <lệnh> [--input <file|->] [--input-format json|csv] [--format json|csv|table] [--output <file>]
+  thue schema <lệnh> [--output-schema]
+  thue list
+
+Đầu vào JSON là một object (một lần tính) hoặc mảng object (nhiều lần tính).
+Đầu vào CSV: mỗi dòng một lần tính, tên cột là đường dẫn trường (VD: allowances.meal).
+Ngày dùng định dạng ISO 8601 (VD: 2026-07-01).
+
+Lệnh:
+${commands}
+`;
+}
+
+function formatIssues(issues: Array<ValidationIssue & { record: number }>, isBatch: boolean): string {
+  return issues
+    .map(({ record, path, message }) => {
+      const location = [isBatch ? `#${record + 1}` : '', path].filter(Boolean).join(' ');
+      return `  ${location || '(gốc)'}: ${message}`;
+    })
+    .join('\n');
+}
+
+function runCommand(name: CommandName, args: ParsedArgs, io: CliIO): number {
+  const source = typeof args.options.input === 'string' ? args.options.input : '-';
+  const inputFormat: InputFormat =
+    getOption(args.options, 'input-format', ['json', 'csv'] as const) ?? detectInputFormat(source);
+  const outputFormat: OutputFormat =
+    getOption(args.options, 'format', ['json', 'csv', 'table'] as const) ?? 'json';
+
+  let parsed;
+  try {
+    parsed = parseInput(readSource(source), inputFormat);
+  } catch (error) {
+    io.stderr(`Không đọc được đầu vào ${source}: ${(error as Error).message}\n`);
+    return EXIT_CODES.usage;
+  }
+
+  const { input: inputSchema } = getCommandSchemas(name);
+  const issues: Array<ValidationIssue & { record: number }> = [];
+  const inputs = parsed.records.map((record, index) => {
+    const result = validate(record, inputSchema, { coerceStrings: parsed.fromCsv });
+    issues.push(...result.issues.map((issue) => ({ ...issue, record: index })));
+    return result.value;
+  });
+
+  if (issues.length > 0) {
+    io.stderr(`Đầu vào không hợp lệ cho lệnh ${name}:\n${formatIssues(issues, parsed.isBatch)}\n`);
+    return EXIT_CODES.validation;
+  }
+
+  const run = COMMANDS[name].run as (input: unknown) => unknown;
+  const results: unknown[] = [];
+  for (const [index, input] of inputs.entries()) {
+    try {
+      results.push(run(input));
+    } catch (error) {
+      const location = parsed.isBatch ? ` (bản ghi #${index + 1})` : '';
+      io.stderr(`Lỗi khi tính${location}: ${(error as Error).message}\n`);
+      return EXIT_CODES.runtime;
+    }
+  }
+
+  const output = formatOutput(results, parsed.isBatch, outputFormat);
+  if (typeof args.options.output === 'string') {
+    writeFileSync(args.options.output, output);
+  } else {
+    io.stdout(output);
+  }
+  return EXIT_CODES.ok;
+}
+
+/**
+ * Điểm vào CLI - trả về mã thoát thay vì gọi process.exit để dễ nhúng
+ */
+export function main(argv: string[], io: CliIO = defaultIO): number {
+  try {
+    const args = parseArgs(argv);
+    const [commandName, target] = args.positional;
+
+    if (!commandName || commandName === 'help' || args.options.help) {
+      io.stdout(usage());
+      return commandName || args.options.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+    }
+
+    if (commandName === 'list') {
+      io.stdout(Object.keys(COMMANDS).join('\n') + '\n');
+      return EXIT_CODES.ok;
+    }
+
+    if (commandName === 'schema') {
+      if (!target || !isCommandName(target)) {
+        throw new UsageError(`Lệnh không tồn tại: ${target ?? '(trống)'}`);
+      }
+      const schemas = getCommandSchemas(target);
+      const schema = args.options['output-schema'] ? schemas.output : schemas.input;
+      io.stdout(JSON.stringify(getStandaloneSchema(schema), null, 2) + '\n');
+      return EXIT_CODES.ok;
+    }
+
+    if (!isCommandName(commandName)) {
+      throw new UsageError(`Lệnh không tồn tại: ${commandName}`);
+    }
+    return runCommand(commandName, args, io);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`${error.message}\n\n${usage()}`);
+      return EXIT_CODES.usage;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Đọc/ghi dữ liệu cho CLI: JSON, CSV (cột theo đường dẫn a.b.0.c) và bảng văn bản
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { CsvCell, parseCSVRecords, stringifyCSV } from '../lib/csvUtils';
+
+export type InputFormat = 'json' | 'csv';
+export type OutputFormat = 'json' | 'csv' | 'table';
+
+export interface ParsedInput {
+  records: unknown[]; // Mỗi phần tử là một lần gọi lệnh
+  isBatch: boolean; // Mảng JSON hoặc CSV → kết quả cũng là mảng
+  fromCsv: boolean; // Ô CSV là chuỗi, cần ép kiểu theo schema
+}
+
+export function detectInputFormat(path: string): InputFormat {
+  return extname(path).toLowerCase() === '.csv' ? 'csv' : 'json';
+}
+
+export function readSource(path: string): string {
+  return readFileSync(path === '-' ? 0 : path, 'utf8');
+}
+
+/**
+ * Dựng object lồng nhau từ các cột phẳng: "allowances.meal" → { allowances: { meal } },
+ * đoạn số tạo mảng: "dependents.0.name" → { dependents: [{ name }] }. Ô trống bị bỏ qua.
+ */
+export function unflattenRecord(record: Record<string, string>): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+
+  for (const [path, cell] of Object.entries(record)) {
+    if (cell.trim() === '' || path === '') continue;
+    const keys = path.split('.');
+    let node: Record<string, unknown> | unknown[] = root;
+
+    keys.forEach((key, index) => {
+      const container = node as Record<string, unknown>;
+      if (index === keys.length - 1) {
+        container[key] = cell;
+        return;
+      }
+      if (container[key] === undefined) {
+        container[key] = /^\d+$/.test(keys[index + 1]) ? [] : {};
+      }
+      node = container[key] as Record<string, unknown>;
+    });
+  }
+
+  return root;
+}
+
+/**
+ * Làm phẳng object lồng nhau thành cột "a.b.0.c"; Date → ISO, Infinity → rỗng
+ */
+export function flattenRecord(value: unknown, prefix = '', out: Record<string, CsvCell> = {}): Record<string, CsvCell> {
+  if (value instanceof Date) {
+    out[prefix] = value.toISOString();
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenRecord(item, prefix ? `${prefix}.${index}` : String(index), out));
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (typeof value === 'number' && !Number.isFinite(value)) {
+    out[prefix] = null;
+  } else if (typeof value !== 'function') {
+    out[prefix] = value as CsvCell;
+  }
+  return out;
+}
+
+export function parseInput(text: string, format: InputFormat): ParsedInput {
+  if (format === 'csv') {
+    return { records: parseCSVRecords(text).map(unflattenRecord), isBatch: true, fromCsv: true };
+  }
+  const parsed: unknown = JSON.parse(text);
+  return Array.isArray(parsed)
+    ? { records: parsed, isBatch: true, fromCsv: false }
+    : { records: [parsed], isBatch: false, fromCsv: false };
+}
+
+function collectColumns(rows: Record<string, CsvCell>[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return [...columns];
+}
+
+function formatCell(value: CsvCell): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return new Intl.NumberFormat('vi-VN', { maximumFractionDigits: 2 }).format(value);
+  return String(value);
+}
+
+/**
+ * Bảng văn bản dạng dọc: mỗi dòng là một trường, mỗi cột là một bản ghi
+ */
+export function formatTable(results: unknown[]): string {
+  const rows = results.map((result) => flattenRecord(result));
+  const columns = collectColumns(rows);
+  const headers = ['Trường', ...rows.map((_, index) => (rows.length === 1 ? 'Giá trị' : `#${index + 1}`))];
+  const lines = columns.map((column) => [column, ...rows.map((row) => formatCell(row[column]))]);
+
+  const widths = headers.map((header, index) =>
+    Math.max(header.length, ...lines.map((line) => line[index].length))
+  );
+  const render = (cells: string[]) =>
+    cells.map((cell, index) => (index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index]))).join('  ');
+
+  return [render(headers), widths.map((width) => '-'.repeat(width)).join('  '), ...lines.map(render)].join('\n') + '\n';
+}
+
+export function formatOutput(results: unknown[], isBatch: boolean, format: OutputFormat): string {
+  switch (format) {
+    case 'csv': {
+      const rows = results.map((result) => flattenRecord(result));
+      return stringifyCSV(collectColumns(rows), rows);
+    }
+    case 'table':
+      return formatTable(results);
+    default:
+      return JSON.stringify(isBatch ? results : results[0], null, 2) + '\n';
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Kiểm tra & chuẩn hóa đầu vào CLI theo JSON Schema sinh từ interface TypeScript
+ *
+ * Chỉ hỗ trợ tập con mà scripts/generate-cli-schemas.mjs sinh ra:
+ * $ref, type, enum, const, anyOf, properties, required, additionalProperties, items,
+ * minimum/maximum và format "date-time" (chuỗi ISO → Date).
+ * Trường số/boolean bị thiếu trong object không bắt buộc (VD: chỉ khai allowances.meal)
+ * nhận mặc định 0/false như các hàm tính.
+ */
+
+import generated from './schemas.generated.json';
+import type { CommandName } from './commands';
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+  format?: 'date-time';
+  enum?: Array<string | number>;
+  const?: string | number;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  description?: string;
+}
+
+export interface CommandSchemas {
+  input: JsonSchema;
+  output: JsonSchema;
+}
+
+export interface ValidationIssue {
+  path: string; // Đường dẫn dạng a.b[0].c ('' = gốc)
+  message: string;
+}
+
+export interface ValidationResult {
+  value: unknown; // Giá trị đã chuẩn hóa (Date, số từ chuỗi CSV...)
+  issues: ValidationIssue[];
+}
+
+export interface ValidateOptions {
+  coerceStrings?: boolean; // Ô CSV luôn là chuỗi → ép sang number/boolean theo schema
+}
+
+const SCHEMAS = generated as unknown as {
+  commands: Record<CommandName, CommandSchemas>;
+  definitions: Record<string, JsonSchema>;
+};
+
+export function getCommandSchemas(command: CommandName): CommandSchemas {
+  return SCHEMAS.commands[command];
+}
+
+/** Schema đầy đủ (kèm definitions) để in ra cho người dùng */
+export function getStandaloneSchema(schema: JsonSchema): JsonSchema & { definitions: Record<string, JsonSchema> } {
+  return { ...schema, definitions: SCHEMAS.definitions };
+}
+
+export function resolveSchema(schema: JsonSchema): JsonSchema {
+  let current = schema;
+  while (current.$ref) {
+    const name = current.$ref.replace('#/definitions/', '');
+    const target = SCHEMAS.definitions[name];
+    if (!target) throw new Error(`Schema không có định nghĩa ${name}`);
+    current = target;
+  }
+  return current;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'mảng';
+  return typeof value;
+}
+
+/**
+ * Ngày dạng YYYY-MM-DD hiểu theo giờ địa phương (giống new Date(Y, M, D) trong lib);
+ * chuỗi ISO đầy đủ hoặc timestamp giữ nguyên nghĩa
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value === 'number') return new Date(value);
+  if (typeof value !== 'string') return null;
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+  return value.trim() === '' ? null : new Date(value);
+}
+
+function coercePrimitive(value: unknown, schema: JsonSchema, options: ValidateOptions): unknown {
+  if (!options.coerceStrings || typeof value !== 'string') return value;
+  const text = value.trim();
+
+  if (schema.type === 'number' || schema.type === 'integer' || (schema.enum ?? []).some((v) => typeof v === 'number')) {
+    const numeric = Number(text.replace(/[_\s]/g, ''));
+    return text !== '' && Number.isFinite(numeric) ? numeric : value;
+  }
+  if (schema.type === 'boolean') {
+    if (/^(true|1|yes|có)$/i.test(text)) return true;
+    if (/^(false|0|no|không)$/i.test(text)) return false;
+  }
+  return value;
+}
+
+/**
+ * Giá trị mặc định của trường bị thiếu trong object không bắt buộc:
+ * 0 cho số (nếu 0 nằm trong khoảng cho phép), false cho boolean
+ */
+function getMissingFieldDefault(rawSchema: JsonSchema | undefined): number | boolean | undefined {
+  if (!rawSchema) return undefined;
+  const schema = resolveSchema(rawSchema);
+  if (schema.type === 'boolean') return false;
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const inRange = (schema.minimum ?? 0) <= 0 && (schema.maximum ?? 0) >= 0;
+    return inRange ? 0 : undefined;
+  }
+  return undefined;
+}
+
+function validateNode(
+  rawValue: unknown,
+  rawSchema: JsonSchema,
+  path: string,
+  issues: ValidationIssue[],
+  options: ValidateOptions,
+  isOptional = false
+): unknown {
+  const schema = resolveSchema(rawSchema);
+
+  if (schema.anyOf) {
+    for (const candidate of schema.anyOf) {
+      const candidateIssues: ValidationIssue[] = [];
+      const value = validateNode(rawValue, candidate, path, candidateIssues, options, isOptional);
+      if (candidateIssues.length === 0) return value;
+    }
+    issues.push({ path, message: 'không khớp với kiểu nào được phép' });
+    return rawValue;
+  }
+
+  const value = coercePrimitive(rawValue, schema, options);
+
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path, message: `phải bằng ${JSON.stringify(schema.const)}` });
+    return value;
+  }
+
+  if (schema.enum) {
+    if (!schema.enum.includes(value as string | number)) {
+      issues.push({ path, message: `phải là một trong ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}` });
+    }
+    return value;
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (schema.format === 'date-time') {
+        const date = parseDate(value);
+        if (!date || Number.isNaN(date.getTime())) {
+          issues.push({ path, message: 'phải là ngày hợp lệ (ISO 8601, VD: 2026-07-01)' });
+          return value;
+        }
+        return date;
+      }
+      if (typeof value !== 'string') issues.push({ path, message: `phải là chuỗi, nhận ${describeType(value)}` });
+      return value;
+    }
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `phải là số hữu hạn, nhận ${JSON.stringify(value)}` });
+      } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+        issues.push({ path, message: `phải là số nguyên, nhận ${value}` });
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path, message: `phải ≥ ${schema.minimum}, nhận ${value}` });
+      } else if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push({ path, message: `phải ≤ ${schema.maximum}, nhận ${value}` });
+      }
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') issues.push({ path, message: `phải là true/false, nhận ${JSON.stringify(value)}` });
+      return value;
+    case 'null':
+      if (value !== null) issues.push({ path, message: 'phải là null' });
+      return value;
+    case 'array': {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `phải là mảng, nhận ${describeType(value)}` });
+        return value;
+      }
+      const items = schema.items ?? {};
+      return value.map((item, index) => validateNode(item, items, joinPath(path, index), issues, options));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `phải là object, nhận ${describeType(value)}` });
+        return value;
+      }
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const required = schema.required ?? [];
+      const result: Record<string, unknown> = {};
+
+      for (const key of required) {
+        if (record[key] !== undefined) continue;
+        const fallback = isOptional ? getMissingFieldDefault(properties[key]) : undefined;
+        if (fallback === undefined) {
+          issues.push({ path: joinPath(path, key), message: 'bắt buộc' });
+        } else {
+          result[key] = fallback;
+        }
+      }
+
+      for (const [key, child] of Object.entries(record)) {
+        if (child === undefined) continue;
+        const propertySchema = properties[key] ?? schema.additionalProperties;
+        if (!propertySchema) {
+          issues.push({ path: joinPath(path, key), message: 'trường không được hỗ trợ' });
+          continue;
+        }
+        const childPath = joinPath(path, key);
+        result[key] = validateNode(child, propertySchema, childPath, issues, options, !required.includes(key));
+      }
+      return result;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Kiểm tra một giá trị theo schema, trả về giá trị đã chuẩn hóa và danh sách lỗi
+ */
+export function validate(value: unknown, schema: JsonSchema, options: ValidateOptions = {}): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const normalized = validateNode(value, schema, '', issues, options);
+  return { value: normalized, issues };
+}
@@ -18,19 +18,29 @@ import {
   SettlementYear,
   MonthlyIncomeEntry,
   DependentInfo,
+  PayerIncome,
+  PAYER_CONTRACT_LABELS,
   AnnualSettlementResult,
   calculateAnnualSettlement,
   createDefaultMonthlyIncome,
   generateDependentId,
   estimateMonthlyTax,
   getLawForMonth,
+  buildSettlementSheets,
 } from "@/lib/annualSettlementCalculator";
+import { exportToExcel } from "@/lib/exportUtils";
+import {
+  checkDependentRegistry,
+  countDependentsInMonth,
+} from "@/lib/dependentRegistry";
 import {
   AnnualSettlementTabState,
   DEFAULT_ANNUAL_SETTLEMENT_STATE,
 } from "@/lib/snapshotTypes";
 import { getInsuranceDetailed } from "@/lib/taxCalculator";
 import Tooltip from "@/components/ui/Tooltip";
+import PayerList from "./PayerList";
+import SettlementXmlExport from "./SettlementXmlExport";
 
 interface AnnualSettlementProps {
   sharedState?: SharedTaxState;
@@ -112,6 +122,9 @@ export default function AnnualSettlement({
   const [dependents, setDependents] = useState<DependentInfo[]>(
     tabState?.dependents ?? [],
   );
+  const [payers, setPayers] = useState<PayerIncome[]>(
+    tabState?.payers ?? [],
+  );
   const [charitableContributions, setCharitableContributions] = useState(
     tabState?.charitableContributions ?? 0,
   );
@@ -136,17 +149,12 @@ export default function AnnualSettlement({
   const [inputWarning, setInputWarning] = useState<string | null>(null);
 
   // Sync from shared state
+  // Vùng, bảo hiểm và người phụ thuộc đến từ hồ sơ người nộp thuế qua tabState
   useEffect(() => {
     if (sharedState && !isLocalChange.current) {
       if (averageSalary === 0 && sharedState.grossIncome > 0) {
         setAverageSalary(sharedState.grossIncome);
       }
-      if (sharedState.insuranceOptions) {
-        setInsuranceOptions(sharedState.insuranceOptions);
-      }
-      if (sharedState.region) {
-        setRegion(sharedState.region);
-      }
     }
     isLocalChange.current = false;
   }, [sharedState, averageSalary]);
@@ -166,6 +174,7 @@ export default function AnnualSettlement({
       setAverageSalary(tabState.averageSalary);
       setMonthlyIncome(tabState.monthlyIncome);
       setDependents(tabState.dependents);
+      setPayers(tabState.payers ?? []);
       setCharitableContributions(tabState.charitableContributions);
       setVoluntaryPension(tabState.voluntaryPension);
       setInsuranceOptions(tabState.insuranceOptions);
@@ -185,6 +194,7 @@ export default function AnnualSettlement({
         averageSalary,
         monthlyIncome,
         dependents,
+        payers,
         charitableContributions,
         voluntaryPension,
         insuranceOptions,
@@ -200,6 +210,7 @@ export default function AnnualSettlement({
       averageSalary,
       monthlyIncome,
       dependents,
+      payers,
       charitableContributions,
       voluntaryPension,
       insuranceOptions,
@@ -212,12 +223,14 @@ export default function AnnualSettlement({
 
   // Helper function to count dependents for a specific month
   const getDependentCountForMonth = useCallback(
-    (month: number): number => {
-      return dependents.filter(
-        (d) => d.fromMonth <= month && d.toMonth >= month,
-      ).length;
-    },
-    [dependents],
+    (month: number): number => countDependentsInMonth(dependents, year, month),
+    [dependents, year],
+  );
+
+  // Cảnh báo điều kiện người phụ thuộc trong năm quyết toán
+  const dependentIssues = useMemo(
+    () => checkDependentRegistry(dependents, year),
+    [dependents, year],
   );
 
   // When averageSalary changes, update monthly income
@@ -241,6 +254,7 @@ export default function AnnualSettlement({
           dependentCountForMonth,
           insurance.total,
           law,
+          new Date(year, entry.month - 1, 1),
         );
       });
       setMonthlyIncome(newMonthlyIncome);
@@ -257,7 +271,11 @@ export default function AnnualSettlement({
 
   // Calculate result
   const result = useMemo<AnnualSettlementResult | null>(() => {
-    const totalIncome = monthlyIncome.reduce(
+    const incomeEntries =
+      payers.length > 0
+        ? payers.flatMap((p) => p.monthlyIncome)
+        : monthlyIncome;
+    const totalIncome = incomeEntries.reduce(
       (sum, m) => sum + m.grossSalary,
       0,
     );
@@ -266,6 +284,7 @@ export default function AnnualSettlement({
     return calculateAnnualSettlement({
       year,
       monthlyIncome,
+      payers: payers.length > 0 ? payers : undefined,
       dependents,
       charitableContributions,
       voluntaryPension,
@@ -276,6 +295,7 @@ export default function AnnualSettlement({
   }, [
     year,
     monthlyIncome,
+    payers,
     dependents,
     charitableContributions,
     voluntaryPension,
@@ -367,6 +387,12 @@ export default function AnnualSettlement({
     updateTabState({ dependents: newDependents });
   };
 
+  // Update payers (nhiều nơi chi trả)
+  const handlePayersChange = (newPayers: PayerIncome[]) => {
+    setPayers(newPayers);
+    updateTabState({ payers: newPayers });
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -479,7 +505,12 @@ export default function AnnualSettlement({
               </label>
             </div>
 
-            {useAverageSalary ? (
+            {payers.length > 0 ? (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                Đang tính theo {payers.length} nơi chi trả bên dưới. Xóa hết
+                nơi chi trả để nhập theo một nơi làm việc.
+              </p>
+            ) : useAverageSalary ? (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Lương GROSS trung bình/tháng
@@ -571,6 +602,9 @@ export default function AnnualSettlement({
             )}
           </div>
 
+          {/* Payers */}
+          <PayerList payers={payers} onChange={handlePayersChange} />
+
           {/* Dependents */}
           <div className="card">
             <div className="flex items-center justify-between mb-4">
@@ -686,6 +720,24 @@ export default function AnnualSettlement({
                 ))}
               </div>
             )}
+
+            {dependentIssues.length > 0 && (
+              <ul className="mt-3 space-y-1 text-xs">
+                {dependentIssues.map((issue, index) => (
+                  <li
+                    key={`${issue.dependentId}-${index}`}
+                    className={
+                      issue.severity === "error"
+                        ? "text-red-600"
+                        : "text-amber-700"
+                    }
+                  >
+                    {dependents.find((d) => d.id === issue.dependentId)?.name}:{" "}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {/* Other deductions */}
@@ -791,10 +843,17 @@ export default function AnnualSettlement({
               </div>
             ) : (
               <p className="text-sm text-gray-500">
-                Tự động tính từ thuế khấu trừ hàng tháng:{" "}
+                {payers.length > 0
+                  ? "Tự động cộng từ chứng từ khấu trừ của các nơi chi trả: "
+                  : "Tự động tính từ thuế khấu trừ hàng tháng: "}
                 <span className="font-medium text-gray-700">
                   {formatCurrency(
-                    monthlyIncome.reduce((sum, m) => sum + m.taxPaid, 0),
+                    payers.length > 0
+                      ? payers.reduce(
+                          (sum, p) => sum + (p.certificateTaxWithheld ?? 0),
+                          0,
+                        )
+                      : monthlyIncome.reduce((sum, m) => sum + m.taxPaid, 0),
                   )}
                 </span>
               </p>
@@ -937,6 +996,82 @@ export default function AnnualSettlement({
                 </div>
               </div>
 
+              {/* Filing method & per-payer split */}
+              {result.filing && result.payerBreakdown && (
+                <div className="card">
+                  <h3 className="text-lg font-semibold text-gray-800 mb-4">
+                    Hình thức quyết toán
+                  </h3>
+                  <div
+                    className={`p-3 rounded-lg mb-4 ${
+                      result.filing.method === "authorize"
+                        ? "bg-green-50 border border-green-200"
+                        : "bg-amber-50 border border-amber-200"
+                    }`}
+                  >
+                    <div className="font-medium text-gray-800 mb-1">
+                      {result.filing.method === "authorize"
+                        ? `Được ủy quyền cho ${
+                            result.payerBreakdown.find(
+                              (p) => p.payerId === result.filing?.authorizedPayerId,
+                            )?.name ?? "tổ chức chi trả"
+                          } quyết toán thay`
+                        : result.filing.filingRequired
+                          ? "Phải tự quyết toán với cơ quan thuế"
+                          : "Tự quyết toán (không bắt buộc)"}
+                    </div>
+                    <ul className="text-sm text-gray-600 space-y-1">
+                      {result.filing.reasons.map((reason) => (
+                        <li key={reason}>• {reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2 pr-2">Nơi chi trả</th>
+                          <th className="py-2 px-2 text-right">Đã khấu trừ</th>
+                          <th className="py-2 px-2 text-right">Thuế phân bổ</th>
+                          <th className="py-2 pl-2 text-right">Nộp thêm / Hoàn</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.payerBreakdown.map((payer) => (
+                          <tr key={payer.payerId} className="border-t border-gray-100">
+                            <td className="py-2 pr-2">
+                              <div className="font-medium">{payer.name}</div>
+                              <div className="text-xs text-gray-500">
+                                {PAYER_CONTRACT_LABELS[payer.contractType]}
+                              </div>
+                            </td>
+                            <td className="py-2 px-2 text-right">
+                              {formatNumber(payer.taxWithheld)}
+                            </td>
+                            <td className="py-2 px-2 text-right">
+                              {formatNumber(payer.allocatedTaxDue)}
+                            </td>
+                            <td
+                              className={`py-2 pl-2 text-right font-medium ${
+                                payer.payable > 0 ? "text-red-600" : "text-green-600"
+                              }`}
+                            >
+                              {payer.payable > 0
+                                ? `+${formatNumber(payer.payable)}`
+                                : `-${formatNumber(payer.refundable)}`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Thuế cả năm được phân bổ theo tỷ trọng thu nhập chịu thuế của từng nơi.
+                  </p>
+                </div>
+              )}
+
               {/* Period breakdown for transition year */}
               {result.isTransitionYear && result.periods && (
                 <div className="card">
@@ -1021,6 +1156,19 @@ export default function AnnualSettlement({
 
                 {showMonthlyDetails && (
                   <div className="mt-4 overflow-x-auto">
+                    <div className="flex justify-end mb-2">
+                      <button
+                        onClick={() =>
+                          exportToExcel(
+                            buildSettlementSheets(result),
+                            `quyet-toan-${result.year}.xlsx`,
+                          )
+                        }
+                        className="px-3 py-2 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+                      >
+                        Xuất Excel
+                      </button>
+                    </div>
                     <table className="w-full text-sm">
                       <thead>
                         <tr className="text-left text-gray-500 border-b">
@@ -1103,6 +1251,9 @@ export default function AnnualSettlement({
                 )}
               </div>
 
+              {/* HTKK XML export */}
+              <SettlementXmlExport result={result} dependents={dependents} />
+
               {/* Settlement info */}
               <div className="card bg-blue-50 border-blue-200">
                 <h4 className="font-medium text-blue-800 mb-2">
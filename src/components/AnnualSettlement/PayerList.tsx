@@ -0,0 +1,224 @@
+"use client";
+
+import { formatNumber } from "@/lib/taxCalculator";
+import { MAX_MONTHLY_INCOME, parseCurrencyInput } from "@/utils/inputSanitizers";
+import {
+  PAYER_CONTRACT_LABELS,
+  PayerContractType,
+  PayerIncome,
+  createPayerMonthlyIncome,
+  generatePayerId,
+} from "@/lib/annualSettlementCalculator";
+
+interface PayerListProps {
+  payers: PayerIncome[];
+  onChange: (payers: PayerIncome[]) => void;
+}
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, i) => `T${i + 1}`);
+
+/**
+ * Khoảng tháng và lương tháng hiển thị trên form (thu nhập lưu theo từng tháng)
+ */
+function getPayerRange(payer: PayerIncome) {
+  const months = payer.monthlyIncome.map((m) => m.month);
+  return {
+    fromMonth: months.length > 0 ? Math.min(...months) : 1,
+    toMonth: months.length > 0 ? Math.max(...months) : 12,
+    grossSalary: payer.monthlyIncome[0]?.grossSalary ?? 0,
+  };
+}
+
+export default function PayerList({ payers, onChange }: PayerListProps) {
+  const addPayer = () => {
+    const newPayer: PayerIncome = {
+      id: generatePayerId(),
+      name: `Nơi chi trả ${payers.length + 1}`,
+      contractType: "labor_contract",
+      monthlyIncome: createPayerMonthlyIncome(1, 12, 0),
+      certificateTaxWithheld: 0,
+      isCurrentEmployer: payers.length === 0,
+    };
+    onChange([...payers, newPayer]);
+  };
+
+  const updatePayer = (id: string, updates: Partial<PayerIncome>) => {
+    onChange(payers.map((p) => (p.id === id ? { ...p, ...updates } : p)));
+  };
+
+  const updateRange = (
+    payer: PayerIncome,
+    updates: Partial<ReturnType<typeof getPayerRange>>,
+  ) => {
+    const range = { ...getPayerRange(payer), ...updates };
+    updatePayer(payer.id, {
+      monthlyIncome: createPayerMonthlyIncome(
+        range.fromMonth,
+        Math.max(range.fromMonth, range.toMonth),
+        range.grossSalary,
+      ),
+    });
+  };
+
+  const removePayer = (id: string) => {
+    onChange(payers.filter((p) => p.id !== id));
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Nơi chi trả thu nhập
+        </h3>
+        <button
+          onClick={addPayer}
+          className="px-3 py-2.5 sm:py-1.5 min-h-[44px] text-sm bg-primary-100 text-primary-700 rounded-lg hover:bg-primary-200 transition-colors"
+        >
+          + Thêm nơi chi trả
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Đổi việc trong năm hoặc có hợp đồng vãng lai khấu trừ 10%? Nhập từng
+        nơi theo chứng từ khấu trừ thuế TNCN.
+      </p>
+
+      {payers.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">
+          Chưa có nơi chi trả - đang tính theo một nơi làm việc ở trên
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {payers.map((payer) => {
+            const range = getPayerRange(payer);
+            return (
+              <div key={payer.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={payer.name}
+                    onChange={(e) => updatePayer(payer.id, { name: e.target.value })}
+                    className="flex-1 px-2 py-1 border border-gray-200 rounded text-sm"
+                    placeholder="Tên tổ chức chi trả"
+                  />
+                  <input
+                    type="text"
+                    value={payer.taxCode ?? ""}
+                    onChange={(e) =>
+                      updatePayer(payer.id, { taxCode: e.target.value || undefined })
+                    }
+                    className="w-32 px-2 py-1 border border-gray-200 rounded text-sm"
+                    placeholder="MST"
+                  />
+                  <button
+                    onClick={() => removePayer(payer.id)}
+                    className="p-1 text-red-500 hover:bg-red-50 rounded"
+                    title="Xóa"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <select
+                    value={payer.contractType}
+                    onChange={(e) =>
+                      updatePayer(payer.id, {
+                        contractType: e.target.value as PayerContractType,
+                      })
+                    }
+                    className="px-2 py-1 border border-gray-200 rounded"
+                  >
+                    {(Object.keys(PAYER_CONTRACT_LABELS) as PayerContractType[]).map(
+                      (type) => (
+                        <option key={type} value={type}>
+                          {PAYER_CONTRACT_LABELS[type]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                  <span className="text-gray-500">Từ</span>
+                  <select
+                    value={range.fromMonth}
+                    onChange={(e) =>
+                      updateRange(payer, { fromMonth: Number(e.target.value) })
+                    }
+                    className="px-2 py-1 border border-gray-200 rounded"
+                  >
+                    {MONTH_NAMES.map((name, i) => (
+                      <option key={i} value={i + 1}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-gray-500">đến</span>
+                  <select
+                    value={range.toMonth}
+                    onChange={(e) =>
+                      updateRange(payer, { toMonth: Number(e.target.value) })
+                    }
+                    className="px-2 py-1 border border-gray-200 rounded"
+                  >
+                    {MONTH_NAMES.map((name, i) => (
+                      <option key={i} value={i + 1}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <label className="block">
+                    <span className="text-gray-500">Thu nhập/tháng</span>
+                    <input
+                      type="text"
+                      value={formatNumber(range.grossSalary)}
+                      onChange={(e) =>
+                        updateRange(payer, {
+                          grossSalary: parseCurrencyInput(e.target.value, {
+                            max: MAX_MONTHLY_INCOME,
+                          }).value,
+                        })
+                      }
+                      className="w-full px-2 py-1 border border-gray-200 rounded text-right"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-gray-500">Thuế đã khấu trừ (chứng từ)</span>
+                    <input
+                      type="text"
+                      value={formatNumber(payer.certificateTaxWithheld ?? 0)}
+                      onChange={(e) =>
+                        updatePayer(payer.id, {
+                          certificateTaxWithheld: parseCurrencyInput(e.target.value, {
+                            max: MAX_MONTHLY_INCOME * 12,
+                          }).value,
+                        })
+                      }
+                      className="w-full px-2 py-1 border border-gray-200 rounded text-right"
+                    />
+                  </label>
+                </div>
+
+                {payer.contractType === "labor_contract" && (
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={payer.isCurrentEmployer ?? false}
+                      onChange={(e) =>
+                        updatePayer(payer.id, { isCurrentEmployer: e.target.checked })
+                      }
+                      className="w-4 h-4 text-primary-600 rounded"
+                    />
+                    <span className="text-gray-600">
+                      Đang làm việc tại đây khi quyết toán
+                    </span>
+                  </label>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
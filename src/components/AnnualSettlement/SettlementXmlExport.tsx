@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  AnnualSettlementResult,
+  DependentInfo,
+} from "@/lib/annualSettlementCalculator";
+import type { PersonalInfo } from "@/lib/taxDocumentGenerator";
+import {
+  SettlementDependent,
+  XmlValidationIssue,
+  exportSettlementXml,
+} from "@/lib/settlementXmlExporter";
+import { downloadBlob } from "@/lib/exportUtils";
+import { DEPENDENT_RELATIONSHIP_LABELS } from "@/lib/dependentRegistry";
+
+interface SettlementXmlExportProps {
+  result: AnnualSettlementResult;
+  dependents: DependentInfo[];
+}
+
+type DependentDetails = Pick<SettlementDependent, "taxCode" | "idNumber" | "relationship">;
+
+const PERSONAL_FIELDS: Array<{ field: keyof PersonalInfo; label: string; placeholder: string }> = [
+  { field: "fullName", label: "Họ và tên", placeholder: "Nguyễn Văn A" },
+  { field: "taxCode", label: "Mã số thuế", placeholder: "10 hoặc 13 số" },
+  { field: "idNumber", label: "CCCD", placeholder: "12 số" },
+  { field: "address", label: "Địa chỉ", placeholder: "Số nhà, phường/xã, tỉnh/thành" },
+  { field: "phone", label: "Điện thoại", placeholder: "" },
+  { field: "email", label: "Email", placeholder: "" },
+];
+
+/**
+ * Xuất tờ khai 02/QTT-TNCN (kèm 02-1/BK-QTT-TNCN) dạng XML để nhập vào HTKK/eTax
+ */
+export default function SettlementXmlExport({ result, dependents }: SettlementXmlExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [personalInfo, setPersonalInfo] = useState<PersonalInfo>({ fullName: "" });
+  const [taxAuthorityCode, setTaxAuthorityCode] = useState("");
+  const [taxAuthorityName, setTaxAuthorityName] = useState("");
+  const [refundRequested, setRefundRequested] = useState(true);
+  const [dependentDetails, setDependentDetails] = useState<Record<string, DependentDetails>>({});
+  const [errors, setErrors] = useState<XmlValidationIssue[]>([]);
+  const [exported, setExported] = useState<string | null>(null);
+
+  const updateDependentDetails = (id: string, updates: DependentDetails) => {
+    setDependentDetails((prev) => ({ ...prev, [id]: { ...prev[id], ...updates } }));
+  };
+
+  const handleExport = () => {
+    const output = exportSettlementXml({
+      result,
+      personalInfo,
+      dependents: dependents.map((dep) => ({
+        ...dep,
+        birthDate: dep.dateOfBirth ? new Date(dep.dateOfBirth) : undefined,
+        relationship: dep.type ? DEPENDENT_RELATIONSHIP_LABELS[dep.type] : undefined,
+        ...dependentDetails[dep.id],
+      })),
+      taxAuthority: taxAuthorityCode
+        ? { code: taxAuthorityCode, name: taxAuthorityName }
+        : undefined,
+      refundRequested,
+    });
+
+    if (!output.ok) {
+      setErrors(output.errors);
+      setExported(null);
+      return;
+    }
+    setErrors([]);
+    setExported(output.fileName);
+    downloadBlob(new Blob([output.xml], { type: "application/xml;charset=utf-8" }), output.fileName);
+  };
+
+  return (
+    <div className="card">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between"
+      >
+        <h3 className="text-lg font-semibold text-gray-800">
+          Xuất tờ khai 02/QTT-TNCN (XML)
+        </h3>
+        <span className="text-gray-500">{isOpen ? "▲" : "▼"}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            File XML nhập được vào HTKK hoặc eTax, kèm bảng kê người phụ thuộc
+            02-1/BK-QTT-TNCN. Thông tin cá nhân chỉ dùng để tạo file, không được lưu.
+          </p>
+
+          <div className="grid sm:grid-cols-2 gap-3">
+            {PERSONAL_FIELDS.map(({ field, label, placeholder }) => (
+              <label key={field} className="block text-sm">
+                <span className="text-gray-700">{label}</span>
+                <input
+                  type="text"
+                  value={personalInfo[field] ?? ""}
+                  onChange={(e) =>
+                    setPersonalInfo((prev) => ({ ...prev, [field]: e.target.value }))
+                  }
+                  className="input-field"
+                  placeholder={placeholder}
+                />
+              </label>
+            ))}
+            <label className="block text-sm">
+              <span className="text-gray-700">Mã cơ quan thuế nơi nộp</span>
+              <input
+                type="text"
+                value={taxAuthorityCode}
+                onChange={(e) => setTaxAuthorityCode(e.target.value)}
+                className="input-field"
+                placeholder="VD: 10100"
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700">Tên cơ quan thuế</span>
+              <input
+                type="text"
+                value={taxAuthorityName}
+                onChange={(e) => setTaxAuthorityName(e.target.value)}
+                className="input-field"
+              />
+            </label>
+          </div>
+
+          {dependents.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">
+                Người phụ thuộc (02-1/BK-QTT-TNCN)
+              </h4>
+              {dependents.map((dep) => (
+                <div key={dep.id} className="grid grid-cols-3 gap-2 text-sm items-center">
+                  <span className="font-medium text-gray-700">{dep.name}</span>
+                  <input
+                    type="text"
+                    value={dependentDetails[dep.id]?.taxCode ?? dep.taxCode ?? ""}
+                    onChange={(e) => updateDependentDetails(dep.id, { taxCode: e.target.value })}
+                    className="px-2 py-1 border border-gray-200 rounded"
+                    placeholder="MST NPT"
+                  />
+                  <input
+                    type="text"
+                    value={dependentDetails[dep.id]?.idNumber ?? dep.idNumber ?? ""}
+                    onChange={(e) => updateDependentDetails(dep.id, { idNumber: e.target.value })}
+                    className="px-2 py-1 border border-gray-200 rounded"
+                    placeholder="CCCD / giấy khai sinh"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.settlementType === "refund" && (
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={refundRequested}
+                onChange={(e) => setRefundRequested(e.target.checked)}
+                className="w-4 h-4 text-primary-600 rounded"
+              />
+              <span className="text-gray-600">
+                Đề nghị hoàn thuế nộp thừa (bỏ chọn để bù trừ vào kỳ sau)
+              </span>
+            </label>
+          )}
+
+          {errors.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <div className="text-sm font-medium text-red-800 mb-1">
+                Chưa thể tạo XML:
+              </div>
+              <ul className="text-sm text-red-700 space-y-1">
+                {errors.map((error) => (
+                  <li key={`${error.path}-${error.message}`}>• {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {exported && (
+            <p className="text-sm text-green-700">Đã tạo file {exported}</p>
+          )}
+
+          <button
+            onClick={handleExport}
+            className="w-full px-4 py-3 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Tạo file XML
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { memo, useState } from "react";
+import { formatCurrency } from "@/lib/taxCalculator";
+import {
+  CalculationTrace,
+  formatLegalReference,
+  formatTraceInput,
+} from "@/lib/calculationTrace";
+
+interface CalculationExplainProps {
+  trace: CalculationTrace;
+  title?: string;
+}
+
+function CalculationExplain({
+  trace,
+  title = "Giải thích cách tính",
+}: CalculationExplainProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="card">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between gap-2 min-h-[44px] text-left"
+      >
+        <span className="font-semibold text-gray-800">{title}</span>
+        <svg
+          className={`w-4 h-4 text-gray-500 transition-transform ${isOpen ? "rotate-90" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5l7 7-7 7"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3" role="region" aria-label={title}>
+          <p className="text-xs text-gray-500">
+            Kỳ tính thuế {trace.asOf.toLocaleDateString("vi-VN")} · bộ tham
+            số {trace.ruleSetId}
+          </p>
+          <ol className="space-y-3">
+            {trace.steps.map((step, index) => (
+              <li
+                key={step.id}
+                className="pl-3 border-l-2 border-primary-100 text-sm"
+              >
+                <div className="flex justify-between gap-3">
+                  <span className="font-medium text-gray-700">
+                    {index + 1}. {step.label}
+                  </span>
+                  <span className="font-mono tabular-nums font-medium">
+                    {formatCurrency(step.output)}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 font-mono mt-1">
+                  {step.formula}
+                </div>
+                {Object.keys(step.inputs).length > 0 && (
+                  <dl className="mt-1 grid grid-cols-2 gap-x-3 text-xs text-gray-600">
+                    {Object.entries(step.inputs).map(([label, value]) => (
+                      <div key={label} className="contents">
+                        <dt>{label}</dt>
+                        <dd className="text-right font-mono tabular-nums">
+                          {formatTraceInput(label, value)}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+                {step.legalRef && (
+                  <div className="text-xs text-primary-700 mt-1">
+                    Căn cứ: {formatLegalReference(step.legalRef)}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(CalculationExplain);
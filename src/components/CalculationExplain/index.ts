@@ -0,0 +1 @@
+export { default as CalculationExplain } from './CalculationExplain';
@@ -10,13 +10,27 @@ import {
   type AllocationScenario,
 } from '@/lib/coupleTaxOptimizer';
 import { CoupleOptimizerTabState, DEFAULT_COUPLE_OPTIMIZER_STATE } from '@/lib/snapshotTypes';
+import type { DependentInfo } from '@/lib/annualSettlementCalculator';
+import { getEligibleMonths } from '@/lib/dependentRegistry';
 
 interface CoupleTaxOptimizerProps {
   tabState: CoupleOptimizerTabState;
   onTabStateChange: (state: CoupleOptimizerTabState) => void;
+  // Danh sách người phụ thuộc trong hồ sơ (khi tab không ghi đè số NPT)
+  registeredDependents?: DependentInfo[];
 }
 
-export function CoupleTaxOptimizer({ tabState, onTabStateChange }: CoupleTaxOptimizerProps) {
+export function CoupleTaxOptimizer({ tabState, onTabStateChange, registeredDependents }: CoupleTaxOptimizerProps) {
+  // Số tháng giảm trừ năm nay của từng NPT, chỉ khi danh sách khớp số NPT của tab
+  const dependentMonths = useMemo(() => {
+    if (!registeredDependents || registeredDependents.length !== tabState.totalDependents) {
+      return undefined;
+    }
+    const year = new Date().getFullYear();
+    return registeredDependents.map(dependent => getEligibleMonths(dependent, year).length);
+  }, [registeredDependents, tabState.totalDependents]);
+  const totalDependentMonths = dependentMonths?.reduce((sum, months) => sum + months, 0);
+
   // Calculate optimization result
   const result = useMemo<CoupleOptimizationResult | null>(() => {
     if (tabState.person1Income === 0 && tabState.person2Income === 0) {
@@ -41,8 +55,9 @@ export function CoupleTaxOptimizer({ tabState, onTabStateChange }: CoupleTaxOpti
       totalDependents: tabState.totalDependents,
       charitableContribution: tabState.charitableContribution,
       voluntaryPension: tabState.voluntaryPension,
+      dependentMonths,
     });
-  }, [tabState]);
+  }, [tabState, dependentMonths]);
 
   // Update field helper
   const updateField = <K extends keyof CoupleOptimizerTabState>(
@@ -259,6 +274,13 @@ export function CoupleTaxOptimizer({ tabState, onTabStateChange }: CoupleTaxOpti
               onChange={(e) => updateField('totalDependents', parseInt(e.target.value) || 0)}
               className="w-full rounded-lg border border-gray-300 bg-white text-gray-900 px-3 py-2"
             />
+            {totalDependentMonths !== undefined && totalDependentMonths < tabState.totalDependents * 12 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Theo danh sách đăng ký: {totalDependentMonths}/{tabState.totalDependents * 12} tháng được giảm
+                trừ năm nay; mỗi NPT đăng ký cho một người, thuế là bình quân tháng với số NPT
+                được giảm trừ của từng tháng
+              </p>
+            )}
           </div>
 
           <div>
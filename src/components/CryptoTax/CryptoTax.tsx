@@ -10,11 +10,13 @@ import {
   getTransactionTypeLabel,
   generateTransactionId,
   getAssetByType,
+  buildCryptoSheets,
   type CryptoAssetType,
   type TransactionType,
   type CryptoTransaction,
   type CryptoTaxInput,
 } from '@/lib/cryptoTaxCalculator';
+import { exportToExcel } from '@/lib/exportUtils';
 
 interface CryptoTaxProps {
   year?: number;
@@ -384,10 +386,18 @@ export default function CryptoTax({
           {/* Transaction List */}
           {transactions.length > 0 && (
             <div className="bg-white rounded-xl shadow-sm overflow-hidden">
-              <div className="p-4 border-b border-gray-200">
+              <div className="p-4 border-b border-gray-200 flex items-center justify-between">
                 <h3 className="font-semibold text-gray-900">
                   Danh sách giao dịch
                 </h3>
+                {result && (
+                  <button
+                    onClick={() => exportToExcel(buildCryptoSheets(result), `thue-tai-san-so-${year}.xlsx`)}
+                    className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+                  >
+                    Xuất Excel
+                  </button>
+                )}
               </div>
               <div className="divide-y divide-gray-100">
                 {transactions.map(tx => {
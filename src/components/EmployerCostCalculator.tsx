@@ -13,29 +13,7 @@ import {
 } from '@/lib/taxCalculator';
 import { CurrencyInputIssues, MAX_MONTHLY_INCOME, parseCurrencyInput } from '@/utils/inputSanitizers';
 import { EmployerCostTabState } from '@/lib/snapshotTypes';
-
-const INSURANCE_RATES = {
-  socialInsurance: 0.08,
-  healthInsurance: 0.015,
-  unemploymentInsurance: 0.01,
-};
-
-const EMPLOYER_RATES = {
-  socialInsurance: 0.175,
-  healthInsurance: 0.03,
-  unemploymentInsurance: 0.01,
-  unionFee: 0.02,
-};
-
-const DEDUCTIONS = { personal: 15_500_000, dependent: 6_200_000 };
-
-const TAX_BRACKETS = [
-  { min: 0, max: 10_000_000, rate: 0.05 },
-  { min: 10_000_000, max: 30_000_000, rate: 0.1 },
-  { min: 30_000_000, max: 60_000_000, rate: 0.2 },
-  { min: 60_000_000, max: 100_000_000, rate: 0.3 },
-  { min: 100_000_000, max: Infinity, rate: 0.35 },
-];
+import { getTaxRulesForDate } from '@/lib/taxRuleRegistry';
 
 interface EmployerCostCalculatorProps {
   sharedState?: SharedTaxState;
@@ -98,6 +76,8 @@ export default function EmployerCostCalculator({
   const regionalMinimumWages = useMemo(() => getRegionalMinimumWages(new Date()), []);
   const maxUnemploymentInsuranceSalary = useMemo(() => getMaxUnemploymentInsuranceSalary(new Date()), []);
   const maxSocialInsuranceSalary = useMemo(() => getMaxSocialInsuranceSalary(new Date()), []);
+  // Tỷ lệ bảo hiểm, giảm trừ gia cảnh, biểu thuế theo bộ tham số hiện hành
+  const rules = useMemo(() => getTaxRulesForDate(new Date()), []);
 
   // Base for insurance calculation
   const insuranceBase = (useDeclaredSalary && declaredSalary > 0) ? declaredSalary : grossSalary;
@@ -107,27 +87,27 @@ export default function EmployerCostCalculator({
   const maxBhtn = maxUnemploymentInsuranceSalary[region];
   const bhtnBase = Math.min(insuranceBase, maxBhtn);
 
-  const employeeBhxh = insuranceOptions.bhxh ? bhxhBhytBase * INSURANCE_RATES.socialInsurance : 0;
-  const employeeBhyt = insuranceOptions.bhyt ? bhxhBhytBase * INSURANCE_RATES.healthInsurance : 0;
-  const employeeBhtn = insuranceOptions.bhtn ? bhtnBase * INSURANCE_RATES.unemploymentInsurance : 0;
+  const employeeBhxh = insuranceOptions.bhxh ? bhxhBhytBase * rules.insuranceRates.socialInsurance : 0;
+  const employeeBhyt = insuranceOptions.bhyt ? bhxhBhytBase * rules.insuranceRates.healthInsurance : 0;
+  const employeeBhtn = insuranceOptions.bhtn ? bhtnBase * rules.insuranceRates.unemploymentInsurance : 0;
   const employeeInsuranceTotal = employeeBhxh + employeeBhyt + employeeBhtn;
 
   // Employer insurance (company pays)
-  const employerBhxh = insuranceOptions.bhxh ? bhxhBhytBase * EMPLOYER_RATES.socialInsurance : 0;
-  const employerBhyt = insuranceOptions.bhyt ? bhxhBhytBase * EMPLOYER_RATES.healthInsurance : 0;
-  const employerBhtn = insuranceOptions.bhtn ? bhtnBase * EMPLOYER_RATES.unemploymentInsurance : 0;
-  const employerUnionFee = includeUnionFee ? grossSalary * EMPLOYER_RATES.unionFee : 0;
+  const employerBhxh = insuranceOptions.bhxh ? bhxhBhytBase * rules.employerInsuranceRates.socialInsurance : 0;
+  const employerBhyt = insuranceOptions.bhyt ? bhxhBhytBase * rules.employerInsuranceRates.healthInsurance : 0;
+  const employerBhtn = insuranceOptions.bhtn ? bhtnBase * rules.employerInsuranceRates.unemploymentInsurance : 0;
+  const employerUnionFee = includeUnionFee ? grossSalary * rules.employerInsuranceRates.unionFee : 0;
   const employerInsuranceTotal = employerBhxh + employerBhyt + employerBhtn + employerUnionFee;
 
   // Tax calculation
-  const personalDeduction = DEDUCTIONS.personal;
-  const dependentDeduction = dependents * DEDUCTIONS.dependent;
+  const personalDeduction = rules.deductions.personal;
+  const dependentDeduction = dependents * rules.deductions.dependent;
   const taxableIncome = Math.max(0, grossSalary - employeeInsuranceTotal - personalDeduction - dependentDeduction);
 
   // Calculate tax using brackets
   let tax = 0;
   let remainingIncome = taxableIncome;
-  for (const bracket of TAX_BRACKETS) {
+  for (const bracket of rules.brackets) {
     if (remainingIncome <= 0) break;
     const bracketWidth = bracket.max - bracket.min;
     const taxableInBracket = Math.min(remainingIncome, bracketWidth);
@@ -0,0 +1,394 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ANNUAL_INDICATORS,
+  MONTHLY_INDICATORS,
+  addPayrollEntry,
+  buildEmployerDeclaration,
+  buildEmployerDeclarationPdfReport,
+  createFlatRateEntry,
+  formatDeclarationPeriod,
+  getEmployerDeclarationFileName,
+  getStoredPayrollMonths,
+  payrollMonthFromRoster,
+  savePayrollMonths,
+  serializeEmployerDeclarationXml,
+  setRosterMonth,
+  validateEmployerDeclaration,
+  type EmployerDeclaration,
+  type EmployerDeclarationPeriod,
+  type EmployerPayrollMonth,
+  type XmlValidationIssue,
+} from '@/lib/employerDeclaration';
+import { getStoredCertificatePayer, saveCertificatePayer, type CertificatePayer } from '@/lib/withholdingCertificate';
+import type { RosterResult } from '@/lib/payrollRosterCalculator';
+import type { ResidencyStatus } from '@/lib/withholdingTaxCalculator';
+import { formatNumber } from '@/lib/taxCalculator';
+import { downloadBlob, exportToPDF } from '@/lib/exportUtils';
+
+interface EmployerDeclarationGeneratorProps {
+  result: RosterResult | null;
+}
+
+type PeriodKind = EmployerDeclarationPeriod['kind'];
+
+const EMPTY_PAYER: CertificatePayer = { name: '', taxCode: '', address: '', phone: '' };
+
+const EMPTY_FLAT_PAYMENT = { fullName: '', taxCode: '', idNumber: '', residency: 'resident' as ResidencyStatus, amount: 0 };
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+const INPUT_CLASS = 'w-full rounded-lg border border-gray-300 bg-white text-gray-900 px-3 py-2 text-sm';
+
+/**
+ * Lập tờ khai 05/KK-TNCN (tháng/quý) và 05/QTT-TNCN kèm phụ lục 05-1/BK, 05-2/BK (năm)
+ * từ bảng lương đã chốt từng tháng và các khoản chi trả khấu trừ 10%/20%
+ */
+export default function EmployerDeclarationGenerator({ result }: EmployerDeclarationGeneratorProps) {
+  const currentYear = (result?.asOf ?? new Date()).getFullYear();
+  const currentMonth = (result?.asOf ?? new Date()).getMonth() + 1;
+
+  const [payer, setPayer] = useState<CertificatePayer>(EMPTY_PAYER);
+  const [taxAuthorityCode, setTaxAuthorityCode] = useState('');
+  const [months, setMonths] = useState<EmployerPayrollMonth[]>([]);
+  const [year, setYear] = useState(currentYear);
+  const [rosterMonth, setRosterMonthValue] = useState(currentMonth);
+  const [flatPayment, setFlatPayment] = useState(EMPTY_FLAT_PAYMENT);
+  const [flatMonth, setFlatMonth] = useState(currentMonth);
+  const [periodKind, setPeriodKind] = useState<PeriodKind>('month');
+  const [periodValue, setPeriodValue] = useState(currentMonth);
+  const [declaration, setDeclaration] = useState<EmployerDeclaration | null>(null);
+  const [errors, setErrors] = useState<XmlValidationIssue[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Bảng lương đã chốt và tổ chức trả thu nhập nhập lần trước
+  useEffect(() => {
+    setMonths(getStoredPayrollMonths());
+    const stored = getStoredCertificatePayer();
+    if (stored) setPayer({ ...EMPTY_PAYER, ...stored });
+  }, []);
+
+  const period = useMemo((): EmployerDeclarationPeriod => {
+    if (periodKind === 'month') return { kind: 'month', year, month: periodValue };
+    if (periodKind === 'quarter') return { kind: 'quarter', year, quarter: Math.min(periodValue, 4) };
+    return { kind: 'year', year };
+  }, [periodKind, periodValue, year]);
+
+  const yearMonths = months.filter((payroll) => payroll.year === year);
+
+  const updateMonths = (next: EmployerPayrollMonth[]) => {
+    setMonths(next);
+    savePayrollMonths(next);
+    setDeclaration(null);
+  };
+
+  const handleSaveRoster = () => {
+    if (!result || result.rows.length === 0) return;
+    updateMonths(setRosterMonth(months, payrollMonthFromRoster(result, year, rosterMonth)));
+  };
+
+  const handleAddFlatPayment = () => {
+    if (!flatPayment.fullName.trim() || flatPayment.amount <= 0) return;
+    updateMonths(addPayrollEntry(months, year, flatMonth, createFlatRateEntry(flatPayment)));
+    setFlatPayment(EMPTY_FLAT_PAYMENT);
+  };
+
+  const handleRemoveMonth = (month: number) => {
+    updateMonths(months.filter((payroll) => !(payroll.year === year && payroll.month === month)));
+  };
+
+  const handleBuild = () => {
+    const built = buildEmployerDeclaration({
+      payer,
+      period,
+      months,
+      taxAuthority: taxAuthorityCode.trim() ? { code: taxAuthorityCode.trim(), name: '' } : undefined,
+    });
+    const issues = validateEmployerDeclaration(built);
+    setErrors(issues);
+    setDeclaration(issues.length === 0 ? built : null);
+    if (issues.length === 0) saveCertificatePayer(payer);
+  };
+
+  const handleExportPDF = async () => {
+    if (!declaration) return;
+    setIsExporting(true);
+    try {
+      await exportToPDF(buildEmployerDeclarationPdfReport(declaration), getEmployerDeclarationFileName(declaration, 'pdf'));
+    } catch (error) {
+      console.error('PDF export error:', error);
+      alert('Không thể xuất PDF. Vui lòng thử lại.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportXML = () => {
+    if (!declaration) return;
+    downloadBlob(
+      new Blob([serializeEmployerDeclarationXml(declaration)], { type: 'application/xml;charset=utf-8' }),
+      getEmployerDeclarationFileName(declaration, 'xml')
+    );
+  };
+
+  const labels = declaration?.formCode === '05/QTT-TNCN' ? ANNUAL_INDICATORS : MONTHLY_INDICATORS;
+
+  return (
+    <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200 space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Tờ khai thuế TNCN của tổ chức trả thu nhập</h3>
+        <p className="text-sm text-gray-500">
+          Chốt bảng lương từng tháng, thêm các khoản chi trả khấu trừ 10%/20%, rồi lập tờ khai 05/KK-TNCN (tháng/quý)
+          hoặc 05/QTT-TNCN kèm phụ lục 05-1/BK, 05-2/BK (năm).
+        </p>
+      </div>
+
+      {/* Người nộp thuế */}
+      <div className="grid sm:grid-cols-3 gap-3">
+        <label className="block text-sm text-gray-700">
+          Tên tổ chức trả thu nhập
+          <input
+            type="text"
+            value={payer.name}
+            onChange={(e) => setPayer({ ...payer, name: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          Mã số thuế
+          <input
+            type="text"
+            value={payer.taxCode}
+            onChange={(e) => setPayer({ ...payer, taxCode: e.target.value })}
+            className={INPUT_CLASS}
+            placeholder="0123456789"
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          Mã cơ quan thuế (tùy chọn)
+          <input
+            type="text"
+            value={taxAuthorityCode}
+            onChange={(e) => setTaxAuthorityCode(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      {/* Bảng lương các tháng */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="block text-sm text-gray-700">
+            Năm
+            <input
+              type="number"
+              value={year}
+              onChange={(e) => setYear(parseInt(e.target.value, 10) || currentYear)}
+              className={`${INPUT_CLASS} w-28`}
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Tháng lương
+            <select
+              value={rosterMonth}
+              onChange={(e) => setRosterMonthValue(parseInt(e.target.value, 10))}
+              className={INPUT_CLASS}
+            >
+              {MONTHS.map((month) => (
+                <option key={month} value={month}>Tháng {month}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleSaveRoster}
+            disabled={!result || result.rows.length === 0}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Chốt bảng lương hiện tại vào tháng {rosterMonth}/{year}
+          </button>
+        </div>
+
+        {yearMonths.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {yearMonths.map((payroll) => (
+              <span
+                key={payroll.month}
+                className="inline-flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-sm text-gray-700"
+              >
+                T{payroll.month}: {payroll.entries.length} cá nhân
+                <button
+                  onClick={() => handleRemoveMonth(payroll.month)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={`Xóa bảng lương tháng ${payroll.month}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Chưa chốt bảng lương tháng nào của năm {year}.</p>
+        )}
+      </div>
+
+      {/* Khoản chi trả khấu trừ toàn phần */}
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <p className="text-sm font-medium text-gray-700">
+          Chi trả không HĐLĐ/HĐLĐ dưới 3 tháng (10%) hoặc cho cá nhân không cư trú (20%)
+        </p>
+        <div className="grid sm:grid-cols-3 gap-3">
+          <input
+            type="text"
+            value={flatPayment.fullName}
+            onChange={(e) => setFlatPayment({ ...flatPayment, fullName: e.target.value })}
+            placeholder="Họ và tên"
+            className={INPUT_CLASS}
+          />
+          <input
+            type="text"
+            value={flatPayment.taxCode}
+            onChange={(e) => setFlatPayment({ ...flatPayment, taxCode: e.target.value })}
+            placeholder="MST"
+            className={INPUT_CLASS}
+          />
+          <input
+            type="text"
+            value={flatPayment.idNumber}
+            onChange={(e) => setFlatPayment({ ...flatPayment, idNumber: e.target.value })}
+            placeholder="CCCD/hộ chiếu"
+            className={INPUT_CLASS}
+          />
+          <select
+            value={flatPayment.residency}
+            onChange={(e) => setFlatPayment({ ...flatPayment, residency: e.target.value as ResidencyStatus })}
+            className={INPUT_CLASS}
+          >
+            <option value="resident">Cá nhân cư trú</option>
+            <option value="non_resident">Cá nhân không cư trú</option>
+          </select>
+          <select
+            value={flatMonth}
+            onChange={(e) => setFlatMonth(parseInt(e.target.value, 10))}
+            className={INPUT_CLASS}
+          >
+            {MONTHS.map((month) => (
+              <option key={month} value={month}>Tháng {month}/{year}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={flatPayment.amount === 0 ? '' : flatPayment.amount.toLocaleString('vi-VN')}
+            onChange={(e) => {
+              const value = e.target.value.replace(/\D/g, '');
+              setFlatPayment({ ...flatPayment, amount: value ? parseInt(value, 10) : 0 });
+            }}
+            placeholder="Số tiền chi trả"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <button
+          onClick={handleAddFlatPayment}
+          disabled={!flatPayment.fullName.trim() || flatPayment.amount <= 0}
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Thêm khoản chi trả
+        </button>
+      </div>
+
+      {/* Kỳ khai */}
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="block text-sm text-gray-700">
+          Kỳ khai
+          <select
+            value={periodKind}
+            onChange={(e) => {
+              setPeriodKind(e.target.value as PeriodKind);
+              setPeriodValue(1);
+            }}
+            className={INPUT_CLASS}
+          >
+            <option value="month">Tháng (05/KK-TNCN)</option>
+            <option value="quarter">Quý (05/KK-TNCN)</option>
+            <option value="year">Năm (05/QTT-TNCN)</option>
+          </select>
+        </label>
+        {periodKind !== 'year' && (
+          <label className="block text-sm text-gray-700">
+            {periodKind === 'month' ? 'Tháng' : 'Quý'}
+            <select
+              value={periodValue}
+              onChange={(e) => setPeriodValue(parseInt(e.target.value, 10))}
+              className={INPUT_CLASS}
+            >
+              {(periodKind === 'month' ? MONTHS : [1, 2, 3, 4]).map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button
+          onClick={handleBuild}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          Lập tờ khai {formatDeclarationPeriod(period).toLowerCase()}
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-sm font-medium text-red-800 mb-1">Chưa thể lập tờ khai:</div>
+          <ul className="text-sm text-red-700 space-y-1 max-h-48 overflow-y-auto">
+            {errors.map((error) => (
+              <li key={`${error.path}-${error.message}`}>• {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {declaration && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <p className="font-semibold text-gray-900">Mẫu {declaration.formCode}</p>
+              <p className="text-xs text-gray-500">
+                {formatDeclarationPeriod(declaration.header.period)} - số liệu khớp với danh sách cá nhân
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExportPDF}
+                disabled={isExporting}
+                className="px-3 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isExporting ? 'Đang xuất...' : 'PDF'}
+              </button>
+              <button
+                onClick={handleExportXML}
+                className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                XML
+              </button>
+            </div>
+          </div>
+
+          <dl className="text-sm space-y-0.5">
+            {Object.keys(labels).map((key) => (
+              <div key={key} className="flex justify-between gap-2 py-1 border-b border-gray-100">
+                <dt className="text-gray-600">[{key.slice(2)}] {labels[key]}</dt>
+                <dd className="font-medium text-gray-900">{formatNumber(declaration.indicators[key])}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {declaration.formCode === '05/QTT-TNCN' && (
+            <p className="text-sm text-gray-600">
+              Phụ lục 05-1/BK: {declaration.progressiveRows.length} cá nhân; phụ lục 05-2/BK: {declaration.flatRows.length} cá nhân.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
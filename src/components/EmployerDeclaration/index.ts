@@ -0,0 +1,2 @@
+export { default as EmployerDeclarationGenerator } from './EmployerDeclarationGenerator';
+export { default } from './EmployerDeclarationGenerator';
@@ -10,12 +10,14 @@ import {
   convertToLuong,
   generateGoldTransactionId,
   formatWeight,
+  buildGoldSheets,
   type GoldClassification,
   type GoldTransactionType,
   type GoldWeightUnit,
   type GoldTransaction,
   type GoldTaxInput,
 } from '@/lib/goldTaxCalculator';
+import { exportToExcel } from '@/lib/exportUtils';
 import {
   GOLD_TYPE_NAMES,
   POPULAR_GOLD_TYPES,
@@ -746,7 +748,15 @@ export default function GoldTaxCalculator() {
 
           {/* Detail transactions */}
           <div className="bg-white rounded-xl p-4 shadow-sm">
-            <h3 className="font-semibold text-gray-900 mb-3">Chi tiết giao dịch</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900">Chi tiết giao dịch</h3>
+              <button
+                onClick={() => exportToExcel(buildGoldSheets(result), 'thue-vang.xlsx')}
+                className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+              >
+                Xuất Excel
+              </button>
+            </div>
             <div className="overflow-x-auto -mx-4 px-4">
               <table className="w-full text-sm">
                 <thead>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   HouseholdBusiness,
   HouseholdBusinessTaxInput,
@@ -20,6 +20,12 @@ import {
   BusinessCategory,
   TaxMethod,
 } from '@/lib/householdBusinessTaxCalculator';
+import { HouseholdBusinessTabState, DEFAULT_HOUSEHOLD_BUSINESS_STATE } from '@/lib/snapshotTypes';
+
+interface HouseholdBusinessTaxCalculatorProps {
+  tabState?: HouseholdBusinessTabState;
+  onTabStateChange?: (state: HouseholdBusinessTabState) => void;
+}
 
 // Format currency
 function formatCurrency(amount: number): string {
@@ -30,12 +36,14 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-export function HouseholdBusinessTaxCalculator() {
-  const [businesses, setBusinesses] = useState<HouseholdBusiness[]>([
-    createEmptyBusiness(),
-  ]);
-  const [year, setYear] = useState<2025 | 2026>(2026);
-  const [taxMethod, setTaxMethod] = useState<TaxMethod>('khoan');
+export function HouseholdBusinessTaxCalculator({ tabState, onTabStateChange }: HouseholdBusinessTaxCalculatorProps) {
+  const [businesses, setBusinesses] = useState<HouseholdBusiness[]>(() =>
+    tabState?.businesses?.length ? tabState.businesses : [createEmptyBusiness()]
+  );
+  const [year, setYear] = useState<2025 | 2026>(tabState?.year ?? DEFAULT_HOUSEHOLD_BUSINESS_STATE.year);
+  const [taxMethod, setTaxMethod] = useState<TaxMethod>(
+    tabState?.taxMethod ?? DEFAULT_HOUSEHOLD_BUSINESS_STATE.taxMethod
+  );
   const [showComparison, setShowComparison] = useState(false);
   const [showMethodComparison, setShowMethodComparison] = useState(false);
 
@@ -47,6 +55,11 @@ export function HouseholdBusinessTaxCalculator() {
 
   const result = useMemo(() => calculateHouseholdBusinessTax(input), [input]);
 
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.(input);
+  }, [input, onTabStateChange]);
+
   // Method comparison for 2026
   const methodComparison = useMemo(() => {
     if (year === 2026 && businesses.some(b => b.monthlyRevenue > 0)) {
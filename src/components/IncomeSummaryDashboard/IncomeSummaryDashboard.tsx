@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   calculateIncomeSummary,
   IncomeSummaryInput,
@@ -14,22 +14,21 @@ import {
   formatShortCurrency,
   formatPercent,
 } from '@/lib/incomeSummaryCalculator';
+import { IncomeSummaryTabState, DEFAULT_INCOME_SUMMARY_STATE } from '@/lib/snapshotTypes';
 
 interface IncomeSummaryDashboardProps {
   className?: string;
+  tabState?: IncomeSummaryTabState;
+  onTabStateChange?: (state: IncomeSummaryTabState) => void;
 }
 
-// Default state
-const DEFAULT_INPUT: IncomeSummaryInput = {
-  year: new Date().getFullYear(),
-  entries: [],
-  dependents: 0,
-  hasInsurance: true,
-};
-
-export default function IncomeSummaryDashboard({ className = '' }: IncomeSummaryDashboardProps) {
+export default function IncomeSummaryDashboard({
+  className = '',
+  tabState,
+  onTabStateChange,
+}: IncomeSummaryDashboardProps) {
   // State
-  const [input, setInput] = useState<IncomeSummaryInput>(DEFAULT_INPUT);
+  const [input, setInput] = useState<IncomeSummaryInput>(tabState ?? DEFAULT_INCOME_SUMMARY_STATE);
   const [activeTab, setActiveTab] = useState<'overview' | 'entries' | 'monthly' | 'category'>('overview');
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingEntry, setEditingEntry] = useState<IncomeEntry | null>(null);
@@ -41,6 +40,11 @@ export default function IncomeSummaryDashboard({ className = '' }: IncomeSummary
   const [formMonth, setFormMonth] = useState(new Date().getMonth() + 1);
   const [formNotes, setFormNotes] = useState('');
 
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.(input);
+  }, [input, onTabStateChange]);
+
   // Calculate result
   const result = useMemo<IncomeSummaryResult>(() => {
     return calculateIncomeSummary(input);
@@ -135,7 +139,7 @@ export default function IncomeSummaryDashboard({ className = '' }: IncomeSummary
   // Clear all
   const handleClearAll = useCallback(() => {
     if (confirm('Xóa tất cả dữ liệu?')) {
-      setInput(DEFAULT_INPUT);
+      setInput(DEFAULT_INCOME_SUMMARY_STATE);
     }
   }, []);
 
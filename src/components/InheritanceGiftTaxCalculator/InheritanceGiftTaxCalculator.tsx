@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, memo, useCallback } from 'react';
+import { useState, useMemo, memo, useCallback, useEffect } from 'react';
 import {
   TransactionType,
   Relationship,
@@ -18,6 +18,7 @@ import {
   INHERITANCE_GIFT_TAX_RATE,
 } from '@/lib/inheritanceGiftTaxCalculator';
 import { formatNumber, getPerTransactionThreshold } from '@/lib/taxCalculator';
+import { InheritanceGiftTabState, DEFAULT_INHERITANCE_GIFT_STATE } from '@/lib/snapshotTypes';
 
 // ===== ICONS =====
 
@@ -364,12 +365,28 @@ function ResultDisplay({ result, transactionType }: ResultDisplayProps) {
 
 // ===== MAIN COMPONENT =====
 
-function InheritanceGiftTaxCalculatorComponent() {
+interface InheritanceGiftTaxCalculatorProps {
+  tabState?: InheritanceGiftTabState;
+  onTabStateChange?: (state: InheritanceGiftTabState) => void;
+}
+
+function InheritanceGiftTaxCalculatorComponent({ tabState, onTabStateChange }: InheritanceGiftTaxCalculatorProps) {
   const [isCollapsed, setIsCollapsed] = useState(true);
-  const [transactionType, setTransactionType] = useState<TransactionType>('gift');
-  const [relationship, setRelationship] = useState<Relationship>('non_relative');
-  const [assets, setAssets] = useState<AssetInfo[]>([{ type: 'cash', value: 0 }]);
-  const [transactionDate, setTransactionDate] = useState<string>('');
+  const [transactionType, setTransactionType] = useState<TransactionType>(
+    tabState?.transactionType ?? DEFAULT_INHERITANCE_GIFT_STATE.transactionType
+  );
+  const [relationship, setRelationship] = useState<Relationship>(
+    tabState?.relationship ?? DEFAULT_INHERITANCE_GIFT_STATE.relationship
+  );
+  const [assets, setAssets] = useState<AssetInfo[]>(tabState?.assets ?? DEFAULT_INHERITANCE_GIFT_STATE.assets);
+  const [transactionDate, setTransactionDate] = useState<string>(
+    tabState?.transactionDate ?? DEFAULT_INHERITANCE_GIFT_STATE.transactionDate
+  );
+
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({ transactionType, relationship, assets, transactionDate });
+  }, [transactionType, relationship, assets, transactionDate, onTabStateChange]);
 
   const relationships = getAllRelationships();
 
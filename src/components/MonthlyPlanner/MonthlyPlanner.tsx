@@ -24,12 +24,16 @@ import {
   MonthlyPlannerResult,
 } from '@/lib/monthlyPlannerCalculator';
 import { MonthlyPlannerTabState } from '@/lib/snapshotTypes';
+import type { DependentInfo } from '@/lib/annualSettlementCalculator';
+import { countDependentsByMonth } from '@/lib/dependentRegistry';
 
 interface MonthlyPlannerProps {
   sharedState: SharedTaxState;
   onStateChange: (updates: Partial<SharedTaxState>) => void;
   tabState: MonthlyPlannerTabState;
   onTabStateChange: (state: MonthlyPlannerTabState) => void;
+  // Danh sách người phụ thuộc trong hồ sơ: giảm trừ theo tháng đăng ký
+  registeredDependents?: DependentInfo[];
 }
 
 function displayCurrency(value: number): string {
@@ -74,10 +78,20 @@ function MonthlyPlannerComponent({
   sharedState,
   tabState,
   onTabStateChange,
+  registeredDependents,
 }: MonthlyPlannerProps) {
   const [expandedMonths, setExpandedMonths] = useState<Set<number>>(new Set());
 
   const baseSalary = tabState.baseSalary || sharedState.grossIncome;
+  const planYear = new Date().getFullYear();
+
+  // Số người phụ thuộc từng tháng theo danh sách đăng ký
+  const dependentsByMonth = useMemo(
+    () => (registeredDependents ? countDependentsByMonth(registeredDependents, planYear) : undefined),
+    [registeredDependents, planYear]
+  );
+  const minDependents = dependentsByMonth ? Math.min(...dependentsByMonth) : sharedState.dependents;
+  const maxDependents = dependentsByMonth ? Math.max(...dependentsByMonth) : sharedState.dependents;
 
   // Toggle single month
   const toggleMonth = useCallback((index: number) => {
@@ -148,10 +162,12 @@ function MonthlyPlannerComponent({
       baseSalary,
       months: tabState.months,
       dependents: sharedState.dependents,
+      dependentsByMonth,
       hasInsurance: sharedState.hasInsurance,
       region: sharedState.region,
+      year: planYear,
     });
-  }, [baseSalary, tabState.months, sharedState.dependents, sharedState.hasInsurance, sharedState.region]);
+  }, [baseSalary, tabState.months, sharedState.dependents, dependentsByMonth, sharedState.hasInsurance, sharedState.region, planYear]);
 
   // Chart data
   const chartData = useMemo(() => {
@@ -219,7 +235,11 @@ function MonthlyPlannerComponent({
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Người phụ thuộc</span>
-                <span className="font-medium">{sharedState.dependents} người</span>
+                <span className="font-medium">
+                  {minDependents === maxDependents
+                    ? `${minDependents} người`
+                    : `${minDependents}–${maxDependents} người (theo tháng đăng ký)`}
+                </span>
               </div>
             </div>
           </div>
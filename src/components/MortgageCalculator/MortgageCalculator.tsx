@@ -11,7 +11,9 @@ import {
   RepaymentMethod,
   AmortizationRow,
   YearlyAmortization,
+  buildMortgageSheets,
 } from '@/lib/mortgageCalculator';
+import { exportToExcel } from '@/lib/exportUtils';
 import { formatNumber } from '@/lib/taxCalculator';
 import { parseCurrencyInput } from '@/utils/inputSanitizers';
 import { MortgageTabState, DEFAULT_MORTGAGE_STATE } from '@/lib/snapshotTypes';
@@ -760,27 +762,35 @@ export function MortgageCalculator({ tabState, onTabStateChange }: MortgageCalcu
             <h3 className="text-lg font-semibold text-gray-800">
               Bảng khấu hao
             </h3>
-            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            <div className="flex items-center gap-2">
               <button
-                onClick={() => setTableView('yearly')}
-                className={`px-3 py-1.5 text-xs font-medium transition-colors ${
-                  tableView === 'yearly'
-                    ? 'bg-primary-500 text-white'
-                    : 'bg-white text-gray-600 hover:bg-gray-50'
-                }`}
+                onClick={() => exportToExcel(buildMortgageSheets(result), 'lich-tra-no.xlsx')}
+                className="px-3 py-1.5 text-xs font-medium bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
               >
-                Theo năm
-              </button>
-              <button
-                onClick={() => { setTableView('monthly'); setShowAllMonths(false); }}
-                className={`px-3 py-1.5 text-xs font-medium transition-colors border-l border-gray-300 ${
-                  tableView === 'monthly'
-                    ? 'bg-primary-500 text-white'
-                    : 'bg-white text-gray-600 hover:bg-gray-50'
-                }`}
-              >
-                Theo tháng
+                Xuất Excel
               </button>
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => setTableView('yearly')}
+                  className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                    tableView === 'yearly'
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  Theo năm
+                </button>
+                <button
+                  onClick={() => { setTableView('monthly'); setShowAllMonths(false); }}
+                  className={`px-3 py-1.5 text-xs font-medium transition-colors border-l border-gray-300 ${
+                    tableView === 'monthly'
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  Theo tháng
+                </button>
+              </div>
             </div>
           </div>
 
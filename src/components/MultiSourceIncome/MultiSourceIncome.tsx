@@ -10,10 +10,12 @@ import {
   INCOME_SOURCE_LABELS,
   INCOME_SOURCE_DESCRIPTIONS,
   INCOME_TAX_RATES,
+  buildMultiSourceSheets,
   type IncomeSourceType,
   type IncomeSource,
   type MultiSourceResult,
 } from '@/lib/multiSourceIncomeCalculator';
+import { exportToExcel } from '@/lib/exportUtils';
 import { MultiSourceIncomeTabState, DEFAULT_MULTI_SOURCE_INCOME_STATE } from '@/lib/snapshotTypes';
 
 interface MultiSourceIncomeProps {
@@ -396,9 +398,19 @@ export function MultiSourceIncome({ tabState, onTabStateChange }: MultiSourceInc
       {/* Results Summary */}
       {tabState.incomeSources.length > 0 && (
         <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">
-            Tổng hợp thuế năm {tabState.taxYear}
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Tổng hợp thuế năm {tabState.taxYear}
+            </h3>
+            <button
+              onClick={() =>
+                exportToExcel(buildMultiSourceSheets(result), `thu-nhap-nhieu-nguon-${tabState.taxYear}.xlsx`)
+              }
+              className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+            >
+              Xuất Excel
+            </button>
+          </div>
 
           <div className="space-y-3">
             {/* Total Gross Income */}
@@ -1,7 +1,11 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { TaxResult as TaxResultType, formatCurrency, OtherIncomeTaxResult } from '@/lib/taxCalculator';
+import { TaxResult as TaxResultType, OtherIncomeTaxResult } from '@/lib/taxCalculator';
+import { formatLegalReference, formatTraceInput } from '@/lib/calculationTrace';
+import { getTaxRulesForDate } from '@/lib/taxRuleRegistry';
+import { exportToPDF } from '@/lib/exportUtils';
+import type { PdfBlock, PdfKeyValueRow, PdfReport } from '@/lib/pdfReportRenderer';
 
 interface PDFExportButtonProps {
   result: TaxResultType;
@@ -11,6 +15,200 @@ interface PDFExportButtonProps {
   className?: string;
 }
 
+// Format number for Vietnamese display
+function formatVND(amount: number): string {
+  return new Intl.NumberFormat('vi-VN').format(Math.round(amount)) + ' VND';
+}
+
+/**
+ * Dựng báo cáo PDF từ kết quả tính thuế (kèm thu nhập khác nếu có)
+ */
+function buildTaxReport(
+  result: TaxResultType,
+  otherIncomeTax: OtherIncomeTaxResult | null | undefined,
+  declaredSalary: number | undefined,
+  now: Date
+): PdfReport {
+  const hasOtherIncome = !!otherIncomeTax && otherIncomeTax.totalIncome > 0;
+  const totalTax = result.taxAmount + (hasOtherIncome ? otherIncomeTax.totalTax : 0);
+  const dependentDeduction = getTaxRulesForDate(result.asOf).deductions.dependent;
+  const dateStr = now.toLocaleDateString('vi-VN', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  const blocks: PdfBlock[] = [];
+
+  // Declared salary notice
+  if (declaredSalary !== undefined && declaredSalary !== result.grossIncome) {
+    blocks.push({
+      type: 'paragraph',
+      tone: 'warning',
+      boxed: true,
+      text: `Lưu ý: Bảo hiểm tính trên lương khai báo ${formatVND(declaredSalary)}, nhưng thuế TNCN vẫn tính trên lương thực tế ${formatVND(result.grossIncome)}`,
+    });
+  }
+
+  blocks.push({
+    type: 'stats',
+    items: [
+      { label: 'Thu nhập GROSS', value: formatVND(result.grossIncome) },
+      { label: 'Thuế TNCN phải nộp', value: formatVND(result.taxAmount), tone: 'primary' },
+      { label: 'Thu nhập thực nhận', value: formatVND(result.netIncome), tone: 'success' },
+    ],
+  });
+
+  // Input summary
+  const inputRows: PdfKeyValueRow[] = [
+    { label: 'Thu nhập GROSS', value: formatVND(result.grossIncome) },
+    {
+      label: 'Người phụ thuộc',
+      value: `${Math.round(result.dependentDeduction / dependentDeduction)} người`,
+    },
+    { label: 'Giảm trừ bản thân', value: formatVND(result.personalDeduction) },
+    { label: 'Giảm trừ người phụ thuộc', value: formatVND(result.dependentDeduction) },
+  ];
+  if (result.allowancesBreakdown && result.allowancesBreakdown.total > 0) {
+    inputRows.push(
+      { label: 'Tổng phụ cấp', value: formatVND(result.allowancesBreakdown.total) },
+      { label: 'Miễn thuế', value: formatVND(result.allowancesBreakdown.taxExempt), indent: true, tone: 'success' },
+      { label: 'Chịu thuế', value: formatVND(result.allowancesBreakdown.taxable), indent: true, tone: 'warning' },
+    );
+  }
+  if (result.insuranceDeduction > 0) {
+    const { bhxh, bhyt, bhtn } = result.insuranceDetail;
+    inputRows.push({ label: 'Bảo hiểm', value: `-${formatVND(result.insuranceDeduction)}` });
+    if (bhxh > 0) inputRows.push({ label: 'BHXH (8%)', value: `-${formatVND(bhxh)}`, indent: true });
+    if (bhyt > 0) inputRows.push({ label: 'BHYT (1.5%)', value: `-${formatVND(bhyt)}`, indent: true });
+    if (bhtn > 0) inputRows.push({ label: 'BHTN (1%)', value: `-${formatVND(bhtn)}`, indent: true });
+  }
+  blocks.push({ type: 'heading', text: 'Thông tin đầu vào' }, { type: 'keyValue', rows: inputRows });
+
+  // Tax result
+  blocks.push(
+    { type: 'heading', text: 'Kết quả tính thuế (Luật 109/2025 – 5 bậc)' },
+    {
+      type: 'keyValue',
+      rows: [
+        { label: 'Thu nhập tính thuế', value: formatVND(result.taxableIncome) },
+        { label: 'Thuế suất thực tế', value: `${result.effectiveRate.toFixed(2)}%` },
+        { label: 'Thuế TNCN phải nộp', value: formatVND(result.taxAmount), bold: true, tone: 'primary' },
+        { label: 'Thu nhập thực nhận', value: formatVND(result.netIncome), bold: true, tone: 'success' },
+      ],
+    },
+    { type: 'heading', text: 'Phân bổ thu nhập', level: 2 },
+    {
+      type: 'barChart',
+      formatValue: formatVND,
+      bars: [
+        { label: 'Thực nhận', value: result.netIncome, tone: 'success' },
+        { label: 'Bảo hiểm', value: result.insuranceDeduction, tone: 'warning' },
+        { label: 'Thuế TNCN', value: result.taxAmount, tone: 'danger' },
+      ],
+    },
+  );
+
+  // Tax breakdown table
+  blocks.push(
+    { type: 'heading', text: 'Chi tiết các bậc thuế' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Bậc' },
+        { header: 'Thuế suất', align: 'right' },
+        { header: 'Thu nhập', align: 'right', width: 2 },
+        { header: 'Thuế', align: 'right', width: 2 },
+      ],
+      rows: [
+        ...(result.taxBreakdown.length === 0
+          ? [{ cells: ['Không phải nộp thuế', '', '', ''] }]
+          : result.taxBreakdown.map((item) => ({
+              cells: [
+                `Bậc ${item.bracket}`,
+                `${(item.rate * 100).toFixed(0)}%`,
+                formatVND(item.taxableAmount),
+                formatVND(item.taxAmount),
+              ],
+            }))),
+        { cells: ['Tổng thuế', '', '', formatVND(result.taxAmount)], bold: true, highlight: true },
+      ],
+    },
+  );
+  if (result.taxBreakdown.length > 1) {
+    blocks.push({
+      type: 'barChart',
+      formatValue: formatVND,
+      bars: result.taxBreakdown.map((item) => ({
+        label: `Bậc ${item.bracket} (${(item.rate * 100).toFixed(0)}%)`,
+        value: item.taxAmount,
+      })),
+    });
+  }
+
+  // Calculation trace (diễn giải từng bước + căn cứ pháp lý)
+  if (result.trace) {
+    blocks.push(
+      { type: 'heading', text: `Giải thích cách tính (kỳ tính thuế ${result.trace.asOf.toLocaleDateString('vi-VN')})` },
+      {
+        type: 'table',
+        columns: [
+          { header: 'Bước', width: 4 },
+          { header: 'Kết quả', align: 'right', width: 1.3 },
+        ],
+        rows: result.trace.steps.map((step, index) => {
+          const inputs = Object.entries(step.inputs)
+            .map(([label, value]) => `${label}: ${formatTraceInput(label, value)}`)
+            .join(' · ');
+          const lines = [`${index + 1}. ${step.label}`, step.formula];
+          if (inputs) lines.push(inputs);
+          if (step.legalRef) lines.push(`Căn cứ: ${formatLegalReference(step.legalRef)}`);
+          return { cells: [lines.join('\n'), formatVND(step.output)] };
+        }),
+      },
+    );
+  }
+
+  // Other income section
+  if (hasOtherIncome) {
+    blocks.push(
+      { type: 'heading', text: 'Thu nhập khác' },
+      {
+        type: 'stats',
+        items: [
+          { label: 'Tổng thu nhập', value: formatVND(otherIncomeTax.totalIncome) },
+          { label: 'Thuế phải nộp', value: formatVND(otherIncomeTax.totalTax), tone: 'danger' },
+          { label: 'Thực nhận', value: formatVND(otherIncomeTax.totalNet), tone: 'success' },
+        ],
+      },
+      { type: 'heading', text: 'Tổng kết tất cả nguồn thu nhập' },
+      {
+        type: 'stats',
+        items: [
+          { label: 'Lương GROSS', value: formatVND(result.grossIncome) },
+          { label: 'Thu nhập khác', value: formatVND(otherIncomeTax.totalIncome) },
+          { label: 'Tổng thuế', value: formatVND(totalTax), tone: 'danger' },
+          { label: 'Tổng thực nhận', value: formatVND(result.netIncome + otherIncomeTax.totalNet), tone: 'success' },
+        ],
+      },
+    );
+  }
+
+  blocks.push({
+    type: 'paragraph',
+    tone: 'muted',
+    text: 'Đây là công cụ tham khảo. Vui lòng tư vấn chuyên gia thuế cho các quyết định tài chính quan trọng.',
+  });
+
+  return {
+    title: 'Báo cáo tính thuế TNCN',
+    subtitle: `Theo Luật 109/2025/QH15 – 5 bậc thuế | Ngày tạo: ${dateStr}`,
+    blocks,
+  };
+}
+
 export default function PDFExportButton({
   result,
   otherIncomeTax,
@@ -26,308 +224,12 @@ export default function PDFExportButton({
     setError(null);
 
     try {
-      // Dynamic imports to reduce initial bundle size
-      const [{ default: jsPDF }, { default: html2canvas }] = await Promise.all([
-        import('jspdf'),
-        import('html2canvas'),
-      ]);
-
-      // Calculate totals including other income
-      const hasOtherIncome = otherIncomeTax && otherIncomeTax.totalIncome > 0;
-      const totalTax = result.taxAmount + (hasOtherIncome ? otherIncomeTax.totalTax : 0);
-
-      // Create a temporary container for the PDF content
-      const container = document.createElement('div');
-      container.style.cssText = `
-        position: absolute;
-        left: -9999px;
-        top: 0;
-        width: 794px;
-        background: white;
-        font-family: 'Helvetica', 'Arial', sans-serif;
-        padding: 40px;
-        box-sizing: border-box;
-      `;
-
-      // Format number for Vietnamese display
-      const formatVND = (amount: number): string => {
-        return new Intl.NumberFormat('vi-VN').format(Math.round(amount)) + ' VND';
-      };
-
-      // Current date
       const now = new Date();
-      const dateStr = now.toLocaleDateString('vi-VN', {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-      });
-
-      // Build allowances section if exists
-      let allowancesSection = '';
-      if (result.allowancesBreakdown && result.allowancesBreakdown.total > 0) {
-        allowancesSection = `
-          <div style="margin-bottom: 20px; padding: 15px; background: #f0fdf4; border-radius: 8px; border-left: 4px solid #22c55e;">
-            <h4 style="margin: 0 0 10px 0; color: #15803d; font-size: 14px;">Phụ cấp</h4>
-            <div style="display: flex; justify-content: space-between; font-size: 13px;">
-              <span>Tổng phụ cấp:</span>
-              <span style="font-weight: 600;">${formatVND(result.allowancesBreakdown.total)}</span>
-            </div>
-            <div style="display: flex; justify-content: space-between; font-size: 13px; color: #15803d;">
-              <span>  - Miễn thuế:</span>
-              <span>${formatVND(result.allowancesBreakdown.taxExempt)}</span>
-            </div>
-            <div style="display: flex; justify-content: space-between; font-size: 13px; color: #d97706;">
-              <span>  - Chịu thuế:</span>
-              <span>${formatVND(result.allowancesBreakdown.taxable)}</span>
-            </div>
-          </div>
-        `;
-      }
-
-      // Build insurance detail section
-      const insuranceDetail = result.insuranceDetail;
-      let insuranceSection = '';
-      if (result.insuranceDeduction > 0) {
-        insuranceSection = `
-          <div style="margin-bottom: 15px;">
-            <div style="display: flex; justify-content: space-between; font-size: 13px; color: #64748b;">
-              <span>Bảo hiểm:</span>
-              <span>-${formatVND(result.insuranceDeduction)}</span>
-            </div>
-            ${insuranceDetail.bhxh > 0 ? `
-              <div style="display: flex; justify-content: space-between; font-size: 12px; color: #94a3b8; padding-left: 15px;">
-                <span>BHXH (8%):</span>
-                <span>-${formatVND(insuranceDetail.bhxh)}</span>
-              </div>
-            ` : ''}
-            ${insuranceDetail.bhyt > 0 ? `
-              <div style="display: flex; justify-content: space-between; font-size: 12px; color: #94a3b8; padding-left: 15px;">
-                <span>BHYT (1.5%):</span>
-                <span>-${formatVND(insuranceDetail.bhyt)}</span>
-              </div>
-            ` : ''}
-            ${insuranceDetail.bhtn > 0 ? `
-              <div style="display: flex; justify-content: space-between; font-size: 12px; color: #94a3b8; padding-left: 15px;">
-                <span>BHTN (1%):</span>
-                <span>-${formatVND(insuranceDetail.bhtn)}</span>
-              </div>
-            ` : ''}
-          </div>
-        `;
-      }
-
-      // Build tax breakdown table
-      const buildTaxBreakdownRows = (r: TaxResultType): string => {
-        if (r.taxBreakdown.length === 0) {
-          return '<tr><td colspan="4" style="text-align: center; padding: 10px; color: #64748b;">Không phải nộp thuế</td></tr>';
-        }
-        return r.taxBreakdown.map((item, index) => `
-          <tr style="background: ${index % 2 === 0 ? '#f8fafc' : 'white'};">
-            <td style="padding: 8px; border: 1px solid #e2e8f0;">Bậc ${item.bracket}</td>
-            <td style="padding: 8px; border: 1px solid #e2e8f0; text-align: right;">${(item.rate * 100).toFixed(0)}%</td>
-            <td style="padding: 8px; border: 1px solid #e2e8f0; text-align: right;">${formatVND(item.taxableAmount)}</td>
-            <td style="padding: 8px; border: 1px solid #e2e8f0; text-align: right;">${formatVND(item.taxAmount)}</td>
-          </tr>
-        `).join('');
-      };
-
-      // Other income section
-      let otherIncomeSection = '';
-      if (hasOtherIncome) {
-        otherIncomeSection = `
-          <div style="margin-top: 30px; padding: 20px; background: #eff6ff; border-radius: 8px;">
-            <h3 style="margin: 0 0 15px 0; color: #1e40af; font-size: 16px;">Thu nhập khác</h3>
-            <div style="display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 15px; text-align: center;">
-              <div>
-                <div style="font-size: 12px; color: #64748b;">Tổng thu nhập</div>
-                <div style="font-size: 16px; font-weight: 600;">${formatVND(otherIncomeTax.totalIncome)}</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #64748b;">Thuế phải nộp</div>
-                <div style="font-size: 16px; font-weight: 600; color: #dc2626;">${formatVND(otherIncomeTax.totalTax)}</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #64748b;">Thực nhận</div>
-                <div style="font-size: 16px; font-weight: 600; color: #16a34a;">${formatVND(otherIncomeTax.totalNet)}</div>
-              </div>
-            </div>
-          </div>
-
-          <div style="margin-top: 20px; padding: 20px; background: #1f2937; border-radius: 8px; color: white;">
-            <h3 style="margin: 0 0 15px 0; font-size: 16px;">Tổng kết tất cả nguồn thu nhập</h3>
-            <div style="display: grid; grid-template-columns: 1fr 1fr 1fr 1fr; gap: 15px;">
-              <div>
-                <div style="font-size: 12px; color: #9ca3af;">Lương GROSS</div>
-                <div style="font-size: 14px; font-weight: 600;">${formatVND(result.grossIncome)}</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #9ca3af;">Thu nhập khác</div>
-                <div style="font-size: 14px; font-weight: 600;">${formatVND(otherIncomeTax.totalIncome)}</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #9ca3af;">Tổng thuế</div>
-                <div style="font-size: 14px; font-weight: 600; color: #f87171;">${formatVND(totalTax)}</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #9ca3af;">Tổng thực nhận</div>
-                <div style="font-size: 14px; font-weight: 600; color: #4ade80;">${formatVND(result.netIncome + otherIncomeTax.totalNet)}</div>
-              </div>
-            </div>
-          </div>
-        `;
-      }
-
-      // Declared salary notice
-      const hasDeclaredSalary = declaredSalary !== undefined && declaredSalary !== result.grossIncome;
-      const declaredSalaryNotice = hasDeclaredSalary ? `
-        <div style="margin-bottom: 20px; padding: 15px; background: #fef3c7; border-radius: 8px; border-left: 4px solid #f59e0b;">
-          <p style="margin: 0; font-size: 13px; color: #92400e;">
-            <strong>Lưu ý:</strong> Bảo hiểm tính trên lương khai báo <strong>${formatVND(declaredSalary)}</strong>,
-            nhưng thuế TNCN vẫn tính trên lương thực tế <strong>${formatVND(result.grossIncome)}</strong>
-          </p>
-        </div>
-      ` : '';
-
-      container.innerHTML = `
-        <div style="max-width: 754px; margin: 0 auto;">
-          <!-- Header -->
-          <div style="text-align: center; margin-bottom: 30px; padding-bottom: 20px; border-bottom: 2px solid #3b82f6;">
-            <h1 style="margin: 0; font-size: 24px; color: #1e40af;">BÁO CÁO TÍNH THUẾ TNCN</h1>
-            <p style="margin: 5px 0 0 0; color: #64748b; font-size: 12px;">Theo Luật 109/2025/QH15 – 5 bậc thuế | Ngày tạo: ${dateStr}</p>
-          </div>
-
-          ${declaredSalaryNotice}
-
-          <!-- Input Summary -->
-          <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin-bottom: 25px;">
-            <h3 style="margin: 0 0 15px 0; color: #334155; font-size: 16px; border-bottom: 1px solid #e2e8f0; padding-bottom: 10px;">Thông tin đầu vào</h3>
-            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 15px;">
-              <div>
-                <div style="font-size: 12px; color: #64748b;">Thu nhập GROSS</div>
-                <div style="font-size: 16px; font-weight: 600;">${formatVND(result.grossIncome)}</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #64748b;">Người phụ thuộc</div>
-                <div style="font-size: 16px; font-weight: 600;">${Math.round(result.dependentDeduction / 6200000)} người</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #64748b;">Giảm trừ bản thân</div>
-                <div style="font-size: 16px; font-weight: 600;">${formatVND(result.personalDeduction)}</div>
-              </div>
-              <div>
-                <div style="font-size: 12px; color: #64748b;">Giảm trừ người phụ thuộc</div>
-                <div style="font-size: 16px; font-weight: 600;">${formatVND(result.dependentDeduction)}</div>
-              </div>
-            </div>
-            ${allowancesSection}
-            ${insuranceSection}
-          </div>
-
-          <!-- Tax Result -->
-          <div style="border: 2px solid #3b82f6; border-radius: 8px; padding: 20px; background: #eff6ff; margin-bottom: 25px;">
-            <div style="display: flex; align-items: center; gap: 8px; margin-bottom: 15px;">
-              <div style="width: 12px; height: 12px; border-radius: 50%; background: #3b82f6;"></div>
-              <h3 style="margin: 0; font-size: 16px; color: #334155;">Kết quả tính thuế (Luật 109/2025 – 5 bậc)</h3>
-            </div>
-            <div style="margin-bottom: 15px;">
-              <div style="display: flex; justify-content: space-between; font-size: 13px; margin-bottom: 8px;">
-                <span style="color: #64748b;">Thu nhập tính thuế:</span>
-                <span style="font-weight: 500;">${formatVND(result.taxableIncome)}</span>
-              </div>
-              <div style="display: flex; justify-content: space-between; font-size: 13px; margin-bottom: 8px;">
-                <span style="color: #64748b;">Thuế suất thực tế:</span>
-                <span style="font-weight: 500;">${result.effectiveRate.toFixed(2)}%</span>
-              </div>
-            </div>
-            <div style="background: #dbeafe; padding: 15px; border-radius: 8px; text-align: center;">
-              <div style="font-size: 12px; color: #64748b;">Thuế TNCN phải nộp</div>
-              <div style="font-size: 24px; font-weight: bold; color: #1d4ed8;">${formatVND(result.taxAmount)}</div>
-            </div>
-            <div style="margin-top: 15px; padding-top: 15px; border-top: 1px solid #bfdbfe; text-align: center;">
-              <div style="font-size: 12px; color: #64748b;">Thu nhập thực nhận</div>
-              <div style="font-size: 20px; font-weight: bold; color: #16a34a;">${formatVND(result.netIncome)}</div>
-            </div>
-          </div>
-
-          <!-- Tax Breakdown Table -->
-          <div style="margin-bottom: 25px;">
-            <h4 style="margin: 0 0 10px 0; font-size: 14px; color: #334155;">Chi tiết các bậc thuế</h4>
-            <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
-              <thead>
-                <tr style="background: #dbeafe;">
-                  <th style="padding: 8px; border: 1px solid #e2e8f0; text-align: left;">Bậc</th>
-                  <th style="padding: 8px; border: 1px solid #e2e8f0; text-align: right;">Thuế suất</th>
-                  <th style="padding: 8px; border: 1px solid #e2e8f0; text-align: right;">Thu nhập</th>
-                  <th style="padding: 8px; border: 1px solid #e2e8f0; text-align: right;">Thuế</th>
-                </tr>
-              </thead>
-              <tbody>
-                ${buildTaxBreakdownRows(result)}
-                <tr style="background: #dbeafe; font-weight: 600;">
-                  <td colspan="3" style="padding: 8px; border: 1px solid #e2e8f0;">Tổng thuế</td>
-                  <td style="padding: 8px; border: 1px solid #e2e8f0; text-align: right;">${formatVND(result.taxAmount)}</td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
-
-          ${otherIncomeSection}
-
-          <!-- Footer -->
-          <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #e2e8f0; text-align: center; color: #94a3b8; font-size: 11px;">
-            <p style="margin: 0 0 5px 0;">Báo cáo được tạo từ <strong>Tính Thuế TNCN 2026</strong> - thue.1devops.io</p>
-            <p style="margin: 0;">Đây là công cụ tham khảo. Vui lòng tư vấn chuyên gia thuế cho các quyết định tài chính quan trọng.</p>
-          </div>
-        </div>
-      `;
-
-      document.body.appendChild(container);
-
-      // Generate canvas from the container
-      const canvas = await html2canvas(container, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff',
-      });
-
-      // Remove the temporary container
-      document.body.removeChild(container);
-
-      // Create PDF
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4',
-      });
-
-      const imgWidth = 210; // A4 width in mm
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-
-      // Add image to PDF
-      const imgData = canvas.toDataURL('image/png');
-      pdf.addImage(imgData, 'PNG', 0, 0, imgWidth, imgHeight);
-
-      // If content is longer than one page, add more pages
-      const pageHeight = 297; // A4 height in mm
-      let heightLeft = imgHeight - pageHeight;
-      let position = -pageHeight;
-
-      while (heightLeft > 0) {
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-        heightLeft -= pageHeight;
-        position -= pageHeight;
-      }
+      const report = buildTaxReport(result, otherIncomeTax, declaredSalary, now);
 
       // Generate filename with date
       const dateForFile = now.toISOString().split('T')[0];
-      const filename = `bao-cao-thue-tncn-${dateForFile}.pdf`;
-
-      // Download the PDF
-      pdf.save(filename);
+      await exportToPDF(report, `bao-cao-thue-tncn-${dateForFile}.pdf`);
     } catch (err) {
       console.error('Error generating PDF:', err);
       setError('Không thể tạo PDF. Vui lòng thử lại.');
@@ -0,0 +1,250 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  buildRosterSheets,
+  calculateRosterFromCSV,
+  getRosterTemplateCSV,
+  type RosterResult,
+} from '@/lib/payrollRosterCalculator';
+import { formatNumber } from '@/lib/taxCalculator';
+import { exportToCSV, exportToExcel, getSheetRowsWithTotals } from '@/lib/exportUtils';
+import { recordsFromRoster } from '@/lib/withholdingCertificate';
+import { WithholdingCertificateGenerator } from '@/components/WithholdingCertificate';
+import { EmployerDeclarationGenerator } from '@/components/EmployerDeclaration';
+
+export function PayrollRoster() {
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [includeUnionFee, setIncludeUnionFee] = useState(false);
+  const [result, setResult] = useState<RosterResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const recalculate = (text: string, unionFee: boolean) => {
+    setResult(calculateRosterFromCSV(text, { includeUnionFee: unionFee }));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setCsvText(text);
+    setFileName(file.name);
+    recalculate(text, includeUnionFee);
+
+    // Reset input so same file can be selected again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleUnionFeeChange = (checked: boolean) => {
+    setIncludeUnionFee(checked);
+    if (csvText !== null) recalculate(csvText, checked);
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([getRosterTemplateCSV()], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'mau-bang-luong.csv';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportCSV = () => {
+    if (!result) return;
+    const [sheet] = buildRosterSheets(result);
+    exportToCSV(sheet.headers, getSheetRowsWithTotals(sheet), 'bang-luong.csv');
+  };
+
+  const handleExportExcel = () => {
+    if (!result) return;
+    exportToExcel(buildRosterSheets(result), 'bang-luong.xlsx');
+  };
+
+  const totals = result?.totals;
+  const certificateRecords = useMemo(() => (result ? recordsFromRoster(result) : []), [result]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">
+          Bảng lương hàng loạt
+        </h2>
+        <p className="text-sm text-gray-600">
+          Tải lên file CSV danh sách nhân viên để tính thuế TNCN, bảo hiểm và chi phí công ty cho cả bảng lương.
+          Dữ liệu chỉ được xử lý trên trình duyệt của bạn.
+        </p>
+      </div>
+
+      {/* Upload */}
+      <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200 space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            {fileName ? `Chọn file khác (${fileName})` : 'Chọn file CSV'}
+          </button>
+          <button
+            onClick={handleDownloadTemplate}
+            className="flex-1 px-4 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+          >
+            Tải file mẫu
+          </button>
+        </div>
+
+        <label className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={includeUnionFee}
+            onChange={(e) => handleUnionFeeChange(e.target.checked)}
+            className="w-4 h-4 rounded border-gray-300"
+          />
+          <span className="text-sm text-gray-700">
+            Tính kinh phí công đoàn 2% (phía công ty)
+          </span>
+        </label>
+
+        <p className="text-xs text-gray-500">
+          Cột bắt buộc: employee_id, gross. Cột tùy chọn: full_name, tax_code, id_number, declared_salary, dependents, region (1-4)
+          và các khoản phụ cấp meal, phone, transport, hazardous, clothing, housing, position.
+        </p>
+      </div>
+
+      {/* Errors */}
+      {result && result.errors.length > 0 && (
+        <div className="bg-red-50 rounded-xl p-4 sm:p-6 border border-red-200">
+          <h3 className="text-md font-medium text-red-800 mb-3">
+            {result.errors.length} lỗi trong file (các dòng lỗi không được tính)
+          </h3>
+          <ul className="space-y-1 text-sm text-red-700 max-h-60 overflow-y-auto">
+            {result.errors.map((error, index) => (
+              <li key={index}>
+                Dòng {error.line}
+                {error.employeeId && ` (${error.employeeId})`}
+                {error.column && ` - cột ${error.column}`}: {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Results */}
+      {result && totals && result.rows.length > 0 && (
+        <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+            <h3 className="text-md font-medium text-gray-900">
+              Kết quả ({totals.employees} nhân viên)
+            </h3>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExportCSV}
+                className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                Xuất CSV
+              </button>
+              <button
+                onClick={handleExportExcel}
+                className="px-3 py-2 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+              >
+                Xuất Excel
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-500">Tổng lương gross</div>
+              <div className="font-semibold text-gray-900">{formatNumber(totals.grossIncome)}</div>
+            </div>
+            <div className="p-3 bg-red-50 rounded-lg">
+              <div className="text-xs text-gray-500">Thuế TNCN khấu trừ</div>
+              <div className="font-semibold text-red-600">{formatNumber(totals.pit)}</div>
+            </div>
+            <div className="p-3 bg-green-50 rounded-lg">
+              <div className="text-xs text-gray-500">Tổng thực nhận</div>
+              <div className="font-semibold text-green-700">{formatNumber(totals.netIncome)}</div>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <div className="text-xs text-gray-500">Tổng chi phí công ty</div>
+              <div className="font-semibold text-blue-700">{formatNumber(totals.totalEmployerCost)}</div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 pr-3">Mã NV</th>
+                  <th className="text-left py-2 pr-3">Họ tên</th>
+                  <th className="text-right py-2 pr-3">Gross</th>
+                  <th className="text-right py-2 pr-3">Phụ cấp</th>
+                  <th className="text-right py-2 pr-3">BH (NLĐ)</th>
+                  <th className="text-right py-2 pr-3">Thuế TNCN</th>
+                  <th className="text-right py-2 pr-3">Thực nhận</th>
+                  <th className="text-right py-2 pr-3">BH (Cty)</th>
+                  <th className="text-right py-2">Chi phí Cty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row) => (
+                  <tr key={row.employeeId} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 font-medium text-gray-900">{row.employeeId}</td>
+                    <td className="py-2 pr-3 text-gray-700">{row.fullName}</td>
+                    <td className="py-2 pr-3 text-right">{formatNumber(row.grossIncome)}</td>
+                    <td className="py-2 pr-3 text-right">{formatNumber(row.allowances.total)}</td>
+                    <td className="py-2 pr-3 text-right">{formatNumber(row.employeeInsurance.total)}</td>
+                    <td className="py-2 pr-3 text-right text-red-600">{formatNumber(row.pit)}</td>
+                    <td className="py-2 pr-3 text-right text-green-700">{formatNumber(row.netIncome)}</td>
+                    <td className="py-2 pr-3 text-right">{formatNumber(row.employerInsurance.total)}</td>
+                    <td className="py-2 text-right">{formatNumber(row.totalEmployerCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900 bg-gray-50">
+                  <td className="py-2 pr-3" colSpan={2}>Tổng cộng</td>
+                  <td className="py-2 pr-3 text-right">{formatNumber(totals.grossIncome)}</td>
+                  <td className="py-2 pr-3 text-right">{formatNumber(totals.allowances)}</td>
+                  <td className="py-2 pr-3 text-right">{formatNumber(totals.employeeInsurance.total)}</td>
+                  <td className="py-2 pr-3 text-right text-red-600">{formatNumber(totals.pit)}</td>
+                  <td className="py-2 pr-3 text-right text-green-700">{formatNumber(totals.netIncome)}</td>
+                  <td className="py-2 pr-3 text-right">{formatNumber(totals.employerInsurance.total)}</td>
+                  <td className="py-2 text-right">{formatNumber(totals.totalEmployerCost)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Chứng từ khấu trừ thuế */}
+      {result && result.rows.length > 0 && (
+        <WithholdingCertificateGenerator
+          records={certificateRecords}
+          year={result.asOf.getFullYear()}
+        />
+      )}
+
+      {/* Tờ khai 05/KK-TNCN, 05/QTT-TNCN */}
+      <EmployerDeclarationGenerator result={result} />
+    </div>
+  );
+}
+
+export default PayrollRoster;
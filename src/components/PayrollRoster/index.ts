@@ -0,0 +1,2 @@
+export { default as PayrollRoster } from './PayrollRoster';
+export { default } from './PayrollRoster';
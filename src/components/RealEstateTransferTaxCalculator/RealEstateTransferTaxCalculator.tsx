@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   RealEstateTransfer,
   RealEstateTransferTaxInput,
@@ -17,14 +17,29 @@ import {
   REAL_ESTATE_TAX_RATES,
   estimateTransferTax,
 } from '@/lib/realEstateTransferTaxCalculator';
+import { RealEstateTransferTabState, DEFAULT_REAL_ESTATE_TRANSFER_STATE } from '@/lib/snapshotTypes';
 
-export function RealEstateTransferTaxCalculator() {
-  const [transfers, setTransfers] = useState<RealEstateTransfer[]>([
-    createEmptyTransfer(),
-  ]);
+interface RealEstateTransferTaxCalculatorProps {
+  tabState?: RealEstateTransferTabState;
+  onTabStateChange?: (state: RealEstateTransferTabState) => void;
+}
+
+export function RealEstateTransferTaxCalculator({ tabState, onTabStateChange }: RealEstateTransferTaxCalculatorProps) {
+  const [transfers, setTransfers] = useState<RealEstateTransfer[]>(() =>
+    tabState?.transfers?.length ? tabState.transfers : [createEmptyTransfer()]
+  );
   const [showQuickCalculator, setShowQuickCalculator] = useState(true);
-  const [quickValue, setQuickValue] = useState<number>(0);
-  const [quickIsExempt, setQuickIsExempt] = useState(false);
+  const [quickValue, setQuickValue] = useState<number>(
+    tabState?.quickValue ?? DEFAULT_REAL_ESTATE_TRANSFER_STATE.quickValue
+  );
+  const [quickIsExempt, setQuickIsExempt] = useState(
+    tabState?.quickIsExempt ?? DEFAULT_REAL_ESTATE_TRANSFER_STATE.quickIsExempt
+  );
+
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({ transfers, quickValue, quickIsExempt });
+  }, [transfers, quickValue, quickIsExempt, onTabStateChange]);
 
   // Calculate results
   const result: RealEstateTransferTaxResult | null = useMemo(() => {
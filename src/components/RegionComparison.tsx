@@ -1,6 +1,6 @@
 'use client';
 
-import { memo, useMemo, useState, useCallback } from 'react';
+import { memo, useMemo, useState, useCallback, useEffect } from 'react';
 import {
   BarChart,
   Bar,
@@ -19,10 +19,13 @@ import {
 } from '@/lib/taxCalculator';
 import { grossToNet, GrossNetResult } from '@/lib/grossNetCalculator';
 import { parseCurrency } from '@/lib/taxCalculator';
+import { RegionCompareTabState, DEFAULT_REGION_COMPARE_STATE } from '@/lib/snapshotTypes';
 
 interface RegionComparisonProps {
   sharedState: SharedTaxState;
   onStateChange: (updates: Partial<SharedTaxState>) => void;
+  tabState?: RegionCompareTabState;
+  onTabStateChange?: (state: RegionCompareTabState) => void;
 }
 
 const REGION_NAMES: Record<RegionType, string> = {
@@ -94,9 +97,26 @@ function NetChartTooltip({ active, payload }: {
   );
 }
 
-function RegionComparisonComponent({ sharedState, onStateChange }: RegionComparisonProps) {
-  const [customGross, setCustomGross] = useState<string>('');
-  const [useCustomGross, setUseCustomGross] = useState(false);
+function RegionComparisonComponent({
+  sharedState,
+  onStateChange,
+  tabState,
+  onTabStateChange,
+}: RegionComparisonProps) {
+  const [customGross, setCustomGross] = useState<string>(
+    tabState?.customGross ? formatNumber(tabState.customGross) : ''
+  );
+  const [useCustomGross, setUseCustomGross] = useState(
+    tabState?.useCustomGross ?? DEFAULT_REGION_COMPARE_STATE.useCustomGross
+  );
+
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({
+      useCustomGross,
+      customGross: customGross === '' ? 0 : parseCurrency(customGross),
+    });
+  }, [useCustomGross, customGross, onTabStateChange]);
 
   const grossIncome = useCustomGross && customGross !== ''
     ? parseCurrency(customGross)
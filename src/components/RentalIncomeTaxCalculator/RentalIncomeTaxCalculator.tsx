@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import {
   RentalProperty,
   PropertyType,
@@ -12,11 +12,21 @@ import {
   getRentalThreshold,
 } from '@/lib/rentalIncomeTaxCalculator';
 import { formatCurrency, formatNumber } from '@/lib/taxCalculator';
+import { RentalIncomeTabState, DEFAULT_RENTAL_INCOME_STATE } from '@/lib/snapshotTypes';
 
-export default function RentalIncomeTaxCalculator() {
-  const [properties, setProperties] = useState<RentalProperty[]>([]);
-  const [useActualExpenses, setUseActualExpenses] = useState(false);
-  const [year, setYear] = useState<2025 | 2026>(2026);
+interface RentalIncomeTaxCalculatorProps {
+  tabState?: RentalIncomeTabState;
+  onTabStateChange?: (state: RentalIncomeTabState) => void;
+}
+
+export default function RentalIncomeTaxCalculator({ tabState, onTabStateChange }: RentalIncomeTaxCalculatorProps) {
+  const [properties, setProperties] = useState<RentalProperty[]>(
+    tabState?.properties ?? DEFAULT_RENTAL_INCOME_STATE.properties
+  );
+  const [useActualExpenses, setUseActualExpenses] = useState(
+    tabState?.useActualExpenses ?? DEFAULT_RENTAL_INCOME_STATE.useActualExpenses
+  );
+  const [year, setYear] = useState<2025 | 2026>(tabState?.year ?? DEFAULT_RENTAL_INCOME_STATE.year);
   const [showPropertyForm, setShowPropertyForm] = useState(false);
   const [editingProperty, setEditingProperty] = useState<RentalProperty | null>(null);
   const [expandedProperties, setExpandedProperties] = useState<Set<string>>(new Set());
@@ -33,6 +43,11 @@ export default function RentalIncomeTaxCalculator() {
 
   const result = useMemo(() => calculateRentalIncomeTax(input), [properties, useActualExpenses, year]);
 
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({ properties, useActualExpenses, year });
+  }, [properties, useActualExpenses, year, onTabStateChange]);
+
   // Handlers
   const handleAddProperty = () => {
     if (!propertyForm.name || !propertyForm.monthlyRent) return;
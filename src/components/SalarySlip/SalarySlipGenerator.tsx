@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useCallback, useMemo, useRef } from 'react';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { SharedTaxState } from '@/lib/taxCalculator';
+import { SalarySlipTabState } from '@/lib/snapshotTypes';
 import SalarySlipForm from './SalarySlipForm';
 import SalarySlipPDF, { generatePDFHTML } from './SalarySlipPDF';
 import {
@@ -20,6 +21,8 @@ interface SalarySlipGeneratorProps {
     bhtn: number;
   };
   taxAmount?: number;
+  tabState?: SalarySlipTabState;
+  onTabStateChange?: (state: SalarySlipTabState) => void;
 }
 
 function formatMoney(amount: number): string {
@@ -30,21 +33,32 @@ export default function SalarySlipGenerator({
   sharedState,
   insuranceDetail,
   taxAmount,
+  tabState,
+  onTabStateChange,
 }: SalarySlipGeneratorProps) {
-  const [data, setData] = useState<SalarySlipData>(() => ({
-    ...DEFAULT_SALARY_SLIP_DATA,
-    earnings: {
-      ...DEFAULT_SALARY_SLIP_DATA.earnings,
-      basicSalary: sharedState.grossIncome,
-    },
-    deductions: {
-      ...DEFAULT_SALARY_SLIP_DATA.deductions,
-      bhxh: insuranceDetail?.bhxh || 0,
-      bhyt: insuranceDetail?.bhyt || 0,
-      bhtn: insuranceDetail?.bhtn || 0,
-      personalIncomeTax: taxAmount || 0,
-    },
-  }));
+  // Phiếu lương đã lưu được khôi phục nguyên trạng, nếu không thì điền từ kết quả tính
+  const [data, setData] = useState<SalarySlipData>(() => {
+    if (tabState && tabState.earnings.basicSalary > 0) return tabState;
+    return {
+      ...DEFAULT_SALARY_SLIP_DATA,
+      earnings: {
+        ...DEFAULT_SALARY_SLIP_DATA.earnings,
+        basicSalary: sharedState.grossIncome,
+      },
+      deductions: {
+        ...DEFAULT_SALARY_SLIP_DATA.deductions,
+        bhxh: insuranceDetail?.bhxh || 0,
+        bhyt: insuranceDetail?.bhyt || 0,
+        bhtn: insuranceDetail?.bhtn || 0,
+        personalIncomeTax: taxAmount || 0,
+      },
+    };
+  });
+
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.(data);
+  }, [data, onTabStateChange]);
 
   const [showPreview, setShowPreview] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -6,6 +6,8 @@ import {
   SalarySlipSummary,
   VIETNAMESE_MONTHS,
 } from './types';
+import { exportToPDF } from '@/lib/exportUtils';
+import type { PdfKeyValueRow, PdfReport, PdfTableRow } from '@/lib/pdfReportRenderer';
 
 interface SalarySlipPDFProps {
   data: SalarySlipData;
@@ -451,6 +453,102 @@ function generatePDFHTML(data: SalarySlipData, summary: SalarySlipSummary): stri
   `;
 }
 
+// Build structured PDF report (text-based, searchable)
+function buildSalarySlipReport(data: SalarySlipData, summary: SalarySlipSummary): PdfReport {
+  const { company, employee, payPeriod, earnings, deductions } = data;
+  const monthName = VIETNAMESE_MONTHS[payPeriod.month - 1];
+  const dateStr = new Date().toLocaleDateString('vi-VN');
+
+  const employeeRows: PdfKeyValueRow[] = [
+    { label: 'Họ tên nhân viên', value: employee.name || '_______________', bold: true },
+  ];
+  if (employee.employeeId) employeeRows.push({ label: 'Mã nhân viên', value: employee.employeeId });
+  if (employee.position) employeeRows.push({ label: 'Chức vụ', value: employee.position });
+  if (employee.department) employeeRows.push({ label: 'Phòng ban', value: employee.department });
+  if (employee.bankAccount) {
+    employeeRows.push({
+      label: 'Số tài khoản',
+      value: `${employee.bankAccount}${employee.bankName ? ` - ${employee.bankName}` : ''}`,
+    });
+  }
+
+  // Earnings
+  const totalAllowances = earnings.allowances.reduce((sum, a) => sum + a.amount, 0);
+  const earningRows: PdfTableRow[] = [];
+  const addEarning = (label: string, amount: number) => {
+    earningRows.push({ cells: [String(earningRows.length + 1), label, formatVND(amount), ''] });
+  };
+  addEarning('Lương cơ bản', earnings.basicSalary);
+  if (totalAllowances > 0) {
+    addEarning('Phụ cấp', totalAllowances);
+    earnings.allowances.forEach((a) => {
+      earningRows.push({ cells: ['', `- ${a.label}`, formatVND(a.amount), ''] });
+    });
+  }
+  if (earnings.overtime > 0) addEarning('Làm thêm giờ', earnings.overtime);
+  if (earnings.bonus > 0) addEarning('Thưởng', earnings.bonus);
+  if (earnings.otherEarnings > 0) addEarning('Thu nhập khác', earnings.otherEarnings);
+
+  // Deductions
+  const deductionRows: PdfTableRow[] = (
+    [
+      ['BHXH (8%)', deductions.bhxh],
+      ['BHYT (1.5%)', deductions.bhyt],
+      ['BHTN (1%)', deductions.bhtn],
+      ['Thuế TNCN', deductions.personalIncomeTax],
+      ['Khấu trừ khác', deductions.otherDeductions],
+    ] as Array<[string, number]>
+  )
+    .filter(([, amount]) => amount > 0)
+    .map(([label, amount], index) => ({ cells: [String(index + 1), label, '', formatVND(amount)] }));
+
+  const amountInWords = numberToVietnameseWords(summary.netPay);
+
+  return {
+    title: 'Phiếu lương',
+    subtitle: `${company.name || 'CÔNG TY'} – ${monthName} năm ${payPeriod.year}`,
+    meta: [company.address || 'Địa chỉ'],
+    blocks: [
+      { type: 'keyValue', rows: employeeRows },
+      {
+        type: 'table',
+        columns: [
+          { header: 'STT', width: 0.5 },
+          { header: 'Khoản mục', width: 3 },
+          { header: 'Thu nhập', align: 'right', width: 1.6 },
+          { header: 'Khấu trừ', align: 'right', width: 1.6 },
+        ],
+        rows: [
+          { cells: ['', 'I. THU NHẬP', '', ''], bold: true },
+          ...earningRows,
+          { cells: ['', 'Tổng thu nhập (A)', formatVND(summary.grossIncome), ''], bold: true, highlight: true },
+          { cells: ['', 'II. CÁC KHOẢN KHẤU TRỪ', '', ''], bold: true },
+          ...deductionRows,
+          { cells: ['', 'Tổng khấu trừ (B)', '', formatVND(summary.totalDeductions)], bold: true, highlight: true },
+          { cells: ['', 'THỰC LĨNH (A - B)', formatVND(summary.netPay), ''], bold: true, highlight: true },
+        ],
+      },
+      {
+        type: 'paragraph',
+        text: `Bằng chữ: ${amountInWords.charAt(0).toUpperCase() + amountInWords.slice(1)}`,
+      },
+      {
+        type: 'signatures',
+        boxes: ['Người lập', 'Kế toán trưởng', 'Giám đốc'].map((title) => ({
+          title,
+          date: `Ngày ${dateStr}`,
+        })),
+      },
+      {
+        type: 'paragraph',
+        tone: 'warning',
+        boxed: true,
+        text: 'Phiếu lương này được tạo tự động, vui lòng kiểm tra lại trước khi sử dụng.',
+      },
+    ],
+  };
+}
+
 export default function SalarySlipPDF({ data, summary, onGenerating }: SalarySlipPDFProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -461,62 +559,6 @@ export default function SalarySlipPDF({ data, summary, onGenerating }: SalarySli
     onGenerating?.(true);
 
     try {
-      // Dynamic imports to reduce bundle size
-      const [{ default: jsPDF }, { default: html2canvas }] = await Promise.all([
-        import('jspdf'),
-        import('html2canvas'),
-      ]);
-
-      // Create a temporary container for the PDF content
-      const container = document.createElement('div');
-      container.style.cssText = `
-        position: absolute;
-        left: -9999px;
-        top: 0;
-        width: 794px;
-        background: white;
-      `;
-
-      container.innerHTML = generatePDFHTML(data, summary);
-      document.body.appendChild(container);
-
-      // Generate canvas from the container
-      const canvas = await html2canvas(container, {
-        scale: 2,
-        useCORS: true,
-        logging: false,
-        backgroundColor: '#ffffff',
-      });
-
-      // Remove the temporary container
-      document.body.removeChild(container);
-
-      // Create PDF
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4',
-      });
-
-      const imgWidth = 210; // A4 width in mm
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-
-      // Add image to PDF
-      const imgData = canvas.toDataURL('image/png');
-      pdf.addImage(imgData, 'PNG', 0, 0, imgWidth, imgHeight);
-
-      // If content is longer than one page, add more pages
-      const pageHeight = 297; // A4 height in mm
-      let heightLeft = imgHeight - pageHeight;
-      let position = -pageHeight;
-
-      while (heightLeft > 0) {
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-        heightLeft -= pageHeight;
-        position -= pageHeight;
-      }
-
       // Generate filename
       const monthYear = `${data.payPeriod.month.toString().padStart(2, '0')}-${data.payPeriod.year}`;
       const employeeName = data.employee.name
@@ -524,8 +566,7 @@ export default function SalarySlipPDF({ data, summary, onGenerating }: SalarySli
         : 'phieu-luong';
       const filename = `phieu-luong-${employeeName}-${monthYear}.pdf`;
 
-      // Download the PDF
-      pdf.save(filename);
+      await exportToPDF(buildSalarySlipReport(data, summary), filename);
     } catch (err) {
       console.error('Error generating PDF:', err);
       setError('Không thể tạo PDF. Vui lòng thử lại.');
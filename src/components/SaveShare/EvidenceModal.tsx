@@ -0,0 +1,342 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { EvidenceKind, NamedSave } from '@/lib/snapshotTypes';
+import {
+  EVIDENCE_KIND_LABELS,
+  buildEvidenceChecklist,
+  describeEvidenceTarget,
+  listEvidenceTargets,
+  validateEvidenceFile,
+} from '@/lib/snapshotEvidence';
+import {
+  addEvidence,
+  removeEvidence,
+  getEvidenceFile,
+  isEvidenceStorageAvailable,
+} from '@/lib/snapshotStorage';
+import { formatCurrency } from '@/lib/taxCalculator';
+import { formatBytes } from '@/lib/pwaUtils';
+
+interface EvidenceModalProps {
+  save: NamedSave;
+  onChange: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Tài liệu chứng minh (biên nhận, giấy tờ NPT, chứng từ khấu trừ) của một bản lưu
+ */
+export default function EvidenceModal({ save, onChange, onClose }: EvidenceModalProps) {
+  const [available, setAvailable] = useState(true);
+  const [targetKey, setTargetKey] = useState('');
+  const [kind, setKind] = useState<EvidenceKind>('other');
+  const [note, setNote] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const targets = useMemo(() => listEvidenceTargets(save.snapshot), [save.snapshot]);
+  const checklist = useMemo(() => buildEvidenceChecklist(save), [save]);
+  const attachments = save.attachments ?? [];
+  const groups = Array.from(new Set(targets.map((t) => t.group)));
+
+  useEffect(() => {
+    isEvidenceStorageAvailable().then(setAvailable);
+  }, []);
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const selectTarget = (key: string) => {
+    setTargetKey(key);
+    const target = targets.find((t) => t.key === key);
+    if (target) setKind(target.suggestedKind);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = event.target.files?.[0] ?? null;
+    setFile(picked);
+    setError(picked ? validateEvidenceFile(picked) : null);
+  };
+
+  const handleAdd = async () => {
+    const target = targets.find((t) => t.key === targetKey);
+    if (!target || !file) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await addEvidence(save.id, file, {
+        fileName: file.name,
+        kind,
+        target: target.target,
+        note: note.trim() || undefined,
+      });
+      setFile(null);
+      setNote('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Không thể lưu tài liệu');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleOpen = async (attachmentId: string, fileName: string) => {
+    const blob = await getEvidenceFile(attachmentId);
+    if (!blob) {
+      setError(`Không tìm thấy nội dung file "${fileName}"`);
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRemove = async (attachmentId: string) => {
+    setIsBusy(true);
+    try {
+      await removeEvidence(save.id, attachmentId);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Không thể xóa tài liệu');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const missingCount = checklist.filter((item) => item.missing).length;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="evidence-modal-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 pb-4 border-b">
+          <div className="min-w-0">
+            <h3 id="evidence-modal-title" className="text-xl font-bold text-gray-800">
+              Tài liệu chứng minh
+            </h3>
+            <p className="text-sm text-gray-500 truncate">{save.label}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+            title="Đóng"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Checklist */}
+          <section>
+            <h4 className="font-medium text-gray-800 mb-2">
+              Khoản giảm trừ cần chứng từ
+              {missingCount > 0 && (
+                <span className="ml-2 px-1.5 py-0.5 text-xs bg-amber-100 text-amber-800 rounded">
+                  Thiếu {missingCount}
+                </span>
+              )}
+            </h4>
+            {checklist.length === 0 ? (
+              <p className="text-sm text-gray-500">Bản lưu không kê khai khoản giảm trừ nào cần chứng từ.</p>
+            ) : (
+              <ul className="space-y-2">
+                {checklist.map((item) => (
+                  <li
+                    key={item.key}
+                    className={`flex items-center justify-between gap-3 p-2 rounded-lg text-sm ${
+                      item.missing ? 'bg-red-50 border border-red-200' : 'bg-green-50 border border-green-200'
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className={item.missing ? 'text-red-800' : 'text-green-800'}>
+                        {item.missing ? '✗' : '✓'} {item.label}
+                        {item.amount !== undefined && (
+                          <span className="text-gray-500"> · {formatCurrency(item.amount)}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {EVIDENCE_KIND_LABELS[item.kind]}
+                        {!item.missing && ` · ${item.attachmentCount} tài liệu`}
+                      </div>
+                    </div>
+                    {item.missing && available && (
+                      <button
+                        onClick={() => selectTarget(item.key)}
+                        className="px-3 py-2 min-h-[44px] text-xs bg-white border border-red-300 hover:bg-red-100 text-red-700 rounded transition-colors flex-shrink-0"
+                      >
+                        Đính kèm
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Attachments */}
+          <section>
+            <h4 className="font-medium text-gray-800 mb-2">Đã đính kèm ({attachments.length})</h4>
+            {attachments.length === 0 ? (
+              <p className="text-sm text-gray-500">Chưa có tài liệu nào.</p>
+            ) : (
+              <ul className="space-y-2">
+                {attachments.map((attachment) => (
+                  <li
+                    key={attachment.id}
+                    className="flex items-center justify-between gap-3 p-2 border border-gray-200 rounded-lg text-sm"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-800 truncate">{attachment.fileName}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {describeEvidenceTarget(save.snapshot, attachment.target)} ·{' '}
+                        {EVIDENCE_KIND_LABELS[attachment.kind]} · {formatBytes(attachment.size, 1)}
+                      </div>
+                      {attachment.note && <div className="text-xs text-gray-500 truncate">{attachment.note}</div>}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleOpen(attachment.id, attachment.fileName)}
+                        className="px-3 py-2 min-h-[44px] text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded transition-colors"
+                      >
+                        Tải về
+                      </button>
+                      <button
+                        onClick={() => handleRemove(attachment.id)}
+                        disabled={isBusy}
+                        className="px-3 py-2 min-h-[44px] text-xs text-red-600 hover:bg-red-50 disabled:opacity-50 rounded transition-colors"
+                        aria-label={`Xóa "${attachment.fileName}"`}
+                      >
+                        Xóa
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Add attachment */}
+          <section className="space-y-3">
+            <h4 className="font-medium text-gray-800">Thêm tài liệu</h4>
+            {!available ? (
+              <p className="text-sm text-gray-500">
+                Trình duyệt không cho dùng IndexedDB nên không thể lưu tài liệu đính kèm.
+              </p>
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="evidence-target" className="block text-sm font-medium text-gray-700 mb-1">
+                    Chứng minh cho
+                  </label>
+                  <select
+                    id="evidence-target"
+                    value={targetKey}
+                    onChange={(e) => selectTarget(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="" disabled>
+                      Chọn khoản mục
+                    </option>
+                    {groups.map((group) => (
+                      <optgroup key={group} label={group}>
+                        {targets
+                          .filter((t) => t.group === group)
+                          .map((t) => (
+                            <option key={t.key} value={t.key}>
+                              {t.label}
+                            </option>
+                          ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="evidence-kind" className="block text-sm font-medium text-gray-700 mb-1">
+                    Loại tài liệu
+                  </label>
+                  <select
+                    id="evidence-kind"
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as EvidenceKind)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(EVIDENCE_KIND_LABELS) as EvidenceKind[]).map((k) => (
+                      <option key={k} value={k}>
+                        {EVIDENCE_KIND_LABELS[k]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Ghi chú (tùy chọn)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/pdf,image/*"
+                  onChange={handleFileChange}
+                  className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-2 file:border-0 file:rounded-lg file:bg-gray-100 file:text-gray-700"
+                />
+
+                {error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                )}
+
+                <button
+                  onClick={handleAdd}
+                  disabled={!targetKey || !file || isBusy || validateEvidenceFile(file) !== null}
+                  className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
+                >
+                  {isBusy ? 'Đang lưu...' : 'Đính kèm'}
+                </button>
+                <p className="text-xs text-gray-500">
+                  File PDF hoặc ảnh, lưu trên thiết bị này. Xuất file sao lưu để giữ kèm tài liệu.
+                </p>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
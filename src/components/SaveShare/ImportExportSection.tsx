@@ -1,7 +1,20 @@
 'use client';
 
 import { useState, useRef } from 'react';
-import { exportToJSON, importFromJSON } from '@/lib/snapshotStorage';
+import {
+  exportToJSON,
+  exportToEncryptedJSON,
+  exportToZip,
+  countEvidence,
+  importFromJSON,
+  importFromZip,
+  isEncryptedExport,
+  decryptExport,
+  ImportResult,
+} from '@/lib/snapshotStorage';
+import { isZipData } from '@/lib/zipArchive';
+import PassphraseFields, { PassphraseSetting } from './PassphraseFields';
+import PassphrasePrompt from './PassphrasePrompt';
 
 interface ImportExportSectionProps {
   onImportSuccess?: () => void;
@@ -10,16 +23,43 @@ interface ImportExportSectionProps {
 export default function ImportExportSection({ onImportSuccess }: ImportExportSectionProps) {
   const [importResult, setImportResult] = useState<{ success: boolean; message: string } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [protection, setProtection] = useState<PassphraseSetting>({ enabled: false, passphrase: null });
+  const [isExporting, setIsExporting] = useState(false);
+  const [encryptedImport, setEncryptedImport] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Handle export
-  const handleExport = () => {
-    const data = exportToJSON();
-    const blob = new Blob([data], { type: 'application/json' });
+  const handleExport = async () => {
+    let data: string | Uint8Array<ArrayBuffer>;
+    let extension = 'json';
+    if (protection.enabled) {
+      if (!protection.passphrase) return;
+      setIsExporting(true);
+      try {
+        data = await exportToEncryptedJSON(protection.passphrase);
+      } catch (error) {
+        setImportResult({
+          success: false,
+          message: error instanceof Error ? error.message : 'Không thể mã hóa file',
+        });
+        setTimeout(() => setImportResult(null), 5000);
+        return;
+      } finally {
+        setIsExporting(false);
+      }
+    } else if ((await countEvidence()) > 0) {
+      // Evidence files go into a zip next to the saves
+      data = new Uint8Array(await exportToZip());
+      extension = 'zip';
+    } else {
+      data = await exportToJSON();
+    }
+
+    const blob = new Blob([data], { type: extension === 'zip' ? 'application/zip' : 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `tax-calculator-saves-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `tax-calculator-saves-${new Date().toISOString().split('T')[0]}.${extension}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -39,27 +79,54 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
     }
   };
 
+  // Show the result of an import
+  const showImportResult = (result: ImportResult) => {
+    if (result.success) {
+      const notes = [
+        result.evidence ? `${result.evidence} tài liệu đính kèm` : '',
+        result.migrated ? `${result.migrated} bản lưu cũ đã được nâng cấp` : '',
+        result.skipped ? `bỏ qua ${result.skipped} bản lưu không đọc được` : '',
+        result.skippedEvidence ? `thiếu ${result.skippedEvidence} tài liệu đính kèm` : '',
+      ].filter(Boolean);
+      setImportResult({
+        success: true,
+        message: `Đã nhập thành công ${result.count} bản lưu${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`,
+      });
+      onImportSuccess?.();
+    } else {
+      setImportResult({
+        success: false,
+        message: result.error || 'Không thể nhập file',
+      });
+    }
+
+    // Clear message after 5 seconds
+    setTimeout(() => setImportResult(null), 5000);
+  };
+
+  // Import plain JSON and show the result
+  const applyImport = async (text: string) => {
+    showImportResult(await importFromJSON(text));
+  };
+
   // Process file import
   const processFile = async (file: File) => {
     try {
-      const text = await file.text();
-      const result = importFromJSON(text);
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      if (isZipData(bytes)) {
+        showImportResult(await importFromZip(bytes));
+        return;
+      }
 
-      if (result.success) {
-        setImportResult({
-          success: true,
-          message: `Đã nhập thành công ${result.count} bản lưu`,
-        });
-        onImportSuccess?.();
-      } else {
-        setImportResult({
-          success: false,
-          message: result.error || 'Không thể nhập file',
-        });
+      const text = new TextDecoder().decode(bytes);
+
+      // Protected backups need the passphrase first
+      if (isEncryptedExport(text)) {
+        setEncryptedImport(text);
+        return;
       }
 
-      // Clear message after 5 seconds
-      setTimeout(() => setImportResult(null), 5000);
+      await applyImport(text);
     } catch {
       setImportResult({
         success: false,
@@ -69,6 +136,13 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
     }
   };
 
+  const handleDecryptImport = async (passphrase: string) => {
+    if (!encryptedImport) return;
+    const text = await decryptExport(encryptedImport, passphrase);
+    setEncryptedImport(null);
+    await applyImport(text);
+  };
+
   // Handle drag and drop
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -84,12 +158,12 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
     setIsDragging(false);
 
     const file = e.dataTransfer.files[0];
-    if (file && file.type === 'application/json') {
+    if (file && (file.type === 'application/json' || file.name.endsWith('.zip'))) {
       await processFile(file);
     } else {
       setImportResult({
         success: false,
-        message: 'Vui lòng chọn file JSON',
+        message: 'Vui lòng chọn file JSON hoặc ZIP',
       });
       setTimeout(() => setImportResult(null), 5000);
     }
@@ -102,10 +176,15 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
         <h4 className="font-medium text-gray-800 mb-2">Xuất dữ liệu</h4>
         <p className="text-sm text-gray-600 mb-3">
           Lưu tất cả các bản lưu thành file JSON để sao lưu hoặc chuyển sang thiết bị khác.
+          Nếu có tài liệu đính kèm, file tải về là ZIP chứa cả bản lưu và tài liệu.
         </p>
+        <div className="mb-3">
+          <PassphraseFields label="Mã hóa file bằng mật khẩu" onChange={setProtection} />
+        </div>
         <button
           onClick={handleExport}
-          className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+          disabled={isExporting || (protection.enabled && !protection.passphrase)}
+          className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path
@@ -115,7 +194,7 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
               d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
             />
           </svg>
-          Xuất file JSON
+          {isExporting ? 'Đang mã hóa...' : 'Xuất file sao lưu'}
         </button>
       </div>
 
@@ -126,14 +205,14 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
       <div>
         <h4 className="font-medium text-gray-800 mb-2">Nhập dữ liệu</h4>
         <p className="text-sm text-gray-600 mb-3">
-          Khôi phục các bản lưu từ file JSON đã xuất trước đó.
+          Khôi phục các bản lưu từ file JSON hoặc ZIP đã xuất trước đó.
         </p>
 
         {/* File input (hidden) */}
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json,application/json"
+          accept=".json,application/json,.zip,application/zip"
           onChange={handleFileChange}
           className="hidden"
         />
@@ -163,7 +242,7 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
             />
           </svg>
           <p className="text-sm text-gray-600 mb-2">
-            Kéo thả file JSON vào đây hoặc
+            Kéo thả file JSON/ZIP vào đây hoặc
           </p>
           <button
             type="button"
@@ -220,6 +299,16 @@ export default function ImportExportSection({ onImportSuccess }: ImportExportSec
           </p>
         </div>
       </div>
+
+      {/* Passphrase prompt for protected backups */}
+      {encryptedImport && (
+        <PassphrasePrompt
+          title="File sao lưu được bảo vệ"
+          description="Nhập mật khẩu đã đặt khi xuất file để khôi phục các bản lưu."
+          onSubmit={handleDecryptImport}
+          onCancel={() => setEncryptedImport(null)}
+        />
+      )}
     </div>
   );
 }
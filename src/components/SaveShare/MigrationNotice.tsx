@@ -0,0 +1,54 @@
+'use client';
+
+import type { SnapshotFieldChangeKind, SnapshotMigrationReport } from '@/lib/snapshotMigrations';
+
+interface MigrationNoticeProps {
+  report: SnapshotMigrationReport;
+  onDismiss: () => void;
+}
+
+const CHANGE_KIND_LABELS: Record<SnapshotFieldChangeKind, string> = {
+  renamed: 'Đổi tên',
+  transformed: 'Chuyển đổi',
+  dropped: 'Bỏ',
+  reset: 'Đặt lại mặc định',
+};
+
+/**
+ * Thông báo khi tải liên kết/bản lưu cũ đã được nâng cấp lên định dạng mới,
+ * hoặc có giá trị không hợp lệ đã bị thay bằng mặc định
+ */
+export default function MigrationNotice({ report, onDismiss }: MigrationNoticeProps) {
+  return (
+    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg" role="status">
+      <div className="flex items-start justify-between gap-2">
+        <div className="text-sm text-amber-900">
+          <div className="font-medium mb-1">
+            {report.fromVersion === report.toVersion
+              ? 'Một số giá trị không hợp lệ đã được thay bằng giá trị mặc định'
+              : `Dữ liệu cũ (phiên bản ${report.fromVersion}) đã được nâng cấp lên phiên bản ${report.toVersion}`}
+          </div>
+          <ul className="space-y-0.5">
+            {report.changes.map((change) => (
+              <li key={`${change.kind}-${change.path}`}>
+                • <span className="font-medium">{CHANGE_KIND_LABELS[change.kind]}:</span>{' '}
+                {change.message}{' '}
+                <code className="text-xs text-amber-700">{change.path}</code>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-amber-700 mt-1">
+            Vui lòng kiểm tra lại các số liệu trước khi sử dụng.
+          </p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="min-w-[44px] min-h-[44px] flex items-center justify-center text-amber-700 hover:bg-amber-100 rounded transition-colors"
+          aria-label="Đóng thông báo"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
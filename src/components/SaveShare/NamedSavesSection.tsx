@@ -2,13 +2,23 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { CalculatorSnapshot, NamedSave } from '@/lib/snapshotTypes';
-import { getNamedSaves, deleteNamedSave, formatTimestamp } from '@/lib/snapshotStorage';
+import { SnapshotMigrationReport, hasMigrationChanges } from '@/lib/snapshotMigrations';
+import {
+  getNamedSaves,
+  deleteNamedSave,
+  formatTimestamp,
+  getStorageStats,
+  StorageStats,
+} from '@/lib/snapshotStorage';
 import { formatCurrency } from '@/lib/taxCalculator';
+import { formatBytes } from '@/lib/pwaUtils';
+import { buildEvidenceChecklist } from '@/lib/snapshotEvidence';
 import SaveDialog from './SaveDialog';
+import EvidenceModal from './EvidenceModal';
 
 interface NamedSavesSectionProps {
   currentSnapshot: CalculatorSnapshot;
-  onLoadSnapshot: (snapshot: CalculatorSnapshot) => void;
+  onLoadSnapshot: (snapshot: CalculatorSnapshot, migration?: SnapshotMigrationReport) => void;
   onClose: () => void;
 }
 
@@ -20,10 +30,13 @@ export default function NamedSavesSection({
   const [saves, setSaves] = useState<NamedSave[]>([]);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [stats, setStats] = useState<StorageStats | null>(null);
+  const [evidenceSaveId, setEvidenceSaveId] = useState<string | null>(null);
 
-  // Load saves
-  const loadSaves = useCallback(() => {
-    setSaves(getNamedSaves());
+  // Load saves and storage usage
+  const loadSaves = useCallback(async () => {
+    setSaves(await getNamedSaves());
+    setStats(await getStorageStats());
   }, []);
 
   useEffect(() => {
@@ -35,17 +48,19 @@ export default function NamedSavesSection({
     setShowSaveDialog(false);
   };
 
-  const handleDelete = (id: string) => {
-    deleteNamedSave(id);
-    loadSaves();
+  const handleDelete = async (id: string) => {
+    await deleteNamedSave(id);
+    await loadSaves();
     setDeleteConfirmId(null);
   };
 
   const handleLoad = (save: NamedSave) => {
-    onLoadSnapshot(save.snapshot);
+    onLoadSnapshot(save.snapshot, save.migration);
     onClose();
   };
 
+  const evidenceSave = saves.find((save) => save.id === evidenceSaveId);
+
   return (
     <div className="p-4 space-y-4">
       {/* Save current button */}
@@ -96,14 +111,45 @@ export default function NamedSavesSection({
                     </div>
                   )}
                   <div className="text-sm text-blue-600 font-medium">
-                    {formatCurrency(save.snapshot.sharedState?.grossIncome ?? save.snapshot.state?.grossIncome ?? 0)}
+                    {formatCurrency(save.snapshot.sharedState.grossIncome)}
                   </div>
                   <div className="text-xs text-gray-500 mt-1">
                     {formatTimestamp(save.createdAt)}
+                    {hasMigrationChanges(save.migration) && (
+                      <span className="ml-2 px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded">
+                        {save.migration.fromVersion === save.migration.toVersion
+                          ? 'Đã sửa giá trị lỗi'
+                          : `Đã nâng cấp từ v${save.migration.fromVersion}`}
+                      </span>
+                    )}
+                    {missingEvidenceCount(save) > 0 && (
+                      <span className="ml-2 px-1.5 py-0.5 bg-red-100 text-red-800 rounded">
+                        Thiếu {missingEvidenceCount(save)} chứng từ
+                      </span>
+                    )}
                   </div>
                 </div>
 
                 <div className="flex items-center gap-1 ml-2">
+                  <button
+                    onClick={() => setEvidenceSaveId(save.id)}
+                    className="relative min-w-[44px] min-h-[44px] flex items-center justify-center text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                    aria-label={`Tài liệu chứng minh của "${save.label}"`}
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+                      />
+                    </svg>
+                    {(save.attachments?.length ?? 0) > 0 && (
+                      <span className="absolute top-1 right-1 text-[10px] leading-none px-1 py-0.5 bg-blue-600 text-white rounded-full">
+                        {save.attachments?.length}
+                      </span>
+                    )}
+                  </button>
                   <button
                     onClick={() => handleLoad(save)}
                     className="min-w-[44px] min-h-[44px] flex items-center justify-center text-blue-600 hover:bg-blue-50 rounded transition-colors"
@@ -156,6 +202,39 @@ export default function NamedSavesSection({
         </div>
       )}
 
+      {/* Storage usage */}
+      {stats && stats.backend && (
+        <div
+          className={`p-3 rounded-lg text-xs ${
+            stats.nearQuota
+              ? 'bg-red-50 text-red-800 border border-red-200'
+              : 'bg-gray-50 text-gray-600'
+          }`}
+        >
+          <p>
+            {stats.count}/{stats.maxSaves} bản lưu · {formatBytes(stats.estimatedSize, 1)}
+            {stats.quota !== null && (
+              <> · bộ nhớ trình duyệt đã dùng {formatBytes(stats.usage, 1)}/{formatBytes(stats.quota, 1)}</>
+            )}
+            {stats.backend === 'localstorage' && ' (localStorage)'}
+          </p>
+          {stats.nearQuota && (
+            <p className="mt-1 font-medium">
+              Bộ nhớ sắp đầy. Hãy xuất file sao lưu và xóa bớt bản lưu cũ để bản lưu mới không bị lỗi.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Evidence */}
+      {evidenceSave && (
+        <EvidenceModal
+          save={evidenceSave}
+          onChange={loadSaves}
+          onClose={() => setEvidenceSaveId(null)}
+        />
+      )}
+
       {/* Save Dialog */}
       {showSaveDialog && (
         <SaveDialog
@@ -167,3 +246,7 @@ export default function NamedSavesSection({
     </div>
   );
 }
+
+function missingEvidenceCount(save: NamedSave): number {
+  return buildEvidenceChecklist(save).filter((item) => item.missing).length;
+}
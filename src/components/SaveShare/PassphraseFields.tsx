@@ -0,0 +1,91 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { MIN_PASSPHRASE_LENGTH, isEncryptionAvailable } from '@/lib/snapshotCrypto';
+
+export interface PassphraseSetting {
+  enabled: boolean;
+  // Null until both fields match and are long enough
+  passphrase: string | null;
+}
+
+interface PassphraseFieldsProps {
+  label: string;
+  onChange: (setting: PassphraseSetting) => void;
+}
+
+/**
+ * Bật bảo vệ bằng mật khẩu và nhập mật khẩu hai lần
+ */
+export default function PassphraseFields({ label, onChange }: PassphraseFieldsProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [available, setAvailable] = useState(true);
+
+  useEffect(() => {
+    setAvailable(isEncryptionAvailable());
+  }, []);
+
+  const isLongEnough = passphrase.length >= MIN_PASSPHRASE_LENGTH;
+  const isMatching = passphrase === confirmation;
+
+  useEffect(() => {
+    onChange({
+      enabled,
+      passphrase: enabled && isLongEnough && isMatching ? passphrase : null,
+    });
+  }, [enabled, passphrase, isLongEnough, isMatching, onChange]);
+
+  if (!available) {
+    return (
+      <p className="text-xs text-gray-500">
+        Trình duyệt không hỗ trợ mã hóa (cần HTTPS) nên không thể đặt mật khẩu.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="w-4 h-4 text-blue-600 rounded"
+        />
+        <span className="text-gray-700">{label}</span>
+      </label>
+
+      {enabled && (
+        <div className="space-y-2">
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`Mật khẩu (ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự)`}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Nhập lại mật khẩu"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {passphrase && !isLongEnough && (
+            <p className="text-xs text-red-600">Mật khẩu cần ít nhất {MIN_PASSPHRASE_LENGTH} ký tự</p>
+          )}
+          {isLongEnough && confirmation && !isMatching && (
+            <p className="text-xs text-red-600">Mật khẩu nhập lại không khớp</p>
+          )}
+          <p className="text-xs text-gray-500">
+            Gửi mật khẩu qua kênh khác với liên kết. Quên mật khẩu thì không thể mở lại dữ liệu.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+interface PassphrasePromptProps {
+  title: string;
+  description: string;
+  // Throw to keep the prompt open and show the error message
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Hộp thoại nhập mật khẩu để mở liên kết hoặc file sao lưu đã mã hóa
+ */
+export default function PassphrasePrompt({ title, description, onSubmit, onCancel }: PassphrasePromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Focus on passphrase input when opened
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onCancel]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isDecrypting) return;
+
+    setIsDecrypting(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Không thể giải mã. Vui lòng thử lại.');
+      setIsDecrypting(false);
+      inputRef.current?.select();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="passphrase-prompt-title"
+      >
+        <h3 id="passphrase-prompt-title" className="text-xl font-bold text-gray-800 mb-2">
+          {title}
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">{description}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="passphrase" className="block text-sm font-medium text-gray-700 mb-2">
+              Mật khẩu
+            </label>
+            <input
+              ref={inputRef}
+              id="passphrase"
+              type="password"
+              autoComplete="off"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {/* Error message */}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          {/* Buttons */}
+          <div className="flex gap-3 pt-2">
+            <button
+              type="submit"
+              disabled={!passphrase || isDecrypting}
+              className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
+            >
+              {isDecrypting ? 'Đang giải mã...' : 'Mở'}
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+            >
+              Hủy
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,48 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
+import { getShareHashContent } from '@/lib/snapshotCodec';
+import { needsMultiPartQR, splitQrFrames } from '@/lib/snapshotQrTransfer';
+
+// Thời gian hiển thị mỗi mã khi tự chuyển
+const FRAME_INTERVAL_MS = 800;
 
 interface QRCodeModalProps {
   url: string;
+  // Link is passphrase-encrypted (#e=...)
+  isProtected?: boolean;
   onClose: () => void;
 }
 
-export default function QRCodeModal({ url, onClose }: QRCodeModalProps) {
+export default function QRCodeModal({ url, isProtected = false, onClose }: QRCodeModalProps) {
+  // Link dài được chia thành nhiều mã, quét bằng nút "Quét mã QR" trên thiết bị kia
+  const frames = useMemo(
+    () => (needsMultiPartQR(url) ? splitQrFrames(getShareHashContent(url)) : []),
+    [url]
+  );
+  const isMultiPart = frames.length > 0;
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+
+  useEffect(() => {
+    setFrameIndex(0);
+  }, [frames]);
+
+  // Tự chuyển mã để máy quét nhận đủ các phần
+  useEffect(() => {
+    if (!isMultiPart || !isPlaying) return;
+    const timer = setInterval(() => {
+      setFrameIndex((prev) => (prev + 1) % frames.length);
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isMultiPart, isPlaying, frames.length]);
+
+  const stepFrame = (delta: number) => {
+    setIsPlaying(false);
+    setFrameIndex((prev) => (prev + delta + frames.length) % frames.length);
+  };
+
   // Close on Escape key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -47,17 +81,53 @@ export default function QRCodeModal({ url, onClose }: QRCodeModalProps) {
         {/* QR Code */}
         <div className="flex justify-center mb-6">
           <div className="p-4 bg-white border-2 border-gray-200 rounded-xl">
-            <QRCodeSVG value={url} size={240} level="M" />
+            <QRCodeSVG value={isMultiPart ? frames[frameIndex] ?? frames[0] : url} size={240} level="M" />
           </div>
         </div>
 
-        {/* URL */}
-        <div className="text-center">
-          <p className="text-sm text-gray-600 mb-2">Quét mã để truy cập</p>
-          <p className="text-xs text-gray-500 break-all font-mono bg-gray-50 p-3 rounded-lg">
-            {url}
-          </p>
-        </div>
+        {isMultiPart ? (
+          <div className="text-center space-y-3">
+            <div className="flex items-center justify-center gap-2">
+              <button
+                onClick={() => stepFrame(-1)}
+                className="min-w-[44px] min-h-[44px] bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                aria-label="Mã trước"
+              >
+                ‹
+              </button>
+              <span className="text-sm font-medium text-gray-700 min-w-[80px]">
+                Phần {frameIndex + 1}/{frames.length}
+              </span>
+              <button
+                onClick={() => stepFrame(1)}
+                className="min-w-[44px] min-h-[44px] bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                aria-label="Mã tiếp theo"
+              >
+                ›
+              </button>
+              <button
+                onClick={() => setIsPlaying((prev) => !prev)}
+                className="px-3 min-h-[44px] bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm transition-colors"
+              >
+                {isPlaying ? 'Dừng' : 'Tự chuyển'}
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              Dữ liệu dài nên được chia thành {frames.length} mã. Trên thiết bị kia, mở Lưu &amp; Chia sẻ → Quét mã QR
+              và giữ camera hướng vào màn hình đến khi nhận đủ các phần.
+              {isProtected && ' Sau đó nhập mật khẩu để mở.'}
+            </p>
+          </div>
+        ) : (
+          <div className="text-center">
+            <p className="text-sm text-gray-600 mb-2">
+              {isProtected ? 'Quét mã rồi nhập mật khẩu để mở' : 'Quét mã để truy cập'}
+            </p>
+            <p className="text-xs text-gray-500 break-all font-mono bg-gray-50 p-3 rounded-lg">
+              {url}
+            </p>
+          </div>
+        )}
 
         {/* Close button */}
         <button
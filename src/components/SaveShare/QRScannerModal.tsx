@@ -0,0 +1,267 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getShareHashContent } from '@/lib/snapshotCodec';
+import {
+  QrTransferProgress,
+  addQrFrame,
+  assembleQrFrames,
+  parseQrFrame,
+} from '@/lib/snapshotQrTransfer';
+
+// BarcodeDetector chưa có trong lib.dom của TypeScript
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats?: () => Promise<string[]>;
+}
+
+type QrReader = (video: HTMLVideoElement) => Promise<string | null>;
+
+// Khoảng nghỉ giữa hai lần đọc khung hình camera
+const SCAN_INTERVAL_MS = 200;
+
+/**
+ * Dùng BarcodeDetector của trình duyệt nếu có, nếu không thì giải mã bằng jsQR
+ */
+async function createQrReader(): Promise<QrReader> {
+  const Detector = (window as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (Detector) {
+    const formats = (await Detector.getSupportedFormats?.().catch(() => [])) ?? ['qr_code'];
+    if (formats.includes('qr_code')) {
+      const detector = new Detector({ formats: ['qr_code'] });
+      return async (video) => {
+        const codes = await detector.detect(video);
+        return codes[0]?.rawValue ?? null;
+      };
+    }
+  }
+
+  const { default: jsQR } = await import('jsqr');
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  return async (video) => {
+    if (!context || video.videoWidth === 0) return null;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    return jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+  };
+}
+
+interface QRScannerModalProps {
+  // Nội dung sau dấu # của link chia sẻ (có thể là link đã mã hóa)
+  onScan: (hashContent: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Quét mã QR chia sẻ (một mã hoặc chuỗi nhiều mã) bằng camera
+ */
+export default function QRScannerModal({ onScan, onClose }: QRScannerModalProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const progressRef = useRef<QrTransferProgress | null>(null);
+  const doneRef = useRef(false);
+  const onScanRef = useRef(onScan);
+  const [progress, setProgress] = useState<QrTransferProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+
+  // Giữ camera chạy khi component cha render lại với callback mới
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const handleText = useCallback(
+    (text: string) => {
+      const frame = parseQrFrame(text);
+
+      // Mã đơn: link chia sẻ bình thường
+      if (!frame) {
+        const hashContent = text.includes('#') ? getShareHashContent(text) : '';
+        if (hashContent) {
+          doneRef.current = true;
+          onScanRef.current(hashContent);
+        }
+        return;
+      }
+
+      const next = addQrFrame(progressRef.current, frame);
+      if (next === progressRef.current) return;
+      progressRef.current = next;
+      setProgress(next);
+
+      try {
+        const payload = assembleQrFrames(next);
+        if (payload) {
+          doneRef.current = true;
+          onScanRef.current(payload);
+        }
+      } catch (err) {
+        progressRef.current = null;
+        setProgress(null);
+        setError(err instanceof Error ? err.message : 'Dữ liệu quét được bị lỗi');
+      }
+    },
+    []
+  );
+
+  // Mở camera và đọc liên tục đến khi nhận đủ dữ liệu
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Trình duyệt không hỗ trợ camera');
+        setIsStarting(false);
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+        const video = videoRef.current;
+        if (cancelled || !video) return;
+        video.srcObject = stream;
+        await video.play();
+
+        const readQr = await createQrReader();
+        if (cancelled) return;
+        setIsStarting(false);
+
+        const scan = async () => {
+          if (cancelled || doneRef.current) return;
+          try {
+            const text = await readQr(video);
+            if (text && !cancelled) handleText(text);
+          } catch {
+            // Khung hình lỗi, đọc lại ở lần sau
+          }
+          timer = setTimeout(scan, SCAN_INTERVAL_MS);
+        };
+        scan();
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to start camera:', err);
+        setError(
+          err instanceof DOMException && err.name === 'NotAllowedError'
+            ? 'Bạn chưa cho phép dùng camera. Hãy cấp quyền trong cài đặt trình duyệt rồi thử lại.'
+            : 'Không mở được camera'
+        );
+        setIsStarting(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [handleText]);
+
+  const receivedCount = progress ? Object.keys(progress.parts).length : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="qr-scanner-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 id="qr-scanner-title" className="text-xl font-bold text-gray-800">
+            Quét mã QR
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+            title="Đóng"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Camera */}
+        <div className="relative bg-black rounded-xl overflow-hidden aspect-square mb-4">
+          <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+          {isStarting && !error && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-white">
+              Đang mở camera...
+            </div>
+          )}
+        </div>
+
+        {/* Progress */}
+        {progress ? (
+          <div className="space-y-2 mb-4">
+            <p className="text-sm font-medium text-gray-700">
+              Đã nhận {receivedCount}/{progress.total} phần
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {Array.from({ length: progress.total }, (_, i) => (
+                <span
+                  key={i}
+                  className={`w-4 h-4 rounded-sm ${
+                    progress.parts[i + 1] !== undefined ? 'bg-green-500' : 'bg-gray-200'
+                  }`}
+                  title={`Phần ${i + 1}`}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 mb-4">
+            Hướng camera vào mã QR trên thiết bị kia. Với dữ liệu nhiều phần, giữ yên camera đến khi nhận đủ.
+          </p>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors"
+        >
+          Hủy
+        </button>
+      </div>
+    </div>
+  );
+}
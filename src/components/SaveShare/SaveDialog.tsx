@@ -14,6 +14,7 @@ export default function SaveDialog({ snapshot, onSave, onClose }: SaveDialogProp
   const [label, setLabel] = useState('');
   const [description, setDescription] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Focus on label input when opened
@@ -33,19 +34,23 @@ export default function SaveDialog({ snapshot, onSave, onClose }: SaveDialogProp
     return () => document.removeEventListener('keydown', handleEscape);
   }, [onClose]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!label.trim()) {
       inputRef.current?.focus();
       return;
     }
+    if (isSaving) return;
 
+    setIsSaving(true);
+    setError(null);
     try {
-      saveNamedSave(snapshot, label.trim(), description.trim() || undefined);
+      await saveNamedSave(snapshot, label.trim(), description.trim() || undefined);
       onSave();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Không thể lưu. Vui lòng thử lại.');
+      setIsSaving(false);
     }
   };
 
@@ -117,9 +122,10 @@ export default function SaveDialog({ snapshot, onSave, onClose }: SaveDialogProp
           <div className="flex gap-3 pt-2">
             <button
               type="submit"
-              className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+              disabled={isSaving}
+              className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
             >
-              Lưu
+              {isSaving ? 'Đang lưu...' : 'Lưu'}
             </button>
             <button
               type="button"
@@ -2,11 +2,12 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { CalculatorSnapshot } from '@/lib/snapshotTypes';
+import type { SnapshotMigrationReport } from '@/lib/snapshotMigrations';
 import SaveSharePanel from './SaveSharePanel';
 
 interface SaveShareButtonProps {
   snapshot: CalculatorSnapshot;
-  onLoadSnapshot: (snapshot: CalculatorSnapshot) => void;
+  onLoadSnapshot: (snapshot: CalculatorSnapshot, migration?: SnapshotMigrationReport) => void;
 }
 
 export default function SaveShareButton({ snapshot, onLoadSnapshot }: SaveShareButtonProps) {
@@ -2,17 +2,19 @@
 
 import { useState, useCallback } from 'react';
 import { CalculatorSnapshot } from '@/lib/snapshotTypes';
+import type { SnapshotMigrationReport } from '@/lib/snapshotMigrations';
 import ShareSection from './ShareSection';
 import NamedSavesSection from './NamedSavesSection';
 import ImportExportSection from './ImportExportSection';
+import SnapshotCompareSection from './SnapshotCompareSection';
 
 interface SaveSharePanelProps {
   snapshot: CalculatorSnapshot;
-  onLoadSnapshot: (snapshot: CalculatorSnapshot) => void;
+  onLoadSnapshot: (snapshot: CalculatorSnapshot, migration?: SnapshotMigrationReport) => void;
   onClose: () => void;
 }
 
-type TabType = 'share' | 'saves' | 'importexport';
+type TabType = 'share' | 'saves' | 'compare' | 'importexport';
 
 export default function SaveSharePanel({ snapshot, onLoadSnapshot, onClose }: SaveSharePanelProps) {
   const [activeTab, setActiveTab] = useState<TabType>('share');
@@ -70,6 +72,16 @@ export default function SaveSharePanel({ snapshot, onLoadSnapshot, onClose }: Sa
             >
               Đã lưu
             </button>
+            <button
+              onClick={() => setActiveTab('compare')}
+              className={`flex-1 px-4 py-3 font-medium text-sm transition-colors ${
+                activeTab === 'compare'
+                  ? 'text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              So sánh
+            </button>
             <button
               onClick={() => setActiveTab('importexport')}
               className={`flex-1 px-4 py-3 font-medium text-sm transition-colors ${
@@ -85,7 +97,9 @@ export default function SaveSharePanel({ snapshot, onLoadSnapshot, onClose }: Sa
 
         {/* Tab content */}
         <div className="flex-1 overflow-y-auto">
-          {activeTab === 'share' && <ShareSection snapshot={snapshot} />}
+          {activeTab === 'share' && (
+            <ShareSection snapshot={snapshot} onLoadSnapshot={onLoadSnapshot} onClose={onClose} />
+          )}
           {activeTab === 'saves' && (
             <NamedSavesSection
               key={refreshKey}
@@ -94,6 +108,7 @@ export default function SaveSharePanel({ snapshot, onLoadSnapshot, onClose }: Sa
               onClose={onClose}
             />
           )}
+          {activeTab === 'compare' && <SnapshotCompareSection currentSnapshot={snapshot} />}
           {activeTab === 'importexport' && <ImportExportSection onImportSuccess={handleImportSuccess} />}
         </div>
       </div>
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import type { UseSnapshotHistoryReturn } from '@/hooks/useSnapshotHistory';
+import SessionTimeline from './SessionTimeline';
+
+interface SessionHistoryControlsProps {
+  history: UseSnapshotHistoryReturn;
+}
+
+const BUTTON_CLASS =
+  'p-2.5 min-w-[44px] min-h-[44px] flex items-center justify-center gap-1.5 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+
+/**
+ * Nút hoàn tác/làm lại và mở lịch sử thay đổi trên thanh tiêu đề
+ */
+export default function SessionHistoryControls({ history }: SessionHistoryControlsProps) {
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={history.undo}
+        disabled={!history.canUndo}
+        aria-label="Hoàn tác thay đổi"
+        className={BUTTON_CLASS}
+        title="Hoàn tác (Ctrl + Z)"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" />
+        </svg>
+      </button>
+      <button
+        onClick={history.redo}
+        disabled={!history.canRedo}
+        aria-label="Làm lại thay đổi"
+        className={BUTTON_CLASS}
+        title="Làm lại (Ctrl + Shift + Z)"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setIsTimelineOpen(true)}
+        aria-label="Xem lịch sử thay đổi trong phiên"
+        className={BUTTON_CLASS}
+        title="Lịch sử thay đổi"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <span className="hidden lg:inline text-xs">Lịch sử</span>
+      </button>
+
+      {isTimelineOpen && (
+        <SessionTimeline history={history} onClose={() => setIsTimelineOpen(false)} />
+      )}
+    </>
+  );
+}
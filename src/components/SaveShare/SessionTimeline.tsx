@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalculatorSnapshot } from '@/lib/snapshotTypes';
+import { SnapshotHistoryEntry, describeHistoryEntry, MAX_HISTORY_ENTRIES } from '@/lib/snapshotHistory';
+import type { UseSnapshotHistoryReturn } from '@/hooks/useSnapshotHistory';
+import SaveDialog from './SaveDialog';
+
+interface SessionTimelineProps {
+  history: UseSnapshotHistoryReturn;
+  onClose: () => void;
+}
+
+function formatEntryTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+/**
+ * Dòng thời gian các trạng thái gần đây trong phiên: khôi phục hoặc lưu thành bản lưu
+ */
+export default function SessionTimeline({ history, onClose }: SessionTimelineProps) {
+  const [savingEntry, setSavingEntry] = useState<SnapshotHistoryEntry | null>(null);
+  const [savedId, setSavedId] = useState<number | null>(null);
+
+  // Close on Escape key (SaveDialog handles its own Escape)
+  useEffect(() => {
+    if (savingEntry) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose, savingEntry]);
+
+  // Mới nhất ở trên cùng
+  const rows = history.entries
+    .map((entry, index) => ({ entry, index }))
+    .reverse();
+
+  const savingSnapshot: CalculatorSnapshot | null = savingEntry
+    ? { ...savingEntry.snapshot, meta: { createdAt: savingEntry.recordedAt } }
+    : null;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <div
+          className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 max-h-[85vh] flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="session-timeline-title"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-2">
+            <h3 id="session-timeline-title" className="text-xl font-bold text-gray-800">
+              Lịch sử thay đổi
+            </h3>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700 transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+              title="Đóng"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            {MAX_HISTORY_ENTRIES} trạng thái gần nhất trong phiên này. Lịch sử mất khi tải lại trang, hãy lưu lại trạng thái cần giữ.
+          </p>
+
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={history.undo}
+              disabled={!history.canUndo}
+              className="flex-1 px-3 py-2 min-h-[44px] bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ↶ Hoàn tác
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              className="flex-1 px-3 py-2 min-h-[44px] bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ↷ Làm lại
+            </button>
+          </div>
+
+          {/* Timeline */}
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">Chưa có thay đổi nào</p>
+          ) : (
+            <ol className="flex-1 overflow-y-auto space-y-2">
+              {rows.map(({ entry, index }) => {
+                const isCurrent = index === history.index;
+                const isUndone = index > history.index;
+                return (
+                  <li
+                    key={entry.id}
+                    className={`p-3 rounded-lg border ${
+                      isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+                    } ${isUndone ? 'opacity-60' : ''}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-800">
+                          {describeHistoryEntry(entry)}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-0.5">
+                          {formatEntryTime(entry.recordedAt)}
+                          {isCurrent && (
+                            <span className="ml-2 px-1.5 py-0.5 bg-blue-100 text-blue-800 rounded">Hiện tại</span>
+                          )}
+                          {isUndone && <span className="ml-2">Đã hoàn tác</span>}
+                          {savedId === entry.id && <span className="ml-2 text-green-700">Đã lưu</span>}
+                        </div>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        {!isCurrent && (
+                          <button
+                            onClick={() => history.restore(entry.id)}
+                            className="px-2 py-1 min-h-[36px] text-xs font-medium text-blue-700 hover:bg-blue-100 rounded transition-colors"
+                          >
+                            Khôi phục
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setSavingEntry(entry)}
+                          className="px-2 py-1 min-h-[36px] text-xs font-medium text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                        >
+                          Lưu
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {savingEntry && savingSnapshot && (
+        <SaveDialog
+          snapshot={savingSnapshot}
+          onSave={() => {
+            setSavedId(savingEntry.id);
+            setSavingEntry(null);
+          }}
+          onClose={() => setSavingEntry(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -3,22 +3,70 @@
 import { useState, useEffect } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { CalculatorSnapshot } from '@/lib/snapshotTypes';
-import { generateShareURL, copyToClipboard } from '@/lib/snapshotCodec';
+import type { SnapshotMigrationReport } from '@/lib/snapshotMigrations';
+import {
+  generateShareURL,
+  generateEncryptedShareURL,
+  copyToClipboard,
+  decodeShareHashContent,
+  decryptHashContent,
+  getShareHashContent,
+  isEncryptedHashContent,
+} from '@/lib/snapshotCodec';
+import { needsMultiPartQR, splitQrFrames } from '@/lib/snapshotQrTransfer';
 import QRCodeModal from './QRCodeModal';
+import QRScannerModal from './QRScannerModal';
+import PassphraseFields, { PassphraseSetting } from './PassphraseFields';
+import PassphrasePrompt from './PassphrasePrompt';
 
 interface ShareSectionProps {
   snapshot: CalculatorSnapshot;
+  onLoadSnapshot: (snapshot: CalculatorSnapshot, migration?: SnapshotMigrationReport) => void;
+  onClose: () => void;
 }
 
-export default function ShareSection({ snapshot }: ShareSectionProps) {
+export default function ShareSection({ snapshot, onLoadSnapshot, onClose }: ShareSectionProps) {
   const [copied, setCopied] = useState(false);
   const [showQRModal, setShowQRModal] = useState(false);
   const [shareURL, setShareURL] = useState<string>('');
+  const [protection, setProtection] = useState<PassphraseSetting>({ enabled: false, passphrase: null });
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [scannedEncrypted, setScannedEncrypted] = useState<string | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
 
-  // Generate share URL
+  // Link quá dài cho một mã QR được hiện thành chuỗi nhiều mã
+  const qrFrameCount = shareURL && needsMultiPartQR(shareURL) ? splitQrFrames(getShareHashContent(shareURL)).length : 0;
+
+  // Generate share URL (encrypted when a passphrase is set)
   useEffect(() => {
-    setShareURL(generateShareURL(snapshot));
-  }, [snapshot]);
+    if (!protection.enabled) {
+      setShareURL(generateShareURL(snapshot));
+      return;
+    }
+    if (!protection.passphrase) {
+      setShareURL('');
+      return;
+    }
+
+    let cancelled = false;
+    setIsEncrypting(true);
+    generateEncryptedShareURL(snapshot, protection.passphrase)
+      .then((url) => {
+        if (!cancelled) setShareURL(url);
+      })
+      .catch((error) => {
+        console.error('Failed to encrypt share URL:', error);
+        if (!cancelled) setShareURL('');
+      })
+      .finally(() => {
+        if (!cancelled) setIsEncrypting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshot, protection]);
 
   const handleCopy = async () => {
     const success = await copyToClipboard(shareURL);
@@ -31,10 +79,13 @@ export default function ShareSection({ snapshot }: ShareSectionProps) {
   const handleNativeShare = async () => {
     if (navigator.share) {
       try {
-        const grossIncome = snapshot.sharedState?.grossIncome ?? snapshot.state?.grossIncome ?? 0;
+        const grossIncome = snapshot.sharedState.grossIncome;
         await navigator.share({
           title: 'Tính thuế TNCN 2026',
-          text: `Tính thuế với thu nhập ${new Intl.NumberFormat('vi-VN').format(grossIncome)} VND`,
+          // Don't leak the salary next to a protected link
+          text: protection.enabled
+            ? 'Kết quả tính thuế (cần mật khẩu để mở)'
+            : `Tính thuế với thu nhập ${new Intl.NumberFormat('vi-VN').format(grossIncome)} VND`,
           url: shareURL,
         });
       } catch {
@@ -46,8 +97,40 @@ export default function ShareSection({ snapshot }: ShareSectionProps) {
     }
   };
 
+  const loadScannedHashContent = (hashContent: string) => {
+    const decoded = decodeShareHashContent(hashContent);
+    if (!decoded) {
+      setScanError('Mã QR không chứa dữ liệu tính thuế hợp lệ');
+      return;
+    }
+    onLoadSnapshot(decoded.snapshot, decoded.migration);
+    onClose();
+  };
+
+  const handleScan = (hashContent: string) => {
+    setShowScanner(false);
+    setScanError(null);
+
+    // Protected links need the passphrase first
+    if (isEncryptedHashContent(hashContent)) {
+      setScannedEncrypted(hashContent);
+      return;
+    }
+    loadScannedHashContent(hashContent);
+  };
+
+  const handleDecryptScan = async (passphrase: string) => {
+    if (!scannedEncrypted) return;
+    const hashContent = await decryptHashContent(scannedEncrypted, passphrase);
+    setScannedEncrypted(null);
+    loadScannedHashContent(hashContent);
+  };
+
   return (
     <div className="p-4 space-y-4">
+      {/* Passphrase protection */}
+      <PassphraseFields label="Bảo vệ link bằng mật khẩu" onChange={setProtection} />
+
       {/* URL Input with Copy Button */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -56,14 +139,15 @@ export default function ShareSection({ snapshot }: ShareSectionProps) {
         <div className="flex gap-2">
           <input
             type="text"
-            value={shareURL}
+            value={isEncrypting ? 'Đang mã hóa...' : shareURL}
             readOnly
+            placeholder={protection.enabled ? 'Nhập mật khẩu để tạo link' : ''}
             className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
             onClick={(e) => (e.target as HTMLInputElement).select()}
           />
           <button
             onClick={handleCopy}
-            disabled={!shareURL}
+            disabled={!shareURL || isEncrypting}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg text-sm font-medium transition-colors"
             title="Copy link"
           >
@@ -88,12 +172,21 @@ export default function ShareSection({ snapshot }: ShareSectionProps) {
         </label>
         <div className="flex items-center gap-4">
           <div className="p-2 bg-white border border-gray-200 rounded-lg">
-            <QRCodeSVG value={shareURL} size={120} level="M" />
+            {shareURL && !isEncrypting && qrFrameCount > 0 ? (
+              <div className="w-[120px] h-[120px] bg-gray-50 flex items-center justify-center text-center text-xs text-gray-600 p-2">
+                {qrFrameCount} mã QR nối tiếp
+              </div>
+            ) : shareURL && !isEncrypting ? (
+              <QRCodeSVG value={shareURL} size={120} level="M" />
+            ) : (
+              <div className="w-[120px] h-[120px] bg-gray-50" />
+            )}
           </div>
           <div className="flex-1 space-y-2">
             <button
               onClick={() => setShowQRModal(true)}
-              className="w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+              disabled={!shareURL || isEncrypting}
+              className="w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -103,12 +196,13 @@ export default function ShareSection({ snapshot }: ShareSectionProps) {
                   d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7"
                 />
               </svg>
-              Xem lớn hơn
+              {qrFrameCount > 0 ? 'Hiện mã QR' : 'Xem lớn hơn'}
             </button>
             {typeof navigator !== 'undefined' && 'share' in navigator && (
               <button
                 onClick={handleNativeShare}
-                className="w-full px-4 py-2 bg-blue-100 hover:bg-blue-200 text-blue-700 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+                disabled={!shareURL || isEncrypting}
+                className="w-full px-4 py-2 bg-blue-100 hover:bg-blue-200 text-blue-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
@@ -125,14 +219,53 @@ export default function ShareSection({ snapshot }: ShareSectionProps) {
         </div>
       </div>
 
+      {/* Scan from another device */}
+      <div>
+        <button
+          onClick={() => {
+            setScanError(null);
+            setShowScanner(true);
+          }}
+          className="w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9zM15 13a3 3 0 11-6 0 3 3 0 016 0z"
+            />
+          </svg>
+          Quét mã QR từ thiết bị khác
+        </button>
+        {scanError && <p className="mt-2 text-sm text-red-600">{scanError}</p>}
+      </div>
+
       {/* Info text */}
       <p className="text-xs text-gray-500">
         Quét mã QR hoặc chia sẻ link này để người khác xem kết quả tính thuế của bạn.
+        {!protection.enabled && ' Link chứa thu nhập và số người phụ thuộc, ai có link đều đọc được.'}
       </p>
 
       {/* QR Modal */}
       {showQRModal && (
-        <QRCodeModal url={shareURL} onClose={() => setShowQRModal(false)} />
+        <QRCodeModal
+          url={shareURL}
+          isProtected={protection.enabled}
+          onClose={() => setShowQRModal(false)}
+        />
+      )}
+
+      {/* QR Scanner */}
+      {showScanner && <QRScannerModal onScan={handleScan} onClose={() => setShowScanner(false)} />}
+
+      {scannedEncrypted && (
+        <PassphrasePrompt
+          title="Dữ liệu được bảo vệ"
+          description="Nhập mật khẩu đã đặt trên thiết bị gửi để mở bản tính."
+          onSubmit={handleDecryptScan}
+          onCancel={() => setScannedEncrypted(null)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalculatorSnapshot } from '@/lib/snapshotTypes';
+import { getNamedSaves } from '@/lib/snapshotStorage';
+import {
+  decodeShareHashContent,
+  decryptHashContent,
+  getShareHashContent,
+  isEncryptedHashContent,
+} from '@/lib/snapshotCodec';
+import SnapshotDiffModal, { CompareEntry } from './SnapshotDiffModal';
+import PassphrasePrompt from './PassphrasePrompt';
+
+interface SnapshotCompareSectionProps {
+  currentSnapshot: CalculatorSnapshot;
+}
+
+interface CompareOption extends CompareEntry {
+  id: string;
+}
+
+const CURRENT_OPTION_ID = 'current';
+
+/**
+ * Chọn hai bản (hiện tại, bản lưu hoặc link chia sẻ) để so sánh
+ */
+export default function SnapshotCompareSection({ currentSnapshot }: SnapshotCompareSectionProps) {
+  const [options, setOptions] = useState<CompareOption[]>([]);
+  const [linkOptions, setLinkOptions] = useState<CompareOption[]>([]);
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState(CURRENT_OPTION_ID);
+  const [linkInput, setLinkInput] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [encryptedLink, setEncryptedLink] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<{ before: CompareEntry; after: CompareEntry } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getNamedSaves().then((saves) => {
+      if (cancelled) return;
+      setOptions([
+        { id: CURRENT_OPTION_ID, label: 'Đang tính hiện tại', snapshot: currentSnapshot },
+        ...saves.map((save) => ({ id: save.id, label: save.label, snapshot: save.snapshot })),
+      ]);
+      setBeforeId((prev) => prev || saves[0]?.id || '');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSnapshot]);
+
+  const allOptions = [...options, ...linkOptions];
+
+  const addLinkOption = (hashContent: string) => {
+    const decoded = decodeShareHashContent(hashContent);
+    if (!decoded) {
+      setLinkError('Link không chứa dữ liệu tính toán hợp lệ');
+      return;
+    }
+
+    const option: CompareOption = {
+      id: `link-${linkOptions.length + 1}`,
+      label: `Link ${linkOptions.length + 1}`,
+      snapshot: decoded.snapshot,
+    };
+    setLinkOptions((prev) => [...prev, option]);
+    setBeforeId(option.id);
+    setLinkInput('');
+    setLinkError(null);
+  };
+
+  const handleAddLink = () => {
+    const hashContent = getShareHashContent(linkInput);
+    if (!hashContent) return;
+
+    // Protected links need the passphrase first
+    if (isEncryptedHashContent(hashContent)) {
+      setEncryptedLink(hashContent);
+      return;
+    }
+    addLinkOption(hashContent);
+  };
+
+  const handleDecryptLink = async (passphrase: string) => {
+    if (!encryptedLink) return;
+    const hashContent = await decryptHashContent(encryptedLink, passphrase);
+    setEncryptedLink(null);
+    addLinkOption(hashContent);
+  };
+
+  const handleCompare = () => {
+    const before = allOptions.find((o) => o.id === beforeId);
+    const after = allOptions.find((o) => o.id === afterId);
+    if (before && after) {
+      setComparing({ before, after });
+    }
+  };
+
+  const renderSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="" disabled>
+          Chọn bản tính
+        </option>
+        {allOptions.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="p-4 space-y-4">
+      <p className="text-sm text-gray-600">
+        So sánh hai bản lưu hoặc link chia sẻ, ví dụ &quot;Offer A&quot; và &quot;Offer B&quot;,
+        &quot;Thực tế 2025&quot; và &quot;Kế hoạch 2026&quot;.
+      </p>
+
+      {renderSelect('compare-before', beforeId, setBeforeId, 'Bản A')}
+      {renderSelect('compare-after', afterId, setAfterId, 'Bản B')}
+
+      {/* Add share link */}
+      <div>
+        <label htmlFor="compare-link" className="block text-sm font-medium text-gray-700 mb-1">
+          Thêm link chia sẻ
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="compare-link"
+            type="text"
+            value={linkInput}
+            onChange={(e) => setLinkInput(e.target.value)}
+            placeholder="Dán link..."
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleAddLink}
+            disabled={!linkInput.trim()}
+            className="px-4 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            Thêm
+          </button>
+        </div>
+        {linkError && <p className="text-xs text-red-600 mt-1">{linkError}</p>}
+      </div>
+
+      <button
+        onClick={handleCompare}
+        disabled={!beforeId || !afterId || beforeId === afterId}
+        className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
+      >
+        So sánh
+      </button>
+      {beforeId && beforeId === afterId && (
+        <p className="text-xs text-gray-500">Chọn hai bản khác nhau để so sánh.</p>
+      )}
+
+      {encryptedLink && (
+        <PassphrasePrompt
+          title="Liên kết được bảo vệ"
+          description="Nhập mật khẩu của link để đưa vào so sánh."
+          onSubmit={handleDecryptLink}
+          onCancel={() => setEncryptedLink(null)}
+        />
+      )}
+
+      {comparing && (
+        <SnapshotDiffModal
+          before={comparing.before}
+          after={comparing.after}
+          onClose={() => setComparing(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CalculatorSnapshot } from '@/lib/snapshotTypes';
+import {
+  DIFF_SECTION_LABELS,
+  SnapshotMetricDiff,
+  buildSnapshotDiffPdfReport,
+  buildSnapshotDiffSheets,
+  diffSnapshots,
+  formatDiffDelta,
+  formatDiffValue,
+} from '@/lib/snapshotDiff';
+import { exportToExcel, exportToPDF } from '@/lib/exportUtils';
+import { formatNumber } from '@/lib/taxCalculator';
+
+export interface CompareEntry {
+  label: string;
+  snapshot: CalculatorSnapshot;
+}
+
+interface SnapshotDiffModalProps {
+  before: CompareEntry;
+  after: CompareEntry;
+  onClose: () => void;
+}
+
+function deltaClass(metric: SnapshotMetricDiff): string {
+  if (Math.round(metric.delta) === 0) return 'text-gray-500';
+  const improved = metric.better === 'higher' ? metric.delta > 0 : metric.delta < 0;
+  return improved ? 'text-green-700' : 'text-red-700';
+}
+
+/**
+ * So sánh hai bản lưu/link: đầu vào thay đổi và chênh lệch kết quả
+ */
+export default function SnapshotDiffModal({ before, after, onClose }: SnapshotDiffModalProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const diff = useMemo(
+    () => diffSnapshots(before.snapshot, after.snapshot, { before: before.label, after: after.label }),
+    [before, after]
+  );
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const handleExportPDF = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await exportToPDF(buildSnapshotDiffPdfReport(diff), 'so-sanh-ban-luu.pdf');
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Không thể xuất PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportExcel = () => {
+    exportToExcel(buildSnapshotDiffSheets(diff), 'so-sanh-ban-luu.xlsx');
+  };
+
+  const renderMetricRows = (metrics: SnapshotMetricDiff[], withSection: boolean) =>
+    metrics.map((metric) => (
+      <tr key={`${metric.section}-${metric.label}`} className="border-t border-gray-100">
+        <td className="py-2 pr-2 text-gray-700">
+          {withSection && (
+            <span className="text-gray-500">{DIFF_SECTION_LABELS[metric.section]} › </span>
+          )}
+          {metric.label}
+        </td>
+        <td className="py-2 px-2 text-right tabular-nums">{formatNumber(Math.round(metric.before))}</td>
+        <td className="py-2 px-2 text-right tabular-nums">{formatNumber(Math.round(metric.after))}</td>
+        <td className={`py-2 pl-2 text-right tabular-nums font-medium ${deltaClass(metric)}`}>
+          {formatDiffDelta(metric.delta)}
+        </td>
+      </tr>
+    ));
+
+  const metricHeader = (
+    <thead>
+      <tr className="text-xs text-gray-500">
+        <th className="py-1 pr-2 text-left font-medium">Chỉ số</th>
+        <th className="py-1 px-2 text-right font-medium">{diff.beforeLabel}</th>
+        <th className="py-1 px-2 text-right font-medium">{diff.afterLabel}</th>
+        <th className="py-1 pl-2 text-right font-medium">Chênh lệch</th>
+      </tr>
+    </thead>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="snapshot-diff-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 pb-4 border-b">
+          <div className="min-w-0">
+            <h3 id="snapshot-diff-title" className="text-xl font-bold text-gray-800">
+              So sánh hai bản tính
+            </h3>
+            <p className="text-sm text-gray-500 truncate">
+              {diff.beforeLabel} → {diff.afterLabel}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+            title="Đóng"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Core salary result */}
+          <section>
+            <h4 className="font-medium text-gray-800 mb-2">Lương tháng (thông tin chung)</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                {metricHeader}
+                <tbody>{renderMetricRows(diff.core, false)}</tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Per-tab headline results */}
+          {diff.tabs.length > 0 && (
+            <section>
+              <h4 className="font-medium text-gray-800 mb-2">Kết quả theo từng công cụ</h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  {metricHeader}
+                  <tbody>{renderMetricRows(diff.tabs, true)}</tbody>
+                </table>
+              </div>
+            </section>
+          )}
+
+          {/* Changed inputs */}
+          <section>
+            <h4 className="font-medium text-gray-800 mb-2">
+              Dữ liệu đầu vào thay đổi ({diff.fields.length})
+            </h4>
+            {diff.fields.length === 0 ? (
+              <p className="text-sm text-gray-500">Hai bản có dữ liệu đầu vào giống nhau.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500">
+                      <th className="py-1 pr-2 text-left font-medium">Trường</th>
+                      <th className="py-1 px-2 text-right font-medium">{diff.beforeLabel}</th>
+                      <th className="py-1 pl-2 text-right font-medium">{diff.afterLabel}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.fields.map((field) => (
+                      <tr key={`${field.section}-${field.path}`} className="border-t border-gray-100">
+                        <td className="py-2 pr-2 text-gray-700">
+                          <span className="text-gray-500">{DIFF_SECTION_LABELS[field.section]} › </span>
+                          {field.label}
+                        </td>
+                        <td className="py-2 px-2 text-right text-gray-600">{formatDiffValue(field.before)}</td>
+                        <td className="py-2 pl-2 text-right font-medium text-gray-800">{formatDiffValue(field.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <p className="text-xs text-gray-500">
+            Kết quả được tính lại theo quy định hiện hành, có thể khác số liệu lúc lưu.
+          </p>
+        </div>
+
+        {/* Export */}
+        <div className="p-6 pt-4 border-t space-y-2">
+          {exportError && <p className="text-sm text-red-700">{exportError}</p>}
+          <div className="flex gap-3">
+            <button
+              onClick={handleExportPDF}
+              disabled={isExporting}
+              className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
+            >
+              {isExporting ? 'Đang xuất...' : 'Xuất PDF'}
+            </button>
+            <button
+              onClick={handleExportExcel}
+              className="flex-1 px-4 py-3 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+            >
+              Xuất Excel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,15 @@ export { default as SaveShareButton } from './SaveShareButton';
 export { default as SaveSharePanel } from './SaveSharePanel';
 export { default as ShareSection } from './ShareSection';
 export { default as QRCodeModal } from './QRCodeModal';
+export { default as QRScannerModal } from './QRScannerModal';
 export { default as NamedSavesSection } from './NamedSavesSection';
 export { default as SaveDialog } from './SaveDialog';
 export { default as ImportExportSection } from './ImportExportSection';
+export { default as MigrationNotice } from './MigrationNotice';
+export { default as PassphrasePrompt } from './PassphrasePrompt';
+export { default as PassphraseFields } from './PassphraseFields';
+export { default as SnapshotCompareSection } from './SnapshotCompareSection';
+export { default as SnapshotDiffModal } from './SnapshotDiffModal';
+export { default as EvidenceModal } from './EvidenceModal';
+export { default as SessionTimeline } from './SessionTimeline';
+export { default as SessionHistoryControls } from './SessionHistoryControls';
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import {
   SecuritiesTransaction,
   DividendEntry,
@@ -14,8 +14,16 @@ import {
   generateId,
   POPULAR_STOCKS,
   SECURITIES_TAX_RATES,
+  buildSecuritiesSheets,
 } from '@/lib/securitiesTaxCalculator';
+import { exportToExcel } from '@/lib/exportUtils';
 import { formatCurrency, formatNumber } from '@/lib/taxCalculator';
+import { SecuritiesTabState, DEFAULT_SECURITIES_STATE } from '@/lib/snapshotTypes';
+
+interface SecuritiesTaxCalculatorProps {
+  tabState?: SecuritiesTabState;
+  onTabStateChange?: (state: SecuritiesTabState) => void;
+}
 
 type TabType = 'transactions' | 'dividends' | 'bonds';
 
@@ -30,22 +38,26 @@ const BOND_TYPES: { value: BondType; label: string; taxRate: string }[] = [
   { value: 'corporate', label: 'Trái phiếu doanh nghiệp', taxRate: '5%' },
 ];
 
-export default function SecuritiesTaxCalculator() {
+export default function SecuritiesTaxCalculator({ tabState, onTabStateChange }: SecuritiesTaxCalculatorProps) {
   const [activeTab, setActiveTab] = useState<TabType>('transactions');
-  const [taxMethod, setTaxMethod] = useState<TaxMethod>('transaction');
-  const [taxYear, setTaxYear] = useState<2025 | 2026>(2026);
+  const [taxMethod, setTaxMethod] = useState<TaxMethod>(tabState?.taxMethod ?? DEFAULT_SECURITIES_STATE.taxMethod);
+  const [taxYear, setTaxYear] = useState<2025 | 2026>(tabState?.taxYear ?? DEFAULT_SECURITIES_STATE.taxYear);
 
   // Transactions state
-  const [transactions, setTransactions] = useState<SecuritiesTransaction[]>([]);
+  const [transactions, setTransactions] = useState<SecuritiesTransaction[]>(
+    tabState?.transactions ?? DEFAULT_SECURITIES_STATE.transactions
+  );
   const [showTransactionForm, setShowTransactionForm] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<SecuritiesTransaction | null>(null);
 
   // Dividends state
-  const [dividends, setDividends] = useState<DividendEntry[]>([]);
+  const [dividends, setDividends] = useState<DividendEntry[]>(
+    tabState?.dividends ?? DEFAULT_SECURITIES_STATE.dividends
+  );
   const [showDividendForm, setShowDividendForm] = useState(false);
 
   // Bonds state
-  const [bonds, setBonds] = useState<BondInterestEntry[]>([]);
+  const [bonds, setBonds] = useState<BondInterestEntry[]>(tabState?.bonds ?? DEFAULT_SECURITIES_STATE.bonds);
   const [showBondForm, setShowBondForm] = useState(false);
 
   // Form states
@@ -90,6 +102,11 @@ export default function SecuritiesTaxCalculator() {
 
   const result = useMemo(() => calculateSecuritiesTax(input), [transactions, dividends, bonds, taxMethod, taxYear]);
 
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({ taxMethod, taxYear, transactions, dividends, bonds });
+  }, [taxMethod, taxYear, transactions, dividends, bonds, onTabStateChange]);
+
   // Compare unlisted tax methods
   const unlistedComparison = useMemo(
     () => compareUnlistedTaxMethods(transactions),
@@ -793,10 +810,18 @@ export default function SecuritiesTaxCalculator() {
       {/* Summary */}
       {(transactions.length > 0 || dividends.length > 0 || bonds.length > 0) && (
         <div className="card">
-          <h3 className="text-xl font-bold text-gray-800 mb-4 flex items-center gap-2">
-            <span className="text-2xl">📋</span>
-            Tổng kết thuế chứng khoán
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <span className="text-2xl">📋</span>
+              Tổng kết thuế chứng khoán
+            </h3>
+            <button
+              onClick={() => exportToExcel(buildSecuritiesSheets(result), `thue-chung-khoan-${taxYear}.xlsx`)}
+              className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
+            >
+              Xuất Excel
+            </button>
+          </div>
 
           <div className="grid gap-4">
             {/* Transaction Summary */}
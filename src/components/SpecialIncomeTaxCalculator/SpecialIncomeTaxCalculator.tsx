@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   calculateSpecialIncomeTax,
   getAllSpecialIncomeTypes,
@@ -9,6 +9,12 @@ import {
   type SpecialIncomeType,
 } from '@/lib/specialIncomeTaxCalculator';
 import { formatNumber } from '@/lib/taxCalculator';
+import { SpecialIncomeTabState, DEFAULT_SPECIAL_INCOME_STATE } from '@/lib/snapshotTypes';
+
+interface SpecialIncomeTaxCalculatorProps {
+  tabState?: SpecialIncomeTabState;
+  onTabStateChange?: (state: SpecialIncomeTabState) => void;
+}
 
 const TYPE_ICONS: Record<SpecialIncomeType, string> = {
   domain: '🌐',
@@ -16,9 +22,16 @@ const TYPE_ICONS: Record<SpecialIncomeType, string> = {
   license_plate: '🚗',
 };
 
-export default function SpecialIncomeTaxCalculator() {
-  const [incomeType, setIncomeType] = useState<SpecialIncomeType>('license_plate');
-  const [amount, setAmount] = useState<number>(0);
+export default function SpecialIncomeTaxCalculator({ tabState, onTabStateChange }: SpecialIncomeTaxCalculatorProps) {
+  const [incomeType, setIncomeType] = useState<SpecialIncomeType>(
+    tabState?.incomeType ?? DEFAULT_SPECIAL_INCOME_STATE.incomeType
+  );
+  const [amount, setAmount] = useState<number>(tabState?.amount ?? DEFAULT_SPECIAL_INCOME_STATE.amount);
+
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({ incomeType, amount });
+  }, [incomeType, amount, onTabStateChange]);
 
   const result = useMemo(
     () => calculateSpecialIncomeTax({ incomeType, amount }),
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import {
   DEADLINE_CONFIGS,
   calculateDeadlineManager,
@@ -16,16 +16,54 @@ import {
   type TaxDeadline,
   type DeadlineStatus,
 } from '@/lib/taxDeadlineManager';
+import {
+  TaxDeadlineTabState,
+  CustomDeadlineSnapshot,
+  DEFAULT_TAX_DEADLINE_STATE,
+} from '@/lib/snapshotTypes';
 
 const CURRENT_YEAR = new Date().getFullYear();
 const AVAILABLE_YEARS = [CURRENT_YEAR - 1, CURRENT_YEAR, CURRENT_YEAR + 1];
 
-export default function TaxDeadlineManager() {
-  const [year, setYear] = useState(CURRENT_YEAR);
-  const [includePersonal, setIncludePersonal] = useState(true);
-  const [includeBusiness, setIncludeBusiness] = useState(false);
-  const [customDeadlines, setCustomDeadlines] = useState<TaxDeadline[]>([]);
-  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
+interface TaxDeadlineManagerProps {
+  tabState?: TaxDeadlineTabState;
+  onTabStateChange?: (state: TaxDeadlineTabState) => void;
+}
+
+// Chuyển hạn tự thêm giữa dạng lưu (ngày ISO) và dạng tính toán (Date)
+function fromDeadlineSnapshot(deadline: CustomDeadlineSnapshot): TaxDeadline {
+  return { ...deadline, dueDate: new Date(deadline.dueDate), isCustom: true };
+}
+
+function toDeadlineSnapshot(deadline: TaxDeadline): CustomDeadlineSnapshot {
+  return {
+    id: deadline.id,
+    type: deadline.type,
+    name: deadline.name,
+    description: deadline.description,
+    dueDate: deadline.dueDate.toISOString(),
+    reminderDays: deadline.reminderDays,
+    status: deadline.status,
+    priority: deadline.priority,
+    amount: deadline.amount,
+    notes: deadline.notes,
+  };
+}
+
+export default function TaxDeadlineManager({ tabState, onTabStateChange }: TaxDeadlineManagerProps) {
+  const [year, setYear] = useState(tabState?.year ?? DEFAULT_TAX_DEADLINE_STATE.year);
+  const [includePersonal, setIncludePersonal] = useState(
+    tabState?.includePersonal ?? DEFAULT_TAX_DEADLINE_STATE.includePersonal
+  );
+  const [includeBusiness, setIncludeBusiness] = useState(
+    tabState?.includeBusiness ?? DEFAULT_TAX_DEADLINE_STATE.includeBusiness
+  );
+  const [customDeadlines, setCustomDeadlines] = useState<TaxDeadline[]>(
+    () => (tabState?.customDeadlines ?? []).map(fromDeadlineSnapshot)
+  );
+  const [completedIds, setCompletedIds] = useState<Set<string>>(
+    () => new Set(tabState?.completedIds ?? [])
+  );
   const [showAddForm, setShowAddForm] = useState(false);
   const [filterStatus, setFilterStatus] = useState<DeadlineStatus | 'all'>('all');
   const [activeTab, setActiveTab] = useState<'overview' | 'list' | 'calendar'>('overview');
@@ -40,6 +78,17 @@ export default function TaxDeadlineManager() {
     notes: '',
   });
 
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({
+      year,
+      includePersonal,
+      includeBusiness,
+      customDeadlines: customDeadlines.map(toDeadlineSnapshot),
+      completedIds: Array.from(completedIds),
+    });
+  }, [year, includePersonal, includeBusiness, customDeadlines, completedIds, onTabStateChange]);
+
   // Calculate deadlines with completed status
   const result = useMemo(() => {
     const deadlinesWithCompleted = customDeadlines.map(d => ({
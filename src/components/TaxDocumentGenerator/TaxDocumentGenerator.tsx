@@ -1,24 +1,36 @@
 'use client';
 
-import { useState, useMemo, useCallback, useRef } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import {
   generateTaxDocument,
   getDocumentTypes,
   getDeductionAmounts,
   formatValue,
+  buildDocumentPdfReport,
   DocumentType,
   DocumentInput,
   DocumentOutput,
   PersonalInfo,
 } from '@/lib/taxDocumentGenerator';
 import { formatNumber, parseCurrency, TaxResult, SharedTaxState } from '@/lib/taxCalculator';
+import { DependentInfo } from '@/lib/annualSettlementCalculator';
+import {
+  buildDependentRegistration,
+  exportDependentRegistrationXml,
+  validateDependentRegistration,
+  XmlValidationIssue,
+} from '@/lib/dependentRegistrationXmlExporter';
 import { parseCurrencyInput } from '@/utils/inputSanitizers';
 import Tooltip from '@/components/ui/Tooltip';
-import { exportToPDF, exportToCSV, formatTaxDataForExport, TaxExportData } from '@/lib/exportUtils';
+import { exportToPDF, exportToCSV, formatTaxDataForExport, TaxExportData, downloadBlob } from '@/lib/exportUtils';
+import { TaxDocumentTabState, DEFAULT_TAX_DOCUMENT_STATE } from '@/lib/snapshotTypes';
 
 interface TaxDocumentGeneratorProps {
   sharedState?: SharedTaxState;
   taxResult?: TaxResult;
+  dependents?: DependentInfo[]; // Danh sách người phụ thuộc từ hồ sơ người nộp thuế
+  tabState?: TaxDocumentTabState;
+  onTabStateChange?: (state: TaxDocumentTabState) => void;
 }
 
 // Info icon component for tooltips
@@ -30,34 +42,52 @@ function InfoIcon() {
   );
 }
 
-export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGeneratorProps) {
+export function TaxDocumentGenerator({
+  sharedState,
+  taxResult,
+  dependents = [],
+  tabState,
+  onTabStateChange,
+}: TaxDocumentGeneratorProps) {
   const printRef = useRef<HTMLDivElement>(null);
 
   // Document type selection
-  const [documentType, setDocumentType] = useState<DocumentType>('personal_report');
-  const [year, setYear] = useState<number>(new Date().getFullYear());
-  const [month, setMonth] = useState<number | undefined>(undefined);
+  const [documentType, setDocumentType] = useState<DocumentType>(
+    tabState?.documentType ?? DEFAULT_TAX_DOCUMENT_STATE.documentType
+  );
+  const [year, setYear] = useState<number>(tabState?.year ?? DEFAULT_TAX_DOCUMENT_STATE.year);
+  const [month, setMonth] = useState<number | undefined>(tabState?.month ?? undefined);
 
   // Personal info
-  const [personalInfo, setPersonalInfo] = useState<PersonalInfo>({
-    fullName: '',
-    taxCode: '',
-    idNumber: '',
-    address: '',
-    phone: '',
-    email: '',
-    employer: '',
-    employerTaxCode: '',
-  });
+  const [personalInfo, setPersonalInfo] = useState<PersonalInfo>(
+    tabState?.personalInfo ?? DEFAULT_TAX_DOCUMENT_STATE.personalInfo
+  );
 
   // Tax paid override
-  const [taxPaidInput, setTaxPaidInput] = useState<string>('0');
-  const [notes, setNotes] = useState<string>('');
+  const [taxPaidInput, setTaxPaidInput] = useState<string>(
+    (tabState?.taxPaid ?? DEFAULT_TAX_DOCUMENT_STATE.taxPaid).toString()
+  );
+  const [notes, setNotes] = useState<string>(tabState?.notes ?? DEFAULT_TAX_DOCUMENT_STATE.notes);
+
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({
+      documentType,
+      year,
+      month: month ?? null,
+      personalInfo,
+      taxPaid: parseCurrency(taxPaidInput),
+      notes,
+    });
+  }, [documentType, year, month, personalInfo, taxPaidInput, notes, onTabStateChange]);
 
   // Generated document
   const [generatedDoc, setGeneratedDoc] = useState<DocumentOutput | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<XmlValidationIssue[]>([]);
+
+  const isDependentRegistration = documentType === 'dependent_registration';
 
   // Available document types
   const documentTypes = useMemo(() => getDocumentTypes(), []);
@@ -71,7 +101,7 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
   // Build document input from shared state and tax result
   const buildDocumentInput = useCallback((): DocumentInput => {
     const grossIncome = sharedState?.grossIncome || 0;
-    const dependents = sharedState?.dependents || 0;
+    const dependentCount = sharedState?.dependents || 0;
     const insuranceDetail = taxResult?.insuranceDetail;
 
     const totalInsurance = insuranceDetail
@@ -102,8 +132,8 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
       },
       deductionInfo: {
         personalDeduction: deductions.personalDeduction,
-        dependentDeduction: dependents * deductions.dependentDeduction,
-        numberOfDependents: dependents,
+        dependentDeduction: dependentCount * deductions.dependentDeduction,
+        numberOfDependents: dependentCount,
         otherDeductions: sharedState?.otherDeductions || 0,
       },
       taxInfo: {
@@ -113,17 +143,27 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
         taxOwed: taxAmount - taxPaid,
         effectiveRate: grossIncome > 0 ? (taxAmount / grossIncome) * 100 : 0,
       },
+      dependents: documentType === 'dependent_registration' ? dependents : undefined,
       notes: notes || undefined,
     };
-  }, [sharedState, taxResult, documentType, year, month, personalInfo, taxPaidInput, notes, deductions]);
+  }, [sharedState, taxResult, dependents, documentType, year, month, personalInfo, taxPaidInput, notes, deductions]);
 
   // Generate document
   const handleGenerate = useCallback(() => {
+    // Bản đăng ký người phụ thuộc phải đủ giấy tờ, đúng tháng bắt đầu trước khi tạo
+    if (documentType === 'dependent_registration') {
+      const errors = validateDependentRegistration(
+        buildDependentRegistration({ year, personalInfo, dependents })
+      );
+      setValidationErrors(errors);
+      if (errors.length > 0) return;
+    }
+
     const input = buildDocumentInput();
     const doc = generateTaxDocument(input);
     setGeneratedDoc(doc);
     setShowPreview(true);
-  }, [buildDocumentInput]);
+  }, [buildDocumentInput, documentType, year, personalInfo, dependents]);
 
   // Print document
   const handlePrint = useCallback(() => {
@@ -184,14 +224,16 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
 
   // Export to PDF
   const handleExportPDF = useCallback(async () => {
-    if (!printRef.current) return;
+    if (!generatedDoc) return;
 
     setIsExporting(true);
     try {
-      await exportToPDF(printRef.current, {
-        filename: `bao-cao-thue-${year}${month ? `-thang-${month}` : ''}.pdf`,
-        title: generatedDoc?.title || 'Báo cáo thuế TNCN',
-      });
+      await exportToPDF(
+        buildDocumentPdfReport(generatedDoc),
+        generatedDoc.type === 'dependent_registration'
+          ? `dang-ky-npt-${year}.pdf`
+          : `bao-cao-thue-${year}${month ? `-thang-${month}` : ''}.pdf`
+      );
     } catch (error) {
       console.error('PDF export error:', error);
       alert('Không thể xuất PDF. Vui lòng thử lại.');
@@ -200,6 +242,17 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
     }
   }, [year, month, generatedDoc]);
 
+  // Export XML 07/ĐK-NPT-TNCN để nhập vào HTKK
+  const handleExportXML = useCallback(() => {
+    const output = exportDependentRegistrationXml({ year, personalInfo, dependents });
+    if (!output.ok) {
+      setValidationErrors(output.errors);
+      setShowPreview(false);
+      return;
+    }
+    downloadBlob(new Blob([output.xml], { type: 'application/xml;charset=utf-8' }), output.fileName);
+  }, [year, personalInfo, dependents]);
+
   // Export to CSV/Excel
   const handleExportExcel = useCallback(() => {
     const grossIncome = sharedState?.grossIncome || 0;
@@ -326,28 +379,50 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
               </div>
             )}
 
+            {/* Dependents (for dependent registration) */}
+            {isDependentRegistration && (
+              <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                <p className="font-medium text-gray-700 mb-1">
+                  Người phụ thuộc đăng ký: {dependents.length}
+                </p>
+                {dependents.length > 0 ? (
+                  <ul className="text-gray-600 space-y-0.5">
+                    {dependents.map((dep) => (
+                      <li key={dep.id}>
+                        • {dep.name || '(Chưa có tên)'} - {dep.taxCode ? `MST ${dep.taxCode}` : 'chưa có MST'}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-gray-500">Thêm người phụ thuộc trong hồ sơ người nộp thuế</p>
+                )}
+              </div>
+            )}
+
             {/* Tax Paid */}
-            <div>
-              <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2">
-                <span>Thuế đã tạm nộp/khấu trừ (VNĐ)</span>
-                <Tooltip content="Số tiền thuế đã được khấu trừ tại nguồn hoặc đã tạm nộp">
-                  <span className="text-gray-500 hover:text-gray-700 cursor-help">
-                    <InfoIcon />
-                  </span>
-                </Tooltip>
-              </label>
-              <input
-                type="text"
-                inputMode="numeric"
-                value={formatNumber(parseCurrency(taxPaidInput))}
-                onChange={(e) => {
-                  const parsed = parseCurrencyInput(e.target.value, { max: 100_000_000_000 });
-                  setTaxPaidInput(parsed.value.toString());
-                }}
-                className="input-field"
-                placeholder="0"
-              />
-            </div>
+            {!isDependentRegistration && (
+              <div>
+                <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2">
+                  <span>Thuế đã tạm nộp/khấu trừ (VNĐ)</span>
+                  <Tooltip content="Số tiền thuế đã được khấu trừ tại nguồn hoặc đã tạm nộp">
+                    <span className="text-gray-500 hover:text-gray-700 cursor-help">
+                      <InfoIcon />
+                    </span>
+                  </Tooltip>
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formatNumber(parseCurrency(taxPaidInput))}
+                  onChange={(e) => {
+                    const parsed = parseCurrencyInput(e.target.value, { max: 100_000_000_000 });
+                    setTaxPaidInput(parsed.value.toString());
+                  }}
+                  className="input-field"
+                  placeholder="0"
+                />
+              </div>
+            )}
 
             {/* Notes */}
             <div>
@@ -419,6 +494,19 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
                 placeholder="Tên công ty"
               />
             </div>
+
+            {isDependentRegistration && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">MST đơn vị trả thu nhập</label>
+                <input
+                  type="text"
+                  value={personalInfo.employerTaxCode ?? ''}
+                  onChange={(e) => handlePersonalInfoChange('employerTaxCode', e.target.value)}
+                  className="input-field"
+                  placeholder="Bỏ trống nếu đăng ký tại cơ quan thuế"
+                />
+              </div>
+            )}
           </div>
         </div>
       ) : (
@@ -449,6 +537,20 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
                 <span className="hidden sm:inline">Excel</span>
               </button>
 
+              {/* Export XML (HTKK) */}
+              {generatedDoc?.type === 'dependent_registration' && (
+                <button
+                  onClick={handleExportXML}
+                  className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                  title="Xuất file XML nhập vào HTKK"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  <span className="hidden sm:inline">XML</span>
+                </button>
+              )}
+
               {/* Export PDF */}
               <button
                 onClick={handleExportPDF}
@@ -522,6 +624,34 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
                         ))}
                       </tbody>
                     </table>
+                    {section.table && (
+                      section.table.rows.length > 0 ? (
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="bg-gray-50">
+                                {section.table.columns.map((column) => (
+                                  <th key={column} className="py-2 px-2 text-left font-semibold text-gray-700">
+                                    {column}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {section.table.rows.map((cells, index) => (
+                                <tr key={index} className="border-b border-gray-100">
+                                  {cells.map((cell, cellIndex) => (
+                                    <td key={cellIndex} className="py-2 px-2 text-gray-700">{cell}</td>
+                                  ))}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      ) : (
+                        <p className="text-sm text-gray-500 italic">Không có</p>
+                      )
+                    )}
                   </div>
                 ))}
 
@@ -538,12 +668,14 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
                     <p className="text-xs text-gray-500">(Ký, ghi rõ họ tên)</p>
                     <div className="h-20"></div>
                   </div>
-                  <div className="text-center w-2/5">
-                    <p className="text-sm text-gray-600">Ngày ... tháng ... năm ...</p>
-                    <p className="font-semibold mt-1">Xác nhận của cơ quan thuế</p>
-                    <p className="text-xs text-gray-500">(Ký, đóng dấu)</p>
-                    <div className="h-20"></div>
-                  </div>
+                  {generatedDoc.type !== 'dependent_registration' && (
+                    <div className="text-center w-2/5">
+                      <p className="text-sm text-gray-600">Ngày ... tháng ... năm ...</p>
+                      <p className="font-semibold mt-1">Xác nhận của cơ quan thuế</p>
+                      <p className="text-xs text-gray-500">(Ký, đóng dấu)</p>
+                      <div className="h-20"></div>
+                    </div>
+                  )}
                 </div>
               </>
             )}
@@ -551,6 +683,18 @@ export function TaxDocumentGenerator({ sharedState, taxResult }: TaxDocumentGene
         </div>
       )}
 
+      {/* Validation errors */}
+      {!showPreview && isDependentRegistration && validationErrors.length > 0 && (
+        <div className="mt-6 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-sm font-medium text-red-800 mb-1">Chưa thể tạo bản đăng ký:</div>
+          <ul className="text-sm text-red-700 space-y-1">
+            {validationErrors.map((error) => (
+              <li key={`${error.path}-${error.message}`}>• {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Generate Button */}
       {!showPreview && (
         <div className="mt-6 flex justify-center">
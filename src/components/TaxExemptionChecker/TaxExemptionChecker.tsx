@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   ExemptionCategory,
   ExemptionRule,
@@ -14,23 +14,39 @@ import {
   formatCurrency,
   EXEMPTION_RULES,
 } from '@/lib/taxExemptionChecker';
+import { ExemptionCheckerTabState, DEFAULT_EXEMPTION_CHECKER_STATE } from '@/lib/snapshotTypes';
 
-type ViewMode = 'list' | 'check';
+type ViewMode = ExemptionCheckerTabState['viewMode'];
 
-export function TaxExemptionChecker() {
-  const [viewMode, setViewMode] = useState<ViewMode>('list');
+interface TaxExemptionCheckerProps {
+  tabState?: ExemptionCheckerTabState;
+  onTabStateChange?: (state: ExemptionCheckerTabState) => void;
+}
+
+export function TaxExemptionChecker({ tabState, onTabStateChange }: TaxExemptionCheckerProps) {
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    tabState?.viewMode ?? DEFAULT_EXEMPTION_CHECKER_STATE.viewMode
+  );
   const [searchTerm, setSearchTerm] = useState('');
   const [showNew2026Only, setShowNew2026Only] = useState(false);
-  const [selectedCategory, setSelectedCategory] =
-    useState<ExemptionCategory | null>(null);
-  const [incomeAmount, setIncomeAmount] = useState(0);
-  const [conditionAnswers, setConditionAnswers] = useState<
-    Record<string, boolean>
-  >({});
+  const [selectedCategory, setSelectedCategory] = useState<ExemptionCategory | null>(
+    tabState?.selectedCategory ?? DEFAULT_EXEMPTION_CHECKER_STATE.selectedCategory
+  );
+  const [incomeAmount, setIncomeAmount] = useState(
+    tabState?.incomeAmount ?? DEFAULT_EXEMPTION_CHECKER_STATE.incomeAmount
+  );
+  const [conditionAnswers, setConditionAnswers] = useState<Record<string, boolean>>(
+    tabState?.conditionAnswers ?? DEFAULT_EXEMPTION_CHECKER_STATE.conditionAnswers
+  );
   const [checkResult, setCheckResult] = useState<ExemptionCheckResult | null>(
     null
   );
 
+  // Sync with parent state for save/share
+  useEffect(() => {
+    onTabStateChange?.({ viewMode, selectedCategory, incomeAmount, conditionAnswers });
+  }, [viewMode, selectedCategory, incomeAmount, conditionAnswers, onTabStateChange]);
+
   // Filtered exemptions
   const filteredExemptions = useMemo(() => {
     let rules = EXEMPTION_RULES;
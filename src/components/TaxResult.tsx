@@ -8,6 +8,7 @@ import {
   AllowancesBreakdown,
 } from "@/lib/taxCalculator";
 import { PDFExportButton } from "@/components/PDFExport";
+import { CalculationExplain } from "@/components/CalculationExplain";
 
 const IncomeWaterfallChart = lazy(
   () => import("@/components/IncomeWaterfallChart"),
@@ -191,6 +192,9 @@ function TaxResultComponent({
         colorClass="bg-primary-500"
       />
 
+      {/* Diễn giải từng bước kèm căn cứ pháp lý */}
+      {result.trace && <CalculationExplain trace={result.trace} />}
+
       {/* Biểu đồ dòng tiền (Waterfall Chart) */}
       <Suspense
         fallback={
@@ -0,0 +1,32 @@
+'use client';
+
+interface DependentMonthNoticeProps {
+  year: number;
+  month: number;
+  declared: number;
+  deductible: number;
+  onOpenProfile: () => void;
+}
+
+/**
+ * Cho biết tháng này chỉ một phần người phụ thuộc đã khai được giảm trừ
+ * (chưa đến tháng đăng ký, đã hết hạn, đủ 18 tuổi hoặc vượt mức thu nhập)
+ */
+export default function DependentMonthNotice({
+  year,
+  month,
+  declared,
+  deductible,
+  onOpenProfile,
+}: DependentMonthNoticeProps) {
+  if (deductible === declared) return null;
+
+  return (
+    <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900" role="status">
+      Tháng {month}/{year} có {deductible}/{declared} người phụ thuộc được giảm trừ theo danh sách đăng ký.
+      <button onClick={onOpenProfile} className="ml-2 font-medium underline hover:no-underline">
+        Xem danh sách
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { formatNumber } from '@/lib/taxCalculator';
+import { DependentInfo } from '@/lib/annualSettlementCalculator';
+import {
+  DEPENDENT_TYPE_LABELS,
+  DependentType,
+  checkDependentRegistry,
+  getEligibleMonths,
+} from '@/lib/dependentRegistry';
+import { MAX_MONTHLY_INCOME, parseCurrencyInput } from '@/utils/inputSanitizers';
+
+interface DependentRegistryEditorProps {
+  dependents: DependentInfo[];
+  onChange: (dependents: DependentInfo[]) => void;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const DEPENDENT_TYPES = Object.keys(DEPENDENT_TYPE_LABELS) as DependentType[];
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const SELECT_CLASS = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm';
+
+// Năm đăng ký chọn quanh năm hiện tại; bỏ trống = năm đang tính thuế
+const YEAR_RANGE = 5;
+
+function parseYear(value: string): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * Danh sách người phụ thuộc: loại, giấy tờ, thu nhập, thời gian đăng ký
+ * kèm cảnh báo điều kiện giảm trừ của năm hiện tại
+ */
+export default function DependentRegistryEditor({ dependents, onChange }: DependentRegistryEditorProps) {
+  const year = new Date().getFullYear();
+  const years = Array.from({ length: YEAR_RANGE * 2 + 1 }, (_, i) => year - YEAR_RANGE + i);
+  const issues = checkDependentRegistry(dependents, year);
+
+  const updateDependent = (id: string, updates: Partial<DependentInfo>) => {
+    onChange(dependents.map(d => (d.id === id ? { ...d, ...updates } : d)));
+  };
+
+  const handleIncomeChange = (id: string, value: string) => {
+    if (!value.trim()) {
+      updateDependent(id, { averageMonthlyIncome: undefined });
+      return;
+    }
+    const parsed = parseCurrencyInput(value, { max: MAX_MONTHLY_INCOME });
+    updateDependent(id, { averageMonthlyIncome: parsed.value });
+  };
+
+  if (dependents.length === 0) {
+    return <p className="text-sm text-gray-500">Chưa có người phụ thuộc</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {dependents.map(dependent => {
+        const dependentIssues = issues.filter(issue => issue.dependentId === dependent.id);
+        const eligibleMonths = getEligibleMonths(dependent, year).length;
+
+        return (
+          <li key={dependent.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={dependent.name}
+                onChange={(e) => updateDependent(dependent.id, { name: e.target.value })}
+                aria-label="Tên người phụ thuộc"
+                className={`${INPUT_CLASS} flex-1 min-w-[160px]`}
+              />
+              <select
+                value={dependent.type ?? ''}
+                onChange={(e) =>
+                  updateDependent(dependent.id, { type: (e.target.value || undefined) as DependentType | undefined })
+                }
+                aria-label="Loại người phụ thuộc"
+                className={SELECT_CLASS}
+              >
+                <option value="">Chọn loại</option>
+                {DEPENDENT_TYPES.map(type => (
+                  <option key={type} value={type}>{DEPENDENT_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange(dependents.filter(d => d.id !== dependent.id))}
+                aria-label={`Xóa ${dependent.name}`}
+                className="min-w-[36px] min-h-[36px] flex items-center justify-center text-gray-400 hover:text-red-600 rounded transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <label className="block text-xs text-gray-600">
+                Ngày sinh
+                <input
+                  type="date"
+                  value={dependent.dateOfBirth ?? ''}
+                  onChange={(e) => updateDependent(dependent.id, { dateOfBirth: e.target.value || undefined })}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="block text-xs text-gray-600">
+                MST
+                <input
+                  type="text"
+                  value={dependent.taxCode ?? ''}
+                  onChange={(e) => updateDependent(dependent.id, { taxCode: e.target.value || undefined })}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="block text-xs text-gray-600">
+                CCCD/định danh
+                <input
+                  type="text"
+                  value={dependent.idNumber ?? ''}
+                  onChange={(e) => updateDependent(dependent.id, { idNumber: e.target.value || undefined })}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              {dependent.type !== 'child_under_18' && (
+                <label className="block text-xs text-gray-600">
+                  Thu nhập bình quân/tháng
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={dependent.averageMonthlyIncome !== undefined ? formatNumber(dependent.averageMonthlyIncome) : ''}
+                    onChange={(e) => handleIncomeChange(dependent.id, e.target.value)}
+                    placeholder="0"
+                    className={INPUT_CLASS}
+                  />
+                </label>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+              <span>Đăng ký từ tháng</span>
+              <select
+                value={dependent.fromMonth}
+                onChange={(e) => updateDependent(dependent.id, { fromMonth: Number(e.target.value) })}
+                aria-label="Tháng bắt đầu"
+                className={SELECT_CLASS}
+              >
+                {MONTHS.map(month => <option key={month} value={month}>{month}</option>)}
+              </select>
+              <select
+                value={dependent.fromYear ?? ''}
+                onChange={(e) => updateDependent(dependent.id, { fromYear: parseYear(e.target.value) })}
+                aria-label="Năm bắt đầu"
+                className={SELECT_CLASS}
+              >
+                <option value="">hằng năm</option>
+                {years.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <span>đến tháng</span>
+              <select
+                value={dependent.toMonth}
+                onChange={(e) => updateDependent(dependent.id, { toMonth: Number(e.target.value) })}
+                aria-label="Tháng kết thúc"
+                className={SELECT_CLASS}
+              >
+                {MONTHS.map(month => <option key={month} value={month}>{month}</option>)}
+              </select>
+              <select
+                value={dependent.toYear ?? ''}
+                onChange={(e) => updateDependent(dependent.id, { toYear: parseYear(e.target.value) })}
+                aria-label="Năm kết thúc"
+                className={SELECT_CLASS}
+              >
+                <option value="">hằng năm</option>
+                {years.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <span className="ml-auto text-gray-500">
+                Năm {year}: giảm trừ {eligibleMonths} tháng
+              </span>
+            </div>
+
+            {dependentIssues.length > 0 && (
+              <ul className="space-y-0.5 text-xs">
+                {dependentIssues.map((issue, index) => (
+                  <li
+                    key={index}
+                    className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}
+                  >
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
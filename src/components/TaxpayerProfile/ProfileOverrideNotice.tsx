@@ -0,0 +1,67 @@
+'use client';
+
+import { TaxpayerProfile, ProfileLinkedTab } from '@/lib/snapshotTypes';
+import {
+  PROFILE_FIELD_LABELS,
+  getProfileFields,
+  getProfileOverrides,
+} from '@/lib/taxpayerProfile';
+
+interface ProfileOverrideNoticeProps {
+  tab: ProfileLinkedTab;
+  profile: TaxpayerProfile;
+  onResetOverrides: () => void;
+  onOpenProfile: () => void;
+}
+
+/**
+ * Dòng cho biết tab đang lấy trường nào theo hồ sơ và trường nào đang ghi đè
+ */
+export default function ProfileOverrideNotice({
+  tab,
+  profile,
+  onResetOverrides,
+  onOpenProfile,
+}: ProfileOverrideNoticeProps) {
+  const overrides = getProfileOverrides(profile, tab);
+  const following = getProfileFields(tab).filter(field => !overrides.includes(field));
+  const labels = (fields: typeof overrides) => fields.map(field => PROFILE_FIELD_LABELS[field]).join(', ');
+
+  if (overrides.length === 0) {
+    return (
+      <div className="mb-4 flex flex-wrap items-center gap-x-2 text-xs text-gray-500">
+        <span>Lấy theo hồ sơ người nộp thuế: {labels(following)}</span>
+        <button onClick={onOpenProfile} className="font-medium text-blue-700 hover:underline">
+          Sửa hồ sơ
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900" role="status">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <span className="font-medium">Tab này đang dùng giá trị riêng:</span> {labels(overrides)}
+          {following.length > 0 && (
+            <span className="text-blue-700"> · Theo hồ sơ: {labels(following)}</span>
+          )}
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={onResetOverrides}
+            className="px-2 py-1 min-h-[36px] text-xs font-medium text-blue-700 hover:bg-blue-100 rounded transition-colors"
+          >
+            Dùng lại hồ sơ
+          </button>
+          <button
+            onClick={onOpenProfile}
+            className="px-2 py-1 min-h-[36px] text-xs font-medium text-blue-700 hover:bg-blue-100 rounded transition-colors"
+          >
+            Mở hồ sơ
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect } from 'react';
+import { SharedTaxState, InsuranceOptions, formatNumber } from '@/lib/taxCalculator';
+import { DependentInfo, generateDependentId } from '@/lib/annualSettlementCalculator';
+import type { PersonalInfo } from '@/lib/taxDocumentGenerator';
+import { TaxpayerProfile } from '@/lib/snapshotTypes';
+import { DIFF_SECTION_LABELS } from '@/lib/snapshotDiff';
+import {
+  PROFILE_FIELD_LABELS,
+  clearProfileOverride,
+  listProfileOverrides,
+} from '@/lib/taxpayerProfile';
+import { MAX_MONTHLY_INCOME, parseCurrencyInput } from '@/utils/inputSanitizers';
+import RegionSelector from '@/components/RegionSelector';
+import DependentRegistryEditor from './DependentRegistryEditor';
+
+interface TaxpayerProfileModalProps {
+  profile: TaxpayerProfile;
+  sharedState: SharedTaxState;
+  onProfileChange: (profile: TaxpayerProfile) => void;
+  onSharedStateChange: (updates: Partial<SharedTaxState>) => void;
+  onClose: () => void;
+}
+
+const PERSONAL_INFO_FIELDS: { key: keyof PersonalInfo; label: string; placeholder?: string }[] = [
+  { key: 'fullName', label: 'Họ và tên', placeholder: 'Nguyễn Văn A' },
+  { key: 'taxCode', label: 'Mã số thuế' },
+  { key: 'idNumber', label: 'Số CCCD/Hộ chiếu' },
+  { key: 'phone', label: 'Điện thoại' },
+  { key: 'email', label: 'Email' },
+  { key: 'address', label: 'Địa chỉ' },
+  { key: 'employer', label: 'Tổ chức chi trả thu nhập' },
+  { key: 'employerTaxCode', label: 'MST tổ chức chi trả' },
+];
+
+const INSURANCE_ITEMS: { key: keyof InsuranceOptions; label: string }[] = [
+  { key: 'bhxh', label: 'BHXH (8%)' },
+  { key: 'bhyt', label: 'BHYT (1,5%)' },
+  { key: 'bhtn', label: 'BHTN (1%)' },
+];
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Hồ sơ người nộp thuế: thông tin cá nhân, người phụ thuộc, cư trú, vùng lương, bảo hiểm
+ * Mọi tab lấy các giá trị này, trừ các trường tab đang ghi đè (liệt kê cuối hồ sơ)
+ */
+export default function TaxpayerProfileModal({
+  profile,
+  sharedState,
+  onProfileChange,
+  onSharedStateChange,
+  onClose,
+}: TaxpayerProfileModalProps) {
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const overrides = listProfileOverrides(profile);
+
+  const updatePersonalInfo = (key: keyof PersonalInfo, value: string) => {
+    onProfileChange({ ...profile, personalInfo: { ...profile.personalInfo, [key]: value } });
+  };
+
+  // Danh sách người phụ thuộc quyết định số người phụ thuộc ở mọi tab
+  const updateDependents = (dependents: DependentInfo[]) => {
+    onProfileChange({ ...profile, dependents });
+    onSharedStateChange({ dependents: dependents.length });
+  };
+
+  const addDependent = () => {
+    updateDependents([
+      ...profile.dependents,
+      {
+        id: generateDependentId(),
+        name: `Người phụ thuộc ${profile.dependents.length + 1}`,
+        fromMonth: 1,
+        toMonth: 12,
+      },
+    ]);
+  };
+
+  const updateInsuranceOption = (key: keyof InsuranceOptions, checked: boolean) => {
+    const insuranceOptions = { ...sharedState.insuranceOptions, [key]: checked };
+    onSharedStateChange({
+      insuranceOptions,
+      hasInsurance: insuranceOptions.bhxh || insuranceOptions.bhyt || insuranceOptions.bhtn,
+    });
+  };
+
+  const handleInsuranceBaseChange = (value: string) => {
+    if (!value.trim()) {
+      onSharedStateChange({ declaredSalary: undefined });
+      return;
+    }
+    const parsed = parseCurrencyInput(value, { max: MAX_MONTHLY_INCOME });
+    onSharedStateChange({ declaredSalary: parsed.value || undefined });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-[60] flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="taxpayer-profile-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-2">
+          <h3 id="taxpayer-profile-title" className="text-xl font-bold text-gray-800">
+            Hồ sơ người nộp thuế
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 transition-colors min-w-[44px] min-h-[44px] flex items-center justify-center"
+            title="Đóng"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-5">
+          Nhập một lần, mọi tab (quyết toán, tờ khai, khấu trừ tại nguồn...) dùng chung. Tab nào sửa riêng
+          sẽ được ghi nhận là ghi đè và giữ giá trị của tab đó.
+        </p>
+
+        <div className="space-y-6">
+          {/* Personal info */}
+          <section>
+            <h4 className="text-sm font-semibold text-gray-800 mb-3">Thông tin cá nhân</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {PERSONAL_INFO_FIELDS.map(({ key, label, placeholder }) => (
+                <div key={key}>
+                  <label htmlFor={`profile-${key}`} className="block text-xs font-medium text-gray-600 mb-1">
+                    {label}
+                  </label>
+                  <input
+                    id={`profile-${key}`}
+                    type="text"
+                    value={profile.personalInfo[key] ?? ''}
+                    onChange={(e) => updatePersonalInfo(key, e.target.value)}
+                    placeholder={placeholder}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Residency */}
+          <section>
+            <h4 className="text-sm font-semibold text-gray-800 mb-3">Tình trạng cư trú</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {(['resident', 'non_resident'] as const).map(residency => (
+                <button
+                  key={residency}
+                  onClick={() => onProfileChange({ ...profile, residency })}
+                  className={`py-2 px-4 rounded-lg text-sm font-medium transition-colors ${
+                    profile.residency === residency
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {residency === 'resident' ? 'Cư trú' : 'Không cư trú'}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {profile.residency === 'resident'
+                ? 'Có mặt ≥ 183 ngày/năm hoặc có nơi ở thường xuyên tại VN'
+                : 'Có mặt < 183 ngày/năm và không có nơi ở thường xuyên'}
+            </p>
+          </section>
+
+          {/* Region */}
+          <section>
+            <RegionSelector
+              value={sharedState.region}
+              onChange={(region) => onSharedStateChange({ region })}
+            />
+          </section>
+
+          {/* Insurance */}
+          <section>
+            <h4 className="text-sm font-semibold text-gray-800 mb-3">Bảo hiểm bắt buộc</h4>
+            <div className="flex flex-wrap gap-4 mb-3">
+              {INSURANCE_ITEMS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sharedState.insuranceOptions[key]}
+                    onChange={(e) => updateInsuranceOption(key, e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <label htmlFor="profile-insurance-base" className="block text-xs font-medium text-gray-600 mb-1">
+              Mức lương đóng bảo hiểm
+            </label>
+            <input
+              id="profile-insurance-base"
+              type="text"
+              inputMode="numeric"
+              value={sharedState.declaredSalary !== undefined ? formatNumber(sharedState.declaredSalary) : ''}
+              onChange={(e) => handleInsuranceBaseChange(e.target.value)}
+              placeholder={`Theo lương gross (${formatNumber(sharedState.grossIncome)})`}
+              className={INPUT_CLASS}
+            />
+          </section>
+
+          {/* Dependents */}
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold text-gray-800">
+                Người phụ thuộc ({profile.dependents.length})
+              </h4>
+              <button
+                onClick={addDependent}
+                className="px-3 py-1.5 min-h-[36px] text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                + Thêm người phụ thuộc
+              </button>
+            </div>
+
+            {sharedState.dependents !== profile.dependents.length && (
+              <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+                Tab tính thuế đang khai {sharedState.dependents} người phụ thuộc, danh sách có{' '}
+                {profile.dependents.length} người.{' '}
+                {sharedState.dependents > profile.dependents.length
+                  ? 'Những người chưa có trong danh sách được tính giảm trừ cả năm.'
+                  : 'Chỉ những người đầu danh sách được tính.'}
+                <button
+                  onClick={() => onSharedStateChange({ dependents: profile.dependents.length })}
+                  className="ml-2 font-medium underline hover:no-underline"
+                >
+                  Dùng theo danh sách
+                </button>
+              </div>
+            )}
+
+            <DependentRegistryEditor dependents={profile.dependents} onChange={updateDependents} />
+          </section>
+
+          {/* Per-tab overrides */}
+          <section>
+            <h4 className="text-sm font-semibold text-gray-800 mb-1">Tab đang dùng giá trị riêng</h4>
+            {overrides.length === 0 ? (
+              <p className="text-sm text-gray-500">Mọi tab đang lấy theo hồ sơ</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {overrides.map(({ tab, field }) => (
+                  <li key={`${tab}-${field}`} className="flex items-center justify-between gap-2 py-2 text-sm">
+                    <span className="text-gray-700">
+                      {DIFF_SECTION_LABELS[tab]} › {PROFILE_FIELD_LABELS[field]}
+                    </span>
+                    <button
+                      onClick={() => onProfileChange(clearProfileOverride(profile, tab, field))}
+                      className="px-2 py-1 min-h-[36px] text-xs font-medium text-blue-700 hover:bg-blue-100 rounded transition-colors"
+                    >
+                      Dùng theo hồ sơ
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <div className="pt-5">
+          <button
+            onClick={onClose}
+            className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Xong
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { default as TaxpayerProfileModal } from './TaxpayerProfileModal';
+export { default as ProfileOverrideNotice } from './ProfileOverrideNotice';
+export { default as DependentMonthNotice } from './DependentMonthNotice';
+export { default as DependentRegistryEditor } from './DependentRegistryEditor';
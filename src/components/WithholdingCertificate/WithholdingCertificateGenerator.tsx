@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  buildCertificatesPdfReport,
+  getCertificatesFileName,
+  getStoredCertificatePayer,
+  getStoredCertificateSeries,
+  issueCertificates,
+  saveCertificatePayer,
+  saveCertificateSeries,
+  serializeCertificatesJson,
+  serializeCertificatesXml,
+  type CertificatePayer,
+  type WithholdingCertificate,
+  type WithholdingRecord,
+  type XmlValidationIssue,
+} from '@/lib/withholdingCertificate';
+import { formatNumber } from '@/lib/taxCalculator';
+import { downloadBlob, exportToPDF } from '@/lib/exportUtils';
+
+interface WithholdingCertificateGeneratorProps {
+  records: WithholdingRecord[];
+  year: number;
+}
+
+const EMPTY_PAYER: CertificatePayer = { name: '', taxCode: '', address: '', phone: '' };
+
+const INPUT_CLASS = 'w-full rounded-lg border border-gray-300 bg-white text-gray-900 px-3 py-2 text-sm';
+
+/**
+ * Cấp chứng từ khấu trừ thuế TNCN cho các khoản chi trả (đánh số theo dãy của
+ * tổ chức trong năm) và xuất PDF để in, XML/JSON để nhập vào phần mềm khác
+ */
+export default function WithholdingCertificateGenerator({ records, year }: WithholdingCertificateGeneratorProps) {
+  const [payer, setPayer] = useState<CertificatePayer>(EMPTY_PAYER);
+  const [errors, setErrors] = useState<XmlValidationIssue[]>([]);
+  const [certificates, setCertificates] = useState<WithholdingCertificate[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Tổ chức trả thu nhập nhập lần trước
+  useEffect(() => {
+    const stored = getStoredCertificatePayer();
+    if (stored) setPayer({ ...EMPTY_PAYER, ...stored });
+  }, []);
+
+  // Khoản chi trả thay đổi thì chứng từ đã cấp không còn khớp
+  useEffect(() => {
+    setCertificates([]);
+  }, [records]);
+
+  const updatePayer = (field: keyof CertificatePayer, value: string) => {
+    setPayer(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleIssue = () => {
+    const result = issueCertificates({
+      payer,
+      records,
+      series: getStoredCertificateSeries(payer.taxCode, year),
+    });
+    if (!result.ok) {
+      setErrors(result.errors);
+      setCertificates([]);
+      return;
+    }
+    saveCertificateSeries(result.series);
+    saveCertificatePayer(payer);
+    setErrors([]);
+    setCertificates(result.certificates);
+  };
+
+  const handleExportPDF = async () => {
+    setIsExporting(true);
+    try {
+      await exportToPDF(buildCertificatesPdfReport(certificates), getCertificatesFileName(certificates, 'pdf'));
+    } catch (error) {
+      console.error('PDF export error:', error);
+      alert('Không thể xuất PDF. Vui lòng thử lại.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportXML = () => {
+    downloadBlob(
+      new Blob([serializeCertificatesXml(certificates)], { type: 'application/xml;charset=utf-8' }),
+      getCertificatesFileName(certificates, 'xml')
+    );
+  };
+
+  const handleExportJSON = () => {
+    downloadBlob(
+      new Blob([serializeCertificatesJson(certificates)], { type: 'application/json;charset=utf-8' }),
+      getCertificatesFileName(certificates, 'json')
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Chứng từ khấu trừ thuế TNCN</h3>
+        <p className="text-sm text-gray-500">
+          {records.length} khoản chi trả năm {year}. Số chứng từ nối tiếp theo dãy của tổ chức trong năm;
+          cấp lại cho cùng khoản chi trả giữ nguyên số cũ.
+        </p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        <label className="block text-sm text-gray-700">
+          Tên tổ chức trả thu nhập
+          <input
+            type="text"
+            value={payer.name}
+            onChange={(e) => updatePayer('name', e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          Mã số thuế
+          <input
+            type="text"
+            value={payer.taxCode}
+            onChange={(e) => updatePayer('taxCode', e.target.value)}
+            className={INPUT_CLASS}
+            placeholder="0123456789"
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          Địa chỉ
+          <input
+            type="text"
+            value={payer.address ?? ''}
+            onChange={(e) => updatePayer('address', e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          Điện thoại
+          <input
+            type="text"
+            value={payer.phone ?? ''}
+            onChange={(e) => updatePayer('phone', e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className="text-sm font-medium text-red-800 mb-1">Chưa thể cấp chứng từ:</div>
+          <ul className="text-sm text-red-700 space-y-1 max-h-48 overflow-y-auto">
+            {errors.map((error) => (
+              <li key={`${error.path}-${error.message}`}>• {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        onClick={handleIssue}
+        disabled={records.length === 0}
+        className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Cấp chứng từ
+      </button>
+
+      {certificates.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm text-gray-700">
+              Đã cấp {certificates.length} chứng từ ký hiệu {certificates[0].symbol}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExportPDF}
+                disabled={isExporting}
+                className="px-3 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isExporting ? 'Đang xuất...' : 'PDF'}
+              </button>
+              <button
+                onClick={handleExportXML}
+                className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                XML
+              </button>
+              <button
+                onClick={handleExportJSON}
+                className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                JSON
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 pr-3">Số</th>
+                  <th className="text-left py-2 pr-3">Người nhận</th>
+                  <th className="text-left py-2 pr-3">Kỳ</th>
+                  <th className="text-right py-2 pr-3">TN chịu thuế</th>
+                  <th className="text-right py-2">Thuế đã khấu trừ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {certificates.map((certificate) => (
+                  <tr key={certificate.number} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 font-mono">{certificate.number}</td>
+                    <td className="py-2 pr-3 text-gray-700">{certificate.payee.fullName}</td>
+                    <td className="py-2 pr-3 text-gray-700">
+                      {certificate.fromMonth === certificate.toMonth
+                        ? `${certificate.fromMonth}/${certificate.year}`
+                        : `${certificate.fromMonth}-${certificate.toMonth}/${certificate.year}`}
+                    </td>
+                    <td className="py-2 pr-3 text-right">{formatNumber(certificate.taxableIncome)}</td>
+                    <td className="py-2 text-right text-red-600">{formatNumber(certificate.taxWithheld)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
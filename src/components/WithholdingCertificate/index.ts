@@ -0,0 +1,2 @@
+export { default as WithholdingCertificateGenerator } from './WithholdingCertificateGenerator';
+export { default } from './WithholdingCertificateGenerator';
@@ -3,6 +3,9 @@
 import { useState, useMemo } from 'react';
 import {
   calculateWithholdingTax,
+  checkCommitmentEligibility,
+  generateCommitmentDocument,
+  buildCommitmentPdfReport,
   calculateForeignContractorTax,
   compareWHTByResidency,
   getWHTRate,
@@ -19,12 +22,22 @@ import {
   type ForeignContractorTaxResult,
 } from '@/lib/withholdingTaxCalculator';
 import { WithholdingTaxTabState, DEFAULT_WITHHOLDING_TAX_STATE } from '@/lib/snapshotTypes';
+import type { DependentInfo } from '@/lib/annualSettlementCalculator';
+import type { PersonalInfo } from '@/lib/taxDocumentGenerator';
+import { exportToPDF } from '@/lib/exportUtils';
+import type { CertificatePayee, WithholdingRecord } from '@/lib/withholdingCertificate';
+import { WithholdingCertificateGenerator } from '@/components/WithholdingCertificate';
 
 interface WithholdingTaxProps {
   tabState: WithholdingTaxTabState;
   onTabStateChange: (state: WithholdingTaxTabState) => void;
+  // Từ hồ sơ người nộp thuế - dùng cho cam kết 08/CK-TNCN
+  personalInfo?: PersonalInfo;
+  dependents?: DependentInfo[];
 }
 
+const EMPTY_PERSONAL_INFO: PersonalInfo = { fullName: '' };
+
 type CalculatorMode = 'individual' | 'contractor';
 
 const CONTRACTOR_TYPE_LABELS: Record<ForeignContractorType, string> = {
@@ -36,9 +49,15 @@ const CONTRACTOR_TYPE_LABELS: Record<ForeignContractorType, string> = {
   insurance: 'Bảo hiểm',
 };
 
-export function WithholdingTax({ tabState, onTabStateChange }: WithholdingTaxProps) {
+export function WithholdingTax({
+  tabState,
+  onTabStateChange,
+  personalInfo = EMPTY_PERSONAL_INFO,
+  dependents = [],
+}: WithholdingTaxProps) {
   // Calculator mode
   const [mode, setMode] = useState<CalculatorMode>('individual');
+  const [isExporting, setIsExporting] = useState(false);
 
   // Update single field
   const updateField = <K extends keyof WithholdingTaxTabState>(
@@ -61,6 +80,67 @@ export function WithholdingTax({ tabState, onTabStateChange }: WithholdingTaxPro
     });
   }, [tabState.paymentAmount, tabState.incomeType, tabState.residencyStatus, tabState.isFamilyMember]);
 
+  // Cam kết 08/CK-TNCN: chỉ xét cho lương không HĐLĐ/HĐLĐ dưới 3 tháng của cá nhân cư trú
+  const showCommitment = tabState.incomeType === 'salary_without_contract' && tabState.residencyStatus === 'resident';
+  const commitmentYear = new Date().getFullYear();
+
+  const commitment = useMemo(() => {
+    if (!showCommitment) return null;
+    return checkCommitmentEligibility({
+      year: commitmentYear,
+      incomeType: tabState.incomeType,
+      residencyStatus: tabState.residencyStatus,
+      projectedAnnualIncome: tabState.projectedAnnualIncome,
+      hasOtherIncome: tabState.hasOtherIncome,
+      dependents,
+      hasTaxCode: !!personalInfo.taxCode?.trim(),
+    });
+  }, [showCommitment, commitmentYear, tabState.incomeType, tabState.residencyStatus,
+    tabState.projectedAnnualIncome, tabState.hasOtherIncome, dependents, personalInfo.taxCode]);
+
+  const commitmentDocument = useMemo(() => {
+    if (!commitment?.eligible) return null;
+    return generateCommitmentDocument(commitment, personalInfo);
+  }, [commitment, personalInfo]);
+
+  const handleExportCommitment = async () => {
+    if (!commitmentDocument) return;
+    setIsExporting(true);
+    try {
+      await exportToPDF(buildCommitmentPdfReport(commitmentDocument), `cam-ket-08-ck-tncn-${commitmentDocument.year}.pdf`);
+    } catch (error) {
+      console.error('PDF export error:', error);
+      alert('Không thể xuất PDF. Vui lòng thử lại.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Chứng từ khấu trừ: người nhận mặc định lấy từ hồ sơ, sửa được khi chi trả cho người khác
+  const [payee, setPayee] = useState<Pick<CertificatePayee, 'fullName' | 'taxCode' | 'idNumber'>>({
+    fullName: personalInfo.fullName,
+    taxCode: personalInfo.taxCode ?? '',
+    idNumber: personalInfo.idNumber ?? '',
+  });
+
+  const certificateRecords = useMemo((): WithholdingRecord[] => {
+    if (whtResult.withholdingAmount <= 0) return [];
+    const now = new Date();
+    return [{
+      payee: {
+        ...payee,
+        address: personalInfo.address,
+        residency: tabState.residencyStatus,
+      },
+      incomeType: tabState.incomeType,
+      year: now.getFullYear(),
+      fromMonth: now.getMonth() + 1,
+      toMonth: now.getMonth() + 1,
+      taxableIncome: whtResult.paymentAmount,
+      taxWithheld: whtResult.withholdingAmount,
+    }];
+  }, [whtResult, payee, personalInfo.address, tabState.residencyStatus, tabState.incomeType]);
+
   // Comparison result
   const comparisonResult = useMemo(() => {
     if (!tabState.showComparison) return null;
@@ -288,6 +368,14 @@ export function WithholdingTax({ tabState, onTabStateChange }: WithholdingTaxPro
                 </span>
               </div>
 
+              {/* Commitment note */}
+              {commitment?.eligible && whtResult.withholdingAmount > 0 && (
+                <div className="p-3 bg-green-50 rounded-lg text-sm text-green-700">
+                  Đủ điều kiện cam kết 08/CK-TNCN: nộp bản cam kết cho nơi chi trả để tạm thời chưa bị khấu trừ{' '}
+                  {formatCurrency(whtResult.withholdingAmount)}.
+                </div>
+              )}
+
               {/* Legal Note */}
               <div className="mt-4 p-3 bg-gray-50 rounded-lg">
                 <p className="text-xs text-gray-500">
@@ -297,6 +385,163 @@ export function WithholdingTax({ tabState, onTabStateChange }: WithholdingTaxPro
             </div>
           </div>
 
+          {/* Commitment 08/CK-TNCN */}
+          {commitment && (
+            <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                Cam kết thu nhập thấp (08/CK-TNCN)
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Cá nhân chỉ có thu nhập này và tổng thu nhập cả năm chưa đến mức chịu thuế được làm cam kết để nơi chi trả chưa khấu trừ 10%.
+              </p>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tổng thu nhập ước tính năm {commitment.year} (VND)
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={commitment.projectedAnnualIncome === 0 ? '' : commitment.projectedAnnualIncome.toLocaleString('vi-VN')}
+                    onChange={(e) => {
+                      const value = e.target.value.replace(/\D/g, '');
+                      updateField('projectedAnnualIncome', value ? parseInt(value, 10) : 0);
+                    }}
+                    placeholder="Nhập tổng thu nhập cả năm..."
+                    className="w-full rounded-lg border border-gray-300 bg-white text-gray-900 px-3 py-2"
+                  />
+                </div>
+
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="hasOtherIncome"
+                    checked={tabState.hasOtherIncome}
+                    onChange={(e) => updateField('hasOtherIncome', e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300"
+                  />
+                  <label htmlFor="hasOtherIncome" className="text-sm text-gray-700">
+                    Có thu nhập khác trong năm (lương nơi khác, kinh doanh...)
+                  </label>
+                </div>
+
+                {/* Deductions */}
+                <div className="space-y-2 text-sm">
+                  <div className="flex items-center justify-between py-1 border-b border-gray-100">
+                    <span className="text-gray-600">Giảm trừ bản thân (12 tháng):</span>
+                    <span className="font-medium text-gray-900">{formatCurrency(commitment.totalPersonalDeduction)}</span>
+                  </div>
+                  <div className="flex items-center justify-between py-1 border-b border-gray-100">
+                    <span className="text-gray-600">
+                      Giảm trừ người phụ thuộc ({commitment.months.reduce((sum, m) => sum + m.dependentCount, 0)} tháng-người):
+                    </span>
+                    <span className="font-medium text-gray-900">{formatCurrency(commitment.totalDependentDeduction)}</span>
+                  </div>
+                  <div className="flex items-center justify-between py-1">
+                    <span className="font-medium text-gray-700">Mức thu nhập tối đa được cam kết:</span>
+                    <span className="font-semibold text-blue-600">{formatCurrency(commitment.incomeLimit)}</span>
+                  </div>
+                </div>
+
+                {commitment.eligible ? (
+                  <div className="p-3 bg-green-50 rounded-lg text-sm text-green-700">
+                    ✓ Đủ điều kiện cam kết - còn {formatCurrency(commitment.headroom)} trước khi đến mức phải nộp thuế.
+                  </div>
+                ) : (
+                  <div className="p-3 bg-amber-50 rounded-lg">
+                    <p className="text-sm font-medium text-amber-800 mb-1">Chưa đủ điều kiện cam kết:</p>
+                    <ul className="text-sm text-amber-700 space-y-1">
+                      {commitment.reasons.map((reason) => (
+                        <li key={reason}>• {reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Prefilled document */}
+                {commitmentDocument && (
+                  <div className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between gap-2 mb-3">
+                      <div>
+                        <p className="font-semibold text-gray-900">{commitmentDocument.title}</p>
+                        <p className="text-xs text-gray-500">Mẫu {commitmentDocument.formCode}</p>
+                      </div>
+                      <button
+                        onClick={handleExportCommitment}
+                        disabled={isExporting}
+                        className="px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isExporting ? 'Đang xuất...' : 'Xuất PDF'}
+                      </button>
+                    </div>
+                    {commitmentDocument.sections.map((section) => (
+                      <div key={section.id} className="mb-3">
+                        <p className="text-sm font-medium text-gray-700 mb-1">{section.title}</p>
+                        <dl className="text-sm space-y-0.5">
+                          {section.rows.map((row) => (
+                            <div key={row.label} className={`flex justify-between gap-2 ${row.indent ? 'pl-4' : ''}`}>
+                              <dt className="text-gray-600">{row.label}</dt>
+                              <dd className={row.highlight ? 'font-semibold text-gray-900' : 'text-gray-900'}>
+                                {typeof row.value === 'number' ? formatCurrency(row.value) : row.value}
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      </div>
+                    ))}
+                    <p className="text-sm text-gray-700 italic">{commitmentDocument.statement}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Withholding certificate */}
+          {certificateRecords.length > 0 && (
+            <>
+              <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Người nhận thu nhập</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                  Thông tin ghi trên chứng từ khấu trừ cho khoản chi trả tháng này.
+                </p>
+                <div className="grid sm:grid-cols-3 gap-3">
+                  <label className="block text-sm text-gray-700">
+                    Họ và tên
+                    <input
+                      type="text"
+                      value={payee.fullName}
+                      onChange={(e) => setPayee({ ...payee, fullName: e.target.value })}
+                      className="w-full rounded-lg border border-gray-300 bg-white text-gray-900 px-3 py-2 text-sm"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    Mã số thuế
+                    <input
+                      type="text"
+                      value={payee.taxCode ?? ''}
+                      onChange={(e) => setPayee({ ...payee, taxCode: e.target.value })}
+                      className="w-full rounded-lg border border-gray-300 bg-white text-gray-900 px-3 py-2 text-sm"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    CCCD/Hộ chiếu
+                    <input
+                      type="text"
+                      value={payee.idNumber ?? ''}
+                      onChange={(e) => setPayee({ ...payee, idNumber: e.target.value })}
+                      className="w-full rounded-lg border border-gray-300 bg-white text-gray-900 px-3 py-2 text-sm"
+                    />
+                  </label>
+                </div>
+              </div>
+              <WithholdingCertificateGenerator
+                records={certificateRecords}
+                year={certificateRecords[0].year}
+              />
+            </>
+          )}
+
           {/* Comparison Result */}
           {comparisonResult && (
             <div className="bg-white rounded-xl p-4 sm:p-6 shadow-sm border border-gray-200">
@@ -12,6 +12,8 @@ import {
 interface KeyboardShortcutsProps {
   onTabChange?: (tabIndex: number) => void;
   onSave?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
   onToggleDarkMode?: () => void;
   totalTabs?: number;
 }
@@ -23,6 +25,8 @@ interface KeyboardShortcutsProps {
 export function KeyboardShortcuts({
   onTabChange,
   onSave,
+  onUndo,
+  onRedo,
   onToggleDarkMode,
   totalTabs = 9,
 }: KeyboardShortcutsProps) {
@@ -70,6 +74,29 @@ export function KeyboardShortcuts({
       });
     }
 
+    if (onUndo) {
+      list.push({
+        key: 'z',
+        ctrl: true,
+        skipInInput: true, // Trong ô nhập, Ctrl+Z hoàn tác nội dung ô như bình thường
+        description: 'Hoàn tác thay đổi',
+        category: SHORTCUT_CATEGORIES.ACTIONS,
+        action: onUndo,
+      });
+    }
+
+    if (onRedo) {
+      list.push({
+        key: 'z',
+        ctrl: true,
+        shift: true,
+        skipInInput: true,
+        description: 'Làm lại thay đổi',
+        category: SHORTCUT_CATEGORIES.ACTIONS,
+        action: onRedo,
+      });
+    }
+
     if (onToggleDarkMode) {
       list.push({
         key: 'd',
@@ -82,7 +109,7 @@ export function KeyboardShortcuts({
     }
 
     return list;
-  }, [onTabChange, onSave, onToggleDarkMode, totalTabs]);
+  }, [onTabChange, onSave, onUndo, onRedo, onToggleDarkMode, totalTabs]);
 
   // Register keyboard shortcuts
   useKeyboardShortcuts(shortcuts);
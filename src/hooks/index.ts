@@ -8,3 +8,5 @@ export {
 } from './useKeyboardShortcuts';
 
 export { useScrollReveal } from './useScrollReveal';
+
+export { useSnapshotHistory, type UseSnapshotHistoryReturn } from './useSnapshotHistory';
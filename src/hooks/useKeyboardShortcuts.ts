@@ -11,6 +11,8 @@ export interface KeyboardShortcut {
   alt?: boolean;
   shift?: boolean;
   meta?: boolean;
+  // Leave the key to a focused input field (e.g. the field's own Ctrl+Z)
+  skipInInput?: boolean;
   description: string;
   category: string;
   action: () => void;
@@ -103,6 +105,9 @@ export function useKeyboardShortcuts(
           if (isInput && !shortcut.ctrl && !shortcut.alt && shortcut.key !== 'Escape') {
             continue;
           }
+          if (isInput && shortcut.skipInInput) {
+            continue;
+          }
 
           // Execute action
           if (preventDefault) {
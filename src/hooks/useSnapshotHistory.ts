@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CalculatorSnapshot } from '@/lib/snapshotTypes';
+import {
+  SnapshotHistory,
+  SnapshotHistoryEntry,
+  SnapshotHistoryMove,
+  createSnapshotHistory,
+  recordSnapshot,
+  undoSnapshot,
+  redoSnapshot,
+  moveToEntry,
+  canUndo,
+  canRedo,
+} from '@/lib/snapshotHistory';
+
+export interface UseSnapshotHistoryReturn {
+  entries: SnapshotHistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  restore: (entryId: number) => void;
+}
+
+// Chờ người dùng ngừng nhập rồi mới ghi, để mỗi lần sửa là một bước hoàn tác
+const RECORD_DELAY_MS = 800;
+
+/**
+ * Lịch sử hoàn tác/làm lại của toàn bộ trạng thái máy tính trong phiên
+ * onRestore nhận snapshot cần nạp lại (thường là handleLoadSnapshot của trang)
+ * enabled = false khi trạng thái đang được nạp từ link, để không ghi trạng thái dở dang
+ */
+export function useSnapshotHistory(
+  snapshot: CalculatorSnapshot,
+  onRestore: (snapshot: CalculatorSnapshot) => void,
+  enabled = true
+): UseSnapshotHistoryReturn {
+  const [history, setHistory] = useState<SnapshotHistory>(createSnapshotHistory);
+  const historyRef = useRef(history);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Dùng ref để phím tắt luôn thấy trạng thái mới nhất
+  const snapshotRef = useRef(snapshot);
+  snapshotRef.current = snapshot;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  const update = useCallback((next: SnapshotHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  // Ghi ngay thay đổi đang chờ (trước khi hoàn tác để không mất bước cuối)
+  const flush = useCallback((): SnapshotHistory => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const next = recordSnapshot(historyRef.current, snapshotRef.current);
+    if (next !== historyRef.current) update(next);
+    return next;
+  }, [update]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Trạng thái đầu tiên được ghi ngay làm mốc ban đầu
+    if (historyRef.current.entries.length === 0) {
+      flush();
+      return;
+    }
+
+    timerRef.current = setTimeout(flush, RECORD_DELAY_MS);
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [snapshot, enabled, flush]);
+
+  const apply = useCallback((move: SnapshotHistoryMove | null) => {
+    if (!move) return;
+    update(move.history);
+    onRestoreRef.current(move.snapshot);
+  }, [update]);
+
+  const undo = useCallback(() => {
+    if (enabled) apply(undoSnapshot(flush()));
+  }, [enabled, apply, flush]);
+
+  const redo = useCallback(() => {
+    if (enabled) apply(redoSnapshot(flush()));
+  }, [enabled, apply, flush]);
+
+  const restore = useCallback((entryId: number) => {
+    if (!enabled) return;
+    const current = flush();
+    apply(moveToEntry(current, current.entries.findIndex(entry => entry.id === entryId)));
+  }, [enabled, apply, flush]);
+
+  return {
+    entries: history.entries,
+    index: history.index,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+    undo,
+    redo,
+    restore,
+  };
+}
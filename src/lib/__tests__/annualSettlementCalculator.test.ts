@@ -0,0 +1,85 @@
+import { expect, test } from '@playwright/test';
+import {
+  calculateAnnualSettlement,
+  createPayerMonthlyIncome,
+  type AnnualSettlementInput,
+  type PayerIncome,
+} from '../annualSettlementCalculator';
+
+const options2026 = {
+  year: 2026,
+  dependents: [{ id: 'dep_1', name: 'Con', fromMonth: 1, toMonth: 12 }],
+  charitableContributions: 0,
+  voluntaryPension: 0,
+  insuranceOptions: { bhxh: true, bhyt: true, bhtn: true },
+  region: 1,
+} satisfies Omit<AnnualSettlementInput, 'monthlyIncome' | 'payers'>;
+
+const singlePayer2026: AnnualSettlementInput = {
+  ...options2026,
+  monthlyIncome: Array.from({ length: 12 }, (_, index) => ({
+    month: index + 1,
+    grossSalary: 30_000_000,
+    bonus: 0,
+    taxExempt: 0,
+    taxPaid: 700_000,
+  })),
+};
+
+test.describe('calculateAnnualSettlement', () => {
+  test('keeps the single-payer result of the baseline calculator', () => {
+    const result = calculateAnnualSettlement(singlePayer2026);
+
+    // 360M - 12 × (15,5M + 6,2M + 3,15M bảo hiểm) = 61,8M, taxed on the progressive brackets as before
+    expect(result.totalAssessableIncome).toBe(61_800_000);
+    expect(result.annualTaxDue).toBe(9_040_000);
+    expect(result.totalTaxPaid).toBe(8_400_000);
+    expect(result.difference).toBe(640_000);
+  });
+
+  test('leaves withheld casual income out of an authorised settlement', () => {
+    const employer: PayerIncome = {
+      id: 'employer',
+      name: 'Công ty TNHH Minh Phát',
+      contractType: 'labor_contract',
+      monthlyIncome: createPayerMonthlyIncome(1, 12, 30_000_000).map(m => ({ ...m, taxPaid: 700_000 })),
+      isCurrentEmployer: true,
+    };
+    const casual: PayerIncome = {
+      id: 'casual',
+      name: 'Công ty CP Sao Việt',
+      contractType: 'flat_10',
+      monthlyIncome: createPayerMonthlyIncome(3, 8, 5_000_000).map(m => ({ ...m, taxPaid: 500_000 })),
+    };
+    const employerOnly = calculateAnnualSettlement({ ...options2026, payers: [employer] });
+    const result = calculateAnnualSettlement({ ...options2026, payers: [employer, casual] });
+
+    expect(result.filing?.method).toBe('authorize');
+    expect(result.totalTaxableIncome).toBe(employerOnly.totalTaxableIncome);
+    expect(result.annualTaxDue).toBe(employerOnly.annualTaxDue);
+    expect(result.totalTaxPaid).toBe(8_400_000);
+    expect(result.payerBreakdown?.map(payer => payer.payerId)).toEqual(['employer']);
+    expect(result.payerBreakdown?.[0].allocatedTaxDue).toBe(result.annualTaxDue);
+  });
+
+  test('settles casual income with the rest when the taxpayer files alone', () => {
+    const casual: PayerIncome = {
+      id: 'casual',
+      name: 'Công ty CP Sao Việt',
+      contractType: 'flat_10',
+      monthlyIncome: createPayerMonthlyIncome(1, 12, 15_000_000).map(m => ({ ...m, taxPaid: 1_500_000 })),
+    };
+    const employer: PayerIncome = {
+      id: 'employer',
+      name: 'Công ty TNHH Minh Phát',
+      contractType: 'labor_contract',
+      monthlyIncome: createPayerMonthlyIncome(1, 12, 30_000_000),
+      isCurrentEmployer: true,
+    };
+    const result = calculateAnnualSettlement({ ...options2026, payers: [employer, casual] });
+
+    expect(result.filing?.method).toBe('self_file');
+    expect(result.totalTaxableIncome).toBe(12 * 45_000_000);
+    expect(result.payerBreakdown?.map(payer => payer.payerId)).toEqual(['employer', 'casual']);
+  });
+});
@@ -0,0 +1,117 @@
+import { expect, test } from '@playwright/test';
+import type { DependentInfo } from '../annualSettlementCalculator';
+import {
+  buildDependentRegistration,
+  exportDependentRegistrationXml,
+  type DependentRegistrationInput,
+} from '../dependentRegistrationXmlExporter';
+
+const child: DependentInfo = {
+  id: 'dep_1',
+  name: 'Lê Minh Khôi',
+  fromMonth: 3,
+  toMonth: 12,
+  type: 'child_under_18',
+  dateOfBirth: '2026-02-14',
+  idNumber: '079226001234',
+};
+
+const parent: DependentInfo = {
+  id: 'dep_2',
+  name: 'Trần Thị Lan',
+  fromMonth: 1,
+  toMonth: 6,
+  type: 'parent',
+  dateOfBirth: '1958-09-01',
+  taxCode: '8098765432',
+};
+
+function registrationInput(overrides: Partial<DependentRegistrationInput> = {}): DependentRegistrationInput {
+  return {
+    year: 2026,
+    personalInfo: {
+      fullName: 'Lê Văn Hùng',
+      taxCode: '8012345678',
+      address: '12 Nguyễn Huệ, Q.1 <Tòa A & B>',
+      employer: 'Công ty "Sao Mai" & Cộng sự',
+      employerTaxCode: '0312345678-001',
+    },
+    dependents: [child, parent],
+    signedAt: new Date(2026, 2, 5),
+    ...overrides,
+  };
+}
+
+test.describe('buildDependentRegistration', () => {
+  test('leaves the end month open for a dependent registered to the end of the year', () => {
+    const { header, bkNPT } = buildDependentRegistration(registrationInput());
+
+    expect(header).toMatchObject({ declarationType: 'C', amendment: 0 });
+    expect(bkNPT[0]).toMatchObject({ quanHe: 'Con', tuThang: { month: 3, year: 2026 }, denThang: undefined });
+    expect(bkNPT[1]).toMatchObject({ quanHe: 'Cha/mẹ', denThang: { month: 6, year: 2026 } });
+    expect(buildDependentRegistration(registrationInput({ amendment: 2 })).header.declarationType).toBe('B');
+  });
+});
+
+test.describe('exportDependentRegistrationXml', () => {
+  test('splits dependents by whether they have a tax code', () => {
+    const exported = exportDependentRegistrationXml(registrationInput());
+
+    expect(exported.ok).toBe(true);
+    if (!exported.ok) return;
+    expect(exported.fileName).toBe('8012345678_07DK-NPT-TNCN_2026.xml');
+
+    const withTaxCode = exported.xml.slice(exported.xml.indexOf('<NPTCoMST>'), exported.xml.indexOf('</NPTCoMST>'));
+    const withoutTaxCode = exported.xml.slice(exported.xml.indexOf('<NPTChuaCoMST>'), exported.xml.indexOf('</NPTChuaCoMST>'));
+    expect(withTaxCode).toContain('<hoTen>Trần Thị Lan</hoTen>');
+    expect(withTaxCode).toContain('<mstNPT>8098765432</mstNPT>');
+    expect(withTaxCode).toContain('<denThang>06/2026</denThang>');
+    expect(withoutTaxCode).toContain('<hoTen>Lê Minh Khôi</hoTen>');
+    expect(withoutTaxCode).toContain('<soGiayTo>079226001234</soGiayTo>');
+    expect(withoutTaxCode).toContain('<tuThang>03/2026</tuThang>');
+    expect(withoutTaxCode).toContain('<denThang/>');
+    expect(withoutTaxCode).not.toContain('<mstNPT');
+    expect(exported.xml).toContain('<ct06>0312345678001</ct06>');
+  });
+
+  test('escapes markup characters in user text', () => {
+    const exported = exportDependentRegistrationXml(registrationInput());
+
+    expect(exported.ok && exported.xml).toContain('<dchiNNT>12 Nguyễn Huệ, Q.1 &lt;Tòa A &amp; B&gt;</dchiNNT>');
+    expect(exported.ok && exported.xml).toContain('<ct05>Công ty &quot;Sao Mai&quot; &amp; Cộng sự</ct05>');
+  });
+
+  test('returns field errors instead of XML when required data is missing or malformed', () => {
+    const exported = exportDependentRegistrationXml(registrationInput({
+      personalInfo: { fullName: ' ', taxCode: '80123', employerTaxCode: '031234' },
+      dependents: [
+        { ...child, fromMonth: 1, idNumber: '0792260012340000000001' },
+        { ...parent, name: '', taxCode: undefined, dateOfBirth: undefined, fromMonth: 7 },
+      ],
+    }));
+
+    expect(exported.ok).toBe(false);
+    expect(!exported.ok && exported.errors).toEqual([
+      { path: 'nnt.tenNNT', message: 'Thiếu Họ và tên người nộp thuế [01]' },
+      { path: 'nnt.mst', message: 'Mã số thuế người nộp thuế [02] phải gồm 10 hoặc 13 chữ số' },
+      { path: 'noiDangKy.mstTCTN', message: 'MST tổ chức trả thu nhập [06] phải gồm 10 hoặc 13 chữ số' },
+      { path: 'bkNPT[0].giayTo', message: 'Số CCCD/giấy khai sinh dài quá 20 ký tự' },
+      {
+        path: 'bkNPT[0].tuThang',
+        message: 'Người phụ thuộc Lê Minh Khôi: tháng bắt đầu giảm trừ 01/2026 trước tháng sinh 02/2026',
+      },
+      { path: 'bkNPT[1].hoTen', message: 'Thiếu Họ tên người phụ thuộc' },
+      { path: 'bkNPT[1].giayTo', message: 'Người phụ thuộc #2: cần MST hoặc số CCCD/giấy khai sinh' },
+      { path: 'bkNPT[1].ngaySinh', message: 'Người phụ thuộc #2: thiếu ngày sinh' },
+      { path: 'bkNPT[1].denThang', message: 'Người phụ thuộc #2: tháng kết thúc trước tháng bắt đầu' },
+    ]);
+  });
+
+  test('requires at least one dependent', () => {
+    const exported = exportDependentRegistrationXml(registrationInput({ dependents: [] }));
+
+    expect(!exported.ok && exported.errors).toEqual([
+      { path: 'bkNPT', message: 'Chưa có người phụ thuộc để đăng ký' },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect, test } from '@playwright/test';
+import {
+  buildEmployerDeclaration,
+  createFlatRateEntry,
+  crossCheckEmployerDeclaration,
+  validateEmployerDeclaration,
+  type EmployerDeclaration,
+  type EmployerPayrollMonth,
+} from '../employerDeclaration';
+
+const payer = { name: 'Công ty TNHH Minh Phát', taxCode: '0312345678' };
+
+function payrollMonth(month: number): EmployerPayrollMonth {
+  return {
+    year: 2026,
+    month,
+    entries: [
+      {
+        employeeId: 'NV001',
+        fullName: 'Nguyễn Văn An',
+        taxCode: '8012345678',
+        residency: 'resident',
+        taxMethod: 'progressive',
+        taxableIncome: 40_000_000,
+        insurance: 4_200_000,
+        dependents: 1,
+        taxWithheld: 910_000,
+      },
+      createFlatRateEntry({ fullName: 'Trần Thị Bình', idNumber: '079123456789', residency: 'resident', amount: 5_000_000 }),
+      createFlatRateEntry({ fullName: 'John Smith', idNumber: 'C1234567', residency: 'non_resident', amount: 10_000_000 }),
+    ],
+  };
+}
+
+function buildAnnual(): EmployerDeclaration {
+  return buildEmployerDeclaration({
+    payer,
+    period: { kind: 'year', year: 2026 },
+    months: [payrollMonth(1), payrollMonth(2)],
+    signedAt: new Date(2027, 2, 15),
+  });
+}
+
+test.describe('crossCheckEmployerDeclaration', () => {
+  test('accepts a declaration whose indicators and rows match', () => {
+    const declaration = buildAnnual();
+
+    expect(declaration.progressiveRows[0].tntt).toBe(2 * (40_000_000 - 4_200_000 - 15_500_000 - 6_200_000));
+    expect(declaration.indicators.ct36).toBe(2 * (910_000 + 500_000 + 2_000_000));
+    expect(crossCheckEmployerDeclaration(declaration)).toEqual([]);
+    expect(validateEmployerDeclaration(declaration)).toEqual([]);
+  });
+
+  test('accepts a monthly 05/KK-TNCN built from the same payroll', () => {
+    const declaration = buildEmployerDeclaration({
+      payer,
+      period: { kind: 'month', year: 2026, month: 2 },
+      months: [payrollMonth(1), payrollMonth(2)],
+    });
+
+    expect(declaration.formCode).toBe('05/KK-TNCN');
+    expect(declaration.indicators.ct32).toBe(910_000 + 500_000 + 2_000_000);
+    expect(crossCheckEmployerDeclaration(declaration)).toEqual([]);
+  });
+
+  test('rejects a tampered total that still equals resident + non-resident', () => {
+    const declaration = buildAnnual();
+    declaration.indicators.ct36 += 1_000_000;
+    declaration.indicators.ct37 += 1_000_000;
+
+    expect(crossCheckEmployerDeclaration(declaration).map(issue => issue.path)).toEqual(['indicators.ct37']);
+    expect(validateEmployerDeclaration(declaration).map(issue => issue.path)).toContain('indicators.ct37');
+  });
+
+  test('rejects a row whose taxable income does not follow from its own columns', () => {
+    const declaration = buildAnnual();
+    declaration.progressiveRows[0].tntt += 5_000_000;
+
+    expect(crossCheckEmployerDeclaration(declaration).map(issue => issue.path)).toEqual(['progressiveRows[0].tntt']);
+  });
+
+  test('rejects withheld tax that is negative or above what the row income allows', () => {
+    const declaration = buildAnnual();
+    declaration.progressiveRows[0].thueKhauTru = -910_000;
+    declaration.flatRows[0].thueKhauTru = declaration.flatRows[0].tnct;
+
+    const paths = crossCheckEmployerDeclaration(declaration).map(issue => issue.path);
+    expect(paths).toContain('progressiveRows[0].thueKhauTru');
+    expect(paths).toContain('flatRows[0].thueKhauTru');
+  });
+});
@@ -0,0 +1,106 @@
+import { expect, test } from '@playwright/test';
+import {
+  calculateRoster,
+  calculateRosterFromCSV,
+  getRosterTemplateCSV,
+  parseRosterCSV,
+} from '../payrollRosterCalculator';
+import { calculateNewTax } from '../taxCalculator';
+
+const asOf = new Date(2026, 2, 1);
+
+test.describe('parseRosterCSV', () => {
+  test('reads Vietnamese headers, grouped amounts and allowance columns', () => {
+    const { employees, errors } = parseRosterCSV([
+      'Mã NV,Họ tên,Lương,NPT,Vùng,Ăn trưa,Chức vụ',
+      'NV001,Nguyễn Văn An,"30.000.000",1,Vùng 2,"730,000",2000000',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(employees).toHaveLength(1);
+    expect(employees[0]).toMatchObject({
+      line: 2,
+      employeeId: 'NV001',
+      fullName: 'Nguyễn Văn An',
+      grossIncome: 30_000_000,
+      dependents: 1,
+      region: 2,
+      allowances: { meal: 730_000, position: 2_000_000, phone: 0 },
+    });
+  });
+
+  test('reports every bad cell with its line and keeps the valid rows', () => {
+    const { employees, errors } = parseRosterCSV([
+      'employee_id,gross,dependents,region,meal,bonus',
+      'NV001,25000000,0,1,0,',
+      ',20000000,0,1,0,',
+      'NV001,abc,-1,5,-730000,',
+      'NV003,18000000,1,4,0,',
+    ].join('\n'));
+
+    expect(employees.map(employee => employee.employeeId)).toEqual(['NV001', 'NV003']);
+    expect(errors).toEqual([
+      { line: 1, column: 'bonus', message: 'Cột không được hỗ trợ: bonus' },
+      { line: 3, employeeId: undefined, column: 'employee_id', message: 'Thiếu mã nhân viên' },
+      { line: 4, employeeId: 'NV001', column: 'employee_id', message: 'Trùng mã nhân viên với dòng 2' },
+      { line: 4, employeeId: 'NV001', column: 'gross', message: 'Lương gross phải là số dương' },
+      { line: 4, employeeId: 'NV001', column: 'dependents', message: 'Số người phụ thuộc phải là số nguyên 0-20' },
+      { line: 4, employeeId: 'NV001', column: 'region', message: 'Vùng phải là 1, 2, 3 hoặc 4' },
+      { line: 4, employeeId: 'NV001', column: 'meal', message: 'Phụ cấp phải là số không âm' },
+    ]);
+  });
+
+  test('stops at the header when a required column is missing', () => {
+    const { employees, errors } = parseRosterCSV('full_name,dependents\nNguyễn Văn An,1\n');
+
+    expect(employees).toEqual([]);
+    expect(errors.map(error => error.message)).toEqual([
+      'Thiếu cột bắt buộc: employee_id',
+      'Thiếu cột bắt buộc: gross',
+    ]);
+  });
+
+  test('accepts its own template', () => {
+    const { employees, errors } = parseRosterCSV(getRosterTemplateCSV());
+
+    expect(errors).toEqual([]);
+    expect(employees.map(employee => employee.employeeId)).toEqual(['NV001', 'NV002']);
+    expect(employees[1].declaredSalary).toBe(10_000_000);
+  });
+});
+
+test.describe('calculateRoster', () => {
+  test('taxes each row like the single-employee calculator and sums the totals', () => {
+    const result = calculateRosterFromCSV(
+      'employee_id,gross,dependents,meal\nNV001,30000000,1,730000\nNV002,18000000,0,0\nNV003,,0,0\n',
+      { asOf }
+    );
+
+    expect(result.errors.map(error => error.line)).toEqual([4]);
+    expect(result.rows).toHaveLength(2);
+
+    const single = calculateNewTax({
+      grossIncome: 30_000_000,
+      dependents: 1,
+      allowances: { meal: 730_000, phone: 0, transport: 0, hazardous: 0, clothing: 0, housing: 0, position: 0 },
+      asOf,
+    });
+    expect(result.rows[0].pit).toBe(single.taxAmount);
+    expect(result.rows[0].employeeInsurance).toEqual(single.insuranceDetail);
+
+    expect(result.totals.employees).toBe(2);
+    expect(result.totals.grossIncome).toBe(48_000_000);
+    expect(result.totals.allowances).toBe(730_000);
+    expect(result.totals.pit).toBe(result.rows[0].pit + result.rows[1].pit);
+  });
+
+  test('pins the insurance cap to the payroll month', () => {
+    const employees = parseRosterCSV('employee_id,gross\nNV001,80000000\n').employees;
+
+    const june = calculateRoster({ employees, asOf: new Date(2026, 5, 1) });
+    const july = calculateRoster({ employees, asOf: new Date(2026, 6, 1) });
+
+    expect(june.rows[0].employeeInsurance.bhxh).toBe(46_800_000 * 0.08);
+    expect(july.rows[0].employeeInsurance.bhxh).toBe(50_600_000 * 0.08);
+  });
+});
@@ -0,0 +1,100 @@
+import { expect, test } from '@playwright/test';
+import { calculateAnnualSettlement, createDefaultMonthlyIncome } from '../annualSettlementCalculator';
+import {
+  buildSettlementDeclaration,
+  exportSettlementXml,
+  type SettlementDependent,
+  type SettlementXmlInput,
+} from '../settlementXmlExporter';
+
+const dependent: SettlementDependent = {
+  id: 'dep_1',
+  name: 'Lê Minh Khôi',
+  fromMonth: 1,
+  toMonth: 12,
+  birthDate: new Date(2018, 4, 20),
+  idNumber: '079218001234',
+  relationship: 'Con',
+};
+
+function settlementInput(overrides: Partial<SettlementXmlInput> = {}): SettlementXmlInput {
+  const result = calculateAnnualSettlement({
+    year: 2026,
+    monthlyIncome: createDefaultMonthlyIncome(30_000_000).map(m => ({ ...m, taxPaid: 800_000 })),
+    dependents: [dependent],
+    charitableContributions: 0,
+    voluntaryPension: 0,
+    insuranceOptions: { bhxh: true, bhyt: true, bhtn: true },
+    region: 1,
+  });
+
+  return {
+    result,
+    personalInfo: {
+      fullName: 'Lê Văn Hùng',
+      taxCode: '8012345678',
+      address: '12 Nguyễn Huệ, Q.1 <Tòa A & B>',
+      email: 'hung@example.vn',
+    },
+    dependents: [dependent],
+    taxAuthority: { code: '79101', name: 'Chi cục Thuế Quận 1' },
+    signedAt: new Date(2027, 2, 10),
+    ...overrides,
+  };
+}
+
+test.describe('exportSettlementXml', () => {
+  test('writes the 02/QTT-TNCN indicators and dependent appendix', () => {
+    const input = settlementInput();
+    const exported = exportSettlementXml(input);
+
+    expect(exported.ok).toBe(true);
+    if (!exported.ok) return;
+    expect(exported.fileName).toBe('8012345678_02QTT-TNCN_2026.xml');
+
+    const { result } = input;
+    expect(exported.xml).toContain(`<ct35>${Math.round(result.annualTaxDue)}</ct35>`);
+    expect(exported.xml).toContain(`<ct37>${Math.round(result.totalTaxPaid)}</ct37>`);
+    expect(exported.xml).toContain('<ct27>1</ct27>');
+    expect(exported.xml).toContain('<ct07>Lê Minh Khôi</ct07>');
+    expect(exported.xml).toContain('<ct08>2018-05-20</ct08>');
+    expect(exported.xml).toContain('<ct13>01/2026</ct13>');
+    expect(exported.xml).toContain('<ngayKy>2027-03-10</ngayKy>');
+  });
+
+  test('escapes markup characters in user text', () => {
+    const exported = exportSettlementXml(settlementInput());
+
+    expect(exported.ok && exported.xml).toContain('<dchiNNT>12 Nguyễn Huệ, Q.1 &lt;Tòa A &amp; B&gt;</dchiNNT>');
+  });
+
+  test('returns field errors instead of XML when required data is missing or malformed', () => {
+    const exported = exportSettlementXml(settlementInput({
+      personalInfo: { fullName: '  ', taxCode: '80123', email: 'hung@' },
+      dependents: [{ ...dependent, idNumber: undefined, fromMonth: 9, toMonth: 3 }],
+      taxAuthority: { code: '7A', name: 'Chi cục Thuế' },
+    }));
+
+    expect(exported.ok).toBe(false);
+    expect(!exported.ok && exported.errors.map(error => error.path)).toEqual([
+      'nnt.mst',
+      'nnt.tenNNT',
+      'nnt.dchiNNT',
+      'nnt.emailNNT',
+      'header.taxAuthorityCode',
+      'bkNPT[0].mstNPT',
+      'bkNPT[0].tuThang',
+    ]);
+  });
+
+  test('carries an overpayment forward when no refund is requested', () => {
+    const overpaid = settlementInput();
+    overpaid.result = { ...overpaid.result, totalTaxPaid: overpaid.result.annualTaxDue + 1_000_000 };
+
+    const refund = buildSettlementDeclaration(overpaid).indicators;
+    const carried = buildSettlementDeclaration({ ...overpaid, refundRequested: false }).indicators;
+
+    expect(refund).toMatchObject({ ct41: 0, ct42: 1_000_000, ct43: 1_000_000, ct44: 0 });
+    expect(carried).toMatchObject({ ct42: 1_000_000, ct43: 0, ct44: 1_000_000 });
+  });
+});
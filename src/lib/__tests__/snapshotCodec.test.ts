@@ -0,0 +1,192 @@
+import { expect, test } from '@playwright/test';
+import * as LZString from 'lz-string';
+import { decodeSnapshot, decodeSnapshotWithReport, encodeSnapshot } from '../snapshotCodec';
+import {
+  CalculatorSnapshot,
+  DEFAULT_SNAPSHOT,
+  DEFAULT_TAB_STATES,
+  TabStates,
+  mergeSnapshotWithDefaults,
+} from '../snapshotTypes';
+import { validateSnapshot } from '../snapshotValidation';
+import { applyTaxpayerProfile, getProfileFields, isProfileLinkedTab } from '../taxpayerProfile';
+import generatedSchema from '../snapshotSchema.generated.json';
+// v1Link of each entry was written by the v1 encoder (lz-string JSON with compact keys)
+import representativeSnapshots from './fixtures/links/representative-snapshots.json';
+
+interface SchemaNode {
+  $ref?: string;
+  type?: string;
+  enum?: (string | number)[];
+  const?: string | number;
+  anyOf?: SchemaNode[];
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  items?: SchemaNode;
+}
+
+const SCHEMA = generatedSchema as unknown as { definitions: Record<string, SchemaNode> };
+
+function resolve(schema: SchemaNode): SchemaNode {
+  return schema.$ref ? resolve(SCHEMA.definitions[schema.$ref.replace('#/definitions/', '')]) : schema;
+}
+
+function tabSchema(tab: keyof TabStates): SchemaNode {
+  return resolve(SCHEMA.definitions.TabStates.properties![tab]);
+}
+
+// Smallest non-default-looking value a field accepts (years and months stay in range)
+function sampleNumber(field: string): number {
+  if (/year$/i.test(field)) return 2026;
+  if (/month$/i.test(field)) return 3;
+  return 7;
+}
+
+/**
+ * Build a valid value for a schema, used for list items that are empty by default
+ */
+function sampleValue(schema: SchemaNode, field: string): unknown {
+  const node = resolve(schema);
+  if (node.anyOf) return sampleValue(node.anyOf.find(option => resolve(option).type !== 'null')!, field);
+  if (node.const !== undefined) return node.const;
+  if (node.enum) return node.enum[node.enum.length - 1];
+
+  switch (node.type) {
+    case 'number':
+      return sampleNumber(field);
+    case 'string':
+      return `Mẫu ${field}`;
+    case 'boolean':
+      return true;
+    case 'array':
+      return [sampleValue(node.items ?? {}, field)];
+    case 'object':
+      return Object.fromEntries(
+        (node.required ?? []).map(key => [key, sampleValue(node.properties![key], key)])
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Change every value of a tab state while keeping it valid for its schema:
+ * numbers move inside their range, booleans flip, enums take another member,
+ * strings gain Vietnamese text and empty lists get one item
+ */
+function changeValue(value: unknown, schema: SchemaNode, field: string): unknown {
+  const node = resolve(schema);
+  if (node.anyOf) {
+    const option = node.anyOf.find(candidate => {
+      const resolved = resolve(candidate);
+      return resolved.type === typeof value || (Array.isArray(value) && resolved.type === 'array')
+        || (resolved.enum ?? []).includes(value as string | number) || resolved.const === value;
+    });
+    return option ? changeValue(value, option, field) : value;
+  }
+  if (node.const !== undefined) return value;
+  if (node.enum) return node.enum.find(member => member !== value) ?? value;
+
+  if (typeof value === 'number') {
+    if (value === 0) return 1;
+    if (value === 1) return 2;
+    return value > 1 ? value - 1 : value / 2;
+  }
+  if (typeof value === 'boolean') return !value;
+  if (typeof value === 'string') return `${value}Đã sửa ${field}`;
+  if (Array.isArray(value)) {
+    const items = node.items ?? {};
+    return value.length === 0
+      ? [sampleValue(items, field)]
+      : value.map(item => changeValue(item, items, field));
+  }
+  if (value && typeof value === 'object' && node.properties) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        node.properties![key] ? changeValue(child, node.properties![key], key) : child,
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Default snapshot with one tab edited; linked tabs keep their own copies of profile fields
+ */
+function snapshotWithTab(tab: keyof TabStates): CalculatorSnapshot {
+  const state = changeValue(DEFAULT_TAB_STATES[tab], tabSchema(tab), tab);
+  return {
+    ...DEFAULT_SNAPSHOT,
+    profile: {
+      ...DEFAULT_SNAPSHOT.profile,
+      overrides: isProfileLinkedTab(tab) ? { [tab]: getProfileFields(tab) } : {},
+    },
+    tabs: { ...DEFAULT_TAB_STATES, [tab]: state },
+  };
+}
+
+test.describe('encodeSnapshot → decodeSnapshot', () => {
+  for (const tab of Object.keys(DEFAULT_TAB_STATES) as (keyof TabStates)[]) {
+    test(`keeps every edited field of ${tab}`, () => {
+      const snapshot = snapshotWithTab(tab);
+      // The edited state must be valid so any difference comes from the codec
+      expect(validateSnapshot(snapshot).changes).toEqual([]);
+      expect(snapshot.tabs[tab]).not.toEqual(DEFAULT_TAB_STATES[tab]);
+
+      const encoded = encodeSnapshot(snapshot);
+      expect(encoded).not.toBe('');
+      const decoded = decodeSnapshot(encoded);
+
+      expect(decoded).not.toBeNull();
+      expect(decoded!.tabs[tab]).toEqual(snapshot.tabs[tab]);
+      expect(decoded!.profile.overrides).toEqual(snapshot.profile.overrides);
+    });
+  }
+});
+
+test.describe('share link codec versions', () => {
+  for (const { name, snapshot, v1Link } of representativeSnapshots) {
+    const full = mergeSnapshotWithDefaults(snapshot as Partial<CalculatorSnapshot>);
+
+    test(`v2 link for ${name} is shorter than its v1 link`, () => {
+      const v2Link = encodeSnapshot(full);
+      test.info().annotations.push({ type: 'length', description: `v1 ${v1Link.length} → v2 ${v2Link.length}` });
+
+      expect(v2Link).toMatch(/^2z?\./);
+      expect(v2Link.length).toBeLessThan(v1Link.length);
+    });
+
+    test(`decodes the v1 link for ${name}`, () => {
+      const decoded = decodeSnapshotWithReport(v1Link);
+      // v1 links predate the taxpayer profile: tabs left at their defaults now follow it
+      const expected = applyTaxpayerProfile(full);
+
+      expect(decoded).not.toBeNull();
+      expect(decoded!.migration.fromVersion).toBe(2);
+      expect(decoded!.snapshot.sharedState).toEqual(expected.sharedState);
+      expect(decoded!.snapshot.tabs).toEqual(expected.tabs);
+    });
+  }
+
+  test('decodes a versionless v1 link with the transport allowance under the colliding key', () => {
+    const v1Link = LZString.compressToEncodedURIComponent(
+      JSON.stringify({ s: { g: 40000000, dp: 1, aw: { ml: 730000, tp: 1200000 } }, t: 'calculator' })
+    );
+    const decoded = decodeSnapshotWithReport(v1Link);
+
+    expect(decoded).not.toBeNull();
+    expect(decoded!.migration.fromVersion).toBe(1);
+    expect(decoded!.migration.changes.map(change => change.path)).toContain('sharedState.allowances.transport');
+    expect(decoded!.snapshot.sharedState).toMatchObject({
+      grossIncome: 40000000,
+      dependents: 1,
+      allowances: { meal: 730000, transport: 1200000 },
+    });
+  });
+
+  test('rejects links that are neither v1 nor v2', () => {
+    expect(decodeSnapshot('2.%%%')).toBeNull();
+    expect(decodeSnapshot('not-a-link')).toBeNull();
+  });
+});
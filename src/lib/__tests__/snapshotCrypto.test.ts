@@ -0,0 +1,66 @@
+import { expect, test } from '@playwright/test';
+import {
+  decodeShareHashContent,
+  decryptHashContent,
+  generateEncryptedShareURL,
+  getShareHashContent,
+  isEncryptedHashContent,
+} from '../snapshotCodec';
+import { decryptText, encryptText, fromBase64Url, toBase64Url } from '../snapshotCrypto';
+import { DEFAULT_SNAPSHOT } from '../snapshotTypes';
+
+const PASSPHRASE = 'mật khẩu 2026';
+
+test.describe('encryptText / decryptText', () => {
+  test('round-trips Unicode text with a fresh salt and IV per call', async () => {
+    const first = await encryptText('Lương tháng 6: 30.000.000 ₫', PASSPHRASE);
+    const second = await encryptText('Lương tháng 6: 30.000.000 ₫', PASSPHRASE);
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(first).not.toBe(second);
+    expect(await decryptText(first, PASSPHRASE)).toBe('Lương tháng 6: 30.000.000 ₫');
+  });
+
+  test('rejects a short passphrase before encrypting', async () => {
+    await expect(encryptText('secret', '12345')).rejects.toThrow('Mật khẩu cần ít nhất 6 ký tự');
+  });
+
+  test('rejects a wrong passphrase', async () => {
+    const payload = await encryptText('secret', PASSPHRASE);
+
+    await expect(decryptText(payload, 'mật khẩu 2025')).rejects.toThrow(
+      'Sai mật khẩu hoặc dữ liệu đã bị thay đổi'
+    );
+  });
+
+  test('rejects a payload with a flipped ciphertext byte', async () => {
+    const bytes = fromBase64Url(await encryptText('secret', PASSPHRASE));
+    bytes[bytes.length - 1] ^= 0x01;
+
+    await expect(decryptText(toBase64Url(bytes), PASSPHRASE)).rejects.toThrow(
+      'Sai mật khẩu hoặc dữ liệu đã bị thay đổi'
+    );
+  });
+
+  test('rejects truncated payloads and unknown format versions', async () => {
+    const bytes = fromBase64Url(await encryptText('secret', PASSPHRASE));
+    const truncated = toBase64Url(bytes.subarray(0, 29));
+    bytes[0] = 2;
+
+    await expect(decryptText(truncated, PASSPHRASE)).rejects.toThrow('Dữ liệu mã hóa không hợp lệ');
+    await expect(decryptText(toBase64Url(bytes), PASSPHRASE)).rejects.toThrow('Dữ liệu mã hóa không hợp lệ');
+  });
+});
+
+test.describe('passphrase-protected share links', () => {
+  test('decrypt back to the regular hash content', async () => {
+    const snapshot = { ...DEFAULT_SNAPSHOT, activeTab: 'gross-net' };
+    const hashContent = getShareHashContent(await generateEncryptedShareURL(snapshot, PASSPHRASE));
+
+    expect(isEncryptedHashContent(hashContent)).toBe(true);
+    await expect(decryptHashContent(hashContent, 'sai mật khẩu')).rejects.toThrow();
+
+    const decoded = decodeShareHashContent(await decryptHashContent(hashContent, PASSPHRASE));
+    expect(decoded?.snapshot.activeTab).toBe('gross-net');
+  });
+});
@@ -0,0 +1,92 @@
+import { expect, test } from '@playwright/test';
+import { hasMigrationChanges, migrateSnapshot } from '../snapshotMigrations';
+import { CURRENT_SNAPSHOT_VERSION } from '../snapshotTypes';
+import v1LegacyHistory from './fixtures/snapshots/v1-legacy-history.json';
+import v1DuplicateFields from './fixtures/snapshots/v1-duplicate-fields.json';
+import v2TabCopies from './fixtures/snapshots/v2-tab-copies.json';
+import v99Newer from './fixtures/snapshots/v99-newer.json';
+
+test.describe('migrateSnapshot', () => {
+  test('moves legacy state/timestamp and restores the transport allowance from a v1 history item', () => {
+    const result = migrateSnapshot(structuredClone(v1LegacyHistory));
+    expect(result).not.toBeNull();
+    const { snapshot, report } = result!;
+
+    expect(report).toEqual({
+      fromVersion: 1,
+      toVersion: CURRENT_SNAPSHOT_VERSION,
+      changes: [
+        { path: 'state', kind: 'renamed', message: 'Dữ liệu thu nhập chung được chuyển sang định dạng mới' },
+        { path: 'timestamp', kind: 'renamed', message: 'Thời điểm tạo được chuyển vào thông tin bản lưu' },
+        {
+          path: 'sharedState.allowances.transport',
+          kind: 'renamed',
+          message: 'Khôi phục phụ cấp đi lại bị đọc sai trong liên kết cũ',
+        },
+      ],
+    });
+    expect(hasMigrationChanges(report)).toBe(true);
+
+    expect(snapshot.version).toBe(CURRENT_SNAPSHOT_VERSION);
+    expect(snapshot).not.toHaveProperty('state');
+    expect(snapshot).not.toHaveProperty('timestamp');
+    expect(snapshot.meta?.createdAt).toBe(1704067200000);
+    expect(snapshot.sharedState?.grossIncome).toBe(45000000);
+    expect(snapshot.sharedState?.allowances).toEqual({ meal: 730000, transport: 1500000 });
+  });
+
+  test('drops v1 fields that duplicate newer ones instead of overwriting them', () => {
+    const { snapshot, report } = migrateSnapshot(structuredClone(v1DuplicateFields))!;
+
+    expect(report.fromVersion).toBe(1);
+    expect(report.changes.map(({ path, kind }) => ({ path, kind }))).toEqual([
+      { path: 'state', kind: 'dropped' },
+      { path: 'timestamp', kind: 'dropped' },
+      { path: 'sharedState.allowances.type', kind: 'dropped' },
+    ]);
+
+    expect(snapshot.sharedState?.grossIncome).toBe(30000000);
+    expect(snapshot.sharedState?.allowances).toEqual({ meal: 730000, transport: 800000 });
+    expect(snapshot.meta).toEqual({ createdAt: 1717200000000, label: 'Lương tháng 6' });
+  });
+
+  test('infers the v3 taxpayer profile and overrides from the per-tab copies of a v2 snapshot', () => {
+    const { snapshot, report } = migrateSnapshot(structuredClone(v2TabCopies))!;
+
+    expect(report).toEqual({ fromVersion: 2, toVersion: CURRENT_SNAPSHOT_VERSION, changes: [] });
+    expect(hasMigrationChanges(report)).toBe(false);
+
+    expect(snapshot.profile?.personalInfo).toMatchObject({ fullName: 'Nguyễn Văn An', taxCode: '8012345678' });
+    expect(snapshot.profile?.dependents).toEqual([
+      { id: 'dep-1', name: 'Nguyễn Minh Khang', fromMonth: 1, toMonth: 12 },
+    ]);
+    expect(snapshot.profile?.residency).toBe('non_resident');
+    // Only tabs whose copy differs from both the profile and the tab default keep their own value
+    expect(snapshot.profile?.overrides).toEqual({
+      multiSourceIncome: ['dependents'],
+      businessFormComparison: ['region'],
+    });
+  });
+
+  test('leaves an existing profile untouched', () => {
+    const profile = {
+      personalInfo: { fullName: 'Trần Thị Bình' },
+      dependents: [],
+      residency: 'resident',
+      overrides: { incomeSummary: ['dependents'] },
+    };
+    const { snapshot } = migrateSnapshot({ ...structuredClone(v2TabCopies), profile })!;
+
+    expect(snapshot.profile).toEqual(profile);
+  });
+
+  test('rejects a snapshot from a newer app version', () => {
+    expect(migrateSnapshot(structuredClone(v99Newer))).toBeNull();
+  });
+
+  test('treats snapshots without a version as v1 and rejects non-objects', () => {
+    expect(migrateSnapshot({ tabs: {} })?.report.fromVersion).toBe(1);
+    expect(migrateSnapshot(null)).toBeNull();
+    expect(migrateSnapshot([])).toBeNull();
+  });
+});
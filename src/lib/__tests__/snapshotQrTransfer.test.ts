@@ -0,0 +1,63 @@
+import { expect, test } from '@playwright/test';
+import {
+  addQrFrame,
+  assembleQrFrames,
+  missingQrFrames,
+  needsMultiPartQR,
+  parseQrFrame,
+  splitQrFrames,
+  type QrTransferProgress,
+} from '../snapshotQrTransfer';
+
+const payload = 'https://thue.example.vn/#e=' + 'Lương-tháng-6_'.repeat(90);
+
+function scan(frames: string[], progress: QrTransferProgress | null = null): QrTransferProgress {
+  return frames.reduce<QrTransferProgress | null>((current, text) => {
+    const frame = parseQrFrame(text);
+    if (!frame) throw new Error(`Not a frame: ${text}`);
+    return addQrFrame(current, frame);
+  }, progress)!;
+}
+
+test.describe('multi-part QR transfer', () => {
+  test('splits long payloads into numbered frames', () => {
+    const frames = splitQrFrames(payload);
+
+    expect(needsMultiPartQR(payload)).toBe(true);
+    expect(frames).toHaveLength(Math.ceil(payload.length / 500));
+    expect(frames[0]).toMatch(/^TTQR1:1\/3:[0-9a-f]{8}:https:\/\//);
+    expect(parseQrFrame('https://thue.example.vn/#s=abc')).toBeNull();
+    expect(parseQrFrame(frames[0].replace('1/3', '4/3'))).toBeNull();
+  });
+
+  test('rebuilds the payload from frames scanned out of order and repeated', () => {
+    const [first, second, third] = splitQrFrames(payload);
+
+    let progress = scan([third, first, third]);
+    expect(missingQrFrames(progress)).toEqual([2]);
+    expect(assembleQrFrames(progress)).toBeNull();
+
+    progress = scan([second], progress);
+    expect(missingQrFrames(progress)).toEqual([]);
+    expect(assembleQrFrames(progress)).toBe(payload);
+  });
+
+  test('starts over when a frame from another transfer is scanned', () => {
+    const frames = splitQrFrames(payload);
+    const other = splitQrFrames(payload.replace('tháng-6', 'tháng-7'));
+
+    const progress = scan([frames[0], frames[1], other[2]]);
+
+    expect(progress.checksum).toBe(parseQrFrame(other[2])!.checksum);
+    expect(missingQrFrames(progress)).toEqual([1, 2]);
+  });
+
+  test('rejects a payload whose checksum does not match', () => {
+    const frames = splitQrFrames(payload);
+    const corrupted = frames[1].replace('Lương', 'Luong');
+
+    const progress = scan([frames[0], corrupted, frames[2]]);
+
+    expect(() => assembleQrFrames(progress)).toThrow('Dữ liệu quét được bị lỗi, hãy quét lại từ đầu');
+  });
+});
@@ -0,0 +1,114 @@
+import 'fake-indexeddb/auto';
+import { expect, test } from '@playwright/test';
+import {
+  addEvidence,
+  clearAllSaves,
+  exportToZip,
+  getEvidenceFile,
+  getNamedSaves,
+  importFromZip,
+  saveNamedSave,
+} from '../snapshotStorage';
+import { DEFAULT_SNAPSHOT } from '../snapshotTypes';
+import { createZip } from '../zipArchive';
+
+/**
+ * In-memory localStorage; the storage module reads it for the fallback backend
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+test.beforeAll(() => {
+  Object.assign(globalThis, { window: globalThis, localStorage: new MemoryStorage() });
+});
+
+test.afterAll(() => {
+  Reflect.deleteProperty(globalThis, 'window');
+  Reflect.deleteProperty(globalThis, 'localStorage');
+});
+
+function deleteDatabase(name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+test.describe('named saves in IndexedDB', () => {
+  test('reopens the database after another tab closes this connection', async () => {
+    await saveNamedSave(DEFAULT_SNAPSHOT, 'Trước khi nâng cấp');
+    expect((await getNamedSaves()).map(save => save.label)).toEqual(['Trước khi nâng cấp']);
+
+    // Deleting the database fires versionchange on the open connection, which closes it
+    await deleteDatabase('tax-calculator');
+
+    await saveNamedSave(DEFAULT_SNAPSHOT, 'Sau khi nâng cấp');
+    expect((await getNamedSaves()).map(save => save.label)).toEqual(['Sau khi nâng cấp']);
+    expect(localStorage.getItem('tax-calculator-saves')).toBeNull();
+  });
+});
+
+test.describe('zip backups', () => {
+  test('restore saves together with their evidence files', async () => {
+    await clearAllSaves();
+    const save = await saveNamedSave(DEFAULT_SNAPSHOT, 'Quyết toán 2026');
+    const receipt = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37, 0x00, 0xff]);
+    const attachment = await addEvidence(save.id, new Blob([receipt], { type: 'application/pdf' }), {
+      fileName: 'Biên lai/từ thiện.pdf',
+      kind: 'charity_receipt',
+      target: { tab: 'annualSettlement', field: 'charitableContributions' },
+    });
+
+    const zip = await exportToZip();
+    await clearAllSaves();
+    expect(await getNamedSaves()).toEqual([]);
+    expect(await getEvidenceFile(attachment.id)).toBeNull();
+
+    const result = await importFromZip(zip);
+    expect(result).toMatchObject({ success: true, count: 1, evidence: 1, skippedEvidence: 0 });
+
+    const [restored] = await getNamedSaves();
+    expect(restored.label).toBe('Quyết toán 2026');
+    expect(restored.attachments).toEqual([attachment]);
+
+    const file = await getEvidenceFile(attachment.id);
+    expect(file?.type).toBe('application/pdf');
+    expect(new Uint8Array(await file!.arrayBuffer())).toEqual(receipt);
+  });
+
+  test('rejects a zip without saves.json and leaves storage untouched', async () => {
+    await clearAllSaves();
+    await saveNamedSave(DEFAULT_SNAPSHOT, 'Giữ nguyên');
+
+    const result = await importFromZip(createZip([{ name: 'notes.txt', data: new TextEncoder().encode('x') }]));
+
+    expect(result).toEqual({ success: false, count: 0, error: 'File zip không chứa bản lưu' });
+    expect((await getNamedSaves()).map(s => s.label)).toEqual(['Giữ nguyên']);
+  });
+});
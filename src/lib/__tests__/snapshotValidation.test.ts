@@ -0,0 +1,92 @@
+import { expect, test } from '@playwright/test';
+import { DEFAULT_ANNUAL_SETTLEMENT_STATE, DEFAULT_SHARED_STATE, type CalculatorSnapshot } from '../snapshotTypes';
+import { validateSharedState, validateSnapshot } from '../snapshotValidation';
+
+function settlementTab(snapshot: Partial<CalculatorSnapshot>) {
+  return snapshot.tabs!.annualSettlement;
+}
+
+test.describe('validateSnapshot', () => {
+  test('resets invalid fields to their defaults and reports each one', () => {
+    const { snapshot, changes } = validateSnapshot({
+      sharedState: {
+        ...DEFAULT_SHARED_STATE,
+        grossIncome: 'ba mươi triệu' as unknown as number,
+        dependents: 21,
+        region: 5 as never,
+        insuranceOptions: { bhxh: 'có' as unknown as boolean, bhyt: true, bhtn: true },
+      },
+    });
+
+    expect(snapshot.sharedState).toMatchObject({
+      grossIncome: 30_000_000,
+      dependents: 0,
+      region: 1,
+      insuranceOptions: { bhxh: true, bhyt: true, bhtn: true },
+    });
+    expect(changes).toEqual([
+      { path: 'sharedState.grossIncome', kind: 'reset', message: 'Giá trị "ba mươi triệu" không hợp lệ, đã thay bằng 30000000' },
+      { path: 'sharedState.dependents', kind: 'reset', message: 'Giá trị 21 không hợp lệ, đã thay bằng 0' },
+      { path: 'sharedState.insuranceOptions.bhxh', kind: 'reset', message: 'Giá trị "có" không hợp lệ, đã thay bằng true' },
+      { path: 'sharedState.region', kind: 'reset', message: 'Giá trị 5 không hợp lệ, đã thay bằng 1' },
+    ]);
+  });
+
+  test('fills missing fields from the defaults without reporting them', () => {
+    const { snapshot, changes } = validateSnapshot({ sharedState: { grossIncome: 45_000_000 } as never });
+
+    expect(changes).toEqual([]);
+    expect(snapshot.sharedState).toEqual({ ...DEFAULT_SHARED_STATE, grossIncome: 45_000_000 });
+    expect(settlementTab(snapshot)).toEqual(DEFAULT_ANNUAL_SETTLEMENT_STATE);
+  });
+
+  test('drops unreadable list items and resets bad fields of the others', () => {
+    const { snapshot, changes } = validateSnapshot({
+      tabs: {
+        annualSettlement: {
+          ...DEFAULT_ANNUAL_SETTLEMENT_STATE,
+          dependents: [
+            'Con' as never,
+            { id: 'dep_1', name: 'Minh', fromMonth: 13, toMonth: 12 },
+            { id: 'dep_2', fromMonth: 1, toMonth: 12 } as never,
+          ],
+        },
+      } as CalculatorSnapshot['tabs'],
+    });
+
+    expect(settlementTab(snapshot).dependents).toEqual([
+      { id: 'dep_1', name: 'Minh', fromMonth: 1, toMonth: 12 },
+      { id: 'dep_2', name: '', fromMonth: 1, toMonth: 12 },
+    ]);
+    expect(changes).toEqual([
+      { path: 'tabs.annualSettlement.dependents[0]', kind: 'dropped', message: 'Bỏ mục không hợp lệ ("Con") khỏi danh sách' },
+      { path: 'tabs.annualSettlement.dependents[1].fromMonth', kind: 'reset', message: 'Giá trị 13 không hợp lệ, đã thay bằng 1' },
+      { path: 'tabs.annualSettlement.dependents[2].name', kind: 'reset', message: 'Thiếu giá trị, đã điền ""' },
+    ]);
+  });
+
+  test('resets a bad month of a fixed-length list to that month default', () => {
+    const monthlyIncome = DEFAULT_ANNUAL_SETTLEMENT_STATE.monthlyIncome.map(entry => ({ ...entry, grossSalary: 30_000_000 }));
+    monthlyIncome[2] = null as never;
+
+    const { snapshot, changes } = validateSnapshot({
+      tabs: { annualSettlement: { ...DEFAULT_ANNUAL_SETTLEMENT_STATE, monthlyIncome } } as CalculatorSnapshot['tabs'],
+    });
+
+    expect(settlementTab(snapshot).monthlyIncome).toHaveLength(12);
+    expect(settlementTab(snapshot).monthlyIncome[2]).toEqual(DEFAULT_ANNUAL_SETTLEMENT_STATE.monthlyIncome[2]);
+    expect(settlementTab(snapshot).monthlyIncome[3].grossSalary).toBe(30_000_000);
+    expect(changes).toEqual([
+      { path: 'tabs.annualSettlement.monthlyIncome[2]', kind: 'reset', message: 'Giá trị null không hợp lệ, đã thay bằng giá trị mặc định' },
+    ]);
+  });
+});
+
+test.describe('validateSharedState', () => {
+  test('returns only the given fields, with invalid ones reset', () => {
+    const { state, changes } = validateSharedState({ grossIncome: -1, dependents: 2 });
+
+    expect(state).toEqual({ grossIncome: 30_000_000, dependents: 2 });
+    expect(changes.map(change => change.path)).toEqual(['sharedState.grossIncome']);
+  });
+});
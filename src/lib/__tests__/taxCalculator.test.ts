@@ -0,0 +1,93 @@
+import { expect, test } from '@playwright/test';
+import { calculateAnnualSettlement } from '../annualSettlementCalculator';
+import { grossToNet } from '../grossNetCalculator';
+import { calculateNewTax, calculateTaxForDate } from '../taxCalculator';
+import { getTaxRulesForDate, getTaxRulesForLaw } from '../taxRuleRegistry';
+
+// Last and first day of each rule set, in local time like the registry
+const BOUNDARIES = [
+  { asOf: new Date(2025, 11, 31), ruleSetId: 'vn-2024-07', personal: 11_000_000, dependent: 4_400_000, insurance: 5_046_000 },
+  { asOf: new Date(2026, 0, 1), ruleSetId: 'vn-2026-01', personal: 15_500_000, dependent: 6_200_000, insurance: 5_046_000 },
+  { asOf: new Date(2026, 5, 30), ruleSetId: 'vn-2026-01', personal: 15_500_000, dependent: 6_200_000, insurance: 5_046_000 },
+  { asOf: new Date(2026, 6, 1), ruleSetId: 'vn-2026-07', personal: 15_500_000, dependent: 6_200_000, insurance: 5_407_000 },
+];
+
+test.describe('getTaxRulesForLaw', () => {
+  test('returns the version of the law in effect at the date', () => {
+    expect(getTaxRulesForLaw('new').id).toBe('vn-2026-01');
+    expect(getTaxRulesForLaw('new', new Date(2026, 5, 30)).id).toBe('vn-2026-01');
+    expect(getTaxRulesForLaw('new', new Date(2026, 6, 1)).id).toBe('vn-2026-07');
+    // Outside the law's own period the nearest version is used (old/new comparisons)
+    expect(getTaxRulesForLaw('new', new Date(2025, 11, 31)).id).toBe('vn-2026-01');
+    expect(getTaxRulesForLaw('old', new Date(2026, 6, 1)).id).toBe('vn-2024-07');
+  });
+});
+
+test.describe('as-of date across rule-set boundaries', () => {
+  for (const { asOf, ruleSetId, personal, dependent, insurance } of BOUNDARIES) {
+    const day = asOf.toLocaleDateString('vi-VN');
+
+    test(`calculateTaxForDate uses ${ruleSetId} on ${day}`, () => {
+      const result = calculateTaxForDate({ grossIncome: 60_000_000, dependents: 1, asOf, trace: true });
+      const { deductions, brackets } = getTaxRulesForDate(asOf);
+
+      expect(result.personalDeduction).toBe(personal);
+      expect(result.dependentDeduction).toBe(dependent);
+      expect(result.insuranceDeduction).toBe(insurance);
+      expect(deductions).toEqual({ personal, dependent });
+      expect(result.taxBreakdown.map(item => item.rate)).toEqual(
+        brackets.slice(0, result.taxBreakdown.length).map(bracket => bracket.rate)
+      );
+      expect(result.trace!.ruleSetId).toBe(ruleSetId);
+    });
+
+    test(`grossToNet uses ${ruleSetId} on ${day}`, () => {
+      const rules = getTaxRulesForDate(asOf);
+      const result = grossToNet({
+        amount: 60_000_000,
+        type: 'gross',
+        dependents: 1,
+        hasInsurance: true,
+        useNewLaw: rules.law === 'new',
+        asOf,
+        trace: true,
+      });
+
+      expect(result.deductions).toEqual({ personal, dependent, insurance });
+      expect(result.trace!.ruleSetId).toBe(ruleSetId);
+    });
+  }
+
+  test('pins the result to the date instead of today', () => {
+    const input = { grossIncome: 60_000_000, dependents: 1 };
+    const before = calculateNewTax({ ...input, asOf: new Date(2026, 5, 30) });
+    const after = calculateNewTax({ ...input, asOf: new Date(2026, 6, 1) });
+
+    expect(before.taxAmount).toBe(3_150_800);
+    expect(after.taxAmount).toBe(3_078_600);
+    expect(calculateNewTax({ ...input, asOf: new Date(2026, 5, 30) })).toEqual(before);
+  });
+
+  test('settlement deductions follow the rule set of each year', () => {
+    const settle = (year: 2025 | 2026) => calculateAnnualSettlement({
+      year,
+      monthlyIncome: Array.from({ length: 12 }, (_, index) => ({
+        month: index + 1,
+        grossSalary: 30_000_000,
+        bonus: 0,
+        taxExempt: 0,
+        taxPaid: 0,
+      })),
+      dependents: [{ id: 'dep_1', name: 'Con', fromMonth: 1, toMonth: 12 }],
+      charitableContributions: 0,
+      voluntaryPension: 0,
+      insuranceOptions: { bhxh: true, bhyt: true, bhtn: true },
+      region: 1,
+    });
+
+    expect(settle(2025).dependentSummary.deductionPerMonth).toBe(4_400_000);
+    expect(settle(2025).totalPersonalDeduction).toBe(12 * 11_000_000);
+    expect(settle(2026).dependentSummary.deductionPerMonth).toBe(6_200_000);
+    expect(settle(2026).totalPersonalDeduction).toBe(12 * 15_500_000);
+  });
+});
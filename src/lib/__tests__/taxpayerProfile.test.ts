@@ -0,0 +1,140 @@
+import { expect, test } from '@playwright/test';
+import { DEFAULT_SNAPSHOT, mergeSnapshotWithDefaults, type CalculatorSnapshot } from '../snapshotTypes';
+import {
+  applyTaxpayerProfile,
+  clearProfileOverride,
+  findProfileLinkedTab,
+  getProfileFields,
+  inferProfileOverrides,
+  recordProfileOverrides,
+  resolveTaxpayerProfile,
+  stripProfileValues,
+} from '../taxpayerProfile';
+
+function snapshotWith(overrides: CalculatorSnapshot['profile']['overrides'] = {}): CalculatorSnapshot {
+  return {
+    ...DEFAULT_SNAPSHOT,
+    sharedState: { ...DEFAULT_SNAPSHOT.sharedState, dependents: 2, region: 3, hasInsurance: false },
+    profile: {
+      ...DEFAULT_SNAPSHOT.profile,
+      dependents: [{ id: 'dep_1', name: 'Lê Minh Khôi', fromMonth: 3, toMonth: 12 }],
+      residency: 'non_resident',
+      overrides,
+    },
+  };
+}
+
+test.describe('resolveTaxpayerProfile', () => {
+  test('pads or trims the dependent list to the shared dependent count', () => {
+    const { sharedState, profile } = snapshotWith();
+
+    expect(resolveTaxpayerProfile(sharedState, profile).dependents).toEqual([
+      { id: 'dep_1', name: 'Lê Minh Khôi', fromMonth: 3, toMonth: 12 },
+      { id: 'profile-dependent-2', name: 'Người phụ thuộc 2', fromMonth: 1, toMonth: 12 },
+    ]);
+    expect(resolveTaxpayerProfile({ ...sharedState, dependents: 0 }, profile).dependents).toEqual([]);
+  });
+});
+
+test.describe('applyTaxpayerProfile', () => {
+  test('copies profile values into linked tabs except overridden fields', () => {
+    const base = snapshotWith({ businessFormComparison: ['region'] });
+    const applied = applyTaxpayerProfile({
+      ...base,
+      tabs: {
+        ...base.tabs,
+        businessFormComparison: { ...base.tabs.businessFormComparison, region: 2 },
+      },
+    });
+
+    expect(applied.tabs.businessFormComparison).toMatchObject({ region: 2, dependents: 2, hasSelfInsurance: false });
+    expect(applied.tabs.multiSourceIncome).toMatchObject({ dependents: 2, hasInsurance: false });
+    expect(applied.tabs.annualSettlement.region).toBe(3);
+    expect(applied.tabs.annualSettlement.dependents.map(d => d.id)).toEqual(['dep_1', 'profile-dependent-2']);
+    expect(applied.tabs.withholdingTax.residencyStatus).toBe('non_resident');
+    // Tabs without profile fields are left alone
+    expect(applied.tabs.bonus).toBe(base.tabs.bonus);
+  });
+
+  test('returns the same snapshot once the tabs match the profile', () => {
+    const applied = applyTaxpayerProfile(snapshotWith());
+
+    expect(applyTaxpayerProfile(applied)).toBe(applied);
+  });
+});
+
+test.describe('profile overrides', () => {
+  test('records an edited field and keeps it until the override is cleared', () => {
+    const snapshot = applyTaxpayerProfile(snapshotWith());
+    const resolved = resolveTaxpayerProfile(snapshot.sharedState, snapshot.profile);
+    const edited = { ...snapshot.tabs.multiSourceIncome, dependents: 4 };
+
+    const profile = recordProfileOverrides(snapshot.profile, 'multiSourceIncome', edited, resolved);
+    expect(profile.overrides).toEqual({ multiSourceIncome: ['dependents'] });
+
+    // Editing back to the profile value keeps the override
+    const reverted = { ...edited, dependents: 2 };
+    expect(recordProfileOverrides(profile, 'multiSourceIncome', reverted, resolved)).toBe(profile);
+
+    const cleared = clearProfileOverride(profile, 'multiSourceIncome', 'dependents');
+    expect(cleared.overrides).toEqual({});
+    const reapplied = applyTaxpayerProfile({
+      ...snapshot,
+      profile: cleared,
+      tabs: { ...snapshot.tabs, multiSourceIncome: edited },
+    });
+    expect(reapplied.tabs.multiSourceIncome.dependents).toBe(2);
+  });
+
+  test('keeps saved overrides when a partial snapshot is merged with defaults', () => {
+    const merged = mergeSnapshotWithDefaults({
+      profile: { overrides: { annualSettlement: ['region', 'insurance'] } } as CalculatorSnapshot['profile'],
+      tabs: { annualSettlement: { region: 4 } } as unknown as CalculatorSnapshot['tabs'],
+    });
+
+    expect(merged.profile.overrides).toEqual({ annualSettlement: ['region', 'insurance'] });
+    expect(merged.profile.personalInfo).toEqual(DEFAULT_SNAPSHOT.profile.personalInfo);
+    expect(applyTaxpayerProfile(merged).tabs.annualSettlement.region).toBe(4);
+  });
+
+  test('infers overrides only for values that differ from both the profile and the tab default', () => {
+    const base = snapshotWith();
+    const snapshot: CalculatorSnapshot = {
+      ...base,
+      tabs: {
+        ...base.tabs,
+        // Typed in before profiles existed
+        businessFormComparison: { ...base.tabs.businessFormComparison, dependents: 5 },
+        // Same as the profile
+        multiSourceIncome: { ...base.tabs.multiSourceIncome, dependents: 2 },
+      },
+    };
+
+    expect(inferProfileOverrides(snapshot)).toEqual({ businessFormComparison: ['dependents'] });
+  });
+
+  test('strips followed values before encoding and rebuilds them from the profile', () => {
+    const applied = applyTaxpayerProfile(snapshotWith({ businessFormComparison: ['region'] }));
+    const withOverride: CalculatorSnapshot = {
+      ...applied,
+      tabs: { ...applied.tabs, businessFormComparison: { ...applied.tabs.businessFormComparison, region: 2 } },
+    };
+
+    const stripped = stripProfileValues(withOverride);
+
+    expect(stripped.tabs.businessFormComparison).toEqual({
+      ...DEFAULT_SNAPSHOT.tabs.businessFormComparison,
+      region: 2,
+    });
+    expect(stripped.tabs.withholdingTax.residencyStatus).toBe('resident');
+    expect(applyTaxpayerProfile(stripped)).toEqual(withOverride);
+  });
+});
+
+test.describe('linked tabs', () => {
+  test('maps UI tab ids to the profile fields they copy', () => {
+    expect(findProfileLinkedTab('business-form')).toBe('businessFormComparison');
+    expect(findProfileLinkedTab('calculator')).toBeNull();
+    expect(getProfileFields('coupleOptimizer')).toEqual(['dependents', 'insurance', 'personalInfo']);
+  });
+});
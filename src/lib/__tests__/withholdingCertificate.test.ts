@@ -0,0 +1,71 @@
+import { expect, test } from '@playwright/test';
+import { createCertificateSeries, issueCertificates, type WithholdingRecord } from '../withholdingCertificate';
+
+const payer = { name: 'Công ty TNHH Minh Phát', taxCode: '0312345678' };
+
+function record(fromMonth: number, toMonth: number, overrides: Partial<WithholdingRecord> = {}): WithholdingRecord {
+  return {
+    payee: { fullName: 'Lê Thị Hoa', taxCode: '8098765432', residency: 'resident' },
+    incomeType: 'salary_without_contract',
+    year: 2026,
+    fromMonth,
+    toMonth,
+    taxableIncome: 5_000_000,
+    taxWithheld: 500_000,
+    ...overrides,
+  };
+}
+
+test.describe('issueCertificates', () => {
+  test('numbers each payment in the batch and keeps the number when reissued', () => {
+    const first = issueCertificates({
+      payer,
+      records: [record(1, 1), record(2, 2)],
+      series: createCertificateSeries(payer.taxCode, 2026),
+    });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+    expect(first.certificates.map(c => c.number)).toEqual(['0000001', '0000002']);
+
+    const again = issueCertificates({ payer, records: [record(2, 2), record(3, 3)], series: first.series });
+    expect(again.ok && again.certificates.map(c => c.number)).toEqual(['0000002', '0000003']);
+  });
+
+  test('rejects a batch with two payments under the same payee, income type and period', () => {
+    const series = createCertificateSeries(payer.taxCode, 2026);
+    const result = issueCertificates({
+      payer,
+      records: [record(3, 3), record(4, 4), record(3, 3, { taxableIncome: 2_000_000, taxWithheld: 200_000 })],
+      series,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      {
+        path: 'records[2]',
+        message: 'Lê Thị Hoa: trùng người nhận, loại thu nhập và kỳ với khoản thứ 1 - gộp thành một khoản trước khi cấp chứng từ',
+      },
+    ]);
+    expect(series.lastNumber).toBe(0);
+  });
+
+  test('keeps the number when the payee tax code is filled in later', () => {
+    const payee = { fullName: 'Phạm Minh Tuấn', idNumber: '079123456789', residency: 'resident' as const, employeeId: 'NV007' };
+    const first = issueCertificates({
+      payer,
+      records: [record(5, 5, { payee })],
+      series: createCertificateSeries(payer.taxCode, 2026),
+    });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+
+    const reissued = issueCertificates({
+      payer,
+      records: [record(5, 5, { payee: { ...payee, taxCode: '8087654321' } }), record(6, 6, { payee })],
+      series: first.series,
+    });
+
+    expect(reissued.ok && reissued.certificates.map(c => c.number)).toEqual(['0000001', '0000002']);
+    expect(reissued.ok && reissued.series.lastNumber).toBe(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { expect, test } from '@playwright/test';
+import {
+  checkCommitmentEligibility,
+  generateCommitmentDocument,
+  type CommitmentInput,
+} from '../withholdingTaxCalculator';
+
+function commitmentInput(overrides: Partial<CommitmentInput> = {}): CommitmentInput {
+  return {
+    year: 2026,
+    incomeType: 'salary_without_contract',
+    residencyStatus: 'resident',
+    projectedAnnualIncome: 120_000_000,
+    hasOtherIncome: false,
+    dependents: [],
+    hasTaxCode: true,
+    ...overrides,
+  };
+}
+
+test.describe('checkCommitmentEligibility', () => {
+  // The limit is the family deduction of the year: 12 × 11M before 2026, 12 × 15.5M from 2026
+  for (const { year, limit } of [{ year: 2025, limit: 132_000_000 }, { year: 2026, limit: 186_000_000 }]) {
+    test(`allows income up to the ${year} family deduction and not one dong more`, () => {
+      const atLimit = checkCommitmentEligibility(commitmentInput({ year, projectedAnnualIncome: limit }));
+      const over = checkCommitmentEligibility(commitmentInput({ year, projectedAnnualIncome: limit + 1 }));
+
+      expect(atLimit).toMatchObject({ eligible: true, incomeLimit: limit, headroom: 0, reasons: [] });
+      expect(over).toMatchObject({ eligible: false, headroom: -1 });
+      expect(over.reasons).toHaveLength(1);
+      expect(over.reasons[0]).toContain('đã đến mức phải nộp thuế');
+    });
+  }
+
+  test('counts each dependent only in the months they are registered for', () => {
+    const result = checkCommitmentEligibility(commitmentInput({
+      dependents: [{ id: 'dep_1', name: 'Con', fromMonth: 4, toMonth: 12 }],
+    }));
+
+    expect(result.months.map(m => m.dependentCount)).toEqual([0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(result.totalDependentDeduction).toBe(9 * 6_200_000);
+    expect(result.incomeLimit).toBe(186_000_000 + 9 * 6_200_000);
+  });
+
+  test('lists every unmet condition', () => {
+    const result = checkCommitmentEligibility(commitmentInput({
+      incomeType: 'freelance',
+      residencyStatus: 'non_resident',
+      projectedAnnualIncome: 0,
+      hasOtherIncome: true,
+      hasTaxCode: false,
+    }));
+
+    expect(result.eligible).toBe(false);
+    expect(result.reasons).toEqual([
+      'Chỉ cá nhân cư trú được làm cam kết - cá nhân không cư trú bị khấu trừ 20%.',
+      'Cam kết chỉ áp dụng cho thu nhập tiền lương, tiền công không có HĐLĐ hoặc HĐLĐ dưới 3 tháng.',
+      'Có thu nhập khác - chỉ được cam kết khi đây là nguồn thu nhập duy nhất.',
+      'Chưa có mã số thuế - cần đăng ký MST trước khi làm cam kết.',
+      'Chưa nhập tổng thu nhập ước tính cả năm.',
+    ]);
+  });
+});
+
+test.describe('generateCommitmentDocument', () => {
+  test('fills the form with the deduction totals and the payer', () => {
+    const eligibility = checkCommitmentEligibility(commitmentInput({
+      dependents: [{ id: 'dep_1', name: 'Con', fromMonth: 1, toMonth: 12 }],
+    }));
+    const doc = generateCommitmentDocument(eligibility, {
+      fullName: 'Lê Văn Hùng',
+      taxCode: '8012345678',
+      employer: 'Công ty Sao Mai',
+    });
+
+    expect(doc.formCode).toBe('08/CK-TNCN');
+    expect(doc.sections[1].rows.map(row => row.value)).toEqual([
+      120_000_000,
+      186_000_000,
+      74_400_000,
+      260_400_000,
+    ]);
+    expect(doc.sections[1].rows[2].label).toBe('Giảm trừ người phụ thuộc (tối đa 1 người)');
+    expect(doc.statement).toContain('tại Công ty Sao Mai');
+  });
+});
@@ -0,0 +1,39 @@
+import { expect, test } from '@playwright/test';
+import { crc32, createZip, isZipData, readZip } from '../zipArchive';
+
+const encoder = new TextEncoder();
+
+test.describe('zipArchive', () => {
+  test('reads back the entries it wrote, including Unicode names and empty files', () => {
+    const entries = [
+      { name: 'saves.json', data: encoder.encode('{"saves":[]}') },
+      { name: 'evidence/ev_1/Biên lai từ thiện.pdf', data: new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff]) },
+      { name: 'empty.txt', data: new Uint8Array(0) },
+    ];
+
+    const zip = createZip(entries);
+
+    expect(isZipData(zip)).toBe(true);
+    expect(readZip(zip)).toEqual(entries);
+  });
+
+  test('writes the same bytes for the same entries', () => {
+    const entries = [{ name: 'a.txt', data: encoder.encode('a') }];
+
+    expect(createZip(entries)).toEqual(createZip(entries));
+  });
+
+  test('computes the standard CRC-32', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  test('rejects corrupted data and files that are not zips', () => {
+    const zip = createZip([{ name: 'saves.json', data: encoder.encode('{"saves":[]}') }]);
+    // First byte of the stored data, right after the 30-byte header and the name
+    zip[30 + 'saves.json'.length] ^= 0x01;
+
+    expect(() => readZip(zip)).toThrow('File "saves.json" trong zip bị hỏng');
+    expect(isZipData(encoder.encode('{"saves":[]}'))).toBe(false);
+    expect(() => readZip(encoder.encode('{"saves":[]}'))).toThrow('File zip không hợp lệ');
+  });
+});
@@ -6,19 +6,24 @@
  * - Current law (2025): 7 brackets, 11M/4.4M deductions
  * - New law (2026 from 01/01): 5 brackets, 15.5M/6.2M deductions
  * - Circular 111/2013/TT-BTC for settlement procedures
+ * - Decree 126/2020/ND-CP Art. 8(6) for who may authorise the employer
  */
 
 import {
   RegionType,
   InsuranceOptions,
   DEFAULT_INSURANCE_OPTIONS,
-  OLD_TAX_BRACKETS,
-  NEW_TAX_BRACKETS,
-  OLD_DEDUCTIONS,
-  NEW_DEDUCTIONS,
   getInsuranceDetailed,
   InsuranceDetail,
+  getPeriodDate,
 } from './taxCalculator';
+import { PitLaw, TaxBracket, TaxRuleSet, getTaxRulesForDate, getTaxRulesForLaw } from './taxRuleRegistry';
+import type { ExcelColumn, ExcelSheet } from './exportUtils';
+import {
+  type DependentType,
+  countDependentMonths,
+  countDependentsInMonth,
+} from './dependentRegistry';
 
 // ===== TYPES =====
 
@@ -35,14 +40,42 @@ export interface MonthlyIncomeEntry {
   taxPaid: number; // Tax already withheld for this month
 }
 
+/**
+ * Loại hợp đồng với nơi chi trả
+ * - labor_contract: HĐLĐ từ 3 tháng trở lên, khấu trừ theo biểu lũy tiến
+ * - flat_10: HĐLĐ dưới 3 tháng / hợp đồng dịch vụ, khấu trừ 10% (thu nhập vãng lai)
+ */
+export type PayerContractType = 'labor_contract' | 'flat_10';
+
+/**
+ * Một nơi chi trả thu nhập trong năm (theo chứng từ khấu trừ thuế TNCN)
+ */
+export interface PayerIncome {
+  id: string;
+  name: string;
+  taxCode?: string; // MST tổ chức chi trả
+  contractType: PayerContractType;
+  monthlyIncome: MonthlyIncomeEntry[]; // Chỉ các tháng có thu nhập từ nơi này
+  certificateTaxWithheld?: number; // Số thuế trên chứng từ khấu trừ (ưu tiên hơn tổng taxPaid theo tháng)
+  isCurrentEmployer?: boolean; // Đang làm việc tại đây vào thời điểm quyết toán
+}
+
 /**
  * Dependent information with registration period
+ * Eligibility rules (age, income limit) live in dependentRegistry
  */
 export interface DependentInfo {
   id: string;
   name: string;
   fromMonth: number; // Month started (1-12)
   toMonth: number; // Month ended (1-12), 12 if still active
+  fromYear?: number; // Năm bắt đầu đăng ký (bỏ trống = năm đang tính)
+  toYear?: number; // Năm kết thúc đăng ký (bỏ trống = năm đang tính)
+  type?: DependentType;
+  dateOfBirth?: string; // YYYY-MM-DD
+  taxCode?: string; // MST người phụ thuộc
+  idNumber?: string; // CCCD/định danh cá nhân (khi chưa có MST)
+  averageMonthlyIncome?: number; // Thu nhập bình quân tháng từ mọi nguồn
 }
 
 /**
@@ -51,8 +84,10 @@ export interface DependentInfo {
 export interface AnnualSettlementInput {
   year: SettlementYear;
 
-  // Income data
-  monthlyIncome: MonthlyIncomeEntry[];
+  // Income data (một nơi chi trả)
+  monthlyIncome?: MonthlyIncomeEntry[];
+  // Nhiều nơi chi trả - khi có, thay thế monthlyIncome
+  payers?: PayerIncome[];
 
   // Deductions
   dependents: DependentInfo[];
@@ -100,6 +135,7 @@ export interface PeriodResult {
 export interface MonthlyBreakdown {
   month: number;
   monthName: string;
+  asOf: Date; // Kỳ tính thuế của tháng
   law: 'old' | 'new';
   gross: number;
   bonus: number;
@@ -111,6 +147,33 @@ export interface MonthlyBreakdown {
   taxPaid: number;
 }
 
+/**
+ * Phần quyết toán phân bổ cho từng nơi chi trả
+ * Thuế phải nộp cả năm được chia theo tỷ trọng thu nhập chịu thuế của từng nơi
+ */
+export interface PayerSettlement {
+  payerId: string;
+  name: string;
+  contractType: PayerContractType;
+  taxableIncome: number;
+  taxWithheld: number; // Đã khấu trừ theo chứng từ
+  allocatedTaxDue: number; // Phần thuế cả năm phân bổ cho nơi này
+  payable: number; // Nộp thêm
+  refundable: number; // Được hoàn
+}
+
+export type SettlementFilingMethod = 'authorize' | 'self_file';
+
+/**
+ * Hình thức quyết toán: ủy quyền cho tổ chức chi trả hay tự quyết toán với cơ quan thuế
+ */
+export interface SettlementFilingDecision {
+  method: SettlementFilingMethod;
+  authorizedPayerId?: string; // Nơi nhận ủy quyền (khi method = 'authorize')
+  filingRequired: boolean; // false: được miễn tự quyết toán (nộp thêm ≤ 50.000đ hoặc chỉ có hoàn thuế)
+  reasons: string[];
+}
+
 /**
  * Complete annual settlement result
  */
@@ -129,6 +192,8 @@ export interface AnnualSettlementResult {
   totalDependentDeduction: number;
   totalInsuranceDeduction: number;
   totalOtherDeduction: number;
+  totalCharitableDeduction: number; // Từ thiện, nhân đạo, khuyến học (trong totalOtherDeduction)
+  totalPensionDeduction: number; // Hưu trí tự nguyện sau giới hạn (trong totalOtherDeduction)
   totalDeductions: number;
 
   // Tax calculation
@@ -159,6 +224,10 @@ export interface AnnualSettlementResult {
     deductionPerMonth: number;
     totalDeduction: number;
   };
+
+  // Chỉ có khi nhập nhiều nơi chi trả
+  payerBreakdown?: PayerSettlement[];
+  filing?: SettlementFilingDecision;
 }
 
 // ===== CONSTANTS =====
@@ -173,6 +242,15 @@ const MONTH_NAMES = [
 const MAX_VOLUNTARY_PENSION_MONTHLY = 1_000_000;
 const MAX_VOLUNTARY_PENSION_YEARLY = 12_000_000;
 
+// Điều kiện ủy quyền quyết toán (Điều 8 khoản 6 NĐ 126/2020/NĐ-CP)
+const MAX_CASUAL_INCOME_MONTHLY_AVERAGE = 10_000_000; // Thu nhập vãng lai bình quân tháng
+const SMALL_PAYABLE_THRESHOLD = 50_000; // Nộp thêm ≤ 50.000đ được miễn quyết toán
+
+export const PAYER_CONTRACT_LABELS: Record<PayerContractType, string> = {
+  labor_contract: 'HĐLĐ từ 3 tháng (lũy tiến)',
+  flat_10: 'Vãng lai / dưới 3 tháng (10%)',
+};
+
 // ===== HELPER FUNCTIONS =====
 
 /**
@@ -182,29 +260,41 @@ export function generateDependentId(): string {
   return `dep_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Generate unique ID for payer
+ */
+export function generatePayerId(): string {
+  return `payer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Determine which law applies for a given month in a given year
  * Note: Luật mới (5 bậc) áp dụng từ 01/01/2026 cho thu nhập từ tiền lương, tiền công
  * theo điều khoản chuyển tiếp của Luật Thuế TNCN sửa đổi 2025
  */
-export function getLawForMonth(year: SettlementYear, month: number): 'old' | 'new' {
-  if (year === 2025) return 'old';
-  // 2026: Luật mới áp dụng từ tháng 1 (không phải tháng 7)
-  return 'new';
+export function getLawForMonth(year: SettlementYear, month: number): PitLaw {
+  return getRulesForMonth(year, month).law;
+}
+
+/**
+ * Bộ tham số (giảm trừ, trần bảo hiểm...) áp dụng cho một tháng của năm quyết toán
+ */
+function getRulesForMonth(year: SettlementYear, month: number): TaxRuleSet {
+  return getTaxRulesForDate(getPeriodDate(year, month));
 }
 
 /**
- * Get deductions for a specific law
+ * Get deductions for a specific law (phiên bản có hiệu lực tại asOf nếu có)
  */
-function getDeductions(law: 'old' | 'new') {
-  return law === 'old' ? OLD_DEDUCTIONS : NEW_DEDUCTIONS;
+function getDeductions(law: PitLaw, asOf?: Date) {
+  return getTaxRulesForLaw(law, asOf).deductions;
 }
 
 /**
- * Get tax brackets for a specific law
+ * Get tax brackets for a specific law (phiên bản có hiệu lực tại asOf nếu có)
  */
-function getTaxBrackets(law: 'old' | 'new') {
-  return law === 'old' ? OLD_TAX_BRACKETS : NEW_TAX_BRACKETS;
+function getTaxBrackets(law: PitLaw, asOf?: Date) {
+  return getTaxRulesForLaw(law, asOf).brackets;
 }
 
 /**
@@ -212,7 +302,7 @@ function getTaxBrackets(law: 'old' | 'new') {
  */
 function calculateTaxWithBrackets(
   assessableIncome: number,
-  brackets: typeof OLD_TAX_BRACKETS
+  brackets: TaxBracket[]
 ): number {
   if (assessableIncome <= 0) return 0;
 
@@ -230,22 +320,6 @@ function calculateTaxWithBrackets(
   return tax;
 }
 
-/**
- * Calculate total months a dependent is registered
- */
-function calculateDependentMonths(dep: DependentInfo): number {
-  return Math.max(0, dep.toMonth - dep.fromMonth + 1);
-}
-
-/**
- * Calculate dependent deduction for a specific month
- */
-function getDependentCountForMonth(dependents: DependentInfo[], month: number): number {
-  return dependents.filter(
-    (dep) => month >= dep.fromMonth && month <= dep.toMonth
-  ).length;
-}
-
 /**
  * Create default monthly income entries
  */
@@ -263,6 +337,168 @@ export function createDefaultMonthlyIncome(
   }));
 }
 
+/**
+ * Thu nhập theo tháng cho một nơi chi trả, từ tháng fromMonth đến toMonth
+ */
+export function createPayerMonthlyIncome(
+  fromMonth: number,
+  toMonth: number,
+  grossSalary: number
+): MonthlyIncomeEntry[] {
+  return Array.from({ length: Math.max(0, toMonth - fromMonth + 1) }, (_, i) => ({
+    month: fromMonth + i,
+    grossSalary,
+    bonus: 0,
+    taxExempt: 0,
+    taxPaid: 0,
+  }));
+}
+
+/**
+ * Gộp thu nhập của các nơi chi trả thành 12 tháng
+ */
+function mergePayerIncome(payers: PayerIncome[]): MonthlyIncomeEntry[] {
+  const merged = createDefaultMonthlyIncome();
+  for (const payer of payers) {
+    for (const entry of payer.monthlyIncome) {
+      const target = merged[entry.month - 1];
+      if (!target) continue;
+      target.grossSalary += entry.grossSalary;
+      target.bonus += entry.bonus;
+      target.taxExempt += entry.taxExempt;
+      target.taxPaid += entry.taxPaid;
+    }
+  }
+  return merged;
+}
+
+function getPayerTaxableIncome(payer: PayerIncome): number {
+  return payer.monthlyIncome.reduce(
+    (sum, m) => sum + m.grossSalary + m.bonus - m.taxExempt,
+    0
+  );
+}
+
+/**
+ * Thuế đã khấu trừ tại một nơi: số trên chứng từ nếu có, ngược lại cộng theo tháng
+ */
+export function getPayerTaxWithheld(payer: PayerIncome): number {
+  return (
+    payer.certificateTaxWithheld ??
+    payer.monthlyIncome.reduce((sum, m) => sum + m.taxPaid, 0)
+  );
+}
+
+/**
+ * Chia thuế cả năm cho từng nơi chi trả theo tỷ trọng thu nhập chịu thuế,
+ * so với số đã khấu trừ để ra số nộp thêm / được hoàn tại từng nơi
+ */
+function allocateSettlementByPayer(
+  payers: PayerIncome[],
+  annualTaxDue: number
+): PayerSettlement[] {
+  const taxableByPayer = payers.map(getPayerTaxableIncome);
+  const totalTaxable = taxableByPayer.reduce((sum, value) => sum + Math.max(0, value), 0);
+
+  return payers.map((payer, index) => {
+    const taxableIncome = taxableByPayer[index];
+    const share = totalTaxable > 0 ? Math.max(0, taxableIncome) / totalTaxable : 0;
+    const allocatedTaxDue = annualTaxDue * share;
+    const taxWithheld = getPayerTaxWithheld(payer);
+    const balance = allocatedTaxDue - taxWithheld;
+
+    return {
+      payerId: payer.id,
+      name: payer.name,
+      contractType: payer.contractType,
+      taxableIncome,
+      taxWithheld,
+      allocatedTaxDue,
+      payable: Math.max(0, balance),
+      refundable: Math.max(0, -balance),
+    };
+  });
+}
+
+function getCasualIncome(payers: PayerIncome[]): number {
+  return payers
+    .filter((p) => p.contractType === 'flat_10')
+    .reduce((sum, p) => sum + getPayerTaxableIncome(p), 0);
+}
+
+/**
+ * Nơi nhận ủy quyền quyết toán: nơi duy nhất ký HĐLĐ từ 3 tháng, đang làm việc
+ * tại đó và thu nhập vãng lai bình quân không quá 10 triệu/tháng; null khi phải tự quyết toán
+ */
+function findAuthorizedEmployer(payers: PayerIncome[]): PayerIncome | null {
+  const laborPayers = payers.filter((p) => p.contractType === 'labor_contract');
+  if (laborPayers.length !== 1 || !laborPayers[0].isCurrentEmployer) return null;
+  return getCasualIncome(payers) / 12 <= MAX_CASUAL_INCOME_MONTHLY_AVERAGE ? laborPayers[0] : null;
+}
+
+/**
+ * Xác định được ủy quyền quyết toán hay phải tự quyết toán
+ * (Điều 8 khoản 6 NĐ 126/2020/NĐ-CP):
+ * - Ủy quyền: ký HĐLĐ từ 3 tháng tại MỘT nơi và đang làm việc tại đó khi quyết toán
+ *   (kể cả không đủ 12 tháng); thu nhập vãng lai nơi khác bình quân ≤ 10 triệu/tháng
+ *   đã khấu trừ 10% thì không quyết toán phần này
+ * - Còn lại phải tự quyết toán; được miễn nếu nộp thêm ≤ 50.000đ hoặc chỉ có số hoàn
+ *   mà không đề nghị hoàn
+ */
+export function determineSettlementFiling(
+  payers: PayerIncome[],
+  difference: number
+): SettlementFilingDecision {
+  const laborPayers = payers.filter((p) => p.contractType === 'labor_contract');
+  const currentLaborPayers = laborPayers.filter((p) => p.isCurrentEmployer);
+  const casualIncome = getCasualIncome(payers);
+  const casualMonthlyAverage = casualIncome / 12;
+  const casualWithinLimit = casualMonthlyAverage <= MAX_CASUAL_INCOME_MONTHLY_AVERAGE;
+
+  const reasons: string[] = [];
+
+  const employer = findAuthorizedEmployer(payers);
+  if (employer) {
+    reasons.push(`Chỉ ký HĐLĐ từ 3 tháng tại ${employer.name} và đang làm việc tại đó`);
+    if (casualIncome > 0) {
+      reasons.push(
+        'Thu nhập vãng lai bình quân không quá 10 triệu/tháng đã khấu trừ 10%: ' +
+          'tổ chức nhận ủy quyền không quyết toán phần thu nhập này'
+      );
+    }
+    return {
+      method: 'authorize',
+      authorizedPayerId: employer.id,
+      filingRequired: false,
+      reasons,
+    };
+  }
+
+  if (laborPayers.length === 0) {
+    reasons.push('Không có HĐLĐ từ 3 tháng trở lên tại nơi nào');
+  } else if (laborPayers.length > 1) {
+    reasons.push(`Có thu nhập tiền lương từ ${laborPayers.length} nơi ký HĐLĐ từ 3 tháng`);
+  } else if (currentLaborPayers.length === 0) {
+    reasons.push(`Không còn làm việc tại ${laborPayers[0].name} vào thời điểm quyết toán`);
+  }
+  if (!casualWithinLimit) {
+    reasons.push(
+      `Thu nhập vãng lai bình quân ${Math.round(casualMonthlyAverage).toLocaleString('vi-VN')}đ/tháng, vượt 10 triệu/tháng`
+    );
+  }
+
+  let filingRequired = true;
+  if (difference <= 0) {
+    filingRequired = false;
+    reasons.push('Không phát sinh số thuế nộp thêm: chỉ cần quyết toán nếu muốn hoàn thuế');
+  } else if (difference <= SMALL_PAYABLE_THRESHOLD) {
+    filingRequired = false;
+    reasons.push('Số thuế nộp thêm không quá 50.000đ: được miễn quyết toán');
+  }
+
+  return { method: 'self_file', filingRequired, reasons };
+}
+
 /**
  * Calculate monthly tax (for estimating tax paid)
  */
@@ -270,10 +506,11 @@ export function estimateMonthlyTax(
   grossSalary: number,
   dependents: number,
   insuranceDeduction: number,
-  law: 'old' | 'new'
+  law: 'old' | 'new',
+  asOf?: Date
 ): number {
-  const deductions = getDeductions(law);
-  const brackets = getTaxBrackets(law);
+  const deductions = getDeductions(law, asOf);
+  const brackets = getTaxBrackets(law, asOf);
 
   const totalDeductions =
     insuranceDeduction +
@@ -294,7 +531,7 @@ export function calculateAnnualSettlement(
 ): AnnualSettlementResult {
   const {
     year,
-    monthlyIncome,
+    payers,
     dependents,
     charitableContributions,
     voluntaryPension,
@@ -302,20 +539,39 @@ export function calculateAnnualSettlement(
     region,
     manualTaxPaid,
   } = input;
+  const hasPayers = payers !== undefined && payers.length > 0;
+  // Ủy quyền quyết toán: tổ chức nhận ủy quyền không quyết toán thu nhập vãng lai
+  // đã khấu trừ 10%, nên phần này không vào tổng thuế năm và không chia cho nơi chi trả
+  const settledPayers = hasPayers && findAuthorizedEmployer(payers)
+    ? payers.filter((payer) => payer.contractType !== 'flat_10')
+    : payers ?? [];
+  const monthlyIncome = hasPayers ? mergePayerIncome(settledPayers) : input.monthlyIncome ?? [];
 
   // Note: Từ 01/01/2026, luật mới áp dụng cho cả năm 2026
   // Không còn năm chuyển tiếp - 2025 dùng luật cũ, 2026 dùng luật mới
   const isTransitionYear = false;
 
   // Calculate insurance per month (date-aware caps)
+  // Nhiều nơi chi trả: mỗi nơi ký HĐLĐ đóng bảo hiểm trên lương của mình, HĐ vãng lai không đóng
   const insuranceByMonth = new Map<number, InsuranceDetail>();
-  monthlyIncome.forEach((entry) => {
-    const insuranceDate = new Date(year, entry.month - 1, 1);
-    insuranceByMonth.set(
-      entry.month,
-      getInsuranceDetailed(entry.grossSalary, region, insuranceOptions, insuranceDate)
-    );
-  });
+  const addInsurance = (entry: MonthlyIncomeEntry) => {
+    const insuranceDate = getPeriodDate(year, entry.month);
+    const detail = getInsuranceDetailed(entry.grossSalary, region, insuranceOptions, insuranceDate);
+    const current = insuranceByMonth.get(entry.month) ?? { bhxh: 0, bhyt: 0, bhtn: 0, total: 0 };
+    insuranceByMonth.set(entry.month, {
+      bhxh: current.bhxh + detail.bhxh,
+      bhyt: current.bhyt + detail.bhyt,
+      bhtn: current.bhtn + detail.bhtn,
+      total: current.total + detail.total,
+    });
+  };
+  if (hasPayers) {
+    payers
+      .filter((payer) => payer.contractType === 'labor_contract')
+      .forEach((payer) => payer.monthlyIncome.forEach(addInsurance));
+  } else {
+    monthlyIncome.forEach(addInsurance);
+  }
 
   const getInsuranceForMonth = (month: number): InsuranceDetail =>
     insuranceByMonth.get(month) ?? { bhxh: 0, bhyt: 0, bhtn: 0, total: 0 };
@@ -325,14 +581,14 @@ export function calculateAnnualSettlement(
 
   // Calculate monthly breakdown
   const monthlyBreakdown: MonthlyBreakdown[] = monthlyIncome.map((entry) => {
-    const law = getLawForMonth(year, entry.month);
-    const deductions = getDeductions(law);
-    const dependentCount = getDependentCountForMonth(dependents, entry.month);
+    const { law, deductions } = getRulesForMonth(year, entry.month);
+    const dependentCount = countDependentsInMonth(dependents, year, entry.month);
     const insuranceDetail = getInsuranceForMonth(entry.month);
 
     return {
       month: entry.month,
       monthName: MONTH_NAMES[entry.month - 1],
+      asOf: getPeriodDate(year, entry.month),
       law,
       gross: entry.grossSalary,
       bonus: entry.bonus,
@@ -354,7 +610,9 @@ export function calculateAnnualSettlement(
   // Calculate total tax paid (either manual or sum of monthly)
   const totalTaxPaid =
     manualTaxPaid ??
-    monthlyIncome.reduce((sum, m) => sum + m.taxPaid, 0);
+    (hasPayers
+      ? settledPayers.reduce((sum, payer) => sum + getPayerTaxWithheld(payer), 0)
+      : monthlyIncome.reduce((sum, m) => sum + m.taxPaid, 0));
 
   // Calculate period results
   let periods: PeriodResult[] | undefined;
@@ -367,6 +625,7 @@ export function calculateAnnualSettlement(
 
     const firstHalf = calculatePeriodResult(
       'T1-T6',
+      year,
       'old',
       firstHalfMonths,
       monthlyIncome,
@@ -378,6 +637,7 @@ export function calculateAnnualSettlement(
 
     const secondHalf = calculatePeriodResult(
       'T7-T12',
+      year,
       'new',
       secondHalfMonths,
       monthlyIncome,
@@ -393,9 +653,10 @@ export function calculateAnnualSettlement(
     // 2025: Single calculation with old law
     // 2026: Single calculation with new law (từ 01/01/2026)
     const allMonths = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
-    const law = year === 2026 ? 'new' : 'old';
+    const law = getLawForMonth(year, 1);
     const yearResult = calculatePeriodResult(
       'Cả năm',
+      year,
       law,
       allMonths,
       monthlyIncome,
@@ -411,13 +672,10 @@ export function calculateAnnualSettlement(
 
   // Calculate deduction totals
   // Note: 2025 = old law, 2026 = new law (từ 01/01/2026, không có năm chuyển tiếp)
-  const deductions = year === 2026 ? NEW_DEDUCTIONS : OLD_DEDUCTIONS;
+  const deductions = getRulesForMonth(year, 1).deductions;
   const totalPersonalDeduction = 12 * deductions.personal;
 
-  const totalDependentMonths = dependents.reduce(
-    (sum, dep) => sum + calculateDependentMonths(dep),
-    0
-  );
+  const totalDependentMonths = countDependentMonths(dependents, year);
 
   // Calculate dependent deduction based on year
   const totalDependentDeduction = totalDependentMonths * deductions.dependent;
@@ -464,6 +722,8 @@ export function calculateAnnualSettlement(
     totalDependentDeduction,
     totalInsuranceDeduction,
     totalOtherDeduction,
+    totalCharitableDeduction: charitableContributions,
+    totalPensionDeduction: cappedPension,
     totalDeductions,
 
     totalAssessableIncome,
@@ -492,6 +752,11 @@ export function calculateAnnualSettlement(
       deductionPerMonth: deductions.dependent,
       totalDeduction: totalDependentDeduction,
     },
+
+    ...(hasPayers && {
+      payerBreakdown: allocateSettlementByPayer(settledPayers, annualTaxDue),
+      filing: determineSettlementFiling(payers, difference),
+    }),
   };
 }
 
@@ -500,6 +765,7 @@ export function calculateAnnualSettlement(
  */
 function calculatePeriodResult(
   periodName: string,
+  year: SettlementYear,
   law: 'old' | 'new',
   months: number[],
   monthlyIncome: MonthlyIncomeEntry[],
@@ -508,8 +774,8 @@ function calculatePeriodResult(
   charitableContributions: number,
   voluntaryPension: number
 ): PeriodResult {
-  const deductions = getDeductions(law);
-  const brackets = getTaxBrackets(law);
+  // Biểu thuế theo phiên bản có hiệu lực tại tháng cuối của kỳ
+  const brackets = getTaxBrackets(law, getPeriodDate(year, months[months.length - 1]));
 
   // Filter income for this period
   const periodIncome = monthlyIncome.filter((m) => months.includes(m.month));
@@ -521,9 +787,11 @@ function calculatePeriodResult(
   const totalTaxableIncome = totalGross + totalBonus - totalTaxExempt;
   const taxPaid = periodIncome.reduce((sum, m) => sum + m.taxPaid, 0);
 
-  // Calculate deductions for this period
-  const monthCount = months.length;
-  const personalDeduction = monthCount * deductions.personal;
+  // Calculate deductions for this period (mức giảm trừ theo kỳ tính thuế của từng tháng)
+  const personalDeduction = months.reduce(
+    (sum, month) => sum + getRulesForMonth(year, month).deductions.personal,
+    0
+  );
   const insuranceDeduction = months.reduce(
     (sum, month) => sum + (insuranceByMonth.get(month)?.total ?? 0),
     0
@@ -532,8 +800,8 @@ function calculatePeriodResult(
   // Calculate dependent deduction for this period
   let dependentDeduction = 0;
   for (const month of months) {
-    const count = getDependentCountForMonth(dependents, month);
-    dependentDeduction += count * deductions.dependent;
+    const count = countDependentsInMonth(dependents, year, month);
+    dependentDeduction += count * getRulesForMonth(year, month).deductions.dependent;
   }
 
   const otherDeduction = charitableContributions + voluntaryPension;
@@ -597,22 +865,22 @@ export function estimateSettlement(
     })
   );
 
-  // Estimate monthly tax paid
-  const monthlyInsurance = getInsuranceDetailed(
-    averageMonthlySalary,
-    region,
-    insuranceOptions,
-    new Date(year, 0, 1)
-  );
-
+  // Estimate monthly tax paid (trần bảo hiểm theo kỳ tính thuế của từng tháng)
   monthlyIncome.forEach((entry) => {
+    const monthlyInsurance = getInsuranceDetailed(
+      averageMonthlySalary,
+      region,
+      insuranceOptions,
+      getPeriodDate(year, entry.month)
+    );
     const law = getLawForMonth(year, entry.month);
     const taxableForMonth = entry.grossSalary + entry.bonus;
     entry.taxPaid = estimateMonthlyTax(
       taxableForMonth,
       dependentCount,
       monthlyInsurance.total,
-      law
+      law,
+      getPeriodDate(year, entry.month)
     );
   });
 
@@ -647,15 +915,30 @@ export function validateSettlementInput(
     errors.push('Năm quyết toán phải là 2025 hoặc 2026');
   }
 
-  if (!input.monthlyIncome || input.monthlyIncome.length !== 12) {
-    errors.push('Phải có đủ dữ liệu 12 tháng');
-  }
-
-  if (input.monthlyIncome) {
-    const hasNegative = input.monthlyIncome.some(
+  const hasNegativeIncome = (entries: MonthlyIncomeEntry[]) =>
+    entries.some(
       (m) => m.grossSalary < 0 || m.bonus < 0 || m.taxExempt < 0 || m.taxPaid < 0
     );
-    if (hasNegative) {
+
+  if (input.payers && input.payers.length > 0) {
+    for (const payer of input.payers) {
+      if (payer.monthlyIncome.some((m) => m.month < 1 || m.month > 12)) {
+        errors.push(`Nơi chi trả "${payer.name}": Tháng không hợp lệ`);
+      }
+      const months = payer.monthlyIncome.map((m) => m.month);
+      if (new Set(months).size !== months.length) {
+        errors.push(`Nơi chi trả "${payer.name}": Trùng tháng thu nhập`);
+      }
+      if (hasNegativeIncome(payer.monthlyIncome) || (payer.certificateTaxWithheld ?? 0) < 0) {
+        errors.push(`Nơi chi trả "${payer.name}": Các giá trị thu nhập không được âm`);
+      }
+    }
+  } else {
+    if (!input.monthlyIncome || input.monthlyIncome.length !== 12) {
+      errors.push('Phải có đủ dữ liệu 12 tháng');
+    }
+
+    if (input.monthlyIncome && hasNegativeIncome(input.monthlyIncome)) {
       errors.push('Các giá trị thu nhập không được âm');
     }
   }
@@ -682,3 +965,111 @@ export function validateSettlementInput(
 
   return errors;
 }
+
+// ===== EXCEL EXPORT =====
+
+const SETTLEMENT_MONTHLY_HEADERS = [
+  'Tháng', 'Luật áp dụng', 'Lương gross', 'Thưởng', 'Miễn thuế', 'Thu nhập chịu thuế',
+  'Bảo hiểm', 'Giảm trừ bản thân', 'Giảm trừ NPT', 'Thuế đã khấu trừ',
+];
+
+/**
+ * Các sheet xuất Excel cho quyết toán: tổng hợp, chi tiết theo tháng,
+ * theo giai đoạn (năm chuyển tiếp) và theo nơi chi trả
+ */
+export function buildSettlementSheets(result: AnnualSettlementResult): ExcelSheet[] {
+  const vnd: ExcelColumn = { format: 'vnd' };
+  const lawLabel = (law: 'old' | 'new') => (law === 'old' ? 'Luật cũ' : 'Luật mới');
+
+  const sheets: ExcelSheet[] = [
+    {
+      name: 'Tổng hợp',
+      headers: ['Chỉ tiêu', 'Số tiền'],
+      columns: { 'Số tiền': vnd },
+      rows: [
+        { 'Chỉ tiêu': 'Năm quyết toán', 'Số tiền': String(result.year) },
+        { 'Chỉ tiêu': 'Tổng thu nhập gross', 'Số tiền': result.totalGrossIncome },
+        { 'Chỉ tiêu': 'Tổng thưởng', 'Số tiền': result.totalBonusIncome },
+        { 'Chỉ tiêu': 'Thu nhập miễn thuế', 'Số tiền': result.totalTaxExemptIncome },
+        { 'Chỉ tiêu': 'Thu nhập chịu thuế', 'Số tiền': result.totalTaxableIncome },
+        { 'Chỉ tiêu': 'Giảm trừ bản thân', 'Số tiền': result.totalPersonalDeduction },
+        { 'Chỉ tiêu': 'Giảm trừ người phụ thuộc', 'Số tiền': result.totalDependentDeduction },
+        { 'Chỉ tiêu': 'Bảo hiểm bắt buộc', 'Số tiền': result.totalInsuranceDeduction },
+        { 'Chỉ tiêu': 'Giảm trừ khác', 'Số tiền': result.totalOtherDeduction },
+        { 'Chỉ tiêu': 'Thu nhập tính thuế', 'Số tiền': result.totalAssessableIncome },
+        { 'Chỉ tiêu': 'Thuế phải nộp cả năm', 'Số tiền': result.annualTaxDue },
+        { 'Chỉ tiêu': 'Thuế đã khấu trừ', 'Số tiền': result.totalTaxPaid },
+        {
+          'Chỉ tiêu': result.difference >= 0 ? 'Thuế nộp thêm' : 'Thuế được hoàn',
+          'Số tiền': Math.abs(result.difference),
+        },
+      ],
+    },
+    {
+      name: 'Theo tháng',
+      headers: SETTLEMENT_MONTHLY_HEADERS,
+      columns: Object.fromEntries(
+        SETTLEMENT_MONTHLY_HEADERS.slice(2).map((header) => [header, vnd])
+      ),
+      rows: result.monthlyBreakdown.map((month) => ({
+        'Tháng': month.monthName,
+        'Luật áp dụng': lawLabel(month.law),
+        'Lương gross': month.gross,
+        'Thưởng': month.bonus,
+        'Miễn thuế': month.taxExempt,
+        'Thu nhập chịu thuế': month.taxableIncome,
+        'Bảo hiểm': month.insurance,
+        'Giảm trừ bản thân': month.personalDeduction,
+        'Giảm trừ NPT': month.dependentDeduction,
+        'Thuế đã khấu trừ': month.taxPaid,
+      })),
+      totals: { label: 'Cả năm', columns: SETTLEMENT_MONTHLY_HEADERS.slice(2) },
+    },
+  ];
+
+  if (result.periods && result.periods.length > 0) {
+    const periodHeaders = [
+      'Giai đoạn', 'Luật áp dụng', 'Thu nhập chịu thuế', 'Tổng giảm trừ',
+      'Thu nhập tính thuế', 'Thuế phải nộp', 'Thuế đã khấu trừ',
+    ];
+    sheets.push({
+      name: 'Theo giai đoạn',
+      headers: periodHeaders,
+      columns: Object.fromEntries(periodHeaders.slice(2).map((header) => [header, vnd])),
+      rows: result.periods.map((period) => ({
+        'Giai đoạn': period.periodName,
+        'Luật áp dụng': lawLabel(period.law),
+        'Thu nhập chịu thuế': period.totalTaxableIncome,
+        'Tổng giảm trừ': period.totalDeductions,
+        'Thu nhập tính thuế': period.assessableIncome,
+        'Thuế phải nộp': period.taxDue,
+        'Thuế đã khấu trừ': period.taxPaid,
+      })),
+      totals: { label: 'Cả năm', columns: periodHeaders.slice(2) },
+    });
+  }
+
+  if (result.payerBreakdown && result.payerBreakdown.length > 0) {
+    const payerHeaders = [
+      'Nơi chi trả', 'Loại hợp đồng', 'Thu nhập chịu thuế', 'Đã khấu trừ',
+      'Thuế phân bổ', 'Nộp thêm', 'Được hoàn',
+    ];
+    sheets.push({
+      name: 'Nơi chi trả',
+      headers: payerHeaders,
+      columns: Object.fromEntries(payerHeaders.slice(2).map((header) => [header, vnd])),
+      rows: result.payerBreakdown.map((payer) => ({
+        'Nơi chi trả': payer.name,
+        'Loại hợp đồng': PAYER_CONTRACT_LABELS[payer.contractType],
+        'Thu nhập chịu thuế': payer.taxableIncome,
+        'Đã khấu trừ': payer.taxWithheld,
+        'Thuế phân bổ': payer.allocatedTaxDue,
+        'Nộp thêm': payer.payable,
+        'Được hoàn': payer.refundable,
+      })),
+      totals: { label: 'Tổng cộng', columns: payerHeaders.slice(2) },
+    });
+  }
+
+  return sheets;
+}
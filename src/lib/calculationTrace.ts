@@ -0,0 +1,363 @@
+/**
+ * Calculation Trace - Diễn giải từng bước một kết quả tính thuế
+ *
+ * Mỗi bước gồm: nhãn, công thức, các giá trị đầu vào, kết quả và căn cứ pháp lý.
+ * Thứ tự bước đúng như thứ tự tính: bảo hiểm (có trần) → giảm trừ gia cảnh →
+ * phụ cấp miễn thuế → thu nhập tính thuế → từng bậc thuế → thuế phải nộp.
+ *
+ * Trace chỉ được dựng khi gọi với `trace: true` để không tốn chi phí ở các
+ * vòng tính lặp (biểu đồ, tìm kiếm gross từ net...).
+ */
+
+import type {
+  AllowancesBreakdown,
+  InsuranceDetail,
+  InsuranceOptions,
+  RegionType,
+  TaxBreakdownItem,
+} from './taxCalculator';
+import type { PitLaw, TaxRuleSet, TaxRuleSetId } from './taxRuleRegistry';
+
+// ===== TYPES =====
+
+export interface LegalReference {
+  document: string; // Tên văn bản (VD: Luật 109/2025/QH15)
+  article?: string; // Điều, khoản áp dụng
+}
+
+export type TraceStepKind = 'insurance' | 'deduction' | 'allowance' | 'income' | 'bracket' | 'result';
+
+export interface TraceStep {
+  id: string;
+  kind: TraceStepKind;
+  label: string;
+  formula: string;
+  inputs: Record<string, number>; // Nhãn hiển thị → giá trị
+  output: number;
+  legalRef?: LegalReference;
+}
+
+export interface CalculationTrace {
+  asOf: Date; // Kỳ tính thuế
+  ruleSetId: TaxRuleSetId; // Bộ tham số đã tra cứu theo asOf
+  law: PitLaw; // Biểu thuế & giảm trừ đã áp dụng
+  steps: TraceStep[];
+}
+
+// ===== LEGAL REFERENCES =====
+
+export const LEGAL_REFERENCES = {
+  socialInsuranceCap: {
+    document: 'Luật Bảo hiểm xã hội 2024 (41/2024/QH15)',
+    article: 'Điều 31 - tối đa 20 lần lương cơ sở',
+  },
+  socialInsuranceRate: {
+    document: 'Luật Bảo hiểm xã hội 2024 (41/2024/QH15)',
+    article: 'Điều 33 - người lao động đóng 8%',
+  },
+  healthInsurance: {
+    document: 'Luật Bảo hiểm y tế (sửa đổi 2024)',
+    article: 'Điều 13 - người lao động đóng 1,5%',
+  },
+  unemploymentInsurance: {
+    document: 'Luật Việc làm 2013',
+    article: 'Điều 57, 58 - đóng 1%, tối đa 20 lần lương tối thiểu vùng',
+  },
+  insuranceDeduction: {
+    document: 'Thông tư 111/2013/TT-BTC',
+    article: 'Điều 9, khoản 2 - trừ các khoản bảo hiểm bắt buộc',
+  },
+  oldFamilyDeduction: {
+    document: 'Nghị quyết 954/2020/UBTVQH14',
+    article: 'Điều 1 - giảm trừ 11 triệu/4,4 triệu',
+  },
+  newFamilyDeduction: {
+    document: 'Nghị quyết 110/2025/UBTVQH15',
+    article: 'Điều 1 - giảm trừ 15,5 triệu/6,2 triệu',
+  },
+  exemptAllowances: {
+    document: 'Thông tư 111/2013/TT-BTC',
+    article: 'Điều 2, khoản 2 - phụ cấp, trợ cấp không tính vào thu nhập chịu thuế',
+  },
+  otherDeductions: {
+    document: 'Thông tư 111/2013/TT-BTC',
+    article: 'Điều 9, khoản 2-3 - quỹ hưu trí tự nguyện, từ thiện, nhân đạo',
+  },
+  oldBrackets: {
+    document: 'Luật Thuế TNCN 2007 (sửa đổi 2012)',
+    article: 'Điều 22 - biểu thuế lũy tiến 7 bậc',
+  },
+  newBrackets: {
+    document: 'Luật 109/2025/QH15',
+    article: 'Biểu thuế lũy tiến 5 bậc',
+  },
+} satisfies Record<string, LegalReference>;
+
+/** Căn cứ giảm trừ gia cảnh theo luật */
+export function getFamilyDeductionReference(law: PitLaw): LegalReference {
+  return law === 'new' ? LEGAL_REFERENCES.newFamilyDeduction : LEGAL_REFERENCES.oldFamilyDeduction;
+}
+
+/** Căn cứ biểu thuế lũy tiến theo luật */
+export function getBracketReference(law: PitLaw): LegalReference {
+  return law === 'new' ? LEGAL_REFERENCES.newBrackets : LEGAL_REFERENCES.oldBrackets;
+}
+
+/** Định dạng căn cứ pháp lý thành một dòng */
+export function formatLegalReference(ref: LegalReference): string {
+  return ref.article ? `${ref.document}, ${ref.article}` : ref.document;
+}
+
+/**
+ * Định dạng một giá trị đầu vào của bước: tỷ lệ (%) và số lượng giữ nguyên,
+ * còn lại là số tiền VND
+ */
+export function formatTraceInput(label: string, value: number): string {
+  if (label.includes('(%)')) return `${value}%`;
+  if (label.startsWith('Số ')) return String(value);
+  return `${new Intl.NumberFormat('vi-VN').format(Math.round(value))} ₫`;
+}
+
+// ===== STEP BUILDERS =====
+
+const percent = (rate: number): number => Math.round(rate * 1000) / 10;
+
+/**
+ * Các bước tính bảo hiểm bắt buộc của người lao động: mức đóng (có trần) → từng loại
+ */
+export function buildInsuranceSteps(
+  insuranceSalary: number,
+  region: RegionType,
+  options: InsuranceOptions,
+  detail: InsuranceDetail,
+  rules: TaxRuleSet
+): TraceStep[] {
+  const steps: TraceStep[] = [];
+  const { insuranceRates: rates } = rules;
+
+  if (options.bhxh || options.bhyt) {
+    steps.push({
+      id: 'insurance-base',
+      kind: 'insurance',
+      label: 'Mức lương đóng BHXH, BHYT',
+      formula: 'min(Lương đóng BH; 20 × Lương cơ sở)',
+      inputs: {
+        'Lương đóng BH': insuranceSalary,
+        'Lương cơ sở': rules.baseSalary,
+        'Mức trần': rules.maxSocialInsuranceSalary,
+      },
+      output: Math.min(insuranceSalary, rules.maxSocialInsuranceSalary),
+      legalRef: LEGAL_REFERENCES.socialInsuranceCap,
+    });
+  }
+
+  const socialBase = Math.min(insuranceSalary, rules.maxSocialInsuranceSalary);
+
+  if (options.bhxh) {
+    steps.push({
+      id: 'insurance-bhxh',
+      kind: 'insurance',
+      label: `BHXH (${percent(rates.socialInsurance)}%)`,
+      formula: 'Mức đóng × Tỷ lệ BHXH',
+      inputs: { 'Mức đóng': socialBase, 'Tỷ lệ (%)': percent(rates.socialInsurance) },
+      output: detail.bhxh,
+      legalRef: LEGAL_REFERENCES.socialInsuranceRate,
+    });
+  }
+
+  if (options.bhyt) {
+    steps.push({
+      id: 'insurance-bhyt',
+      kind: 'insurance',
+      label: `BHYT (${percent(rates.healthInsurance)}%)`,
+      formula: 'Mức đóng × Tỷ lệ BHYT',
+      inputs: { 'Mức đóng': socialBase, 'Tỷ lệ (%)': percent(rates.healthInsurance) },
+      output: detail.bhyt,
+      legalRef: LEGAL_REFERENCES.healthInsurance,
+    });
+  }
+
+  if (options.bhtn) {
+    const cap = rules.maxUnemploymentInsuranceSalary[region];
+    const unemploymentBase = Math.min(insuranceSalary, cap);
+    steps.push({
+      id: 'insurance-bhtn',
+      kind: 'insurance',
+      label: `BHTN (${percent(rates.unemploymentInsurance)}%)`,
+      formula: 'min(Lương đóng BH; 20 × Lương tối thiểu vùng) × Tỷ lệ BHTN',
+      inputs: {
+        'Lương đóng BH': insuranceSalary,
+        'Lương tối thiểu vùng': rules.regionalMinimumWages[region].wage,
+        'Mức trần': cap,
+        'Mức đóng': unemploymentBase,
+        'Tỷ lệ (%)': percent(rates.unemploymentInsurance),
+      },
+      output: detail.bhtn,
+      legalRef: LEGAL_REFERENCES.unemploymentInsurance,
+    });
+  }
+
+  if (steps.length > 0) {
+    steps.push({
+      id: 'insurance-total',
+      kind: 'deduction',
+      label: 'Giảm trừ bảo hiểm bắt buộc',
+      formula: 'BHXH + BHYT + BHTN',
+      inputs: { BHXH: detail.bhxh, BHYT: detail.bhyt, BHTN: detail.bhtn },
+      output: detail.total,
+      legalRef: LEGAL_REFERENCES.insuranceDeduction,
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Các bước áp dụng biểu thuế lũy tiến từng phần (mỗi bậc một bước)
+ */
+export function buildBracketSteps(breakdown: TaxBreakdownItem[], law: PitLaw): TraceStep[] {
+  const legalRef = getBracketReference(law);
+  return breakdown.map((item) => ({
+    id: `bracket-${item.bracket}`,
+    kind: 'bracket',
+    label: `Bậc ${item.bracket} (${percent(item.rate)}%)`,
+    formula: 'Thu nhập trong bậc × Thuế suất',
+    inputs: {
+      'Từ': item.from,
+      'Đến': item.to,
+      'Thu nhập trong bậc': item.taxableAmount,
+      'Thuế suất (%)': percent(item.rate),
+    },
+    output: item.taxAmount,
+    legalRef,
+  }));
+}
+
+// ===== SALARY TRACE =====
+
+export interface SalaryTraceParams {
+  asOf: Date;
+  rules: TaxRuleSet; // Bộ tham số tra cứu theo asOf (trần bảo hiểm)
+  law: PitLaw; // Luật dùng cho giảm trừ & biểu thuế
+  grossIncome: number;
+  insuranceSalary: number;
+  region: RegionType;
+  insuranceOptions: InsuranceOptions;
+  insuranceDetail: InsuranceDetail;
+  personalDeduction: number;
+  dependents: number;
+  dependentDeduction: number;
+  otherDeductions: number;
+  allowancesBreakdown: AllowancesBreakdown;
+  taxableIncome: number;
+  taxBreakdown: TaxBreakdownItem[];
+  taxAmount: number;
+}
+
+/**
+ * Dựng trace đầy đủ cho thuế TNCN từ tiền lương, tiền công (một tháng)
+ */
+export function buildSalaryTaxTrace(params: SalaryTraceParams): CalculationTrace {
+  const {
+    asOf,
+    rules,
+    law,
+    grossIncome,
+    insuranceDetail,
+    personalDeduction,
+    dependents,
+    dependentDeduction,
+    otherDeductions,
+    allowancesBreakdown,
+    taxableIncome,
+    taxAmount,
+  } = params;
+  const familyRef = getFamilyDeductionReference(law);
+
+  const steps: TraceStep[] = [
+    ...buildInsuranceSteps(
+      params.insuranceSalary,
+      params.region,
+      params.insuranceOptions,
+      insuranceDetail,
+      rules
+    ),
+    {
+      id: 'personal-deduction',
+      kind: 'deduction',
+      label: 'Giảm trừ bản thân',
+      formula: 'Mức giảm trừ bản thân/tháng',
+      inputs: {},
+      output: personalDeduction,
+      legalRef: familyRef,
+    },
+    {
+      id: 'dependent-deduction',
+      kind: 'deduction',
+      label: 'Giảm trừ người phụ thuộc',
+      formula: 'Số người phụ thuộc × Mức giảm trừ/người',
+      inputs: {
+        'Số người phụ thuộc': dependents,
+        'Mức giảm trừ/người': dependents > 0 ? dependentDeduction / dependents : 0,
+      },
+      output: dependentDeduction,
+      legalRef: familyRef,
+    },
+  ];
+
+  if (otherDeductions > 0) {
+    steps.push({
+      id: 'other-deductions',
+      kind: 'deduction',
+      label: 'Giảm trừ khác',
+      formula: 'Quỹ hưu trí tự nguyện + Từ thiện, nhân đạo',
+      inputs: {},
+      output: otherDeductions,
+      legalRef: LEGAL_REFERENCES.otherDeductions,
+    });
+  }
+
+  if (allowancesBreakdown.total > 0) {
+    steps.push({
+      id: 'allowances',
+      kind: 'allowance',
+      label: 'Phụ cấp chịu thuế',
+      formula: 'Tổng phụ cấp − Phụ cấp miễn thuế',
+      inputs: {
+        'Tổng phụ cấp': allowancesBreakdown.total,
+        'Miễn thuế': allowancesBreakdown.taxExempt,
+      },
+      output: allowancesBreakdown.taxable,
+      legalRef: LEGAL_REFERENCES.exemptAllowances,
+    });
+  }
+
+  steps.push(
+    {
+      id: 'taxable-income',
+      kind: 'income',
+      label: 'Thu nhập tính thuế',
+      formula: 'max(0; Lương + Phụ cấp chịu thuế − Bảo hiểm − Giảm trừ gia cảnh − Giảm trừ khác)',
+      inputs: {
+        'Lương': grossIncome,
+        'Phụ cấp chịu thuế': allowancesBreakdown.taxable,
+        'Bảo hiểm': insuranceDetail.total,
+        'Giảm trừ gia cảnh': personalDeduction + dependentDeduction,
+        'Giảm trừ khác': otherDeductions,
+      },
+      output: taxableIncome,
+    },
+    ...buildBracketSteps(params.taxBreakdown, law),
+    {
+      id: 'tax-amount',
+      kind: 'result',
+      label: 'Thuế TNCN phải nộp',
+      formula: 'Tổng thuế các bậc',
+      inputs: {},
+      output: taxAmount,
+      legalRef: getBracketReference(law),
+    }
+  );
+
+  return { asOf, ruleSetId: rules.id, law, steps };
+}
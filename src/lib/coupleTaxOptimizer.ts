@@ -13,11 +13,10 @@
  */
 
 import {
-  calculateNewTax,
-  NEW_TAX_BRACKETS,
-  NEW_DEDUCTIONS,
+  calculateTaxForDate,
   type TaxResult,
 } from './taxCalculator';
+import { getEmployeeInsuranceRate, getTaxRulesForDate, type TaxBracket, type TaxRuleSet } from './taxRuleRegistry';
 
 // Person income info
 export interface PersonIncome {
@@ -35,6 +34,10 @@ export interface CoupleInput {
   totalDependents: number;
   charitableContribution: number;
   voluntaryPension: number;
+  // Số tháng được giảm trừ trong năm của từng NPT theo danh sách đăng ký;
+  // khi có, thuế mỗi người là bình quân 12 tháng, mỗi tháng giảm trừ số NPT
+  // (nguyên) của người đó còn trong thời gian đăng ký
+  dependentMonths?: number[];
 }
 
 // Allocation scenario
@@ -71,31 +74,72 @@ export interface CoupleOptimizationResult {
 
 /**
  * Calculate tax for a person with given dependents
+ * Biểu thuế, giảm trừ và bảo hiểm theo bộ tham số có hiệu lực tại asOf
  */
 function calculatePersonTax(
   person: PersonIncome,
   dependents: number,
-  useNewLaw: boolean = true
+  asOf: Date
 ): TaxResult {
-  return calculateNewTax({
+  return calculateTaxForDate({
     grossIncome: person.grossIncome,
     dependents,
     otherDeductions: person.otherDeductions + person.pensionContribution,
     hasInsurance: person.hasInsurance,
     region: 1, // Default region
+    asOf,
   });
 }
 
 /**
  * Get marginal tax rate for income level
  */
-function getMarginalRate(taxableIncome: number): number {
-  for (const bracket of NEW_TAX_BRACKETS) {
+function getMarginalRate(taxableIncome: number, brackets: TaxBracket[]): number {
+  for (const bracket of brackets) {
     if (taxableIncome <= bracket.max) {
       return bracket.rate;
     }
   }
-  return NEW_TAX_BRACKETS[NEW_TAX_BRACKETS.length - 1].rate;
+  return brackets[brackets.length - 1].rate;
+}
+
+/**
+ * Số NPT quy đổi bình quân tháng (12 tháng giảm trừ = 1 NPT) - chỉ dùng ước tính tiết kiệm
+ */
+function toMonthlyDependents(months: number[]): number {
+  return months.reduce((sum, count) => sum + count, 0) / 12;
+}
+
+/**
+ * Thuế bình quân tháng của một người với các NPT đăng ký cho người đó
+ * Mỗi NPT chỉ đăng ký cho một người; tháng thứ k giảm trừ đủ số NPT còn trong
+ * thời gian đăng ký (NPT có từ k tháng trở lên), nên mỗi tháng là số nguyên NPT
+ */
+function calculateAverageMonthlyTax(person: PersonIncome, dependentMonths: number[], asOf: Date): number {
+  const taxByCount = new Map<number, number>();
+  let total = 0;
+  for (let month = 1; month <= 12; month++) {
+    const count = dependentMonths.filter(months => months >= month).length;
+    if (!taxByCount.has(count)) {
+      taxByCount.set(count, calculatePersonTax(person, count, asOf).taxAmount);
+    }
+    total += taxByCount.get(count)!;
+  }
+  return Math.round(total / 12);
+}
+
+/**
+ * Cách chia NPT cho hai người với p1Deps NPT cho người 1: [tháng giảm trừ
+ * từng NPT của người 1, của người 2]. Khi số tháng khác nhau, thử giao cho
+ * người 1 nhóm nhiều tháng nhất hoặc ít tháng nhất
+ */
+function getSplitOptions(p1Deps: number, sortedMonths: number[]): [number[], number[]][] {
+  const longest = sortedMonths.slice(0, p1Deps);
+  const shortest = sortedMonths.slice(sortedMonths.length - p1Deps);
+  return [
+    [longest, sortedMonths.slice(p1Deps)],
+    [shortest, sortedMonths.slice(0, sortedMonths.length - p1Deps)],
+  ];
 }
 
 /**
@@ -104,25 +148,35 @@ function getMarginalRate(taxableIncome: number): number {
 function generateAllocationScenarios(
   person1: PersonIncome,
   person2: PersonIncome,
-  totalDependents: number
+  totalDependents: number,
+  asOf: Date,
+  dependentMonths?: number[]
 ): AllocationScenario[] {
   const scenarios: AllocationScenario[] = [];
+  // Không có danh sách đăng ký: mọi NPT được giảm trừ cả năm
+  const sortedMonths = (dependentMonths ?? Array<number>(totalDependents).fill(12))
+    .slice()
+    .sort((a, b) => b - a);
 
   for (let p1Deps = 0; p1Deps <= totalDependents; p1Deps++) {
     const p2Deps = totalDependents - p1Deps;
 
-    const p1Result = calculatePersonTax(person1, p1Deps);
-    const p2Result = calculatePersonTax(person2, p2Deps);
+    const [p1Tax, p2Tax] = getSplitOptions(p1Deps, sortedMonths)
+      .map(([p1, p2]) => [
+        calculateAverageMonthlyTax(person1, p1, asOf),
+        calculateAverageMonthlyTax(person2, p2, asOf),
+      ])
+      .reduce((best, option) => (option[0] + option[1] < best[0] + best[1] ? option : best));
 
-    const totalTax = p1Result.taxAmount + p2Result.taxAmount;
+    const totalTax = p1Tax + p2Tax;
 
     scenarios.push({
       id: `scenario-${p1Deps}-${p2Deps}`,
       description: `${person1.name}: ${p1Deps} NPT, ${person2.name}: ${p2Deps} NPT`,
       person1Dependents: p1Deps,
       person2Dependents: p2Deps,
-      person1Tax: p1Result.taxAmount,
-      person2Tax: p2Result.taxAmount,
+      person1Tax: p1Tax,
+      person2Tax: p2Tax,
       totalTax,
       savings: 0, // Will be calculated relative to current
     });
@@ -141,18 +195,21 @@ function generateTips(
   charitableContribution: number,
   voluntaryPension: number,
   optimalScenario: AllocationScenario,
-  currentScenario: AllocationScenario
+  currentScenario: AllocationScenario,
+  rules: TaxRuleSet
 ): OptimizationTip[] {
   const tips: OptimizationTip[] = [];
+  const { deductions, brackets } = rules;
+  const insuranceRate = getEmployeeInsuranceRate(rules);
 
   // Get taxable income estimates
-  const p1TaxableEstimate = person1.grossIncome - NEW_DEDUCTIONS.personal -
-    (person1.grossIncome * 0.105); // Approximate insurance
-  const p2TaxableEstimate = person2.grossIncome - NEW_DEDUCTIONS.personal -
-    (person2.grossIncome * 0.105);
+  const p1TaxableEstimate = person1.grossIncome - deductions.personal -
+    (person1.grossIncome * insuranceRate); // Approximate insurance
+  const p2TaxableEstimate = person2.grossIncome - deductions.personal -
+    (person2.grossIncome * insuranceRate);
 
-  const p1MarginalRate = getMarginalRate(p1TaxableEstimate);
-  const p2MarginalRate = getMarginalRate(p2TaxableEstimate);
+  const p1MarginalRate = getMarginalRate(p1TaxableEstimate, brackets);
+  const p2MarginalRate = getMarginalRate(p2TaxableEstimate, brackets);
 
   // Tip 1: Dependent allocation
   if (optimalScenario.totalTax < currentScenario.totalTax) {
@@ -167,7 +224,7 @@ function generateTips(
 
   // Tip 2: Assign dependents to higher earner
   if (p1MarginalRate > p2MarginalRate && totalDependents > 0) {
-    const savingsPerDependent = NEW_DEDUCTIONS.dependent * (p1MarginalRate - p2MarginalRate);
+    const savingsPerDependent = deductions.dependent * (p1MarginalRate - p2MarginalRate);
     if (savingsPerDependent > 0) {
       tips.push({
         id: 'tip-higher-earner',
@@ -178,7 +235,7 @@ function generateTips(
       });
     }
   } else if (p2MarginalRate > p1MarginalRate && totalDependents > 0) {
-    const savingsPerDependent = NEW_DEDUCTIONS.dependent * (p2MarginalRate - p1MarginalRate);
+    const savingsPerDependent = deductions.dependent * (p2MarginalRate - p1MarginalRate);
     if (savingsPerDependent > 0) {
       tips.push({
         id: 'tip-higher-earner',
@@ -250,9 +307,18 @@ function generateTips(
  */
 export function optimizeCoupleTax(input: CoupleInput): CoupleOptimizationResult {
   const { person1, person2, totalDependents, charitableContribution, voluntaryPension } = input;
+  const dependentMonths = input.dependentMonths?.length === totalDependents
+    ? input.dependentMonths
+    : undefined;
+  // Số NPT dùng cho ước tính tiết kiệm: quy đổi theo tháng đăng ký nếu có
+  const deductibleDependents = dependentMonths ? toMonthlyDependents(dependentMonths) : totalDependents;
+
+  // Tham số thuế có hiệu lực tại thời điểm tính
+  const asOf = new Date();
+  const rules = getTaxRulesForDate(asOf);
 
   // Generate all allocation scenarios
-  const scenarios = generateAllocationScenarios(person1, person2, totalDependents);
+  const scenarios = generateAllocationScenarios(person1, person2, totalDependents, asOf, dependentMonths);
 
   // Find optimal scenario (lowest total tax)
   let optimalScenario = scenarios[0];
@@ -277,11 +343,12 @@ export function optimizeCoupleTax(input: CoupleInput): CoupleOptimizationResult
   const tips = generateTips(
     person1,
     person2,
-    totalDependents,
+    deductibleDependents,
     charitableContribution,
     voluntaryPension,
     optimalScenario,
-    currentScenario
+    currentScenario,
+    rules
   );
 
   // Calculate combined metrics
@@ -12,6 +12,8 @@
  * - Áp dụng cho tất cả giao dịch chuyển nhượng, không phân biệt lãi/lỗ
  */
 
+import type { ExcelSheet } from './exportUtils';
+
 // Asset types
 export type CryptoAssetType =
   | 'btc'
@@ -392,3 +394,50 @@ export function generateTransactionId(): string {
 export function getAssetByType(type: CryptoAssetType): CryptoAsset | undefined {
   return CRYPTO_ASSETS.find(a => a.id === type);
 }
+
+/**
+ * Sheet xuất Excel: danh sách giao dịch kèm thuế và tổng hợp theo tài sản
+ */
+export function buildCryptoSheets(result: CryptoTaxResult): ExcelSheet[] {
+  return [
+    {
+      name: 'Giao dịch',
+      headers: ['Ngày', 'Loại', 'Tài sản', 'Số lượng', 'Đơn giá', 'Giá trị', 'Phí', 'Thuế', 'Ghi chú'],
+      columns: {
+        'Số lượng': { format: 'decimal' },
+        'Đơn giá': { format: 'vnd' },
+        'Giá trị': { format: 'vnd' },
+        'Phí': { format: 'vnd' },
+        'Thuế': { format: 'vnd' },
+        'Ghi chú': { width: 40 },
+      },
+      rows: result.transactionsWithTax.map((tx) => ({
+        'Ngày': new Date(tx.date).toLocaleDateString('vi-VN'),
+        'Loại': getTransactionTypeLabel(tx.type),
+        'Tài sản': tx.assetName,
+        'Số lượng': tx.quantity,
+        'Đơn giá': tx.pricePerUnit,
+        'Giá trị': tx.totalValue,
+        'Phí': tx.fee,
+        'Thuế': tx.taxAmount,
+        'Ghi chú': tx.taxNote,
+      })),
+      totals: { label: 'Tổng cộng', columns: ['Phí', 'Thuế'] },
+    },
+    {
+      name: 'Theo tài sản',
+      headers: ['Tài sản', 'Số giao dịch', 'Giá trị giao dịch', 'Thuế'],
+      columns: {
+        'Giá trị giao dịch': { format: 'vnd' },
+        'Thuế': { format: 'vnd' },
+      },
+      rows: result.taxByAsset.map((asset) => ({
+        'Tài sản': asset.assetName,
+        'Số giao dịch': asset.transactionCount,
+        'Giá trị giao dịch': asset.totalValue,
+        'Thuế': asset.taxAmount,
+      })),
+      totals: { label: 'Tổng cộng', columns: ['Số giao dịch', 'Giá trị giao dịch', 'Thuế'] },
+    },
+  ];
+}
@@ -0,0 +1,89 @@
+/**
+ * CSV Utilities - Đọc/ghi CSV thuần (không phụ thuộc DOM)
+ *
+ * Dùng chung cho CLI và các chức năng nhập file trong trình duyệt.
+ * Theo RFC 4180: dấu phẩy phân tách, chuỗi có dấu phẩy/xuống dòng/ngoặc kép
+ * được bao bằng ngoặc kép, ngoặc kép bên trong nhân đôi.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+/**
+ * Tách nội dung CSV thành các dòng ô (bỏ BOM, chấp nhận CRLF/LF, bỏ dòng trống)
+ */
+export function parseCSV(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Đọc CSV có dòng tiêu đề thành danh sách bản ghi { tiêu đề: giá trị }
+ */
+export function parseCSVRecords(text: string, delimiter = ','): Record<string, string>[] {
+  const [headerRow, ...dataRows] = parseCSV(text, delimiter);
+  if (!headerRow) return [];
+  const headers = headerRow.map((header) => header.trim());
+
+  return dataRows.map((cells) =>
+    Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']))
+  );
+}
+
+function escapeCell(value: CsvCell, delimiter: string): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Ghi danh sách bản ghi thành CSV theo thứ tự cột cho trước
+ */
+export function stringifyCSV(
+  headers: string[],
+  rows: Record<string, CsvCell>[],
+  delimiter = ','
+): string {
+  const lines = [
+    headers.map((header) => escapeCell(header, delimiter)).join(delimiter),
+    ...rows.map((row) => headers.map((header) => escapeCell(row[header], delimiter)).join(delimiter)),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
@@ -0,0 +1,290 @@
+/**
+ * Dependent Registration XML Exporter
+ * Xuất bản đăng ký người phụ thuộc giảm trừ gia cảnh mẫu 07/ĐK-NPT-TNCN kèm bảng kê
+ * người phụ thuộc (đã có MST / chưa có MST) theo cấu trúc XML mà HTKK/eTax nhập được
+ *
+ * Căn cứ pháp lý:
+ * - Thông tư 80/2021/TT-BTC (mẫu 07/ĐK-NPT-TNCN)
+ * - Điều 9 Thông tư 111/2013/TT-BTC: giảm trừ từ tháng phát sinh nghĩa vụ nuôi dưỡng
+ *
+ * Cùng một bản đăng ký dùng cho cả PDF (taxDocumentGenerator) và XML, nên hai bản
+ * luôn khớp nhau; dữ liệu được kiểm tra trước khi xuất.
+ */
+
+import type { DependentInfo } from './annualSettlementCalculator';
+import type { PersonalInfo } from './taxDocumentGenerator';
+import { DEPENDENT_RELATIONSHIP_LABELS, parseDateOfBirth } from './dependentRegistry';
+import {
+  FieldRule,
+  TAX_CODE_MESSAGE,
+  TAX_CODE_PATTERN,
+  XmlValidationIssue,
+  block,
+  checkRules,
+  element,
+  formatXmlDate,
+} from './htkkXml';
+
+export type { XmlValidationIssue } from './htkkXml';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DependentRegistrationInput {
+  year: number; // Năm đăng ký: tháng không kèm năm được hiểu là tháng của năm này
+  personalInfo: PersonalInfo;
+  dependents: DependentInfo[];
+  amendment?: number; // Lần đăng ký thay đổi (0/undefined = đăng ký lần đầu)
+  signedAt?: Date; // Ngày lập (mặc định hôm nay)
+}
+
+/** Tháng/năm trên bản đăng ký */
+export interface RegistrationMonth {
+  month: number;
+  year: number;
+}
+
+/** Một dòng bảng kê người phụ thuộc */
+export interface DependentRegistrationEntry {
+  id: string;
+  hoTen?: string;
+  ngaySinh?: string; // YYYY-MM-DD
+  mstNPT?: string;
+  giayTo?: string; // CCCD/định danh/giấy khai sinh
+  quocTich: string;
+  quanHe?: string;
+  tuThang: RegistrationMonth;
+  denThang?: RegistrationMonth; // Bỏ trống = giảm trừ đến khi có thay đổi
+}
+
+export interface DependentRegistrationDeclaration {
+  header: {
+    year: number;
+    declarationType: 'C' | 'B'; // C: đăng ký lần đầu, B: đăng ký thay đổi
+    amendment: number;
+    signedAt: Date;
+  };
+  nnt: {
+    mst?: string;
+    tenNNT?: string;
+    cccd?: string;
+    dchiNNT?: string; // Địa chỉ nhận thông báo MST người phụ thuộc
+  };
+  // Nơi đăng ký giảm trừ: tổ chức trả thu nhập (bỏ trống = cơ quan thuế quản lý)
+  noiDangKy: {
+    tenTCTN?: string;
+    mstTCTN?: string;
+  };
+  bkNPT: DependentRegistrationEntry[];
+}
+
+export type DependentRegistrationXmlResult =
+  | { ok: true; xml: string; fileName: string }
+  | { ok: false; errors: XmlValidationIssue[] };
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Mã tờ khai/phiên bản XML theo HTKK - cập nhật khi cơ quan thuế đổi phiên bản
+const HTKK_FORM_CODE = '07/ĐK-NPT-TNCN';
+const HTKK_XML_VERSION = '2.5.3';
+const HTKK_NAMESPACE = 'http://kekhaithue.gdt.gov.vn/TKhaiThue';
+
+export const DEPENDENT_REGISTRATION_SCHEMA: FieldRule[] = [
+  { path: 'nnt.tenNNT', label: 'Họ và tên người nộp thuế [01]', required: true, maxLength: 100 },
+  { path: 'nnt.mst', label: 'Mã số thuế người nộp thuế [02]', required: true, pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+  { path: 'nnt.dchiNNT', label: 'Địa chỉ nhận thông báo [03]', maxLength: 200 },
+  { path: 'noiDangKy.tenTCTN', label: 'Tên tổ chức trả thu nhập [05]', maxLength: 200 },
+  { path: 'noiDangKy.mstTCTN', label: 'MST tổ chức trả thu nhập [06]', pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+];
+
+const ENTRY_SCHEMA: FieldRule[] = [
+  { path: 'hoTen', label: 'Họ tên người phụ thuộc', required: true, maxLength: 100 },
+  { path: 'mstNPT', label: 'MST người phụ thuộc', pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+  { path: 'giayTo', label: 'Số CCCD/giấy khai sinh', maxLength: 20 },
+];
+
+// =============================================================================
+// BUILD
+// =============================================================================
+
+function monthOrder({ month, year }: RegistrationMonth): number {
+  return year * 12 + month;
+}
+
+export function formatRegistrationMonth(value: RegistrationMonth | undefined): string {
+  return value ? `${String(value.month).padStart(2, '0')}/${value.year}` : '';
+}
+
+/**
+ * Dựng bản đăng ký từ thông tin cá nhân và danh sách người phụ thuộc
+ */
+export function buildDependentRegistration(input: DependentRegistrationInput): DependentRegistrationDeclaration {
+  const { year, personalInfo, dependents, amendment = 0 } = input;
+
+  return {
+    header: {
+      year,
+      declarationType: amendment > 0 ? 'B' : 'C',
+      amendment,
+      signedAt: input.signedAt ?? new Date(),
+    },
+    nnt: {
+      mst: personalInfo.taxCode?.trim() || undefined,
+      tenNNT: personalInfo.fullName?.trim() || undefined,
+      cccd: personalInfo.idNumber?.trim() || undefined,
+      dchiNNT: personalInfo.address?.trim() || undefined,
+    },
+    noiDangKy: {
+      tenTCTN: personalInfo.employer?.trim() || undefined,
+      mstTCTN: personalInfo.employerTaxCode?.trim() || undefined,
+    },
+    bkNPT: dependents.map((dep) => ({
+      id: dep.id,
+      hoTen: dep.name.trim() || undefined,
+      ngaySinh: dep.dateOfBirth,
+      mstNPT: dep.taxCode?.trim() || undefined,
+      giayTo: dep.idNumber?.trim() || undefined,
+      quocTich: 'Việt Nam',
+      quanHe: dep.type ? DEPENDENT_RELATIONSHIP_LABELS[dep.type] : undefined,
+      tuThang: { month: dep.fromMonth, year: dep.fromYear ?? year },
+      // Đăng ký đến hết năm mà không ghi năm kết thúc = chưa có thời điểm kết thúc
+      denThang: dep.toYear !== undefined || dep.toMonth < 12
+        ? { month: dep.toMonth, year: dep.toYear ?? year }
+        : undefined,
+    })),
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Kiểm tra bản đăng ký: thông tin người nộp thuế, giấy tờ của từng người phụ thuộc,
+ * tháng bắt đầu không sớm hơn tháng sinh và không sau tháng kết thúc
+ */
+export function validateDependentRegistration(declaration: DependentRegistrationDeclaration): XmlValidationIssue[] {
+  const issues: XmlValidationIssue[] = [];
+  checkRules(declaration, DEPENDENT_REGISTRATION_SCHEMA, '', issues);
+
+  if (declaration.bkNPT.length === 0) {
+    issues.push({ path: 'bkNPT', message: 'Chưa có người phụ thuộc để đăng ký' });
+  }
+
+  declaration.bkNPT.forEach((dep, index) => {
+    const prefix = `bkNPT[${index}]`;
+    checkRules(dep, ENTRY_SCHEMA, prefix, issues);
+    const who = dep.hoTen ?? `#${index + 1}`;
+
+    if (!dep.mstNPT && !dep.giayTo) {
+      issues.push({ path: `${prefix}.giayTo`, message: `Người phụ thuộc ${who}: cần MST hoặc số CCCD/giấy khai sinh` });
+    }
+
+    const birth = parseDateOfBirth(dep.ngaySinh);
+    if (!birth) {
+      issues.push({ path: `${prefix}.ngaySinh`, message: `Người phụ thuộc ${who}: thiếu ngày sinh` });
+    } else if (monthOrder(dep.tuThang) < monthOrder(birth)) {
+      issues.push({
+        path: `${prefix}.tuThang`,
+        message: `Người phụ thuộc ${who}: tháng bắt đầu giảm trừ ${formatRegistrationMonth(dep.tuThang)} trước tháng sinh ${formatRegistrationMonth(birth)}`,
+      });
+    }
+
+    if (dep.denThang && monthOrder(dep.denThang) < monthOrder(dep.tuThang)) {
+      issues.push({ path: `${prefix}.denThang`, message: `Người phụ thuộc ${who}: tháng kết thúc trước tháng bắt đầu` });
+    }
+  });
+
+  return issues;
+}
+
+// =============================================================================
+// XML
+// =============================================================================
+
+/**
+ * Ghi bản đăng ký (đã kiểm tra) thành XML HTKK
+ */
+export function serializeDependentRegistrationXml(declaration: DependentRegistrationDeclaration): string {
+  const { header, nnt, noiDangKy, bkNPT } = declaration;
+  const i = (level: number) => '  '.repeat(level);
+
+  const tkhaiThue = block('TKhaiThue', [
+    element('maTKhai', HTKK_FORM_CODE, i(5)),
+    element('tenTKhai', 'BẢN ĐĂNG KÝ NGƯỜI PHỤ THUỘC (Mẫu số 07/ĐK-NPT-TNCN)', i(5)),
+    element('moTaBMau', '(Ban hành kèm theo Thông tư số 80/2021/TT-BTC)', i(5)),
+    element('pbanTKhaiXML', HTKK_XML_VERSION, i(5)),
+    element('loaiTKhai', header.declarationType, i(5)),
+    element('soLan', header.amendment, i(5)),
+    element('ngayLapTKhai', formatXmlDate(header.signedAt), i(5)),
+    element('nguoiKy', nnt.tenNNT, i(5)),
+    element('ngayKy', formatXmlDate(header.signedAt), i(5)),
+  ], i(4));
+
+  const nntBlock = block('NNT', [
+    element('mst', nnt.mst?.replace('-', ''), i(5)),
+    element('tenNNT', nnt.tenNNT, i(5)),
+    element('soCCCD', nnt.cccd, i(5)),
+    element('dchiNNT', nnt.dchiNNT, i(5)),
+  ], i(4));
+
+  const mainIndicators = block('CTieuTKhaiChinh', [
+    element('ct05', noiDangKy.tenTCTN, i(3)),
+    element('ct06', noiDangKy.mstTCTN?.replace('-', ''), i(3)),
+  ], i(2));
+
+  const entry = (dep: DependentRegistrationEntry, index: number, withTaxCode: boolean) =>
+    block('BKeNPT', [
+      element('stt', index + 1, i(5)),
+      element('hoTen', dep.hoTen, i(5)),
+      element('ngaySinh', dep.ngaySinh, i(5)),
+      ...(withTaxCode ? [element('mstNPT', dep.mstNPT?.replace('-', ''), i(5))] : []),
+      element('quocTich', dep.quocTich, i(5)),
+      element('soGiayTo', dep.giayTo, i(5)),
+      element('quanHe', dep.quanHe, i(5)),
+      element('tuThang', formatRegistrationMonth(dep.tuThang), i(5)),
+      element('denThang', formatRegistrationMonth(dep.denThang), i(5)),
+    ], i(4));
+
+  const withTaxCode = bkNPT.filter((dep) => dep.mstNPT);
+  const withoutTaxCode = bkNPT.filter((dep) => !dep.mstNPT);
+
+  const appendix = block('PLuc', [
+    block('NPTCoMST', withTaxCode.map((dep, index) => entry(dep, index, true)), i(3)),
+    block('NPTChuaCoMST', withoutTaxCode.map((dep, index) => entry(dep, index, false)), i(3)),
+  ], i(2));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<HSoThueDTu xmlns="${HTKK_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+    block('HSoKhaiThue', [
+      block('TTinChung', [
+        block('TTinTKhaiThue', [tkhaiThue, nntBlock], i(3)),
+      ], i(2)),
+      mainIndicators,
+      appendix,
+    ], i(1)),
+    '</HSoThueDTu>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Tạo XML 07/ĐK-NPT-TNCN: dựng bản đăng ký → kiểm tra → ghi XML.
+ * Trả về danh sách lỗi (không có XML) nếu thiếu/sai thông tin.
+ */
+export function exportDependentRegistrationXml(input: DependentRegistrationInput): DependentRegistrationXmlResult {
+  const declaration = buildDependentRegistration(input);
+  const errors = validateDependentRegistration(declaration);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const mst = declaration.nnt.mst?.replace('-', '') ?? '';
+  return {
+    ok: true,
+    xml: serializeDependentRegistrationXml(declaration),
+    fileName: `${mst}_07DK-NPT-TNCN_${declaration.header.year}.xml`,
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Danh sách người phụ thuộc đăng ký giảm trừ gia cảnh
+ *
+ * Căn cứ pháp lý: Điều 9 Thông tư 111/2013/TT-BTC
+ * - Con dưới 18 tuổi: giảm trừ đến hết tháng con đủ 18 tuổi, không xét thu nhập
+ * - Con đang đi học, người khuyết tật không có khả năng lao động, cha mẹ,
+ *   người thân khác: thu nhập bình quân tháng từ mọi nguồn không quá 1 triệu đồng
+ * - Giảm trừ từ tháng phát sinh nghĩa vụ nuôi dưỡng (không sớm hơn tháng sinh)
+ *   đến tháng kết thúc đăng ký
+ *
+ * Tháng đăng ký không kèm năm được hiểu là tháng của năm đang tính thuế.
+ */
+
+import type { DependentInfo } from './annualSettlementCalculator';
+import { formatCurrency } from './taxCalculator';
+
+export type DependentType =
+  | 'child_under_18'
+  | 'student'
+  | 'disabled_adult'
+  | 'parent'
+  | 'other_relative';
+
+export const DEPENDENT_TYPE_LABELS: Record<DependentType, string> = {
+  child_under_18: 'Con dưới 18 tuổi',
+  student: 'Con đang đi học (ĐH, CĐ, học nghề...)',
+  disabled_adult: 'Người khuyết tật không có khả năng lao động',
+  parent: 'Cha, mẹ',
+  other_relative: 'Người thân khác đang nuôi dưỡng',
+};
+
+// Quan hệ ghi trên tờ khai đăng ký/quyết toán
+export const DEPENDENT_RELATIONSHIP_LABELS: Record<DependentType, string> = {
+  child_under_18: 'Con',
+  student: 'Con',
+  disabled_adult: 'Người thân khuyết tật',
+  parent: 'Cha/mẹ',
+  other_relative: 'Người thân khác',
+};
+
+// Thu nhập bình quân tháng tối đa của người phụ thuộc (trừ con dưới 18 tuổi)
+export const MAX_DEPENDENT_MONTHLY_INCOME = 1_000_000;
+
+// Con được giảm trừ đến hết tháng đủ 18 tuổi
+export const CHILD_AGE_LIMIT = 18;
+
+export type DependentIssueSeverity = 'error' | 'warning';
+
+export interface DependentEligibilityIssue {
+  dependentId: string;
+  severity: DependentIssueSeverity;
+  message: string;
+}
+
+const ALL_MONTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+/**
+ * Năm, tháng sinh từ chuỗi YYYY-MM-DD (null nếu chưa nhập hoặc sai định dạng)
+ */
+export function parseDateOfBirth(value?: string): { year: number; month: number } | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-\d{2}$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  return { year, month };
+}
+
+/**
+ * Chỉ số tháng tuyệt đối để so sánh các mốc (năm, tháng)
+ */
+function monthIndex(year: number, month: number): number {
+  return year * 12 + month;
+}
+
+/**
+ * Khoảng tháng đăng ký rơi vào năm tính thuế (null nếu không có tháng nào)
+ */
+function getRegisteredRange(dependent: DependentInfo, year: number): [number, number] | null {
+  if (dependent.fromYear !== undefined && dependent.fromYear > year) return null;
+  if (dependent.toYear !== undefined && dependent.toYear < year) return null;
+
+  const from = dependent.fromYear !== undefined && dependent.fromYear < year ? 1 : dependent.fromMonth;
+  const to = dependent.toYear !== undefined && dependent.toYear > year ? 12 : dependent.toMonth;
+  return from <= to ? [from, to] : null;
+}
+
+/**
+ * Loại người phụ thuộc phải đáp ứng điều kiện thu nhập ≤ 1 triệu/tháng
+ */
+function hasIncomeLimit(dependent: DependentInfo): boolean {
+  return dependent.type !== 'child_under_18';
+}
+
+function exceedsIncomeLimit(dependent: DependentInfo): boolean {
+  return hasIncomeLimit(dependent)
+    && (dependent.averageMonthlyIncome ?? 0) > MAX_DEPENDENT_MONTHLY_INCOME;
+}
+
+/**
+ * Các tháng trong năm người phụ thuộc được tính giảm trừ
+ * Giao của khoảng đăng ký với điều kiện tuổi, tháng sinh và thu nhập
+ */
+export function getEligibleMonths(dependent: DependentInfo, year: number): number[] {
+  const range = getRegisteredRange(dependent, year);
+  if (!range || exceedsIncomeLimit(dependent)) return [];
+
+  let [from, to] = range;
+  const birth = parseDateOfBirth(dependent.dateOfBirth);
+  if (birth) {
+    if (birth.year > year) return [];
+    if (birth.year === year) from = Math.max(from, birth.month);
+
+    if (dependent.type === 'child_under_18') {
+      const adultYear = birth.year + CHILD_AGE_LIMIT;
+      if (adultYear < year) return [];
+      if (adultYear === year) to = Math.min(to, birth.month);
+    }
+  }
+
+  return ALL_MONTHS.filter(month => month >= from && month <= to);
+}
+
+/**
+ * Số người phụ thuộc được giảm trừ trong một tháng
+ */
+export function countDependentsInMonth(
+  dependents: DependentInfo[],
+  year: number,
+  month: number
+): number {
+  return dependents.filter(dependent => getEligibleMonths(dependent, year).includes(month)).length;
+}
+
+/**
+ * Số người phụ thuộc được giảm trừ của từng tháng (12 phần tử, tháng 1 trước)
+ */
+export function countDependentsByMonth(dependents: DependentInfo[], year: number): number[] {
+  const counts = ALL_MONTHS.map(() => 0);
+  for (const dependent of dependents) {
+    for (const month of getEligibleMonths(dependent, year)) {
+      counts[month - 1]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Tổng số tháng giảm trừ của cả danh sách trong năm
+ */
+export function countDependentMonths(dependents: DependentInfo[], year: number): number {
+  return dependents.reduce((sum, dependent) => sum + getEligibleMonths(dependent, year).length, 0);
+}
+
+/**
+ * Kiểm tra điều kiện của một người phụ thuộc trong năm tính thuế
+ * error: không được giảm trừ (hoặc khai sai); warning: chỉ giảm trừ một phần/cần bổ sung hồ sơ
+ */
+export function checkDependentEligibility(
+  dependent: DependentInfo,
+  year: number
+): DependentEligibilityIssue[] {
+  const issues: DependentEligibilityIssue[] = [];
+  const add = (severity: DependentIssueSeverity, message: string) => {
+    issues.push({ dependentId: dependent.id, severity, message });
+  };
+
+  const start = monthIndex(dependent.fromYear ?? year, dependent.fromMonth);
+  const end = monthIndex(dependent.toYear ?? year, dependent.toMonth);
+  if (start > end) {
+    add('error', 'Tháng kết thúc đăng ký trước tháng bắt đầu');
+  }
+
+  if (!dependent.taxCode?.trim() && !dependent.idNumber?.trim()) {
+    add('warning', 'Chưa có MST hoặc số CCCD/định danh - cần một trong hai để đăng ký người phụ thuộc');
+  }
+
+  if (exceedsIncomeLimit(dependent)) {
+    add(
+      'error',
+      `Thu nhập bình quân ${formatCurrency(dependent.averageMonthlyIncome)}/tháng vượt ${formatCurrency(MAX_DEPENDENT_MONTHLY_INCOME)} - không đủ điều kiện giảm trừ`
+    );
+  }
+
+  const birth = parseDateOfBirth(dependent.dateOfBirth);
+  if (birth) {
+    if (birth.year > year) {
+      add('error', `Sinh sau năm ${year} - chưa được tính giảm trừ trong năm này`);
+    } else if (birth.year === year && dependent.fromMonth < birth.month && (dependent.fromYear ?? year) === year) {
+      add('warning', `Đăng ký từ trước tháng sinh - chỉ được giảm trừ từ tháng ${birth.month}/${year}`);
+    }
+  }
+
+  if (dependent.type === 'child_under_18') {
+    if (!birth) {
+      add('warning', 'Chưa có ngày sinh - không xác định được tháng con đủ 18 tuổi');
+    } else {
+      const adultYear = birth.year + CHILD_AGE_LIMIT;
+      if (adultYear < year) {
+        add(
+          'error',
+          `Đã đủ 18 tuổi từ tháng ${birth.month}/${adultYear} - chuyển sang loại con đang đi học hoặc khuyết tật nếu còn đủ điều kiện`
+        );
+      } else if (adultYear === year && (getRegisteredRange(dependent, year)?.[1] ?? 0) > birth.month) {
+        add('warning', `Đủ 18 tuổi tháng ${birth.month}/${year} - chỉ được giảm trừ đến hết tháng ${birth.month}`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Kiểm tra cả danh sách, kèm trùng MST/CCCD giữa các người phụ thuộc
+ */
+export function checkDependentRegistry(
+  dependents: DependentInfo[],
+  year: number
+): DependentEligibilityIssue[] {
+  const issues = dependents.flatMap(dependent => checkDependentEligibility(dependent, year));
+
+  const seen = new Map<string, string>();
+  for (const dependent of dependents) {
+    const code = (dependent.taxCode || dependent.idNumber || '').trim();
+    if (!code) continue;
+    const first = seen.get(code);
+    if (first) {
+      issues.push({
+        dependentId: dependent.id,
+        severity: 'error',
+        message: `Trùng MST/CCCD với ${first} - mỗi người chỉ được đăng ký một lần`,
+      });
+    } else {
+      seen.set(code, dependent.name);
+    }
+  }
+
+  return issues;
+}
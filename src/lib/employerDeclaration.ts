@@ -0,0 +1,975 @@
+/**
+ * Employer Declaration
+ * Tờ khai thuế TNCN của tổ chức trả thu nhập từ tiền lương, tiền công:
+ * - 05/KK-TNCN: khai theo tháng hoặc quý
+ * - 05/QTT-TNCN: quyết toán năm, kèm phụ lục 05-1/BK-QTT-TNCN (cá nhân cư trú có HĐLĐ
+ *   từ 3 tháng, tính theo biểu lũy tiến) và 05-2/BK-QTT-TNCN (cá nhân bị khấu trừ theo
+ *   thuế suất toàn phần 10%/20%)
+ *
+ * Căn cứ pháp lý:
+ * - Thông tư 80/2021/TT-BTC (mẫu 05/KK-TNCN, 05/QTT-TNCN, 05-1/BK, 05-2/BK)
+ *
+ * Số liệu dựng từ bảng lương từng tháng (lưu sau khi tính bảng lương hàng loạt) và các
+ * khoản chi trả khấu trừ toàn phần. Trước khi ghi XML, tổng danh sách cá nhân được đối
+ * chiếu với từng chỉ tiêu trên tờ khai. Các cột quyết toán thay theo ủy quyền trên
+ * 05-1/BK không được điền.
+ */
+
+import type { ResidencyStatus } from './withholdingTaxCalculator';
+import { NON_RESIDENT_WHT_RATES, RESIDENT_WHT_RATES, calculateWithholdingTax } from './withholdingTaxCalculator';
+import type { RosterResult } from './payrollRosterCalculator';
+import type { TaxAuthority } from './settlementXmlExporter';
+import type { CertificatePayer } from './withholdingCertificate';
+import type { PdfBlock, PdfReport, PdfTableColumn } from './pdfReportRenderer';
+import { formatNumber, getPeriodDate, getTaxConfigForDate } from './taxCalculator';
+import {
+  FieldRule,
+  TAX_CODE_MESSAGE,
+  TAX_CODE_PATTERN,
+  XmlValidationIssue,
+  block,
+  checkRules,
+  element,
+  formatXmlDate,
+} from './htkkXml';
+
+export type { XmlValidationIssue } from './htkkXml';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** progressive: cư trú, HĐLĐ từ 3 tháng (biểu lũy tiến); flat: khấu trừ 10%/20% */
+export type EmployerTaxMethod = 'progressive' | 'flat';
+
+/** Khoản trả thu nhập cho một cá nhân trong một tháng */
+export interface EmployerPayrollEntry {
+  employeeId: string;
+  fullName: string;
+  taxCode?: string;
+  idNumber?: string;
+  residency: ResidencyStatus;
+  taxMethod: EmployerTaxMethod;
+  taxableIncome: number;
+  insurance: number; // BHXH, BHYT, BHTN người lao động đóng
+  dependents: number;
+  taxWithheld: number;
+}
+
+/** Bảng lương đã chốt của một tháng */
+export interface EmployerPayrollMonth {
+  year: number;
+  month: number;
+  entries: EmployerPayrollEntry[];
+}
+
+export type EmployerDeclarationPeriod =
+  | { kind: 'month'; year: number; month: number }
+  | { kind: 'quarter'; year: number; quarter: number }
+  | { kind: 'year'; year: number };
+
+export type EmployerFormCode = '05/KK-TNCN' | '05/QTT-TNCN';
+
+export interface EmployerDeclarationInput {
+  payer: CertificatePayer;
+  period: EmployerDeclarationPeriod;
+  months: EmployerPayrollMonth[]; // Có thể gồm cả tháng ngoài kỳ - được lọc theo period
+  taxAuthority?: TaxAuthority;
+  amendment?: number; // Lần khai bổ sung (0/undefined = tờ khai chính thức)
+  signedAt?: Date;
+}
+
+/** Dòng phụ lục 05-1/BK-QTT-TNCN */
+export interface ProgressiveAppendixRow {
+  employeeId: string;
+  hoTen: string;
+  mst?: string;
+  cccd?: string;
+  tnct: number; // [11] Tổng thu nhập chịu thuế
+  soNPT: number; // [14] Số người phụ thuộc
+  giamTruGiaCanh: number; // [15] Tổng giảm trừ gia cảnh
+  baoHiem: number; // [17] Bảo hiểm bắt buộc
+  tntt: number; // [19] Tổng thu nhập tính thuế
+  thueKhauTru: number; // [20] Số thuế đã khấu trừ
+}
+
+/** Dòng phụ lục 05-2/BK-QTT-TNCN */
+export interface FlatAppendixRow {
+  employeeId: string;
+  hoTen: string;
+  mst?: string;
+  cccd?: string;
+  khongCuTru: boolean; // [10] Cá nhân không cư trú
+  tnct: number; // [11] Tổng thu nhập chịu thuế
+  thueKhauTru: number; // [13] Số thuế đã khấu trừ
+}
+
+/** Số liệu tờ khai theo chỉ tiêu, trước khi ghi XML */
+export interface EmployerDeclaration {
+  formCode: EmployerFormCode;
+  header: {
+    period: EmployerDeclarationPeriod;
+    declarationType: 'C' | 'B'; // C: chính thức, B: bổ sung
+    amendment: number;
+    taxAuthorityCode?: string;
+    taxAuthorityName?: string;
+    signedAt: Date;
+  };
+  payer: CertificatePayer;
+  indicators: Record<string, number>;
+  progressiveRows: ProgressiveAppendixRow[];
+  flatRows: FlatAppendixRow[];
+}
+
+export type EmployerDeclarationXmlResult =
+  | { ok: true; xml: string; fileName: string }
+  | { ok: false; errors: XmlValidationIssue[] };
+
+export interface FlatRatePaymentInput {
+  fullName: string;
+  taxCode?: string;
+  idNumber?: string;
+  residency: ResidencyStatus;
+  amount: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Mã tờ khai/phiên bản XML theo HTKK - cập nhật khi cơ quan thuế đổi phiên bản
+const HTKK_FORM_CODES: Record<EmployerFormCode, string> = {
+  '05/KK-TNCN': '864',
+  '05/QTT-TNCN': '954',
+};
+const HTKK_XML_VERSION = '2.5.3';
+const HTKK_NAMESPACE = 'http://kekhaithue.gdt.gov.vn/TKhaiThue';
+
+export const EMPLOYER_PAYROLL_STORAGE_KEY = 'employer-payroll-months';
+
+/**
+ * Chỉ tiêu trên mẫu 05/KK-TNCN
+ */
+export const MONTHLY_INDICATORS: Record<string, string> = {
+  ct21: 'Tổng số người lao động',
+  ct22: 'Trong đó: Cá nhân cư trú có hợp đồng lao động',
+  ct23: 'Tổng số cá nhân đã khấu trừ thuế',
+  ct24: 'Cá nhân cư trú',
+  ct25: 'Cá nhân không cư trú',
+  ct26: 'Tổng thu nhập chịu thuế trả cho cá nhân',
+  ct27: 'Cá nhân cư trú',
+  ct28: 'Cá nhân không cư trú',
+  ct29: 'Tổng thu nhập chịu thuế trả cho cá nhân thuộc diện phải khấu trừ thuế',
+  ct30: 'Cá nhân cư trú',
+  ct31: 'Cá nhân không cư trú',
+  ct32: 'Tổng số thuế thu nhập cá nhân đã khấu trừ',
+  ct33: 'Cá nhân cư trú',
+  ct34: 'Cá nhân không cư trú',
+  ct35: 'Tổng thu nhập chịu thuế từ tiền phí mua bảo hiểm nhân thọ, bảo hiểm không bắt buộc khác',
+  ct36: 'Tổng số thuế thu nhập cá nhân đã khấu trừ trên tiền phí mua bảo hiểm',
+};
+
+/**
+ * Chỉ tiêu trên mẫu 05/QTT-TNCN
+ */
+export const ANNUAL_INDICATORS: Record<string, string> = {
+  ct21: 'Tổng số người lao động',
+  ct22: 'Trong đó: Cá nhân cư trú có hợp đồng lao động',
+  ct23: 'Tổng số cá nhân đã khấu trừ thuế',
+  ct24: 'Cá nhân cư trú',
+  ct25: 'Cá nhân không cư trú',
+  ct26: 'Tổng số cá nhân thuộc diện được miễn, giảm thuế theo Hiệp định',
+  ct27: 'Tổng số cá nhân giảm trừ gia cảnh',
+  ct28: 'Tổng thu nhập chịu thuế trả cho cá nhân',
+  ct29: 'Cá nhân cư trú',
+  ct30: 'Cá nhân không cư trú',
+  ct31: 'Trong đó: Thu nhập chịu thuế được miễn theo Hiệp định',
+  ct32: 'Trong đó: Thu nhập chịu thuế làm việc trong khu kinh tế',
+  ct33: 'Tổng thu nhập chịu thuế trả cho cá nhân thuộc diện phải khấu trừ thuế',
+  ct34: 'Cá nhân cư trú',
+  ct35: 'Cá nhân không cư trú',
+  ct36: 'Tổng số thuế thu nhập cá nhân đã khấu trừ',
+  ct37: 'Cá nhân cư trú',
+  ct38: 'Cá nhân không cư trú',
+  ct39: 'Tổng số thuế được giảm do làm việc trong khu kinh tế',
+};
+
+// Chỉ tiêu tổng = cư trú + không cư trú
+const INDICATOR_SUMS: Record<EmployerFormCode, Array<[string, string, string]>> = {
+  '05/KK-TNCN': [['ct23', 'ct24', 'ct25'], ['ct26', 'ct27', 'ct28'], ['ct29', 'ct30', 'ct31'], ['ct32', 'ct33', 'ct34']],
+  '05/QTT-TNCN': [['ct23', 'ct24', 'ct25'], ['ct28', 'ct29', 'ct30'], ['ct33', 'ct34', 'ct35'], ['ct36', 'ct37', 'ct38']],
+};
+
+/**
+ * Chỉ tiêu đối chiếu với phụ lục: tổng một cột (hoặc số cá nhân) của nhóm dòng
+ * - group: progressive = 05-1/BK; resident/nonResident/all gộp 05-1/BK và 05-2/BK
+ * - withheldOnly: chỉ các dòng có thuế đã khấu trừ
+ */
+interface AppendixTotal {
+  indicator: string;
+  group: 'all' | 'resident' | 'nonResident' | 'progressive';
+  column: 'people' | 'tnct' | 'thueKhauTru';
+  withheldOnly?: boolean;
+}
+
+const APPENDIX_TOTALS: Record<EmployerFormCode, AppendixTotal[]> = {
+  '05/KK-TNCN': [
+    { indicator: 'ct21', group: 'all', column: 'people' },
+    { indicator: 'ct22', group: 'progressive', column: 'people' },
+    { indicator: 'ct24', group: 'resident', column: 'people', withheldOnly: true },
+    { indicator: 'ct25', group: 'nonResident', column: 'people', withheldOnly: true },
+    { indicator: 'ct27', group: 'resident', column: 'tnct' },
+    { indicator: 'ct28', group: 'nonResident', column: 'tnct' },
+    { indicator: 'ct30', group: 'resident', column: 'tnct', withheldOnly: true },
+    { indicator: 'ct31', group: 'nonResident', column: 'tnct', withheldOnly: true },
+    { indicator: 'ct33', group: 'resident', column: 'thueKhauTru' },
+    { indicator: 'ct34', group: 'nonResident', column: 'thueKhauTru' },
+  ],
+  '05/QTT-TNCN': [
+    { indicator: 'ct21', group: 'all', column: 'people' },
+    { indicator: 'ct22', group: 'progressive', column: 'people' },
+    { indicator: 'ct24', group: 'resident', column: 'people', withheldOnly: true },
+    { indicator: 'ct25', group: 'nonResident', column: 'people', withheldOnly: true },
+    { indicator: 'ct27', group: 'progressive', column: 'people' },
+    { indicator: 'ct29', group: 'resident', column: 'tnct' },
+    { indicator: 'ct30', group: 'nonResident', column: 'tnct' },
+    { indicator: 'ct34', group: 'resident', column: 'tnct', withheldOnly: true },
+    { indicator: 'ct35', group: 'nonResident', column: 'tnct', withheldOnly: true },
+    { indicator: 'ct37', group: 'resident', column: 'thueKhauTru' },
+    { indicator: 'ct38', group: 'nonResident', column: 'thueKhauTru' },
+  ],
+};
+
+// Sai số làm tròn cho phép khi cộng số thuế khấu trừ từng lần của một cá nhân (đồng)
+const WITHHOLDING_ROUNDING_TOLERANCE = 1_000;
+
+const PAYER_SCHEMA: FieldRule[] = [
+  { path: 'payer.name', label: 'Tên người nộp thuế [01]', required: true, maxLength: 200 },
+  { path: 'payer.taxCode', label: 'Mã số thuế [02]', required: true, pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+  { path: 'payer.address', label: 'Địa chỉ', maxLength: 200 },
+  { path: 'payer.phone', label: 'Điện thoại', pattern: /^[0-9+ ]{8,15}$/, patternMessage: 'không hợp lệ' },
+  { path: 'header.taxAuthorityCode', label: 'Mã cơ quan thuế nơi nộp', pattern: /^\d{3,5}$/, patternMessage: 'phải gồm 3-5 chữ số' },
+];
+
+const APPENDIX_ROW_SCHEMA: FieldRule[] = [
+  { path: 'hoTen', label: 'Họ và tên [07]', required: true, maxLength: 100 },
+  { path: 'mst', label: 'Mã số thuế [08]', pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+  { path: 'cccd', label: 'Số CCCD/hộ chiếu [09]', pattern: /^[A-Z0-9]{8,12}$/i, patternMessage: 'phải gồm 8-12 chữ hoặc số' },
+];
+
+// =============================================================================
+// PERIOD
+// =============================================================================
+
+export function getFormCode(period: EmployerDeclarationPeriod): EmployerFormCode {
+  return period.kind === 'year' ? '05/QTT-TNCN' : '05/KK-TNCN';
+}
+
+/** Các tháng (1-12) thuộc kỳ khai */
+export function getPeriodMonths(period: EmployerDeclarationPeriod): number[] {
+  switch (period.kind) {
+    case 'month':
+      return [period.month];
+    case 'quarter':
+      return [1, 2, 3].map((offset) => (period.quarter - 1) * 3 + offset);
+    case 'year':
+      return Array.from({ length: 12 }, (_, index) => index + 1);
+  }
+}
+
+/** VD: Tháng 03/2026, Quý 1/2026, Năm 2026 */
+export function formatDeclarationPeriod(period: EmployerDeclarationPeriod): string {
+  switch (period.kind) {
+    case 'month':
+      return `Tháng ${String(period.month).padStart(2, '0')}/${period.year}`;
+    case 'quarter':
+      return `Quý ${period.quarter}/${period.year}`;
+    case 'year':
+      return `Năm ${period.year}`;
+  }
+}
+
+function getPeriodBounds(period: EmployerDeclarationPeriod): { from: Date; to: Date } {
+  const months = getPeriodMonths(period);
+  return {
+    from: getPeriodDate(period.year, months[0]),
+    to: new Date(period.year, months[months.length - 1], 0),
+  };
+}
+
+function formatDayMonthYear(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+}
+
+// =============================================================================
+// PAYROLL MONTHS
+// =============================================================================
+
+/**
+ * Chốt bảng lương hàng loạt thành bảng lương của một tháng
+ * Nhân viên trong bảng lương là cá nhân cư trú tính theo biểu lũy tiến
+ */
+export function payrollMonthFromRoster(result: RosterResult, year: number, month: number): EmployerPayrollMonth {
+  return {
+    year,
+    month,
+    entries: result.rows.map((row) => ({
+      employeeId: row.employeeId,
+      fullName: row.fullName,
+      taxCode: row.taxCode,
+      idNumber: row.idNumber,
+      residency: 'resident',
+      taxMethod: 'progressive',
+      taxableIncome: row.grossIncome + row.allowances.total - row.allowances.taxExempt,
+      insurance: row.employeeInsurance.total,
+      dependents: row.dependents,
+      taxWithheld: row.pit,
+    })),
+  };
+}
+
+/**
+ * Khoản chi trả khấu trừ toàn phần (không HĐLĐ/HĐLĐ dưới 3 tháng 10%, không cư trú 20%)
+ */
+export function createFlatRateEntry(input: FlatRatePaymentInput): EmployerPayrollEntry {
+  const wht = calculateWithholdingTax({
+    paymentAmount: input.amount,
+    incomeType: 'salary_without_contract',
+    residencyStatus: input.residency,
+  });
+  const fullName = input.fullName.trim();
+  const taxCode = input.taxCode?.trim() || undefined;
+  const idNumber = input.idNumber?.trim() || undefined;
+
+  return {
+    employeeId: taxCode ?? idNumber ?? fullName,
+    fullName,
+    taxCode,
+    idNumber,
+    residency: input.residency,
+    taxMethod: 'flat',
+    taxableIncome: input.amount,
+    insurance: 0,
+    dependents: 0,
+    taxWithheld: wht.withholdingAmount,
+  };
+}
+
+/**
+ * Ghi bảng lương của tháng: thay các dòng theo biểu lũy tiến cũ, giữ các khoản khấu trừ toàn phần
+ */
+export function setRosterMonth(months: EmployerPayrollMonth[], payroll: EmployerPayrollMonth): EmployerPayrollMonth[] {
+  const existing = months.find((item) => item.year === payroll.year && item.month === payroll.month);
+  const flatEntries = existing?.entries.filter((entry) => entry.taxMethod === 'flat') ?? [];
+  return sortPayrollMonths([
+    ...months.filter((item) => item !== existing),
+    { ...payroll, entries: [...payroll.entries, ...flatEntries] },
+  ]);
+}
+
+/**
+ * Thêm một khoản chi trả vào tháng (tạo tháng nếu chưa có)
+ */
+export function addPayrollEntry(
+  months: EmployerPayrollMonth[],
+  year: number,
+  month: number,
+  entry: EmployerPayrollEntry
+): EmployerPayrollMonth[] {
+  const existing = months.find((item) => item.year === year && item.month === month);
+  return sortPayrollMonths([
+    ...months.filter((item) => item !== existing),
+    { year, month, entries: [...(existing?.entries ?? []), entry] },
+  ]);
+}
+
+function sortPayrollMonths(months: EmployerPayrollMonth[]): EmployerPayrollMonth[] {
+  return [...months].sort((a, b) => a.year - b.year || a.month - b.month);
+}
+
+// =============================================================================
+// BUILD
+// =============================================================================
+
+/** Thu nhập tính thuế [19] của một dòng 05-1/BK: TNCT − bảo hiểm − giảm trừ gia cảnh */
+function getAppendixTaxableIncome(row: ProgressiveAppendixRow): number {
+  return Math.max(0, row.tnct - row.baoHiem - row.giamTruGiaCanh);
+}
+
+function toAppendixRows(months: EmployerPayrollMonth[]): {
+  progressiveRows: ProgressiveAppendixRow[];
+  flatRows: FlatAppendixRow[];
+} {
+  const progressive = new Map<string, ProgressiveAppendixRow>();
+  const flat = new Map<string, FlatAppendixRow>();
+
+  for (const payroll of months) {
+    const { deductions } = getTaxConfigForDate(getPeriodDate(payroll.year, payroll.month));
+
+    for (const entry of payroll.entries) {
+      const identity = {
+        employeeId: entry.employeeId,
+        hoTen: entry.fullName.trim(),
+        mst: entry.taxCode?.trim() || undefined,
+        cccd: entry.idNumber?.trim() || undefined,
+      };
+
+      if (entry.taxMethod === 'progressive') {
+        const row = progressive.get(entry.employeeId) ?? {
+          ...identity, tnct: 0, soNPT: 0, giamTruGiaCanh: 0, baoHiem: 0, tntt: 0, thueKhauTru: 0,
+        };
+        // Giảm trừ gia cảnh theo mức hiệu lực của từng tháng
+        const familyDeduction = deductions.personal + entry.dependents * deductions.dependent;
+        row.tnct += entry.taxableIncome;
+        row.soNPT = Math.max(row.soNPT, entry.dependents);
+        row.giamTruGiaCanh += familyDeduction;
+        row.baoHiem += entry.insurance;
+        row.thueKhauTru += entry.taxWithheld;
+        progressive.set(entry.employeeId, row);
+      } else {
+        const row = flat.get(entry.employeeId) ?? {
+          ...identity, khongCuTru: entry.residency === 'non_resident', tnct: 0, thueKhauTru: 0,
+        };
+        row.tnct += entry.taxableIncome;
+        row.thueKhauTru += entry.taxWithheld;
+        flat.set(entry.employeeId, row);
+      }
+    }
+  }
+
+  const round = <T extends object>(row: T): T =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key, typeof value === 'number' ? Math.round(value) : value])
+    ) as T;
+
+  return {
+    // [19] = [11] − [17] − [15] trên số đã làm tròn của cả kỳ
+    progressiveRows: [...progressive.values()].map(round).map((row) => ({ ...row, tntt: getAppendixTaxableIncome(row) })),
+    flatRows: [...flat.values()].map(round),
+  };
+}
+
+/**
+ * Tính các chỉ tiêu của tờ khai từ danh sách cá nhân khi dựng tờ khai
+ */
+function computeIndicators(
+  formCode: EmployerFormCode,
+  progressiveRows: ProgressiveAppendixRow[],
+  flatRows: FlatAppendixRow[]
+): Record<string, number> {
+  const rows = [
+    ...progressiveRows.map((row) => ({ id: row.employeeId, resident: true, tnct: row.tnct, tax: row.thueKhauTru })),
+    ...flatRows.map((row) => ({ id: row.employeeId, resident: !row.khongCuTru, tnct: row.tnct, tax: row.thueKhauTru })),
+  ];
+  const sum = (filter: (row: typeof rows[number]) => boolean, pick: (row: typeof rows[number]) => number) =>
+    rows.filter(filter).reduce((total, row) => total + pick(row), 0);
+  const count = (filter: (row: typeof rows[number]) => boolean) =>
+    new Set(rows.filter(filter).map((row) => row.id)).size;
+
+  const people = count(() => true);
+  const withheldResident = count((row) => row.resident && row.tax > 0);
+  const withheldNonResident = count((row) => !row.resident && row.tax > 0);
+  const incomeResident = sum((row) => row.resident, (row) => row.tnct);
+  const incomeNonResident = sum((row) => !row.resident, (row) => row.tnct);
+  const subjectResident = sum((row) => row.resident && row.tax > 0, (row) => row.tnct);
+  const subjectNonResident = sum((row) => !row.resident && row.tax > 0, (row) => row.tnct);
+  const taxResident = sum((row) => row.resident, (row) => row.tax);
+  const taxNonResident = sum((row) => !row.resident, (row) => row.tax);
+
+  if (formCode === '05/KK-TNCN') {
+    return {
+      ct21: people,
+      ct22: progressiveRows.length,
+      ct23: withheldResident + withheldNonResident,
+      ct24: withheldResident,
+      ct25: withheldNonResident,
+      ct26: incomeResident + incomeNonResident,
+      ct27: incomeResident,
+      ct28: incomeNonResident,
+      ct29: subjectResident + subjectNonResident,
+      ct30: subjectResident,
+      ct31: subjectNonResident,
+      ct32: taxResident + taxNonResident,
+      ct33: taxResident,
+      ct34: taxNonResident,
+      ct35: 0,
+      ct36: 0,
+    };
+  }
+
+  return {
+    ct21: people,
+    ct22: progressiveRows.length,
+    ct23: withheldResident + withheldNonResident,
+    ct24: withheldResident,
+    ct25: withheldNonResident,
+    ct26: 0,
+    ct27: progressiveRows.length,
+    ct28: incomeResident + incomeNonResident,
+    ct29: incomeResident,
+    ct30: incomeNonResident,
+    ct31: 0,
+    ct32: 0,
+    ct33: subjectResident + subjectNonResident,
+    ct34: subjectResident,
+    ct35: subjectNonResident,
+    ct36: taxResident + taxNonResident,
+    ct37: taxResident,
+    ct38: taxNonResident,
+    ct39: 0,
+  };
+}
+
+/**
+ * Dựng tờ khai 05/KK-TNCN (kỳ tháng/quý) hoặc 05/QTT-TNCN (kỳ năm) từ bảng lương các tháng trong kỳ
+ */
+export function buildEmployerDeclaration(input: EmployerDeclarationInput): EmployerDeclaration {
+  const { period, payer, taxAuthority, amendment = 0 } = input;
+  const formCode = getFormCode(period);
+  const periodMonths = getPeriodMonths(period);
+  const months = input.months.filter(
+    (payroll) => payroll.year === period.year && periodMonths.includes(payroll.month)
+  );
+  const { progressiveRows, flatRows } = toAppendixRows(months);
+
+  return {
+    formCode,
+    header: {
+      period,
+      declarationType: amendment > 0 ? 'B' : 'C',
+      amendment,
+      taxAuthorityCode: taxAuthority?.code,
+      taxAuthorityName: taxAuthority?.name,
+      signedAt: input.signedAt ?? new Date(),
+    },
+    payer: {
+      name: payer.name.trim(),
+      taxCode: payer.taxCode.trim(),
+      address: payer.address?.trim() || undefined,
+      phone: payer.phone?.trim() || undefined,
+    },
+    indicators: computeIndicators(formCode, progressiveRows, flatRows),
+    progressiveRows,
+    flatRows,
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Tổng một cột của phụ lục theo nhóm dòng, cộng thẳng từ các dòng đã lưu
+ */
+function sumAppendix(declaration: EmployerDeclaration, total: AppendixTotal): number {
+  const rows = [
+    ...declaration.progressiveRows.map((row) => ({ row, progressive: true, resident: true })),
+    ...declaration.flatRows.map((row) => ({ row, progressive: false, resident: !row.khongCuTru })),
+  ].filter(({ row, progressive, resident }) => {
+    if (total.withheldOnly && row.thueKhauTru <= 0) return false;
+    if (total.group === 'progressive') return progressive;
+    if (total.group === 'resident') return resident;
+    if (total.group === 'nonResident') return !resident;
+    return true;
+  });
+
+  const { column } = total;
+  if (column === 'people') return new Set(rows.map(({ row }) => row.employeeId)).size;
+  return rows.reduce((sum, { row }) => sum + row[column], 0);
+}
+
+/**
+ * Đối chiếu từng dòng phụ lục: [19] = [11] − [17] − [15]; thuế đã khấu trừ không âm và
+ * không vượt mức thu nhập của dòng cho phép (thuế suất cao nhất của biểu lũy tiến trên
+ * thu nhập tính thuế, hoặc 10%/20% trên thu nhập chịu thuế)
+ */
+function crossCheckAppendixRows(declaration: EmployerDeclaration): XmlValidationIssue[] {
+  const issues: XmlValidationIssue[] = [];
+  const { brackets } = getTaxConfigForDate(getPeriodBounds(declaration.header.period).to);
+  const topRate = Math.max(...brackets.map((bracket) => bracket.rate));
+
+  const checkTax = (row: ProgressiveAppendixRow | FlatAppendixRow, path: string, column: string, limit: number) => {
+    const who = row.hoTen || row.employeeId;
+    if (row.thueKhauTru < 0) {
+      issues.push({ path, message: `${who}: số thuế đã khấu trừ [${column}] không được âm` });
+    } else if (row.thueKhauTru > limit + WITHHOLDING_ROUNDING_TOLERANCE) {
+      issues.push({
+        path,
+        message: `${who}: số thuế đã khấu trừ [${column}] (${formatNumber(row.thueKhauTru)}) vượt mức tối đa theo thu nhập (${formatNumber(limit)})`,
+      });
+    }
+  };
+
+  declaration.progressiveRows.forEach((row, index) => {
+    const prefix = `progressiveRows[${index}]`;
+    const expected = getAppendixTaxableIncome(row);
+    if (row.tntt !== expected) {
+      issues.push({
+        path: `${prefix}.tntt`,
+        message: `${row.hoTen || row.employeeId}: thu nhập tính thuế [19] (${formatNumber(row.tntt)}) phải bằng [11] − [17] − [15] (${formatNumber(expected)})`,
+      });
+    }
+    checkTax(row, `${prefix}.thueKhauTru`, '20', Math.round(expected * topRate));
+  });
+
+  declaration.flatRows.forEach((row, index) => {
+    const rate = row.khongCuTru ? NON_RESIDENT_WHT_RATES.salary : RESIDENT_WHT_RATES.salaryWithoutContract.rate;
+    checkTax(row, `flatRows[${index}].thueKhauTru`, '13', Math.round(row.tnct * rate));
+  });
+
+  return issues;
+}
+
+/**
+ * Đối chiếu số liệu đã lưu trên tờ khai với phụ lục (không dùng lại cách tính khi dựng):
+ * từng chỉ tiêu phải bằng tổng cột tương ứng của các dòng 05-1/BK, 05-2/BK, chỉ tiêu tổng
+ * phải bằng cư trú + không cư trú, và từng dòng phải tự khớp
+ */
+export function crossCheckEmployerDeclaration(declaration: EmployerDeclaration): XmlValidationIssue[] {
+  const issues: XmlValidationIssue[] = [];
+  const { formCode, indicators } = declaration;
+  const labels = formCode === '05/QTT-TNCN' ? ANNUAL_INDICATORS : MONTHLY_INDICATORS;
+  const source = formCode === '05/QTT-TNCN' ? 'phụ lục 05-1/BK và 05-2/BK' : 'danh sách cá nhân trong kỳ';
+
+  for (const total of APPENDIX_TOTALS[formCode]) {
+    const { indicator } = total;
+    const value = sumAppendix(declaration, total);
+    if (indicators[indicator] !== value) {
+      issues.push({
+        path: `indicators.${indicator}`,
+        message: `Chỉ tiêu [${indicator.slice(2)}] ${labels[indicator]} (${formatNumber(indicators[indicator] ?? 0)}) khác tổng theo ${source} (${formatNumber(value)})`,
+      });
+    }
+  }
+
+  for (const [total, resident, nonResident] of INDICATOR_SUMS[formCode]) {
+    if (indicators[total] !== indicators[resident] + indicators[nonResident]) {
+      issues.push({
+        path: `indicators.${total}`,
+        message: `Chỉ tiêu [${total.slice(2)}] phải bằng [${resident.slice(2)}] + [${nonResident.slice(2)}]`,
+      });
+    }
+  }
+
+  issues.push(...crossCheckAppendixRows(declaration));
+  return issues;
+}
+
+/**
+ * Kiểm tra thông tin người nộp thuế, từng dòng phụ lục và đối chiếu số liệu
+ */
+export function validateEmployerDeclaration(declaration: EmployerDeclaration): XmlValidationIssue[] {
+  const issues: XmlValidationIssue[] = [];
+  checkRules(declaration, PAYER_SCHEMA, '', issues);
+
+  const { progressiveRows, flatRows } = declaration;
+  if (progressiveRows.length === 0 && flatRows.length === 0) {
+    issues.push({
+      path: 'progressiveRows',
+      message: `Chưa có bảng lương nào trong kỳ ${formatDeclarationPeriod(declaration.header.period).toLowerCase()}`,
+    });
+  }
+
+  const checkRow = (row: ProgressiveAppendixRow | FlatAppendixRow, prefix: string) => {
+    checkRules(row, APPENDIX_ROW_SCHEMA, prefix, issues);
+    if (!row.mst && !row.cccd) {
+      issues.push({ path: `${prefix}.mst`, message: `${row.hoTen || row.employeeId}: cần MST hoặc số CCCD/hộ chiếu` });
+    }
+  };
+  progressiveRows.forEach((row, index) => checkRow(row, `progressiveRows[${index}]`));
+  flatRows.forEach((row, index) => checkRow(row, `flatRows[${index}]`));
+
+  for (const [key, value] of Object.entries(declaration.indicators)) {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      issues.push({ path: `indicators.${key}`, message: `Chỉ tiêu [${key.slice(2)}] phải là số nguyên không âm` });
+    }
+  }
+
+  issues.push(...crossCheckEmployerDeclaration(declaration));
+  return issues;
+}
+
+// =============================================================================
+// XML
+// =============================================================================
+
+/**
+ * Ghi tờ khai (đã kiểm tra) thành XML HTKK; phụ lục chỉ có ở tờ khai quyết toán
+ */
+export function serializeEmployerDeclarationXml(declaration: EmployerDeclaration): string {
+  const { formCode, header, payer, indicators, progressiveRows, flatRows } = declaration;
+  const { period } = header;
+  const { from, to } = getPeriodBounds(period);
+  const i = (level: number) => '  '.repeat(level);
+  const isAnnual = formCode === '05/QTT-TNCN';
+
+  const kyKKhai = period.kind === 'month'
+    ? `${String(period.month).padStart(2, '0')}/${period.year}`
+    : period.kind === 'quarter' ? `${period.quarter}/${period.year}` : String(period.year);
+
+  const tkhaiThue = block('TKhaiThue', [
+    element('maTKhai', HTKK_FORM_CODES[formCode], i(5)),
+    element('tenTKhai', isAnnual
+      ? 'TỜ KHAI QUYẾT TOÁN THUẾ THU NHẬP CÁ NHÂN (Mẫu số 05/QTT-TNCN)'
+      : 'TỜ KHAI KHẤU TRỪ THUẾ THU NHẬP CÁ NHÂN (Mẫu số 05/KK-TNCN)', i(5)),
+    element('moTaBMau', '(Ban hành kèm theo Thông tư số 80/2021/TT-BTC)', i(5)),
+    element('pbanTKhaiXML', HTKK_XML_VERSION, i(5)),
+    element('loaiTKhai', header.declarationType, i(5)),
+    element('soLan', header.amendment, i(5)),
+    block('KyKKhaiThue', [
+      element('kieuKy', period.kind === 'month' ? 'M' : period.kind === 'quarter' ? 'Q' : 'Y', i(6)),
+      element('kyKKhai', kyKKhai, i(6)),
+      element('kyKKhaiTuNgay', formatDayMonthYear(from), i(6)),
+      element('kyKKhaiDenNgay', formatDayMonthYear(to), i(6)),
+    ], i(5)),
+    element('maCQTNoiNop', header.taxAuthorityCode, i(5)),
+    element('tenCQTNoiNop', header.taxAuthorityName, i(5)),
+    element('ngayLapTKhai', formatXmlDate(header.signedAt), i(5)),
+    element('nguoiKy', payer.name, i(5)),
+    element('ngayKy', formatXmlDate(header.signedAt), i(5)),
+  ], i(4));
+
+  const nntBlock = block('NNT', [
+    element('mst', payer.taxCode.replace('-', ''), i(5)),
+    element('tenNNT', payer.name, i(5)),
+    element('dchiNNT', payer.address, i(5)),
+    element('dthoaiNNT', payer.phone, i(5)),
+  ], i(4));
+
+  const mainIndicators = block(
+    'CTieuTKhaiChinh',
+    Object.keys(isAnnual ? ANNUAL_INDICATORS : MONTHLY_INDICATORS).map((key) => element(key, indicators[key], i(3))),
+    i(2)
+  );
+
+  const appendix = block('PLuc', [
+    block('PL_05_1_BK_QTT_TNCN', progressiveRows.map((row, index) =>
+      block('BKeCTietCNhan', [
+        element('ct06', index + 1, i(5)),
+        element('ct07', row.hoTen, i(5)),
+        element('ct08', row.mst?.replace('-', ''), i(5)),
+        element('ct09', row.cccd, i(5)),
+        element('ct11', row.tnct, i(5)),
+        element('ct14', row.soNPT, i(5)),
+        element('ct15', row.giamTruGiaCanh, i(5)),
+        element('ct17', row.baoHiem, i(5)),
+        element('ct19', row.tntt, i(5)),
+        element('ct20', row.thueKhauTru, i(5)),
+      ], i(4))
+    ), i(3)),
+    block('PL_05_2_BK_QTT_TNCN', flatRows.map((row, index) =>
+      block('BKeCTietCNhan', [
+        element('ct06', index + 1, i(5)),
+        element('ct07', row.hoTen, i(5)),
+        element('ct08', row.mst?.replace('-', ''), i(5)),
+        element('ct09', row.cccd, i(5)),
+        element('ct10', row.khongCuTru ? 1 : 0, i(5)),
+        element('ct11', row.tnct, i(5)),
+        element('ct13', row.thueKhauTru, i(5)),
+      ], i(4))
+    ), i(3)),
+  ], i(2));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<HSoThueDTu xmlns="${HTKK_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+    block('HSoKhaiThue', [
+      block('TTinChung', [
+        block('TTinTKhaiThue', [tkhaiThue, nntBlock], i(3)),
+      ], i(2)),
+      mainIndicators,
+      ...(isAnnual ? [appendix] : []),
+    ], i(1)),
+    '</HSoThueDTu>',
+    '',
+  ].join('\n');
+}
+
+/** VD: 0101234567_05KK-TNCN_Q1-2026.xml, 0101234567_05QTT-TNCN_2026.pdf */
+export function getEmployerDeclarationFileName(declaration: EmployerDeclaration, extension: string): string {
+  const { period } = declaration.header;
+  const suffix = period.kind === 'month'
+    ? `T${String(period.month).padStart(2, '0')}-${period.year}`
+    : period.kind === 'quarter' ? `Q${period.quarter}-${period.year}` : String(period.year);
+  const form = declaration.formCode.replace('/', '');
+  return `${declaration.payer.taxCode.replace('-', '')}_${form}_${suffix}.${extension}`;
+}
+
+/**
+ * Tạo XML 05/KK-TNCN hoặc 05/QTT-TNCN: dựng số liệu → kiểm tra, đối chiếu → ghi XML.
+ * Trả về danh sách lỗi (không có XML) nếu thiếu trường bắt buộc hoặc số liệu không khớp.
+ */
+export function exportEmployerDeclarationXml(input: EmployerDeclarationInput): EmployerDeclarationXmlResult {
+  const declaration = buildEmployerDeclaration(input);
+  const errors = validateEmployerDeclaration(declaration);
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    xml: serializeEmployerDeclarationXml(declaration),
+    fileName: getEmployerDeclarationFileName(declaration, 'xml'),
+  };
+}
+
+// =============================================================================
+// PDF
+// =============================================================================
+
+const MONEY_COLUMN: Omit<PdfTableColumn, 'header'> = { width: 1.4, align: 'right' };
+
+/**
+ * PDF tờ khai: thông tin người nộp thuế, bảng chỉ tiêu, phụ lục (tờ khai quyết toán) và chữ ký
+ */
+export function buildEmployerDeclarationPdfReport(declaration: EmployerDeclaration): PdfReport {
+  const { formCode, header, payer, indicators, progressiveRows, flatRows } = declaration;
+  const isAnnual = formCode === '05/QTT-TNCN';
+  const labels = isAnnual ? ANNUAL_INDICATORS : MONTHLY_INDICATORS;
+  const sumOf = <T>(rows: T[], pick: (row: T) => number) => rows.reduce((total, row) => total + pick(row), 0);
+
+  const blocks: PdfBlock[] = [
+    { type: 'heading', text: 'Thông tin người nộp thuế' },
+    {
+      type: 'keyValue',
+      rows: [
+        { label: '[01] Tên người nộp thuế', value: payer.name },
+        { label: '[02] Mã số thuế', value: payer.taxCode },
+        { label: 'Địa chỉ', value: payer.address || '' },
+        { label: 'Điện thoại', value: payer.phone || '' },
+        ...(header.taxAuthorityName ? [{ label: 'Cơ quan thuế nơi nộp', value: header.taxAuthorityName }] : []),
+      ],
+    },
+    { type: 'heading', text: 'Chỉ tiêu tờ khai' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Mã', width: 0.5, align: 'center' },
+        { header: 'Chỉ tiêu', width: 4 },
+        { header: 'Giá trị', ...MONEY_COLUMN },
+      ],
+      rows: Object.keys(labels).map((key) => ({
+        cells: [`[${key.slice(2)}]`, labels[key], formatNumber(indicators[key])],
+      })),
+    },
+  ];
+
+  if (isAnnual) {
+    blocks.push(
+      { type: 'heading', text: 'Phụ lục 05-1/BK-QTT-TNCN - Cá nhân cư trú có hợp đồng lao động' },
+      progressiveRows.length > 0
+        ? {
+            type: 'table',
+            columns: [
+              { header: 'STT', width: 0.4, align: 'center' },
+              { header: '[07] Họ và tên', width: 2 },
+              { header: '[08] MST', width: 1.3 },
+              { header: '[11] TNCT', ...MONEY_COLUMN },
+              { header: '[14] NPT', width: 0.5, align: 'right' },
+              { header: '[15] Giảm trừ GC', ...MONEY_COLUMN },
+              { header: '[17] Bảo hiểm', ...MONEY_COLUMN },
+              { header: '[19] TNTT', ...MONEY_COLUMN },
+              { header: '[20] Thuế đã KT', ...MONEY_COLUMN },
+            ],
+            rows: [
+              ...progressiveRows.map((row, index) => ({
+                cells: [
+                  String(index + 1), row.hoTen, row.mst ?? row.cccd ?? '', formatNumber(row.tnct), String(row.soNPT),
+                  formatNumber(row.giamTruGiaCanh), formatNumber(row.baoHiem), formatNumber(row.tntt), formatNumber(row.thueKhauTru),
+                ],
+              })),
+              {
+                cells: [
+                  '', 'Tổng cộng', '', formatNumber(sumOf(progressiveRows, (row) => row.tnct)), '',
+                  formatNumber(sumOf(progressiveRows, (row) => row.giamTruGiaCanh)),
+                  formatNumber(sumOf(progressiveRows, (row) => row.baoHiem)),
+                  formatNumber(sumOf(progressiveRows, (row) => row.tntt)),
+                  formatNumber(sumOf(progressiveRows, (row) => row.thueKhauTru)),
+                ],
+                bold: true,
+                highlight: true,
+              },
+            ],
+          }
+        : { type: 'paragraph', text: 'Không có', tone: 'muted' },
+      { type: 'heading', text: 'Phụ lục 05-2/BK-QTT-TNCN - Cá nhân khấu trừ theo thuế suất toàn phần' },
+      flatRows.length > 0
+        ? {
+            type: 'table',
+            columns: [
+              { header: 'STT', width: 0.4, align: 'center' },
+              { header: '[07] Họ và tên', width: 2 },
+              { header: '[08] MST/CCCD', width: 1.3 },
+              { header: '[10] Không cư trú', width: 0.8, align: 'center' },
+              { header: '[11] TNCT', ...MONEY_COLUMN },
+              { header: '[13] Thuế đã KT', ...MONEY_COLUMN },
+            ],
+            rows: [
+              ...flatRows.map((row, index) => ({
+                cells: [
+                  String(index + 1), row.hoTen, row.mst ?? row.cccd ?? '', row.khongCuTru ? 'x' : '',
+                  formatNumber(row.tnct), formatNumber(row.thueKhauTru),
+                ],
+              })),
+              {
+                cells: [
+                  '', 'Tổng cộng', '', '',
+                  formatNumber(sumOf(flatRows, (row) => row.tnct)),
+                  formatNumber(sumOf(flatRows, (row) => row.thueKhauTru)),
+                ],
+                bold: true,
+                highlight: true,
+              },
+            ],
+          }
+        : { type: 'paragraph', text: 'Không có', tone: 'muted' }
+    );
+  }
+
+  blocks.push({
+    type: 'signatures',
+    boxes: [
+      {
+        title: 'Người nộp thuế hoặc đại diện hợp pháp',
+        caption: '(Ký, ghi rõ họ tên, chức vụ, đóng dấu)',
+        date: `Ngày ${header.signedAt.toLocaleDateString('vi-VN')}`,
+      },
+    ],
+  });
+
+  return {
+    title: isAnnual ? 'Tờ khai quyết toán thuế thu nhập cá nhân' : 'Tờ khai khấu trừ thuế thu nhập cá nhân',
+    subtitle: `Mẫu ${formCode} - ${formatDeclarationPeriod(header.period)}`,
+    meta: [
+      header.declarationType === 'B' ? `Khai bổ sung lần ${header.amendment}` : 'Tờ khai chính thức',
+    ],
+    blocks,
+  };
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Bảng lương các tháng đã chốt
+ */
+export function getStoredPayrollMonths(): EmployerPayrollMonth[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(EMPLOYER_PAYROLL_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePayrollMonths(months: EmployerPayrollMonth[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(EMPLOYER_PAYROLL_STORAGE_KEY, JSON.stringify(months));
+  } catch {
+    console.error('Failed to save payroll months to localStorage');
+  }
+}
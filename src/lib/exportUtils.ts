@@ -2,80 +2,22 @@
  * Export Utilities - PDF và CSV/Excel export
  */
 
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { buildXlsx } from './xlsxWriter';
+import { renderPdfReport, type PdfReport } from './pdfReportRenderer';
 
 // ============================================
 // PDF Export
 // ============================================
 
-export interface PDFOptions {
-  filename?: string;
-  title?: string;
-  orientation?: 'portrait' | 'landscape';
-  pageSize?: 'a4' | 'letter';
-}
-
 /**
- * Export HTML element to PDF using html2canvas + jsPDF
+ * Export a structured report to a text-based (searchable) PDF
  */
 export async function exportToPDF(
-  element: HTMLElement,
-  options: PDFOptions = {}
+  report: PdfReport,
+  filename: string = 'bao-cao-thue.pdf'
 ): Promise<void> {
-  const {
-    filename = 'bao-cao-thue.pdf',
-    title = 'Báo cáo thuế TNCN',
-    orientation = 'portrait',
-    pageSize = 'a4',
-  } = options;
-
   try {
-    // Capture element as canvas
-    const canvas = await html2canvas(element, {
-      scale: 2, // Higher quality
-      useCORS: true,
-      logging: false,
-      backgroundColor: '#ffffff',
-    });
-
-    // Create PDF
-    const pdf = new jsPDF({
-      orientation,
-      unit: 'mm',
-      format: pageSize,
-    });
-
-    // Get page dimensions
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const pageHeight = pdf.internal.pageSize.getHeight();
-
-    // Calculate image dimensions to fit page
-    const imgWidth = pageWidth - 20; // 10mm margin each side
-    const imgHeight = (canvas.height * imgWidth) / canvas.width;
-
-    // Add title
-    pdf.setFontSize(16);
-    pdf.text(title, pageWidth / 2, 15, { align: 'center' });
-
-    // Add image (may span multiple pages)
-    let heightLeft = imgHeight;
-    let position = 25; // Start after title
-
-    // First page
-    const imgData = canvas.toDataURL('image/png');
-    pdf.addImage(imgData, 'PNG', 10, position, imgWidth, imgHeight);
-    heightLeft -= (pageHeight - position);
-
-    // Additional pages if needed
-    while (heightLeft > 0) {
-      pdf.addPage();
-      position = 10;
-      pdf.addImage(imgData, 'PNG', 10, position - (imgHeight - heightLeft), imgWidth, imgHeight);
-      heightLeft -= (pageHeight - position);
-    }
-
-    // Save PDF
+    const pdf = await renderPdfReport(report);
     pdf.save(filename);
   } catch (error) {
     console.error('PDF export error:', error);
@@ -91,10 +33,35 @@ export interface ExcelRow {
   [key: string]: string | number | undefined;
 }
 
+/**
+ * Định dạng ô số trong file Excel
+ * - vnd: #,##0 ₫
+ * - number: số nguyên có phân tách hàng nghìn
+ * - decimal: số lẻ (khối lượng crypto, vàng)
+ * - percent: tỷ lệ dạng phân số (0.1 → 10,00%)
+ */
+export type ExcelCellFormat = 'text' | 'vnd' | 'number' | 'decimal' | 'percent';
+
+export interface ExcelColumn {
+  format?: ExcelCellFormat;
+  width?: number; // Số ký tự; bỏ trống để tự ước lượng
+}
+
+/**
+ * Dòng tổng cuối sheet - Excel dùng công thức SUM, CSV dùng giá trị đã cộng
+ */
+export interface ExcelTotalsRow {
+  label: string;
+  labelColumn?: string; // Mặc định cột đầu tiên
+  columns: string[];
+}
+
 export interface ExcelSheet {
   name: string;
   headers: string[];
   rows: ExcelRow[];
+  columns?: Record<string, ExcelColumn>;
+  totals?: ExcelTotalsRow;
 }
 
 /**
@@ -134,24 +101,36 @@ export function exportToCSV(
 }
 
 /**
- * Export multiple sheets to Excel-compatible format
- * Uses SYLK format for basic Excel compatibility without external libraries
+ * Các dòng của sheet kèm dòng tổng đã tính sẵn (dùng khi xuất CSV)
+ */
+export function getSheetRowsWithTotals(sheet: ExcelSheet): ExcelRow[] {
+  const { totals } = sheet;
+  if (!totals || sheet.rows.length === 0) return sheet.rows;
+
+  const totalRow: ExcelRow = { [totals.labelColumn ?? sheet.headers[0]]: totals.label };
+  for (const column of totals.columns) {
+    totalRow[column] = sheet.rows.reduce((sum, row) => {
+      const value = row[column];
+      return typeof value === 'number' ? sum + value : sum;
+    }, 0);
+  }
+  return [...sheet.rows, totalRow];
+}
+
+/**
+ * Export multiple sheets to a real .xlsx workbook
+ * Mỗi sheet có hàng tiêu đề cố định, định dạng số VND và dòng tổng bằng công thức
  */
 export function exportToExcel(
   sheets: ExcelSheet[],
   filename: string = 'bao-cao-thue.xlsx'
 ): void {
-  // For simplicity, export first sheet as CSV (Excel can open it)
-  // Full Excel support would require xlsx library
   if (sheets.length === 0) return;
 
-  const sheet = sheets[0];
-  const csv = toCSV(sheet.headers, sheet.rows);
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-
-  // Change extension to .csv for proper opening
-  const csvFilename = filename.replace(/\.xlsx?$/, '.csv');
-  downloadBlob(blob, csvFilename);
+  const blob = new Blob([buildXlsx(sheets) as BlobPart], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  downloadBlob(blob, filename);
 }
 
 // ============================================
@@ -256,7 +235,10 @@ function formatCurrency(value: number): string {
   return new Intl.NumberFormat('vi-VN').format(value) + ' VNĐ';
 }
 
-function downloadBlob(blob: Blob, filename: string): void {
+/**
+ * Tải Blob xuống máy với tên file cho trước
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -3,10 +3,6 @@
 // Thuế thu nhập cá nhân expatriate / non-resident tax Vietnam
 
 import {
-  OLD_TAX_BRACKETS,
-  NEW_TAX_BRACKETS,
-  OLD_DEDUCTIONS,
-  NEW_DEDUCTIONS,
   EFFECTIVE_DATES,
   RegionType,
   InsuranceOptions,
@@ -15,6 +11,7 @@ import {
   InsuranceDetail,
   TaxBreakdownItem,
 } from './taxCalculator';
+import { getTaxRulesForDate, getTaxRulesForLaw } from './taxRuleRegistry';
 
 // ===== CONSTANTS =====
 
@@ -340,9 +337,8 @@ function calculateResidentTax(input: ForeignerTaxInput): ForeignerTaxResult {
 
   // Xác định luật áp dụng
   // Note: Từ 01/01/2026, luật mới áp dụng cho toàn bộ năm đối với thu nhập tiền lương, tiền công
-  const useNewLaw = taxYear === 2026;
-  const brackets = useNewLaw ? NEW_TAX_BRACKETS : OLD_TAX_BRACKETS;
-  const deductions = useNewLaw ? NEW_DEDUCTIONS : OLD_DEDUCTIONS;
+  const rules = getTaxRulesForDate(new Date(taxYear, isSecondHalf2026 ? 6 : 0, 1));
+  const { brackets, deductions } = rules;
 
   const allowanceCalc = calculateForeignerAllowances(allowances);
 
@@ -399,10 +395,11 @@ function calculateResidentTax(input: ForeignerTaxInput): ForeignerTaxResult {
 
   if (taxYear === 2026) {
     // Tính với luật cũ
-    const oldTaxableIncome = Math.max(0, totalTaxableIncome - insuranceDeduction - OLD_DEDUCTIONS.personal - dependents * OLD_DEDUCTIONS.dependent);
+    const oldLaw = getTaxRulesForLaw('old');
+    const oldTaxableIncome = Math.max(0, totalTaxableIncome - insuranceDeduction - oldLaw.deductions.personal - dependents * oldLaw.deductions.dependent);
     taxUnderOldLaw = 0;
     let oldRemaining = oldTaxableIncome;
-    for (const bracket of OLD_TAX_BRACKETS) {
+    for (const bracket of oldLaw.brackets) {
       if (oldRemaining <= 0) break;
       const bracketWidth = bracket.max - bracket.min;
       const taxableInBracket = Math.min(oldRemaining, bracketWidth);
@@ -411,10 +408,11 @@ function calculateResidentTax(input: ForeignerTaxInput): ForeignerTaxResult {
     }
 
     // Tính với luật mới
-    const newTaxableIncome = Math.max(0, totalTaxableIncome - insuranceDeduction - NEW_DEDUCTIONS.personal - dependents * NEW_DEDUCTIONS.dependent);
+    const newLaw = getTaxRulesForLaw('new');
+    const newTaxableIncome = Math.max(0, totalTaxableIncome - insuranceDeduction - newLaw.deductions.personal - dependents * newLaw.deductions.dependent);
     taxUnderNewLaw = 0;
     let newRemaining = newTaxableIncome;
-    for (const bracket of NEW_TAX_BRACKETS) {
+    for (const bracket of newLaw.brackets) {
       if (newRemaining <= 0) break;
       const bracketWidth = bracket.max - bracket.min;
       const taxableInBracket = Math.min(newRemaining, bracketWidth);
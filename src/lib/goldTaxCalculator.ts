@@ -15,14 +15,19 @@
  */
 
 import type { GoldTypeCode } from './goldPriceService';
+import { getTaxRuleSet, getTaxRulesForDate } from './taxRuleRegistry';
+import type { ExcelSheet } from './exportUtils';
+
+// Phiên bản tham số đầu tiên áp dụng thuế chuyển nhượng vàng miếng
+const GOLD_TAX_RULES = getTaxRuleSet('vn-2026-07');
 
 // Tax configuration
 export const GOLD_TAX_CONFIG = {
   // Thuế suất chuyển nhượng vàng miệng
-  transferRate: 0.001, // 0,1%
+  transferRate: GOLD_TAX_RULES.goldTransferTaxRate, // 0,1%
 
   // Ngày hiệu lực
-  effectiveDate: new Date('2026-07-01'),
+  effectiveDate: GOLD_TAX_RULES.effectiveFrom,
 
   // So sánh với các loại thuế tương tự
   comparison: {
@@ -198,9 +203,7 @@ function isTransactionTaxable(tx: GoldTransaction): boolean {
   const classification = GOLD_CLASSIFICATIONS.find(c => c.id === tx.classification);
   if (!classification || !classification.isTaxable) return false;
 
-  if (tx.date < GOLD_TAX_CONFIG.effectiveDate) return false;
-
-  return true;
+  return getTaxRulesForDate(tx.date).goldTransferTaxRate > 0;
 }
 
 /**
@@ -228,7 +231,9 @@ function getTaxNote(tx: GoldTransaction): string {
  */
 function calculateTransactionTax(tx: GoldTransaction): GoldTransactionWithTax {
   const isTaxable = isTransactionTaxable(tx);
-  const taxAmount = isTaxable ? Math.round(tx.totalValue * GOLD_TAX_CONFIG.transferRate) : 0;
+  const taxAmount = isTaxable
+    ? Math.round(tx.totalValue * getTaxRulesForDate(tx.date).goldTransferTaxRate)
+    : 0;
   const weightInLuong = convertToLuong(tx.weight, tx.weightUnit);
 
   return {
@@ -355,3 +360,52 @@ export function formatWeight(weight: number, unit: GoldWeightUnit): string {
   }
   return `${weight}g (${luong.toFixed(2)} lượng)`;
 }
+
+/**
+ * Sheet xuất Excel: danh sách giao dịch vàng kèm thuế và tổng hợp theo loại vàng
+ */
+export function buildGoldSheets(result: GoldTaxResult): ExcelSheet[] {
+  const classificationName = (id: GoldClassification) =>
+    GOLD_CLASSIFICATIONS.find((c) => c.id === id)?.name ?? id;
+
+  return [
+    {
+      name: 'Giao dịch',
+      headers: ['Ngày', 'Loại GD', 'Phân loại', 'Loại vàng', 'Khối lượng (lượng)', 'Giá/lượng', 'Giá trị', 'Thuế', 'Ghi chú'],
+      columns: {
+        'Khối lượng (lượng)': { format: 'decimal' },
+        'Giá/lượng': { format: 'vnd' },
+        'Giá trị': { format: 'vnd' },
+        'Thuế': { format: 'vnd' },
+        'Ghi chú': { width: 40 },
+      },
+      rows: result.transactionsWithTax.map((tx) => ({
+        'Ngày': new Date(tx.date).toLocaleDateString('vi-VN'),
+        'Loại GD': tx.type === 'buy' ? 'Mua' : 'Bán',
+        'Phân loại': classificationName(tx.classification),
+        'Loại vàng': tx.goldTypeName,
+        'Khối lượng (lượng)': tx.weightInLuong,
+        'Giá/lượng': tx.pricePerLuong,
+        'Giá trị': tx.totalValue,
+        'Thuế': tx.taxAmount,
+        'Ghi chú': tx.taxNote,
+      })),
+      totals: { label: 'Tổng cộng', columns: ['Thuế'] },
+    },
+    {
+      name: 'Theo loại vàng',
+      headers: ['Loại vàng', 'Số giao dịch', 'Giá trị', 'Thuế'],
+      columns: {
+        'Giá trị': { format: 'vnd' },
+        'Thuế': { format: 'vnd' },
+      },
+      rows: result.taxByGoldType.map((gold) => ({
+        'Loại vàng': gold.goldTypeName,
+        'Số giao dịch': gold.transactionCount,
+        'Giá trị': gold.totalValue,
+        'Thuế': gold.taxAmount,
+      })),
+      totals: { label: 'Tổng cộng', columns: ['Số giao dịch', 'Giá trị', 'Thuế'] },
+    },
+  ];
+}
@@ -1,17 +1,15 @@
 // Chuyển đổi GROSS - NET
 import {
-  OLD_DEDUCTIONS,
-  NEW_DEDUCTIONS,
-  INSURANCE_RATES,
-  getMaxSocialInsuranceSalary,
-  getMaxUnemploymentInsuranceSalary,
-  OLD_TAX_BRACKETS,
-  NEW_TAX_BRACKETS,
   RegionType,
   AllowancesState,
+  InsuranceDetail,
+  TaxBreakdownItem,
   calculateAllowancesBreakdown,
+  resolveAsOf,
 } from './taxCalculator';
-import { MAX_MONTHLY_INCOME } from '@/utils/inputSanitizers';
+import { TaxBracket, getTaxRulesForDate, getTaxRulesForLaw } from './taxRuleRegistry';
+import { CalculationTrace, buildSalaryTaxTrace } from './calculationTrace';
+import { MAX_MONTHLY_INCOME } from '../utils/inputSanitizers';
 
 export interface GrossNetInput {
   amount: number;
@@ -22,9 +20,12 @@ export interface GrossNetInput {
   region?: RegionType;
   declaredSalary?: number; // Lương khai báo (nếu khác lương thực)
   allowances?: AllowancesState; // Phụ cấp
+  asOf?: Date; // Kỳ tính thuế (trần bảo hiểm theo ngày, mặc định = ngày hiện tại)
+  trace?: boolean; // Trả kèm diễn giải từng bước
 }
 
 export interface GrossNetResult {
+  asOf: Date;
   gross: number;
   net: number;
   insurance: number;
@@ -35,50 +36,72 @@ export interface GrossNetResult {
     insurance: number;
   };
   taxableIncome: number;
+  trace?: CalculationTrace; // Chỉ có khi input.trace = true
 }
 
-function calculateInsurance(gross: number, hasInsurance: boolean, region: RegionType = 1, date: Date = new Date()): number {
-  if (!hasInsurance) return 0;
+function calculateInsuranceDetail(
+  gross: number,
+  hasInsurance: boolean,
+  region: RegionType,
+  date: Date
+): InsuranceDetail {
+  if (!hasInsurance) return { bhxh: 0, bhyt: 0, bhtn: 0, total: 0 };
+  const rules = getTaxRulesForDate(date);
 
   // BHXH và BHYT: tối đa 20 lần lương cơ sở (date-aware)
-  const bhxhBhytBase = Math.min(gross, getMaxSocialInsuranceSalary(date));
-  const bhxh = bhxhBhytBase * INSURANCE_RATES.socialInsurance;
-  const bhyt = bhxhBhytBase * INSURANCE_RATES.healthInsurance;
+  const bhxhBhytBase = Math.min(gross, rules.maxSocialInsuranceSalary);
+  const bhxh = bhxhBhytBase * rules.insuranceRates.socialInsurance;
+  const bhyt = bhxhBhytBase * rules.insuranceRates.healthInsurance;
 
   // BHTN: tối đa 20 lần lương tối thiểu vùng (date-aware)
-  const maxBhtnByRegion = getMaxUnemploymentInsuranceSalary(date);
-  const maxBhtn = maxBhtnByRegion[region];
+  const maxBhtn = rules.maxUnemploymentInsuranceSalary[region];
   const bhtnBase = Math.min(gross, maxBhtn);
-  const bhtn = bhtnBase * INSURANCE_RATES.unemploymentInsurance;
+  const bhtn = bhtnBase * rules.insuranceRates.unemploymentInsurance;
 
-  return bhxh + bhyt + bhtn;
+  return { bhxh, bhyt, bhtn, total: bhxh + bhyt + bhtn };
 }
 
-function calculateTax(taxableIncome: number, brackets: typeof OLD_TAX_BRACKETS): number {
-  if (taxableIncome <= 0) return 0;
+function calculateTax(
+  taxableIncome: number,
+  brackets: TaxBracket[]
+): { tax: number; breakdown: TaxBreakdownItem[] } {
+  if (taxableIncome <= 0) return { tax: 0, breakdown: [] };
 
   let totalTax = 0;
   let remainingIncome = taxableIncome;
+  const breakdown: TaxBreakdownItem[] = [];
 
-  for (const bracket of brackets) {
+  for (const [index, bracket] of brackets.entries()) {
     if (remainingIncome <= 0) break;
     const bracketWidth = bracket.max - bracket.min;
     const taxableInBracket = Math.min(remainingIncome, bracketWidth);
-    totalTax += taxableInBracket * bracket.rate;
+    const taxInBracket = taxableInBracket * bracket.rate;
+    breakdown.push({
+      bracket: index + 1,
+      from: bracket.min,
+      to: bracket.max === Infinity ? bracket.min + taxableInBracket : bracket.max,
+      rate: bracket.rate,
+      taxableAmount: taxableInBracket,
+      taxAmount: taxInBracket,
+    });
+    totalTax += taxInBracket;
     remainingIncome -= taxableInBracket;
   }
 
-  return totalTax;
+  return { tax: totalTax, breakdown };
 }
 
 export function grossToNet(input: GrossNetInput): GrossNetResult {
   const { amount: gross, dependents, hasInsurance, useNewLaw, region = 1, declaredSalary, allowances } = input;
-  const deductionRates = useNewLaw ? NEW_DEDUCTIONS : OLD_DEDUCTIONS;
-  const brackets = useNewLaw ? NEW_TAX_BRACKETS : OLD_TAX_BRACKETS;
+  const asOf = resolveAsOf(input.asOf);
+  const law = useNewLaw ? 'new' : 'old';
+  // Giảm trừ & biểu thuế theo phiên bản của luật có hiệu lực tại kỳ tính thuế
+  const { deductions: deductionRates, brackets } = getTaxRulesForLaw(law, asOf);
 
   // Nếu có lương khai báo, tính bảo hiểm trên lương khai báo
   const insuranceBase = declaredSalary !== undefined ? declaredSalary : gross;
-  const insurance = calculateInsurance(insuranceBase, hasInsurance, region);
+  const insuranceDetail = calculateInsuranceDetail(insuranceBase, hasInsurance, region, asOf);
+  const insurance = insuranceDetail.total;
   const personalDeduction = deductionRates.personal;
   const dependentDeduction = dependents * deductionRates.dependent;
 
@@ -87,11 +110,33 @@ export function grossToNet(input: GrossNetInput): GrossNetResult {
 
   // Thu nhập tính thuế = lương + phụ cấp chịu thuế - các khoản giảm trừ
   const taxableIncome = Math.max(0, gross + allowancesBreakdown.taxable - insurance - personalDeduction - dependentDeduction);
-  const tax = calculateTax(taxableIncome, brackets);
+  const { tax, breakdown } = calculateTax(taxableIncome, brackets);
   // Net = lương + tất cả phụ cấp - bảo hiểm - thuế
   const net = gross + allowancesBreakdown.total - insurance - tax;
 
+  const trace = input.trace
+    ? buildSalaryTaxTrace({
+        asOf,
+        rules: getTaxRulesForDate(asOf),
+        law,
+        grossIncome: gross,
+        insuranceSalary: insuranceBase,
+        region,
+        insuranceOptions: { bhxh: hasInsurance, bhyt: hasInsurance, bhtn: hasInsurance },
+        insuranceDetail,
+        personalDeduction,
+        dependents,
+        dependentDeduction,
+        otherDeductions: 0,
+        allowancesBreakdown,
+        taxableIncome,
+        taxBreakdown: breakdown,
+        taxAmount: tax,
+      })
+    : undefined;
+
   return {
+    asOf,
     gross,
     net,
     insurance,
@@ -102,11 +147,14 @@ export function grossToNet(input: GrossNetInput): GrossNetResult {
       insurance,
     },
     taxableIncome,
+    ...(trace && { trace }),
   };
 }
 
 export function netToGross(input: GrossNetInput): GrossNetResult {
-  const { amount: targetNet, dependents, hasInsurance, useNewLaw } = input;
+  const { amount: targetNet } = input;
+  // Chốt kỳ tính thuế một lần cho toàn bộ vòng tìm kiếm
+  const pinnedInput: GrossNetInput = { ...input, asOf: resolveAsOf(input.asOf) };
 
   // Binary search để tìm gross từ net
   let low = targetNet;
@@ -115,7 +163,7 @@ export function netToGross(input: GrossNetInput): GrossNetResult {
   let result: GrossNetResult | null = null;
 
   // Đảm bảo high đủ lớn
-  while (grossToNet({ ...input, amount: high, type: 'gross' }).net < targetNet) {
+  while (grossToNet({ ...pinnedInput, amount: high, type: 'gross' }).net < targetNet) {
     high *= 1.5;
     if (high > maxSearch) break; // Safety limit aligned with input cap
   }
@@ -123,7 +171,7 @@ export function netToGross(input: GrossNetInput): GrossNetResult {
   // Binary search
   for (let i = 0; i < 100; i++) {
     const mid = (low + high) / 2;
-    const testResult = grossToNet({ ...input, amount: mid, type: 'gross' });
+    const testResult = grossToNet({ ...pinnedInput, amount: mid, type: 'gross' });
 
     if (Math.abs(testResult.net - targetNet) < 1) {
       result = testResult;
@@ -138,7 +186,7 @@ export function netToGross(input: GrossNetInput): GrossNetResult {
   }
 
   if (!result) {
-    result = grossToNet({ ...input, amount: (low + high) / 2, type: 'gross' });
+    result = grossToNet({ ...pinnedInput, amount: (low + high) / 2, type: 'gross' });
   }
 
   return result;
@@ -157,7 +205,8 @@ export function calculateYearlyTax(
   monthlyGross: number,
   dependents: number,
   useNewLaw: boolean,
-  allowances?: AllowancesState
+  allowances?: AllowancesState,
+  asOf?: Date
 ): {
   monthlyResult: GrossNetResult;
   yearlyGross: number;
@@ -172,6 +221,7 @@ export function calculateYearlyTax(
     hasInsurance: true,
     useNewLaw,
     allowances,
+    asOf,
   });
 
   return {
@@ -11,6 +11,8 @@
  * - VAT calculated on entire revenue when above threshold (not deductible)
  */
 
+import { getTaxRulesForDate } from './taxRuleRegistry';
+
 // Business categories
 export type BusinessCategory =
   | 'distribution'      // Phân phối, cung cấp hàng hóa
@@ -89,8 +91,8 @@ export interface HouseholdBusinessTaxResult {
 // Revenue thresholds by year (ngưỡng doanh thu miễn thuế)
 // Reference: Luật Thuế TNCN sửa đổi 2025; Nghị định 141/2026/NĐ-CP nâng lên 1 tỷ
 export const REVENUE_THRESHOLDS = {
-  2025: 100_000_000,    // 100 triệu/năm
-  2026: 1_000_000_000,  // 1 tỷ/năm (Nghị định 141/2026/NĐ-CP, từ 01/01/2026)
+  2025: getTaxRulesForDate(new Date(2025, 0, 1)).householdRevenueThreshold,    // 100 triệu/năm
+  2026: getTaxRulesForDate(new Date(2026, 0, 1)).householdRevenueThreshold,  // 1 tỷ/năm (Nghị định 141/2026/NĐ-CP, từ 01/01/2026)
 };
 
 // Tax rates by business category (PIT)
@@ -112,11 +114,8 @@ export const VAT_RATES: Record<BusinessCategory, number> = {
 
 // Income tax brackets for 2026 (phương pháp thu nhập)
 // Reference: Điều 7, khoản 2 Luật 109/2025/QH15
-export const INCOME_TAX_BRACKETS_2026 = [
-  { min: 1_000_000_000, max: 3_000_000_000, rate: 0.15 },  // 1 tỷ - 3 tỷ: 15%
-  { min: 3_000_000_000, max: 50_000_000_000, rate: 0.17 }, // 3 tỷ - 50 tỷ: 17%
-  { min: 50_000_000_000, max: Infinity, rate: 0.20 },      // Trên 50 tỷ: 20%
-];
+// 1 tỷ - 3 tỷ: 15% · 3 tỷ - 50 tỷ: 17% · Trên 50 tỷ: 20% (khai báo trong taxRuleRegistry)
+export const INCOME_TAX_BRACKETS_2026 = getTaxRulesForDate(new Date(2026, 0, 1)).householdIncomeBrackets;
 
 // Tax method labels
 export const TAX_METHOD_LABELS: Record<TaxMethod, string> = {
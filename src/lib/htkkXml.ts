@@ -0,0 +1,74 @@
+/**
+ * Tiện ích chung cho các file XML tờ khai nhập vào HTKK/eTax
+ * (kiểm tra trường theo luật đơn giản, ghi phần tử/khối XML, định dạng ngày)
+ */
+
+export interface XmlValidationIssue {
+  path: string; // VD: nnt.mst, bkNPT[0].mstNPT
+  message: string;
+}
+
+export interface FieldRule {
+  path: string;
+  label: string;
+  required?: boolean;
+  pattern?: RegExp;
+  patternMessage?: string;
+  maxLength?: number;
+}
+
+export const TAX_CODE_PATTERN = /^\d{10}(-?\d{3})?$/;
+export const TAX_CODE_MESSAGE = 'phải gồm 10 hoặc 13 chữ số';
+
+function getField(source: object, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+/**
+ * Kiểm tra các trường của source theo rules, ghi lỗi vào issues
+ */
+export function checkRules(source: object, rules: FieldRule[], prefix: string, issues: XmlValidationIssue[]): void {
+  for (const rule of rules) {
+    const value = getField(source, rule.path);
+    const path = prefix ? `${prefix}.${rule.path}` : rule.path;
+
+    if (value === undefined || value === '') {
+      if (rule.required) issues.push({ path, message: `Thiếu ${rule.label}` });
+      continue;
+    }
+    const text = String(value);
+    if (rule.pattern && !rule.pattern.test(text)) {
+      issues.push({ path, message: `${rule.label} ${rule.patternMessage ?? 'không hợp lệ'}` });
+    }
+    if (rule.maxLength && text.length > rule.maxLength) {
+      issues.push({ path, message: `${rule.label} dài quá ${rule.maxLength} ký tự` });
+    }
+  }
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function formatXmlDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Phần tử XML; giá trị rỗng ghi thành thẻ tự đóng như HTKK */
+export function element(name: string, value: string | number | undefined, indent: string): string {
+  if (value === undefined || value === '') return `${indent}<${name}/>`;
+  return `${indent}<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+export function block(name: string, children: string[], indent: string): string {
+  return [`${indent}<${name}>`, ...children, `${indent}</${name}>`].join('\n');
+}
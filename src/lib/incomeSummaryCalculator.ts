@@ -9,7 +9,7 @@
  * - So sánh với năm trước
  */
 
-import { getMaxSocialInsuranceSalary, NEW_TAX_BRACKETS, NEW_DEDUCTIONS } from './taxCalculator';
+import { TaxBracket, getEmployeeInsuranceRate, getTaxRulesForDate } from './taxRuleRegistry';
 
 // Income source categories
 export type IncomeCategory =
@@ -239,15 +239,7 @@ export interface IncomeSummaryResult {
   entries: IncomeEntry[];
 }
 
-// Tái dùng biểu thuế 5 bậc trung tâm (Luật 109/2025/QH15)
-const TAX_BRACKETS_2026 = NEW_TAX_BRACKETS;
-
-// Giảm trừ - tái dùng mức trung tâm (NQ 110/2025/UBTVQH15)
-const DEDUCTIONS = {
-  personal: NEW_DEDUCTIONS.personal,
-  dependent: NEW_DEDUCTIONS.dependent,
-  insuranceRate: 0.105, // 10.5% BHXH (trần dùng getMaxSocialInsuranceSalary date-aware)
-};
+// Biểu thuế, giảm trừ gia cảnh, tỷ lệ và trần bảo hiểm lấy từ taxRuleRegistry theo năm tổng hợp
 
 // Month names in Vietnamese
 const MONTH_NAMES = [
@@ -273,14 +265,14 @@ export function getCategoryConfig(category: IncomeCategory): IncomeCategoryConfi
 /**
  * Calculate progressive tax on salary income
  */
-function calculateProgressiveTax(annualTaxableIncome: number): number {
+function calculateProgressiveTax(annualTaxableIncome: number, brackets: TaxBracket[]): number {
   // Biểu thuế lũy tiến là ngưỡng THÁNG -> quy đổi thu nhập năm về tháng,
   // tính thuế tháng rồi nhân 12 (đúng phương pháp tính thuế TNCN từ tiền lương).
   const monthlyTaxableIncome = Math.max(0, annualTaxableIncome) / 12;
   let monthlyTax = 0;
   let remaining = monthlyTaxableIncome;
 
-  for (const bracket of TAX_BRACKETS_2026) {
+  for (const bracket of brackets) {
     const taxableInBracket = Math.min(
       Math.max(0, remaining),
       bracket.max - bracket.min
@@ -298,6 +290,8 @@ function calculateProgressiveTax(annualTaxableIncome: number): number {
  */
 export function calculateIncomeSummary(input: IncomeSummaryInput): IncomeSummaryResult {
   const { year, entries, dependents, hasInsurance } = input;
+  const rules = getTaxRulesForDate(new Date(year, 0, 1));
+  const { brackets, deductions } = rules;
 
   // Group entries by category
   const categoryMap = new Map<IncomeCategory, IncomeEntry[]>();
@@ -360,12 +354,12 @@ export function calculateIncomeSummary(input: IncomeSummaryInput): IncomeSummary
   }
 
   // Calculate deductions for progressive income
-  const monthlyDeduction = DEDUCTIONS.personal + (dependents * DEDUCTIONS.dependent);
+  const monthlyDeduction = deductions.personal + (dependents * deductions.dependent);
   const annualDeduction = monthlyDeduction * 12;
 
   let insuranceDeduction = 0;
   if (hasInsurance && salaryBonusIncome > 0) {
-    const monthlyInsurance = Math.min(salaryBonusIncome / 12, getMaxSocialInsuranceSalary()) * DEDUCTIONS.insuranceRate;
+    const monthlyInsurance = Math.min(salaryBonusIncome / 12, rules.maxSocialInsuranceSalary) * getEmployeeInsuranceRate(rules);
     insuranceDeduction = monthlyInsurance * 12;
   }
 
@@ -373,7 +367,7 @@ export function calculateIncomeSummary(input: IncomeSummaryInput): IncomeSummary
 
   // Calculate progressive tax on salary/bonus
   const salaryTaxableIncome = Math.max(0, salaryBonusIncome - totalDeductions);
-  const salaryTax = calculateProgressiveTax(salaryTaxableIncome);
+  const salaryTax = calculateProgressiveTax(salaryTaxableIncome, brackets);
 
   // Update salary/bonus category tax
   for (const cat of byCategory) {
@@ -452,8 +446,8 @@ export function calculateIncomeSummary(input: IncomeSummaryInput): IncomeSummary
     effectiveTaxRate,
     totalNetIncome: totalGrossIncome - totalTax,
     deductions: {
-      personal: DEDUCTIONS.personal * 12,
-      dependent: DEDUCTIONS.dependent * dependents * 12,
+      personal: deductions.personal * 12,
+      dependent: deductions.dependent * dependents * 12,
       insurance: insuranceDeduction,
       total: totalDeductions,
     },
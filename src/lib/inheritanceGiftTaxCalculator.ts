@@ -10,7 +10,7 @@
  * - Nghị định 65/2013/NĐ-CP hướng dẫn chi tiết
  */
 
-import { formatNumber, getPerTransactionThreshold } from '@/lib/taxCalculator';
+import { formatNumber, getPerTransactionThreshold } from './taxCalculator';
 
 // ===== CONSTANTS =====
 
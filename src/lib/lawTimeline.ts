@@ -7,19 +7,11 @@
  *   3. Từ 01/07/2026 - lương cơ sở 2,53tr => trần đóng BHXH/BHYT 50,6tr
  *
  * Mỗi mốc tính trên cùng một mức lương gộp để thấy chênh lệch thực nhận.
- * Tái dùng toàn bộ hằng số/hàm date-aware từ taxCalculator (một nguồn sự thật).
+ * Tham số của từng mốc tra cứu từ taxRuleRegistry theo ngày (một nguồn sự thật).
  */
 
-import {
-  OLD_TAX_BRACKETS,
-  NEW_TAX_BRACKETS,
-  OLD_DEDUCTIONS,
-  NEW_DEDUCTIONS,
-  INSURANCE_RATES,
-  getMaxSocialInsuranceSalary,
-  getMaxUnemploymentInsuranceSalary,
-  RegionType,
-} from './taxCalculator';
+import { RegionType } from './taxCalculator';
+import { TaxBracket, getTaxRulesForDate } from './taxRuleRegistry';
 
 export type MilestoneKey = 'y2025' | 'h1-2026' | 'h2-2026';
 
@@ -45,8 +37,6 @@ export interface TimelineResult {
   deltaVsH1: number; // Net h2-2026 - net h1-2026
 }
 
-type Bracket = { min: number; max: number; rate: number; deduction: number };
-
 // Ngày đại diện giữa từng giai đoạn (local time - xem effective-dates convention)
 const MILESTONE_DATES: Record<MilestoneKey, Date> = {
   y2025: new Date(2025, 5, 15),
@@ -70,7 +60,7 @@ const MILESTONE_META: Record<MilestoneKey, { label: string; lawNote: string }> =
 };
 
 /** Thuế lũy tiến theo công thức rút gọn: thuế = TNTT x thuế suất - số trừ */
-function progressiveTax(taxable: number, brackets: readonly Bracket[]): number {
+function progressiveTax(taxable: number, brackets: readonly TaxBracket[]): number {
   if (taxable <= 0) return 0;
   for (const b of brackets) {
     if (taxable > b.min && taxable <= b.max) {
@@ -84,27 +74,23 @@ function progressiveTax(taxable: number, brackets: readonly Bracket[]): number {
 function computePoint(key: MilestoneKey, input: TimelineInput): TimelinePoint {
   const { grossMonthly, dependents } = input;
   const region: RegionType = input.region ?? 1;
-  const date = MILESTONE_DATES[key];
-  const isNewLaw = key !== 'y2025';
+  const rules = getTaxRulesForDate(MILESTONE_DATES[key]);
+  const rates = rules.insuranceRates;
 
   // Bảo hiểm bắt buộc người lao động đóng (trần date-aware)
-  const socialBase = Math.min(grossMonthly, getMaxSocialInsuranceSalary(date));
-  const bhtnBase = Math.min(
-    grossMonthly,
-    getMaxUnemploymentInsuranceSalary(date)[region],
-  );
+  const socialBase = Math.min(grossMonthly, rules.maxSocialInsuranceSalary);
+  const bhtnBase = Math.min(grossMonthly, rules.maxUnemploymentInsuranceSalary[region]);
   const insurance = Math.round(
-    socialBase * (INSURANCE_RATES.socialInsurance + INSURANCE_RATES.healthInsurance) +
-      bhtnBase * INSURANCE_RATES.unemploymentInsurance,
+    socialBase * (rates.socialInsurance + rates.healthInsurance) +
+      bhtnBase * rates.unemploymentInsurance,
   );
 
   // Giảm trừ gia cảnh theo luật của giai đoạn
-  const deductions = isNewLaw ? NEW_DEDUCTIONS : OLD_DEDUCTIONS;
+  const { deductions } = rules;
   const familyDeduction = deductions.personal + dependents * deductions.dependent;
 
   const taxable = Math.max(0, grossMonthly - insurance - familyDeduction);
-  const brackets = (isNewLaw ? NEW_TAX_BRACKETS : OLD_TAX_BRACKETS) as readonly Bracket[];
-  const tax = progressiveTax(taxable, brackets);
+  const tax = progressiveTax(taxable, rules.brackets);
 
   return {
     key,
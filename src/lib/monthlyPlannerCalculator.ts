@@ -2,8 +2,10 @@ import {
   RegionType,
   InsuranceOptions,
   DEFAULT_INSURANCE_OPTIONS,
+  getPeriodDate,
 } from './taxCalculator';
 import { grossToNet, GrossNetResult } from './grossNetCalculator';
+import { getTaxRulesForDate } from './taxRuleRegistry';
 
 export interface MonthlyEntry {
   bonus: number;
@@ -15,13 +17,17 @@ export interface MonthlyPlannerInput {
   baseSalary: number;
   months: MonthlyEntry[];
   dependents: number;
+  // Số NPT được giảm trừ từng tháng theo danh sách đăng ký (thay cho dependents)
+  dependentsByMonth?: number[];
   hasInsurance: boolean;
   region: RegionType;
+  year?: number;           // Năm kế hoạch (mặc định = năm hiện tại)
 }
 
 export interface MonthResult {
   month: number;           // 1-12
   label: string;           // "T1", "T2"...
+  asOf: Date;              // Kỳ tính thuế của tháng
   gross: number;           // baseSalary + bonus + overtime + other
   net: number;
   tax: number;
@@ -45,6 +51,7 @@ export interface YearSummary {
 }
 
 export interface MonthlyPlannerResult {
+  year: number;
   months: MonthResult[];
   summary: YearSummary;
 }
@@ -69,12 +76,36 @@ export function createDefaultMonths(): MonthlyEntry[] {
   }));
 }
 
+/**
+ * Tính lương thực nhận của một tháng theo luật & trần bảo hiểm của chính tháng đó
+ */
+function calculateMonth(
+  gross: number,
+  asOf: Date,
+  dependents: number,
+  hasInsurance: boolean,
+  region: RegionType
+): GrossNetResult {
+  return grossToNet({
+    amount: gross,
+    type: 'gross',
+    dependents,
+    hasInsurance,
+    useNewLaw: getTaxRulesForDate(asOf).law === 'new',
+    region,
+    asOf,
+  });
+}
+
 /**
  * Tính thuế TNCN cho từng tháng riêng biệt
  * Mỗi tháng tính thuế lũy tiến trên thu nhập tháng đó
  */
 export function calculateMonthlyPlan(input: MonthlyPlannerInput): MonthlyPlannerResult {
   const { baseSalary, months, dependents, hasInsurance, region } = input;
+  const year = input.year ?? new Date().getFullYear();
+  const periodDates = MONTH_LABELS.map((_, index) => getPeriodDate(year, index + 1));
+  const dependentsOf = (index: number) => input.dependentsByMonth?.[index] ?? dependents;
 
   // Ensure we have exactly 12 months
   const entries = months.length >= 12
@@ -84,19 +115,13 @@ export function calculateMonthlyPlan(input: MonthlyPlannerInput): MonthlyPlanner
   // Calculate each month
   const monthResults: MonthResult[] = entries.map((entry, index) => {
     const gross = baseSalary + entry.bonus + entry.overtime + entry.otherIncome;
-
-    const result = grossToNet({
-      amount: gross,
-      type: 'gross',
-      dependents,
-      hasInsurance,
-      useNewLaw: true,
-      region,
-    });
+    const asOf = periodDates[index];
+    const result = calculateMonth(gross, asOf, dependentsOf(index), hasInsurance, region);
 
     return {
       month: index + 1,
       label: MONTH_LABELS[index],
+      asOf,
       gross,
       net: result.net,
       tax: result.tax,
@@ -114,20 +139,16 @@ export function calculateMonthlyPlan(input: MonthlyPlannerInput): MonthlyPlanner
 
   // Calculate uniform tax (if same salary every month)
   const uniformMonthlyGross = totalGross / 12;
-  const uniformResult = grossToNet({
-    amount: uniformMonthlyGross,
-    type: 'gross',
-    dependents,
-    hasInsurance,
-    useNewLaw: true,
-    region,
-  });
-  const uniformTotalTax = uniformResult.tax * 12;
-  const uniformTotalNet = uniformResult.net * 12;
+  const uniformResults = periodDates.map((asOf, index) =>
+    calculateMonth(uniformMonthlyGross, asOf, dependentsOf(index), hasInsurance, region)
+  );
+  const uniformTotalTax = uniformResults.reduce((sum, r) => sum + r.tax, 0);
+  const uniformTotalNet = uniformResults.reduce((sum, r) => sum + r.net, 0);
 
   const taxDifference = totalTax - uniformTotalTax;
 
   return {
+    year,
     months: monthResults,
     summary: {
       totalGross,
@@ -1,6 +1,8 @@
 // ===== MORTGAGE CALCULATOR - VAY MUA NHÀ =====
 // Logic tính toán vay mua nhà Việt Nam
 
+import type { ExcelSheet } from './exportUtils';
+
 // ===== TYPES =====
 
 export type PropertyType = 'secondary' | 'primary_developer';
@@ -430,3 +432,67 @@ export function calculateMortgage(input: MortgageInput): MortgageResult {
     sensitivity,
   };
 }
+
+// ===== EXCEL EXPORT =====
+
+const PHASE_LABELS: Record<AmortizationRow['phase'], string> = {
+  grace: 'Ân hạn gốc',
+  preferential: 'Ưu đãi',
+  floating: 'Thả nổi',
+};
+
+const SCHEDULE_MONEY_HEADERS = ['Gốc', 'Lãi', 'Tổng trả'];
+
+/**
+ * Các sheet xuất Excel: lịch trả nợ từng tháng, tổng hợp theo năm và chi phí ban đầu
+ */
+export function buildMortgageSheets(result: MortgageResult): ExcelSheet[] {
+  const scheduleHeaders = ['Kỳ', 'Giai đoạn', ...SCHEDULE_MONEY_HEADERS, 'Dư nợ còn lại'];
+  const yearlyHeaders = ['Năm', ...SCHEDULE_MONEY_HEADERS, 'Dư nợ cuối năm'];
+  const vndColumns = (headers: string[]) =>
+    Object.fromEntries(headers.map((header) => [header, { format: 'vnd' as const }]));
+
+  return [
+    {
+      name: 'Lịch trả nợ',
+      headers: scheduleHeaders,
+      columns: vndColumns([...SCHEDULE_MONEY_HEADERS, 'Dư nợ còn lại']),
+      rows: result.amortizationSchedule.map((row) => ({
+        'Kỳ': row.month,
+        'Giai đoạn': PHASE_LABELS[row.phase],
+        'Gốc': row.principal,
+        'Lãi': row.interest,
+        'Tổng trả': row.totalPayment,
+        'Dư nợ còn lại': row.remainingBalance,
+      })),
+      totals: { label: 'Tổng cộng', columns: SCHEDULE_MONEY_HEADERS },
+    },
+    {
+      name: 'Theo năm',
+      headers: yearlyHeaders,
+      columns: vndColumns([...SCHEDULE_MONEY_HEADERS, 'Dư nợ cuối năm']),
+      rows: result.yearlyAmortization.map((year) => ({
+        'Năm': year.year,
+        'Gốc': year.totalPrincipal,
+        'Lãi': year.totalInterest,
+        'Tổng trả': year.totalPayment,
+        'Dư nợ cuối năm': year.endingBalance,
+      })),
+      totals: { label: 'Tổng cộng', columns: SCHEDULE_MONEY_HEADERS },
+    },
+    {
+      name: 'Chi phí ban đầu',
+      headers: ['Khoản', 'Số tiền'],
+      columns: vndColumns(['Số tiền']),
+      rows: [
+        { 'Khoản': 'Trả trước', 'Số tiền': result.downPayment },
+        { 'Khoản': 'Lệ phí trước bạ', 'Số tiền': result.fees.registrationFee },
+        { 'Khoản': 'Phí công chứng', 'Số tiền': result.fees.notaryFee },
+        { 'Khoản': 'Phí thẩm định', 'Số tiền': result.fees.appraisalFee },
+        { 'Khoản': 'Phí bảo trì', 'Số tiền': result.fees.maintenanceFee },
+        { 'Khoản': 'VAT', 'Số tiền': result.fees.vat },
+      ],
+      totals: { label: 'Tổng chi phí ban đầu', columns: ['Số tiền'] },
+    },
+  ];
+}
@@ -7,7 +7,8 @@
  * - Thông tư 111/2013/TT-BTC
  */
 
-import { getPerTransactionThreshold, getMaxSocialInsuranceSalary, NEW_TAX_BRACKETS, NEW_DEDUCTIONS } from './taxCalculator';
+import { TaxBracket, TaxRuleSet, getEmployeeInsuranceRate, getTaxRulesForDate, getTaxRulesForLaw } from './taxRuleRegistry';
+import type { ExcelSheet } from './exportUtils';
 
 // ===== TYPES =====
 
@@ -127,17 +128,14 @@ export const INCOME_TAX_RATES: Record<IncomeSourceType, {
 /**
  * Biểu thuế lũy tiến 5 bậc (từ 1/7/2026)
  */
-// Tái dùng biểu thuế 5 bậc trung tâm (tránh duplicate sai lệch)
-export const PROGRESSIVE_TAX_BRACKETS_2026 = NEW_TAX_BRACKETS;
+// View trên taxRuleRegistry (tránh duplicate sai lệch)
+export const PROGRESSIVE_TAX_BRACKETS_2026 = getTaxRulesForLaw('new').brackets;
 
 /**
  * Giảm trừ gia cảnh (từ 1/7/2026)
  */
-// Tái dùng mức giảm trừ gia cảnh trung tâm (NQ 110/2025/UBTVQH15)
-export const DEDUCTIONS_2026 = {
-  personal: NEW_DEDUCTIONS.personal,
-  dependent: NEW_DEDUCTIONS.dependent,
-};
+// View trên taxRuleRegistry (NQ 110/2025/UBTVQH15)
+export const DEDUCTIONS_2026 = getTaxRulesForLaw('new').deductions;
 
 /**
  * Một nguồn thu nhập
@@ -239,11 +237,17 @@ function annualizeAmount(amount: number, frequency: 'monthly' | 'yearly' | 'one_
   }
 }
 
+/**
+ * Bộ tham số áp dụng cho kỳ tính thuế của input
+ */
+function getRulesForInput(input: MultiSourceInput): TaxRuleSet {
+  return getTaxRulesForDate(new Date(input.taxYear, input.isSecondHalf2026 ? 6 : 0, 1));
+}
+
 /**
  * Tính thuế lũy tiến cho thu nhập chịu thuế
  */
-function calculateProgressiveTax(taxableIncome: number, isNewLaw: boolean): number {
-  const brackets = PROGRESSIVE_TAX_BRACKETS_2026;
+function calculateProgressiveTax(taxableIncome: number, brackets: TaxBracket[]): number {
   let tax = 0;
   let remaining = taxableIncome;
 
@@ -266,11 +270,10 @@ function calculateSourceTax(source: IncomeSource, input: MultiSourceInput): Sour
   const annualAmount = annualizeAmount(source.amount, source.frequency);
   const rateInfo = INCOME_TAX_RATES[source.type];
   const notes: string[] = [];
+  const rules = getRulesForInput(input);
 
   // Ngưỡng chịu thuế theo từng lần phát sinh (date-aware: 10M, 20M từ 01/7/2026)
-  const perTxThreshold = getPerTransactionThreshold(
-    new Date(input.taxYear, input.isSecondHalf2026 ? 6 : 0, 1)
-  );
+  const perTxThreshold = rules.perTransactionThreshold;
   const perTxThresholdText = `${perTxThreshold / 1_000_000} triệu`;
 
   let taxableAmount = annualAmount;
@@ -284,14 +287,14 @@ function calculateSourceTax(source: IncomeSource, input: MultiSourceInput): Sour
       // Tính thu nhập chịu thuế
       const monthlyGross = source.frequency === 'monthly' ? source.amount : source.amount / 12;
 
-      // Giảm trừ BHXH: 10.5% lương, trần = 20 lần lương cơ sở (date-aware)
-      const insuranceCap = getMaxSocialInsuranceSalary(new Date(input.taxYear, input.isSecondHalf2026 ? 6 : 0, 1));
+      // Giảm trừ BHXH, BHYT, BHTN theo tỷ lệ và trần 20 lần lương cơ sở của bộ tham số
+      const insuranceCap = rules.maxSocialInsuranceSalary;
       const monthlyInsurance = input.hasInsurance
-        ? Math.min(monthlyGross, insuranceCap) * 0.105
+        ? Math.min(monthlyGross, insuranceCap) * getEmployeeInsuranceRate(rules)
         : (input.insuranceAmount || 0) / 12;
 
       // Giảm trừ gia cảnh
-      const monthlyDeduction = DEDUCTIONS_2026.personal + (input.dependents * DEDUCTIONS_2026.dependent);
+      const monthlyDeduction = rules.deductions.personal + (input.dependents * rules.deductions.dependent);
 
       // Giảm trừ hưu trí tự nguyện và từ thiện
       const otherDeductions = (input.pensionContribution + input.charitableContribution) / 12;
@@ -300,11 +303,11 @@ function calculateSourceTax(source: IncomeSource, input: MultiSourceInput): Sour
       taxableAmount = monthlyTaxable * 12;
 
       // Tính thuế lũy tiến hàng tháng
-      const monthlyTax = calculateProgressiveTax(monthlyTaxable, input.isSecondHalf2026 || false);
+      const monthlyTax = calculateProgressiveTax(monthlyTaxable, rules.brackets);
       taxAmount = monthlyTax * 12;
 
       appliedRate = 'progressive';
-      method = 'Lũy tiến 5 bậc';
+      method = `Lũy tiến ${rules.brackets.length} bậc`;
 
       if (input.dependents > 0) {
         notes.push(`Giảm trừ ${input.dependents} người phụ thuộc`);
@@ -608,3 +611,56 @@ export function formatCurrency(amount: number): string {
 export function formatPercent(rate: number): string {
   return `${(rate * 100).toFixed(1)}%`;
 }
+
+/**
+ * Sheet xuất Excel: chi tiết từng nguồn thu nhập và tổng hợp theo nhóm
+ */
+export function buildMultiSourceSheets(result: MultiSourceResult): ExcelSheet[] {
+  const { categoryBreakdown } = result;
+  const categories = [
+    { label: 'Tiền lương, tiền công', ...categoryBreakdown.salary },
+    { label: 'Đầu tư', ...categoryBreakdown.investment },
+    { label: 'Kinh doanh', ...categoryBreakdown.business },
+    { label: 'Khác', ...categoryBreakdown.other },
+  ];
+
+  return [
+    {
+      name: 'Theo nguồn',
+      headers: ['Nguồn thu nhập', 'Mô tả', 'Thu nhập/năm', 'Chịu thuế', 'Thuế suất', 'Thuế', 'Cách tính'],
+      columns: {
+        'Thu nhập/năm': { format: 'vnd' },
+        'Chịu thuế': { format: 'vnd' },
+        'Thuế suất': { format: 'percent' },
+        'Thuế': { format: 'vnd' },
+        'Cách tính': { width: 40 },
+      },
+      rows: result.sourceResults.map((item) => ({
+        'Nguồn thu nhập': INCOME_SOURCE_LABELS[item.source.type],
+        'Mô tả': item.source.description,
+        'Thu nhập/năm': item.annualAmount,
+        'Chịu thuế': item.taxableAmount,
+        'Thuế suất': item.effectiveRate,
+        'Thuế': item.taxAmount,
+        'Cách tính': item.method,
+      })),
+      totals: { label: 'Tổng cộng', columns: ['Thu nhập/năm', 'Chịu thuế', 'Thuế'] },
+    },
+    {
+      name: 'Tổng hợp',
+      headers: ['Nhóm thu nhập', 'Thu nhập', 'Thuế'],
+      columns: {
+        'Thu nhập': { format: 'vnd' },
+        'Thuế': { format: 'vnd' },
+      },
+      rows: categories
+        .filter((category) => category.gross > 0)
+        .map((category) => ({
+          'Nhóm thu nhập': category.label,
+          'Thu nhập': category.gross,
+          'Thuế': category.tax,
+        })),
+      totals: { label: 'Tổng cộng', columns: ['Thu nhập', 'Thuế'] },
+    },
+  ];
+}
@@ -0,0 +1,442 @@
+/**
+ * Payroll Roster Calculator
+ * Tính thuế TNCN và bảo hiểm cho cả bảng lương (nhiều nhân viên) từ file CSV
+ *
+ * Mỗi dòng được tính bằng getFullEmployerCostResult (cùng logic với tab
+ * "Chi phí nhà tuyển dụng"), phụ cấp qua calculateAllowancesBreakdown.
+ * Dòng lỗi không chặn cả bảng: được liệt kê riêng kèm số dòng trong file.
+ */
+
+import {
+  AllowancesBreakdown,
+  AllowancesState,
+  DEFAULT_ALLOWANCES,
+  DEFAULT_INSURANCE_OPTIONS,
+  EmployerInsuranceDetail,
+  InsuranceDetail,
+  InsuranceOptions,
+  RegionType,
+  TaxInput,
+  calculateAllowancesBreakdown,
+  getFullEmployerCostResult,
+  resolveAsOf,
+} from './taxCalculator';
+import { parseCSV, stringifyCSV } from './csvUtils';
+import type { ExcelRow, ExcelSheet } from './exportUtils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RosterEmployee extends TaxInput {
+  line: number; // Số dòng trong file CSV (dòng tiêu đề = 1)
+  employeeId: string;
+  fullName: string;
+  taxCode?: string; // MST cá nhân (dùng cho chứng từ khấu trừ)
+  idNumber?: string; // CCCD/hộ chiếu
+}
+
+export interface RosterInput {
+  employees: RosterEmployee[];
+  asOf?: Date; // Kỳ lương (trần bảo hiểm theo ngày)
+  insuranceOptions?: InsuranceOptions; // Mặc định cho dòng không tự khai báo
+  includeUnionFee?: boolean; // Kinh phí công đoàn 2% phía công ty
+}
+
+export interface RosterRowError {
+  line: number;
+  employeeId?: string;
+  column?: string;
+  message: string;
+}
+
+export interface RosterRowResult {
+  line: number;
+  employeeId: string;
+  fullName: string;
+  taxCode?: string;
+  idNumber?: string;
+  grossIncome: number;
+  insuranceSalary: number; // Lương đóng bảo hiểm
+  dependents: number;
+  region: RegionType;
+  allowances: AllowancesBreakdown;
+  employeeInsurance: InsuranceDetail;
+  pit: number; // Thuế TNCN khấu trừ
+  netIncome: number; // Thực nhận (gồm phụ cấp)
+  employerInsurance: EmployerInsuranceDetail;
+  totalEmployerCost: number; // Lương + phụ cấp + bảo hiểm phía công ty
+}
+
+export interface RosterTotals {
+  employees: number;
+  grossIncome: number;
+  allowances: number;
+  employeeInsurance: InsuranceDetail;
+  pit: number;
+  netIncome: number;
+  employerInsurance: EmployerInsuranceDetail;
+  totalEmployerCost: number;
+}
+
+export interface RosterResult {
+  asOf: Date;
+  rows: RosterRowResult[];
+  totals: RosterTotals;
+  errors: RosterRowError[];
+}
+
+export interface RosterParseResult {
+  employees: RosterEmployee[];
+  errors: RosterRowError[];
+}
+
+// =============================================================================
+// CSV COLUMNS
+// =============================================================================
+
+type AllowanceKey = keyof AllowancesState;
+
+interface RosterColumn {
+  key: 'employeeId' | 'fullName' | 'taxCode' | 'idNumber' | 'grossIncome' | 'declaredSalary' | 'dependents' | 'region' | AllowanceKey;
+  header: string; // Tên cột chuẩn (dùng trong file mẫu)
+  aliases: string[]; // Tên cột tiếng Việt được chấp nhận
+  label: string;
+}
+
+export const ROSTER_COLUMNS: RosterColumn[] = [
+  { key: 'employeeId', header: 'employee_id', aliases: ['ma_nv', 'ma nhan vien'], label: 'Mã NV' },
+  { key: 'fullName', header: 'full_name', aliases: ['ho_ten', 'ho va ten'], label: 'Họ tên' },
+  { key: 'taxCode', header: 'tax_code', aliases: ['mst', 'ma_so_thue'], label: 'MST' },
+  { key: 'idNumber', header: 'id_number', aliases: ['cccd', 'so_cccd'], label: 'CCCD' },
+  { key: 'grossIncome', header: 'gross', aliases: ['luong_gross', 'luong'], label: 'Lương gross' },
+  { key: 'declaredSalary', header: 'declared_salary', aliases: ['luong_dong_bh', 'luong bhxh'], label: 'Lương đóng BH' },
+  { key: 'dependents', header: 'dependents', aliases: ['nguoi_phu_thuoc', 'npt'], label: 'Người phụ thuộc' },
+  { key: 'region', header: 'region', aliases: ['vung'], label: 'Vùng' },
+  { key: 'meal', header: 'meal', aliases: ['an_trua', 'an ca'], label: 'Ăn trưa' },
+  { key: 'phone', header: 'phone', aliases: ['dien_thoai'], label: 'Điện thoại' },
+  { key: 'transport', header: 'transport', aliases: ['di_lai', 'xang xe'], label: 'Đi lại' },
+  { key: 'hazardous', header: 'hazardous', aliases: ['doc_hai'], label: 'Độc hại' },
+  { key: 'clothing', header: 'clothing', aliases: ['trang_phuc'], label: 'Trang phục' },
+  { key: 'housing', header: 'housing', aliases: ['nha_o', 'tien nha'], label: 'Nhà ở' },
+  { key: 'position', header: 'position', aliases: ['chuc_vu', 'trach nhiem'], label: 'Chức vụ' },
+];
+
+const ALLOWANCE_KEYS = Object.keys(DEFAULT_ALLOWANCES) as AllowanceKey[];
+const MAX_DEPENDENTS = 20;
+
+/** Chuẩn hóa tên cột: bỏ dấu, chữ thường, chỉ giữ chữ và số */
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/gi, 'd')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function findColumn(header: string): RosterColumn | undefined {
+  const normalized = normalizeHeader(header);
+  return ROSTER_COLUMNS.find((column) =>
+    [column.header, ...column.aliases].some((name) => normalizeHeader(name) === normalized)
+  );
+}
+
+/** Số tiền VND: chấp nhận "25000000", "25.000.000", "25,000,000" */
+function parseAmount(value: string): number | null {
+  const text = value.trim();
+  if (!/^[\d.,\s_]+$/.test(text)) return null;
+  const amount = Number(text.replace(/[.,\s_]/g, ''));
+  return Number.isSafeInteger(amount) ? amount : null;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Đọc bảng lương CSV thành danh sách TaxInput (kèm mã NV), gom lỗi theo từng dòng
+ */
+export function parseRosterCSV(text: string): RosterParseResult {
+  const [headerRow, ...dataRows] = parseCSV(text);
+  const errors: RosterRowError[] = [];
+  const employees: RosterEmployee[] = [];
+
+  if (!headerRow) {
+    return { employees, errors: [{ line: 1, message: 'File trống' }] };
+  }
+
+  const columns = headerRow.map(findColumn);
+  headerRow.forEach((header, index) => {
+    if (!columns[index] && header.trim() !== '') {
+      errors.push({ line: 1, column: header, message: `Cột không được hỗ trợ: ${header}` });
+    }
+  });
+  for (const required of ['employeeId', 'grossIncome'] as const) {
+    if (!columns.some((column) => column?.key === required)) {
+      const column = ROSTER_COLUMNS.find((c) => c.key === required)!;
+      errors.push({ line: 1, column: column.header, message: `Thiếu cột bắt buộc: ${column.header}` });
+    }
+  }
+  if (errors.some((error) => error.message.startsWith('Thiếu cột'))) {
+    return { employees, errors };
+  }
+
+  const seenIds = new Map<string, number>();
+
+  dataRows.forEach((cells, rowIndex) => {
+    const line = rowIndex + 2;
+    const rowErrors: RosterRowError[] = [];
+    const values: Partial<Record<RosterColumn['key'], string>> = {};
+    columns.forEach((column, index) => {
+      if (column) values[column.key] = (cells[index] ?? '').trim();
+    });
+
+    const employeeId = values.employeeId ?? '';
+    const fail = (column: RosterColumn['key'], message: string) => {
+      const header = ROSTER_COLUMNS.find((c) => c.key === column)!.header;
+      rowErrors.push({ line, employeeId: employeeId || undefined, column: header, message });
+    };
+
+    if (!employeeId) {
+      fail('employeeId', 'Thiếu mã nhân viên');
+    } else if (seenIds.has(employeeId)) {
+      fail('employeeId', `Trùng mã nhân viên với dòng ${seenIds.get(employeeId)}`);
+    } else {
+      seenIds.set(employeeId, line);
+    }
+
+    const grossIncome = parseAmount(values.grossIncome ?? '');
+    if (grossIncome === null || grossIncome <= 0) fail('grossIncome', 'Lương gross phải là số dương');
+
+    let declaredSalary: number | undefined;
+    if (values.declaredSalary) {
+      const parsed = parseAmount(values.declaredSalary);
+      if (parsed === null) fail('declaredSalary', 'Lương đóng BH không hợp lệ');
+      else declaredSalary = parsed;
+    }
+
+    let dependents = 0;
+    if (values.dependents) {
+      const parsed = Number(values.dependents);
+      if (!Number.isInteger(parsed) || parsed < 0 || parsed > MAX_DEPENDENTS) {
+        fail('dependents', `Số người phụ thuộc phải là số nguyên 0-${MAX_DEPENDENTS}`);
+      } else {
+        dependents = parsed;
+      }
+    }
+
+    let region: RegionType = 1;
+    if (values.region) {
+      // "2", "Vùng 2", "vung 2"
+      const parsed = Number(normalizeHeader(values.region).replace(/^vung/, ''));
+      if (![1, 2, 3, 4].includes(parsed)) fail('region', 'Vùng phải là 1, 2, 3 hoặc 4');
+      else region = parsed as RegionType;
+    }
+
+    const allowances: AllowancesState = { ...DEFAULT_ALLOWANCES };
+    for (const key of ALLOWANCE_KEYS) {
+      const raw = values[key];
+      if (!raw) continue;
+      const parsed = parseAmount(raw);
+      if (parsed === null) fail(key, 'Phụ cấp phải là số không âm');
+      else allowances[key] = parsed;
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    employees.push({
+      line,
+      employeeId,
+      fullName: values.fullName ?? '',
+      taxCode: values.taxCode || undefined,
+      idNumber: values.idNumber || undefined,
+      grossIncome: grossIncome!,
+      declaredSalary,
+      dependents,
+      region,
+      allowances,
+    });
+  });
+
+  return { employees, errors };
+}
+
+// =============================================================================
+// CALCULATION
+// =============================================================================
+
+function emptyTotals(): RosterTotals {
+  return {
+    employees: 0,
+    grossIncome: 0,
+    allowances: 0,
+    employeeInsurance: { bhxh: 0, bhyt: 0, bhtn: 0, total: 0 },
+    pit: 0,
+    netIncome: 0,
+    employerInsurance: { bhxh: 0, bhyt: 0, bhtn: 0, unionFee: 0, total: 0 },
+    totalEmployerCost: 0,
+  };
+}
+
+function addDetail<T extends object>(target: T, source: T): void {
+  const sum = target as Record<string, number>;
+  for (const [key, value] of Object.entries(source as Record<string, number>)) {
+    sum[key] += value;
+  }
+}
+
+/**
+ * Tính thuế TNCN, bảo hiểm người lao động và phần công ty đóng cho từng nhân viên
+ */
+export function calculateRoster(input: RosterInput): RosterResult {
+  const asOf = resolveAsOf(input.asOf);
+  const { includeUnionFee = false } = input;
+  const totals = emptyTotals();
+
+  const rows = input.employees.map((employee): RosterRowResult => {
+    const region = employee.region ?? 1;
+    const allowances = calculateAllowancesBreakdown(employee.allowances);
+    const cost = getFullEmployerCostResult({
+      grossIncome: employee.grossIncome,
+      declaredSalary: employee.declaredSalary,
+      dependents: employee.dependents,
+      region,
+      insuranceOptions: employee.insuranceOptions ?? input.insuranceOptions ?? DEFAULT_INSURANCE_OPTIONS,
+      includeUnionFee,
+      allowances: employee.allowances,
+      asOf,
+    });
+
+    const row: RosterRowResult = {
+      line: employee.line,
+      employeeId: employee.employeeId,
+      fullName: employee.fullName,
+      taxCode: employee.taxCode,
+      idNumber: employee.idNumber,
+      grossIncome: employee.grossIncome,
+      insuranceSalary: employee.declaredSalary ?? employee.grossIncome,
+      dependents: employee.dependents,
+      region,
+      allowances,
+      employeeInsurance: cost.employeeInsurance,
+      pit: cost.employeeTax,
+      netIncome: cost.employeeNetIncome,
+      employerInsurance: cost.employerInsurance,
+      // totalEmployerCost của getFullEmployerCostResult chưa gồm phụ cấp
+      totalEmployerCost: cost.totalEmployerCost + allowances.total,
+    };
+
+    totals.employees += 1;
+    totals.grossIncome += row.grossIncome;
+    totals.allowances += allowances.total;
+    addDetail(totals.employeeInsurance, row.employeeInsurance);
+    totals.pit += row.pit;
+    totals.netIncome += row.netIncome;
+    addDetail(totals.employerInsurance, row.employerInsurance);
+    totals.totalEmployerCost += row.totalEmployerCost;
+
+    return row;
+  });
+
+  return { asOf, rows, totals, errors: [] };
+}
+
+/**
+ * Đọc CSV và tính cả bảng lương; dòng lỗi nằm trong result.errors
+ */
+export function calculateRosterFromCSV(
+  text: string,
+  options: Omit<RosterInput, 'employees'> = {}
+): RosterResult {
+  const { employees, errors } = parseRosterCSV(text);
+  return { ...calculateRoster({ ...options, employees }), errors };
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/** File CSV mẫu để người dùng điền bảng lương */
+export function getRosterTemplateCSV(): string {
+  const headers = ROSTER_COLUMNS.map((column) => column.header);
+  return '\uFEFF' + stringifyCSV(headers, [
+    {
+      employee_id: 'NV001', full_name: 'Nguyễn Văn A', tax_code: '8123456789', id_number: '', gross: 30_000_000, declared_salary: '',
+      dependents: 1, region: 1, meal: 730_000, phone: 0, transport: 0, hazardous: 0,
+      clothing: 0, housing: 0, position: 2_000_000,
+    },
+    {
+      employee_id: 'NV002', full_name: 'Trần Thị B', tax_code: '', id_number: '001190012345', gross: 18_000_000, declared_salary: 10_000_000,
+      dependents: 0, region: 2, meal: 0, phone: 300_000, transport: 500_000, hazardous: 0,
+      clothing: 0, housing: 0, position: 0,
+    },
+  ]);
+}
+
+const RESULT_HEADERS = [
+  'Dòng', 'Mã NV', 'Họ tên', 'Lương gross', 'Lương đóng BH', 'NPT', 'Vùng',
+  'Phụ cấp', 'Phụ cấp miễn thuế', 'BHXH (NLĐ)', 'BHYT (NLĐ)', 'BHTN (NLĐ)',
+  'Thuế TNCN', 'Thực nhận', 'BHXH (Cty)', 'BHYT (Cty)', 'BHTN (Cty)', 'KPCĐ',
+  'Tổng chi phí Cty',
+];
+
+// Các cột tiền: định dạng VND và cộng tổng cuối bảng
+const MONEY_HEADERS = RESULT_HEADERS.filter(
+  (header) => !['Dòng', 'Mã NV', 'Họ tên', 'NPT', 'Vùng'].includes(header)
+);
+
+/**
+ * Bảng kết quả để xuất CSV/Excel: một dòng mỗi nhân viên + dòng tổng
+ */
+export function buildRosterSheets(result: RosterResult): ExcelSheet[] {
+  const rows: ExcelRow[] = result.rows.map((row) => ({
+    'Dòng': row.line,
+    'Mã NV': row.employeeId,
+    'Họ tên': row.fullName,
+    'Lương gross': row.grossIncome,
+    'Lương đóng BH': row.insuranceSalary,
+    'NPT': row.dependents,
+    'Vùng': row.region,
+    'Phụ cấp': row.allowances.total,
+    'Phụ cấp miễn thuế': row.allowances.taxExempt,
+    'BHXH (NLĐ)': row.employeeInsurance.bhxh,
+    'BHYT (NLĐ)': row.employeeInsurance.bhyt,
+    'BHTN (NLĐ)': row.employeeInsurance.bhtn,
+    'Thuế TNCN': row.pit,
+    'Thực nhận': row.netIncome,
+    'BHXH (Cty)': row.employerInsurance.bhxh,
+    'BHYT (Cty)': row.employerInsurance.bhyt,
+    'BHTN (Cty)': row.employerInsurance.bhtn,
+    'KPCĐ': row.employerInsurance.unionFee,
+    'Tổng chi phí Cty': row.totalEmployerCost,
+  }));
+
+  const sheets: ExcelSheet[] = [{
+    name: 'Bảng lương',
+    headers: RESULT_HEADERS,
+    rows,
+    columns: Object.fromEntries(
+      RESULT_HEADERS.map((header) => [header, { format: MONEY_HEADERS.includes(header) ? 'vnd' : 'number' }])
+    ),
+    totals: { label: 'TỔNG CỘNG', labelColumn: 'Mã NV', columns: MONEY_HEADERS },
+  }];
+
+  if (result.errors.length > 0) {
+    sheets.push({
+      name: 'Lỗi',
+      headers: ['Dòng', 'Mã NV', 'Cột', 'Lỗi'],
+      rows: result.errors.map((error) => ({
+        'Dòng': error.line,
+        'Mã NV': error.employeeId,
+        'Cột': error.column,
+        'Lỗi': error.message,
+      })),
+    });
+  }
+
+  return sheets;
+}
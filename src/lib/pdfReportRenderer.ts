@@ -0,0 +1,570 @@
+/**
+ * PDF Report Renderer - Báo cáo PDF dạng văn bản bằng jsPDF
+ *
+ * Thay cho cách chụp DOM thành ảnh: chữ được vẽ trực tiếp với phông Be Vietnam Pro
+ * nhúng trong file (đủ dấu tiếng Việt), nên PDF nhẹ, nét khi phóng to và tìm kiếm được.
+ * Bảng tự ngắt trang theo từng dòng (lặp lại hàng tiêu đề), biểu đồ vẽ bằng hình vector,
+ * mỗi trang có header và footer kèm số trang.
+ */
+
+import type { jsPDF } from 'jspdf';
+
+// ============================================
+// Report model
+// ============================================
+
+export type PdfTone = 'default' | 'muted' | 'primary' | 'success' | 'danger' | 'warning';
+
+export interface PdfKeyValueRow {
+  label: string;
+  value: string;
+  bold?: boolean;
+  indent?: boolean;
+  tone?: PdfTone;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width?: number; // Tỷ trọng độ rộng (mặc định 1)
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfTableRow {
+  cells: string[];
+  bold?: boolean;
+  highlight?: boolean;
+}
+
+export interface PdfStatItem {
+  label: string;
+  value: string;
+  tone?: PdfTone;
+}
+
+export interface PdfChartBar {
+  label: string;
+  value: number;
+  tone?: PdfTone;
+}
+
+export interface PdfSignatureBox {
+  title: string;
+  caption?: string;
+  date?: string;
+}
+
+export type PdfBlock =
+  | { type: 'heading'; text: string; level?: 1 | 2 }
+  | { type: 'paragraph'; text: string; tone?: PdfTone; boxed?: boolean }
+  | { type: 'keyValue'; rows: PdfKeyValueRow[] }
+  | { type: 'table'; columns: PdfTableColumn[]; rows: PdfTableRow[] }
+  | { type: 'stats'; items: PdfStatItem[] }
+  | { type: 'barChart'; bars: PdfChartBar[]; formatValue?: (value: number) => string }
+  | { type: 'signatures'; boxes: PdfSignatureBox[] }
+  | { type: 'spacer'; height: number };
+
+export interface PdfReport {
+  title: string;
+  subtitle?: string;
+  meta?: string[]; // Dòng phụ căn phải dưới tiêu đề (mã tài liệu, ngày tạo...)
+  blocks: PdfBlock[];
+  footerText?: string;
+}
+
+export interface PdfRenderOptions {
+  fontBaseUrl?: string; // Thư mục chứa file .ttf (mặc định /fonts theo basePath)
+}
+
+// ============================================
+// Layout constants (mm / pt)
+// ============================================
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN_X = 15;
+const CONTENT_TOP = 20;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const CELL_PADDING = 2;
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.3;
+
+const FONT_FAMILY = 'BeVietnamPro';
+const FONT_FILES = {
+  normal: 'BeVietnamPro-Regular.ttf',
+  bold: 'BeVietnamPro-Bold.ttf',
+} as const;
+
+const TONE_COLORS: Record<PdfTone, string> = {
+  default: '#1f2937',
+  muted: '#64748b',
+  primary: '#1d4ed8',
+  success: '#16a34a',
+  danger: '#dc2626',
+  warning: '#b45309',
+};
+
+const COLORS = {
+  border: '#e2e8f0',
+  headerFill: '#dbeafe',
+  zebraFill: '#f8fafc',
+  highlightFill: '#fef9c3',
+  cardFill: '#f1f5f9',
+  noteFill: '#f8fafc',
+  accent: '#3b82f6',
+};
+
+export const DEFAULT_PDF_FOOTER = 'Tạo bởi Tính Thuế TNCN 2026 - thue.1devops.io';
+
+// ============================================
+// Fonts
+// ============================================
+
+const fontCache = new Map<string, Promise<string>>();
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+function loadFontFile(url: string): Promise<string> {
+  let pending = fontCache.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(arrayBufferToBase64);
+    // Không giữ lại lần tải lỗi để lần sau thử lại
+    pending.catch(() => fontCache.delete(url));
+    fontCache.set(url, pending);
+  }
+  return pending;
+}
+
+async function registerFonts(pdf: jsPDF, baseUrl: string): Promise<void> {
+  const styles = Object.keys(FONT_FILES) as Array<keyof typeof FONT_FILES>;
+  try {
+    const files = await Promise.all(styles.map((style) => loadFontFile(`${baseUrl}/${FONT_FILES[style]}`)));
+    styles.forEach((style, i) => {
+      pdf.addFileToVFS(FONT_FILES[style], files[i]);
+      pdf.addFont(FONT_FILES[style], FONT_FAMILY, style);
+    });
+  } catch (error) {
+    console.error('PDF font load error:', error);
+    throw new Error('Không tải được phông chữ tiếng Việt cho PDF. Vui lòng kiểm tra kết nối mạng.');
+  }
+}
+
+// ============================================
+// Render context
+// ============================================
+
+interface RenderContext {
+  pdf: jsPDF;
+  y: number;
+}
+
+function lineHeight(fontSize: number): number {
+  return fontSize * PT_TO_MM * LINE_SPACING;
+}
+
+function setFont(ctx: RenderContext, size: number, bold = false, color: string = TONE_COLORS.default): void {
+  ctx.pdf.setFont(FONT_FAMILY, bold ? 'bold' : 'normal');
+  ctx.pdf.setFontSize(size);
+  ctx.pdf.setTextColor(color);
+}
+
+function wrap(ctx: RenderContext, text: string, width: number): string[] {
+  return ctx.pdf.splitTextToSize(text, width) as string[];
+}
+
+/**
+ * Sang trang mới nếu phần tử cao `height` không còn đủ chỗ. Trả về true khi đã sang trang
+ */
+function ensureSpace(ctx: RenderContext, height: number): boolean {
+  if (ctx.y + height <= CONTENT_BOTTOM) return false;
+  ctx.pdf.addPage();
+  ctx.y = CONTENT_TOP;
+  return true;
+}
+
+function drawLine(ctx: RenderContext, y: number, color: string = COLORS.border, width = 0.2): void {
+  ctx.pdf.setDrawColor(color);
+  ctx.pdf.setLineWidth(width);
+  ctx.pdf.line(MARGIN_X, y, MARGIN_X + CONTENT_WIDTH, y);
+}
+
+// ============================================
+// Blocks
+// ============================================
+
+function renderTitle(ctx: RenderContext, report: PdfReport): void {
+  setFont(ctx, 16, true, TONE_COLORS.primary);
+  const titleLines = wrap(ctx, report.title.toUpperCase(), CONTENT_WIDTH);
+  titleLines.forEach((line) => {
+    ctx.y += lineHeight(16);
+    ctx.pdf.text(line, PAGE_WIDTH / 2, ctx.y, { align: 'center' });
+  });
+
+  if (report.subtitle) {
+    setFont(ctx, 9, false, TONE_COLORS.muted);
+    wrap(ctx, report.subtitle, CONTENT_WIDTH).forEach((line) => {
+      ctx.y += lineHeight(9);
+      ctx.pdf.text(line, PAGE_WIDTH / 2, ctx.y, { align: 'center' });
+    });
+  }
+
+  ctx.y += 3;
+  drawLine(ctx, ctx.y, COLORS.accent, 0.6);
+  ctx.y += 2;
+
+  if (report.meta && report.meta.length > 0) {
+    setFont(ctx, 8, false, TONE_COLORS.muted);
+    report.meta.forEach((line) => {
+      ctx.y += lineHeight(8);
+      ctx.pdf.text(line, MARGIN_X + CONTENT_WIDTH, ctx.y, { align: 'right' });
+    });
+  }
+  ctx.y += 4;
+}
+
+function renderHeading(ctx: RenderContext, text: string, level: 1 | 2): void {
+  const size = level === 1 ? 12 : 10.5;
+  // Giữ tiêu đề đi cùng ít nhất một dòng nội dung phía sau
+  ensureSpace(ctx, lineHeight(size) + 12);
+  ctx.y += 2;
+  setFont(ctx, size, true, level === 1 ? TONE_COLORS.default : '#334155');
+  wrap(ctx, text, CONTENT_WIDTH).forEach((line) => {
+    ctx.y += lineHeight(size);
+    ctx.pdf.text(line, MARGIN_X, ctx.y);
+  });
+  if (level === 1) {
+    ctx.y += 1.5;
+    drawLine(ctx, ctx.y);
+  }
+  ctx.y += 3;
+}
+
+function renderParagraph(ctx: RenderContext, text: string, tone: PdfTone, boxed: boolean): void {
+  const size = 9;
+  const padding = boxed ? 3 : 0;
+  setFont(ctx, size, false, TONE_COLORS[tone]);
+  const lines = wrap(ctx, text, CONTENT_WIDTH - padding * 2);
+
+  let index = 0;
+  while (index < lines.length) {
+    ensureSpace(ctx, lineHeight(size) + padding * 2);
+    const available = Math.max(1, Math.floor((CONTENT_BOTTOM - ctx.y - padding * 2) / lineHeight(size)));
+    const chunk = lines.slice(index, index + available);
+    const height = chunk.length * lineHeight(size) + padding * 2;
+
+    if (boxed) {
+      ctx.pdf.setFillColor(COLORS.noteFill);
+      ctx.pdf.setDrawColor(COLORS.border);
+      ctx.pdf.roundedRect(MARGIN_X, ctx.y, CONTENT_WIDTH, height, 1.5, 1.5, 'FD');
+    }
+    setFont(ctx, size, false, TONE_COLORS[tone]);
+    chunk.forEach((line, i) => {
+      ctx.pdf.text(line, MARGIN_X + padding, ctx.y + padding + lineHeight(size) * (i + 0.8));
+    });
+    ctx.y += height;
+    index += chunk.length;
+  }
+  ctx.y += 3;
+}
+
+interface TableLayout {
+  widths: number[];
+  aligns: Array<'left' | 'right' | 'center'>;
+}
+
+function getTableLayout(columns: PdfTableColumn[]): TableLayout {
+  const totalWeight = columns.reduce((sum, col) => sum + (col.width ?? 1), 0);
+  return {
+    widths: columns.map((col) => (CONTENT_WIDTH * (col.width ?? 1)) / totalWeight),
+    aligns: columns.map((col) => col.align ?? 'left'),
+  };
+}
+
+/**
+ * Vẽ một dòng bảng; trả về chiều cao đã dùng
+ */
+function drawTableRow(
+  ctx: RenderContext,
+  cells: string[],
+  layout: TableLayout,
+  style: { size: number; bold: boolean; fill?: string; color?: string }
+): number {
+  setFont(ctx, style.size, style.bold, style.color);
+  const wrapped = cells.map((cell, i) => wrap(ctx, cell, layout.widths[i] - CELL_PADDING * 2));
+  const lines = Math.max(1, ...wrapped.map((cellLines) => cellLines.length));
+  const height = lines * lineHeight(style.size) + CELL_PADDING * 2;
+
+  if (style.fill) {
+    ctx.pdf.setFillColor(style.fill);
+    ctx.pdf.rect(MARGIN_X, ctx.y, CONTENT_WIDTH, height, 'F');
+  }
+
+  let x = MARGIN_X;
+  wrapped.forEach((cellLines, i) => {
+    const align = layout.aligns[i];
+    const textX = align === 'right'
+      ? x + layout.widths[i] - CELL_PADDING
+      : align === 'center'
+        ? x + layout.widths[i] / 2
+        : x + CELL_PADDING;
+    cellLines.forEach((line, lineIndex) => {
+      ctx.pdf.text(line, textX, ctx.y + CELL_PADDING + lineHeight(style.size) * (lineIndex + 0.8), { align });
+    });
+    x += layout.widths[i];
+  });
+
+  drawLine(ctx, ctx.y + height);
+  return height;
+}
+
+function measureRowHeight(ctx: RenderContext, cells: string[], layout: TableLayout, size: number, bold: boolean): number {
+  setFont(ctx, size, bold);
+  const lines = Math.max(1, ...cells.map((cell, i) => wrap(ctx, cell, layout.widths[i] - CELL_PADDING * 2).length));
+  return lines * lineHeight(size) + CELL_PADDING * 2;
+}
+
+function renderTable(ctx: RenderContext, columns: PdfTableColumn[], rows: PdfTableRow[]): void {
+  const layout = getTableLayout(columns);
+  const headers = columns.map((col) => col.header);
+  const size = 8.5;
+  const hasHeader = headers.some((header) => header !== '');
+
+  const drawHeader = () => {
+    if (!hasHeader) return;
+    ctx.y += drawTableRow(ctx, headers, layout, { size, bold: true, fill: COLORS.headerFill });
+  };
+
+  // Hàng tiêu đề không đứng một mình cuối trang
+  const firstRowHeight = rows.length > 0 ? measureRowHeight(ctx, rows[0].cells, layout, size, !!rows[0].bold) : 0;
+  ensureSpace(ctx, (hasHeader ? measureRowHeight(ctx, headers, layout, size, true) : 0) + firstRowHeight);
+  drawHeader();
+
+  rows.forEach((row, index) => {
+    const height = measureRowHeight(ctx, row.cells, layout, size, !!row.bold);
+    if (ensureSpace(ctx, height)) drawHeader();
+    const fill = row.highlight ? COLORS.highlightFill : index % 2 === 0 ? COLORS.zebraFill : undefined;
+    ctx.y += drawTableRow(ctx, row.cells, layout, { size, bold: !!row.bold, fill });
+  });
+  ctx.y += 4;
+}
+
+function renderKeyValue(ctx: RenderContext, rows: PdfKeyValueRow[]): void {
+  const layout = getTableLayout([{ header: '', width: 3 }, { header: '', width: 2, align: 'right' }]);
+  const size = 9;
+
+  rows.forEach((row) => {
+    const label = row.indent ? `    ${row.label}` : row.label;
+    const height = measureRowHeight(ctx, [label, row.value], layout, size, !!row.bold);
+    ensureSpace(ctx, height);
+    ctx.y += drawTableRow(ctx, [label, row.value], layout, {
+      size,
+      bold: !!row.bold,
+      color: TONE_COLORS[row.tone ?? (row.indent ? 'muted' : 'default')],
+      fill: row.bold ? COLORS.zebraFill : undefined,
+    });
+  });
+  ctx.y += 4;
+}
+
+function renderStats(ctx: RenderContext, items: PdfStatItem[]): void {
+  if (items.length === 0) return;
+  const gap = 3;
+  const width = (CONTENT_WIDTH - gap * (items.length - 1)) / items.length;
+  const height = 17;
+  ensureSpace(ctx, height);
+
+  items.forEach((item, i) => {
+    const x = MARGIN_X + i * (width + gap);
+    ctx.pdf.setFillColor(COLORS.cardFill);
+    ctx.pdf.roundedRect(x, ctx.y, width, height, 1.5, 1.5, 'F');
+
+    setFont(ctx, 7.5, false, TONE_COLORS.muted);
+    ctx.pdf.text(wrap(ctx, item.label, width - 4)[0] ?? '', x + width / 2, ctx.y + 6, { align: 'center' });
+    setFont(ctx, 10.5, true, TONE_COLORS[item.tone ?? 'default']);
+    ctx.pdf.text(wrap(ctx, item.value, width - 4)[0] ?? '', x + width / 2, ctx.y + 12.5, { align: 'center' });
+  });
+  ctx.y += height + 4;
+}
+
+function renderBarChart(
+  ctx: RenderContext,
+  bars: PdfChartBar[],
+  formatValue: (value: number) => string
+): void {
+  const visible = bars.filter((bar) => bar.value > 0);
+  if (visible.length === 0) return;
+
+  const labelWidth = 45;
+  const valueWidth = 32;
+  const barAreaWidth = CONTENT_WIDTH - labelWidth - valueWidth;
+  const barHeight = 5;
+  const gap = 2.5;
+  const max = Math.max(...visible.map((bar) => bar.value));
+
+  // Biểu đồ ngắn nên giữ nguyên trên một trang
+  ensureSpace(ctx, visible.length * (barHeight + gap));
+  const top = ctx.y;
+
+  visible.forEach((bar) => {
+    const centerY = ctx.y + barHeight / 2;
+
+    setFont(ctx, 8, false, '#334155');
+    ctx.pdf.text(wrap(ctx, bar.label, labelWidth - 2)[0] ?? '', MARGIN_X, centerY + 1);
+
+    const width = Math.max(0.5, (bar.value / max) * barAreaWidth);
+    ctx.pdf.setFillColor(TONE_COLORS[bar.tone ?? 'primary']);
+    ctx.pdf.rect(MARGIN_X + labelWidth, ctx.y, width, barHeight, 'F');
+
+    setFont(ctx, 8, true, TONE_COLORS.default);
+    ctx.pdf.text(formatValue(bar.value), MARGIN_X + CONTENT_WIDTH, centerY + 1, { align: 'right' });
+    ctx.y += barHeight + gap;
+  });
+
+  // Trục gốc
+  ctx.pdf.setDrawColor('#94a3b8');
+  ctx.pdf.setLineWidth(0.3);
+  ctx.pdf.line(MARGIN_X + labelWidth, top - 1, MARGIN_X + labelWidth, ctx.y - gap + 1);
+  ctx.y += 3;
+}
+
+function renderSignatures(ctx: RenderContext, boxes: PdfSignatureBox[]): void {
+  if (boxes.length === 0) return;
+  const height = 38;
+  ensureSpace(ctx, height);
+  const width = CONTENT_WIDTH / boxes.length;
+
+  boxes.forEach((box, i) => {
+    const centerX = MARGIN_X + width * i + width / 2;
+    let y = ctx.y + 4;
+    if (box.date) {
+      setFont(ctx, 8, false, TONE_COLORS.muted);
+      ctx.pdf.text(box.date, centerX, y, { align: 'center' });
+      y += lineHeight(8);
+    }
+    setFont(ctx, 9.5, true);
+    ctx.pdf.text(box.title, centerX, y + 1, { align: 'center' });
+    if (box.caption) {
+      setFont(ctx, 7.5, false, TONE_COLORS.muted);
+      ctx.pdf.text(box.caption, centerX, y + 1 + lineHeight(8), { align: 'center' });
+    }
+  });
+  ctx.y += height;
+}
+
+// ============================================
+// Header / footer
+// ============================================
+
+function renderPageChrome(pdf: jsPDF, report: PdfReport): void {
+  const pageCount = pdf.getNumberOfPages();
+  const footerText = report.footerText ?? DEFAULT_PDF_FOOTER;
+
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+
+    // Header (từ trang 2, trang đầu đã có tiêu đề lớn)
+    if (page > 1) {
+      pdf.setFont(FONT_FAMILY, 'normal');
+      pdf.setFontSize(7.5);
+      pdf.setTextColor(TONE_COLORS.muted);
+      pdf.text(report.title, MARGIN_X, 11);
+      pdf.setDrawColor(COLORS.border);
+      pdf.setLineWidth(0.2);
+      pdf.line(MARGIN_X, 13, PAGE_WIDTH - MARGIN_X, 13);
+    }
+
+    // Footer
+    const footerY = PAGE_HEIGHT - 10;
+    pdf.setDrawColor(COLORS.border);
+    pdf.setLineWidth(0.2);
+    pdf.line(MARGIN_X, footerY - 4, PAGE_WIDTH - MARGIN_X, footerY - 4);
+    pdf.setFont(FONT_FAMILY, 'normal');
+    pdf.setFontSize(7.5);
+    pdf.setTextColor(TONE_COLORS.muted);
+    pdf.text(footerText, MARGIN_X, footerY);
+    pdf.text(`Trang ${page}/${pageCount}`, PAGE_WIDTH - MARGIN_X, footerY, { align: 'right' });
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+function getDefaultFontBaseUrl(): string {
+  return `${process.env.NEXT_PUBLIC_BASE_PATH || ''}/fonts`;
+}
+
+/**
+ * Dựng báo cáo thành tài liệu jsPDF (chưa lưu file)
+ */
+export async function renderPdfReport(
+  report: PdfReport,
+  options: PdfRenderOptions = {}
+): Promise<jsPDF> {
+  const { default: JsPDF } = await import('jspdf');
+  const pdf = new JsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+  await registerFonts(pdf, options.fontBaseUrl ?? getDefaultFontBaseUrl());
+
+  pdf.setProperties({ title: report.title, creator: 'Tính Thuế TNCN 2026' });
+  pdf.setLanguage('vi');
+
+  const ctx: RenderContext = { pdf, y: 12 };
+  renderTitle(ctx, report);
+
+  for (const block of report.blocks) {
+    switch (block.type) {
+      case 'heading':
+        renderHeading(ctx, block.text, block.level ?? 1);
+        break;
+      case 'paragraph':
+        renderParagraph(ctx, block.text, block.tone ?? 'default', !!block.boxed);
+        break;
+      case 'keyValue':
+        renderKeyValue(ctx, block.rows);
+        break;
+      case 'table':
+        renderTable(ctx, block.columns, block.rows);
+        break;
+      case 'stats':
+        renderStats(ctx, block.items);
+        break;
+      case 'barChart':
+        renderBarChart(ctx, block.bars, block.formatValue ?? ((value) => value.toLocaleString('vi-VN')));
+        break;
+      case 'signatures':
+        renderSignatures(ctx, block.boxes);
+        break;
+      case 'spacer':
+        ctx.y += block.height;
+        break;
+    }
+  }
+
+  renderPageChrome(pdf, report);
+  return pdf;
+}
+
+/**
+ * Dựng và tải báo cáo PDF xuống máy
+ */
+export async function downloadPdfReport(
+  report: PdfReport,
+  filename: string,
+  options: PdfRenderOptions = {}
+): Promise<void> {
+  const pdf = await renderPdfReport(report, options);
+  pdf.save(filename);
+}
@@ -12,6 +12,8 @@
  * 2. Actual expenses: Document actual costs (for registered businesses)
  */
 
+import { getTaxRulesForDate } from './taxRuleRegistry';
+
 // Property types
 export type PropertyType = 'residential' | 'commercial' | 'land' | 'vehicle' | 'equipment';
 
@@ -98,15 +100,10 @@ export const RENTAL_TAX_RATES = {
   deemedExpenseRate: 0.10, // 10% deemed expenses
 };
 
-// Revenue thresholds by year
+// Ngưỡng doanh thu chịu thuế theo năm, tra từ taxRuleRegistry
 // 2026: Nghị định 141/2026/NĐ-CP nâng ngưỡng miễn thuế lên 1 tỷ/năm (từ 01/01/2026)
-export const RENTAL_THRESHOLDS = {
-  2025: 100_000_000,
-  2026: 1_000_000_000,
-};
-
-export function getRentalThreshold(year: 2025 | 2026): number {
-  return RENTAL_THRESHOLDS[year];
+export function getRentalThreshold(year: number): number {
+  return getTaxRulesForDate(new Date(year, 0, 1)).rentalIncomeThreshold;
 }
 
 // Property type labels
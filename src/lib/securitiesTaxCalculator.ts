@@ -4,6 +4,8 @@
  * Reference: Circular 111/2013/TT-BTC, Law 04/2019/QH14
  */
 
+import type { ExcelSheet } from './exportUtils';
+
 // Securities type enum
 export type SecuritiesType = 'listed' | 'unlisted' | 'fund' | 'bond';
 
@@ -387,3 +389,92 @@ export const POPULAR_STOCKS = [
   { symbol: 'SSI', name: 'SSI Securities' },
   { symbol: 'VND', name: 'VNDS Securities' },
 ];
+
+// Securities type labels for export
+const SECURITIES_TYPE_LABELS: Record<SecuritiesType, string> = {
+  listed: 'Niêm yết',
+  unlisted: 'Chưa niêm yết',
+  fund: 'Quỹ đầu tư',
+  bond: 'Trái phiếu',
+};
+
+/**
+ * Build Excel sheets: transactions, dividends and bond interest with totals
+ */
+export function buildSecuritiesSheets(result: SecuritiesTaxResult): ExcelSheet[] {
+  const sheets: ExcelSheet[] = [
+    {
+      name: 'Chuyển nhượng',
+      headers: ['Mã CK', 'Loại', 'Giá trị mua', 'Giá trị bán', 'Phí', 'Lãi/lỗ', 'Thuế suất', 'Thuế', 'Lợi nhuận ròng'],
+      columns: {
+        'Giá trị mua': { format: 'vnd' },
+        'Giá trị bán': { format: 'vnd' },
+        'Phí': { format: 'vnd' },
+        'Lãi/lỗ': { format: 'vnd' },
+        'Thuế suất': { format: 'percent' },
+        'Thuế': { format: 'vnd' },
+        'Lợi nhuận ròng': { format: 'vnd' },
+      },
+      rows: result.transactions.results.map((tx) => ({
+        'Mã CK': tx.symbol,
+        'Loại': SECURITIES_TYPE_LABELS[tx.type],
+        'Giá trị mua': tx.buyValue,
+        'Giá trị bán': tx.sellValue,
+        'Phí': tx.totalFees,
+        'Lãi/lỗ': tx.capitalGain,
+        'Thuế suất': tx.taxRate,
+        'Thuế': tx.tax,
+        'Lợi nhuận ròng': tx.netProfit,
+      })),
+      totals: {
+        label: 'Tổng cộng',
+        columns: ['Giá trị mua', 'Giá trị bán', 'Phí', 'Lãi/lỗ', 'Thuế', 'Lợi nhuận ròng'],
+      },
+    },
+  ];
+
+  if (result.dividends.results.length > 0) {
+    sheets.push({
+      name: 'Cổ tức',
+      headers: ['Mã CK', 'Cổ tức', 'Thuế suất', 'Thuế', 'Thực nhận'],
+      columns: {
+        'Cổ tức': { format: 'vnd' },
+        'Thuế suất': { format: 'percent' },
+        'Thuế': { format: 'vnd' },
+        'Thực nhận': { format: 'vnd' },
+      },
+      rows: result.dividends.results.map((dividend) => ({
+        'Mã CK': dividend.symbol,
+        'Cổ tức': dividend.grossDividend,
+        'Thuế suất': dividend.taxRate,
+        'Thuế': dividend.tax,
+        'Thực nhận': dividend.netDividend,
+      })),
+      totals: { label: 'Tổng cộng', columns: ['Cổ tức', 'Thuế', 'Thực nhận'] },
+    });
+  }
+
+  if (result.bonds.results.length > 0) {
+    sheets.push({
+      name: 'Trái phiếu',
+      headers: ['Trái phiếu', 'Loại', 'Lãi nhận', 'Thuế suất', 'Thuế', 'Thực nhận'],
+      columns: {
+        'Lãi nhận': { format: 'vnd' },
+        'Thuế suất': { format: 'percent' },
+        'Thuế': { format: 'vnd' },
+        'Thực nhận': { format: 'vnd' },
+      },
+      rows: result.bonds.results.map((bond) => ({
+        'Trái phiếu': bond.bondName,
+        'Loại': bond.bondType === 'government' ? 'Chính phủ' : 'Doanh nghiệp',
+        'Lãi nhận': bond.interestReceived,
+        'Thuế suất': bond.taxRate,
+        'Thuế': bond.tax,
+        'Thực nhận': bond.netInterest,
+      })),
+      totals: { label: 'Tổng cộng', columns: ['Lãi nhận', 'Thuế', 'Thực nhận'] },
+    });
+  }
+
+  return sheets;
+}
@@ -0,0 +1,356 @@
+/**
+ * Settlement XML Exporter
+ * Xuất tờ khai quyết toán thuế TNCN mẫu 02/QTT-TNCN kèm phụ lục 02-1/BK-QTT-TNCN
+ * (bảng kê người phụ thuộc) theo cấu trúc XML mà HTKK/eTax nhập được
+ *
+ * Căn cứ pháp lý:
+ * - Thông tư 80/2021/TT-BTC (mẫu 02/QTT-TNCN, 02-1/BK-QTT-TNCN)
+ * - Số chỉ tiêu [22]-[44] theo mẫu 02/QTT-TNCN
+ *
+ * Dữ liệu được kiểm tra theo SETTLEMENT_XML_SCHEMA trước khi ghi XML:
+ * thiếu trường bắt buộc (VD: mã số thuế) trả về lỗi rõ ràng thay vì XML hỏng.
+ */
+
+import type { AnnualSettlementResult, DependentInfo } from './annualSettlementCalculator';
+import type { PersonalInfo } from './taxDocumentGenerator';
+import {
+  FieldRule,
+  TAX_CODE_MESSAGE,
+  TAX_CODE_PATTERN,
+  XmlValidationIssue,
+  block,
+  checkRules,
+  element,
+  formatXmlDate,
+} from './htkkXml';
+
+export type { XmlValidationIssue } from './htkkXml';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Người phụ thuộc kèm thông tin kê khai trên 02-1/BK-QTT-TNCN
+ */
+export interface SettlementDependent extends DependentInfo {
+  birthDate?: Date;
+  taxCode?: string; // MST người phụ thuộc
+  idNumber?: string; // CCCD/hộ chiếu (khi chưa có MST)
+  nationality?: string;
+  relationship?: string; // Quan hệ với người nộp thuế
+}
+
+export interface TaxAuthority {
+  code: string; // Mã cơ quan thuế nơi nộp
+  name: string;
+}
+
+export interface SettlementXmlInput {
+  result: AnnualSettlementResult;
+  personalInfo: PersonalInfo;
+  dependents?: SettlementDependent[];
+  taxAuthority?: TaxAuthority;
+  refundRequested?: boolean; // Đề nghị hoàn số thuế nộp thừa (mặc định có)
+  amendment?: number; // Lần khai bổ sung (0/undefined = tờ khai chính thức)
+  signedAt?: Date; // Ngày lập tờ khai (mặc định hôm nay)
+}
+
+export type SettlementXmlResult =
+  | { ok: true; xml: string; fileName: string }
+  | { ok: false; errors: XmlValidationIssue[] };
+
+/** Số liệu tờ khai theo chỉ tiêu, trước khi ghi XML */
+export interface SettlementDeclaration {
+  header: {
+    year: number;
+    declarationType: 'C' | 'B'; // C: chính thức, B: bổ sung
+    amendment: number;
+    taxAuthorityCode?: string;
+    taxAuthorityName?: string;
+    signedAt: Date;
+  };
+  nnt: {
+    mst?: string;
+    tenNNT?: string;
+    cccd?: string;
+    dchiNNT?: string;
+    dthoaiNNT?: string;
+    emailNNT?: string;
+  };
+  indicators: Record<SettlementIndicator, number>;
+  bkNPT: Array<{
+    hoTen?: string;
+    ngaySinh?: Date;
+    mstNPT?: string;
+    giayTo?: string;
+    quocTich?: string;
+    quanHe?: string;
+    tuThang: number;
+    denThang: number;
+  }>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Mã tờ khai/phiên bản XML theo HTKK - cập nhật khi cơ quan thuế đổi phiên bản
+const HTKK_FORM_CODE = '953';
+const HTKK_XML_VERSION = '2.5.3';
+const HTKK_NAMESPACE = 'http://kekhaithue.gdt.gov.vn/TKhaiThue';
+
+/**
+ * Chỉ tiêu trên mẫu 02/QTT-TNCN
+ */
+export const SETTLEMENT_INDICATORS = {
+  ct22: 'Tổng thu nhập chịu thuế phát sinh trong kỳ',
+  ct23: 'Thu nhập chịu thuế phát sinh tại Việt Nam',
+  ct24: 'Thu nhập chịu thuế được miễn theo hiệp định',
+  ct25: 'Thu nhập chịu thuế làm căn cứ tính giảm thuế',
+  ct26: 'Thu nhập chịu thuế phát sinh ngoài Việt Nam',
+  ct27: 'Số người phụ thuộc',
+  ct28: 'Các khoản giảm trừ',
+  ct29: 'Giảm trừ cho bản thân',
+  ct30: 'Giảm trừ cho người phụ thuộc',
+  ct31: 'Từ thiện, nhân đạo, khuyến học',
+  ct32: 'Bảo hiểm bắt buộc',
+  ct33: 'Quỹ hưu trí tự nguyện',
+  ct34: 'Tổng thu nhập tính thuế',
+  ct35: 'Tổng số thuế TNCN phát sinh trong kỳ',
+  ct36: 'Tổng số thuế đã khấu trừ, đã tạm nộp',
+  ct37: 'Thuế đã khấu trừ',
+  ct38: 'Thuế đã tạm nộp',
+  ct39: 'Thuế đã nộp ở nước ngoài được trừ',
+  ct40: 'Tổng số thuế được giảm',
+  ct41: 'Tổng số thuế còn phải nộp',
+  ct42: 'Tổng số thuế nộp thừa',
+  ct43: 'Số thuế đề nghị hoàn trả',
+  ct44: 'Số thuế bù trừ vào kỳ sau',
+} as const;
+
+export type SettlementIndicator = keyof typeof SETTLEMENT_INDICATORS;
+
+/**
+ * Ràng buộc dữ liệu tờ khai (tương ứng XSD của HTKK cho các trường người dùng nhập)
+ */
+export const SETTLEMENT_XML_SCHEMA: FieldRule[] = [
+  { path: 'nnt.mst', label: 'Mã số thuế người nộp thuế [02]', required: true, pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+  { path: 'nnt.tenNNT', label: 'Họ và tên người nộp thuế [01]', required: true, maxLength: 100 },
+  { path: 'nnt.cccd', label: 'CCCD/Hộ chiếu', pattern: /^[A-Z0-9]{8,12}$/i, patternMessage: 'phải gồm 8-12 chữ hoặc số' },
+  { path: 'nnt.dchiNNT', label: 'Địa chỉ [03]', required: true, maxLength: 200 },
+  { path: 'nnt.dthoaiNNT', label: 'Điện thoại', pattern: /^[0-9+ ]{8,15}$/, patternMessage: 'không hợp lệ' },
+  { path: 'nnt.emailNNT', label: 'Email', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, patternMessage: 'không hợp lệ' },
+  { path: 'header.taxAuthorityCode', label: 'Mã cơ quan thuế nơi nộp', pattern: /^\d{3,5}$/, patternMessage: 'phải gồm 3-5 chữ số' },
+];
+
+const DEPENDENT_SCHEMA: FieldRule[] = [
+  { path: 'hoTen', label: 'Họ tên người phụ thuộc [07]', required: true, maxLength: 100 },
+  { path: 'mstNPT', label: 'MST người phụ thuộc [09]', pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+];
+
+// =============================================================================
+// BUILD
+// =============================================================================
+
+/**
+ * Quy đổi kết quả quyết toán sang số liệu theo chỉ tiêu 02/QTT-TNCN
+ */
+export function buildSettlementDeclaration(input: SettlementXmlInput): SettlementDeclaration {
+  const { result, personalInfo, dependents = [], taxAuthority, refundRequested = true, amendment = 0 } = input;
+
+  const ct23 = Math.round(result.totalTaxableIncome);
+  const ct29 = Math.round(result.totalPersonalDeduction);
+  const ct30 = Math.round(result.totalDependentDeduction);
+  const ct31 = Math.round(result.totalCharitableDeduction);
+  const ct32 = Math.round(result.totalInsuranceDeduction);
+  const ct33 = Math.round(result.totalPensionDeduction);
+  const ct28 = ct29 + ct30 + ct31 + ct32 + ct33;
+  const ct35 = Math.round(result.annualTaxDue);
+  const ct37 = Math.round(result.totalTaxPaid);
+  const ct36 = ct37;
+  const ct42 = Math.max(0, ct36 - ct35);
+
+  return {
+    header: {
+      year: result.year,
+      declarationType: amendment > 0 ? 'B' : 'C',
+      amendment,
+      taxAuthorityCode: taxAuthority?.code,
+      taxAuthorityName: taxAuthority?.name,
+      signedAt: input.signedAt ?? new Date(),
+    },
+    nnt: {
+      mst: personalInfo.taxCode?.trim() || undefined,
+      tenNNT: personalInfo.fullName?.trim() || undefined,
+      cccd: personalInfo.idNumber?.trim() || undefined,
+      dchiNNT: personalInfo.address?.trim() || undefined,
+      dthoaiNNT: personalInfo.phone?.trim() || undefined,
+      emailNNT: personalInfo.email?.trim() || undefined,
+    },
+    indicators: {
+      ct22: ct23,
+      ct23,
+      ct24: 0,
+      ct25: 0,
+      ct26: 0,
+      ct27: dependents.length,
+      ct28,
+      ct29,
+      ct30,
+      ct31,
+      ct32,
+      ct33,
+      ct34: Math.max(0, ct23 - ct28),
+      ct35,
+      ct36,
+      ct37,
+      ct38: 0,
+      ct39: 0,
+      ct40: 0,
+      ct41: Math.max(0, ct35 - ct36),
+      ct42,
+      ct43: refundRequested ? ct42 : 0,
+      ct44: refundRequested ? 0 : ct42,
+    },
+    bkNPT: dependents.map((dep) => ({
+      hoTen: dep.name.trim() || undefined,
+      ngaySinh: dep.birthDate,
+      mstNPT: dep.taxCode?.trim() || undefined,
+      giayTo: dep.idNumber?.trim() || undefined,
+      quocTich: dep.nationality || 'Việt Nam',
+      quanHe: dep.relationship,
+      tuThang: dep.fromMonth,
+      denThang: dep.toMonth,
+    })),
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Kiểm tra tờ khai theo SETTLEMENT_XML_SCHEMA và các ràng buộc số liệu
+ */
+export function validateSettlementDeclaration(declaration: SettlementDeclaration): XmlValidationIssue[] {
+  const issues: XmlValidationIssue[] = [];
+  checkRules(declaration, SETTLEMENT_XML_SCHEMA, '', issues);
+
+  declaration.bkNPT.forEach((dep, index) => {
+    const prefix = `bkNPT[${index}]`;
+    checkRules(dep, DEPENDENT_SCHEMA, prefix, issues);
+    const who = dep.hoTen ?? `#${index + 1}`;
+    if (!dep.mstNPT && !dep.giayTo) {
+      issues.push({ path: `${prefix}.mstNPT`, message: `Người phụ thuộc ${who}: cần MST hoặc số CCCD/giấy khai sinh` });
+    }
+    if (dep.tuThang < 1 || dep.denThang > 12 || dep.tuThang > dep.denThang) {
+      issues.push({ path: `${prefix}.tuThang`, message: `Người phụ thuộc ${who}: thời gian giảm trừ không hợp lệ` });
+    }
+  });
+
+  const { indicators } = declaration;
+  for (const [key, value] of Object.entries(indicators)) {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      issues.push({ path: `indicators.${key}`, message: `Chỉ tiêu [${key.slice(2)}] phải là số nguyên không âm` });
+    }
+  }
+
+  return issues;
+}
+
+// =============================================================================
+// XML
+// =============================================================================
+
+/**
+ * Ghi tờ khai (đã kiểm tra) thành XML HTKK
+ */
+export function serializeSettlementXml(declaration: SettlementDeclaration): string {
+  const { header, nnt, indicators, bkNPT } = declaration;
+  const i = (level: number) => '  '.repeat(level);
+
+  const tkhaiThue = block('TKhaiThue', [
+    element('maTKhai', HTKK_FORM_CODE, i(5)),
+    element('tenTKhai', 'TỜ KHAI QUYẾT TOÁN THUẾ THU NHẬP CÁ NHÂN (Mẫu số 02/QTT-TNCN)', i(5)),
+    element('moTaBMau', '(Ban hành kèm theo Thông tư số 80/2021/TT-BTC)', i(5)),
+    element('pbanTKhaiXML', HTKK_XML_VERSION, i(5)),
+    element('loaiTKhai', header.declarationType, i(5)),
+    element('soLan', header.amendment, i(5)),
+    block('KyKKhaiThue', [
+      element('kieuKy', 'Y', i(6)),
+      element('kyKKhai', header.year, i(6)),
+      element('kyKKhaiTuNgay', `01/01/${header.year}`, i(6)),
+      element('kyKKhaiDenNgay', `31/12/${header.year}`, i(6)),
+    ], i(5)),
+    element('maCQTNoiNop', header.taxAuthorityCode, i(5)),
+    element('tenCQTNoiNop', header.taxAuthorityName, i(5)),
+    element('ngayLapTKhai', formatXmlDate(header.signedAt), i(5)),
+    element('nguoiKy', nnt.tenNNT, i(5)),
+    element('ngayKy', formatXmlDate(header.signedAt), i(5)),
+  ], i(4));
+
+  const nntBlock = block('NNT', [
+    element('mst', nnt.mst?.replace('-', ''), i(5)),
+    element('tenNNT', nnt.tenNNT, i(5)),
+    element('soCCCD', nnt.cccd, i(5)),
+    element('dchiNNT', nnt.dchiNNT, i(5)),
+    element('dthoaiNNT', nnt.dthoaiNNT, i(5)),
+    element('emailNNT', nnt.emailNNT, i(5)),
+  ], i(4));
+
+  const mainIndicators = block(
+    'CTieuTKhaiChinh',
+    (Object.keys(SETTLEMENT_INDICATORS) as SettlementIndicator[]).map((key) =>
+      element(key, indicators[key], i(3))
+    ),
+    i(2)
+  );
+
+  const appendix = block('PLuc', [
+    block('PL_02_1_BK_QTT_TNCN', bkNPT.map((dep, index) =>
+      block('BKeNPT', [
+        element('stt', index + 1, i(5)),
+        element('ct07', dep.hoTen, i(5)),
+        element('ct08', dep.ngaySinh ? formatXmlDate(dep.ngaySinh) : undefined, i(5)),
+        element('ct09', dep.mstNPT?.replace('-', ''), i(5)),
+        element('ct10', dep.quocTich, i(5)),
+        element('ct11', dep.giayTo, i(5)),
+        element('ct12', dep.quanHe, i(5)),
+        element('ct13', `${String(dep.tuThang).padStart(2, '0')}/${header.year}`, i(5)),
+        element('ct14', `${String(dep.denThang).padStart(2, '0')}/${header.year}`, i(5)),
+      ], i(4))
+    ), i(3)),
+  ], i(2));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<HSoThueDTu xmlns="${HTKK_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+    block('HSoKhaiThue', [
+      block('TTinChung', [
+        block('TTinTKhaiThue', [tkhaiThue, nntBlock], i(3)),
+      ], i(2)),
+      mainIndicators,
+      ...(bkNPT.length > 0 ? [appendix] : []),
+    ], i(1)),
+    '</HSoThueDTu>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Tạo XML 02/QTT-TNCN: dựng số liệu → kiểm tra schema → ghi XML.
+ * Trả về danh sách lỗi (không có XML) nếu thiếu/sai trường bắt buộc.
+ */
+export function exportSettlementXml(input: SettlementXmlInput): SettlementXmlResult {
+  const declaration = buildSettlementDeclaration(input);
+  const errors = validateSettlementDeclaration(declaration);
+  if (errors.length > 0) return { ok: false, errors };
+
+  const mst = declaration.nnt.mst?.replace('-', '') ?? '';
+  return {
+    ok: true,
+    xml: serializeSettlementXml(declaration),
+    fileName: `${mst}_02QTT-TNCN_${declaration.header.year}.xml`,
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Binary layout for share links (codec v2)
+ * Field names are replaced by IDs from snapshotFields.generated.json, which is
+ * generated from the CalculatorSnapshot interfaces, and numbers are written as
+ * varints so large VND amounts take a few bytes instead of a dozen characters
+ *
+ * Value layout: one tag byte, then the payload for that tag
+ * Object keys: varint (field ID + 1), or 0 followed by the name as a string
+ * for keys missing from the dictionary (e.g. Record keys)
+ */
+import generatedFields from './snapshotFields.generated.json';
+
+const FIELDS: string[] = generatedFields.fields;
+const FIELD_IDS = new Map(FIELDS.map((name, index) => [name, index]));
+
+const TAG_NULL = 0;
+const TAG_FALSE = 1;
+const TAG_TRUE = 2;
+const TAG_UINT = 3;
+const TAG_NEGATIVE_INT = 4;
+// Non-negative multiple of 1000, stored divided by 1000 (most VND amounts)
+const TAG_THOUSANDS = 5;
+// Decimal with up to 15 significant digits: zigzag varint mantissa, then digits after the point
+const TAG_DECIMAL = 6;
+const TAG_FLOAT64 = 7;
+const TAG_STRING = 8;
+const TAG_ARRAY = 9;
+const TAG_OBJECT = 10;
+
+const MAX_DECIMAL_PLACES = 15;
+
+// Output buffer; plain array until the end avoids resizing typed arrays
+type ByteSink = number[];
+
+interface ByteSource {
+  data: Uint8Array;
+  position: number;
+}
+
+function writeVarint(sink: ByteSink, value: number): void {
+  // Works up to Number.MAX_SAFE_INTEGER; bit operators would stop at 2^31
+  let remaining = value;
+  while (remaining >= 0x80) {
+    sink.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  sink.push(remaining);
+}
+
+function writeString(sink: ByteSink, value: string): void {
+  const encoded = new TextEncoder().encode(value);
+  writeVarint(sink, encoded.length);
+  for (let i = 0; i < encoded.length; i++) sink.push(encoded[i]);
+}
+
+function readBytes(source: ByteSource, length: number): Uint8Array {
+  if (source.position + length > source.data.length) {
+    throw new Error('Unexpected end of binary snapshot');
+  }
+  const slice = source.data.subarray(source.position, source.position + length);
+  source.position += length;
+  return slice;
+}
+
+function readByte(source: ByteSource): number {
+  return readBytes(source, 1)[0];
+}
+
+function readVarint(source: ByteSource): number {
+  let result = 0;
+  let multiplier = 1;
+  for (;;) {
+    const current = readByte(source);
+    result += (current & 0x7f) * multiplier;
+    if (current < 0x80) return result;
+    multiplier *= 0x80;
+    if (multiplier > Number.MAX_SAFE_INTEGER) {
+      throw new Error('Varint too long in binary snapshot');
+    }
+  }
+}
+
+function readString(source: ByteSource): string {
+  return new TextDecoder().decode(readBytes(source, readVarint(source)));
+}
+
+/**
+ * Shortest exact decimal form of a number, or null when it needs float64
+ */
+function toDecimal(value: number): { mantissa: number; places: number } | null {
+  for (let places = 1; places <= MAX_DECIMAL_PLACES; places++) {
+    const mantissa = Math.round(value * 10 ** places);
+    if (!Number.isSafeInteger(mantissa)) return null;
+    if (mantissa / 10 ** places === value) return { mantissa, places };
+  }
+  return null;
+}
+
+function zigzag(value: number): number {
+  return value < 0 ? -value * 2 - 1 : value * 2;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+}
+
+function writeNumber(sink: ByteSink, value: number): void {
+  if (Number.isSafeInteger(value)) {
+    if (value < 0) {
+      sink.push(TAG_NEGATIVE_INT);
+      writeVarint(sink, -value);
+    } else if (value !== 0 && value % 1000 === 0) {
+      sink.push(TAG_THOUSANDS);
+      writeVarint(sink, value / 1000);
+    } else {
+      sink.push(TAG_UINT);
+      writeVarint(sink, value);
+    }
+    return;
+  }
+
+  const decimal = Number.isFinite(value) ? toDecimal(value) : null;
+  if (decimal) {
+    sink.push(TAG_DECIMAL);
+    writeVarint(sink, zigzag(decimal.mantissa));
+    sink.push(decimal.places);
+    return;
+  }
+
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value, true);
+  sink.push(TAG_FLOAT64);
+  sink.push(...Array.from(new Uint8Array(view.buffer)));
+}
+
+function writeValue(sink: ByteSink, value: unknown): void {
+  if (value === null || value === undefined) {
+    sink.push(TAG_NULL);
+  } else if (typeof value === 'boolean') {
+    sink.push(value ? TAG_TRUE : TAG_FALSE);
+  } else if (typeof value === 'number') {
+    writeNumber(sink, value);
+  } else if (typeof value === 'string') {
+    sink.push(TAG_STRING);
+    writeString(sink, value);
+  } else if (Array.isArray(value)) {
+    sink.push(TAG_ARRAY);
+    writeVarint(sink, value.length);
+    for (const item of value) writeValue(sink, item);
+  } else if (typeof value === 'object') {
+    // Same as JSON: undefined fields are dropped
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    sink.push(TAG_OBJECT);
+    writeVarint(sink, entries.length);
+    for (const [key, item] of entries) {
+      const id = FIELD_IDS.get(key);
+      if (id === undefined) {
+        writeVarint(sink, 0);
+        writeString(sink, key);
+      } else {
+        writeVarint(sink, id + 1);
+      }
+      writeValue(sink, item);
+    }
+  } else {
+    throw new Error(`Cannot encode ${typeof value} in a binary snapshot`);
+  }
+}
+
+function readValue(source: ByteSource): unknown {
+  const tag = readByte(source);
+  switch (tag) {
+    case TAG_NULL:
+      return null;
+    case TAG_FALSE:
+      return false;
+    case TAG_TRUE:
+      return true;
+    case TAG_UINT:
+      return readVarint(source);
+    case TAG_NEGATIVE_INT:
+      return -readVarint(source);
+    case TAG_THOUSANDS:
+      return readVarint(source) * 1000;
+    case TAG_DECIMAL: {
+      const mantissa = unzigzag(readVarint(source));
+      return mantissa / 10 ** readByte(source);
+    }
+    case TAG_FLOAT64: {
+      const bytes = readBytes(source, 8);
+      return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0, true);
+    }
+    case TAG_STRING:
+      return readString(source);
+    case TAG_ARRAY: {
+      const length = readVarint(source);
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) items.push(readValue(source));
+      return items;
+    }
+    case TAG_OBJECT: {
+      const count = readVarint(source);
+      const result: Record<string, unknown> = {};
+      for (let i = 0; i < count; i++) {
+        const key = readVarint(source);
+        const name = key === 0 ? readString(source) : FIELDS[key - 1];
+        if (name === undefined) {
+          throw new Error(`Unknown field ID ${key - 1} in binary snapshot`);
+        }
+        // Assigning __proto__ would change the prototype instead of adding a field
+        if (name === '__proto__') {
+          throw new Error('Invalid field name in binary snapshot');
+        }
+        result[name] = readValue(source);
+      }
+      return result;
+    }
+    default:
+      throw new Error(`Unknown tag ${tag} in binary snapshot`);
+  }
+}
+
+/**
+ * Serialize a JSON-like value (the output of removeDefaults) to bytes
+ */
+export function encodeBinaryValue(value: unknown): Uint8Array {
+  const sink: ByteSink = [];
+  writeValue(sink, value);
+  return Uint8Array.from(sink);
+}
+
+/**
+ * Parse bytes written by encodeBinaryValue
+ * Throws on truncated or corrupted data
+ */
+export function decodeBinaryValue(data: Uint8Array): unknown {
+  const source: ByteSource = { data, position: 0 };
+  const value = readValue(source);
+  if (source.position !== data.length) {
+    throw new Error('Trailing bytes in binary snapshot');
+  }
+  return value;
+}
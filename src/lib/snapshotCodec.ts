@@ -1,14 +1,33 @@
 /**
  * Snapshot encoding/decoding for URL sharing
- * Uses lz-string for compression and compact key mapping to minimize URL length
+ * v2 links use the binary layout from snapshotBinaryCodec; v1 links (lz-string
+ * compressed JSON with compact keys) are still decoded
  */
 import * as LZString from 'lz-string';
-import { CalculatorSnapshot, isValidSnapshot, mergeSnapshotWithDefaults, DEFAULT_YEARLY_COMPARISON_STATE } from './snapshotTypes';
-import { SharedTaxState, RegionType } from './taxCalculator';
+import {
+  CalculatorSnapshot,
+  TabStates,
+  isValidSnapshot,
+  mergeSnapshotWithDefaults,
+  DEFAULT_YEARLY_COMPARISON_STATE,
+  DEFAULT_HOUSEHOLD_BUSINESS_STATE,
+  DEFAULT_REAL_ESTATE_TRANSFER_STATE,
+  DEFAULT_SALARY_SLIP_STATE,
+  DEFAULT_TAB_STATES,
+  DEFAULT_TAXPAYER_PROFILE,
+  CURRENT_SNAPSHOT_VERSION,
+} from './snapshotTypes';
+import { migrateSnapshot, SnapshotMigrationReport } from './snapshotMigrations';
+import { encryptText, decryptText, toBase64Url, fromBase64Url } from './snapshotCrypto';
+import { encodeBinaryValue, decodeBinaryValue } from './snapshotBinaryCodec';
+import { validateSnapshot, validateSharedState } from './snapshotValidation';
+import { applyTaxpayerProfile, stripProfileValues } from './taxpayerProfile';
+import { SharedTaxState } from './taxCalculator';
 
 /**
- * Compact key mapping to minimize URL size
- * Short keys are used in the encoded data, then mapped back to full keys on decode
+ * Compact key mapping of v1 links, kept to decode them
+ * v2 links take field IDs from snapshotFields.generated.json instead, so new
+ * fields and tabs need no entry here
  */
 const KEY_MAP: Record<string, string> = {
   // Top level
@@ -45,7 +64,8 @@ const KEY_MAP: Record<string, string> = {
   allowances: 'aw',
   meal: 'ml',
   phone: 'ph',
-  transport: 'tp',
+  // v1 used 'tp' here too, which collided with OvertimeEntry.type (see snapshotMigrations)
+  transport: 'tpo',
   hazardous: 'hz',
   clothing: 'cl',
   housing: 'hs',
@@ -60,6 +80,18 @@ const KEY_MAP: Record<string, string> = {
   bonus: 'bn',
   esop: 'es',
   pension: 'pn',
+  securities: 'sec',
+  rentalIncome: 'ri',
+  householdBusiness: 'hhb',
+  realEstateTransfer: 'ret',
+  inheritanceGift: 'ig',
+  exemptionChecker: 'exc',
+  taxDocument: 'tdc',
+  specialIncome: 'si',
+  taxDeadline: 'tdl',
+  incomeSummary: 'isu',
+  regionCompare: 'rc',
+  salarySlip: 'ss',
 
   // BonusTabState
   thirteenthMonthSalary: 'tm',
@@ -117,6 +149,70 @@ const KEY_MAP: Record<string, string> = {
   shift: 'sh',
   hours: 'hr',
 
+  // SecuritiesTabState
+  taxMethod: 'txm',
+  taxYear: 'ty',
+  transactions: 'txs',
+  dividends: 'dv',
+  bonds: 'bd',
+
+  // SecuritiesTransaction, DividendEntry
+  symbol: 'sy',
+  quantity: 'qt',
+  buyPrice: 'bp',
+  sellPrice: 'slp',
+  buyDate: 'bdt',
+  sellDate: 'sdt',
+  buyFee: 'bf',
+  sellFee: 'sf',
+  dividendPerShare: 'dps',
+  shares: 'shs',
+  taxWithheld: 'tw',
+
+  // RentalIncomeTabState, RentalProperty
+  properties: 'pr',
+  useActualExpenses: 'uae',
+  monthlyRent: 'mr',
+  occupiedMonths: 'om',
+
+  // HouseholdBusinessTabState, HouseholdBusiness
+  businesses: 'bz',
+  monthlyRevenue: 'mrv',
+  monthlyExpenses: 'mex',
+
+  // RealEstateTransferTabState, RealEstateTransfer
+  transfers: 'tfs',
+  transferValue: 'tv',
+  purchaseValue: 'pv',
+  quickValue: 'qv',
+
+  // InheritanceGiftTabState, AssetInfo
+  assets: 'as',
+  value: 'vl',
+
+  // TaxDocumentTabState
+  documentType: 'dt',
+  personalInfo: 'pi',
+
+  // SpecialIncomeTabState (amount is shared with other entries)
+  incomeType: 'it',
+  amount: 'am',
+
+  // TaxDeadlineTabState
+  customDeadlines: 'cdl',
+  completedIds: 'cid',
+  dueDate: 'dd',
+
+  // RegionCompareTabState
+  useCustomGross: 'ucg',
+  customGross: 'cg',
+
+  // SalarySlipTabState
+  company: 'cp',
+  employee: 'em',
+  earnings: 'ea',
+  deductions: 'de',
+
   // Meta
   createdAt: 'c',
   label: 'l',
@@ -132,22 +228,6 @@ const REVERSE_KEY_MAP: Record<string, string> = Object.entries(KEY_MAP).reduce(
   {} as Record<string, string>
 );
 
-/**
- * Recursively replace keys with compact versions
- */
-function compactKeys(obj: unknown): unknown {
-  if (obj === null || obj === undefined) return obj;
-  if (typeof obj !== 'object') return obj;
-  if (Array.isArray(obj)) return obj.map(compactKeys);
-
-  const result: Record<string, unknown> = {};
-  for (const [key, value] of Object.entries(obj)) {
-    const compactKey = KEY_MAP[key] || key;
-    result[compactKey] = compactKeys(value);
-  }
-  return result;
-}
-
 /**
  * Recursively restore keys from compact versions
  */
@@ -164,6 +244,39 @@ function expandKeys(obj: unknown): unknown {
   return result;
 }
 
+/**
+ * Tabs with their own check in removeDefaults; every other tab is compared
+ * against DEFAULT_TAB_STATES as a whole
+ */
+const EXPLICITLY_CHECKED_TABS: (keyof TabStates)[] = [
+  'employerCost',
+  'freelancer',
+  'salaryComparison',
+  'yearlyComparison',
+  'overtime',
+  'bonus',
+  'esop',
+  'pension',
+  'householdBusiness',
+  'realEstateTransfer',
+  'salarySlip',
+];
+
+/**
+ * Structural equality for JSON-like values, ignoring key order and undefined fields
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  return [...Object.keys(aRecord), ...Object.keys(bRecord)].every((key) =>
+    isSameValue(aRecord[key], bRecord[key])
+  );
+}
+
 /**
  * Remove default values to reduce size
  * Only keep values that differ from defaults
@@ -209,6 +322,10 @@ function removeDefaults(snapshot: CalculatorSnapshot): Record<string, unknown> {
     result.sharedState = shared;
   }
 
+  if (!isSameValue(snapshot.profile, DEFAULT_TAXPAYER_PROFILE)) {
+    result.profile = snapshot.profile;
+  }
+
   // Note: activeTab is NOT included in encoding
   // It's stored separately in the URL hash for cleaner URLs
 
@@ -295,6 +412,52 @@ function removeDefaults(snapshot: CalculatorSnapshot): Record<string, unknown> {
     }
   }
 
+  // Household business starts with one blank business, so only count filled-in rows
+  if (snapshot.tabs.householdBusiness) {
+    const hhb = snapshot.tabs.householdBusiness;
+    if (
+      hhb.businesses.some(b => b.monthlyRevenue > 0) ||
+      hhb.year !== DEFAULT_HOUSEHOLD_BUSINESS_STATE.year ||
+      hhb.taxMethod !== DEFAULT_HOUSEHOLD_BUSINESS_STATE.taxMethod
+    ) {
+      tabs.householdBusiness = hhb;
+    }
+  }
+
+  // Real-estate transfer starts with one blank transfer as well
+  if (snapshot.tabs.realEstateTransfer) {
+    const ret = snapshot.tabs.realEstateTransfer;
+    if (
+      ret.transfers.some(t => t.transferValue > 0) ||
+      ret.quickValue !== DEFAULT_REAL_ESTATE_TRANSFER_STATE.quickValue ||
+      ret.quickIsExempt !== DEFAULT_REAL_ESTATE_TRANSFER_STATE.quickIsExempt
+    ) {
+      tabs.realEstateTransfer = ret;
+    }
+  }
+
+  // Salary slip: basic salary, insurance and PIT are filled in from the calculator
+  if (snapshot.tabs.salarySlip) {
+    const ss = snapshot.tabs.salarySlip;
+    const withoutPrefill = {
+      ...ss,
+      earnings: { ...ss.earnings, basicSalary: 0 },
+      deductions: { ...DEFAULT_SALARY_SLIP_STATE.deductions, otherDeductions: ss.deductions.otherDeductions },
+    };
+    if (!isSameValue(withoutPrefill, DEFAULT_SALARY_SLIP_STATE)) {
+      tabs.salarySlip = ss;
+    }
+  }
+
+  // Every other tab is kept whenever it differs from its defaults
+  for (const key of Object.keys(DEFAULT_TAB_STATES) as (keyof TabStates)[]) {
+    if (EXPLICITLY_CHECKED_TABS.includes(key)) continue;
+    const state = snapshot.tabs[key];
+    if (state !== undefined && !isSameValue(state, DEFAULT_TAB_STATES[key])) {
+      tabs[key] = state;
+    }
+  }
+
   if (Object.keys(tabs).length > 0) {
     result.tabs = tabs;
   }
@@ -312,25 +475,45 @@ function removeDefaults(snapshot: CalculatorSnapshot): Record<string, unknown> {
 }
 
 /**
- * Encode snapshot to URL-safe compressed string
+ * Prefixes of v2 encoded strings: binary as base64url, or binary compressed with lz-string
+ * '.' never occurs in v1 output, so these cannot be mistaken for v1 links
+ */
+const V2_PREFIX = '2.';
+const V2_COMPRESSED_PREFIX = '2z.';
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+}
+
+function latin1ToBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode snapshot to URL-safe compressed string (codec v2)
  * Steps:
- * 1. Remove default values
- * 2. Compact keys
- * 3. JSON stringify
- * 4. LZ compress
- * 5. Base64 URL-safe encode
+ * 1. Drop tab values that follow the taxpayer profile (rebuilt on decode)
+ * 2. Remove default values
+ * 3. Write the binary layout (field IDs, varint numbers)
+ * 4. Base64url encode, or LZ compress when that is shorter (long transaction lists)
  */
 export function encodeSnapshot(snapshot: CalculatorSnapshot): string {
   try {
-    // Remove defaults and compact keys
-    const minimal = removeDefaults(snapshot);
-    const compacted = compactKeys(minimal);
+    const minimal = removeDefaults(stripProfileValues(snapshot));
+    const bytes = encodeBinaryValue(minimal);
 
-    // Stringify and compress
-    const json = JSON.stringify(compacted);
-    const compressed = LZString.compressToEncodedURIComponent(json);
+    const plain = V2_PREFIX + toBase64Url(bytes);
+    const compressed = V2_COMPRESSED_PREFIX + LZString.compressToEncodedURIComponent(bytesToLatin1(bytes));
 
-    return compressed;
+    return compressed.length < plain.length ? compressed : plain;
   } catch (error) {
     console.error('Failed to encode snapshot:', error);
     return '';
@@ -338,30 +521,54 @@ export function encodeSnapshot(snapshot: CalculatorSnapshot): string {
 }
 
 /**
- * Decode URL string back to snapshot
+ * Turn an encoded string of either codec version back into the plain object
+ * written by removeDefaults; returns null when it cannot be read
+ */
+function decodePayload(encoded: string): unknown {
+  if (encoded.startsWith(V2_COMPRESSED_PREFIX)) {
+    const decompressed = LZString.decompressFromEncodedURIComponent(encoded.slice(V2_COMPRESSED_PREFIX.length));
+    return decompressed ? decodeBinaryValue(latin1ToBytes(decompressed)) : null;
+  }
+  if (encoded.startsWith(V2_PREFIX)) {
+    return decodeBinaryValue(fromBase64Url(encoded.slice(V2_PREFIX.length)));
+  }
+
+  // v1: LZ compressed JSON with compact keys
+  const decompressed = LZString.decompressFromEncodedURIComponent(encoded);
+  return decompressed ? expandKeys(JSON.parse(decompressed)) : null;
+}
+
+/**
+ * Decode URL string back to snapshot, keeping the migration report
  * Steps:
- * 1. LZ decompress
- * 2. JSON parse
- * 3. Expand keys
- * 4. Merge with defaults
+ * 1. Read the v2 binary layout, or decompress and expand keys of a v1 link
+ * 2. Upgrade through the migration chain
+ * 3. Check every field against the schema, resetting invalid ones
+ * 4. Merge with defaults and fill tab values from the taxpayer profile
  * 5. Validate
  */
-export function decodeSnapshot(encoded: string): CalculatorSnapshot | null {
+export function decodeSnapshotWithReport(encoded: string): {
+  snapshot: CalculatorSnapshot;
+  migration: SnapshotMigrationReport;
+} | null {
   try {
-    // Decompress and parse
-    const decompressed = LZString.decompressFromEncodedURIComponent(encoded);
-    if (!decompressed) {
+    const expanded = decodePayload(encoded);
+    if (!expanded) {
       console.error('Failed to decompress snapshot');
       return null;
     }
 
-    const parsed = JSON.parse(decompressed);
+    // Upgrade old versions
+    const migrated = migrateSnapshot(expanded);
+    if (!migrated) {
+      return null;
+    }
 
-    // Expand keys
-    const expanded = expandKeys(parsed) as Partial<CalculatorSnapshot>;
+    // Replace tampered or corrupted values with defaults
+    const validated = validateSnapshot(migrated.snapshot);
 
-    // Merge with defaults
-    const snapshot = mergeSnapshotWithDefaults(expanded);
+    // Merge with defaults; tabs following the profile take its values
+    const snapshot = applyTaxpayerProfile(mergeSnapshotWithDefaults(validated.snapshot));
 
     // Validate
     if (!isValidSnapshot(snapshot)) {
@@ -369,13 +576,26 @@ export function decodeSnapshot(encoded: string): CalculatorSnapshot | null {
       return null;
     }
 
-    return snapshot;
+    return {
+      snapshot,
+      migration: {
+        ...migrated.report,
+        changes: [...migrated.report.changes, ...validated.changes],
+      },
+    };
   } catch (error) {
     console.error('Failed to decode snapshot:', error);
     return null;
   }
 }
 
+/**
+ * Decode URL string back to snapshot
+ */
+export function decodeSnapshot(encoded: string): CalculatorSnapshot | null {
+  return decodeSnapshotWithReport(encoded)?.snapshot ?? null;
+}
+
 /**
  * Generate full share URL with encoded snapshot
  * Format: https://example.com/#<tab>~<encoded> or https://example.com/#<tab>
@@ -398,6 +618,74 @@ export function generateShareURL(snapshot: CalculatorSnapshot): string {
   return `${baseURL}#${tab}~${encoded}`;
 }
 
+/**
+ * Hash prefix for passphrase-protected links: #e=<payload>
+ * The payload is the encrypted form of the regular hash content (<tab>~<encoded>)
+ */
+export const ENCRYPTED_HASH_PREFIX = 'e=';
+
+/**
+ * Generate a share URL whose state can only be read with the passphrase
+ * Format: https://example.com/#e=<payload>
+ */
+export async function generateEncryptedShareURL(
+  snapshot: CalculatorSnapshot,
+  passphrase: string
+): Promise<string> {
+  const encoded = encodeSnapshot(snapshot);
+  const tab = snapshot.activeTab || 'calculator';
+  const payload = await encryptText(encoded ? `${tab}~${encoded}` : tab, passphrase);
+
+  const baseURL = typeof window !== 'undefined'
+    ? window.location.origin + window.location.pathname
+    : '';
+
+  return `${baseURL}#${ENCRYPTED_HASH_PREFIX}${payload}`;
+}
+
+/**
+ * Check if hash content (without '#') is a passphrase-protected link
+ */
+export function isEncryptedHashContent(hashContent: string): boolean {
+  return hashContent.startsWith(ENCRYPTED_HASH_PREFIX);
+}
+
+/**
+ * Decrypt protected hash content back to regular hash content (<tab>~<encoded>)
+ * Throws when the passphrase is wrong
+ */
+export async function decryptHashContent(hashContent: string, passphrase: string): Promise<string> {
+  return decryptText(hashContent.slice(ENCRYPTED_HASH_PREFIX.length), passphrase);
+}
+
+/**
+ * Extract hash content (without '#') from a pasted share link
+ * Accepts a full URL or just the fragment
+ */
+export function getShareHashContent(url: string): string {
+  const trimmed = url.trim();
+  const hashIndex = trimmed.indexOf('#');
+  return hashIndex >= 0 ? trimmed.slice(hashIndex + 1) : trimmed;
+}
+
+/**
+ * Decode regular (unencrypted) hash content: <tab>~<encoded> or s=<encoded>
+ */
+export function decodeShareHashContent(hashContent: string): ReturnType<typeof decodeSnapshotWithReport> {
+  if (hashContent.startsWith('s=')) {
+    return decodeSnapshotWithReport(hashContent.slice(2));
+  }
+
+  const tildeIndex = hashContent.indexOf('~');
+  if (tildeIndex < 0) return null;
+
+  const decoded = decodeSnapshotWithReport(hashContent.slice(tildeIndex + 1));
+  if (!decoded) return null;
+
+  const tab = tildeIndex > 0 ? hashContent.slice(0, tildeIndex) : 'calculator';
+  return { ...decoded, snapshot: { ...decoded.snapshot, activeTab: tab } };
+}
+
 /**
  * Parse snapshot from URL hash
  * Looks for #s=<encoded> in the URL
@@ -455,10 +743,22 @@ export async function copyToClipboard(text: string): Promise<boolean> {
 }
 
 /**
- * Decode legacy URL params to SharedTaxState (for backward compatibility)
+ * Read a numeric legacy URL param; garbage becomes NaN so validation reports it
+ */
+function readNumberParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  return value === null || value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Decode legacy URL params to SharedTaxState, keeping a report of values
+ * that were invalid and replaced with defaults
  * Supports old format: ?gross=30000000&dependents=2&region=1
  */
-export function decodeLegacyURLParams(searchParams: string): Partial<SharedTaxState> | null {
+export function decodeLegacyURLParamsWithReport(searchParams: string): {
+  state: Partial<SharedTaxState>;
+  migration: SnapshotMigrationReport;
+} | null {
   const params = new URLSearchParams(searchParams);
 
   // Check if there are any relevant params
@@ -466,48 +766,53 @@ export function decodeLegacyURLParams(searchParams: string): Partial<SharedTaxSt
     return null;
   }
 
-  const state: Partial<SharedTaxState> = {};
-
-  const gross = parseInt(params.get('gross') || '', 10);
-  if (!isNaN(gross) && gross > 0) {
-    state.grossIncome = gross;
-  }
-
-  const declared = parseInt(params.get('declared') || '', 10);
-  if (!isNaN(declared) && declared > 0) {
-    state.declaredSalary = declared;
-  }
-
-  const dependents = parseInt(params.get('dependents') || '', 10);
-  if (!isNaN(dependents) && dependents >= 0) {
-    state.dependents = dependents;
-  }
-
-  const deductions = parseInt(params.get('deductions') || '', 10);
-  if (!isNaN(deductions) && deductions >= 0) {
-    state.otherDeductions = deductions;
-  }
-
-  const region = parseInt(params.get('region') || '', 10) as RegionType;
-  if ([1, 2, 3, 4].includes(region)) {
-    state.region = region;
-  }
+  const raw: Record<string, unknown> = {
+    grossIncome: readNumberParam(params, 'gross'),
+    dependents: readNumberParam(params, 'dependents'),
+    otherDeductions: readNumberParam(params, 'deductions'),
+    region: readNumberParam(params, 'region'),
+    pensionContribution: readNumberParam(params, 'pension'),
+  };
 
-  const pension = parseInt(params.get('pension') || '', 10);
-  if (!isNaN(pension) && pension >= 0) {
-    state.pensionContribution = pension;
+  // 0 meant "same as gross" in old links
+  const declared = readNumberParam(params, 'declared');
+  if (declared !== 0) {
+    raw.declaredSalary = declared;
   }
 
   // Decode insurance flags
   const insFlags = params.get('ins');
   if (insFlags && insFlags.length === 3) {
-    state.insuranceOptions = {
+    const insuranceOptions = {
       bhxh: insFlags[0] === '1',
       bhyt: insFlags[1] === '1',
       bhtn: insFlags[2] === '1',
     };
-    state.hasInsurance = state.insuranceOptions.bhxh || state.insuranceOptions.bhyt || state.insuranceOptions.bhtn;
+    raw.insuranceOptions = insuranceOptions;
+    raw.hasInsurance = insuranceOptions.bhxh || insuranceOptions.bhyt || insuranceOptions.bhtn;
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (raw[key] === undefined) delete raw[key];
+  }
+  if (Object.keys(raw).length === 0) {
+    return null;
   }
 
-  return Object.keys(state).length > 0 ? state : null;
+  const validated = validateSharedState(raw as Partial<SharedTaxState>);
+  return {
+    state: validated.state,
+    migration: {
+      fromVersion: CURRENT_SNAPSHOT_VERSION,
+      toVersion: CURRENT_SNAPSHOT_VERSION,
+      changes: validated.changes,
+    },
+  };
+}
+
+/**
+ * Decode legacy URL params to SharedTaxState (for backward compatibility)
+ */
+export function decodeLegacyURLParams(searchParams: string): Partial<SharedTaxState> | null {
+  return decodeLegacyURLParamsWithReport(searchParams)?.state ?? null;
 }
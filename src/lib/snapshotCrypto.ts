@@ -0,0 +1,121 @@
+/**
+ * Passphrase encryption for share links and backups
+ * Uses WebCrypto: PBKDF2-SHA256 derives an AES-GCM key from the passphrase
+ * Payload layout (base64url): [format version][salt][iv][ciphertext + tag]
+ */
+
+const PAYLOAD_VERSION = 1;
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const HEADER_LENGTH = 1 + SALT_LENGTH + IV_LENGTH;
+
+export const MIN_PASSPHRASE_LENGTH = 6;
+
+/**
+ * Check if WebCrypto is available (requires a secure context in browsers)
+ */
+export function isEncryptionAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle && typeof crypto.getRandomValues === 'function';
+}
+
+/**
+ * Base64url encode without padding (safe for URL fragments and QR codes)
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt text with a passphrase
+ * A fresh salt and IV are generated for every call
+ */
+export async function encryptText(plaintext: string, passphrase: string): Promise<string> {
+  if (!isEncryptionAvailable()) {
+    throw new Error('Trình duyệt không hỗ trợ mã hóa');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Mật khẩu cần ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext))
+  );
+
+  const payload = new Uint8Array(HEADER_LENGTH + ciphertext.length);
+  payload[0] = PAYLOAD_VERSION;
+  payload.set(salt, 1);
+  payload.set(iv, 1 + SALT_LENGTH);
+  payload.set(ciphertext, HEADER_LENGTH);
+
+  return toBase64Url(payload);
+}
+
+/**
+ * Decrypt text produced by encryptText
+ * Throws a user-facing error for a wrong passphrase or a tampered payload
+ */
+export async function decryptText(payload: string, passphrase: string): Promise<string> {
+  if (!isEncryptionAvailable()) {
+    throw new Error('Trình duyệt không hỗ trợ mã hóa');
+  }
+
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = fromBase64Url(payload.trim());
+  } catch {
+    throw new Error('Dữ liệu mã hóa không hợp lệ');
+  }
+  if (bytes.length <= HEADER_LENGTH || bytes[0] !== PAYLOAD_VERSION) {
+    throw new Error('Dữ liệu mã hóa không hợp lệ');
+  }
+
+  const salt = bytes.subarray(1, 1 + SALT_LENGTH);
+  const iv = bytes.subarray(1 + SALT_LENGTH, HEADER_LENGTH);
+  const ciphertext = bytes.subarray(HEADER_LENGTH);
+
+  try {
+    const key = await deriveKey(passphrase, salt);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Sai mật khẩu hoặc dữ liệu đã bị thay đổi');
+  }
+}
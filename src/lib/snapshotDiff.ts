@@ -0,0 +1,592 @@
+/**
+ * Compare two calculator snapshots (named saves or share links)
+ * Lists every changed input across sharedState and tabs, recomputes both
+ * snapshots and reports the deltas in headline results
+ */
+import { CalculatorSnapshot, TabStates } from './snapshotTypes';
+import { calculateNewTax, formatNumber } from './taxCalculator';
+import { calculateAnnualSettlement } from './annualSettlementCalculator';
+import { calculateBonusComparison } from './bonusCalculator';
+import { calculateOvertime } from './overtimeCalculator';
+import { compareCompanyOffers } from './salaryComparisonCalculator';
+import { calculateMortgage } from './mortgageCalculator';
+import { calculateMonthlyPlan } from './monthlyPlannerCalculator';
+import { calculateSecuritiesTax } from './securitiesTaxCalculator';
+import { calculateRentalIncomeTax } from './rentalIncomeTaxCalculator';
+import { calculateHouseholdBusinessTax } from './householdBusinessTaxCalculator';
+import { calculateSpecialIncomeTax } from './specialIncomeTaxCalculator';
+import type { ExcelSheet } from './exportUtils';
+import type { PdfReport, PdfTableRow } from './pdfReportRenderer';
+
+export type DiffSection = 'sharedState' | 'profile' | keyof TabStates;
+
+/**
+ * One changed input field
+ */
+export interface SnapshotFieldDiff {
+  section: DiffSection;
+  path: string; // e.g. "allowances.meal" or "companies[company-1].grossSalary"
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * One recomputed result that differs between the two snapshots
+ */
+export interface SnapshotMetricDiff {
+  section: DiffSection;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+  // Which direction is good for the taxpayer (used for coloring)
+  better: 'higher' | 'lower';
+}
+
+export interface SnapshotDiffResult {
+  beforeLabel: string;
+  afterLabel: string;
+  fields: SnapshotFieldDiff[];
+  // Monthly salary result from sharedState (always listed, even when equal)
+  core: SnapshotMetricDiff[];
+  // Per-tab headline results, only those that changed
+  tabs: SnapshotMetricDiff[];
+}
+
+/**
+ * Section labels - typed against TabStates so a new tab fails to compile until labelled
+ */
+export const DIFF_SECTION_LABELS: Record<DiffSection, string> = {
+  sharedState: 'Thông tin chung',
+  profile: 'Hồ sơ người nộp thuế',
+  employerCost: 'Chi phí nhà tuyển dụng',
+  freelancer: 'Freelancer vs Fulltime',
+  salaryComparison: 'So sánh offer',
+  yearlyComparison: 'So sánh năm',
+  overtime: 'Lương tăng ca',
+  annualSettlement: 'Quyết toán thuế',
+  bonus: 'Thưởng Tết',
+  esop: 'ESOP',
+  pension: 'Dự tính lương hưu',
+  foreignerTax: 'Người nước ngoài',
+  latePayment: 'Lãi chậm nộp',
+  businessFormComparison: 'Hình thức kinh doanh',
+  severance: 'Trợ cấp thôi việc',
+  vat: 'Thuế GTGT (VAT)',
+  withholdingTax: 'Khấu trừ tại nguồn',
+  multiSourceIncome: 'Đa nguồn thu nhập',
+  taxTreaty: 'Hiệp định thuế',
+  coupleOptimizer: 'Tối ưu vợ chồng',
+  contentCreator: 'Content Creator',
+  cryptoTax: 'Crypto/NFT',
+  goldTax: 'Thuế vàng miếng',
+  monthlyPlanner: 'Kế hoạch 12 tháng',
+  mortgage: 'Vay mua nhà',
+  securities: 'Chứng khoán',
+  rentalIncome: 'Cho thuê tài sản',
+  householdBusiness: 'Hộ kinh doanh',
+  realEstateTransfer: 'Chuyển nhượng BĐS',
+  inheritanceGift: 'Thừa kế, quà tặng',
+  exemptionChecker: 'Kiểm tra miễn thuế',
+  taxDocument: 'Tạo tờ khai',
+  specialIncome: 'Thu nhập đặc biệt',
+  taxDeadline: 'Hạn nộp thuế',
+  incomeSummary: 'Tổng hợp thu nhập',
+  regionCompare: 'So sánh vùng',
+  salarySlip: 'Phiếu lương',
+};
+
+/**
+ * Readable names for common field keys; unknown keys are shown as-is
+ */
+const FIELD_LABELS: Record<string, string> = {
+  grossIncome: 'Lương gross',
+  declaredSalary: 'Lương đóng BHXH',
+  dependents: 'Người phụ thuộc',
+  otherDeductions: 'Giảm trừ khác',
+  hasInsurance: 'Đóng bảo hiểm',
+  insuranceOptions: 'Bảo hiểm',
+  region: 'Vùng lương',
+  pensionContribution: 'Hưu trí tự nguyện',
+  otherIncome: 'Thu nhập khác',
+  allowances: 'Phụ cấp',
+  bhxh: 'BHXH',
+  bhyt: 'BHYT',
+  bhtn: 'BHTN',
+  freelance: 'Freelance',
+  rental: 'Cho thuê',
+  investment: 'Đầu tư',
+  transfer: 'Chuyển nhượng',
+  lottery: 'Trúng thưởng',
+  meal: 'Ăn trưa',
+  phone: 'Điện thoại',
+  transport: 'Đi lại',
+  hazardous: 'Độc hại',
+  clothing: 'Trang phục',
+  housing: 'Nhà ở',
+  position: 'Chức vụ',
+  useNewLaw: 'Áp dụng luật mới',
+  companies: 'Công ty',
+  name: 'Tên',
+  grossSalary: 'Lương gross',
+  bonusMonths: 'Số tháng thưởng',
+  otherBenefits: 'Phúc lợi khác',
+  monthlySalary: 'Lương tháng',
+  entries: 'Dòng',
+  hours: 'Số giờ',
+  year: 'Năm',
+  monthlyIncome: 'Thu nhập tháng',
+  payers: 'Nơi chi trả',
+  bonus: 'Thưởng',
+  taxPaid: 'Thuế đã khấu trừ',
+  charitableContributions: 'Từ thiện',
+  voluntaryPension: 'Hưu trí tự nguyện',
+  manualTaxPaid: 'Thuế đã nộp (nhập tay)',
+  thirteenthMonthSalary: 'Lương tháng 13',
+  tetBonus: 'Thưởng Tết',
+  otherBonuses: 'Thưởng khác',
+  baseSalary: 'Lương cơ bản',
+  months: 'Tháng',
+  propertyPrice: 'Giá nhà',
+  downPaymentPercent: 'Trả trước (%)',
+  loanTermYears: 'Thời hạn vay (năm)',
+  preferentialRate: 'Lãi ưu đãi (%)',
+  preferentialMonths: 'Số tháng ưu đãi',
+  floatingRate: 'Lãi thả nổi (%)',
+  transactions: 'Giao dịch',
+  incomeSources: 'Nguồn thu nhập',
+  amount: 'Số tiền',
+  dividends: 'Cổ tức',
+  bonds: 'Trái phiếu',
+  properties: 'Tài sản cho thuê',
+  monthlyRent: 'Tiền thuê tháng',
+  businesses: 'Hoạt động kinh doanh',
+  monthlyRevenue: 'Doanh thu tháng',
+  transfers: 'Giao dịch BĐS',
+  transferValue: 'Giá chuyển nhượng',
+  assets: 'Tài sản',
+  incomeAmount: 'Thu nhập',
+  customDeadlines: 'Hạn tự thêm',
+  customGross: 'Lương gross tự nhập',
+  personalInfo: 'Thông tin cá nhân',
+  fullName: 'Họ tên',
+  taxCode: 'Mã số thuế',
+  idNumber: 'Số CCCD',
+  residency: 'Tình trạng cư trú',
+  fromMonth: 'Từ tháng',
+  toMonth: 'Đến tháng',
+  overrides: 'Tab ghi đè hồ sơ',
+  fromYear: 'Từ năm',
+  toYear: 'Đến năm',
+  type: 'Loại',
+  dateOfBirth: 'Ngày sinh',
+  averageMonthlyIncome: 'Thu nhập bình quân tháng',
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function getItemKey(item: unknown): string | null {
+  if (!isPlainObject(item)) return null;
+  const id = item.id ?? item.month;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+}
+
+/**
+ * Recursively collect changed leaves; arrays of items with an id (or month)
+ * are matched by that key so reordering or inserting doesn't shift every row
+ */
+function collectChanges(
+  path: string,
+  before: unknown,
+  after: unknown,
+  out: Array<{ path: string; before: unknown; after: unknown }>
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => collectChanges(path ? `${path}.${key}` : key, before[key], after[key], out));
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const keyed = [...before, ...after].every(item => getItemKey(item) !== null);
+    if (keyed) {
+      const beforeMap = new Map(before.map(item => [getItemKey(item) as string, item]));
+      const afterMap = new Map(after.map(item => [getItemKey(item) as string, item]));
+      const keys = new Set([...beforeMap.keys(), ...afterMap.keys()]);
+      keys.forEach(key => collectChanges(`${path}[${key}]`, beforeMap.get(key), afterMap.get(key), out));
+    } else {
+      const length = Math.max(before.length, after.length);
+      for (let i = 0; i < length; i++) {
+        collectChanges(`${path}[${i + 1}]`, before[i], after[i], out);
+      }
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    out.push({ path, before, after });
+  }
+}
+
+function getSectionValue(snapshot: CalculatorSnapshot, section: DiffSection): unknown {
+  if (section === 'sharedState') return snapshot.sharedState;
+  if (section === 'profile') return snapshot.profile;
+  return snapshot.tabs[section];
+}
+
+/**
+ * "allowances.meal" -> "Phụ cấp › Ăn trưa", "companies[c1].grossSalary" -> "Công ty c1 › Lương gross"
+ */
+function labelPath(path: string): string {
+  return path
+    .split('.')
+    .map(segment => {
+      const match = segment.match(/^([^[]+)((?:\[[^\]]+\])*)$/);
+      if (!match) return segment;
+      const keys = match[2] ? match[2].slice(1, -1).split('][').join(', ') : '';
+      const label = FIELD_LABELS[match[1]] ?? match[1];
+      return keys ? `${label} ${keys}` : label;
+    })
+    .join(' › ');
+}
+
+/**
+ * Display a changed value in the diff table
+ */
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Có' : 'Không';
+  if (typeof value === 'number') return Math.abs(value) >= 1000 ? formatNumber(value) : String(value);
+  if (Array.isArray(value)) return `${value.length} mục`;
+  if (isPlainObject(value)) {
+    const name = value.name ?? value.label;
+    return typeof name === 'string' && name ? name : 'Có dữ liệu';
+  }
+  return String(value);
+}
+
+function metric(
+  section: DiffSection,
+  label: string,
+  before: number,
+  after: number,
+  better: SnapshotMetricDiff['better']
+): SnapshotMetricDiff {
+  return { section, label, before, after, delta: after - before, better };
+}
+
+/**
+ * Headline numbers per tab; an entry returns [] when the tab has no usable input
+ */
+type TabHeadline = (snapshot: CalculatorSnapshot) => Array<{ label: string; value: number; better: 'higher' | 'lower' }>;
+
+const TAB_HEADLINES: Partial<Record<keyof TabStates, TabHeadline>> = {
+  annualSettlement: ({ tabs }) => {
+    const state = tabs.annualSettlement;
+    const payers = state.payers ?? [];
+    const entries = payers.length > 0 ? payers.flatMap(p => p.monthlyIncome) : state.monthlyIncome;
+    if (entries.reduce((sum, m) => sum + m.grossSalary, 0) <= 0) return [];
+
+    const result = calculateAnnualSettlement({
+      year: state.year,
+      monthlyIncome: state.monthlyIncome,
+      payers: payers.length > 0 ? payers : undefined,
+      dependents: state.dependents,
+      charitableContributions: state.charitableContributions,
+      voluntaryPension: state.voluntaryPension,
+      insuranceOptions: state.insuranceOptions,
+      region: state.region,
+      manualTaxPaid: state.manualTaxPaidMode ? state.manualTaxPaid : undefined,
+    });
+    return [
+      { label: 'Thuế phải nộp cả năm', value: result.annualTaxDue, better: 'lower' },
+      { label: 'Nộp thêm (+) / được hoàn (−)', value: result.difference, better: 'lower' },
+    ];
+  },
+  bonus: ({ sharedState, tabs }) => {
+    const state = tabs.bonus;
+    if (state.thirteenthMonthSalary + state.tetBonus + state.otherBonuses <= 0) return [];
+
+    const result = calculateBonusComparison({
+      monthlySalary: sharedState.grossIncome,
+      thirteenthMonthSalary: state.thirteenthMonthSalary,
+      tetBonus: state.tetBonus,
+      otherBonuses: state.otherBonuses,
+      dependents: sharedState.dependents,
+      region: sharedState.region,
+      hasInsurance: sharedState.hasInsurance,
+    });
+    const best = result.scenarios.find(s => s.scenario.id === result.recommendation.id);
+    return best
+      ? [
+          { label: 'Thuế trên thưởng (phương án tốt nhất)', value: best.additionalTax, better: 'lower' },
+          { label: 'Thưởng thực nhận', value: best.netBonus, better: 'higher' },
+        ]
+      : [];
+  },
+  overtime: ({ sharedState, tabs }) => {
+    const state = tabs.overtime;
+    if (state.monthlySalary <= 0) return [];
+
+    const result = calculateOvertime({
+      monthlySalary: state.monthlySalary,
+      workingDaysPerMonth: state.workingDaysPerMonth,
+      hoursPerDay: state.hoursPerDay,
+      entries: state.entries,
+      includeHolidayBasePay: state.includeHolidayBasePay,
+      dependents: sharedState.dependents,
+      otherDeductions: sharedState.otherDeductions,
+      hasInsurance: sharedState.hasInsurance,
+      insuranceOptions: sharedState.insuranceOptions,
+      region: sharedState.region,
+      useNewLaw: state.useNewLaw,
+    });
+    return [
+      { label: 'Tiền tăng ca', value: result.totalOvertimeGross, better: 'higher' },
+      { label: 'Thực nhận tháng có tăng ca', value: result.netIncome, better: 'higher' },
+    ];
+  },
+  salaryComparison: ({ sharedState, tabs }) => {
+    const state = tabs.salaryComparison;
+    if (!state.companies.some(c => c.grossSalary > 0)) return [];
+
+    const result = compareCompanyOffers(state.companies, sharedState.dependents, state.useNewLaw);
+    const best = result.companies[result.bestOffer.byAnnualNet];
+    return best ? [{ label: 'NET năm cao nhất', value: best.annualNet, better: 'higher' }] : [];
+  },
+  monthlyPlanner: ({ sharedState, tabs }) => {
+    const state = tabs.monthlyPlanner;
+    const result = calculateMonthlyPlan({
+      baseSalary: state.baseSalary || sharedState.grossIncome,
+      months: state.months,
+      dependents: sharedState.dependents,
+      hasInsurance: sharedState.hasInsurance,
+      region: sharedState.region,
+    });
+    return [
+      { label: 'Thực nhận cả năm', value: result.summary.totalNet, better: 'higher' },
+      { label: 'Thuế cả năm', value: result.summary.totalTax, better: 'lower' },
+    ];
+  },
+  mortgage: ({ tabs }) => {
+    const result = calculateMortgage(tabs.mortgage);
+    return [
+      { label: 'Trả góp tháng (giai đoạn ưu đãi)', value: result.preferentialPayment, better: 'lower' },
+      { label: 'Tổng lãi phải trả', value: result.totalInterest, better: 'lower' },
+    ];
+  },
+  securities: ({ tabs }) => {
+    const state = tabs.securities;
+    if (state.transactions.length + state.dividends.length + state.bonds.length === 0) return [];
+
+    const result = calculateSecuritiesTax(state);
+    return [{ label: 'Tổng thuế chứng khoán', value: result.summary.totalTax, better: 'lower' }];
+  },
+  rentalIncome: ({ tabs }) => {
+    const state = tabs.rentalIncome;
+    if (state.properties.length === 0) return [];
+
+    const { summary } = calculateRentalIncomeTax(state);
+    return [
+      {
+        label: 'Thuế cho thuê cả năm',
+        value: state.useActualExpenses ? summary.totalActualTax : summary.totalDeemedTax,
+        better: 'lower',
+      },
+    ];
+  },
+  householdBusiness: ({ tabs }) => {
+    const state = tabs.householdBusiness;
+    if (!state.businesses.some(b => b.monthlyRevenue > 0)) return [];
+
+    const result = calculateHouseholdBusinessTax(state);
+    return [
+      { label: 'Tổng thuế hộ kinh doanh', value: result.summary.totalTax, better: 'lower' },
+      { label: 'Thu nhập sau thuế', value: result.summary.totalNetIncome, better: 'higher' },
+    ];
+  },
+  specialIncome: ({ tabs }) => {
+    const state = tabs.specialIncome;
+    if (state.amount <= 0) return [];
+
+    const result = calculateSpecialIncomeTax(state);
+    return [{ label: 'Thuế thu nhập đặc biệt', value: result.taxAmount, better: 'lower' }];
+  },
+};
+
+function safeHeadline(headline: TabHeadline, snapshot: CalculatorSnapshot) {
+  try {
+    return headline(snapshot);
+  } catch (error) {
+    console.error('Failed to compute headline for diff:', error);
+    return [];
+  }
+}
+
+/**
+ * Compare two snapshots: changed inputs + recomputed results
+ */
+export function diffSnapshots(
+  before: CalculatorSnapshot,
+  after: CalculatorSnapshot,
+  labels: { before: string; after: string }
+): SnapshotDiffResult {
+  // Labels become table headers, so they must differ
+  const sameLabel = labels.before === labels.after;
+  const beforeLabel = sameLabel ? `${labels.before} (A)` : labels.before;
+  const afterLabel = sameLabel ? `${labels.after} (B)` : labels.after;
+
+  // Input changes, grouped by section in a stable order
+  const fields: SnapshotFieldDiff[] = [];
+  (Object.keys(DIFF_SECTION_LABELS) as DiffSection[]).forEach(section => {
+    const changes: Array<{ path: string; before: unknown; after: unknown }> = [];
+    collectChanges('', getSectionValue(before, section), getSectionValue(after, section), changes);
+    changes.forEach(change => {
+      fields.push({ section, ...change, label: labelPath(change.path) });
+    });
+  });
+
+  // Monthly salary result from the shared inputs
+  const beforeTax = calculateNewTax({ ...before.sharedState });
+  const afterTax = calculateNewTax({ ...after.sharedState });
+  const core = [
+    metric('sharedState', 'Tổng thu nhập tháng', beforeTax.totalIncome, afterTax.totalIncome, 'higher'),
+    metric('sharedState', 'Bảo hiểm', beforeTax.insuranceDeduction, afterTax.insuranceDeduction, 'lower'),
+    metric('sharedState', 'Thuế TNCN', beforeTax.taxAmount, afterTax.taxAmount, 'lower'),
+    metric('sharedState', 'Thực nhận (NET)', beforeTax.netIncome, afterTax.netIncome, 'higher'),
+  ];
+
+  // Per-tab headlines: match by label, keep only the ones that moved
+  const tabs: SnapshotMetricDiff[] = [];
+  (Object.keys(TAB_HEADLINES) as Array<keyof TabStates>).forEach(section => {
+    const headline = TAB_HEADLINES[section];
+    if (!headline) return;
+    const beforeValues = safeHeadline(headline, before);
+    const afterValues = safeHeadline(headline, after);
+    const itemLabels = new Set([...beforeValues, ...afterValues].map(item => item.label));
+    itemLabels.forEach(label => {
+      const b = beforeValues.find(item => item.label === label);
+      const a = afterValues.find(item => item.label === label);
+      const beforeNumber = b?.value ?? 0;
+      const afterNumber = a?.value ?? 0;
+      if (Math.round(beforeNumber) === Math.round(afterNumber)) return;
+      tabs.push(metric(section, label, beforeNumber, afterNumber, (a ?? b)!.better));
+    });
+  });
+
+  return {
+    beforeLabel,
+    afterLabel,
+    fields,
+    core,
+    tabs,
+  };
+}
+
+/**
+ * Signed, rounded delta: +1.000.000 / −250.000 / 0
+ */
+export function formatDiffDelta(delta: number): string {
+  const rounded = Math.round(delta);
+  if (rounded === 0) return '0';
+  return `${rounded > 0 ? '+' : '−'}${formatNumber(Math.abs(rounded))}`;
+}
+
+/**
+ * Sheets for Excel export: results and changed inputs
+ */
+export function buildSnapshotDiffSheets(diff: SnapshotDiffResult): ExcelSheet[] {
+  const { beforeLabel, afterLabel } = diff;
+  const resultHeaders = ['Mục', 'Chỉ số', beforeLabel, afterLabel, 'Chênh lệch'];
+  const fieldHeaders = ['Mục', 'Trường', beforeLabel, afterLabel];
+
+  return [
+    {
+      name: 'Kết quả',
+      headers: resultHeaders,
+      columns: {
+        [beforeLabel]: { format: 'vnd' },
+        [afterLabel]: { format: 'vnd' },
+        'Chênh lệch': { format: 'vnd' },
+      },
+      rows: [...diff.core, ...diff.tabs].map(m => ({
+        'Mục': DIFF_SECTION_LABELS[m.section],
+        'Chỉ số': m.label,
+        [beforeLabel]: Math.round(m.before),
+        [afterLabel]: Math.round(m.after),
+        'Chênh lệch': Math.round(m.delta),
+      })),
+    },
+    {
+      name: 'Thay đổi đầu vào',
+      headers: fieldHeaders,
+      rows: diff.fields.map(f => ({
+        'Mục': DIFF_SECTION_LABELS[f.section],
+        'Trường': f.label,
+        [beforeLabel]: formatDiffValue(f.before),
+        [afterLabel]: formatDiffValue(f.after),
+      })),
+    },
+  ];
+}
+
+/**
+ * PDF report of the diff
+ */
+export function buildSnapshotDiffPdfReport(diff: SnapshotDiffResult, now: Date = new Date()): PdfReport {
+  const metricRows = (metrics: SnapshotMetricDiff[]): PdfTableRow[] =>
+    metrics.map(m => ({
+      cells: [
+        m.section === 'sharedState' ? m.label : `${DIFF_SECTION_LABELS[m.section]} › ${m.label}`,
+        formatNumber(Math.round(m.before)),
+        formatNumber(Math.round(m.after)),
+        formatDiffDelta(m.delta),
+      ],
+    }));
+  const metricColumns = [
+    { header: 'Chỉ số', width: 2.2 },
+    { header: diff.beforeLabel, align: 'right' as const },
+    { header: diff.afterLabel, align: 'right' as const },
+    { header: 'Chênh lệch', align: 'right' as const },
+  ];
+
+  return {
+    title: 'SO SÁNH HAI BẢN TÍNH THUẾ',
+    subtitle: `${diff.beforeLabel} → ${diff.afterLabel}`,
+    meta: [`Ngày tạo: ${now.toLocaleDateString('vi-VN')}`],
+    blocks: [
+      { type: 'heading', text: 'Lương tháng (thông tin chung)' },
+      { type: 'table', columns: metricColumns, rows: metricRows(diff.core) },
+      ...(diff.tabs.length > 0
+        ? [
+            { type: 'heading' as const, text: 'Kết quả theo từng công cụ' },
+            { type: 'table' as const, columns: metricColumns, rows: metricRows(diff.tabs) },
+          ]
+        : []),
+      { type: 'heading', text: `Dữ liệu đầu vào thay đổi (${diff.fields.length})` },
+      diff.fields.length > 0
+        ? {
+            type: 'table',
+            columns: [
+              { header: 'Mục', width: 1.2 },
+              { header: 'Trường', width: 1.8 },
+              { header: diff.beforeLabel, align: 'right' },
+              { header: diff.afterLabel, align: 'right' },
+            ],
+            rows: diff.fields.map(f => ({
+              cells: [DIFF_SECTION_LABELS[f.section], f.label, formatDiffValue(f.before), formatDiffValue(f.after)],
+            })),
+          }
+        : { type: 'paragraph', text: 'Hai bản có dữ liệu đầu vào giống nhau.', tone: 'muted' },
+      {
+        type: 'paragraph',
+        text: 'Kết quả được tính lại theo quy định hiện hành tại thời điểm xuất báo cáo, có thể khác số liệu lúc lưu.',
+        tone: 'muted',
+        boxed: true,
+      },
+    ],
+  };
+}
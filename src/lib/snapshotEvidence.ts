@@ -0,0 +1,286 @@
+/**
+ * Evidence documents attached to named saves
+ * Lists what a file can back (the save, a claimed amount or one entry in a tab)
+ * and checks which claimed deductions still have no supporting document
+ */
+import {
+  CalculatorSnapshot,
+  EvidenceAttachment,
+  EvidenceKind,
+  EvidenceTarget,
+  NamedSave,
+} from './snapshotTypes';
+
+export const MAX_EVIDENCE_FILE_SIZE = 10 * 1024 * 1024;
+
+export const EVIDENCE_KIND_LABELS: Record<EvidenceKind, string> = {
+  charity_receipt: 'Biên nhận từ thiện, nhân đạo',
+  dependent_papers: 'Giấy tờ người phụ thuộc',
+  withholding_certificate: 'Chứng từ khấu trừ thuế',
+  pension_receipt: 'Chứng từ hưu trí tự nguyện',
+  transaction_record: 'Sao kê, chứng từ giao dịch',
+  contract: 'Hợp đồng',
+  other: 'Tài liệu khác',
+};
+
+export interface EvidenceTargetOption {
+  key: string;
+  target: EvidenceTarget;
+  group: string;
+  label: string;
+  suggestedKind: EvidenceKind;
+}
+
+export interface EvidenceChecklistItem {
+  key: string;
+  target: EvidenceTarget;
+  label: string;
+  kind: EvidenceKind;
+  amount?: number;
+  attachmentCount: number;
+  missing: boolean;
+}
+
+const GENERAL_GROUP = 'Chung';
+const SETTLEMENT_GROUP = 'Quyết toán thuế';
+
+/**
+ * Stable key for comparing targets
+ */
+export function evidenceTargetKey(target: EvidenceTarget): string {
+  return [target.tab ?? '', target.entryId ?? '', target.field ?? ''].join('|');
+}
+
+function option(
+  group: string,
+  target: EvidenceTarget,
+  label: string,
+  suggestedKind: EvidenceKind
+): EvidenceTargetOption {
+  return { key: evidenceTargetKey(target), target, group, label, suggestedKind };
+}
+
+function formatEntryDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  return Number.isNaN(date.getTime()) ? isoDate : date.toLocaleDateString('vi-VN');
+}
+
+/**
+ * Everything in a snapshot that a document can be attached to
+ */
+export function listEvidenceTargets(snapshot: CalculatorSnapshot): EvidenceTargetOption[] {
+  const { sharedState, tabs } = snapshot;
+  const options: EvidenceTargetOption[] = [
+    option(GENERAL_GROUP, {}, 'Hồ sơ chung', 'other'),
+  ];
+
+  if (sharedState.dependents > 0) {
+    options.push(option(
+      GENERAL_GROUP,
+      { field: 'dependents' },
+      `Giảm trừ ${sharedState.dependents} người phụ thuộc`,
+      'dependent_papers'
+    ));
+  }
+
+  const settlement = tabs.annualSettlement;
+  if (settlement) {
+    for (const dependent of settlement.dependents) {
+      options.push(option(
+        SETTLEMENT_GROUP,
+        { tab: 'annualSettlement', entryId: dependent.id },
+        `Người phụ thuộc: ${dependent.name || 'chưa đặt tên'}`,
+        'dependent_papers'
+      ));
+    }
+    for (const payer of settlement.payers ?? []) {
+      options.push(option(
+        SETTLEMENT_GROUP,
+        { tab: 'annualSettlement', entryId: payer.id },
+        `Nơi chi trả: ${payer.name || 'chưa đặt tên'}`,
+        'withholding_certificate'
+      ));
+    }
+    if ((settlement.payers ?? []).length === 0) {
+      options.push(option(
+        SETTLEMENT_GROUP,
+        { tab: 'annualSettlement', field: 'taxPaid' },
+        'Thuế đã khấu trừ',
+        'withholding_certificate'
+      ));
+    }
+    options.push(
+      option(SETTLEMENT_GROUP, { tab: 'annualSettlement', field: 'charitableContributions' }, 'Từ thiện, nhân đạo', 'charity_receipt'),
+      option(SETTLEMENT_GROUP, { tab: 'annualSettlement', field: 'voluntaryPension' }, 'Hưu trí tự nguyện', 'pension_receipt')
+    );
+  }
+
+  for (const tx of tabs.cryptoTax?.transactions ?? []) {
+    options.push(option(
+      'Tài sản số',
+      { tab: 'cryptoTax', entryId: tx.id },
+      `${formatEntryDate(tx.date)} · ${tx.assetName}`,
+      'transaction_record'
+    ));
+  }
+
+  for (const tx of tabs.goldTax?.transactions ?? []) {
+    options.push(option(
+      'Vàng',
+      { tab: 'goldTax', entryId: tx.id },
+      `${formatEntryDate(tx.date)} · ${tx.goldTypeName}`,
+      'transaction_record'
+    ));
+  }
+
+  for (const tx of tabs.securities?.transactions ?? []) {
+    options.push(option(
+      'Chứng khoán',
+      { tab: 'securities', entryId: tx.id },
+      `${tx.symbol || 'Giao dịch'} · ${tx.sellDate || tx.buyDate}`,
+      'transaction_record'
+    ));
+  }
+
+  for (const property of tabs.rentalIncome?.properties ?? []) {
+    options.push(option(
+      'Cho thuê tài sản',
+      { tab: 'rentalIncome', entryId: property.id },
+      property.name || property.address || 'Tài sản cho thuê',
+      'contract'
+    ));
+  }
+
+  return options;
+}
+
+/**
+ * Human-readable label for an attachment target
+ */
+export function describeEvidenceTarget(snapshot: CalculatorSnapshot, target: EvidenceTarget): string {
+  const key = evidenceTargetKey(target);
+  const match = listEvidenceTargets(snapshot).find((o) => o.key === key);
+  return match ? match.label : 'Mục đã bị xóa khỏi bản lưu';
+}
+
+/**
+ * Claimed deductions and withheld tax that should be backed by a document
+ * An item is satisfied by any attachment on the same target
+ */
+export function buildEvidenceChecklist(save: NamedSave): EvidenceChecklistItem[] {
+  const { sharedState, tabs } = save.snapshot;
+  const attachments = save.attachments ?? [];
+  const items: EvidenceChecklistItem[] = [];
+
+  const add = (target: EvidenceTarget, label: string, kind: EvidenceKind, amount?: number) => {
+    const key = evidenceTargetKey(target);
+    const attachmentCount = attachments.filter((a) => evidenceTargetKey(a.target) === key).length;
+    items.push({ key, target, label, kind, amount, attachmentCount, missing: attachmentCount === 0 });
+  };
+
+  const settlement = tabs.annualSettlement;
+
+  // Per-dependent papers in the settlement tab replace the shared dependent count
+  if (settlement && settlement.dependents.length > 0) {
+    for (const dependent of settlement.dependents) {
+      add(
+        { tab: 'annualSettlement', entryId: dependent.id },
+        `Người phụ thuộc: ${dependent.name || 'chưa đặt tên'}`,
+        'dependent_papers'
+      );
+    }
+  } else if (sharedState.dependents > 0) {
+    add({ field: 'dependents' }, `Giảm trừ ${sharedState.dependents} người phụ thuộc`, 'dependent_papers');
+  }
+
+  if (!settlement) return items;
+
+  if (settlement.charitableContributions > 0) {
+    add(
+      { tab: 'annualSettlement', field: 'charitableContributions' },
+      'Từ thiện, nhân đạo',
+      'charity_receipt',
+      settlement.charitableContributions
+    );
+  }
+  if (settlement.voluntaryPension > 0) {
+    add(
+      { tab: 'annualSettlement', field: 'voluntaryPension' },
+      'Hưu trí tự nguyện',
+      'pension_receipt',
+      settlement.voluntaryPension
+    );
+  }
+
+  const payers = settlement.payers ?? [];
+  if (payers.length > 0) {
+    for (const payer of payers) {
+      const withheld = payer.certificateTaxWithheld ?? payer.monthlyIncome.reduce((sum, m) => sum + m.taxPaid, 0);
+      if (withheld > 0) {
+        add(
+          { tab: 'annualSettlement', entryId: payer.id },
+          `Chứng từ khấu trừ: ${payer.name || 'nơi chi trả'}`,
+          'withholding_certificate',
+          withheld
+        );
+      }
+    }
+  } else {
+    const withheld = settlement.manualTaxPaidMode
+      ? settlement.manualTaxPaid
+      : settlement.monthlyIncome.reduce((sum, m) => sum + m.taxPaid, 0);
+    if (withheld > 0) {
+      add({ tab: 'annualSettlement', field: 'taxPaid' }, 'Thuế đã khấu trừ', 'withholding_certificate', withheld);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Check a picked file before storing it
+ * Returns a user-facing error, or null when the file is accepted
+ */
+export function validateEvidenceFile(file: { type: string; size: number }): string | null {
+  if (file.type !== 'application/pdf' && !file.type.startsWith('image/')) {
+    return 'Chỉ hỗ trợ file PDF hoặc ảnh';
+  }
+  if (file.size > MAX_EVIDENCE_FILE_SIZE) {
+    return `File quá lớn (tối đa ${MAX_EVIDENCE_FILE_SIZE / 1024 / 1024} MB)`;
+  }
+  return null;
+}
+
+/**
+ * Path of an attachment inside a zip backup
+ */
+export function evidenceZipPath(attachment: EvidenceAttachment): string {
+  const safeName = attachment.fileName.replace(/[\\/:*?"<>|]/g, '_') || 'file';
+  return `evidence/${attachment.id}/${safeName}`;
+}
+
+/**
+ * Attachment id from a zip entry path written by evidenceZipPath
+ */
+export function parseEvidenceZipPath(path: string): string | null {
+  const match = /^evidence\/([^/]+)\//.exec(path);
+  return match ? match[1] : null;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,123 @@
+/**
+ * Undo/redo history of calculator snapshots for the current session
+ * Each entry is a full snapshot; an entry is only recorded when the shared
+ * state, the taxpayer profile or a tab's state actually changed (switching
+ * tabs is not an edit)
+ */
+import { CalculatorSnapshot, TabStates } from './snapshotTypes';
+import { DiffSection, DIFF_SECTION_LABELS } from './snapshotDiff';
+
+// Oldest entries are dropped beyond this count
+export const MAX_HISTORY_ENTRIES = 50;
+
+export interface SnapshotHistoryEntry {
+  id: number;
+  snapshot: CalculatorSnapshot;
+  recordedAt: number;
+  // Sections that differ from the previous entry (empty for the first one)
+  sections: DiffSection[];
+}
+
+export interface SnapshotHistory {
+  entries: SnapshotHistoryEntry[];
+  // Entry matching the current state; entries after it can be redone
+  index: number;
+}
+
+/**
+ * Result of moving through the history: the new history and the snapshot to load
+ */
+export interface SnapshotHistoryMove {
+  history: SnapshotHistory;
+  snapshot: CalculatorSnapshot;
+}
+
+export function createSnapshotHistory(): SnapshotHistory {
+  return { entries: [], index: -1 };
+}
+
+/**
+ * Sections whose state differs between two snapshots
+ */
+export function changedSections(previous: CalculatorSnapshot, next: CalculatorSnapshot): DiffSection[] {
+  const sections: DiffSection[] = [];
+  if (JSON.stringify(previous.sharedState) !== JSON.stringify(next.sharedState)) {
+    sections.push('sharedState');
+  }
+  if (JSON.stringify(previous.profile) !== JSON.stringify(next.profile)) {
+    sections.push('profile');
+  }
+  for (const tab of Object.keys(next.tabs) as (keyof TabStates)[]) {
+    if (JSON.stringify(previous.tabs[tab]) !== JSON.stringify(next.tabs[tab])) {
+      sections.push(tab);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Record the current state
+ * Returns the same history when nothing changed; recording after an undo
+ * discards the entries that could have been redone
+ */
+export function recordSnapshot(
+  history: SnapshotHistory,
+  snapshot: CalculatorSnapshot,
+  now: number = Date.now()
+): SnapshotHistory {
+  const current = history.entries[history.index];
+  const sections = current ? changedSections(current.snapshot, snapshot) : [];
+  if (current && sections.length === 0) return history;
+
+  const entry: SnapshotHistoryEntry = {
+    id: current ? history.entries[history.entries.length - 1].id + 1 : 1,
+    snapshot,
+    recordedAt: now,
+    sections,
+  };
+  const entries = [...history.entries.slice(0, history.index + 1), entry].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+}
+
+export function canUndo(history: SnapshotHistory): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: SnapshotHistory): boolean {
+  return history.index < history.entries.length - 1;
+}
+
+/**
+ * Move to any recorded entry
+ * The loaded snapshot opens the tab where the edit between the two entries
+ * was made, so the restored change is visible
+ */
+export function moveToEntry(history: SnapshotHistory, index: number): SnapshotHistoryMove | null {
+  const target = history.entries[index];
+  if (!target || index === history.index) return null;
+
+  const edited = history.entries[Math.max(index, history.index)];
+  return {
+    history: { ...history, index },
+    snapshot: { ...target.snapshot, activeTab: edited.snapshot.activeTab },
+  };
+}
+
+export function undoSnapshot(history: SnapshotHistory): SnapshotHistoryMove | null {
+  return canUndo(history) ? moveToEntry(history, history.index - 1) : null;
+}
+
+export function redoSnapshot(history: SnapshotHistory): SnapshotHistoryMove | null {
+  return canRedo(history) ? moveToEntry(history, history.index + 1) : null;
+}
+
+/**
+ * Short description of an entry for the timeline
+ */
+export function describeHistoryEntry(entry: SnapshotHistoryEntry): string {
+  if (entry.sections.length === 0) return 'Trạng thái ban đầu';
+  const labels = entry.sections.map(section => DIFF_SECTION_LABELS[section]);
+  return labels.length > 2
+    ? `${labels.slice(0, 2).join(', ')} và ${labels.length - 2} mục khác`
+    : labels.join(', ');
+}
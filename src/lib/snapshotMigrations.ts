@@ -0,0 +1,221 @@
+/**
+ * Versioned upgrade chain for calculator snapshots
+ * Each migration upgrades a raw snapshot by exactly one version and records
+ * every field it renamed, transformed or dropped so the UI can explain the change
+ */
+import {
+  CalculatorSnapshot,
+  CURRENT_SNAPSHOT_VERSION,
+  DEFAULT_SHARED_STATE,
+  DEFAULT_TAB_STATES,
+  DEFAULT_TAXPAYER_PROFILE,
+  TabStates,
+  TaxpayerProfile,
+} from './snapshotTypes';
+import { inferProfileOverrides } from './taxpayerProfile';
+
+type RawSnapshot = Record<string, unknown>;
+
+export type SnapshotFieldChangeKind = 'renamed' | 'transformed' | 'dropped' | 'reset';
+
+/**
+ * A single field touched by a migration
+ */
+export interface SnapshotFieldChange {
+  path: string;
+  kind: SnapshotFieldChangeKind;
+  message: string;
+}
+
+/**
+ * Result of upgrading one snapshot through the chain
+ */
+export interface SnapshotMigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  changes: SnapshotFieldChange[];
+}
+
+/**
+ * One step in the upgrade chain (fromVersion -> fromVersion + 1)
+ */
+export interface SnapshotMigration {
+  fromVersion: number;
+  description: string;
+  migrate: (snapshot: RawSnapshot, report: (change: SnapshotFieldChange) => void) => RawSnapshot;
+}
+
+function isRecord(value: unknown): value is RawSnapshot {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Registered migrations, ordered by fromVersion
+ * Add a new entry (and bump CURRENT_SNAPSHOT_VERSION) whenever a tab's state shape changes
+ */
+export const SNAPSHOT_MIGRATIONS: SnapshotMigration[] = [
+  {
+    fromVersion: 1,
+    description: 'Move legacy state/timestamp fields and fix the transport allowance key collision',
+    migrate: (snapshot, report) => {
+      const result: RawSnapshot = { ...snapshot };
+
+      // Pre-v1 history items stored shared state under `state`
+      if ('state' in result) {
+        if (!isRecord(result.sharedState) && isRecord(result.state)) {
+          result.sharedState = result.state;
+          report({
+            path: 'state',
+            kind: 'renamed',
+            message: 'Dữ liệu thu nhập chung được chuyển sang định dạng mới',
+          });
+        } else {
+          report({
+            path: 'state',
+            kind: 'dropped',
+            message: 'Bỏ bản sao dữ liệu cũ trùng với dữ liệu thu nhập chung',
+          });
+        }
+        delete result.state;
+      }
+
+      if ('timestamp' in result) {
+        const meta = isRecord(result.meta) ? { ...result.meta } : {};
+        if (typeof meta.createdAt !== 'number' && typeof result.timestamp === 'number') {
+          meta.createdAt = result.timestamp;
+          report({
+            path: 'timestamp',
+            kind: 'renamed',
+            message: 'Thời điểm tạo được chuyển vào thông tin bản lưu',
+          });
+        } else {
+          report({
+            path: 'timestamp',
+            kind: 'dropped',
+            message: 'Bỏ thời điểm tạo cũ trùng lặp',
+          });
+        }
+        result.meta = meta;
+        delete result.timestamp;
+      }
+
+      // v1 links encoded allowances.transport with the same short key as
+      // OvertimeEntry.type, so it came back as allowances.type
+      const shared = result.sharedState;
+      if (isRecord(shared) && isRecord(shared.allowances) && 'type' in shared.allowances) {
+        const { type, ...allowances } = shared.allowances;
+        if (typeof type === 'number' && typeof allowances.transport !== 'number') {
+          allowances.transport = type;
+          report({
+            path: 'sharedState.allowances.transport',
+            kind: 'renamed',
+            message: 'Khôi phục phụ cấp đi lại bị đọc sai trong liên kết cũ',
+          });
+        } else {
+          report({
+            path: 'sharedState.allowances.type',
+            kind: 'dropped',
+            message: 'Bỏ trường phụ cấp không xác định',
+          });
+        }
+        result.sharedState = { ...shared, allowances };
+      }
+
+      return result;
+    },
+  },
+  {
+    fromVersion: 2,
+    description: 'Build the taxpayer profile from the per-tab copies of personal info, dependents and residency',
+    migrate: (snapshot) => {
+      if (isRecord(snapshot.profile)) return snapshot;
+
+      const rawTabs = isRecord(snapshot.tabs) ? snapshot.tabs : {};
+      const rawTab = (tab: keyof TabStates): RawSnapshot => (isRecord(rawTabs[tab]) ? rawTabs[tab] : {});
+      const taxDocument = rawTab('taxDocument');
+      const annualSettlement = rawTab('annualSettlement');
+      const withholdingTax = rawTab('withholdingTax');
+
+      // Tax documents and the settlement held the most complete copies;
+      // values are checked by validateSnapshot after the chain runs
+      const profile: TaxpayerProfile = {
+        personalInfo: {
+          ...DEFAULT_TAXPAYER_PROFILE.personalInfo,
+          ...(isRecord(taxDocument.personalInfo) ? taxDocument.personalInfo : {}),
+        },
+        dependents: Array.isArray(annualSettlement.dependents)
+          ? (annualSettlement.dependents as TaxpayerProfile['dependents'])
+          : [],
+        residency: typeof withholdingTax.residencyStatus === 'string'
+          ? (withholdingTax.residencyStatus as TaxpayerProfile['residency'])
+          : DEFAULT_TAXPAYER_PROFILE.residency,
+        overrides: {},
+      };
+
+      // Tabs whose own values were edited keep them as overrides; the
+      // dependent, region and insurance values come from the shared state
+      const tabs = {} as TabStates;
+      for (const tab of Object.keys(DEFAULT_TAB_STATES) as (keyof TabStates)[]) {
+        Object.assign(tabs, { [tab]: { ...DEFAULT_TAB_STATES[tab], ...rawTab(tab) } });
+      }
+      // Links omit default fields, so compare the tax document against the
+      // same defaults-merged personal info the profile was built from
+      tabs.taxDocument = { ...tabs.taxDocument, personalInfo: profile.personalInfo };
+      profile.overrides = inferProfileOverrides({
+        version: 2,
+        sharedState: {
+          ...DEFAULT_SHARED_STATE,
+          ...(isRecord(snapshot.sharedState) ? snapshot.sharedState : {}),
+        },
+        profile,
+        activeTab: 'calculator',
+        tabs,
+        meta: { createdAt: 0 },
+      });
+
+      return { ...snapshot, profile };
+    },
+  },
+];
+
+/**
+ * Upgrade a raw (key-expanded) snapshot to CURRENT_SNAPSHOT_VERSION
+ * Snapshots without a version are treated as v1
+ * Returns null when the snapshot comes from a newer app version than this one
+ */
+export function migrateSnapshot(raw: unknown): {
+  snapshot: Partial<CalculatorSnapshot>;
+  report: SnapshotMigrationReport;
+} | null {
+  if (!isRecord(raw)) return null;
+
+  const fromVersion = typeof raw.version === 'number' && raw.version >= 1
+    ? Math.floor(raw.version)
+    : 1;
+  if (fromVersion > CURRENT_SNAPSHOT_VERSION) {
+    console.error(`Snapshot version ${fromVersion} is newer than supported ${CURRENT_SNAPSHOT_VERSION}`);
+    return null;
+  }
+
+  const changes: SnapshotFieldChange[] = [];
+  let snapshot = raw;
+  for (let version = fromVersion; version < CURRENT_SNAPSHOT_VERSION; version++) {
+    const migration = SNAPSHOT_MIGRATIONS.find(m => m.fromVersion === version);
+    if (!migration) {
+      throw new Error(`Missing snapshot migration from v${version}`);
+    }
+    snapshot = migration.migrate(snapshot, change => changes.push(change));
+  }
+
+  return {
+    snapshot: { ...snapshot, version: CURRENT_SNAPSHOT_VERSION } as Partial<CalculatorSnapshot>,
+    report: { fromVersion, toVersion: CURRENT_SNAPSHOT_VERSION, changes },
+  };
+}
+
+/**
+ * Whether a report is worth showing to the user
+ */
+export function hasMigrationChanges(report: SnapshotMigrationReport | undefined): report is SnapshotMigrationReport {
+  return !!report && report.changes.length > 0;
+}
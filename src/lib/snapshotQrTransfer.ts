@@ -0,0 +1,123 @@
+/**
+ * Multi-part QR transfer of share payloads between devices
+ * A payload too long for one QR code is split into numbered frames that carry
+ * a checksum of the whole payload; the scanner collects frames in any order and
+ * rebuilds the payload once every part has been seen
+ *
+ * Frame format: TTQR1:<index>/<total>:<checksum>:<data>
+ * - index is 1-based, total is the number of frames
+ * - checksum is the CRC-32 of the full payload (8 hex digits) and also tells
+ *   frames of different transfers apart
+ */
+import { crc32 } from './zipArchive';
+
+export const QR_FRAME_PREFIX = 'TTQR1';
+
+// Characters of payload per frame; keeps each code small enough for phone cameras
+export const QR_FRAME_CHUNK_SIZE = 500;
+
+// Longer share links are shown as a frame sequence instead of one dense code
+export const QR_SINGLE_CODE_LIMIT = 1200;
+
+export interface QrFrame {
+  index: number;
+  total: number;
+  checksum: string;
+  data: string;
+}
+
+export interface QrTransferProgress {
+  total: number;
+  checksum: string;
+  // Frame data by 1-based index
+  parts: Record<number, string>;
+}
+
+const FRAME_PATTERN = new RegExp(`^${QR_FRAME_PREFIX}:(\\d+)/(\\d+):([0-9a-f]{8}):(.*)$`);
+
+function payloadChecksum(payload: string): string {
+  return crc32(new TextEncoder().encode(payload)).toString(16).padStart(8, '0');
+}
+
+/**
+ * Check if a payload should be shown as a frame sequence
+ */
+export function needsMultiPartQR(text: string): boolean {
+  return text.length > QR_SINGLE_CODE_LIMIT;
+}
+
+/**
+ * Split a payload into QR frame texts
+ */
+export function splitQrFrames(payload: string, chunkSize: number = QR_FRAME_CHUNK_SIZE): string[] {
+  const checksum = payloadChecksum(payload);
+  const total = Math.max(1, Math.ceil(payload.length / chunkSize));
+  const frames: string[] = [];
+
+  for (let i = 0; i < total; i++) {
+    const data = payload.slice(i * chunkSize, (i + 1) * chunkSize);
+    frames.push(`${QR_FRAME_PREFIX}:${i + 1}/${total}:${checksum}:${data}`);
+  }
+  return frames;
+}
+
+/**
+ * Parse a scanned QR text as a transfer frame
+ * Returns null for anything else (e.g. a plain share link)
+ */
+export function parseQrFrame(text: string): QrFrame | null {
+  const match = FRAME_PATTERN.exec(text);
+  if (!match) return null;
+
+  const index = Number(match[1]);
+  const total = Number(match[2]);
+  if (total < 1 || index < 1 || index > total) return null;
+
+  return { index, total, checksum: match[3], data: match[4] };
+}
+
+/**
+ * Record a scanned frame
+ * A frame from another transfer starts over, so mixing two senders never
+ * produces a corrupted payload
+ */
+export function addQrFrame(progress: QrTransferProgress | null, frame: QrFrame): QrTransferProgress {
+  const sameTransfer =
+    progress !== null && progress.checksum === frame.checksum && progress.total === frame.total;
+  if (sameTransfer && progress.parts[frame.index] === frame.data) return progress;
+
+  return {
+    total: frame.total,
+    checksum: frame.checksum,
+    parts: { ...(sameTransfer ? progress.parts : {}), [frame.index]: frame.data },
+  };
+}
+
+/**
+ * Indexes of frames not scanned yet
+ */
+export function missingQrFrames(progress: QrTransferProgress): number[] {
+  const missing: number[] = [];
+  for (let i = 1; i <= progress.total; i++) {
+    if (progress.parts[i] === undefined) missing.push(i);
+  }
+  return missing;
+}
+
+/**
+ * Rebuild the payload once every frame has been scanned
+ * Returns null while frames are missing; throws when the checksum does not match
+ */
+export function assembleQrFrames(progress: QrTransferProgress): string | null {
+  if (missingQrFrames(progress).length > 0) return null;
+
+  let payload = '';
+  for (let i = 1; i <= progress.total; i++) {
+    payload += progress.parts[i];
+  }
+
+  if (payloadChecksum(payload) !== progress.checksum) {
+    throw new Error('Dữ liệu quét được bị lỗi, hãy quét lại từ đầu');
+  }
+  return payload;
+}
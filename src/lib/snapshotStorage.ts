@@ -1,8 +1,41 @@
 /**
- * localStorage management for named calculator saves
+ * Storage management for named calculator saves
  * Provides CRUD operations and import/export functionality
+ * Saves live in IndexedDB, with localStorage as the fallback backend
  */
-import { NamedSave, CalculatorSnapshot, SaveExportData, DEFAULT_TAB_STATES } from './snapshotTypes';
+import {
+  NamedSave,
+  CalculatorSnapshot,
+  EvidenceAttachment,
+  EvidenceKind,
+  EvidenceTarget,
+  SaveExportData,
+  EncryptedSaveExportData,
+  DEFAULT_TAB_STATES,
+  DEFAULT_TAXPAYER_PROFILE,
+  CURRENT_SNAPSHOT_VERSION,
+  mergeSnapshotWithDefaults,
+} from './snapshotTypes';
+import { migrateSnapshot } from './snapshotMigrations';
+import { validateSnapshot } from './snapshotValidation';
+import { applyTaxpayerProfile } from './taxpayerProfile';
+import { encryptText, decryptText } from './snapshotCrypto';
+import {
+  SaveStorageBackend,
+  StorageBackendKind,
+  createIndexedDBBackend,
+  createLocalStorageBackend,
+  estimateBytes,
+  isQuotaExceededError,
+} from './snapshotStorageBackend';
+import {
+  validateEvidenceFile,
+  evidenceZipPath,
+  parseEvidenceZipPath,
+  bytesToBase64,
+  base64ToBytes,
+} from './snapshotEvidence';
+import { createZip, readZip } from './zipArchive';
 import { SharedTaxState, DEFAULT_INSURANCE_OPTIONS, DEFAULT_OTHER_INCOME } from './taxCalculator';
 
 const STORAGE_KEY = 'tax-calculator-saves';
@@ -10,6 +43,9 @@ const OLD_HISTORY_KEY = 'tax-calculator-history';
 const MIGRATION_FLAG_KEY = 'tax-calculator-migrated-v2';
 const STORAGE_VERSION = 1;
 const MAX_SAVES = 50;
+const ZIP_SAVES_ENTRY = 'saves.json';
+// Warn once storage use passes this share of the quota
+const NEAR_QUOTA_RATIO = 0.8;
 
 /**
  * Old history item format (for migration)
@@ -58,12 +94,13 @@ function migrateOldHistory(): void {
     // Convert old items to new format
     const migratedSaves: NamedSave[] = oldHistory.map((item) => {
       const snapshot: CalculatorSnapshot = {
-        version: 1,
+        version: CURRENT_SNAPSHOT_VERSION,
         sharedState: {
           ...item.state,
           insuranceOptions: item.state.insuranceOptions || { ...DEFAULT_INSURANCE_OPTIONS },
           otherIncome: item.state.otherIncome || { ...DEFAULT_OTHER_INCOME },
         },
+        profile: { ...DEFAULT_TAXPAYER_PROFILE },
         activeTab: 'calculator',
         tabs: { ...DEFAULT_TAB_STATES },
         meta: {
@@ -101,8 +138,6 @@ function migrateOldHistory(): void {
     // Clear old history and set migration flag
     localStorage.removeItem(OLD_HISTORY_KEY);
     localStorage.setItem(MIGRATION_FLAG_KEY, 'true');
-
-    console.log(`Migrated ${newSaves.length} items from old history format`);
   } catch (error) {
     console.error('Failed to migrate old history:', error);
     // Set flag anyway to prevent retry loops
@@ -111,20 +146,142 @@ function migrateOldHistory(): void {
 }
 
 /**
- * Get all named saves from localStorage
- * Returns empty array if storage unavailable or corrupted
+ * Upgrade a save's snapshot to the current schema version and reset invalid fields
+ * Returns null when the snapshot is unreadable or comes from a newer app version
  */
-export function getNamedSaves(): NamedSave[] {
-  if (typeof window === 'undefined') return [];
+function migrateNamedSave(save: NamedSave): NamedSave | null {
+  const migrated = migrateSnapshot(save.snapshot);
+  if (!migrated) return null;
+
+  const validated = validateSnapshot(migrated.snapshot);
+  if (migrated.report.fromVersion === migrated.report.toVersion && validated.changes.length === 0) {
+    return save;
+  }
+
+  return {
+    ...save,
+    snapshot: applyTaxpayerProfile(mergeSnapshotWithDefaults(validated.snapshot)),
+    migration: {
+      ...migrated.report,
+      changes: [...migrated.report.changes, ...validated.changes],
+    },
+  };
+}
+
+let backendPromise: Promise<SaveStorageBackend> | null = null;
+let pendingOperation: Promise<unknown> = Promise.resolve();
+
+/**
+ * Open IndexedDB and move saves still held in localStorage into it
+ * Falls back to localStorage when IndexedDB cannot be used or the move fails,
+ * so saves are never dropped on the way
+ */
+async function initBackend(): Promise<SaveStorageBackend> {
+  // Old history format is converted into localStorage saves first
+  try {
+    migrateOldHistory();
+  } catch (error) {
+    console.error('Failed to migrate old history:', error);
+  }
 
-  // Run migration on first access
-  migrateOldHistory();
+  const localBackend = createLocalStorageBackend(STORAGE_KEY);
+  let indexedDBBackend: SaveStorageBackend;
+  try {
+    // A closed connection cannot be reused: the next operation opens the database again
+    indexedDBBackend = await createIndexedDBBackend(() => {
+      backendPromise = null;
+    });
+  } catch (error) {
+    console.warn('IndexedDB unavailable, using localStorage:', error);
+    return localBackend;
+  }
 
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (!data) return [];
+    const localSaves = await localBackend.readAll();
+    if (localSaves.length > 0) {
+      const existingSaves = await indexedDBBackend.readAll();
+      const existingIds = new Set(existingSaves.map(s => s.id));
+      const movedSaves = localSaves.filter(s => !existingIds.has(s.id));
+      await indexedDBBackend.writeAll([...existingSaves, ...movedSaves]);
+      await localBackend.clear();
+    }
+  } catch (error) {
+    console.error('Failed to move saves to IndexedDB, keeping localStorage:', error);
+    return localBackend;
+  }
 
-    const saves = JSON.parse(data) as NamedSave[];
+  return indexedDBBackend;
+}
+
+function getBackend(): Promise<SaveStorageBackend> {
+  if (!backendPromise) {
+    backendPromise = initBackend();
+  }
+  return backendPromise;
+}
+
+/**
+ * Run storage operations one at a time so read-modify-write cycles don't interleave
+ */
+function runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+  const result = pendingOperation.then(operation, operation);
+  pendingOperation = result.catch(() => undefined);
+  return result;
+}
+
+function attachmentIds(saves: NamedSave[]): Set<string> {
+  return new Set(saves.flatMap(save => (save.attachments ?? []).map(a => a.id)));
+}
+
+/**
+ * Write all saves, turning a full storage into a clear error
+ * Existing saves are left untouched when the write fails; evidence files no
+ * longer referenced by any save are removed afterwards
+ */
+async function writeSaves(saves: NamedSave[], failureMessage: string, previous: NamedSave[] = []): Promise<void> {
+  const backend = await getBackend();
+  try {
+    await backend.writeAll(saves);
+  } catch (error) {
+    console.error('Failed to write saves:', error);
+    if (isQuotaExceededError(error)) throw error;
+    throw new Error(failureMessage);
+  }
+
+  const kept = attachmentIds(saves);
+  const orphaned = Array.from(attachmentIds(previous)).filter(id => !kept.has(id));
+  try {
+    await backend.deleteFiles(orphaned);
+  } catch (error) {
+    console.error('Failed to delete evidence files:', error);
+  }
+}
+
+/**
+ * Load, upgrade and sort saves (callers hold the exclusive lock)
+ */
+async function loadSaves(): Promise<NamedSave[]> {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const backend = await getBackend();
+    const storedSaves = await backend.readAll();
+
+    // Upgrade old snapshots and persist them so migrations run once
+    // Saves from a newer app version are kept untouched
+    let hasMigrated = false;
+    const saves = storedSaves.map(save => {
+      const migrated = migrateNamedSave(save) ?? save;
+      if (migrated !== save) hasMigrated = true;
+      return migrated;
+    });
+    if (hasMigrated) {
+      try {
+        await backend.writeAll(saves);
+      } catch (error) {
+        console.error('Failed to persist migrated saves:', error);
+      }
+    }
 
     // Sort by updatedAt descending (most recent first)
     return saves.sort((a, b) => b.updatedAt - a.updatedAt);
@@ -134,125 +291,183 @@ export function getNamedSaves(): NamedSave[] {
   }
 }
 
+/**
+ * Get all named saves, most recent first
+ * Returns empty array if storage unavailable or corrupted
+ */
+export function getNamedSaves(): Promise<NamedSave[]> {
+  return runExclusive(loadSaves);
+}
+
 /**
  * Get a single save by ID
  */
-export function getNamedSave(id: string): NamedSave | null {
-  const saves = getNamedSaves();
+export async function getNamedSave(id: string): Promise<NamedSave | null> {
+  const saves = await getNamedSaves();
   return saves.find(save => save.id === id) || null;
 }
 
 /**
  * Save a new named snapshot
  * Automatically limits to MAX_SAVES
+ * Throws StorageQuotaError when the browser storage is full
  */
 export function saveNamedSave(
   snapshot: CalculatorSnapshot,
   label: string,
   description?: string
-): NamedSave {
-  const saves = getNamedSaves();
-  const now = Date.now();
-
-  // Deep clone snapshot to avoid mutations
-  const newSave: NamedSave = {
-    id: generateId(),
-    label,
-    description,
-    snapshot: {
-      ...snapshot,
-      sharedState: {
-        ...snapshot.sharedState,
-        insuranceOptions: { ...snapshot.sharedState.insuranceOptions },
-        otherIncome: snapshot.sharedState.otherIncome
-          ? { ...snapshot.sharedState.otherIncome }
-          : undefined,
-      },
-      tabs: {
-        employerCost: { ...snapshot.tabs.employerCost },
-        freelancer: {
-          ...snapshot.tabs.freelancer,
-          creatorIncomeSources: snapshot.tabs.freelancer.creatorIncomeSources?.map(s => ({ ...s })) || [],
-        },
-        salaryComparison: {
-          ...snapshot.tabs.salaryComparison,
-          companies: snapshot.tabs.salaryComparison.companies.map(c => ({ ...c })),
-        },
-        yearlyComparison: { ...snapshot.tabs.yearlyComparison },
-        overtime: {
-          ...snapshot.tabs.overtime,
-          entries: snapshot.tabs.overtime.entries.map(e => ({ ...e })),
-        },
-        annualSettlement: {
-          ...snapshot.tabs.annualSettlement,
-          insuranceOptions: { ...snapshot.tabs.annualSettlement.insuranceOptions },
-          monthlyIncome: snapshot.tabs.annualSettlement.monthlyIncome.map(m => ({ ...m })),
-          dependents: snapshot.tabs.annualSettlement.dependents.map(d => ({ ...d })),
-        },
-        bonus: { ...snapshot.tabs.bonus },
-        esop: { ...snapshot.tabs.esop },
-        pension: { ...snapshot.tabs.pension },
-        foreignerTax: {
-          ...snapshot.tabs.foreignerTax,
-          allowances: { ...snapshot.tabs.foreignerTax.allowances },
-        },
-        latePayment: { ...snapshot.tabs.latePayment },
-        businessFormComparison: { ...snapshot.tabs.businessFormComparison },
-        severance: { ...snapshot.tabs.severance },
-        vat: { ...snapshot.tabs.vat },
-        withholdingTax: { ...snapshot.tabs.withholdingTax },
-        multiSourceIncome: {
-          ...snapshot.tabs.multiSourceIncome,
-          incomeSources: snapshot.tabs.multiSourceIncome.incomeSources.map(s => ({ ...s })),
-        },
-        taxTreaty: { ...snapshot.tabs.taxTreaty },
-        coupleOptimizer: { ...snapshot.tabs.coupleOptimizer },
-        contentCreator: {
-          ...snapshot.tabs.contentCreator,
-          incomeSources: snapshot.tabs.contentCreator?.incomeSources?.map(s => ({ ...s })) || [],
-        },
-        cryptoTax: {
-          ...snapshot.tabs.cryptoTax,
-          transactions: snapshot.tabs.cryptoTax?.transactions?.map(t => ({ ...t })) || [],
+): Promise<NamedSave> {
+  return runExclusive(async () => {
+    const saves = await loadSaves();
+    const now = Date.now();
+
+    // Deep clone snapshot to avoid mutations
+    const newSave: NamedSave = {
+      id: generateId(),
+      label,
+      description,
+      snapshot: {
+        ...snapshot,
+        sharedState: {
+          ...snapshot.sharedState,
+          insuranceOptions: { ...snapshot.sharedState.insuranceOptions },
+          otherIncome: snapshot.sharedState.otherIncome
+            ? { ...snapshot.sharedState.otherIncome }
+            : undefined,
         },
-        goldTax: {
-          ...snapshot.tabs.goldTax,
-          transactions: snapshot.tabs.goldTax?.transactions?.map(t => ({ ...t })) || [],
+        tabs: {
+          employerCost: { ...snapshot.tabs.employerCost },
+          freelancer: {
+            ...snapshot.tabs.freelancer,
+            creatorIncomeSources: snapshot.tabs.freelancer.creatorIncomeSources?.map(s => ({ ...s })) || [],
+          },
+          salaryComparison: {
+            ...snapshot.tabs.salaryComparison,
+            companies: snapshot.tabs.salaryComparison.companies.map(c => ({ ...c })),
+          },
+          yearlyComparison: { ...snapshot.tabs.yearlyComparison },
+          overtime: {
+            ...snapshot.tabs.overtime,
+            entries: snapshot.tabs.overtime.entries.map(e => ({ ...e })),
+          },
+          annualSettlement: {
+            ...snapshot.tabs.annualSettlement,
+            insuranceOptions: { ...snapshot.tabs.annualSettlement.insuranceOptions },
+            monthlyIncome: snapshot.tabs.annualSettlement.monthlyIncome.map(m => ({ ...m })),
+            dependents: snapshot.tabs.annualSettlement.dependents.map(d => ({ ...d })),
+            payers: (snapshot.tabs.annualSettlement.payers ?? []).map(p => ({
+              ...p,
+              monthlyIncome: p.monthlyIncome.map(m => ({ ...m })),
+            })),
+          },
+          bonus: { ...snapshot.tabs.bonus },
+          esop: { ...snapshot.tabs.esop },
+          pension: { ...snapshot.tabs.pension },
+          foreignerTax: {
+            ...snapshot.tabs.foreignerTax,
+            allowances: { ...snapshot.tabs.foreignerTax.allowances },
+          },
+          latePayment: { ...snapshot.tabs.latePayment },
+          businessFormComparison: { ...snapshot.tabs.businessFormComparison },
+          severance: { ...snapshot.tabs.severance },
+          vat: { ...snapshot.tabs.vat },
+          withholdingTax: { ...snapshot.tabs.withholdingTax },
+          multiSourceIncome: {
+            ...snapshot.tabs.multiSourceIncome,
+            incomeSources: snapshot.tabs.multiSourceIncome.incomeSources.map(s => ({ ...s })),
+          },
+          taxTreaty: { ...snapshot.tabs.taxTreaty },
+          coupleOptimizer: { ...snapshot.tabs.coupleOptimizer },
+          contentCreator: {
+            ...snapshot.tabs.contentCreator,
+            incomeSources: snapshot.tabs.contentCreator?.incomeSources?.map(s => ({ ...s })) || [],
+          },
+          cryptoTax: {
+            ...snapshot.tabs.cryptoTax,
+            transactions: snapshot.tabs.cryptoTax?.transactions?.map(t => ({ ...t })) || [],
+          },
+          goldTax: {
+            ...snapshot.tabs.goldTax,
+            transactions: snapshot.tabs.goldTax?.transactions?.map(t => ({ ...t })) || [],
+          },
+          monthlyPlanner: {
+            ...snapshot.tabs.monthlyPlanner,
+            months: snapshot.tabs.monthlyPlanner?.months?.map(m => ({ ...m })) || [],
+          },
+          mortgage: { ...snapshot.tabs.mortgage },
+          securities: {
+            ...snapshot.tabs.securities,
+            transactions: snapshot.tabs.securities?.transactions?.map(t => ({ ...t })) || [],
+            dividends: snapshot.tabs.securities?.dividends?.map(d => ({ ...d })) || [],
+            bonds: snapshot.tabs.securities?.bonds?.map(b => ({ ...b })) || [],
+          },
+          rentalIncome: {
+            ...snapshot.tabs.rentalIncome,
+            properties: snapshot.tabs.rentalIncome?.properties?.map(p => ({
+              ...p,
+              expenses: { ...p.expenses },
+            })) || [],
+          },
+          householdBusiness: {
+            ...snapshot.tabs.householdBusiness,
+            businesses: snapshot.tabs.householdBusiness?.businesses?.map(b => ({ ...b })) || [],
+          },
+          realEstateTransfer: {
+            ...snapshot.tabs.realEstateTransfer,
+            transfers: snapshot.tabs.realEstateTransfer?.transfers?.map(t => ({ ...t })) || [],
+          },
+          inheritanceGift: {
+            ...snapshot.tabs.inheritanceGift,
+            assets: snapshot.tabs.inheritanceGift?.assets?.map(a => ({ ...a })) || [],
+          },
+          exemptionChecker: {
+            ...snapshot.tabs.exemptionChecker,
+            conditionAnswers: { ...snapshot.tabs.exemptionChecker?.conditionAnswers },
+          },
+          taxDocument: {
+            ...snapshot.tabs.taxDocument,
+            personalInfo: { ...snapshot.tabs.taxDocument?.personalInfo },
+          },
+          specialIncome: { ...snapshot.tabs.specialIncome },
+          taxDeadline: {
+            ...snapshot.tabs.taxDeadline,
+            customDeadlines: snapshot.tabs.taxDeadline?.customDeadlines?.map(d => ({
+              ...d,
+              reminderDays: [...d.reminderDays],
+            })) || [],
+            completedIds: [...(snapshot.tabs.taxDeadline?.completedIds || [])],
+          },
+          incomeSummary: {
+            ...snapshot.tabs.incomeSummary,
+            entries: snapshot.tabs.incomeSummary?.entries?.map(e => ({ ...e })) || [],
+          },
+          regionCompare: { ...snapshot.tabs.regionCompare },
+          salarySlip: {
+            company: { ...snapshot.tabs.salarySlip?.company },
+            employee: { ...snapshot.tabs.salarySlip?.employee },
+            payPeriod: { ...snapshot.tabs.salarySlip?.payPeriod },
+            earnings: {
+              ...snapshot.tabs.salarySlip?.earnings,
+              allowances: snapshot.tabs.salarySlip?.earnings?.allowances?.map(a => ({ ...a })) || [],
+            },
+            deductions: { ...snapshot.tabs.salarySlip?.deductions },
+          },
         },
-        monthlyPlanner: {
-          ...snapshot.tabs.monthlyPlanner,
-          months: snapshot.tabs.monthlyPlanner?.months?.map(m => ({ ...m })) || [],
+        meta: {
+          ...snapshot.meta,
+          createdAt: snapshot.meta.createdAt || now,
         },
-        mortgage: { ...snapshot.tabs.mortgage },
-      },
-      meta: {
-        ...snapshot.meta,
-        createdAt: snapshot.meta.createdAt || now,
       },
-    },
-    createdAt: now,
-    updatedAt: now,
-  };
+      createdAt: now,
+      updatedAt: now,
+    };
 
-  // Add to beginning, limit to MAX_SAVES
-  const updatedSaves = [newSave, ...saves].slice(0, MAX_SAVES);
+    // Add to beginning, limit to MAX_SAVES
+    const updatedSaves = [newSave, ...saves].slice(0, MAX_SAVES);
 
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedSaves));
+    await writeSaves(updatedSaves, 'Không thể lưu', saves);
     return newSave;
-  } catch (error) {
-    console.error('Failed to save:', error);
-
-    // Storage full - try to save with fewer items
-    try {
-      const trimmedSaves = updatedSaves.slice(0, 20);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmedSaves));
-      return newSave;
-    } catch (innerError) {
-      console.error('Failed to save even after trimming:', innerError);
-      throw new Error('Bộ nhớ đầy, không thể lưu');
-    }
-  }
+  });
 }
 
 /**
@@ -262,111 +477,335 @@ export function saveNamedSave(
 export function updateNamedSave(
   id: string,
   updates: Partial<Pick<NamedSave, 'label' | 'description' | 'snapshot'>>
-): void {
-  const saves = getNamedSaves();
-  const updatedSaves = saves.map(save =>
-    save.id === id
-      ? { ...save, ...updates, updatedAt: Date.now() }
-      : save
-  );
+): Promise<void> {
+  return runExclusive(async () => {
+    const saves = await loadSaves();
+    const updatedSaves = saves.map(save =>
+      save.id === id
+        ? { ...save, ...updates, updatedAt: Date.now() }
+        : save
+    );
 
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedSaves));
-  } catch (error) {
-    console.error('Failed to update save:', error);
-    throw new Error('Không thể cập nhật');
-  }
+    await writeSaves(updatedSaves, 'Không thể cập nhật', saves);
+  });
 }
 
 /**
  * Delete a named save by ID
  */
-export function deleteNamedSave(id: string): void {
-  const saves = getNamedSaves();
-  const updatedSaves = saves.filter(save => save.id !== id);
-
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedSaves));
-  } catch (error) {
-    console.error('Failed to delete save:', error);
-  }
+export function deleteNamedSave(id: string): Promise<void> {
+  return deleteMultipleSaves([id]);
 }
 
 /**
  * Delete multiple saves by IDs
  */
-export function deleteMultipleSaves(ids: string[]): void {
-  const saves = getNamedSaves();
-  const idsSet = new Set(ids);
-  const updatedSaves = saves.filter(save => !idsSet.has(save.id));
+export function deleteMultipleSaves(ids: string[]): Promise<void> {
+  return runExclusive(async () => {
+    const saves = await loadSaves();
+    const idsSet = new Set(ids);
+    const updatedSaves = saves.filter(save => !idsSet.has(save.id));
 
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedSaves));
-  } catch (error) {
-    console.error('Failed to delete saves:', error);
-  }
+    try {
+      await writeSaves(updatedSaves, 'Không thể xóa', saves);
+    } catch (error) {
+      console.error('Failed to delete saves:', error);
+    }
+  });
+}
+
+/**
+ * Attach an evidence file (PDF or image) to a save
+ * The file is stored before the save refers to it, so a failed write never
+ * leaves an attachment without its file
+ */
+export function addEvidence(
+  saveId: string,
+  file: Blob,
+  details: { fileName: string; kind: EvidenceKind; target: EvidenceTarget; note?: string }
+): Promise<EvidenceAttachment> {
+  return runExclusive(async () => {
+    const invalid = validateEvidenceFile(file);
+    if (invalid) throw new Error(invalid);
+
+    const saves = await loadSaves();
+    if (!saves.some(save => save.id === saveId)) {
+      throw new Error('Không tìm thấy bản lưu');
+    }
+
+    const now = Date.now();
+    const attachment: EvidenceAttachment = {
+      id: generateId(),
+      kind: details.kind,
+      target: details.target,
+      fileName: details.fileName,
+      mimeType: file.type,
+      size: file.size,
+      addedAt: now,
+      note: details.note,
+    };
+
+    const backend = await getBackend();
+    await backend.putFile(attachment.id, file);
+
+    const updatedSaves = saves.map(save =>
+      save.id === saveId
+        ? { ...save, attachments: [...(save.attachments ?? []), attachment], updatedAt: now }
+        : save
+    );
+    try {
+      await writeSaves(updatedSaves, 'Không thể lưu tài liệu đính kèm', saves);
+    } catch (error) {
+      await backend.deleteFiles([attachment.id]).catch(() => undefined);
+      throw error;
+    }
+    return attachment;
+  });
+}
+
+/**
+ * Remove an evidence file from a save
+ */
+export function removeEvidence(saveId: string, attachmentId: string): Promise<void> {
+  return runExclusive(async () => {
+    const saves = await loadSaves();
+    const updatedSaves = saves.map(save =>
+      save.id === saveId
+        ? { ...save, attachments: (save.attachments ?? []).filter(a => a.id !== attachmentId), updatedAt: Date.now() }
+        : save
+    );
+
+    await writeSaves(updatedSaves, 'Không thể xóa tài liệu đính kèm', saves);
+  });
+}
+
+/**
+ * Read the contents of an evidence file
+ */
+export async function getEvidenceFile(attachmentId: string): Promise<Blob | null> {
+  const backend = await getBackend();
+  return backend.getFile(attachmentId);
+}
+
+/**
+ * Check if evidence files can be stored (needs IndexedDB)
+ */
+export async function isEvidenceStorageAvailable(): Promise<boolean> {
+  if (typeof window === 'undefined') return false;
+  const backend = await getBackend();
+  return backend.supportsFiles;
 }
 
 /**
  * Clear all named saves
  */
-export function clearAllSaves(): void {
-  try {
-    localStorage.removeItem(STORAGE_KEY);
-  } catch (error) {
-    console.error('Failed to clear saves:', error);
+export function clearAllSaves(): Promise<void> {
+  return runExclusive(async () => {
+    try {
+      const backend = await getBackend();
+      await backend.clear();
+    } catch (error) {
+      console.error('Failed to clear saves:', error);
+    }
+  });
+}
+
+async function getExportedSaves(saveIds?: string[]): Promise<NamedSave[]> {
+  const allSaves = await getNamedSaves();
+
+  return saveIds
+    ? allSaves.filter(save => saveIds.includes(save.id))
+    : allSaves;
+}
+
+/**
+ * Read the evidence files of the given saves; missing files are skipped
+ */
+async function readEvidenceFiles(saves: NamedSave[]): Promise<Map<EvidenceAttachment, Uint8Array>> {
+  const backend = await getBackend();
+  const files = new Map<EvidenceAttachment, Uint8Array>();
+  for (const attachment of saves.flatMap(save => save.attachments ?? [])) {
+    const blob = await backend.getFile(attachment.id);
+    if (blob) {
+      files.set(attachment, new Uint8Array(await blob.arrayBuffer()));
+    }
   }
+  return files;
 }
 
 /**
  * Export saves to JSON string
  * Can export all saves or a subset by IDs
+ * Evidence files are not included; use exportToZip for a full backup
  */
-export function exportToJSON(saveIds?: string[]): string {
-  const allSaves = getNamedSaves();
+export async function exportToJSON(saveIds?: string[]): Promise<string> {
+  const exportData: SaveExportData = {
+    version: STORAGE_VERSION,
+    exportedAt: Date.now(),
+    saves: await getExportedSaves(saveIds),
+  };
 
-  const saves = saveIds
-    ? allSaves.filter(save => saveIds.includes(save.id))
-    : allSaves;
+  return JSON.stringify(exportData, null, 2);
+}
 
+/**
+ * Count evidence files attached to the exported saves
+ */
+export async function countEvidence(saveIds?: string[]): Promise<number> {
+  const saves = await getExportedSaves(saveIds);
+  return saves.reduce((sum, save) => sum + (save.attachments?.length ?? 0), 0);
+}
+
+/**
+ * Export saves with their evidence files as a zip backup
+ * The zip holds the exportToJSON data as saves.json plus one entry per file
+ */
+export async function exportToZip(saveIds?: string[]): Promise<Uint8Array> {
+  const saves = await getExportedSaves(saveIds);
   const exportData: SaveExportData = {
     version: STORAGE_VERSION,
     exportedAt: Date.now(),
     saves,
   };
 
+  const files = await readEvidenceFiles(saves);
+  return createZip([
+    { name: ZIP_SAVES_ENTRY, data: new TextEncoder().encode(JSON.stringify(exportData, null, 2)) },
+    ...Array.from(files, ([attachment, data]) => ({ name: evidenceZipPath(attachment), data })),
+  ]);
+}
+
+/**
+ * Export saves to a passphrase-protected JSON string
+ * Evidence files are embedded as base64 so the whole backup stays encrypted
+ */
+export async function exportToEncryptedJSON(passphrase: string, saveIds?: string[]): Promise<string> {
+  const saves = await getExportedSaves(saveIds);
+  const files = await readEvidenceFiles(saves);
+  const plainData: SaveExportData = {
+    version: STORAGE_VERSION,
+    exportedAt: Date.now(),
+    saves,
+  };
+  if (files.size > 0) {
+    plainData.evidenceFiles = Object.fromEntries(
+      Array.from(files, ([attachment, data]) => [attachment.id, bytesToBase64(data)])
+    );
+  }
+
+  const exportData: EncryptedSaveExportData = {
+    version: STORAGE_VERSION,
+    exportedAt: Date.now(),
+    encrypted: true,
+    payload: await encryptText(JSON.stringify(plainData), passphrase),
+  };
+
   return JSON.stringify(exportData, null, 2);
 }
 
 /**
- * Import saves from JSON string
- * Merges with existing saves, avoiding duplicates
+ * Check if a backup file was exported with a passphrase
  */
-export function importFromJSON(jsonString: string): {
+export function isEncryptedExport(jsonString: string): boolean {
+  try {
+    const data = JSON.parse(jsonString) as Partial<EncryptedSaveExportData>;
+    return data.encrypted === true && typeof data.payload === 'string';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decrypt a protected backup back to the plain JSON accepted by importFromJSON
+ * Throws when the passphrase is wrong
+ */
+export async function decryptExport(jsonString: string, passphrase: string): Promise<string> {
+  const data = JSON.parse(jsonString) as EncryptedSaveExportData;
+  return decryptText(data.payload, passphrase);
+}
+
+export interface ImportResult {
   success: boolean;
   count: number;
+  migrated?: number;
+  skipped?: number;
+  // Evidence files restored, and attachments dropped because their file was missing or unsupported
+  evidence?: number;
+  skippedEvidence?: number;
   error?: string;
-} {
-  try {
-    const data = JSON.parse(jsonString) as SaveExportData;
+}
 
-    // Validate structure
-    if (!data.saves || !Array.isArray(data.saves)) {
-      return {
-        success: false,
-        count: 0,
-        error: 'Định dạng file không hợp lệ'
-      };
-    }
+/**
+ * Merge exported saves into storage, storing their evidence files first
+ * Callers hold the exclusive lock
+ */
+async function importExportData(data: SaveExportData, files: Map<string, Uint8Array>): Promise<ImportResult> {
+  // Validate structure
+  if (!data.saves || !Array.isArray(data.saves)) {
+    return {
+      success: false,
+      count: 0,
+      error: 'Định dạng file không hợp lệ'
+    };
+  }
 
-    // Validate version
-    if (data.version !== STORAGE_VERSION) {
-      console.warn(`Import version mismatch: ${data.version} vs ${STORAGE_VERSION}`);
-      // Continue anyway - we'll try to import
-    }
+  // Validate version
+  if (data.version !== STORAGE_VERSION) {
+    console.warn(`Import version mismatch: ${data.version} vs ${STORAGE_VERSION}`);
+    // Continue anyway - we'll try to import
+  }
+
+  const currentSaves = await loadSaves();
 
-    const currentSaves = getNamedSaves();
-    const importedSaves = data.saves;
+  // Upgrade old snapshots; skip unreadable ones and ones from a newer app version
+  const importedSaves: NamedSave[] = [];
+  let migratedCount = 0;
+  for (const save of data.saves) {
+    const migrated = save && typeof save === 'object' ? migrateNamedSave(save) : null;
+    if (!migrated) continue;
+    if (migrated !== save) migratedCount++;
+    importedSaves.push(migrated);
+  }
+  const skippedCount = data.saves.length - importedSaves.length;
+
+  if (importedSaves.length === 0) {
+    return {
+      success: false,
+      count: 0,
+      skipped: skippedCount,
+      error: 'Không có bản lưu nào đọc được (file có thể từ phiên bản mới hơn)',
+    };
+  }
+
+  const backend = await getBackend();
+  const existingFileIds = attachmentIds(currentSaves);
+  const storedFileIds: string[] = [];
+  let evidenceCount = 0;
+  let skippedEvidence = 0;
+
+  try {
+    // Store evidence files before the saves that refer to them
+    // Files already held by an existing save are the same file and are not rewritten
+    for (let i = 0; i < importedSaves.length; i++) {
+      const save = importedSaves[i];
+      if (!save.attachments) continue;
+
+      const attachments: EvidenceAttachment[] = [];
+      for (const attachment of save.attachments) {
+        const fileData = files.get(attachment.id);
+        if (!existingFileIds.has(attachment.id)) {
+          if (!fileData || !backend.supportsFiles) {
+            skippedEvidence++;
+            continue;
+          }
+          await backend.putFile(attachment.id, new Blob([new Uint8Array(fileData)], { type: attachment.mimeType }));
+          storedFileIds.push(attachment.id);
+        }
+        attachments.push(attachment);
+        evidenceCount++;
+      }
+      importedSaves[i] = { ...save, attachments };
+    }
 
     // Create a map of current saves by ID
     const currentSavesMap = new Map(currentSaves.map(s => [s.id, s]));
@@ -391,45 +830,140 @@ export function importFromJSON(jsonString: string): {
     // Limit to MAX_SAVES
     const finalSaves = mergedSaves.slice(0, MAX_SAVES);
 
-    // Save to localStorage
+    // Save to storage; existing saves are kept when this fails
+    await writeSaves(finalSaves, 'Không thể import', currentSaves);
+
+    // Files of imported saves cut off by MAX_SAVES
+    const keptFileIds = attachmentIds(finalSaves);
+    await backend.deleteFiles(storedFileIds.filter(id => !keptFileIds.has(id)));
+
+    return {
+      success: true,
+      count: importedSaves.length,
+      migrated: migratedCount,
+      skipped: skippedCount,
+      evidence: evidenceCount,
+      skippedEvidence,
+    };
+  } catch (error) {
+    await backend.deleteFiles(storedFileIds).catch(() => undefined);
+    return {
+      success: false,
+      count: 0,
+      error: isQuotaExceededError(error)
+        ? 'Bộ nhớ trình duyệt đã đầy, chưa nhập bản lưu nào. Hãy xóa bớt bản lưu cũ rồi thử lại.'
+        : 'Không thể import',
+    };
+  }
+}
+
+/**
+ * Import saves from JSON string
+ * Merges with existing saves, avoiding duplicates
+ */
+export function importFromJSON(jsonString: string): Promise<ImportResult> {
+  return runExclusive(async () => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(finalSaves));
-      return {
-        success: true,
-        count: importedSaves.length
-      };
+      if (isEncryptedExport(jsonString)) {
+        return {
+          success: false,
+          count: 0,
+          error: 'File được bảo vệ bằng mật khẩu',
+        };
+      }
+
+      const data = JSON.parse(jsonString) as SaveExportData;
+      const files = new Map(
+        Object.entries(data.evidenceFiles ?? {}).map(([id, base64]) => [id, base64ToBytes(base64)])
+      );
+      return await importExportData(data, files);
     } catch (error) {
       return {
         success: false,
         count: 0,
-        error: 'Bộ nhớ đầy, không thể import',
+        error: error instanceof Error ? error.message : 'Lỗi không xác định',
       };
     }
-  } catch (error) {
-    return {
-      success: false,
-      count: 0,
-      error: error instanceof Error ? error.message : 'Lỗi không xác định',
-    };
-  }
+  });
 }
 
 /**
- * Get storage usage statistics
+ * Import a zip backup created by exportToZip
  */
-export function getStorageStats(): {
+export function importFromZip(zipData: Uint8Array): Promise<ImportResult> {
+  return runExclusive(async () => {
+    try {
+      const entries = readZip(zipData);
+      const savesEntry = entries.find(entry => entry.name === ZIP_SAVES_ENTRY);
+      if (!savesEntry) {
+        return {
+          success: false,
+          count: 0,
+          error: 'File zip không chứa bản lưu',
+        };
+      }
+
+      const data = JSON.parse(new TextDecoder().decode(savesEntry.data)) as SaveExportData;
+      const files = new Map<string, Uint8Array>();
+      for (const entry of entries) {
+        const attachmentId = parseEvidenceZipPath(entry.name);
+        if (attachmentId) files.set(attachmentId, entry.data);
+      }
+      return await importExportData(data, files);
+    } catch (error) {
+      return {
+        success: false,
+        count: 0,
+        error: error instanceof Error ? error.message : 'Lỗi không xác định',
+      };
+    }
+  });
+}
+
+export interface StorageStats {
   count: number;
   maxSaves: number;
+  // Approximate size of all saves and their evidence files in bytes
   estimatedSize: number;
-} {
-  const saves = getNamedSaves();
-  const data = localStorage.getItem(STORAGE_KEY) || '';
+  backend: StorageBackendKind | null;
+  // Bytes used and available for this site, quota is null when unknown
+  usage: number;
+  quota: number | null;
+  nearQuota: boolean;
+}
 
-  return {
-    count: saves.length,
-    maxSaves: MAX_SAVES,
-    estimatedSize: data.length, // Size in characters
-  };
+/**
+ * Get storage usage statistics, including browser quota when reported
+ */
+export function getStorageStats(): Promise<StorageStats> {
+  return runExclusive(async () => {
+    const saves = await loadSaves();
+    const stats: StorageStats = {
+      count: saves.length,
+      maxSaves: MAX_SAVES,
+      estimatedSize: estimateBytes(saves) + saves.reduce(
+        (sum, save) => sum + (save.attachments ?? []).reduce((fileSum, a) => fileSum + a.size, 0),
+        0
+      ),
+      backend: null,
+      usage: 0,
+      quota: null,
+      nearQuota: false,
+    };
+    if (typeof window === 'undefined') return stats;
+
+    try {
+      const backend = await getBackend();
+      const { usage, quota } = await backend.estimate();
+      stats.backend = backend.kind;
+      stats.usage = usage;
+      stats.quota = quota;
+      stats.nearQuota = quota !== null && usage >= quota * NEAR_QUOTA_RATIO;
+    } catch (error) {
+      console.error('Failed to estimate storage:', error);
+    }
+    return stats;
+  });
 }
 
 /**
@@ -437,6 +971,7 @@ export function getStorageStats(): {
  */
 export function isStorageAvailable(): boolean {
   if (typeof window === 'undefined') return false;
+  if (typeof indexedDB !== 'undefined') return true;
 
   try {
     const test = '__storage_test__';
@@ -451,8 +986,8 @@ export function isStorageAvailable(): boolean {
 /**
  * Duplicate an existing save with a new label
  */
-export function duplicateNamedSave(id: string, newLabel?: string): NamedSave | null {
-  const original = getNamedSave(id);
+export async function duplicateNamedSave(id: string, newLabel?: string): Promise<NamedSave | null> {
+  const original = await getNamedSave(id);
   if (!original) return null;
 
   const label = newLabel || `${original.label} (copy)`;
@@ -462,8 +997,8 @@ export function duplicateNamedSave(id: string, newLabel?: string): NamedSave | n
 /**
  * Search saves by label or description
  */
-export function searchSaves(query: string): NamedSave[] {
-  const saves = getNamedSaves();
+export async function searchSaves(query: string): Promise<NamedSave[]> {
+  const saves = await getNamedSaves();
   const lowerQuery = query.toLowerCase();
 
   return saves.filter(save =>
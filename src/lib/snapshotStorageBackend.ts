@@ -0,0 +1,282 @@
+/**
+ * Storage backends for named calculator saves
+ * IndexedDB is the primary backend; localStorage is the fallback when IndexedDB
+ * is unavailable (private mode in some browsers, blocked storage)
+ */
+import { NamedSave } from './snapshotTypes';
+
+export type StorageBackendKind = 'indexeddb' | 'localstorage';
+
+export interface SaveStorageBackend {
+  kind: StorageBackendKind;
+  readAll(): Promise<NamedSave[]>;
+  // Replaces every save in one atomic write; existing data is untouched when it fails
+  writeAll(saves: NamedSave[]): Promise<void>;
+  // Removes every save and evidence file
+  clear(): Promise<void>;
+  estimate(): Promise<StorageEstimateInfo>;
+  // Evidence file contents by attachment id; the localStorage backend cannot hold files
+  supportsFiles: boolean;
+  putFile(id: string, data: Blob): Promise<void>;
+  getFile(id: string): Promise<Blob | null>;
+  deleteFiles(ids: string[]): Promise<void>;
+}
+
+export interface StorageEstimateInfo {
+  // Bytes used by this origin (all of localStorage for the fallback backend)
+  usage: number;
+  // Bytes available to this origin, null when the browser does not report it
+  quota: number | null;
+}
+
+/**
+ * Thrown when a write would not fit in the browser storage quota
+ * Nothing has been written when this is thrown
+ */
+export class StorageQuotaError extends Error {
+  constructor(message = 'Bộ nhớ trình duyệt đã đầy, bản lưu chưa được ghi. Hãy xuất file sao lưu hoặc xóa bớt bản lưu cũ.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const DB_NAME = 'tax-calculator';
+const DB_VERSION = 2;
+const SAVES_STORE = 'saves';
+// Added in version 2
+const EVIDENCE_STORE = 'evidence';
+
+// Browsers give localStorage about 5M UTF-16 characters per origin
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024 * 2;
+
+/**
+ * Approximate stored size of a value in bytes (UTF-16, as browsers count it)
+ */
+export function estimateBytes(value: unknown): number {
+  return JSON.stringify(value).length * 2;
+}
+
+/**
+ * Check if an error means the browser storage is full
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (error instanceof StorageQuotaError) return true;
+  if (typeof error !== 'object' || error === null) return false;
+
+  // DOMException names differ between browsers; 22 is the legacy quota error code
+  const { name, code } = error as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Giao dịch IndexedDB bị hủy'));
+  });
+}
+
+function openDatabase(onClose?: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SAVES_STORE)) {
+        db.createObjectStore(SAVES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(EVIDENCE_STORE)) {
+        db.createObjectStore(EVIDENCE_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version opened in another tab upgrade instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        onClose?.();
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // Blocked is not a failure: the open stays pending and succeeds once the
+    // other tab's connection closes (see onversionchange above)
+    request.onblocked = () => console.warn('IndexedDB upgrade waiting for another tab to close the database');
+  });
+}
+
+/**
+ * Origin-wide usage and quota from the Storage API, when supported
+ */
+async function estimateOriginStorage(): Promise<StorageEstimateInfo | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return { usage: usage ?? 0, quota: quota ?? null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Open the IndexedDB backend
+ * Rejects when IndexedDB is missing or cannot be opened; onClose runs when
+ * another tab upgrades or deletes the database and this connection is closed
+ */
+export async function createIndexedDBBackend(onClose?: () => void): Promise<SaveStorageBackend> {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error('Trình duyệt không hỗ trợ IndexedDB');
+  }
+  const db = await openDatabase(onClose);
+
+  const readAll = (): Promise<NamedSave[]> => {
+    const store = db.transaction(SAVES_STORE).objectStore(SAVES_STORE);
+    return requestToPromise(store.getAll() as IDBRequest<NamedSave[]>);
+  };
+
+  const estimate = async (): Promise<StorageEstimateInfo> => {
+    const origin = await estimateOriginStorage();
+    if (origin) return origin;
+    return { usage: estimateBytes(await readAll()), quota: null };
+  };
+
+  return {
+    kind: 'indexeddb',
+
+    readAll,
+
+    async writeAll(saves) {
+      // Refuse up front when the origin quota is known to be too small
+      const { usage, quota } = await estimate();
+      if (quota !== null) {
+        const currentSize = estimateBytes(await readAll());
+        if (usage - currentSize + estimateBytes(saves) > quota) {
+          throw new StorageQuotaError();
+        }
+      }
+
+      const transaction = db.transaction(SAVES_STORE, 'readwrite');
+      const store = transaction.objectStore(SAVES_STORE);
+      store.clear();
+      for (const save of saves) {
+        store.put(save);
+      }
+
+      try {
+        await transactionDone(transaction);
+      } catch (error) {
+        throw isQuotaExceededError(error) ? new StorageQuotaError() : error;
+      }
+    },
+
+    async clear() {
+      const transaction = db.transaction([SAVES_STORE, EVIDENCE_STORE], 'readwrite');
+      transaction.objectStore(SAVES_STORE).clear();
+      transaction.objectStore(EVIDENCE_STORE).clear();
+      await transactionDone(transaction);
+    },
+
+    estimate,
+
+    supportsFiles: true,
+
+    async putFile(id, data) {
+      const { usage, quota } = await estimate();
+      if (quota !== null && usage + data.size > quota) {
+        throw new StorageQuotaError();
+      }
+
+      const transaction = db.transaction(EVIDENCE_STORE, 'readwrite');
+      transaction.objectStore(EVIDENCE_STORE).put({ id, data });
+      try {
+        await transactionDone(transaction);
+      } catch (error) {
+        throw isQuotaExceededError(error) ? new StorageQuotaError() : error;
+      }
+    },
+
+    async getFile(id) {
+      const store = db.transaction(EVIDENCE_STORE).objectStore(EVIDENCE_STORE);
+      const record = await requestToPromise(store.get(id) as IDBRequest<{ id: string; data: Blob } | undefined>);
+      return record?.data ?? null;
+    },
+
+    async deleteFiles(ids) {
+      if (ids.length === 0) return;
+      const transaction = db.transaction(EVIDENCE_STORE, 'readwrite');
+      const store = transaction.objectStore(EVIDENCE_STORE);
+      for (const id of ids) {
+        store.delete(id);
+      }
+      await transactionDone(transaction);
+    },
+  };
+}
+
+/**
+ * Total characters held in localStorage by this origin, in bytes
+ */
+function localStorageUsage(): number {
+  let chars = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key) chars += key.length + (localStorage.getItem(key)?.length ?? 0);
+  }
+  return chars * 2;
+}
+
+/**
+ * localStorage backend keeping every save as one JSON array under a single key
+ */
+export function createLocalStorageBackend(storageKey: string): SaveStorageBackend {
+  return {
+    kind: 'localstorage',
+
+    async readAll() {
+      const data = localStorage.getItem(storageKey);
+      return data ? (JSON.parse(data) as NamedSave[]) : [];
+    },
+
+    async writeAll(saves) {
+      const data = JSON.stringify(saves);
+      const currentSize = (localStorage.getItem(storageKey)?.length ?? 0) * 2;
+      if (localStorageUsage() - currentSize + data.length * 2 > LOCAL_STORAGE_QUOTA) {
+        throw new StorageQuotaError();
+      }
+
+      try {
+        localStorage.setItem(storageKey, data);
+      } catch (error) {
+        throw isQuotaExceededError(error) ? new StorageQuotaError() : error;
+      }
+    },
+
+    async clear() {
+      localStorage.removeItem(storageKey);
+    },
+
+    async estimate() {
+      return { usage: localStorageUsage(), quota: LOCAL_STORAGE_QUOTA };
+    },
+
+    supportsFiles: false,
+
+    async putFile() {
+      throw new Error('Trình duyệt không cho dùng IndexedDB nên không thể lưu tài liệu đính kèm');
+    },
+
+    async getFile() {
+      return null;
+    },
+
+    async deleteFiles() {
+      // Nothing is ever stored
+    },
+  };
+}
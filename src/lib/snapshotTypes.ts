@@ -14,6 +14,7 @@ import {
   SettlementYear,
   MonthlyIncomeEntry,
   DependentInfo,
+  PayerIncome,
   createDefaultMonthlyIncome,
 } from './annualSettlementCalculator';
 import type { VATMethod, BusinessCategory } from './vatCalculator';
@@ -22,6 +23,32 @@ import type { IncomeSource, IncomeSourceType } from './multiSourceIncomeCalculat
 import type { CryptoAssetType, TransactionType } from './cryptoTaxCalculator';
 import type { MonthlyEntry } from './monthlyPlannerCalculator';
 import { createDefaultMonths } from './monthlyPlannerCalculator';
+import type {
+  SecuritiesTransaction,
+  DividendEntry,
+  BondInterestEntry,
+  TaxMethod as SecuritiesTaxMethod,
+} from './securitiesTaxCalculator';
+import type { RentalProperty } from './rentalIncomeTaxCalculator';
+import type { HouseholdBusiness, TaxMethod as HouseholdTaxMethod } from './householdBusinessTaxCalculator';
+import type { RealEstateTransfer } from './realEstateTransferTaxCalculator';
+import type {
+  TransactionType as InheritanceTransactionType,
+  Relationship,
+  AssetInfo,
+} from './inheritanceGiftTaxCalculator';
+import type { ExemptionCategory } from './taxExemptionChecker';
+import type { DocumentType, PersonalInfo } from './taxDocumentGenerator';
+import type { SpecialIncomeType } from './specialIncomeTaxCalculator';
+import type { DeadlineType, DeadlinePriority, DeadlineStatus } from './taxDeadlineManager';
+import type { IncomeEntry } from './incomeSummaryCalculator';
+import type { SnapshotMigrationReport } from './snapshotMigrations';
+
+/**
+ * Current snapshot schema version
+ * Bump together with a new entry in SNAPSHOT_MIGRATIONS (snapshotMigrations.ts)
+ */
+export const CURRENT_SNAPSHOT_VERSION = 3;
 
 // Withholding Tax Tab State - defined here to avoid Turbopack import issues
 export interface WithholdingTaxTabState {
@@ -31,6 +58,9 @@ export interface WithholdingTaxTabState {
   residencyStatus: ResidencyStatus;
   isFamilyMember: boolean;
   showComparison: boolean;
+  // Commitment (08/CK-TNCN) fields
+  projectedAnnualIncome: number;
+  hasOtherIncome: boolean;
   // FCT fields
   contractValue: number;
   contractType: ForeignContractorType;
@@ -43,6 +73,8 @@ export const DEFAULT_WITHHOLDING_TAX_STATE: WithholdingTaxTabState = {
   residencyStatus: 'resident',
   isFamilyMember: false,
   showComparison: false,
+  projectedAnnualIncome: 0,
+  hasOtherIncome: false,
   contractValue: 0,
   contractType: 'service',
   hasVATRegistration: false,
@@ -259,6 +291,259 @@ export const DEFAULT_VAT_STATE: VATTabState = {
   customDate: new Date().toISOString().split('T')[0],
 };
 
+// Securities Tax Tab State
+export interface SecuritiesTabState {
+  taxMethod: SecuritiesTaxMethod;
+  taxYear: 2025 | 2026;
+  transactions: SecuritiesTransaction[];
+  dividends: DividendEntry[];
+  bonds: BondInterestEntry[];
+}
+
+export const DEFAULT_SECURITIES_STATE: SecuritiesTabState = {
+  taxMethod: 'transaction',
+  taxYear: 2026,
+  transactions: [],
+  dividends: [],
+  bonds: [],
+};
+
+// Rental Income Tax Tab State
+export interface RentalIncomeTabState {
+  properties: RentalProperty[];
+  useActualExpenses: boolean;
+  year: 2025 | 2026;
+}
+
+export const DEFAULT_RENTAL_INCOME_STATE: RentalIncomeTabState = {
+  properties: [],
+  useActualExpenses: false,
+  year: 2026,
+};
+
+// Household Business Tax Tab State
+export interface HouseholdBusinessTabState {
+  businesses: HouseholdBusiness[]; // Empty = the tab starts with one blank business
+  year: 2025 | 2026;
+  taxMethod: HouseholdTaxMethod;
+}
+
+export const DEFAULT_HOUSEHOLD_BUSINESS_STATE: HouseholdBusinessTabState = {
+  businesses: [],
+  year: 2026,
+  taxMethod: 'khoan',
+};
+
+// Real Estate Transfer Tax Tab State
+export interface RealEstateTransferTabState {
+  transfers: RealEstateTransfer[]; // Empty = the tab starts with one blank transfer
+  quickValue: number;
+  quickIsExempt: boolean;
+}
+
+export const DEFAULT_REAL_ESTATE_TRANSFER_STATE: RealEstateTransferTabState = {
+  transfers: [],
+  quickValue: 0,
+  quickIsExempt: false,
+};
+
+// Inheritance/Gift Tax State (shown on the calculator tab)
+export interface InheritanceGiftTabState {
+  transactionType: InheritanceTransactionType;
+  relationship: Relationship;
+  assets: AssetInfo[];
+  transactionDate: string; // YYYY-MM-DD, '' = today
+}
+
+export const DEFAULT_INHERITANCE_GIFT_STATE: InheritanceGiftTabState = {
+  transactionType: 'gift',
+  relationship: 'non_relative',
+  assets: [{ type: 'cash', value: 0 }],
+  transactionDate: '',
+};
+
+// Tax Exemption Checker Tab State
+export interface ExemptionCheckerTabState {
+  viewMode: 'list' | 'check';
+  selectedCategory: ExemptionCategory | null;
+  incomeAmount: number;
+  conditionAnswers: Record<string, boolean>;
+}
+
+export const DEFAULT_EXEMPTION_CHECKER_STATE: ExemptionCheckerTabState = {
+  viewMode: 'list',
+  selectedCategory: null,
+  incomeAmount: 0,
+  conditionAnswers: {},
+};
+
+// Tax Document Generator Tab State
+export interface TaxDocumentTabState {
+  documentType: DocumentType;
+  year: number;
+  month: number | null; // Only used by the monthly declaration
+  personalInfo: PersonalInfo;
+  taxPaid: number;
+  notes: string;
+}
+
+export const DEFAULT_TAX_DOCUMENT_STATE: TaxDocumentTabState = {
+  documentType: 'personal_report',
+  year: new Date().getFullYear(),
+  month: null,
+  personalInfo: {
+    fullName: '',
+    taxCode: '',
+    idNumber: '',
+    address: '',
+    phone: '',
+    email: '',
+    employer: '',
+    employerTaxCode: '',
+  },
+  taxPaid: 0,
+  notes: '',
+};
+
+// Special Income Tax Tab State
+export interface SpecialIncomeTabState {
+  incomeType: SpecialIncomeType;
+  amount: number;
+}
+
+export const DEFAULT_SPECIAL_INCOME_STATE: SpecialIncomeTabState = {
+  incomeType: 'license_plate',
+  amount: 0,
+};
+
+// Tax Deadline Manager Tab State
+export interface CustomDeadlineSnapshot {
+  id: string;
+  type: DeadlineType;
+  name: string;
+  description?: string;
+  dueDate: string; // ISO string for serialization
+  reminderDays: number[];
+  status: DeadlineStatus;
+  priority: DeadlinePriority;
+  amount?: number;
+  notes?: string;
+}
+
+export interface TaxDeadlineTabState {
+  year: number;
+  includePersonal: boolean;
+  includeBusiness: boolean;
+  customDeadlines: CustomDeadlineSnapshot[];
+  completedIds: string[];
+}
+
+export const DEFAULT_TAX_DEADLINE_STATE: TaxDeadlineTabState = {
+  year: new Date().getFullYear(),
+  includePersonal: true,
+  includeBusiness: false,
+  customDeadlines: [],
+  completedIds: [],
+};
+
+// Income Summary Dashboard Tab State
+export interface IncomeSummaryTabState {
+  year: number;
+  entries: IncomeEntry[];
+  dependents: number;
+  hasInsurance: boolean;
+}
+
+export const DEFAULT_INCOME_SUMMARY_STATE: IncomeSummaryTabState = {
+  year: new Date().getFullYear(),
+  entries: [],
+  dependents: 0,
+  hasInsurance: true,
+};
+
+// Region Comparison Tab State
+export interface RegionCompareTabState {
+  useCustomGross: boolean;
+  customGross: number;
+}
+
+export const DEFAULT_REGION_COMPARE_STATE: RegionCompareTabState = {
+  useCustomGross: false,
+  customGross: 0,
+};
+
+// Salary Slip Tab State - mirrors SalarySlipData (components/SalarySlip/types.ts)
+export interface SalarySlipAllowanceSnapshot {
+  id: string;
+  label: string;
+  amount: number;
+}
+
+export interface SalarySlipTabState {
+  company: {
+    name: string;
+    address: string;
+    logoUrl?: string;
+  };
+  employee: {
+    name: string;
+    employeeId?: string;
+    position?: string;
+    department?: string;
+    bankAccount?: string;
+    bankName?: string;
+  };
+  payPeriod: {
+    month: number;
+    year: number;
+  };
+  // basicSalary 0 = prefilled from the calculator
+  earnings: {
+    basicSalary: number;
+    allowances: SalarySlipAllowanceSnapshot[];
+    overtime: number;
+    bonus: number;
+    otherEarnings: number;
+  };
+  deductions: {
+    bhxh: number;
+    bhyt: number;
+    bhtn: number;
+    personalIncomeTax: number;
+    otherDeductions: number;
+  };
+}
+
+export const DEFAULT_SALARY_SLIP_STATE: SalarySlipTabState = {
+  company: { name: '', address: '' },
+  employee: {
+    name: '',
+    employeeId: '',
+    position: '',
+    department: '',
+    bankAccount: '',
+    bankName: '',
+  },
+  payPeriod: {
+    month: new Date().getMonth() + 1,
+    year: new Date().getFullYear(),
+  },
+  earnings: {
+    basicSalary: 0,
+    allowances: [],
+    overtime: 0,
+    bonus: 0,
+    otherEarnings: 0,
+  },
+  deductions: {
+    bhxh: 0,
+    bhyt: 0,
+    bhtn: 0,
+    personalIncomeTax: 0,
+    otherDeductions: 0,
+  },
+};
+
 /**
  * Tab-specific state types for each calculator tab
  */
@@ -310,6 +595,7 @@ export interface AnnualSettlementTabState {
   averageSalary: number;
   monthlyIncome: MonthlyIncomeEntry[];
   dependents: DependentInfo[];
+  payers: PayerIncome[]; // Nhiều nơi chi trả (rỗng = một nơi, dùng monthlyIncome)
   charitableContributions: number;
   voluntaryPension: number;
   insuranceOptions: InsuranceOptions;
@@ -420,6 +706,46 @@ export interface TabStates {
   goldTax: GoldTaxTabState;
   monthlyPlanner: MonthlyPlannerTabState;
   mortgage: MortgageTabState;
+  securities: SecuritiesTabState;
+  rentalIncome: RentalIncomeTabState;
+  householdBusiness: HouseholdBusinessTabState;
+  realEstateTransfer: RealEstateTransferTabState;
+  inheritanceGift: InheritanceGiftTabState;
+  exemptionChecker: ExemptionCheckerTabState;
+  taxDocument: TaxDocumentTabState;
+  specialIncome: SpecialIncomeTabState;
+  taxDeadline: TaxDeadlineTabState;
+  incomeSummary: IncomeSummaryTabState;
+  regionCompare: RegionCompareTabState;
+  salarySlip: SalarySlipTabState;
+}
+
+// Taxpayer profile fields a tab can take from the profile or keep its own value for
+export type ProfileField = 'dependents' | 'region' | 'insurance' | 'residency' | 'personalInfo';
+
+// Tabs holding their own copy of a profile field
+export type ProfileLinkedTab =
+  | 'annualSettlement'
+  | 'businessFormComparison'
+  | 'multiSourceIncome'
+  | 'coupleOptimizer'
+  | 'incomeSummary'
+  | 'taxDocument'
+  | 'withholdingTax';
+
+/**
+ * Taxpayer profile read by every tab
+ * Region, insurance (hasInsurance, insuranceOptions, declaredSalary as the
+ * insurance base) and the dependent count stay in SharedTaxState; the profile
+ * adds who the taxpayer is, which dependents are registered for which months,
+ * and residency
+ */
+export interface TaxpayerProfile {
+  personalInfo: PersonalInfo;
+  dependents: DependentInfo[];
+  residency: ResidencyStatus;
+  // Profile fields a tab keeps its own value for instead of following the profile
+  overrides: Partial<Record<ProfileLinkedTab, ProfileField[]>>;
 }
 
 /**
@@ -428,6 +754,7 @@ export interface TabStates {
 export interface CalculatorSnapshot {
   version: number;
   sharedState: SharedTaxState;
+  profile: TaxpayerProfile;
   activeTab: string;
   tabs: TabStates;
   meta: {
@@ -435,9 +762,6 @@ export interface CalculatorSnapshot {
     label?: string;
     description?: string;
   };
-  // Legacy fields for backward compatibility
-  state?: SharedTaxState;
-  timestamp?: number;
 }
 
 // A named save with metadata
@@ -448,6 +772,39 @@ export interface NamedSave {
   snapshot: CalculatorSnapshot;
   createdAt: number;
   updatedAt: number;
+  // Set when the snapshot was upgraded from an older schema version
+  migration?: SnapshotMigrationReport;
+  // Evidence documents; file contents are stored separately by attachment id
+  attachments?: EvidenceAttachment[];
+}
+
+export type EvidenceKind =
+  | 'charity_receipt'
+  | 'dependent_papers'
+  | 'withholding_certificate'
+  | 'pension_receipt'
+  | 'transaction_record'
+  | 'contract'
+  | 'other';
+
+// What an attachment backs: the whole save, a claimed amount or one entry in a tab
+export interface EvidenceTarget {
+  tab?: keyof TabStates;
+  // Dependent, payer, transaction or property id
+  entryId?: string;
+  // Claimed amount such as 'charitableContributions'
+  field?: string;
+}
+
+export interface EvidenceAttachment {
+  id: string;
+  kind: EvidenceKind;
+  target: EvidenceTarget;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  addedAt: number;
+  note?: string;
 }
 
 // Export data structure for JSON import/export
@@ -455,6 +812,16 @@ export interface SaveExportData {
   version: number;
   exportedAt: number;
   saves: NamedSave[];
+  // Base64 file contents by attachment id (zip backups keep files as separate entries)
+  evidenceFiles?: Record<string, string>;
+}
+
+// Passphrase-protected backup; payload is an encrypted SaveExportData JSON
+export interface EncryptedSaveExportData {
+  version: number;
+  exportedAt: number;
+  encrypted: true;
+  payload: string;
 }
 
 /**
@@ -498,6 +865,7 @@ export const DEFAULT_ANNUAL_SETTLEMENT_STATE: AnnualSettlementTabState = {
   averageSalary: 0,
   monthlyIncome: createDefaultMonthlyIncome(0, 0, 0),
   dependents: [],
+  payers: [],
   charitableContributions: 0,
   voluntaryPension: 0,
   insuranceOptions: { ...DEFAULT_INSURANCE_OPTIONS },
@@ -613,6 +981,18 @@ export const DEFAULT_TAB_STATES: TabStates = {
   goldTax: DEFAULT_GOLD_TAX_STATE,
   monthlyPlanner: DEFAULT_MONTHLY_PLANNER_STATE,
   mortgage: DEFAULT_MORTGAGE_STATE,
+  securities: DEFAULT_SECURITIES_STATE,
+  rentalIncome: DEFAULT_RENTAL_INCOME_STATE,
+  householdBusiness: DEFAULT_HOUSEHOLD_BUSINESS_STATE,
+  realEstateTransfer: DEFAULT_REAL_ESTATE_TRANSFER_STATE,
+  inheritanceGift: DEFAULT_INHERITANCE_GIFT_STATE,
+  exemptionChecker: DEFAULT_EXEMPTION_CHECKER_STATE,
+  taxDocument: DEFAULT_TAX_DOCUMENT_STATE,
+  specialIncome: DEFAULT_SPECIAL_INCOME_STATE,
+  taxDeadline: DEFAULT_TAX_DEADLINE_STATE,
+  incomeSummary: DEFAULT_INCOME_SUMMARY_STATE,
+  regionCompare: DEFAULT_REGION_COMPARE_STATE,
+  salarySlip: DEFAULT_SALARY_SLIP_STATE,
 };
 
 /**
@@ -631,12 +1011,23 @@ export const DEFAULT_SHARED_STATE: SharedTaxState = {
   allowances: { ...DEFAULT_ALLOWANCES },
 };
 
+/**
+ * Default taxpayer profile
+ */
+export const DEFAULT_TAXPAYER_PROFILE: TaxpayerProfile = {
+  personalInfo: { ...DEFAULT_TAX_DOCUMENT_STATE.personalInfo },
+  dependents: [],
+  residency: 'resident',
+  overrides: {},
+};
+
 /**
  * Default complete snapshot
  */
 export const DEFAULT_SNAPSHOT: CalculatorSnapshot = {
-  version: 1,
+  version: CURRENT_SNAPSHOT_VERSION,
   sharedState: DEFAULT_SHARED_STATE,
+  profile: DEFAULT_TAXPAYER_PROFILE,
   activeTab: 'calculator',
   tabs: DEFAULT_TAB_STATES,
   meta: {
@@ -644,6 +1035,27 @@ export const DEFAULT_SNAPSHOT: CalculatorSnapshot = {
   },
 };
 
+/**
+ * Fill a partial profile with defaults, copying nested values
+ */
+function mergeTaxpayerProfile(partial?: Partial<TaxpayerProfile>): TaxpayerProfile {
+  const overrides: TaxpayerProfile['overrides'] = {};
+  for (const [tab, fields] of Object.entries(partial?.overrides || {})) {
+    if (fields) overrides[tab as ProfileLinkedTab] = [...fields];
+  }
+
+  return {
+    ...DEFAULT_TAXPAYER_PROFILE,
+    ...(partial || {}),
+    personalInfo: {
+      ...DEFAULT_TAXPAYER_PROFILE.personalInfo,
+      ...(partial?.personalInfo || {}),
+    },
+    dependents: partial?.dependents?.map(d => ({ ...d })) || [],
+    overrides,
+  };
+}
+
 /**
  * Create a snapshot from current state
  * This is the main function to capture calculator state for saving/sharing
@@ -652,10 +1064,11 @@ export function createSnapshot(
   sharedState: Partial<SharedTaxState>,
   activeTab: string = 'calculator',
   tabStates?: Partial<TabStates>,
-  meta?: Partial<CalculatorSnapshot['meta']>
+  meta?: Partial<CalculatorSnapshot['meta']>,
+  profile?: Partial<TaxpayerProfile>
 ): CalculatorSnapshot {
   return {
-    version: 1,
+    version: CURRENT_SNAPSHOT_VERSION,
     sharedState: {
       ...DEFAULT_SHARED_STATE,
       ...sharedState,
@@ -672,6 +1085,7 @@ export function createSnapshot(
         ...(sharedState.allowances || {}),
       },
     },
+    profile: mergeTaxpayerProfile(profile),
     activeTab,
     tabs: {
       employerCost: {
@@ -783,6 +1197,83 @@ export function createSnapshot(
         ...DEFAULT_MORTGAGE_STATE,
         ...(tabStates?.mortgage || {}),
       },
+      securities: {
+        ...DEFAULT_SECURITIES_STATE,
+        ...(tabStates?.securities || {}),
+        transactions: tabStates?.securities?.transactions?.map(t => ({ ...t })) || [],
+        dividends: tabStates?.securities?.dividends?.map(d => ({ ...d })) || [],
+        bonds: tabStates?.securities?.bonds?.map(b => ({ ...b })) || [],
+      },
+      rentalIncome: {
+        ...DEFAULT_RENTAL_INCOME_STATE,
+        ...(tabStates?.rentalIncome || {}),
+        properties: tabStates?.rentalIncome?.properties?.map(p => ({
+          ...p,
+          expenses: { ...p.expenses },
+        })) || [],
+      },
+      householdBusiness: {
+        ...DEFAULT_HOUSEHOLD_BUSINESS_STATE,
+        ...(tabStates?.householdBusiness || {}),
+        businesses: tabStates?.householdBusiness?.businesses?.map(b => ({ ...b })) || [],
+      },
+      realEstateTransfer: {
+        ...DEFAULT_REAL_ESTATE_TRANSFER_STATE,
+        ...(tabStates?.realEstateTransfer || {}),
+        transfers: tabStates?.realEstateTransfer?.transfers?.map(t => ({ ...t })) || [],
+      },
+      inheritanceGift: {
+        ...DEFAULT_INHERITANCE_GIFT_STATE,
+        ...(tabStates?.inheritanceGift || {}),
+        assets: tabStates?.inheritanceGift?.assets?.map(a => ({ ...a }))
+          || DEFAULT_INHERITANCE_GIFT_STATE.assets.map(a => ({ ...a })),
+      },
+      exemptionChecker: {
+        ...DEFAULT_EXEMPTION_CHECKER_STATE,
+        ...(tabStates?.exemptionChecker || {}),
+        conditionAnswers: { ...(tabStates?.exemptionChecker?.conditionAnswers || {}) },
+      },
+      taxDocument: {
+        ...DEFAULT_TAX_DOCUMENT_STATE,
+        ...(tabStates?.taxDocument || {}),
+        personalInfo: {
+          ...DEFAULT_TAX_DOCUMENT_STATE.personalInfo,
+          ...(tabStates?.taxDocument?.personalInfo || {}),
+        },
+      },
+      specialIncome: {
+        ...DEFAULT_SPECIAL_INCOME_STATE,
+        ...(tabStates?.specialIncome || {}),
+      },
+      taxDeadline: {
+        ...DEFAULT_TAX_DEADLINE_STATE,
+        ...(tabStates?.taxDeadline || {}),
+        customDeadlines: tabStates?.taxDeadline?.customDeadlines?.map(d => ({
+          ...d,
+          reminderDays: [...d.reminderDays],
+        })) || [],
+        completedIds: [...(tabStates?.taxDeadline?.completedIds || [])],
+      },
+      incomeSummary: {
+        ...DEFAULT_INCOME_SUMMARY_STATE,
+        ...(tabStates?.incomeSummary || {}),
+        entries: tabStates?.incomeSummary?.entries?.map(e => ({ ...e })) || [],
+      },
+      regionCompare: {
+        ...DEFAULT_REGION_COMPARE_STATE,
+        ...(tabStates?.regionCompare || {}),
+      },
+      salarySlip: {
+        company: { ...DEFAULT_SALARY_SLIP_STATE.company, ...(tabStates?.salarySlip?.company || {}) },
+        employee: { ...DEFAULT_SALARY_SLIP_STATE.employee, ...(tabStates?.salarySlip?.employee || {}) },
+        payPeriod: { ...DEFAULT_SALARY_SLIP_STATE.payPeriod, ...(tabStates?.salarySlip?.payPeriod || {}) },
+        earnings: {
+          ...DEFAULT_SALARY_SLIP_STATE.earnings,
+          ...(tabStates?.salarySlip?.earnings || {}),
+          allowances: tabStates?.salarySlip?.earnings?.allowances?.map(a => ({ ...a })) || [],
+        },
+        deductions: { ...DEFAULT_SALARY_SLIP_STATE.deductions, ...(tabStates?.salarySlip?.deductions || {}) },
+      },
     },
     meta: {
       createdAt: Date.now(),
@@ -820,7 +1311,7 @@ export function mergeSnapshotWithDefaults(
   partial: Partial<CalculatorSnapshot>
 ): CalculatorSnapshot {
   return {
-    version: partial.version || 1,
+    version: partial.version || CURRENT_SNAPSHOT_VERSION,
     sharedState: {
       ...DEFAULT_SHARED_STATE,
       ...(partial.sharedState || {}),
@@ -837,6 +1328,7 @@ export function mergeSnapshotWithDefaults(
         ...(partial.sharedState?.allowances || {}),
       },
     },
+    profile: mergeTaxpayerProfile(partial.profile),
     activeTab: partial.activeTab || 'calculator',
     tabs: {
       employerCost: {
@@ -870,6 +1362,10 @@ export function mergeSnapshotWithDefaults(
           || DEFAULT_ANNUAL_SETTLEMENT_STATE.monthlyIncome.map(m => ({ ...m })),
         dependents: partial.tabs?.annualSettlement?.dependents?.map(d => ({ ...d }))
           || [],
+        payers: partial.tabs?.annualSettlement?.payers?.map(p => ({
+          ...p,
+          monthlyIncome: p.monthlyIncome.map(m => ({ ...m })),
+        })) || [],
       },
       bonus: {
         ...DEFAULT_BONUS_STATE,
@@ -948,6 +1444,83 @@ export function mergeSnapshotWithDefaults(
         ...DEFAULT_MORTGAGE_STATE,
         ...(partial.tabs?.mortgage || {}),
       },
+      securities: {
+        ...DEFAULT_SECURITIES_STATE,
+        ...(partial.tabs?.securities || {}),
+        transactions: partial.tabs?.securities?.transactions?.map(t => ({ ...t })) || [],
+        dividends: partial.tabs?.securities?.dividends?.map(d => ({ ...d })) || [],
+        bonds: partial.tabs?.securities?.bonds?.map(b => ({ ...b })) || [],
+      },
+      rentalIncome: {
+        ...DEFAULT_RENTAL_INCOME_STATE,
+        ...(partial.tabs?.rentalIncome || {}),
+        properties: partial.tabs?.rentalIncome?.properties?.map(p => ({
+          ...p,
+          expenses: { ...p.expenses },
+        })) || [],
+      },
+      householdBusiness: {
+        ...DEFAULT_HOUSEHOLD_BUSINESS_STATE,
+        ...(partial.tabs?.householdBusiness || {}),
+        businesses: partial.tabs?.householdBusiness?.businesses?.map(b => ({ ...b })) || [],
+      },
+      realEstateTransfer: {
+        ...DEFAULT_REAL_ESTATE_TRANSFER_STATE,
+        ...(partial.tabs?.realEstateTransfer || {}),
+        transfers: partial.tabs?.realEstateTransfer?.transfers?.map(t => ({ ...t })) || [],
+      },
+      inheritanceGift: {
+        ...DEFAULT_INHERITANCE_GIFT_STATE,
+        ...(partial.tabs?.inheritanceGift || {}),
+        assets: partial.tabs?.inheritanceGift?.assets?.map(a => ({ ...a }))
+          || DEFAULT_INHERITANCE_GIFT_STATE.assets.map(a => ({ ...a })),
+      },
+      exemptionChecker: {
+        ...DEFAULT_EXEMPTION_CHECKER_STATE,
+        ...(partial.tabs?.exemptionChecker || {}),
+        conditionAnswers: { ...(partial.tabs?.exemptionChecker?.conditionAnswers || {}) },
+      },
+      taxDocument: {
+        ...DEFAULT_TAX_DOCUMENT_STATE,
+        ...(partial.tabs?.taxDocument || {}),
+        personalInfo: {
+          ...DEFAULT_TAX_DOCUMENT_STATE.personalInfo,
+          ...(partial.tabs?.taxDocument?.personalInfo || {}),
+        },
+      },
+      specialIncome: {
+        ...DEFAULT_SPECIAL_INCOME_STATE,
+        ...(partial.tabs?.specialIncome || {}),
+      },
+      taxDeadline: {
+        ...DEFAULT_TAX_DEADLINE_STATE,
+        ...(partial.tabs?.taxDeadline || {}),
+        customDeadlines: partial.tabs?.taxDeadline?.customDeadlines?.map(d => ({
+          ...d,
+          reminderDays: [...d.reminderDays],
+        })) || [],
+        completedIds: [...(partial.tabs?.taxDeadline?.completedIds || [])],
+      },
+      incomeSummary: {
+        ...DEFAULT_INCOME_SUMMARY_STATE,
+        ...(partial.tabs?.incomeSummary || {}),
+        entries: partial.tabs?.incomeSummary?.entries?.map(e => ({ ...e })) || [],
+      },
+      regionCompare: {
+        ...DEFAULT_REGION_COMPARE_STATE,
+        ...(partial.tabs?.regionCompare || {}),
+      },
+      salarySlip: {
+        company: { ...DEFAULT_SALARY_SLIP_STATE.company, ...(partial.tabs?.salarySlip?.company || {}) },
+        employee: { ...DEFAULT_SALARY_SLIP_STATE.employee, ...(partial.tabs?.salarySlip?.employee || {}) },
+        payPeriod: { ...DEFAULT_SALARY_SLIP_STATE.payPeriod, ...(partial.tabs?.salarySlip?.payPeriod || {}) },
+        earnings: {
+          ...DEFAULT_SALARY_SLIP_STATE.earnings,
+          ...(partial.tabs?.salarySlip?.earnings || {}),
+          allowances: partial.tabs?.salarySlip?.earnings?.allowances?.map(a => ({ ...a })) || [],
+        },
+        deductions: { ...DEFAULT_SALARY_SLIP_STATE.deductions, ...(partial.tabs?.salarySlip?.deductions || {}) },
+      },
     },
     meta: {
       createdAt: partial.meta?.createdAt || Date.now(),
@@ -0,0 +1,339 @@
+/**
+ * Deep validation of decoded and imported snapshots
+ * Every field is checked against snapshotSchema.generated.json (type, enum,
+ * shape) and the range rules below; an invalid field is replaced with its
+ * default instead of rejecting the whole snapshot, and each replacement is
+ * reported so the UI can tell the user which values were not kept
+ */
+import generatedSchema from './snapshotSchema.generated.json';
+import { CalculatorSnapshot, DEFAULT_SNAPSHOT, DEFAULT_SHARED_STATE } from './snapshotTypes';
+import type { SharedTaxState } from './taxCalculator';
+import type { SnapshotFieldChange } from './snapshotMigrations';
+
+// Subset of JSON Schema written by scripts/json-schema-from-types.mjs
+interface SchemaNode {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  format?: string;
+  enum?: (string | number)[];
+  const?: string | number;
+  anyOf?: SchemaNode[];
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: SchemaNode | boolean;
+  items?: SchemaNode;
+}
+
+const SCHEMA = generatedSchema as unknown as {
+  root: SchemaNode;
+  definitions: Record<string, SchemaNode>;
+};
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+// Highest dependent count accepted from a link or file
+export const MAX_DEPENDENTS = 20;
+
+// Amounts, counts and durations cannot be negative
+const DEFAULT_NUMBER_RULE: NumberRule = { min: 0 };
+
+const MONTH_RULE: NumberRule = { min: 1, max: 12, integer: true };
+const YEAR_RULE: NumberRule = { min: 1900, max: 2100, integer: true };
+const DEPENDENTS_RULE: NumberRule = { min: 0, max: MAX_DEPENDENTS, integer: true };
+const PERCENT_RULE: NumberRule = { min: 0, max: 100 };
+const FRACTION_RULE: NumberRule = { min: 0, max: 1 };
+
+/**
+ * Range rules by field name; the schema only knows a field is a number
+ * Array items use the rule of the array field (e.g. reminderDays)
+ */
+const NUMBER_RULES: Record<string, NumberRule> = {
+  dependents: DEPENDENTS_RULE,
+  totalDependents: DEPENDENTS_RULE,
+  month: MONTH_RULE,
+  fromMonth: MONTH_RULE,
+  toMonth: MONTH_RULE,
+  fromYear: YEAR_RULE,
+  toYear: YEAR_RULE,
+  birthMonth: MONTH_RULE,
+  year: YEAR_RULE,
+  taxYear: YEAR_RULE,
+  birthYear: YEAR_RULE,
+  contributionStartYear: YEAR_RULE,
+  daysInVietnam: { min: 0, max: 366, integer: true },
+  reminderDays: { min: 0, max: 366, integer: true },
+  workingDaysPerMonth: { min: 1, max: 31 },
+  hoursPerDay: { min: 0, max: 24 },
+  // Mortgage and bond rates are entered as percentages
+  downPaymentPercent: PERCENT_RULE,
+  preferentialRate: PERCENT_RULE,
+  floatingRate: PERCENT_RULE,
+  interestRate: PERCENT_RULE,
+  // VAT rates are fractions (0.1 = 10%)
+  outputRate: FRACTION_RULE,
+  inputRate: FRACTION_RULE,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function resolve(schema: SchemaNode): SchemaNode {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace('#/definitions/', '');
+  const definition = SCHEMA.definitions[name];
+  if (!definition) {
+    throw new Error(`Unknown schema definition ${name}`);
+  }
+  return definition;
+}
+
+function isInRange(value: number, field: string): boolean {
+  const rule = NUMBER_RULES[field] ?? DEFAULT_NUMBER_RULE;
+  if (!Number.isFinite(value)) return false;
+  if (rule.integer && !Number.isInteger(value)) return false;
+  if (rule.min !== undefined && value < rule.min) return false;
+  if (rule.max !== undefined && value > rule.max) return false;
+  return true;
+}
+
+/**
+ * Whether a value has the kind the schema expects (nested fields are checked separately)
+ */
+function accepts(value: unknown, schema: SchemaNode, field: string): boolean {
+  const node = resolve(schema);
+
+  if (node.anyOf) return node.anyOf.some(option => accepts(value, option, field));
+  if (node.const !== undefined) return value === node.const;
+  if (node.enum) return node.enum.includes(value as string | number);
+
+  switch (node.type) {
+    case 'number':
+      return typeof value === 'number' && isInRange(value, field);
+    case 'string':
+      // Date fields hold a Date in memory and an ISO string once serialized
+      if (node.format === 'date-time' && value instanceof Date) return !isNaN(value.getTime());
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Smallest valid value of a schema, used when there is no default to fall back to
+ */
+function emptyValue(schema: SchemaNode, field: string): unknown {
+  const node = resolve(schema);
+
+  if (node.anyOf) {
+    const nullable = node.anyOf.find(option => resolve(option).type === 'null');
+    return emptyValue(nullable ?? node.anyOf[0], field);
+  }
+  if (node.const !== undefined) return node.const;
+  if (node.enum) return node.enum[0];
+
+  switch (node.type) {
+    case 'number':
+      return (NUMBER_RULES[field] ?? DEFAULT_NUMBER_RULE).min ?? 0;
+    case 'string':
+      return '';
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const key of node.required ?? []) {
+        result[key] = emptyValue(node.properties?.[key] ?? {}, key);
+      }
+      return result;
+    }
+    default:
+      return null;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'danh sách';
+  if (typeof value === 'object') return 'đối tượng';
+  if (typeof value === 'string') {
+    return `"${value.length > 20 ? `${value.slice(0, 20)}…` : value}"`;
+  }
+  return String(value);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+interface ValidationContext {
+  changes: SnapshotFieldChange[];
+}
+
+/**
+ * Check a value and everything below it
+ * fallback is the default found at the same path, if any
+ */
+function validateValue(
+  value: unknown,
+  schema: SchemaNode,
+  fallback: unknown,
+  path: string,
+  field: string,
+  context: ValidationContext
+): unknown {
+  const node = resolve(schema);
+
+  if (!accepts(value, node, field)) {
+    const replacement = fallback !== undefined && accepts(fallback, node, field)
+      ? clone(fallback)
+      : emptyValue(node, field);
+    const shown = replacement !== null && typeof replacement === 'object'
+      ? 'giá trị mặc định'
+      : describeValue(replacement);
+    context.changes.push({
+      path,
+      kind: 'reset',
+      message: value === undefined
+        ? `Thiếu giá trị, đã điền ${shown}`
+        : `Giá trị ${describeValue(value)} không hợp lệ, đã thay bằng ${shown}`,
+    });
+    return replacement;
+  }
+
+  // Continue with the union member the value matched (e.g. an object or null)
+  if (node.anyOf) {
+    const option = node.anyOf.find(candidate => accepts(value, candidate, field));
+    return option ? validateValue(value, option, fallback, path, field, context) : value;
+  }
+
+  if (node.type === 'object') {
+    return validateObject(value as Record<string, unknown>, node, fallback, path, context);
+  }
+  if (node.type === 'array' && node.items) {
+    return validateArray(value as unknown[], node.items, fallback, path, field, context);
+  }
+  return value;
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: SchemaNode,
+  fallback: unknown,
+  path: string,
+  context: ValidationContext
+): Record<string, unknown> {
+  const defaults = isRecord(fallback) ? fallback : {};
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required ?? []);
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(value)) {
+    // Keys outside the schema are kept as they are; __proto__ would replace the prototype
+    if (key === '__proto__') continue;
+    const childPath = path ? `${path}.${key}` : key;
+    const childSchema = properties[key]
+      ?? (isRecord(schema.additionalProperties) ? schema.additionalProperties : undefined);
+
+    if (!childSchema) {
+      result[key] = value[key];
+    } else if (value[key] !== undefined) {
+      result[key] = validateValue(value[key], childSchema, defaults[key], childPath, key, context);
+    }
+  }
+
+  // Missing fields take their default quietly, like mergeSnapshotWithDefaults;
+  // a required field with no default (e.g. inside a list item) is reported
+  for (const [key, childSchema] of Object.entries(properties)) {
+    if (result[key] !== undefined) continue;
+    if (defaults[key] !== undefined) {
+      result[key] = clone(defaults[key]);
+    } else if (required.has(key)) {
+      result[key] = validateValue(undefined, childSchema, undefined, path ? `${path}.${key}` : key, key, context);
+    }
+  }
+
+  return result;
+}
+
+function validateArray(
+  value: unknown[],
+  itemSchema: SchemaNode,
+  fallback: unknown,
+  path: string,
+  field: string,
+  context: ValidationContext
+): unknown[] {
+  // Fixed-length lists such as the 12 months of a settlement have a default per index
+  const defaults = Array.isArray(fallback) ? fallback : [];
+  const result: unknown[] = [];
+
+  value.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (!accepts(item, itemSchema, field) && defaults[index] === undefined) {
+      context.changes.push({
+        path: itemPath,
+        kind: 'dropped',
+        message: `Bỏ mục không hợp lệ (${describeValue(item)}) khỏi danh sách`,
+      });
+      return;
+    }
+    result.push(validateValue(item, itemSchema, defaults[index], itemPath, field, context));
+  });
+
+  return result;
+}
+
+/**
+ * Validate a migrated snapshot against the generated schema
+ * Invalid fields are replaced with defaults, missing ones filled in; the
+ * result is ready for mergeSnapshotWithDefaults
+ */
+export function validateSnapshot(snapshot: Partial<CalculatorSnapshot>): {
+  snapshot: Partial<CalculatorSnapshot>;
+  changes: SnapshotFieldChange[];
+} {
+  const context: ValidationContext = { changes: [] };
+  const defaults: CalculatorSnapshot = { ...DEFAULT_SNAPSHOT, meta: { createdAt: Date.now() } };
+  const validated = validateValue(snapshot, SCHEMA.root, defaults, '', 'snapshot', context);
+
+  return { snapshot: validated as Partial<CalculatorSnapshot>, changes: context.changes };
+}
+
+/**
+ * Validate only the given shared state fields (e.g. from legacy URL params)
+ * Invalid values are replaced with the default shared state value
+ */
+export function validateSharedState(state: Partial<SharedTaxState>): {
+  state: Partial<SharedTaxState>;
+  changes: SnapshotFieldChange[];
+} {
+  const context: ValidationContext = { changes: [] };
+  const validated = validateValue(
+    { ...DEFAULT_SHARED_STATE, ...state },
+    { $ref: '#/definitions/SharedTaxState' },
+    DEFAULT_SHARED_STATE,
+    'sharedState',
+    'sharedState',
+    context
+  ) as Record<string, unknown>;
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(state)) {
+    if (validated[key] !== undefined) result[key] = validated[key];
+  }
+  return { state: result as Partial<SharedTaxState>, changes: context.changes };
+}
@@ -16,6 +16,7 @@ export type TabType =
   | 'household-business'
   | 'real-estate'
   | 'employer-cost'
+  | 'payroll-roster'
   | 'freelancer'
   | 'salary-compare'
   | 'yearly'
@@ -77,6 +78,7 @@ const TAB_DESCRIPTIONS: Record<TabType, string> = {
   yearly: 'Thuế qua các năm',
   freelancer: 'So sánh hình thức',
   'employer-cost': 'Chi phí thuê người',
+  'payroll-roster': 'Thuế, BH cả bảng lương CSV',
   insurance: 'Chi tiết các khoản',
   'other-income': 'Các loại thu nhập',
   table: 'Tra cứu thuế suất',
@@ -132,6 +134,7 @@ export const TAB_GROUPS: TabGroup[] = [
       { id: 'pension', label: 'Dự tính lương hưu', description: TAB_DESCRIPTIONS.pension },
       { id: 'severance', label: 'Trợ cấp thôi việc', description: TAB_DESCRIPTIONS.severance },
       { id: 'monthly-planner', label: 'Kế hoạch 12 tháng', description: TAB_DESCRIPTIONS['monthly-planner'] },
+      { id: 'payroll-roster', label: 'Bảng lương hàng loạt', description: TAB_DESCRIPTIONS['payroll-roster'] },
       { id: 'mua-nha', label: 'Vay mua nhà', description: TAB_DESCRIPTIONS['mua-nha'] },
     ],
   },
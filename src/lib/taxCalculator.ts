@@ -1,51 +1,55 @@
+import {
+  TaxBracket,
+  FamilyDeductions,
+  PitLaw,
+  getTaxRuleSet,
+  getTaxRulesForDate,
+  getTaxRulesForLaw,
+} from './taxRuleRegistry';
+import { CalculationTrace, buildSalaryTaxTrace } from './calculationTrace';
+
 // ===== DATE-AWARE CONSTANTS =====
+// Mọi tham số theo ngày được khai báo MỘT lần trong taxRuleRegistry.ts;
+// các hằng số và hàm dưới đây là view tương thích ngược trên registry.
+
+const RULES_2024_07 = getTaxRuleSet('vn-2024-07');
+const RULES_2026_01 = getTaxRuleSet('vn-2026-01');
+const RULES_2026_07 = getTaxRuleSet('vn-2026-07');
 
 // Ngày hiệu lực các quy định
 // Dùng local-time construction new Date(Y, M, D) để so sánh nhất quán với
 // các ngày được tạo theo local trong app (tránh lệch múi giờ ở biên tháng).
 export const EFFECTIVE_DATES = {
   // Lương tối thiểu vùng 2026 (Nghị định 293/2025/NĐ-CP)
-  REGIONAL_MINIMUM_WAGE_2026: new Date(2026, 0, 1),
+  REGIONAL_MINIMUM_WAGE_2026: RULES_2026_01.effectiveFrom,
   // Luật thuế TNCN mới - Thu nhập từ tiền lương, tiền công
   // (5 bậc, giảm trừ 15.5M) - áp dụng từ kỳ tính thuế năm 2026
   // Theo điều khoản chuyển tiếp Luật Thuế TNCN sửa đổi 2025
-  NEW_TAX_LAW_2026: new Date(2026, 0, 1),
+  NEW_TAX_LAW_2026: RULES_2026_01.lawEffectiveFrom,
   // Thuế chuyển nhượng vàng miếng 0.1% (Luật Thuế TNCN sửa đổi 2025)
-  GOLD_TRANSFER_TAX_2026: new Date(2026, 6, 1),
+  GOLD_TRANSFER_TAX_2026: RULES_2026_07.effectiveFrom,
   // Lương cơ sở/mức tham chiếu tăng 2.34M -> 2.53M từ 01/7/2026
   // -> trần đóng BHXH, BHYT (20 lần) tăng 46.8M -> 50.6M
-  BASE_SALARY_2026: new Date(2026, 6, 1),
+  BASE_SALARY_2026: RULES_2026_07.effectiveFrom,
   // Ngưỡng chịu thuế theo từng lần phát sinh (trúng thưởng, thừa kế, quà tặng,
   // nhượng quyền...) tăng 10M -> 20M từ 01/7/2026 (Luật Thuế TNCN sửa đổi 2025)
-  PER_TRANSACTION_THRESHOLD_2026: new Date(2026, 6, 1),
+  PER_TRANSACTION_THRESHOLD_2026: RULES_2026_07.effectiveFrom,
 };
 
 // Ngưỡng chịu thuế theo từng lần phát sinh (Điều 23 Luật Thuế TNCN)
-export const PER_TRANSACTION_THRESHOLD = 10_000_000; // đến 30/6/2026
-export const PER_TRANSACTION_THRESHOLD_2026 = 20_000_000; // từ 01/7/2026
+export const PER_TRANSACTION_THRESHOLD = RULES_2024_07.perTransactionThreshold; // đến 30/6/2026
+export const PER_TRANSACTION_THRESHOLD_2026 = RULES_2026_07.perTransactionThreshold; // từ 01/7/2026
 
 // Lấy ngưỡng chịu thuế theo từng lần phát sinh theo ngày
 export function getPerTransactionThreshold(date: Date = new Date()): number {
-  return date >= EFFECTIVE_DATES.PER_TRANSACTION_THRESHOLD_2026
-    ? PER_TRANSACTION_THRESHOLD_2026
-    : PER_TRANSACTION_THRESHOLD;
+  return getTaxRulesForDate(date).perTransactionThreshold;
 }
 
 // Mức lương tối thiểu vùng 2025 (đến 31/12/2025)
-export const REGIONAL_MINIMUM_WAGES_2025 = {
-  1: { name: 'Vùng I', wage: 4_960_000, description: 'Hà Nội, TP.HCM, Hải Phòng, Đà Nẵng...' },
-  2: { name: 'Vùng II', wage: 4_410_000, description: 'Các thành phố thuộc tỉnh, huyện ngoại thành...' },
-  3: { name: 'Vùng III', wage: 3_860_000, description: 'Thị xã, các huyện thuộc các tỉnh...' },
-  4: { name: 'Vùng IV', wage: 3_450_000, description: 'Các huyện miền núi, vùng sâu vùng xa...' },
-};
+export const REGIONAL_MINIMUM_WAGES_2025 = RULES_2024_07.regionalMinimumWages;
 
 // Mức lương tối thiểu vùng 2026 (từ 01/01/2026 - Nghị định 293/2025)
-export const REGIONAL_MINIMUM_WAGES_2026 = {
-  1: { name: 'Vùng I', wage: 5_310_000, description: 'Hà Nội, TP.HCM, Hải Phòng, Đà Nẵng...' },
-  2: { name: 'Vùng II', wage: 4_730_000, description: 'Các thành phố thuộc tỉnh, huyện ngoại thành...' },
-  3: { name: 'Vùng III', wage: 4_140_000, description: 'Thị xã, các huyện thuộc các tỉnh...' },
-  4: { name: 'Vùng IV', wage: 3_700_000, description: 'Các huyện miền núi, vùng sâu vùng xa...' },
-};
+export const REGIONAL_MINIMUM_WAGES_2026 = RULES_2026_01.regionalMinimumWages;
 
 // Legacy export for backward compatibility (default to 2025)
 export const REGIONAL_MINIMUM_WAGES = REGIONAL_MINIMUM_WAGES_2025;
@@ -54,57 +58,34 @@ export type RegionType = 1 | 2 | 3 | 4;
 
 // Lấy lương tối thiểu vùng theo ngày
 export function getRegionalMinimumWages(date: Date = new Date()) {
-  if (date >= EFFECTIVE_DATES.REGIONAL_MINIMUM_WAGE_2026) {
-    return REGIONAL_MINIMUM_WAGES_2026;
-  }
-  return REGIONAL_MINIMUM_WAGES_2025;
+  return getTaxRulesForDate(date).regionalMinimumWages;
 }
 
 // Lương cơ sở (dùng để tính mức đóng BHXH tối đa)
-export const BASE_SALARY = 2_340_000; // Lương cơ sở từ 01/07/2024 (đến 30/6/2026)
-export const BASE_SALARY_2026 = 2_530_000; // Lương cơ sở từ 01/7/2026 (mức tham chiếu - Luật BHXH 2024)
+export const BASE_SALARY = RULES_2024_07.baseSalary; // Lương cơ sở từ 01/07/2024 (đến 30/6/2026)
+export const BASE_SALARY_2026 = RULES_2026_07.baseSalary; // Lương cơ sở từ 01/7/2026 (mức tham chiếu - Luật BHXH 2024)
 
 // Lấy lương cơ sở (mức tham chiếu) theo ngày
 export function getBaseSalary(date: Date = new Date()): number {
-  return date >= EFFECTIVE_DATES.BASE_SALARY_2026 ? BASE_SALARY_2026 : BASE_SALARY;
+  return getTaxRulesForDate(date).baseSalary;
 }
 
 // Biểu thuế HIỆN HÀNH (7 bậc)
-export const OLD_TAX_BRACKETS = [
-  { min: 0, max: 5_000_000, rate: 0.05, deduction: 0 },
-  { min: 5_000_000, max: 10_000_000, rate: 0.10, deduction: 250_000 },
-  { min: 10_000_000, max: 18_000_000, rate: 0.15, deduction: 750_000 },
-  { min: 18_000_000, max: 32_000_000, rate: 0.20, deduction: 1_650_000 },
-  { min: 32_000_000, max: 52_000_000, rate: 0.25, deduction: 3_250_000 },
-  { min: 52_000_000, max: 80_000_000, rate: 0.30, deduction: 5_850_000 },
-  { min: 80_000_000, max: Infinity, rate: 0.35, deduction: 9_850_000 },
-];
+export const OLD_TAX_BRACKETS: TaxBracket[] = getTaxRulesForLaw('old').brackets;
 
 // Biểu thuế MỚI 2026 (5 bậc)
-export const NEW_TAX_BRACKETS = [
-  { min: 0, max: 10_000_000, rate: 0.05, deduction: 0 },
-  { min: 10_000_000, max: 30_000_000, rate: 0.10, deduction: 500_000 },
-  { min: 30_000_000, max: 60_000_000, rate: 0.20, deduction: 3_500_000 },
-  { min: 60_000_000, max: 100_000_000, rate: 0.30, deduction: 9_500_000 },
-  { min: 100_000_000, max: Infinity, rate: 0.35, deduction: 14_500_000 },
-];
+export const NEW_TAX_BRACKETS: TaxBracket[] = getTaxRulesForLaw('new').brackets;
 
 // Mức giảm trừ gia cảnh
-export const OLD_DEDUCTIONS = {
-  personal: 11_000_000, // Bản thân
-  dependent: 4_400_000, // Mỗi người phụ thuộc
-};
+export const OLD_DEDUCTIONS: FamilyDeductions = getTaxRulesForLaw('old').deductions;
 
-export const NEW_DEDUCTIONS = {
-  personal: 15_500_000, // Bản thân
-  dependent: 6_200_000, // Mỗi người phụ thuộc
-};
+export const NEW_DEDUCTIONS: FamilyDeductions = getTaxRulesForLaw('new').deductions;
 
 // ===== DATE-AWARE TAX CONFIG =====
 
 export interface TaxConfig {
-  brackets: typeof OLD_TAX_BRACKETS;
-  deductions: typeof OLD_DEDUCTIONS;
+  brackets: TaxBracket[];
+  deductions: FamilyDeductions;
   isNew2026: boolean;
   lawName: string;
   effectiveDate: Date;
@@ -116,24 +97,14 @@ export interface TaxConfig {
  * - Từ 01/01/2026: Luật Thuế TNCN sửa đổi 2025 (5 bậc, giảm trừ 15.5M/6.2M)
  */
 export function getTaxConfigForDate(date: Date = new Date()): TaxConfig {
-  const is2026OrLater = date >= EFFECTIVE_DATES.NEW_TAX_LAW_2026;
-
-  if (is2026OrLater) {
-    return {
-      brackets: NEW_TAX_BRACKETS,
-      deductions: NEW_DEDUCTIONS,
-      isNew2026: true,
-      lawName: 'Luật Thuế TNCN 2025 (5 bậc)',
-      effectiveDate: EFFECTIVE_DATES.NEW_TAX_LAW_2026,
-    };
-  }
+  const rules = getTaxRulesForDate(date);
 
   return {
-    brackets: OLD_TAX_BRACKETS,
-    deductions: OLD_DEDUCTIONS,
-    isNew2026: false,
-    lawName: 'Luật Thuế TNCN 2007 (7 bậc)',
-    effectiveDate: new Date('2007-01-01'),
+    brackets: rules.brackets,
+    deductions: rules.deductions,
+    isNew2026: rules.law === 'new',
+    lawName: rules.lawName,
+    effectiveDate: rules.lawEffectiveFrom,
   };
 }
 
@@ -184,60 +155,35 @@ export function getUpcomingMilestones(fromDate: Date = new Date()): {
 }
 
 // Tỷ lệ bảo hiểm bắt buộc (người lao động đóng)
-export const INSURANCE_RATES = {
-  socialInsurance: 0.08, // BHXH 8%
-  healthInsurance: 0.015, // BHYT 1.5%
-  unemploymentInsurance: 0.01, // BHTN 1%
-  unionFee: 0.01, // Công đoàn 1% (người lao động, nếu có)
-};
+export const INSURANCE_RATES = RULES_2026_07.insuranceRates;
 
 // Tổng tỷ lệ bảo hiểm (không bao gồm công đoàn) = 10.5%
 export const TOTAL_INSURANCE_RATE = INSURANCE_RATES.socialInsurance + INSURANCE_RATES.healthInsurance + INSURANCE_RATES.unemploymentInsurance;
 
 // Tỷ lệ công ty đóng
-export const EMPLOYER_INSURANCE_RATES = {
-  socialInsurance: 0.175, // BHXH 17.5%
-  healthInsurance: 0.03, // BHYT 3%
-  unemploymentInsurance: 0.01, // BHTN 1%
-  unionFee: 0.02, // Công đoàn 2%
-};
+export const EMPLOYER_INSURANCE_RATES = RULES_2026_07.employerInsuranceRates;
 
 // Mức lương tối đa đóng BHXH, BHYT (20 lần lương cơ sở/mức tham chiếu)
-export const MAX_SOCIAL_INSURANCE_SALARY = 46_800_000; // 20 * 2.340.000 (đến 30/6/2026)
-export const MAX_SOCIAL_INSURANCE_SALARY_2026 = 50_600_000; // 20 * 2.530.000 (từ 01/7/2026)
+export const MAX_SOCIAL_INSURANCE_SALARY = RULES_2024_07.maxSocialInsuranceSalary; // 20 * 2.340.000 (đến 30/6/2026)
+export const MAX_SOCIAL_INSURANCE_SALARY_2026 = RULES_2026_07.maxSocialInsuranceSalary; // 20 * 2.530.000 (từ 01/7/2026)
 
 // Lấy mức trần đóng BHXH, BHYT theo ngày
 export function getMaxSocialInsuranceSalary(date: Date = new Date()): number {
-  return date >= EFFECTIVE_DATES.BASE_SALARY_2026
-    ? MAX_SOCIAL_INSURANCE_SALARY_2026
-    : MAX_SOCIAL_INSURANCE_SALARY;
+  return getTaxRulesForDate(date).maxSocialInsuranceSalary;
 }
 
 // Mức lương tối đa đóng BHTN 2025 (20 lần lương tối thiểu vùng)
-export const MAX_UNEMPLOYMENT_INSURANCE_SALARY_2025 = {
-  1: 99_200_000, // Vùng I: 20 * 4.960.000
-  2: 88_200_000, // Vùng II: 20 * 4.410.000
-  3: 77_200_000, // Vùng III: 20 * 3.860.000
-  4: 69_000_000, // Vùng IV: 20 * 3.450.000
-};
+export const MAX_UNEMPLOYMENT_INSURANCE_SALARY_2025 = RULES_2024_07.maxUnemploymentInsuranceSalary;
 
 // Mức lương tối đa đóng BHTN 2026 (từ 01/01/2026)
-export const MAX_UNEMPLOYMENT_INSURANCE_SALARY_2026 = {
-  1: 106_200_000, // Vùng I: 20 * 5.310.000
-  2: 94_600_000,  // Vùng II: 20 * 4.730.000
-  3: 82_800_000,  // Vùng III: 20 * 4.140.000
-  4: 74_000_000,  // Vùng IV: 20 * 3.700.000
-};
+export const MAX_UNEMPLOYMENT_INSURANCE_SALARY_2026 = RULES_2026_01.maxUnemploymentInsuranceSalary;
 
 // Legacy export for backward compatibility (default to 2025)
 export const MAX_UNEMPLOYMENT_INSURANCE_SALARY = MAX_UNEMPLOYMENT_INSURANCE_SALARY_2025;
 
 // Lấy mức BHTN cap theo ngày
 export function getMaxUnemploymentInsuranceSalary(date: Date = new Date()) {
-  if (date >= EFFECTIVE_DATES.REGIONAL_MINIMUM_WAGE_2026) {
-    return MAX_UNEMPLOYMENT_INSURANCE_SALARY_2026;
-  }
-  return MAX_UNEMPLOYMENT_INSURANCE_SALARY_2025;
+  return getTaxRulesForDate(date).maxUnemploymentInsuranceSalary;
 }
 
 export interface InsuranceOptions {
@@ -374,15 +320,13 @@ export const OTHER_INCOME_TAX_RATES = {
 
 // Ngưỡng miễn thuế
 export const OTHER_INCOME_THRESHOLDS = {
-  lottery: 10_000_000,  // Trúng thưởng miễn thuế dưới 10 triệu
-  rental2025: 100_000_000,  // Cho thuê tài sản dưới 100 triệu/năm (đến 31/12/2025)
-  rental2026: 1_000_000_000,  // Cho thuê tài sản dưới 1 tỷ/năm (Nghị định 141/2026/NĐ-CP, từ 01/01/2026)
+  lottery: RULES_2024_07.perTransactionThreshold,  // Trúng thưởng miễn thuế dưới 10 triệu
+  rental2025: RULES_2024_07.rentalIncomeThreshold,  // Cho thuê tài sản dưới 100 triệu/năm (đến 31/12/2025)
+  rental2026: RULES_2026_01.rentalIncomeThreshold,  // Cho thuê tài sản dưới 1 tỷ/năm (Nghị định 141/2026/NĐ-CP, từ 01/01/2026)
 };
 
 export function getRentalIncomeThreshold(date: Date = new Date()): number {
-  return date >= EFFECTIVE_DATES.NEW_TAX_LAW_2026
-    ? OTHER_INCOME_THRESHOLDS.rental2026
-    : OTHER_INCOME_THRESHOLDS.rental2025;
+  return getTaxRulesForDate(date).rentalIncomeThreshold;
 }
 
 export interface TaxInput {
@@ -395,9 +339,12 @@ export interface TaxInput {
   region?: RegionType; // Vùng lương tối thiểu
   pensionContribution?: number; // Quỹ hưu trí tự nguyện (tối đa 1tr/tháng)
   allowances?: AllowancesState; // Phụ cấp (ăn trưa, điện thoại, độc hại...)
+  asOf?: Date; // Kỳ tính thuế: ngày tra cứu trần bảo hiểm, ngưỡng... (mặc định = ngày hiện tại)
+  trace?: boolean; // Trả kèm diễn giải từng bước (xem calculationTrace.ts)
 }
 
 export interface TaxResult {
+  asOf: Date; // Kỳ tính thuế đã dùng (tái lập được kết quả)
   grossIncome: number;
   insuranceDeduction: number;
   insuranceDetail: InsuranceDetail; // Chi tiết BHXH, BHYT, BHTN
@@ -413,6 +360,7 @@ export interface TaxResult {
   // Phụ cấp
   allowancesBreakdown?: AllowancesBreakdown;
   totalIncome: number; // grossIncome + tổng phụ cấp
+  trace?: CalculationTrace; // Chỉ có khi input.trace = true
 }
 
 export interface TaxBreakdownItem {
@@ -431,6 +379,19 @@ export interface InsuranceDetail {
   total: number;
 }
 
+/**
+ * Chốt kỳ tính thuế: sao chép ngày được truyền vào (tránh bị sửa từ bên ngoài)
+ * hoặc lấy ngày hiện tại nếu không có
+ */
+export function resolveAsOf(asOf?: Date): Date {
+  return asOf ? new Date(asOf.getTime()) : new Date();
+}
+
+/** Ngày đầu tháng của kỳ tính thuế (month 1-12) */
+export function getPeriodDate(year: number, month: number): Date {
+  return new Date(year, month - 1, 1);
+}
+
 // Default insurance options (all enabled)
 export const DEFAULT_INSURANCE_OPTIONS: InsuranceOptions = {
   bhxh: true,
@@ -444,16 +405,17 @@ function calculateInsuranceDetailed(
   options: InsuranceOptions = DEFAULT_INSURANCE_OPTIONS,
   date: Date = new Date()
 ): InsuranceDetail {
+  const rules = getTaxRulesForDate(date);
+
   // BHXH và BHYT tính trên mức tối đa 20 lần lương cơ sở
-  const bhxhBase = Math.min(grossIncome, getMaxSocialInsuranceSalary(date));
-  const bhxh = options.bhxh ? bhxhBase * INSURANCE_RATES.socialInsurance : 0;
-  const bhyt = options.bhyt ? bhxhBase * INSURANCE_RATES.healthInsurance : 0;
+  const bhxhBase = Math.min(grossIncome, rules.maxSocialInsuranceSalary);
+  const bhxh = options.bhxh ? bhxhBase * rules.insuranceRates.socialInsurance : 0;
+  const bhyt = options.bhyt ? bhxhBase * rules.insuranceRates.healthInsurance : 0;
 
   // BHTN tính trên mức tối đa 20 lần lương tối thiểu vùng (date-aware)
-  const maxBhtnByRegion = getMaxUnemploymentInsuranceSalary(date);
-  const maxBhtn = maxBhtnByRegion[region];
+  const maxBhtn = rules.maxUnemploymentInsuranceSalary[region];
   const bhtnBase = Math.min(grossIncome, maxBhtn);
-  const bhtn = options.bhtn ? bhtnBase * INSURANCE_RATES.unemploymentInsurance : 0;
+  const bhtn = options.bhtn ? bhtnBase * rules.insuranceRates.unemploymentInsurance : 0;
 
   return {
     bhxh,
@@ -484,7 +446,7 @@ export function getInsuranceDetailed(
 
 function calculateTaxWithBrackets(
   taxableIncome: number,
-  brackets: typeof OLD_TAX_BRACKETS
+  brackets: TaxBracket[]
 ): { tax: number; breakdown: TaxBreakdownItem[] } {
   if (taxableIncome <= 0) {
     return { tax: 0, breakdown: [] };
@@ -519,7 +481,7 @@ function calculateTaxWithBrackets(
 // Phương pháp tính nhanh
 function calculateTaxQuick(
   taxableIncome: number,
-  brackets: typeof OLD_TAX_BRACKETS
+  brackets: TaxBracket[]
 ): number {
   if (taxableIncome <= 0) return 0;
 
@@ -531,7 +493,11 @@ function calculateTaxQuick(
   return 0;
 }
 
-export function calculateOldTax(input: TaxInput): TaxResult {
+/**
+ * Tính thuế TNCN từ tiền lương, tiền công theo biểu thuế & giảm trừ của một luật
+ * (tham số lấy từ taxRuleRegistry)
+ */
+function calculateTaxForLaw(input: TaxInput, law: PitLaw): TaxResult {
   const {
     grossIncome,
     declaredSalary,
@@ -542,6 +508,7 @@ export function calculateOldTax(input: TaxInput): TaxResult {
     region = 1,
     allowances,
   } = input;
+  const asOf = resolveAsOf(input.asOf);
 
   // Lương đóng bảo hiểm (mặc định = lương thực nếu không khai báo riêng)
   const insuranceBaseSalary = declaredSalary ?? grossIncome;
@@ -557,22 +524,25 @@ export function calculateOldTax(input: TaxInput): TaxResult {
   const allowancesBreakdown = calculateAllowancesBreakdown(allowances);
 
   // Tính bảo hiểm dựa trên lương đóng BH (có thể khác lương thực)
-  const insuranceDetail = calculateInsuranceDetailed(insuranceBaseSalary, region, insOptions);
+  const insuranceDetail = calculateInsuranceDetailed(insuranceBaseSalary, region, insOptions, asOf);
   const insuranceDeduction = insuranceDetail.total;
-  const personalDeduction = OLD_DEDUCTIONS.personal;
-  const dependentDeduction = dependents * OLD_DEDUCTIONS.dependent;
+  // Giảm trừ & biểu thuế theo phiên bản của luật có hiệu lực tại kỳ tính thuế
+  const { deductions, brackets } = getTaxRulesForLaw(law, asOf);
+  const personalDeduction = deductions.personal;
+  const dependentDeduction = dependents * deductions.dependent;
 
   const totalDeductions = insuranceDeduction + personalDeduction + dependentDeduction + otherDeductions;
   // Thu nhập tính thuế = lương thực + phụ cấp chịu thuế - các khoản giảm trừ
   const taxableIncome = Math.max(0, grossIncome + allowancesBreakdown.taxable - totalDeductions);
 
-  const { tax, breakdown } = calculateTaxWithBrackets(taxableIncome, OLD_TAX_BRACKETS);
+  const { tax, breakdown } = calculateTaxWithBrackets(taxableIncome, brackets);
   // Thu nhập thực nhận = lương + tổng phụ cấp - bảo hiểm - thuế
   const totalIncome = grossIncome + allowancesBreakdown.total;
   const netIncome = totalIncome - insuranceDeduction - tax;
   const effectiveRate = totalIncome > 0 ? (tax / totalIncome) * 100 : 0;
 
-  return {
+  const result: TaxResult = {
+    asOf,
     grossIncome,
     insuranceDeduction,
     insuranceDetail,
@@ -588,65 +558,37 @@ export function calculateOldTax(input: TaxInput): TaxResult {
     allowancesBreakdown,
     totalIncome,
   };
-}
-
-export function calculateNewTax(input: TaxInput): TaxResult {
-  const {
-    grossIncome,
-    declaredSalary,
-    dependents,
-    otherDeductions = 0,
-    hasInsurance = true,
-    insuranceOptions,
-    region = 1,
-    allowances,
-  } = input;
-
-  // Lương đóng bảo hiểm (mặc định = lương thực nếu không khai báo riêng)
-  const insuranceBaseSalary = declaredSalary ?? grossIncome;
 
-  // Xác định các loại bảo hiểm được bật
-  const insOptions: InsuranceOptions = insuranceOptions ?? {
-    bhxh: hasInsurance,
-    bhyt: hasInsurance,
-    bhtn: hasInsurance,
-  };
-
-  // Tính phụ cấp miễn thuế và chịu thuế
-  const allowancesBreakdown = calculateAllowancesBreakdown(allowances);
-
-  // Tính bảo hiểm dựa trên lương đóng BH (có thể khác lương thực)
-  const insuranceDetail = calculateInsuranceDetailed(insuranceBaseSalary, region, insOptions);
-  const insuranceDeduction = insuranceDetail.total;
-  const personalDeduction = NEW_DEDUCTIONS.personal;
-  const dependentDeduction = dependents * NEW_DEDUCTIONS.dependent;
+  if (input.trace) {
+    result.trace = buildSalaryTaxTrace({
+      asOf,
+      rules: getTaxRulesForDate(asOf),
+      law,
+      grossIncome,
+      insuranceSalary: insuranceBaseSalary,
+      region,
+      insuranceOptions: insOptions,
+      insuranceDetail,
+      personalDeduction,
+      dependents,
+      dependentDeduction,
+      otherDeductions,
+      allowancesBreakdown,
+      taxableIncome,
+      taxBreakdown: breakdown,
+      taxAmount: tax,
+    });
+  }
 
-  const totalDeductions = insuranceDeduction + personalDeduction + dependentDeduction + otherDeductions;
-  // Thu nhập tính thuế = lương thực + phụ cấp chịu thuế - các khoản giảm trừ
-  const taxableIncome = Math.max(0, grossIncome + allowancesBreakdown.taxable - totalDeductions);
+  return result;
+}
 
-  const { tax, breakdown } = calculateTaxWithBrackets(taxableIncome, NEW_TAX_BRACKETS);
-  // Thu nhập thực nhận = lương + tổng phụ cấp - bảo hiểm - thuế
-  const totalIncome = grossIncome + allowancesBreakdown.total;
-  const netIncome = totalIncome - insuranceDeduction - tax;
-  const effectiveRate = totalIncome > 0 ? (tax / totalIncome) * 100 : 0;
+export function calculateOldTax(input: TaxInput): TaxResult {
+  return calculateTaxForLaw(input, 'old');
+}
 
-  return {
-    grossIncome,
-    insuranceDeduction,
-    insuranceDetail,
-    personalDeduction,
-    dependentDeduction,
-    otherDeductions,
-    totalDeductions,
-    taxableIncome,
-    taxAmount: tax,
-    netIncome,
-    effectiveRate,
-    taxBreakdown: breakdown,
-    allowancesBreakdown,
-    totalIncome,
-  };
+export function calculateNewTax(input: TaxInput): TaxResult {
+  return calculateTaxForLaw(input, 'new');
 }
 
 export function formatCurrency(amount: number | null | undefined): string {
@@ -695,7 +637,7 @@ export function calculateTaxRange(
 // ===== DATE-AWARE TAX CALCULATION =====
 
 export interface TaxInputWithDate extends TaxInput {
-  calculationDate?: Date; // Ngày tính thuế (mặc định = ngày hiện tại)
+  calculationDate?: Date; // Deprecated: dùng asOf
 }
 
 export interface TaxResultWithConfig extends TaxResult {
@@ -708,13 +650,13 @@ export interface TaxResultWithConfig extends TaxResult {
  * - Hỗ trợ tính thuế cho ngày trong quá khứ hoặc tương lai
  */
 export function calculateTaxForDate(input: TaxInputWithDate): TaxResultWithConfig {
-  const calculationDate = input.calculationDate ?? new Date();
-  const taxConfig = getTaxConfigForDate(calculationDate);
+  const asOf = resolveAsOf(input.asOf ?? input.calculationDate);
+  const taxConfig = getTaxConfigForDate(asOf);
 
   // Sử dụng hàm tính thuế tương ứng
   const result = taxConfig.isNew2026
-    ? calculateNewTax(input)
-    : calculateOldTax(input);
+    ? calculateNewTax({ ...input, asOf })
+    : calculateOldTax({ ...input, asOf });
 
   return {
     ...result,
@@ -897,19 +839,21 @@ export function calculateEmployerInsurance(
   includeUnionFee: boolean = false,
   date: Date = new Date()
 ): EmployerInsuranceDetail {
+  const rules = getTaxRulesForDate(date);
+  const rates = rules.employerInsuranceRates;
+
   // BHXH và BHYT giới hạn ở 20 lần lương cơ sở (date-aware)
-  const bhxhBhytBase = Math.min(grossIncome, getMaxSocialInsuranceSalary(date));
-  const bhxh = options.bhxh ? bhxhBhytBase * EMPLOYER_INSURANCE_RATES.socialInsurance : 0;
-  const bhyt = options.bhyt ? bhxhBhytBase * EMPLOYER_INSURANCE_RATES.healthInsurance : 0;
+  const bhxhBhytBase = Math.min(grossIncome, rules.maxSocialInsuranceSalary);
+  const bhxh = options.bhxh ? bhxhBhytBase * rates.socialInsurance : 0;
+  const bhyt = options.bhyt ? bhxhBhytBase * rates.healthInsurance : 0;
 
   // BHTN giới hạn ở 20 lần lương tối thiểu vùng (date-aware)
-  const maxBhtnByRegion = getMaxUnemploymentInsuranceSalary(date);
-  const maxBhtn = maxBhtnByRegion[region];
+  const maxBhtn = rules.maxUnemploymentInsuranceSalary[region];
   const bhtnBase = Math.min(grossIncome, maxBhtn);
-  const bhtn = options.bhtn ? bhtnBase * EMPLOYER_INSURANCE_RATES.unemploymentInsurance : 0;
+  const bhtn = options.bhtn ? bhtnBase * rates.unemploymentInsurance : 0;
 
   // Công đoàn 2% (tùy chọn) - không giới hạn
-  const unionFee = includeUnionFee ? grossIncome * EMPLOYER_INSURANCE_RATES.unionFee : 0;
+  const unionFee = includeUnionFee ? grossIncome * rates.unionFee : 0;
 
   return {
     bhxh,
@@ -929,6 +873,7 @@ export function getFullEmployerCostResult(input: {
   includeUnionFee?: boolean;
   useNewLaw?: boolean;
   allowances?: AllowancesState;
+  asOf?: Date;
 }): EmployerCostResult {
   const {
     grossIncome,
@@ -940,15 +885,16 @@ export function getFullEmployerCostResult(input: {
     useNewLaw = true,
     allowances,
   } = input;
+  const asOf = resolveAsOf(input.asOf);
 
   // Sử dụng lương khai báo cho bảo hiểm nếu có
   const insuranceBase = declaredSalary ?? grossIncome;
 
   // Tính bảo hiểm phía công ty
-  const employerInsurance = calculateEmployerInsurance(insuranceBase, region, insuranceOptions, includeUnionFee);
+  const employerInsurance = calculateEmployerInsurance(insuranceBase, region, insuranceOptions, includeUnionFee, asOf);
 
   // Tính bảo hiểm phía nhân viên
-  const employeeInsurance = getInsuranceDetailed(insuranceBase, region, insuranceOptions);
+  const employeeInsurance = getInsuranceDetailed(insuranceBase, region, insuranceOptions, asOf);
 
   // Tính thuế
   const taxResult = useNewLaw
@@ -959,6 +905,7 @@ export function getFullEmployerCostResult(input: {
         insuranceOptions,
         region,
         allowances,
+        asOf,
       })
     : calculateOldTax({
         grossIncome,
@@ -967,6 +914,7 @@ export function getFullEmployerCostResult(input: {
         insuranceOptions,
         region,
         allowances,
+        asOf,
       });
 
   const totalEmployerCost = grossIncome + employerInsurance.total;
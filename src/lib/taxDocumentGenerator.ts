@@ -7,7 +7,10 @@
  * - Nghị định 126/2020/NĐ-CP về quản lý thuế
  */
 
-import { formatNumber } from './taxCalculator';
+import { formatNumber, getPeriodDate, getTaxConfigForDate } from './taxCalculator';
+import type { PdfBlock, PdfReport } from './pdfReportRenderer';
+import type { DependentInfo } from './annualSettlementCalculator';
+import { buildDependentRegistration, formatRegistrationMonth } from './dependentRegistrationXmlExporter';
 
 // =============================================================================
 // TYPES
@@ -19,7 +22,8 @@ import { formatNumber } from './taxCalculator';
 export type DocumentType =
   | 'personal_report'      // Báo cáo thu nhập cá nhân
   | 'monthly_declaration'  // Tờ khai thuế tháng (02/KK-TNCN)
-  | 'annual_settlement';   // Tờ khai quyết toán (02/QTT-TNCN)
+  | 'annual_settlement'    // Tờ khai quyết toán (02/QTT-TNCN)
+  | 'dependent_registration'; // Đăng ký người phụ thuộc (07/ĐK-NPT-TNCN)
 
 /**
  * Thông tin cá nhân
@@ -83,6 +87,7 @@ export interface DocumentInput {
   incomeInfo: IncomeInfo;
   deductionInfo: DeductionInfo;
   taxInfo: TaxInfo;
+  dependents?: DependentInfo[]; // Cho bản đăng ký người phụ thuộc
   notes?: string;
 }
 
@@ -113,6 +118,15 @@ export interface DocumentSection {
   id: string;
   title: string;
   rows: DocumentRow[];
+  table?: DocumentTable; // Bảng kê hiển thị sau các dòng
+}
+
+/**
+ * Bảng kê trong section (VD: phụ lục danh sách người phụ thuộc)
+ */
+export interface DocumentTable {
+  columns: string[];
+  rows: string[][];
 }
 
 /**
@@ -150,14 +164,13 @@ export const DOCUMENT_TYPE_INFO: Record<DocumentType, {
     description: 'Tờ khai quyết toán thuế TNCN năm',
     formCode: '02/QTT-TNCN',
   },
+  dependent_registration: {
+    label: 'Đăng ký người phụ thuộc',
+    description: 'Bản đăng ký người phụ thuộc giảm trừ gia cảnh kèm bảng kê',
+    formCode: '07/ĐK-NPT-TNCN',
+  },
 };
 
-// Personal deduction amounts
-const PERSONAL_DEDUCTION_2025 = 11_000_000;
-const PERSONAL_DEDUCTION_2026 = 15_500_000; // Từ kỳ tính thuế 2026 (NQ 110/2025/UBTVQH15)
-const DEPENDENT_DEDUCTION_2025 = 4_400_000;
-const DEPENDENT_DEDUCTION_2026 = 6_200_000; // Từ kỳ tính thuế 2026 (NQ 110/2025/UBTVQH15)
-
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -408,6 +421,96 @@ function generateAnnualSettlement(input: DocumentInput): DocumentOutput {
   };
 }
 
+/**
+ * Generate dependent registration (07/ĐK-NPT-TNCN) kèm phụ lục bảng kê người phụ thuộc
+ */
+function generateDependentRegistration(input: DocumentInput): DocumentOutput {
+  const { personalInfo, period } = input;
+  const registration = buildDependentRegistration({
+    year: period.year,
+    personalInfo,
+    dependents: input.dependents ?? [],
+  });
+
+  const withTaxCode = registration.bkNPT.filter((dep) => dep.mstNPT);
+  const withoutTaxCode = registration.bkNPT.filter((dep) => !dep.mstNPT);
+
+  const sections: DocumentSection[] = [];
+
+  sections.push({
+    id: 'personal',
+    title: 'Phần A - Thông tin người nộp thuế',
+    rows: [
+      { label: '[01] Họ và tên', value: personalInfo.fullName || '(Chưa nhập)', format: 'text' },
+      { label: '[02] Mã số thuế', value: personalInfo.taxCode || '(Chưa có)', format: 'text' },
+      { label: '[03] Địa chỉ nhận thông báo MST người phụ thuộc', value: personalInfo.address || '(Chưa nhập)', format: 'text' },
+    ],
+  });
+
+  sections.push({
+    id: 'registration_place',
+    title: 'Phần B - Nơi đăng ký giảm trừ gia cảnh',
+    rows: [
+      { label: '[05] Tổ chức, cá nhân trả thu nhập', value: personalInfo.employer || '(Đăng ký tại cơ quan thuế)', format: 'text' },
+      { label: '[06] MST tổ chức, cá nhân trả thu nhập', value: personalInfo.employerTaxCode || '', format: 'text' },
+      { label: 'Số người phụ thuộc đăng ký', value: registration.bkNPT.length, format: 'number', highlight: true },
+    ],
+  });
+
+  const dateOfBirth = (value?: string) => value ? value.split('-').reverse().join('/') : '';
+
+  sections.push({
+    id: 'appendix_with_tax_code',
+    title: 'Phụ lục - I. Người phụ thuộc đã có MST',
+    rows: [],
+    table: {
+      columns: ['STT', 'Họ và tên', 'Ngày sinh', 'MST', 'Quốc tịch', 'CCCD/Hộ chiếu', 'Quan hệ', 'Từ tháng', 'Đến tháng'],
+      rows: withTaxCode.map((dep, index) => [
+        String(index + 1),
+        dep.hoTen ?? '',
+        dateOfBirth(dep.ngaySinh),
+        dep.mstNPT ?? '',
+        dep.quocTich,
+        dep.giayTo ?? '',
+        dep.quanHe ?? '',
+        formatRegistrationMonth(dep.tuThang),
+        formatRegistrationMonth(dep.denThang),
+      ]),
+    },
+  });
+
+  sections.push({
+    id: 'appendix_without_tax_code',
+    title: 'Phụ lục - II. Người phụ thuộc chưa có MST',
+    rows: [],
+    table: {
+      columns: ['STT', 'Họ và tên', 'Ngày sinh', 'Quốc tịch', 'CCCD/Giấy khai sinh', 'Quan hệ', 'Từ tháng', 'Đến tháng'],
+      rows: withoutTaxCode.map((dep, index) => [
+        String(index + 1),
+        dep.hoTen ?? '',
+        dateOfBirth(dep.ngaySinh),
+        dep.quocTich,
+        dep.giayTo ?? '',
+        dep.quanHe ?? '',
+        formatRegistrationMonth(dep.tuThang),
+        formatRegistrationMonth(dep.denThang),
+      ]),
+    },
+  });
+
+  return {
+    type: 'dependent_registration',
+    title: `Bản đăng ký người phụ thuộc - Năm ${period.year}`,
+    metadata: {
+      generatedAt: new Date(),
+      documentId: generateDocumentId(),
+      version: '1.0',
+    },
+    content: sections,
+    legalNote: 'Đây là bản tham khảo theo mẫu 07/ĐK-NPT-TNCN. Nộp cho tổ chức trả thu nhập (nếu đăng ký qua nơi làm việc) hoặc cơ quan thuế quản lý; người phụ thuộc chưa có MST sẽ được cấp mã số theo thông tin kê khai. Đối chiếu với phần mềm HTKK hoặc thuedientu.gdt.gov.vn trước khi nộp.',
+  };
+}
+
 // =============================================================================
 // MAIN FUNCTION
 // =============================================================================
@@ -423,11 +526,76 @@ export function generateTaxDocument(input: DocumentInput): DocumentOutput {
       return generateMonthlyDeclaration(input);
     case 'annual_settlement':
       return generateAnnualSettlement(input);
+    case 'dependent_registration':
+      return generateDependentRegistration(input);
     default:
       return generatePersonalReport(input);
   }
 }
 
+/**
+ * Khối PDF của một section: tiêu đề, các dòng giá trị và bảng kê (nếu có)
+ */
+function buildSectionBlocks(section: DocumentSection): PdfBlock[] {
+  const blocks: PdfBlock[] = [{ type: 'heading', text: section.title }];
+
+  if (section.rows.length > 0) {
+    blocks.push({
+      type: 'keyValue',
+      rows: section.rows.map((row) => ({
+        label: row.label,
+        value: formatValue(row.value, row.format),
+        bold: row.highlight,
+        indent: !!row.indent,
+      })),
+    });
+  }
+
+  if (section.table) {
+    blocks.push(
+      section.table.rows.length > 0
+        ? {
+            type: 'table',
+            columns: section.table.columns.map((header) => ({ header })),
+            rows: section.table.rows.map((cells) => ({ cells })),
+          }
+        : { type: 'paragraph', text: 'Không có', tone: 'muted' }
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Chuyển tài liệu sang báo cáo PDF dạng văn bản (bảng theo từng mục + chữ ký)
+ */
+export function buildDocumentPdfReport(doc: DocumentOutput): PdfReport {
+  const formCode = DOCUMENT_TYPE_INFO[doc.type].formCode;
+
+  return {
+    title: doc.title,
+    subtitle: formCode ? `Mẫu ${formCode}` : undefined,
+    meta: [
+      `Mã tài liệu: ${doc.metadata.documentId}`,
+      `Ngày tạo: ${doc.metadata.generatedAt.toLocaleDateString('vi-VN')}`,
+    ],
+    blocks: [
+      ...doc.content.flatMap((section) => buildSectionBlocks(section)),
+      { type: 'paragraph', text: doc.legalNote, tone: 'muted', boxed: true },
+      {
+        type: 'signatures',
+        boxes: [
+          { title: 'Người nộp thuế', caption: '(Ký, ghi rõ họ tên)', date: 'Ngày ... tháng ... năm ...' },
+          // Bản đăng ký người phụ thuộc chỉ cần chữ ký người nộp thuế
+          ...(doc.type === 'dependent_registration'
+            ? []
+            : [{ title: 'Xác nhận của cơ quan thuế', caption: '(Ký, đóng dấu)', date: 'Ngày ... tháng ... năm ...' }]),
+        ],
+      },
+    ],
+  };
+}
+
 /**
  * Get available document types
  */
@@ -446,16 +614,11 @@ export function getDeductionAmounts(year: number, _isSecondHalf2026: boolean = f
   personalDeduction: number;
   dependentDeduction: number;
 } {
-  // Mức giảm trừ mới (15.5tr/6.2tr) áp dụng từ kỳ tính thuế 2026 (01/01/2026),
+  // Mức giảm trừ theo kỳ tính thuế (tháng 1 của năm), tra từ taxRuleRegistry,
   // không phụ thuộc nửa đầu/nửa sau năm.
-  if (year >= 2026) {
-    return {
-      personalDeduction: PERSONAL_DEDUCTION_2026,
-      dependentDeduction: DEPENDENT_DEDUCTION_2026,
-    };
-  }
+  const { deductions } = getTaxConfigForDate(getPeriodDate(year, 1));
   return {
-    personalDeduction: PERSONAL_DEDUCTION_2025,
-    dependentDeduction: DEPENDENT_DEDUCTION_2025,
+    personalDeduction: deductions.personal,
+    dependentDeduction: deductions.dependent,
   };
 }
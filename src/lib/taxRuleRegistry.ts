@@ -0,0 +1,276 @@
+/**
+ * Tax Rule Registry - Bộ tham số thuế TNCN & bảo hiểm theo ngày hiệu lực
+ *
+ * Mỗi phiên bản là một bộ tham số ĐẦY ĐỦ, áp dụng từ `effectiveFrom` cho tới
+ * phiên bản kế tiếp: biểu thuế, giảm trừ gia cảnh, tỷ lệ & trần bảo hiểm,
+ * lương cơ sở, lương tối thiểu vùng và các ngưỡng chịu thuế theo lần phát sinh.
+ *
+ * Khi luật thay đổi giữa năm chỉ cần thêm MỘT phiên bản vào TAX_RULE_SETS;
+ * mọi calculator tra cứu tham số qua getTaxRulesForDate() / getTaxRulesForLaw().
+ *
+ * Ngày hiệu lực dùng local-time new Date(Y, M, D) (xem EFFECTIVE_DATES).
+ */
+
+import type { RegionType } from './taxCalculator';
+
+// ===== TYPES =====
+
+export type TaxRuleSetId = 'vn-2024-07' | 'vn-2026-01' | 'vn-2026-07';
+
+/** Luật thuế TNCN áp dụng cho thu nhập từ tiền lương, tiền công */
+export type PitLaw = 'old' | 'new';
+
+export interface TaxBracket {
+  min: number;
+  max: number;
+  rate: number;
+  deduction: number; // Số trừ theo phương pháp tính rút gọn
+}
+
+export interface FamilyDeductions {
+  personal: number; // Bản thân
+  dependent: number; // Mỗi người phụ thuộc
+}
+
+export interface InsuranceRates {
+  socialInsurance: number; // BHXH
+  healthInsurance: number; // BHYT
+  unemploymentInsurance: number; // BHTN
+  unionFee: number; // Công đoàn
+}
+
+export interface RegionalWage {
+  name: string;
+  wage: number;
+  description: string;
+}
+
+export type RegionalWageTable = Record<RegionType, RegionalWage>;
+
+export interface RevenueBracket {
+  min: number;
+  max: number;
+  rate: number;
+}
+
+export interface TaxRuleSet {
+  id: TaxRuleSetId;
+  effectiveFrom: Date;
+  description: string; // Thay đổi so với phiên bản trước
+
+  // Thuế TNCN từ tiền lương, tiền công
+  law: PitLaw;
+  lawName: string;
+  lawEffectiveFrom: Date;
+  brackets: TaxBracket[];
+  deductions: FamilyDeductions;
+
+  // Bảo hiểm bắt buộc
+  insuranceRates: InsuranceRates; // Người lao động đóng
+  employerInsuranceRates: InsuranceRates; // Công ty đóng
+  baseSalary: number; // Lương cơ sở / mức tham chiếu
+  maxSocialInsuranceSalary: number; // Trần BHXH, BHYT = 20 lần lương cơ sở
+  regionalMinimumWages: RegionalWageTable;
+  maxUnemploymentInsuranceSalary: Record<RegionType, number>; // Trần BHTN = 20 lần lương tối thiểu vùng
+
+  // Ngưỡng & thuế suất khác
+  perTransactionThreshold: number; // Trúng thưởng, thừa kế, quà tặng, bản quyền...
+  rentalIncomeThreshold: number; // Doanh thu cho thuê tài sản/năm
+  householdRevenueThreshold: number; // Doanh thu hộ kinh doanh/năm
+  householdIncomeBrackets: RevenueBracket[]; // Phương pháp thu nhập (hộ kinh doanh)
+  goldTransferTaxRate: number; // 0 = chưa áp dụng
+}
+
+// ===== HELPERS =====
+
+// Trần đóng bảo hiểm = 20 lần mức lương tương ứng (Luật BHXH 2024, Luật Việc làm)
+const INSURANCE_CAP_MULTIPLIER = 20;
+
+function unemploymentCaps(wages: RegionalWageTable): Record<RegionType, number> {
+  return {
+    1: wages[1].wage * INSURANCE_CAP_MULTIPLIER,
+    2: wages[2].wage * INSURANCE_CAP_MULTIPLIER,
+    3: wages[3].wage * INSURANCE_CAP_MULTIPLIER,
+    4: wages[4].wage * INSURANCE_CAP_MULTIPLIER,
+  };
+}
+
+/**
+ * Tạo phiên bản mới từ phiên bản trước: chỉ khai báo phần thay đổi,
+ * các trần bảo hiểm được tính lại từ lương cơ sở / lương tối thiểu vùng.
+ */
+function amendRuleSet(
+  previous: TaxRuleSet,
+  changes: Partial<TaxRuleSet> & Pick<TaxRuleSet, 'id' | 'effectiveFrom' | 'description'>
+): TaxRuleSet {
+  const next = { ...previous, ...changes };
+  return {
+    ...next,
+    maxSocialInsuranceSalary: next.baseSalary * INSURANCE_CAP_MULTIPLIER,
+    maxUnemploymentInsuranceSalary: unemploymentCaps(next.regionalMinimumWages),
+  };
+}
+
+// ===== RULE SETS =====
+
+const INSURANCE_RATES: InsuranceRates = {
+  socialInsurance: 0.08, // BHXH 8%
+  healthInsurance: 0.015, // BHYT 1.5%
+  unemploymentInsurance: 0.01, // BHTN 1%
+  unionFee: 0.01, // Công đoàn 1% (người lao động, nếu có)
+};
+
+const EMPLOYER_INSURANCE_RATES: InsuranceRates = {
+  socialInsurance: 0.175, // BHXH 17.5%
+  healthInsurance: 0.03, // BHYT 3%
+  unemploymentInsurance: 0.01, // BHTN 1%
+  unionFee: 0.02, // Công đoàn 2%
+};
+
+// Mức lương tối thiểu vùng từ 01/07/2024 (Nghị định 74/2024/NĐ-CP)
+const REGIONAL_WAGES_2024: RegionalWageTable = {
+  1: { name: 'Vùng I', wage: 4_960_000, description: 'Hà Nội, TP.HCM, Hải Phòng, Đà Nẵng...' },
+  2: { name: 'Vùng II', wage: 4_410_000, description: 'Các thành phố thuộc tỉnh, huyện ngoại thành...' },
+  3: { name: 'Vùng III', wage: 3_860_000, description: 'Thị xã, các huyện thuộc các tỉnh...' },
+  4: { name: 'Vùng IV', wage: 3_450_000, description: 'Các huyện miền núi, vùng sâu vùng xa...' },
+};
+
+// Mức lương tối thiểu vùng từ 01/01/2026 (Nghị định 293/2025/NĐ-CP)
+const REGIONAL_WAGES_2026: RegionalWageTable = {
+  1: { name: 'Vùng I', wage: 5_310_000, description: 'Hà Nội, TP.HCM, Hải Phòng, Đà Nẵng...' },
+  2: { name: 'Vùng II', wage: 4_730_000, description: 'Các thành phố thuộc tỉnh, huyện ngoại thành...' },
+  3: { name: 'Vùng III', wage: 4_140_000, description: 'Thị xã, các huyện thuộc các tỉnh...' },
+  4: { name: 'Vùng IV', wage: 3_700_000, description: 'Các huyện miền núi, vùng sâu vùng xa...' },
+};
+
+// Luật Thuế TNCN 2007 (sửa đổi 2012, 2014) - 7 bậc
+const PIT_2007_BRACKETS: TaxBracket[] = [
+  { min: 0, max: 5_000_000, rate: 0.05, deduction: 0 },
+  { min: 5_000_000, max: 10_000_000, rate: 0.10, deduction: 250_000 },
+  { min: 10_000_000, max: 18_000_000, rate: 0.15, deduction: 750_000 },
+  { min: 18_000_000, max: 32_000_000, rate: 0.20, deduction: 1_650_000 },
+  { min: 32_000_000, max: 52_000_000, rate: 0.25, deduction: 3_250_000 },
+  { min: 52_000_000, max: 80_000_000, rate: 0.30, deduction: 5_850_000 },
+  { min: 80_000_000, max: Infinity, rate: 0.35, deduction: 9_850_000 },
+];
+
+// Luật Thuế TNCN sửa đổi 2025 (Luật 109/2025/QH15) - 5 bậc
+const PIT_2025_BRACKETS: TaxBracket[] = [
+  { min: 0, max: 10_000_000, rate: 0.05, deduction: 0 },
+  { min: 10_000_000, max: 30_000_000, rate: 0.10, deduction: 500_000 },
+  { min: 30_000_000, max: 60_000_000, rate: 0.20, deduction: 3_500_000 },
+  { min: 60_000_000, max: 100_000_000, rate: 0.30, deduction: 9_500_000 },
+  { min: 100_000_000, max: Infinity, rate: 0.35, deduction: 14_500_000 },
+];
+
+// Hộ kinh doanh - phương pháp thu nhập (Điều 7, khoản 2 Luật 109/2025/QH15)
+const HOUSEHOLD_INCOME_BRACKETS_2026: RevenueBracket[] = [
+  { min: 1_000_000_000, max: 3_000_000_000, rate: 0.15 }, // 1 tỷ - 3 tỷ: 15%
+  { min: 3_000_000_000, max: 50_000_000_000, rate: 0.17 }, // 3 tỷ - 50 tỷ: 17%
+  { min: 50_000_000_000, max: Infinity, rate: 0.20 }, // Trên 50 tỷ: 20%
+];
+
+// Lương cơ sở 2.34M (NĐ 73/2024), lương tối thiểu vùng NĐ 74/2024, luật thuế 2007
+const RULES_2024_07: TaxRuleSet = {
+  id: 'vn-2024-07',
+  effectiveFrom: new Date(2024, 6, 1),
+  description: 'Luật Thuế TNCN 2007 · lương cơ sở 2,34tr · lương tối thiểu vùng NĐ 74/2024',
+  law: 'old',
+  lawName: 'Luật Thuế TNCN 2007 (7 bậc)',
+  lawEffectiveFrom: new Date(2007, 0, 1),
+  brackets: PIT_2007_BRACKETS,
+  deductions: { personal: 11_000_000, dependent: 4_400_000 },
+  insuranceRates: INSURANCE_RATES,
+  employerInsuranceRates: EMPLOYER_INSURANCE_RATES,
+  baseSalary: 2_340_000,
+  maxSocialInsuranceSalary: 2_340_000 * INSURANCE_CAP_MULTIPLIER,
+  regionalMinimumWages: REGIONAL_WAGES_2024,
+  maxUnemploymentInsuranceSalary: unemploymentCaps(REGIONAL_WAGES_2024),
+  perTransactionThreshold: 10_000_000,
+  rentalIncomeThreshold: 100_000_000,
+  householdRevenueThreshold: 100_000_000,
+  householdIncomeBrackets: [],
+  goldTransferTaxRate: 0,
+};
+
+// Luật 109/2025/QH15 áp dụng từ kỳ tính thuế 2026 cho tiền lương, tiền công;
+// NQ 110/2025/UBTVQH15 (giảm trừ 15.5M/6.2M); NĐ 293/2025; NĐ 141/2026 (ngưỡng 1 tỷ)
+const RULES_2026_01 = amendRuleSet(RULES_2024_07, {
+  id: 'vn-2026-01',
+  effectiveFrom: new Date(2026, 0, 1),
+  description: 'Luật 109/2025 · 5 bậc · giảm trừ 15,5tr/6,2tr · lương tối thiểu vùng NĐ 293/2025',
+  law: 'new',
+  lawName: 'Luật Thuế TNCN 2025 (5 bậc)',
+  lawEffectiveFrom: new Date(2026, 0, 1),
+  brackets: PIT_2025_BRACKETS,
+  deductions: { personal: 15_500_000, dependent: 6_200_000 },
+  regionalMinimumWages: REGIONAL_WAGES_2026,
+  rentalIncomeThreshold: 1_000_000_000,
+  householdRevenueThreshold: 1_000_000_000,
+  householdIncomeBrackets: HOUSEHOLD_INCOME_BRACKETS_2026,
+});
+
+// Mức tham chiếu 2.53M (Luật BHXH 2024) -> trần BHXH/BHYT 50.6M;
+// ngưỡng theo lần phát sinh 20M và thuế vàng miếng 0.1% (Luật Thuế TNCN sửa đổi 2025)
+const RULES_2026_07 = amendRuleSet(RULES_2026_01, {
+  id: 'vn-2026-07',
+  effectiveFrom: new Date(2026, 6, 1),
+  description: 'Lương cơ sở 2,53tr (trần BHXH 50,6tr) · ngưỡng theo lần phát sinh 20tr · thuế vàng miếng 0,1%',
+  baseSalary: 2_530_000,
+  perTransactionThreshold: 20_000_000,
+  goldTransferTaxRate: 0.001,
+});
+
+/** Các phiên bản tham số, sắp xếp theo ngày hiệu lực tăng dần */
+export const TAX_RULE_SETS: readonly TaxRuleSet[] = [
+  RULES_2024_07,
+  RULES_2026_01,
+  RULES_2026_07,
+];
+
+// ===== LOOKUP =====
+
+/**
+ * Lấy bộ tham số có hiệu lực tại một ngày.
+ * Ngày trước phiên bản đầu tiên dùng phiên bản đầu tiên.
+ */
+export function getTaxRulesForDate(date: Date = new Date()): TaxRuleSet {
+  let rules = TAX_RULE_SETS[0];
+  for (const candidate of TAX_RULE_SETS) {
+    if (date >= candidate.effectiveFrom) {
+      rules = candidate;
+    }
+  }
+  return rules;
+}
+
+/** Lấy phiên bản theo id */
+export function getTaxRuleSet(id: TaxRuleSetId): TaxRuleSet {
+  const rules = TAX_RULE_SETS.find((r) => r.id === id);
+  if (!rules) {
+    throw new Error(`Unknown tax rule set: ${id}`);
+  }
+  return rules;
+}
+
+/**
+ * Lấy biểu thuế & giảm trừ của một luật (dùng cho so sánh luật cũ/mới).
+ * Không truyền ngày: phiên bản đầu tiên áp dụng luật đó.
+ * Có ngày: phiên bản có hiệu lực tại ngày đó (= getTaxRulesForDate) nếu đang
+ * áp dụng luật này; ngoài thời gian áp dụng thì lấy phiên bản gần ngày đó nhất.
+ */
+export function getTaxRulesForLaw(law: PitLaw, date?: Date): TaxRuleSet {
+  const versions = TAX_RULE_SETS.filter((r) => r.law === law);
+  if (versions.length === 0) return TAX_RULE_SETS[0];
+  if (!date) return versions[0];
+
+  const current = getTaxRulesForDate(date);
+  if (current.law === law) return current;
+  return date < versions[0].effectiveFrom ? versions[0] : versions[versions.length - 1];
+}
+
+/** Tổng tỷ lệ bảo hiểm bắt buộc người lao động đóng (BHXH + BHYT + BHTN, không gồm công đoàn) */
+export function getEmployeeInsuranceRate(rules: TaxRuleSet): number {
+  const { socialInsurance, healthInsurance, unemploymentInsurance } = rules.insuranceRates;
+  return socialInsurance + healthInsurance + unemploymentInsurance;
+}
@@ -0,0 +1,332 @@
+/**
+ * Hồ sơ người nộp thuế dùng chung cho mọi tab
+ *
+ * Hồ sơ gồm thông tin cá nhân, người phụ thuộc (kèm tháng bắt đầu/kết thúc),
+ * tình trạng cư trú, cùng vùng lương, bảo hiểm và số người phụ thuộc nằm sẵn
+ * trong SharedTaxState. Các tab có bản sao riêng của những giá trị này
+ * (quyết toán, so sánh hình thức kinh doanh, nhiều nguồn thu nhập...) mặc định
+ * lấy theo hồ sơ; khi người dùng sửa giá trị đó ngay trong tab, tab được ghi
+ * nhận là "ghi đè" và giữ giá trị riêng cho đến khi người dùng bỏ ghi đè.
+ */
+
+import type { InsuranceOptions, RegionType, SharedTaxState } from './taxCalculator';
+import type { DependentInfo } from './annualSettlementCalculator';
+import type { PersonalInfo } from './taxDocumentGenerator';
+import type { ResidencyStatus } from './withholdingTaxCalculator';
+import type { TabType } from './tabCatalog';
+import {
+  CalculatorSnapshot,
+  DEFAULT_SNAPSHOT,
+  ProfileField,
+  ProfileLinkedTab,
+  TabStates,
+  TaxpayerProfile,
+} from './snapshotTypes';
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  dependents: 'Người phụ thuộc',
+  region: 'Vùng lương',
+  insurance: 'Bảo hiểm',
+  residency: 'Tình trạng cư trú',
+  personalInfo: 'Thông tin cá nhân',
+};
+
+/**
+ * Hồ sơ đã ghép với SharedTaxState - giá trị mà tab nhận khi không ghi đè
+ */
+export interface ResolvedTaxpayerProfile {
+  personalInfo: PersonalInfo;
+  dependentCount: number;
+  // Đúng dependentCount người; thiếu thì thêm người phụ thuộc cả năm
+  dependents: DependentInfo[];
+  residency: ResidencyStatus;
+  region: RegionType;
+  hasInsurance: boolean;
+  insuranceOptions: InsuranceOptions;
+}
+
+/**
+ * Một thuộc tính của tab giữ bản sao của một trường hồ sơ
+ */
+type ProfileBinding<T> = {
+  [P in keyof T]: {
+    field: ProfileField;
+    key: P;
+    value: (profile: ResolvedTaxpayerProfile) => T[P];
+  };
+}[keyof T];
+
+type ProfileBindings = {
+  [K in ProfileLinkedTab]: ProfileBinding<TabStates[K]>[];
+};
+
+const PROFILE_BINDINGS: ProfileBindings = {
+  annualSettlement: [
+    { field: 'dependents', key: 'dependents', value: profile => profile.dependents.map(d => ({ ...d })) },
+    { field: 'region', key: 'region', value: profile => profile.region },
+    { field: 'insurance', key: 'insuranceOptions', value: profile => ({ ...profile.insuranceOptions }) },
+  ],
+  businessFormComparison: [
+    { field: 'dependents', key: 'dependents', value: profile => profile.dependentCount },
+    { field: 'region', key: 'region', value: profile => profile.region },
+    { field: 'insurance', key: 'hasSelfInsurance', value: profile => profile.hasInsurance },
+  ],
+  multiSourceIncome: [
+    { field: 'dependents', key: 'dependents', value: profile => profile.dependentCount },
+    { field: 'insurance', key: 'hasInsurance', value: profile => profile.hasInsurance },
+  ],
+  coupleOptimizer: [
+    { field: 'dependents', key: 'totalDependents', value: profile => profile.dependentCount },
+    { field: 'insurance', key: 'person1HasInsurance', value: profile => profile.hasInsurance },
+    { field: 'personalInfo', key: 'person1Name', value: profile => profile.personalInfo.fullName },
+  ],
+  incomeSummary: [
+    { field: 'dependents', key: 'dependents', value: profile => profile.dependentCount },
+    { field: 'insurance', key: 'hasInsurance', value: profile => profile.hasInsurance },
+  ],
+  taxDocument: [
+    { field: 'personalInfo', key: 'personalInfo', value: profile => ({ ...profile.personalInfo }) },
+  ],
+  withholdingTax: [
+    { field: 'residency', key: 'residencyStatus', value: profile => profile.residency },
+  ],
+};
+
+/**
+ * Tab đọc hồ sơ, theo mã tab trên giao diện
+ */
+export const PROFILE_LINKED_TABS: Record<ProfileLinkedTab, TabType> = {
+  annualSettlement: 'annual-settlement',
+  businessFormComparison: 'business-form',
+  multiSourceIncome: 'multi-source-income',
+  coupleOptimizer: 'couple-optimizer',
+  incomeSummary: 'income-summary',
+  taxDocument: 'tax-document',
+  withholdingTax: 'withholding-tax',
+};
+
+export function isProfileLinkedTab(tab: string): tab is ProfileLinkedTab {
+  return tab in PROFILE_LINKED_TABS;
+}
+
+/**
+ * Tab tương ứng với mã tab trên giao diện (null nếu tab không đọc hồ sơ)
+ */
+export function findProfileLinkedTab(tabId: string): ProfileLinkedTab | null {
+  const entry = Object.entries(PROFILE_LINKED_TABS).find(([, id]) => id === tabId);
+  return entry ? (entry[0] as ProfileLinkedTab) : null;
+}
+
+/**
+ * Các trường hồ sơ mà một tab có bản sao
+ */
+export function getProfileFields(tab: ProfileLinkedTab): ProfileField[] {
+  return getBindings(tab).map(binding => binding.field);
+}
+
+// Dạng không phân biệt tab để duyệt chung mọi binding
+interface TabBinding {
+  field: ProfileField;
+  key: string;
+  value: (profile: ResolvedTaxpayerProfile) => unknown;
+}
+
+type TabRecord = Record<string, unknown>;
+
+function getBindings(tab: ProfileLinkedTab): TabBinding[] {
+  return PROFILE_BINDINGS[tab] as TabBinding[];
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Ghép hồ sơ với SharedTaxState
+ * Số người phụ thuộc lấy theo SharedTaxState (ô nhập ở tab tính thuế chính);
+ * danh sách trong hồ sơ bị cắt bớt hoặc thêm người phụ thuộc cả năm cho khớp
+ */
+export function resolveTaxpayerProfile(
+  sharedState: SharedTaxState,
+  profile: TaxpayerProfile
+): ResolvedTaxpayerProfile {
+  const dependentCount = Math.max(0, Math.floor(sharedState.dependents));
+  const dependents = profile.dependents.slice(0, dependentCount).map(d => ({ ...d }));
+  for (let i = dependents.length; i < dependentCount; i++) {
+    dependents.push({
+      id: `profile-dependent-${i + 1}`,
+      name: `Người phụ thuộc ${i + 1}`,
+      fromMonth: 1,
+      toMonth: 12,
+    });
+  }
+
+  return {
+    personalInfo: { ...profile.personalInfo },
+    dependentCount,
+    dependents,
+    residency: profile.residency,
+    region: sharedState.region,
+    hasInsurance: sharedState.hasInsurance,
+    insuranceOptions: { ...sharedState.insuranceOptions },
+  };
+}
+
+/**
+ * Trường hồ sơ mà tab đang ghi đè
+ */
+export function getProfileOverrides(profile: TaxpayerProfile, tab: ProfileLinkedTab): ProfileField[] {
+  return profile.overrides[tab] ?? [];
+}
+
+/**
+ * Ghi giá trị hồ sơ vào các trường tab không ghi đè
+ * Trả về đúng đối tượng cũ khi không có gì thay đổi
+ */
+export function applyProfileToTab<K extends ProfileLinkedTab>(
+  tab: K,
+  state: TabStates[K],
+  resolved: ResolvedTaxpayerProfile,
+  overrides: ProfileField[]
+): TabStates[K] {
+  let next = state as unknown as TabRecord;
+  for (const binding of getBindings(tab)) {
+    if (overrides.includes(binding.field)) continue;
+    const value = binding.value(resolved);
+    if (!isSameValue(next[binding.key], value)) {
+      next = { ...next, [binding.key]: value };
+    }
+  }
+  return next as unknown as TabStates[K];
+}
+
+/**
+ * Ghi hồ sơ vào mọi tab liên kết của snapshot
+ * Trả về đúng snapshot cũ khi các tab đã khớp hồ sơ
+ */
+export function applyTaxpayerProfile(snapshot: CalculatorSnapshot): CalculatorSnapshot {
+  const resolved = resolveTaxpayerProfile(snapshot.sharedState, snapshot.profile);
+  let tabs = snapshot.tabs;
+
+  for (const tab of Object.keys(PROFILE_LINKED_TABS) as ProfileLinkedTab[]) {
+    const state = tabs[tab];
+    const next = applyProfileToTab(tab, state, resolved, getProfileOverrides(snapshot.profile, tab));
+    if (next !== state) {
+      tabs = { ...tabs, [tab]: next };
+    }
+  }
+
+  return tabs === snapshot.tabs ? snapshot : { ...snapshot, tabs };
+}
+
+/**
+ * Trường hồ sơ mà tab đang giữ giá trị khác hồ sơ
+ */
+export function detectProfileOverrides<K extends ProfileLinkedTab>(
+  tab: K,
+  state: TabStates[K],
+  resolved: ResolvedTaxpayerProfile
+): ProfileField[] {
+  const record = state as unknown as TabRecord;
+  return getBindings(tab)
+    .filter(binding => !isSameValue(record[binding.key], binding.value(resolved)))
+    .map(binding => binding.field);
+}
+
+/**
+ * Cập nhật danh sách ghi đè sau khi người dùng sửa tab
+ * Trường vừa sửa khác hồ sơ thành ghi đè; sửa về đúng giá trị hồ sơ thì
+ * vẫn giữ ghi đè (người dùng bỏ ghi đè bằng nút riêng)
+ * Trả về đúng hồ sơ cũ khi không có ghi đè mới
+ */
+export function recordProfileOverrides<K extends ProfileLinkedTab>(
+  profile: TaxpayerProfile,
+  tab: K,
+  state: TabStates[K],
+  resolved: ResolvedTaxpayerProfile
+): TaxpayerProfile {
+  const current = getProfileOverrides(profile, tab);
+  const added = detectProfileOverrides(tab, state, resolved).filter(field => !current.includes(field));
+  if (added.length === 0) return profile;
+
+  return {
+    ...profile,
+    overrides: { ...profile.overrides, [tab]: [...current, ...added] },
+  };
+}
+
+/**
+ * Bỏ ghi đè để tab lấy lại giá trị hồ sơ (field bỏ trống = bỏ mọi ghi đè của tab)
+ */
+export function clearProfileOverride(
+  profile: TaxpayerProfile,
+  tab: ProfileLinkedTab,
+  field?: ProfileField
+): TaxpayerProfile {
+  const remaining = field ? getProfileOverrides(profile, tab).filter(f => f !== field) : [];
+  const overrides = { ...profile.overrides };
+  if (remaining.length > 0) {
+    overrides[tab] = remaining;
+  } else {
+    delete overrides[tab];
+  }
+  return { ...profile, overrides };
+}
+
+/**
+ * Danh sách mọi ghi đè, theo thứ tự tab
+ */
+export function listProfileOverrides(
+  profile: TaxpayerProfile
+): { tab: ProfileLinkedTab; field: ProfileField }[] {
+  return (Object.keys(PROFILE_LINKED_TABS) as ProfileLinkedTab[]).flatMap(tab =>
+    getProfileOverrides(profile, tab).map(field => ({ tab, field }))
+  );
+}
+
+/**
+ * Đoán ghi đè cho snapshot tạo trước khi có hồ sơ
+ * Tab giữ giá trị khác cả hồ sơ lẫn mặc định của tab là giá trị người dùng
+ * tự nhập, nên được giữ lại như ghi đè; giá trị mặc định chưa sửa thì lấy theo hồ sơ
+ */
+export function inferProfileOverrides(snapshot: CalculatorSnapshot): TaxpayerProfile['overrides'] {
+  const resolved = resolveTaxpayerProfile(snapshot.sharedState, snapshot.profile);
+  const overrides: TaxpayerProfile['overrides'] = {};
+
+  for (const tab of Object.keys(PROFILE_LINKED_TABS) as ProfileLinkedTab[]) {
+    const state = snapshot.tabs[tab] as unknown as TabRecord;
+    const defaults = DEFAULT_SNAPSHOT.tabs[tab] as unknown as TabRecord;
+    const fields = getBindings(tab)
+      .filter(binding =>
+        !isSameValue(state[binding.key], binding.value(resolved))
+        && !isSameValue(state[binding.key], defaults[binding.key])
+      )
+      .map(binding => binding.field);
+    if (fields.length > 0) overrides[tab] = fields;
+  }
+
+  return overrides;
+}
+
+/**
+ * Đưa các trường đang lấy theo hồ sơ về mặc định của tab trước khi mã hoá
+ * Giá trị này được dựng lại từ hồ sơ khi giải mã, nên link không cần chứa nó
+ */
+export function stripProfileValues(snapshot: CalculatorSnapshot): CalculatorSnapshot {
+  let tabs = snapshot.tabs;
+
+  for (const tab of Object.keys(PROFILE_LINKED_TABS) as ProfileLinkedTab[]) {
+    const overrides = getProfileOverrides(snapshot.profile, tab);
+    const defaults = DEFAULT_SNAPSHOT.tabs[tab] as unknown as TabRecord;
+    let state = tabs[tab] as unknown as TabRecord;
+    for (const binding of getBindings(tab)) {
+      if (overrides.includes(binding.field) || isSameValue(state[binding.key], defaults[binding.key])) continue;
+      state = { ...state, [binding.key]: defaults[binding.key] };
+    }
+    if (state !== (tabs[tab] as unknown)) {
+      tabs = { ...tabs, [tab]: state };
+    }
+  }
+
+  return tabs === snapshot.tabs ? snapshot : { ...snapshot, tabs };
+}
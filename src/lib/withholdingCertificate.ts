@@ -0,0 +1,504 @@
+/**
+ * Chứng từ khấu trừ thuế TNCN
+ * Tổ chức trả thu nhập cấp chứng từ cho người lao động, cộng tác viên đã bị khấu trừ
+ * thuế (từ tab Thuế khấu trừ tại nguồn hoặc bảng lương hàng loạt)
+ *
+ * Căn cứ pháp lý:
+ * - Điều 25 Thông tư 111/2013/TT-BTC (cấp chứng từ khấu trừ)
+ * - Nghị định 123/2020/NĐ-CP, Thông tư 78/2021/TT-BTC (chứng từ điện tử, ký hiệu, số)
+ *
+ * Số chứng từ tăng liên tục trong một dãy (MST tổ chức + năm): cấp lại chứng từ cho
+ * cùng người nhận, cùng khoản thu nhập và kỳ giữ nguyên số cũ; số đã cấp không dùng lại.
+ */
+
+import type { IncomeType, ResidencyStatus } from './withholdingTaxCalculator';
+import { INCOME_TYPE_LABELS } from './withholdingTaxCalculator';
+import type { RosterResult } from './payrollRosterCalculator';
+import type { PdfBlock, PdfReport } from './pdfReportRenderer';
+import { formatNumber } from './taxCalculator';
+import {
+  FieldRule,
+  TAX_CODE_MESSAGE,
+  TAX_CODE_PATTERN,
+  XmlValidationIssue,
+  block,
+  checkRules,
+  element,
+  formatXmlDate,
+} from './htkkXml';
+
+export type { XmlValidationIssue } from './htkkXml';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Tổ chức, cá nhân trả thu nhập */
+export interface CertificatePayer {
+  name: string;
+  taxCode: string;
+  address?: string;
+  phone?: string;
+}
+
+/** Cá nhân nhận thu nhập */
+export interface CertificatePayee {
+  fullName: string;
+  taxCode?: string;
+  idNumber?: string; // CCCD/hộ chiếu (khi chưa có MST)
+  nationality?: string;
+  address?: string;
+  residency: ResidencyStatus;
+  employeeId?: string; // Mã NV trong bảng lương
+}
+
+/** Một khoản chi trả đã khấu trừ thuế */
+export interface WithholdingRecord {
+  payee: CertificatePayee;
+  incomeType: IncomeType;
+  year: number;
+  fromMonth: number;
+  toMonth: number;
+  taxableIncome: number; // Tổng thu nhập chịu thuế đã trả
+  insuranceDeduction?: number; // BHXH, BHYT, BHTN đã trừ (nếu có)
+  taxWithheld: number;
+}
+
+export interface WithholdingCertificate extends WithholdingRecord {
+  formCode: string;
+  symbol: string; // Ký hiệu dãy, VD: CT/26E
+  number: string; // Số chứng từ 7 chữ số
+  issuedAt: Date;
+  payer: CertificatePayer;
+  netIncome: number; // Thu nhập còn được nhận sau khi khấu trừ
+}
+
+/**
+ * Dãy số chứng từ của một tổ chức trong một năm
+ */
+export interface CertificateSeries {
+  payerTaxCode: string;
+  year: number;
+  symbol: string;
+  lastNumber: number;
+  // Số đã cấp theo khóa khoản chi trả (người nhận + loại thu nhập + kỳ)
+  issued: Record<string, number>;
+}
+
+export interface IssueCertificatesInput {
+  payer: CertificatePayer;
+  records: WithholdingRecord[];
+  series: CertificateSeries;
+  issuedAt?: Date;
+}
+
+export type IssueCertificatesResult =
+  | { ok: true; certificates: WithholdingCertificate[]; series: CertificateSeries }
+  | { ok: false; errors: XmlValidationIssue[] };
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Mẫu chứng từ khấu trừ thuế TNCN điện tử (Nghị định 123/2020/NĐ-CP)
+export const CERTIFICATE_FORM_CODE = '03/TNCN';
+const CERTIFICATE_NUMBER_LENGTH = 7;
+
+export const CERTIFICATE_SERIES_STORAGE_KEY = 'withholding-certificate-series';
+export const CERTIFICATE_PAYER_STORAGE_KEY = 'withholding-certificate-payer';
+
+const PAYER_SCHEMA: FieldRule[] = [
+  { path: 'name', label: 'Tên tổ chức trả thu nhập', required: true, maxLength: 200 },
+  { path: 'taxCode', label: 'MST tổ chức trả thu nhập', required: true, pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+  { path: 'address', label: 'Địa chỉ tổ chức trả thu nhập', maxLength: 200 },
+];
+
+const RECORD_SCHEMA: FieldRule[] = [
+  { path: 'payee.fullName', label: 'Họ tên người nhận thu nhập', required: true, maxLength: 100 },
+  { path: 'payee.taxCode', label: 'MST người nhận thu nhập', pattern: TAX_CODE_PATTERN, patternMessage: TAX_CODE_MESSAGE },
+  { path: 'payee.idNumber', label: 'Số CCCD/hộ chiếu', maxLength: 20 },
+];
+
+// =============================================================================
+// SERIES
+// =============================================================================
+
+/** Ký hiệu dãy chứng từ điện tử theo năm, VD: CT/26E */
+export function getCertificateSymbol(year: number): string {
+  return `CT/${String(year).slice(-2)}E`;
+}
+
+export function createCertificateSeries(payerTaxCode: string, year: number): CertificateSeries {
+  return {
+    payerTaxCode: payerTaxCode.replace('-', ''),
+    year,
+    symbol: getCertificateSymbol(year),
+    lastNumber: 0,
+    issued: {},
+  };
+}
+
+export function formatCertificateNumber(value: number): string {
+  return String(value).padStart(CERTIFICATE_NUMBER_LENGTH, '0');
+}
+
+/**
+ * Khóa của một khoản chi trả: cùng người nhận, loại thu nhập và kỳ thì cấp lại cùng số.
+ * Người nhận nhận diện theo mã NV, rồi CCCD/hộ chiếu, rồi MST: MST thường được bổ sung
+ * sau nên không được làm đổi khóa của người đã có mã NV hoặc CCCD
+ */
+function getRecordKey(record: WithholdingRecord): string {
+  const { payee } = record;
+  const who = payee.employeeId || payee.idNumber || payee.taxCode || payee.fullName.trim().toLowerCase();
+  return `${who}|${record.incomeType}|${record.year}-${record.fromMonth}-${record.toMonth}`;
+}
+
+// =============================================================================
+// ISSUE
+// =============================================================================
+
+/**
+ * Kiểm tra thông tin tổ chức trả thu nhập và từng khoản chi trả trước khi cấp số
+ */
+export function validateWithholdingRecords(
+  payer: CertificatePayer,
+  records: WithholdingRecord[],
+  year: number
+): XmlValidationIssue[] {
+  const issues: XmlValidationIssue[] = [];
+  checkRules(payer, PAYER_SCHEMA, 'payer', issues);
+
+  if (records.length === 0) {
+    issues.push({ path: 'records', message: 'Chưa có khoản chi trả nào để cấp chứng từ' });
+  }
+
+  // Hai khoản cùng khóa sẽ nhận cùng một số chứng từ
+  const firstIndexByKey = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const prefix = `records[${index}]`;
+    checkRules(record, RECORD_SCHEMA, prefix, issues);
+    const who = record.payee.fullName || record.payee.employeeId || `#${index + 1}`;
+
+    const key = getRecordKey(record);
+    const firstIndex = firstIndexByKey.get(key);
+    if (firstIndex === undefined) {
+      firstIndexByKey.set(key, index);
+    } else {
+      issues.push({
+        path: prefix,
+        message: `${who}: trùng người nhận, loại thu nhập và kỳ với khoản thứ ${firstIndex + 1} - gộp thành một khoản trước khi cấp chứng từ`,
+      });
+    }
+
+    if (!record.payee.taxCode && !record.payee.idNumber) {
+      issues.push({ path: `${prefix}.payee.idNumber`, message: `${who}: cần MST hoặc số CCCD/hộ chiếu` });
+    }
+    if (record.year !== year) {
+      issues.push({ path: `${prefix}.year`, message: `${who}: kỳ trả thu nhập năm ${record.year} không thuộc dãy chứng từ năm ${year}` });
+    }
+    if (record.fromMonth > record.toMonth) {
+      issues.push({ path: `${prefix}.toMonth`, message: `${who}: tháng kết thúc trước tháng bắt đầu` });
+    }
+    if (record.taxWithheld < 0 || record.taxWithheld > record.taxableIncome) {
+      issues.push({ path: `${prefix}.taxWithheld`, message: `${who}: số thuế khấu trừ phải từ 0 đến tổng thu nhập chịu thuế` });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Cấp chứng từ cho các khoản chi trả: kiểm tra → đánh số theo dãy → trả về dãy đã cập nhật.
+ * Không cấp số nào nếu còn lỗi.
+ */
+export function issueCertificates(input: IssueCertificatesInput): IssueCertificatesResult {
+  const { payer, records } = input;
+  const issuedAt = input.issuedAt ?? new Date();
+  const payerTaxCode = payer.taxCode.replace('-', '');
+
+  const errors = validateWithholdingRecords(payer, records, input.series.year);
+  if (input.series.payerTaxCode && input.series.payerTaxCode !== payerTaxCode) {
+    errors.push({ path: 'payer.taxCode', message: 'MST tổ chức trả thu nhập khác với dãy chứng từ đang dùng' });
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const series: CertificateSeries = {
+    ...input.series,
+    payerTaxCode,
+    issued: { ...input.series.issued },
+  };
+
+  const certificates = records.map((record): WithholdingCertificate => {
+    const key = getRecordKey(record);
+    let number = series.issued[key];
+    if (number === undefined) {
+      number = ++series.lastNumber;
+      series.issued[key] = number;
+    }
+
+    return {
+      ...record,
+      formCode: CERTIFICATE_FORM_CODE,
+      symbol: series.symbol,
+      number: formatCertificateNumber(number),
+      issuedAt,
+      payer,
+      netIncome: record.taxableIncome - record.taxWithheld,
+    };
+  });
+
+  return { ok: true, certificates, series };
+}
+
+// =============================================================================
+// RECORD SOURCES
+// =============================================================================
+
+/**
+ * Khoản chi trả của từng nhân viên trong bảng lương một tháng
+ * Thu nhập chịu thuế = lương gross + phụ cấp chịu thuế
+ */
+export function recordsFromRoster(result: RosterResult): WithholdingRecord[] {
+  const year = result.asOf.getFullYear();
+  const month = result.asOf.getMonth() + 1;
+
+  return result.rows.map((row) => ({
+    payee: {
+      fullName: row.fullName,
+      taxCode: row.taxCode,
+      idNumber: row.idNumber,
+      residency: 'resident',
+      employeeId: row.employeeId,
+    },
+    incomeType: 'salary_with_contract',
+    year,
+    fromMonth: month,
+    toMonth: month,
+    taxableIncome: row.grossIncome + row.allowances.total - row.allowances.taxExempt,
+    insuranceDeduction: row.employeeInsurance.total,
+    taxWithheld: row.pit,
+  }));
+}
+
+// =============================================================================
+// OUTPUT
+// =============================================================================
+
+function formatPeriod(certificate: WithholdingCertificate): string {
+  const { fromMonth, toMonth, year } = certificate;
+  return fromMonth === toMonth
+    ? `Tháng ${fromMonth}/${year}`
+    : `Từ tháng ${fromMonth} đến tháng ${toMonth} năm ${year}`;
+}
+
+function formatMoney(value: number): string {
+  return `${formatNumber(value)} đ`;
+}
+
+/**
+ * PDF in được: mỗi chứng từ gồm thông tin tổ chức trả, người nhận, khoản thu nhập và chữ ký
+ */
+export function buildCertificatesPdfReport(certificates: WithholdingCertificate[]): PdfReport {
+  const blocks = certificates.flatMap((certificate, index): PdfBlock[] => [
+    ...(index > 0 ? [{ type: 'spacer' as const, height: 24 }] : []),
+    {
+      type: 'heading',
+      text: `Chứng từ khấu trừ thuế TNCN - Ký hiệu ${certificate.symbol}, số ${certificate.number}`,
+    },
+    { type: 'heading', text: 'I. Thông tin tổ chức, cá nhân trả thu nhập', level: 2 },
+    {
+      type: 'keyValue',
+      rows: [
+        { label: '[01] Tên tổ chức, cá nhân trả thu nhập', value: certificate.payer.name },
+        { label: '[02] Mã số thuế', value: certificate.payer.taxCode },
+        { label: '[03] Địa chỉ', value: certificate.payer.address || '' },
+        { label: '[04] Điện thoại', value: certificate.payer.phone || '' },
+      ],
+    },
+    { type: 'heading', text: 'II. Thông tin người nộp thuế', level: 2 },
+    {
+      type: 'keyValue',
+      rows: [
+        { label: '[05] Họ và tên', value: certificate.payee.fullName },
+        { label: '[06] Mã số thuế', value: certificate.payee.taxCode || '' },
+        { label: '[07] Quốc tịch', value: certificate.payee.nationality || 'Việt Nam' },
+        { label: '[08] Cá nhân cư trú', value: certificate.payee.residency === 'resident' ? 'Có' : 'Không' },
+        { label: '[09] Số CCCD/hộ chiếu', value: certificate.payee.idNumber || '' },
+      ],
+    },
+    { type: 'heading', text: 'III. Thông tin thuế thu nhập cá nhân khấu trừ', level: 2 },
+    {
+      type: 'keyValue',
+      rows: [
+        { label: '[10] Khoản thu nhập', value: INCOME_TYPE_LABELS[certificate.incomeType] },
+        { label: '[11] Thời điểm trả thu nhập', value: formatPeriod(certificate) },
+        { label: '[12] Khoản đóng bảo hiểm bắt buộc', value: formatMoney(certificate.insuranceDeduction ?? 0) },
+        { label: '[13] Tổng thu nhập chịu thuế phải khấu trừ', value: formatMoney(certificate.taxableIncome), bold: true },
+        { label: '[14] Số thuế TNCN đã khấu trừ', value: formatMoney(certificate.taxWithheld), bold: true },
+        { label: '[15] Số thu nhập cá nhân còn được nhận', value: formatMoney(certificate.netIncome) },
+      ],
+    },
+    {
+      type: 'signatures',
+      boxes: [
+        {
+          title: 'Đại diện tổ chức trả thu nhập',
+          caption: '(Ký, ghi rõ họ tên, đóng dấu)',
+          date: `Ngày ${certificate.issuedAt.toLocaleDateString('vi-VN')}`,
+        },
+      ],
+    },
+  ]);
+
+  const first = certificates[0];
+  return {
+    title: 'Chứng từ khấu trừ thuế thu nhập cá nhân',
+    subtitle: first ? `Mẫu ${first.formCode} - Ký hiệu ${first.symbol}` : undefined,
+    meta: [`Số chứng từ: ${certificates.length}`],
+    blocks,
+  };
+}
+
+/**
+ * Dữ liệu máy đọc được (JSON) của một lần cấp chứng từ
+ */
+export function serializeCertificatesJson(certificates: WithholdingCertificate[]): string {
+  return JSON.stringify(
+    certificates.map((certificate) => ({
+      formCode: certificate.formCode,
+      symbol: certificate.symbol,
+      number: certificate.number,
+      issuedAt: formatXmlDate(certificate.issuedAt),
+      payer: certificate.payer,
+      payee: certificate.payee,
+      incomeType: certificate.incomeType,
+      period: { year: certificate.year, fromMonth: certificate.fromMonth, toMonth: certificate.toMonth },
+      insuranceDeduction: certificate.insuranceDeduction ?? 0,
+      taxableIncome: certificate.taxableIncome,
+      taxWithheld: certificate.taxWithheld,
+      netIncome: certificate.netIncome,
+    })),
+    null,
+    2
+  );
+}
+
+/**
+ * XML danh sách chứng từ (thẻ theo chứng từ khấu trừ điện tử)
+ */
+export function serializeCertificatesXml(certificates: WithholdingCertificate[]): string {
+  const i = (level: number) => '  '.repeat(level);
+
+  const entries = certificates.map((certificate) =>
+    block('CTu', [
+      block('TTChung', [
+        element('MSCTu', certificate.formCode, i(4)),
+        element('KHieu', certificate.symbol, i(4)),
+        element('So', certificate.number, i(4)),
+        element('NLap', formatXmlDate(certificate.issuedAt), i(4)),
+      ], i(3)),
+      block('TCTN', [
+        element('Ten', certificate.payer.name, i(4)),
+        element('MST', certificate.payer.taxCode.replace('-', ''), i(4)),
+        element('DChi', certificate.payer.address, i(4)),
+        element('SDThoai', certificate.payer.phone, i(4)),
+      ], i(3)),
+      block('NNT', [
+        element('Ten', certificate.payee.fullName, i(4)),
+        element('MST', certificate.payee.taxCode?.replace('-', ''), i(4)),
+        element('QTich', certificate.payee.nationality ?? 'Việt Nam', i(4)),
+        element('CNCTru', certificate.payee.residency === 'resident' ? 1 : 0, i(4)),
+        element('CCCD', certificate.payee.idNumber, i(4)),
+      ], i(3)),
+      block('TTThue', [
+        element('KTNhap', INCOME_TYPE_LABELS[certificate.incomeType], i(4)),
+        element('TThang', certificate.fromMonth, i(4)),
+        element('DThang', certificate.toMonth, i(4)),
+        element('Nam', certificate.year, i(4)),
+        element('BHiem', certificate.insuranceDeduction ?? 0, i(4)),
+        element('TNCThue', certificate.taxableIncome, i(4)),
+        element('SThue', certificate.taxWithheld, i(4)),
+        element('TNCon', certificate.netIncome, i(4)),
+      ], i(3)),
+    ], i(2))
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DSCTu>',
+    block('CTus', entries, i(1)),
+    '</DSCTu>',
+    '',
+  ].join('\n');
+}
+
+/** Tên file theo dãy và khoảng số chứng từ, VD: chung-tu-CT26E-0000001-0000012 */
+export function getCertificatesFileName(certificates: WithholdingCertificate[], extension: string): string {
+  const numbers = certificates.map((certificate) => certificate.number).sort();
+  const symbol = certificates[0]?.symbol.replace('/', '') ?? '';
+  const range = numbers.length > 1 ? `${numbers[0]}-${numbers[numbers.length - 1]}` : numbers[0] ?? '';
+  return `chung-tu-${symbol}-${range}.${extension}`;
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Dãy chứng từ đã lưu của tổ chức trong năm (tạo mới nếu chưa có)
+ */
+export function getStoredCertificateSeries(payerTaxCode: string, year: number): CertificateSeries {
+  const fresh = createCertificateSeries(payerTaxCode, year);
+  if (typeof window === 'undefined') return fresh;
+
+  try {
+    const stored = localStorage.getItem(CERTIFICATE_SERIES_STORAGE_KEY);
+    const all: CertificateSeries[] = stored ? JSON.parse(stored) : [];
+    return all.find((series) => series.payerTaxCode === fresh.payerTaxCode && series.year === year) ?? fresh;
+  } catch {
+    return fresh;
+  }
+}
+
+/**
+ * Lưu dãy chứng từ sau khi cấp số (thay dãy cũ cùng MST và năm)
+ */
+export function saveCertificateSeries(series: CertificateSeries): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    const stored = localStorage.getItem(CERTIFICATE_SERIES_STORAGE_KEY);
+    const all: CertificateSeries[] = stored ? JSON.parse(stored) : [];
+    const others = all.filter(
+      (item) => !(item.payerTaxCode === series.payerTaxCode && item.year === series.year)
+    );
+    localStorage.setItem(CERTIFICATE_SERIES_STORAGE_KEY, JSON.stringify([...others, series]));
+  } catch {
+    console.error('Failed to save certificate series to localStorage');
+  }
+}
+
+/**
+ * Thông tin tổ chức trả thu nhập đã nhập lần trước
+ */
+export function getStoredCertificatePayer(): CertificatePayer | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(CERTIFICATE_PAYER_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCertificatePayer(payer: CertificatePayer): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(CERTIFICATE_PAYER_STORAGE_KEY, JSON.stringify(payer));
+  } catch {
+    console.error('Failed to save certificate payer to localStorage');
+  }
+}
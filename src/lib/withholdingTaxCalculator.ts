@@ -5,9 +5,14 @@
  * - Điều 25, Luật Thuế TNCN 2007 (sửa đổi 2012, 2014)
  * - Thông tư 111/2013/TT-BTC
  * - Nghị định 65/2013/NĐ-CP
+ * - Điều 25 khoản 1 điểm i Thông tư 111/2013/TT-BTC (cam kết 08/CK-TNCN)
  */
 
-import { getPerTransactionThreshold } from './taxCalculator';
+import { getPerTransactionThreshold, getPeriodDate, getTaxConfigForDate } from './taxCalculator';
+import type { DependentInfo } from './annualSettlementCalculator';
+import type { DocumentSection, PersonalInfo } from './taxDocumentGenerator';
+import type { PdfReport } from './pdfReportRenderer';
+import { countDependentsInMonth } from './dependentRegistry';
 
 // ===== CONSTANTS =====
 
@@ -251,6 +256,60 @@ export interface ForeignContractorTaxResult {
   notes: string[];
 }
 
+/**
+ * Đầu vào kiểm tra điều kiện cam kết 08/CK-TNCN
+ */
+export interface CommitmentInput {
+  year: number;
+  incomeType: IncomeType;
+  residencyStatus: ResidencyStatus;
+  // Tổng thu nhập ước tính cả năm (từ mọi nguồn)
+  projectedAnnualIncome: number;
+  // Có thu nhập khác ngoài khoản bị khấu trừ 10% (lương nơi khác, kinh doanh...)
+  hasOtherIncome: boolean;
+  // Danh sách người phụ thuộc kèm tháng đăng ký, ngày sinh
+  dependents: DependentInfo[];
+  // Cá nhân đã có MST tại thời điểm cam kết
+  hasTaxCode: boolean;
+}
+
+/**
+ * Giảm trừ gia cảnh theo tháng (mức giảm trừ và số NPT đúng theo từng tháng)
+ */
+export interface CommitmentMonthDeduction {
+  month: number;
+  personalDeduction: number;
+  dependentCount: number;
+  dependentDeduction: number;
+}
+
+export interface CommitmentEligibility {
+  year: number;
+  eligible: boolean;
+  projectedAnnualIncome: number;
+  months: CommitmentMonthDeduction[];
+  totalPersonalDeduction: number;
+  totalDependentDeduction: number;
+  // Tổng giảm trừ gia cảnh cả năm = mức thu nhập tối đa được cam kết
+  incomeLimit: number;
+  // Phần thu nhập còn có thể nhận mà vẫn chưa phải nộp thuế (âm nếu vượt)
+  headroom: number;
+  // Lý do không đủ điều kiện (rỗng nếu đủ)
+  reasons: string[];
+}
+
+/**
+ * Bản cam kết 08/CK-TNCN đã điền sẵn
+ */
+export interface CommitmentDocument {
+  title: string;
+  formCode: string;
+  year: number;
+  sections: DocumentSection[];
+  statement: string;
+  legalNote: string;
+}
+
 export interface WHTComparison {
   resident: WHTResult;
   nonResident: WHTResult;
@@ -579,6 +638,146 @@ export function compareWHTByResidency(
   };
 }
 
+/**
+ * Kiểm tra điều kiện làm cam kết 08/CK-TNCN để tổ chức trả thu nhập tạm thời
+ * chưa khấu trừ 10%: cá nhân cư trú không có HĐLĐ (hoặc HĐLĐ dưới 3 tháng), chỉ có
+ * duy nhất thu nhập này, đã có MST và tổng thu nhập ước tính cả năm không vượt
+ * tổng giảm trừ gia cảnh (mức giảm trừ và số người phụ thuộc tính theo từng tháng)
+ */
+export function checkCommitmentEligibility(input: CommitmentInput): CommitmentEligibility {
+  const { year, projectedAnnualIncome, dependents } = input;
+
+  const months = Array.from({ length: 12 }, (_, i): CommitmentMonthDeduction => {
+    const month = i + 1;
+    const { deductions } = getTaxConfigForDate(getPeriodDate(year, month));
+    const dependentCount = countDependentsInMonth(dependents, year, month);
+    return {
+      month,
+      personalDeduction: deductions.personal,
+      dependentCount,
+      dependentDeduction: deductions.dependent * dependentCount,
+    };
+  });
+
+  const totalPersonalDeduction = months.reduce((sum, m) => sum + m.personalDeduction, 0);
+  const totalDependentDeduction = months.reduce((sum, m) => sum + m.dependentDeduction, 0);
+  const incomeLimit = totalPersonalDeduction + totalDependentDeduction;
+  const headroom = incomeLimit - projectedAnnualIncome;
+
+  const reasons: string[] = [];
+  if (input.residencyStatus !== 'resident') {
+    reasons.push('Chỉ cá nhân cư trú được làm cam kết - cá nhân không cư trú bị khấu trừ 20%.');
+  }
+  if (input.incomeType !== 'salary_without_contract') {
+    reasons.push('Cam kết chỉ áp dụng cho thu nhập tiền lương, tiền công không có HĐLĐ hoặc HĐLĐ dưới 3 tháng.');
+  }
+  if (input.hasOtherIncome) {
+    reasons.push('Có thu nhập khác - chỉ được cam kết khi đây là nguồn thu nhập duy nhất.');
+  }
+  if (!input.hasTaxCode) {
+    reasons.push('Chưa có mã số thuế - cần đăng ký MST trước khi làm cam kết.');
+  }
+  if (projectedAnnualIncome <= 0) {
+    reasons.push('Chưa nhập tổng thu nhập ước tính cả năm.');
+  } else if (headroom < 0) {
+    reasons.push(
+      `Thu nhập ước tính ${formatCurrency(projectedAnnualIncome)} vượt tổng giảm trừ gia cảnh ${formatCurrency(incomeLimit)} - đã đến mức phải nộp thuế.`
+    );
+  }
+
+  return {
+    year,
+    eligible: reasons.length === 0,
+    projectedAnnualIncome,
+    months,
+    totalPersonalDeduction,
+    totalDependentDeduction,
+    incomeLimit,
+    headroom,
+    reasons,
+  };
+}
+
+/**
+ * Điền sẵn bản cam kết 08/CK-TNCN từ kết quả kiểm tra điều kiện
+ */
+export function generateCommitmentDocument(
+  eligibility: CommitmentEligibility,
+  personalInfo: PersonalInfo
+): CommitmentDocument {
+  const { year } = eligibility;
+  const dependentCount = Math.max(0, ...eligibility.months.map(m => m.dependentCount));
+  const payer = personalInfo.employer || '(tổ chức, cá nhân trả thu nhập)';
+
+  return {
+    title: 'Bản cam kết thu nhập chưa đến mức phải nộp thuế TNCN',
+    formCode: '08/CK-TNCN',
+    year,
+    sections: [
+      {
+        id: 'personal',
+        title: 'Thông tin cá nhân cam kết',
+        rows: [
+          { label: '[01] Họ và tên', value: personalInfo.fullName || '(Chưa nhập)', format: 'text' },
+          { label: '[02] Mã số thuế', value: personalInfo.taxCode || '(Chưa có)', format: 'text' },
+          { label: '[03] CCCD/Hộ chiếu', value: personalInfo.idNumber || '(Chưa nhập)', format: 'text' },
+          { label: '[04] Địa chỉ cư trú', value: personalInfo.address || '(Chưa nhập)', format: 'text' },
+        ],
+      },
+      {
+        id: 'commitment',
+        title: `Thu nhập và giảm trừ gia cảnh năm ${year}`,
+        rows: [
+          { label: 'Tổng thu nhập ước tính trong năm', value: eligibility.projectedAnnualIncome, format: 'currency', highlight: true },
+          { label: 'Giảm trừ bản thân', value: eligibility.totalPersonalDeduction, format: 'currency', indent: 1 },
+          { label: `Giảm trừ người phụ thuộc (tối đa ${dependentCount} người)`, value: eligibility.totalDependentDeduction, format: 'currency', indent: 1 },
+          { label: 'Tổng giảm trừ gia cảnh', value: eligibility.incomeLimit, format: 'currency', highlight: true },
+        ],
+      },
+    ],
+    statement:
+      `Tôi cam kết trong năm ${year} chỉ có duy nhất thu nhập thuộc diện khấu trừ thuế 10% tại ${payer}, ` +
+      `tổng thu nhập ước tính ${formatCurrency(eligibility.projectedAnnualIncome)} không vượt mức giảm trừ gia cảnh ` +
+      `${formatCurrency(eligibility.incomeLimit)}, chưa đến mức phải nộp thuế TNCN. ` +
+      'Tôi xin chịu trách nhiệm trước pháp luật về nội dung cam kết.',
+    legalNote:
+      'Bản tham khảo theo mẫu 08/CK-TNCN (Thông tư 80/2021/TT-BTC). Nộp cho tổ chức, cá nhân trả thu nhập để tạm thời chưa khấu trừ 10%; ' +
+      'cam kết sai sự thật sẽ bị xử phạt theo Luật Quản lý thuế.',
+  };
+}
+
+/**
+ * Chuyển bản cam kết sang báo cáo PDF (các mục, nội dung cam kết, chữ ký)
+ */
+export function buildCommitmentPdfReport(doc: CommitmentDocument): PdfReport {
+  return {
+    title: doc.title,
+    subtitle: `Mẫu ${doc.formCode} - Năm ${doc.year}`,
+    blocks: [
+      ...doc.sections.flatMap((section) => [
+        { type: 'heading' as const, text: section.title },
+        {
+          type: 'keyValue' as const,
+          rows: section.rows.map((row) => ({
+            label: row.label,
+            value: typeof row.value === 'number' ? formatCurrency(row.value) : row.value,
+            bold: row.highlight,
+            indent: !!row.indent,
+          })),
+        },
+      ]),
+      { type: 'paragraph', text: doc.statement },
+      { type: 'paragraph', text: doc.legalNote, tone: 'muted', boxed: true },
+      {
+        type: 'signatures',
+        boxes: [
+          { title: 'Người cam kết', caption: '(Ký, ghi rõ họ tên)', date: 'Ngày ... tháng ... năm ...' },
+        ],
+      },
+    ],
+  };
+}
+
 /**
  * Tra cứu thuế suất khấu trừ
  */
@@ -0,0 +1,307 @@
+/**
+ * XLSX Writer - Tạo file Excel (Office Open XML) không cần thư viện ngoài
+ *
+ * Workbook gồm nhiều sheet, ô số có định dạng VND, hàng tiêu đề cố định,
+ * độ rộng cột và dòng tổng dùng công thức SUM. File zip dùng phương thức
+ * STORE (không nén) nên chạy được cả trên trình duyệt lẫn Node.
+ */
+
+import type { ExcelCellFormat, ExcelRow, ExcelSheet } from './exportUtils';
+import { createZip, ZipEntry } from './zipArchive';
+
+// ============================================
+// Styles
+// ============================================
+
+// Thứ tự trùng với cellXfs trong styles.xml; bản in đậm nằm sau BOLD_OFFSET
+const FORMAT_STYLE: Record<ExcelCellFormat, number> = {
+  text: 0,
+  vnd: 1,
+  number: 2,
+  decimal: 3,
+  percent: 4,
+};
+const BOLD_OFFSET = 5;
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <numFmts count="2">
+    <numFmt numFmtId="164" formatCode="#,##0&quot; ₫&quot;"/>
+    <numFmt numFmtId="165" formatCode="#,##0.########"/>
+  </numFmts>
+  <fonts count="2">
+    <font><sz val="11"/><name val="Calibri"/></font>
+    <font><b/><sz val="11"/><name val="Calibri"/></font>
+  </fonts>
+  <fills count="3">
+    <fill><patternFill patternType="none"/></fill>
+    <fill><patternFill patternType="gray125"/></fill>
+    <fill><patternFill patternType="solid"><fgColor rgb="FFF3F4F6"/><bgColor indexed="64"/></patternFill></fill>
+  </fills>
+  <borders count="1">
+    <border><left/><right/><top/><bottom/><diagonal/></border>
+  </borders>
+  <cellStyleXfs count="1">
+    <xf numFmtId="0" fontId="0" fillId="0" borderId="0"/>
+  </cellStyleXfs>
+  <cellXfs count="10">
+    <xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+    <xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+    <xf numFmtId="164" fontId="1" fillId="2" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1" applyFill="1"/>
+    <xf numFmtId="3" fontId="1" fillId="2" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1" applyFill="1"/>
+    <xf numFmtId="165" fontId="1" fillId="2" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1" applyFill="1"/>
+    <xf numFmtId="10" fontId="1" fillId="2" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1" applyFill="1"/>
+  </cellXfs>
+  <cellStyles count="1">
+    <cellStyle name="Normal" xfId="0" builtinId="0"/>
+  </cellStyles>
+</styleSheet>`;
+
+// ============================================
+// XML helpers
+// ============================================
+
+// XML 1.0 không cho phép các ký tự điều khiển ngoài tab/xuống dòng
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Chỉ số cột (0-based) sang ký hiệu cột Excel: 0 → A, 26 → AA
+ */
+export function columnLetter(index: number): string {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+/**
+ * Tên sheet hợp lệ: tối đa 31 ký tự, không chứa []:*?/\ và không trùng nhau
+ */
+function sanitizeSheetNames(sheets: ExcelSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim() || `Sheet${index + 1}`;
+    let name = base.slice(0, MAX_SHEET_NAME_LENGTH);
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      const tag = ` (${suffix++})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - tag.length) + tag;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function getColumnFormat(sheet: ExcelSheet, header: string): ExcelCellFormat | undefined {
+  return sheet.columns?.[header]?.format;
+}
+
+/**
+ * Độ rộng cột: lấy theo cấu hình, nếu không thì ước lượng theo nội dung dài nhất
+ */
+function getColumnWidth(sheet: ExcelSheet, header: string): number {
+  const configured = sheet.columns?.[header]?.width;
+  if (configured) return configured;
+
+  const format = getColumnFormat(sheet, header);
+  const longest = sheet.rows.reduce((max, row) => {
+    const value = row[header];
+    if (value === undefined) return max;
+    const length = typeof value === 'number'
+      ? Math.round(value).toLocaleString('en-US').length + (format === 'vnd' ? 2 : 0)
+      : String(value).length;
+    return Math.max(max, length);
+  }, header.length);
+
+  return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2));
+}
+
+function renderCell(
+  ref: string,
+  value: string | number | undefined,
+  format: ExcelCellFormat | undefined,
+  bold: boolean
+): string {
+  if (value === undefined || value === '') return '';
+  const offset = bold ? BOLD_OFFSET : 0;
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    const style = FORMAT_STYLE[format ?? 'number'] + offset;
+    return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+  }
+
+  const style = FORMAT_STYLE.text + offset;
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+// ============================================
+// Worksheet
+// ============================================
+
+function buildWorksheetXml(sheet: ExcelSheet): string {
+  const { headers, rows, totals } = sheet;
+  const xmlRows: string[] = [];
+
+  // Hàng tiêu đề
+  xmlRows.push(
+    `<row r="1">${headers
+      .map((header, col) => renderCell(`${columnLetter(col)}1`, header, 'text', true))
+      .join('')}</row>`
+  );
+
+  // Dữ liệu
+  rows.forEach((row: ExcelRow, index) => {
+    const rowNumber = index + 2;
+    const cells = headers
+      .map((header, col) =>
+        renderCell(`${columnLetter(col)}${rowNumber}`, row[header], getColumnFormat(sheet, header), false)
+      )
+      .join('');
+    xmlRows.push(`<row r="${rowNumber}">${cells}</row>`);
+  });
+
+  // Dòng tổng: công thức SUM, kèm giá trị đã tính để trình xem không tính lại vẫn hiển thị đúng
+  if (totals && rows.length > 0) {
+    const totalRowNumber = rows.length + 2;
+    const labelColumn = totals.labelColumn ?? headers[0];
+    const cells = headers
+      .map((header, col) => {
+        const ref = `${columnLetter(col)}${totalRowNumber}`;
+        if (totals.columns.includes(header)) {
+          const letter = columnLetter(col);
+          const cached = sumColumn(rows, header);
+          const style = FORMAT_STYLE[getColumnFormat(sheet, header) ?? 'number'] + BOLD_OFFSET;
+          return `<c r="${ref}" s="${style}"><f>SUM(${letter}2:${letter}${totalRowNumber - 1})</f><v>${cached}</v></c>`;
+        }
+        if (header === labelColumn) {
+          return renderCell(ref, totals.label, 'text', true);
+        }
+        return `<c r="${ref}" s="${FORMAT_STYLE.text + BOLD_OFFSET}"/>`;
+      })
+      .join('');
+    xmlRows.push(`<row r="${totalRowNumber}">${cells}</row>`);
+  }
+
+  const cols = headers
+    .map((header, col) => {
+      const width = getColumnWidth(sheet, header);
+      return `<col min="${col + 1}" max="${col + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheetViews>
+    <sheetView workbookViewId="0">
+      <pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>
+      <selection pane="bottomLeft" activeCell="A2" sqref="A2"/>
+    </sheetView>
+  </sheetViews>
+  <sheetFormatPr defaultRowHeight="15"/>
+  ${headers.length > 0 ? `<cols>${cols}</cols>` : ''}
+  <sheetData>${xmlRows.join('')}</sheetData>
+</worksheet>`;
+}
+
+function sumColumn(rows: ExcelRow[], header: string): number {
+  return rows.reduce((sum, row) => {
+    const value = row[header];
+    return typeof value === 'number' && Number.isFinite(value) ? sum + value : sum;
+  }, 0);
+}
+
+// ============================================
+// Workbook parts
+// ============================================
+
+function buildContentTypesXml(sheetCount: number): string {
+  const overrides = Array.from({ length: sheetCount }, (_, i) =>
+    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+  <Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+  ${overrides}
+</Types>`;
+}
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+function buildWorkbookXml(sheetNames: string[]): string {
+  const sheets = sheetNames
+    .map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+  <sheets>${sheets}</sheets>
+  <calcPr calcId="191029" fullCalcOnLoad="1"/>
+</workbook>`;
+}
+
+function buildWorkbookRelsXml(sheetCount: number): string {
+  const sheetRels = Array.from({ length: sheetCount }, (_, i) =>
+    `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+  ).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  ${sheetRels}
+  <Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Tạo nội dung file .xlsx từ danh sách sheet
+ */
+export function buildXlsx(sheets: ExcelSheet[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = sanitizeSheetNames(sheets);
+
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: encoder.encode(buildContentTypesXml(sheets.length)) },
+    { name: '_rels/.rels', data: encoder.encode(ROOT_RELS_XML) },
+    { name: 'xl/workbook.xml', data: encoder.encode(buildWorkbookXml(names)) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(buildWorkbookRelsXml(sheets.length)) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: encoder.encode(buildWorksheetXml(sheet)),
+    })),
+  ];
+
+  return createZip(entries);
+}
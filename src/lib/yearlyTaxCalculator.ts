@@ -1,16 +1,11 @@
 // Tính thuế TNCN theo năm - So sánh các kịch bản
 import {
-  OLD_TAX_BRACKETS,
-  NEW_TAX_BRACKETS,
-  OLD_DEDUCTIONS,
-  NEW_DEDUCTIONS,
-  INSURANCE_RATES,
-  getMaxSocialInsuranceSalary,
-  getMaxUnemploymentInsuranceSalary,
   RegionType,
   formatCurrency,
   InsuranceDetail,
+  getPeriodDate,
 } from './taxCalculator';
+import { TaxBracket, TaxRuleSet, getTaxRulesForDate } from './taxRuleRegistry';
 
 // ===== INTERFACES =====
 
@@ -35,6 +30,7 @@ export interface YearScenario {
 
 export interface MonthlyResult {
   month: number;
+  asOf: Date;           // Kỳ tính thuế (tháng thưởng > 12 tính như tháng 12)
   grossIncome: number;
   insurance: number;
   insuranceDetail: InsuranceDetail;
@@ -91,20 +87,18 @@ function calculateInsuranceDetailed(
     return { bhxh: 0, bhyt: 0, bhtn: 0, total: 0 };
   }
 
-  // Ngày hiệu lực để xác định trần đóng bảo hiểm (month is 1-indexed)
   // Trần BHXH/BHYT đổi từ 01/7/2026; lương tối thiểu vùng 2026 từ 01/01/2026
-  const effectiveDate = new Date(year, month - 1, 1);
+  const rules = getRulesForMonth(year, month);
 
   // BHXH và BHYT: tối đa 20 lần lương cơ sở (date-aware)
-  const bhxhBhytBase = Math.min(grossIncome, getMaxSocialInsuranceSalary(effectiveDate));
-  const bhxh = bhxhBhytBase * INSURANCE_RATES.socialInsurance;
-  const bhyt = bhxhBhytBase * INSURANCE_RATES.healthInsurance;
+  const bhxhBhytBase = Math.min(grossIncome, rules.maxSocialInsuranceSalary);
+  const bhxh = bhxhBhytBase * rules.insuranceRates.socialInsurance;
+  const bhyt = bhxhBhytBase * rules.insuranceRates.healthInsurance;
 
   // BHTN: tối đa 20 lần lương tối thiểu vùng (date-aware)
-  const maxBhtnByRegion = getMaxUnemploymentInsuranceSalary(effectiveDate);
-  const maxBhtn = maxBhtnByRegion[region];
+  const maxBhtn = rules.maxUnemploymentInsuranceSalary[region];
   const bhtnBase = Math.min(grossIncome, maxBhtn);
-  const bhtn = bhtnBase * INSURANCE_RATES.unemploymentInsurance;
+  const bhtn = bhtnBase * rules.insuranceRates.unemploymentInsurance;
 
   return {
     bhxh,
@@ -116,7 +110,7 @@ function calculateInsuranceDetailed(
 
 function calculateTaxWithBrackets(
   taxableIncome: number,
-  brackets: typeof OLD_TAX_BRACKETS
+  brackets: TaxBracket[]
 ): number {
   if (taxableIncome <= 0) return 0;
 
@@ -135,25 +129,15 @@ function calculateTaxWithBrackets(
 }
 
 /**
- * Xác định luật áp dụng cho từng tháng
+ * Bộ tham số áp dụng cho từng tháng (month is 1-indexed, tháng thưởng > 12 tính như tháng 12)
  * - 2025: Luật cũ (7 bậc)
  * - 2026: Luật mới (5 bậc) - áp dụng từ 01/01/2026 cho thu nhập từ tiền lương, tiền công
  *
  * Note: Theo điều khoản chuyển tiếp của Luật Thuế TNCN sửa đổi 2025,
  * quy định liên quan đến thu nhập từ tiền lương, tiền công áp dụng từ kỳ tính thuế năm 2026
  */
-function getLawForMonth(year: 2025 | 2026, month: number): 'old' | 'new' {
-  if (year === 2025) return 'old';
-  // 2026: Luật mới áp dụng từ tháng 1 (không phải tháng 7)
-  return 'new';
-}
-
-function getDeductionsForLaw(law: 'old' | 'new') {
-  return law === 'old' ? OLD_DEDUCTIONS : NEW_DEDUCTIONS;
-}
-
-function getBracketsForLaw(law: 'old' | 'new') {
-  return law === 'old' ? OLD_TAX_BRACKETS : NEW_TAX_BRACKETS;
+function getRulesForMonth(year: 2025 | 2026, month: number): TaxRuleSet {
+  return getTaxRulesForDate(getPeriodDate(year, Math.min(month, 12)));
 }
 
 /**
@@ -168,9 +152,7 @@ export function calculateMonthlyTax(
   declaredSalary?: number
 ): MonthlyResult {
   const { month, grossIncome, isBonus, label } = entry;
-  const law = getLawForMonth(year, month);
-  const deductions = getDeductionsForLaw(law);
-  const brackets = getBracketsForLaw(law);
+  const { law, deductions, brackets } = getRulesForMonth(year, month);
 
   // Tính bảo hiểm (dựa trên lương khai báo nếu có, date-aware cho BHTN cap)
   const insuranceBase = declaredSalary ?? grossIncome;
@@ -194,6 +176,7 @@ export function calculateMonthlyTax(
 
   return {
     month,
+    asOf: getPeriodDate(year, effectiveMonth),
     grossIncome,
     insurance,
     insuranceDetail,
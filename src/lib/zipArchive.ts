@@ -0,0 +1,184 @@
+/**
+ * ZIP archive - Ghi và đọc file zip phương thức STORE (không nén)
+ *
+ * Dùng chung cho file Excel (.xlsx) và file sao lưu kèm tài liệu đính kèm.
+ * Không cần thư viện ngoài, chạy được cả trên trình duyệt lẫn Node.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_LENGTH = 30;
+const CENTRAL_HEADER_LENGTH = 46;
+const END_OF_CENTRAL_LENGTH = 22;
+const METHOD_STORE = 0;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (IEEE) của dữ liệu, như trong file zip
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Ngày 01/01/1980 theo định dạng DOS - giữ cố định để cùng dữ liệu cho cùng file
+const DOS_DATE = 0x0021;
+const DOS_TIME = 0;
+
+/**
+ * Tạo file zip từ danh sách file
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_LENGTH));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, METHOD_STORE, true);
+    local.setUint16(10, DOS_TIME, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(CENTRAL_HEADER_LENGTH));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, METHOD_STORE, true);
+    central.setUint16(12, DOS_TIME, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += LOCAL_HEADER_LENGTH + name.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_LENGTH));
+  end.setUint32(0, END_OF_CENTRAL_SIGNATURE, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+/**
+ * Kiểm tra nhanh dữ liệu có phải file zip không (dựa vào chữ ký đầu file)
+ */
+export function isZipData(data: Uint8Array): boolean {
+  return (
+    data.length >= 4 &&
+    new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === LOCAL_HEADER_SIGNATURE
+  );
+}
+
+/**
+ * Đọc các file trong zip phương thức STORE (file do createZip tạo)
+ * Ném lỗi khi file hỏng, có file nén hoặc sai CRC
+ */
+export function readZip(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // Bản ghi cuối nằm ở cuối file, sau phần chú thích (tối đa 65535 byte)
+  let endOffset = -1;
+  const searchStart = Math.max(0, data.length - END_OF_CENTRAL_LENGTH - 0xffff);
+  for (let i = data.length - END_OF_CENTRAL_LENGTH; i >= searchStart; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('File zip không hợp lệ');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (position + CENTRAL_HEADER_LENGTH > data.length || view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('File zip không hợp lệ');
+    }
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(data.subarray(position + CENTRAL_HEADER_LENGTH, position + CENTRAL_HEADER_LENGTH + nameLength));
+    position += CENTRAL_HEADER_LENGTH + nameLength + extraLength + commentLength;
+
+    // Thư mục không có dữ liệu
+    if (name.endsWith('/')) continue;
+    if (method !== METHOD_STORE) {
+      throw new Error('File zip đã bị nén lại, hãy dùng file sao lưu gốc');
+    }
+
+    if (localOffset + LOCAL_HEADER_LENGTH > data.length || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error('File zip không hợp lệ');
+    }
+    const dataStart =
+      localOffset +
+      LOCAL_HEADER_LENGTH +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const entryData = data.subarray(dataStart, dataStart + size);
+    if (entryData.length !== size || crc32(entryData) !== crc) {
+      throw new Error(`File "${name}" trong zip bị hỏng`);
+    }
+
+    entries.push({ name, data: entryData });
+  }
+
+  return entries;
+}